@@ -0,0 +1,62 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('event_series', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE');
+    table
+      .uuid('created_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.jsonb('recurrence').notNullable();
+    table.timestamp('series_start').notNullable();
+    table.integer('duration_minutes').notNullable();
+    table.jsonb('template').notNullable().defaultTo('{}');
+    table.timestamp('generated_until');
+    table.boolean('is_active').defaultTo(true);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Indexes for performance
+    table.index(['organization_id']);
+    table.index(['is_active', 'generated_until']);
+  });
+
+  await knex.schema.alterTable('events', table => {
+    table
+      .uuid('series_id')
+      .references('id')
+      .inTable('event_series')
+      .onDelete('SET NULL');
+    table.timestamp('occurrence_start');
+    table.boolean('is_series_exception').defaultTo(false);
+
+    // One materialized event per series occurrence
+    table.unique(['series_id', 'occurrence_start']);
+    table.index(['series_id', 'start_time']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('events', table => {
+    table.dropIndex(['series_id', 'start_time']);
+    table.dropUnique(['series_id', 'occurrence_start']);
+    table.dropColumn('is_series_exception');
+    table.dropColumn('occurrence_start');
+    table.dropColumn('series_id');
+  });
+
+  await knex.schema.dropTable('event_series');
+};
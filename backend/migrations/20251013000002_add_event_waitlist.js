@@ -0,0 +1,40 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.alterTable('event_registrations', table => {
+    // Position in the waitlist (null unless status is 'waitlisted')
+    table.integer('waitlist_position').nullable();
+    // Set when a waitlisted user is promoted and must confirm their seat
+    table.timestamp('promoted_at').nullable();
+    table.timestamp('confirmation_expires_at').nullable();
+
+    table.index(['event_id', 'status', 'waitlist_position']);
+    table.index(['confirmation_expires_at']);
+  });
+
+  await knex.schema.alterTable('events', table => {
+    // How long a promoted user has to confirm before the seat passes on
+    // (null falls back to the server default)
+    table.integer('waitlist_confirmation_minutes').nullable();
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('events', table => {
+    table.dropColumn('waitlist_confirmation_minutes');
+  });
+
+  await knex.schema.alterTable('event_registrations', table => {
+    table.dropIndex(['event_id', 'status', 'waitlist_position']);
+    table.dropIndex(['confirmation_expires_at']);
+    table.dropColumn('waitlist_position');
+    table.dropColumn('promoted_at');
+    table.dropColumn('confirmation_expires_at');
+  });
+};
@@ -0,0 +1,30 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.createTable('calendar_feed_tokens', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    // Secret embedded in feed URLs; rotating replaces it, revoking deletes the row
+    table.string('token', 64).notNullable().unique();
+    table.timestamp('last_used_at').nullable();
+    table.timestamps(true, true);
+
+    // One feed token per user
+    table.unique(['user_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('calendar_feed_tokens');
+};
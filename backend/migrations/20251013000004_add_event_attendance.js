@@ -0,0 +1,67 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.alterTable('event_registrations', table => {
+    // Set when attendance is recorded (status 'attended' or 'no_show')
+    table.timestamp('checked_in_at').nullable();
+    table
+      .uuid('attendance_marked_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    // How attendance was recorded: organizer, check_in_code or discord
+    table.string('attendance_source', 20).nullable();
+
+    table.index(['user_id', 'status']);
+  });
+
+  // Short-lived codes members enter to check themselves in. Kept out of the
+  // events table so codes are never exposed through event responses.
+  await knex.schema.createTable('event_check_in_codes', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('event_id')
+      .references('id')
+      .inTable('events')
+      .onDelete('CASCADE')
+      .notNullable()
+      .unique();
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .nullable();
+    table.string('code', 12).notNullable();
+    table.timestamp('expires_at').notNullable();
+    table
+      .uuid('created_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['organization_id', 'code']);
+    table.index(['expires_at']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('event_check_in_codes');
+
+  await knex.schema.alterTable('event_registrations', table => {
+    table.dropIndex(['user_id', 'status']);
+    table.dropForeign(['attendance_marked_by']);
+    table.dropColumn('checked_in_at');
+    table.dropColumn('attendance_marked_by');
+    table.dropColumn('attendance_source');
+  });
+};
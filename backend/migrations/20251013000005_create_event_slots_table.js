@@ -0,0 +1,51 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Named positions (e.g. "Hammerhead gunner") participants can sign up for
+  await knex.schema.createTable('event_slots', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('event_id')
+      .references('id')
+      .inTable('events')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.string('name', 100).notNullable();
+    table.text('description').nullable();
+    table.integer('capacity').notNullable();
+    // HR skills (hr_skills.id) a member must have verified to claim the slot
+    table.jsonb('required_skill_ids').notNullable().defaultTo('[]');
+    table.integer('sort_order').notNullable().defaultTo(0);
+    table.timestamps(true, true);
+
+    table.index(['event_id', 'sort_order']);
+  });
+
+  await knex.schema.alterTable('event_registrations', table => {
+    // Slot claimed by the participant (null for general sign-ups)
+    table
+      .uuid('slot_id')
+      .references('id')
+      .inTable('event_slots')
+      .onDelete('SET NULL')
+      .nullable();
+
+    table.index(['event_id', 'slot_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('event_registrations', table => {
+    table.dropIndex(['event_id', 'slot_id']);
+    table.dropForeign(['slot_id']);
+    table.dropColumn('slot_id');
+  });
+
+  await knex.schema.dropTableIfExists('event_slots');
+};
@@ -0,0 +1,32 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.alterTable('discord_events', table => {
+    // Where the event was first created: 'platform' (pushed to Discord) or 'discord' (imported)
+    table.string('origin', 20).notNullable().defaultTo('platform');
+    // Title and times both sides agreed on at the last sync, used to tell which side changed
+    table.jsonb('discord_snapshot').nullable();
+    // Last time the inbound job saw the Discord event unchanged
+    table.timestamp('discord_checked_at').nullable();
+    // Conflicts resolved by the inbound job (both sides edited since the last sync)
+    table.jsonb('sync_conflicts').notNullable().defaultTo('[]');
+
+    table.index(['discord_guild_id', 'sync_status']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('discord_events', table => {
+    table.dropIndex(['discord_guild_id', 'sync_status']);
+    table.dropColumn('sync_conflicts');
+    table.dropColumn('discord_checked_at');
+    table.dropColumn('discord_snapshot');
+    table.dropColumn('origin');
+  });
+};
@@ -0,0 +1,46 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Discord guild role granted to members holding an organization role
+  await knex.schema.createTable('discord_role_mappings', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('discord_server_id')
+      .references('id')
+      .inTable('discord_servers')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('organization_role_id')
+      .references('id')
+      .inTable('organization_roles')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.string('discord_role_id').notNullable();
+    table.timestamps(true, true);
+
+    table.unique(['discord_server_id', 'organization_role_id']);
+    table.unique(['discord_server_id', 'discord_role_id']);
+  });
+
+  await knex.schema.alterTable('discord_servers', table => {
+    // Let the reconciliation job correct drift instead of only reporting it
+    table.boolean('role_sync_auto_fix').notNullable().defaultTo(false);
+    table.timestamp('role_sync_checked_at').nullable();
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('discord_servers', table => {
+    table.dropColumn('role_sync_checked_at');
+    table.dropColumn('role_sync_auto_fix');
+  });
+
+  await knex.schema.dropTableIfExists('discord_role_mappings');
+};
@@ -0,0 +1,66 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Every role a member holds; organization_members.role_id keeps the highest-ranked one
+  await knex.schema.createTable('organization_member_roles', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('role_id')
+      .references('id')
+      .inTable('organization_roles')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('assigned_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['organization_id', 'user_id', 'role_id']);
+    table.index(['role_id']);
+  });
+
+  // Carry over the single role each member has today
+  await knex.raw(`
+    INSERT INTO organization_member_roles (organization_id, user_id, role_id, created_at)
+    SELECT organization_id, user_id, role_id, COALESCE(joined_at, created_at, NOW())
+    FROM organization_members
+    WHERE role_id IS NOT NULL
+    ON CONFLICT DO NOTHING
+  `);
+
+  // Members from before role_id only have the legacy role name
+  await knex.raw(`
+    INSERT INTO organization_member_roles (organization_id, user_id, role_id, created_at)
+    SELECT m.organization_id, m.user_id, r.id, COALESCE(m.joined_at, m.created_at, NOW())
+    FROM organization_members m
+    JOIN organization_roles r
+      ON r.organization_id = m.organization_id AND LOWER(r.name) = LOWER(m.role)
+    WHERE m.role_id IS NULL AND m.role IS NOT NULL
+    ON CONFLICT DO NOTHING
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('organization_member_roles');
+};
@@ -0,0 +1,44 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Allow/deny entries that refine org-wide permissions for a single resource.
+  // Folders are identified by their folder path, documents and events by ID.
+  await knex.schema.createTable('resource_permission_overrides', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .enum('resource_type', ['document_folder', 'document', 'event'])
+      .notNullable();
+    table.string('resource_id', 500).notNullable();
+    table.enum('subject_type', ['role', 'user']).notNullable();
+    table.uuid('subject_id').notNullable();
+    table.enum('action', ['view', 'manage']).notNullable().defaultTo('view');
+    table.enum('effect', ['allow', 'deny']).notNullable();
+    table
+      .uuid('created_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamps(true, true);
+
+    table.unique(['organization_id', 'resource_type', 'resource_id', 'subject_type', 'subject_id', 'action']);
+    table.index(['organization_id', 'resource_type', 'resource_id']);
+    table.index(['subject_type', 'subject_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('resource_permission_overrides');
+};
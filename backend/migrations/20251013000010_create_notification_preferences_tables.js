@@ -0,0 +1,67 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // One row per explicit choice. Rows without an organization are the user's global
+  // preference for that type and channel; organization rows override them.
+  await knex.schema.createTable('notification_preferences', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .nullable();
+    table.integer('entity_type').notNullable();
+    table.enum('channel', ['in_app', 'discord_dm', 'email_digest']).notNullable();
+    table.boolean('enabled').notNullable();
+    table.timestamps(true, true);
+
+    table.index(['user_id', 'entity_type', 'channel']);
+  });
+
+  // NULL organization IDs are distinct in a plain unique constraint, so global and
+  // per-organization rows each get their own partial index
+  await knex.raw(`
+    CREATE UNIQUE INDEX notification_preferences_global_unique
+    ON notification_preferences (user_id, entity_type, channel)
+    WHERE organization_id IS NULL
+  `);
+  await knex.raw(`
+    CREATE UNIQUE INDEX notification_preferences_organization_unique
+    ON notification_preferences (user_id, organization_id, entity_type, channel)
+    WHERE organization_id IS NOT NULL
+  `);
+
+  await knex.schema.createTable('notification_settings', table => {
+    table
+      .uuid('user_id')
+      .primary()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    // IANA timezone name used to evaluate quiet hours
+    table.string('timezone', 64).notNullable().defaultTo('UTC');
+    table.boolean('quiet_hours_enabled').notNullable().defaultTo(false);
+    // Local wall-clock times as HH:MM; a start after the end spans midnight
+    table.string('quiet_hours_start', 5).notNullable().defaultTo('22:00');
+    table.string('quiet_hours_end', 5).notNullable().defaultTo('08:00');
+    table.timestamps(true, true);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('notification_settings');
+  await knex.schema.dropTableIfExists('notification_preferences');
+};
@@ -0,0 +1,69 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.alterTable('notification_settings', table => {
+    table.enum('digest_frequency', ['off', 'daily', 'weekly']).notNullable().defaultTo('off');
+  });
+
+  // One row per user and period. The unique key is what makes digest generation idempotent:
+  // a run claims the period by inserting the row, and later runs skip claimed periods.
+  await knex.schema.createTable('notification_digests', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.enum('frequency', ['daily', 'weekly']).notNullable();
+    // First local day of the period in the user's timezone
+    table.date('period_start').notNullable();
+    table.integer('notification_count').notNullable().defaultTo(0);
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.unique(['user_id', 'frequency', 'period_start']);
+  });
+
+  // Stored at delivery so digests can group by organization without per-type lookups
+  await knex.schema.alterTable('notification_object', table => {
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('SET NULL')
+      .nullable();
+  });
+
+  await knex.schema.alterTable('notification', table => {
+    table.timestamp('digested_at').nullable();
+    table
+      .uuid('digest_id')
+      .references('id')
+      .inTable('notification_digests')
+      .onDelete('SET NULL')
+      .nullable();
+
+    table.index(['notifier_id', 'is_read', 'digested_at']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('notification', table => {
+    table.dropIndex(['notifier_id', 'is_read', 'digested_at']);
+    table.dropColumn('digest_id');
+    table.dropColumn('digested_at');
+  });
+  await knex.schema.alterTable('notification_object', table => {
+    table.dropColumn('organization_id');
+  });
+  await knex.schema.dropTableIfExists('notification_digests');
+  await knex.schema.alterTable('notification_settings', table => {
+    table.dropColumn('digest_frequency');
+  });
+};
@@ -0,0 +1,57 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Platform-wide reputation moderators. Admins can also grant and revoke moderators.
+  await knex.schema.createTable('reputation_moderators', table => {
+    table
+      .uuid('user_id')
+      .primary()
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE');
+    table.enum('role', ['moderator', 'admin']).notNullable().defaultTo('moderator');
+    table
+      .uuid('granted_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamps(true, true);
+  });
+
+  // Audit trail of every moderation decision and appeal. report_id points into the
+  // table named by report_type, so it has no foreign key.
+  await knex.schema.createTable('reputation_moderation_actions', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .enum('report_type', ['player', 'organization', 'alt_account', 'affiliated_people'])
+      .notNullable();
+    table.uuid('report_id').notNullable();
+    // Kept when the acting account is deleted so the trail stays complete
+    table
+      .uuid('actor_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.enum('action', ['approve', 'reject', 'appeal']).notNullable();
+    table.string('from_status').notNullable();
+    table.string('to_status').notNullable();
+    table.text('rationale').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['report_type', 'report_id']);
+    table.index(['actor_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('reputation_moderation_actions');
+  await knex.schema.dropTableIfExists('reputation_moderators');
+};
@@ -0,0 +1,31 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Computed reputation per player. Rows are rewritten when the player's tags or reports
+  // change, and flagged stale when the standing of someone who attested on them changes.
+  await knex.schema.createTable('player_reputation_scores', table => {
+    table
+      .uuid('player_id')
+      .primary()
+      .references('id')
+      .inTable('sc_players')
+      .onDelete('CASCADE');
+    table.float('score').notNullable();
+    table.enum('confidence', ['low', 'medium', 'high']).notNullable();
+    table.jsonb('breakdown').notNullable().defaultTo('{}');
+    table.boolean('is_stale').notNullable().defaultTo(false);
+    table.timestamp('computed_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['score']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('player_reputation_scores');
+};
@@ -0,0 +1,51 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Background re-sync schedule: players are picked up once next_sync_at passes
+  await knex.schema.alterTable('sc_players', table => {
+    table.timestamp('next_sync_at').nullable();
+    table.timestamp('last_viewed_at').nullable();
+    // Consecutive failed syncs, used to back off players Spectrum can't find
+    table.integer('sync_failure_count').notNullable().defaultTo(0);
+
+    table.index(['next_sync_at']);
+  });
+
+  // Users notified when a player's handle or organizations change
+  await knex.schema.createTable('player_watchers', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('player_id')
+      .references('id')
+      .inTable('sc_players')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.unique(['player_id', 'user_id']);
+    table.index(['user_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('player_watchers');
+
+  await knex.schema.alterTable('sc_players', table => {
+    table.dropIndex(['next_sync_at']);
+    table.dropColumn('next_sync_at');
+    table.dropColumn('last_viewed_at');
+    table.dropColumn('sync_failure_count');
+  });
+};
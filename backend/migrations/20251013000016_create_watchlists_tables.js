@@ -0,0 +1,136 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Personal lists have no organization; lists with one are shared with its members
+  await knex.schema.createTable('watchlists', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name', 100).notNullable();
+    table.text('description').nullable();
+    table
+      .uuid('owner_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .nullable();
+    // The personal list that "watch player" adds to
+    table.boolean('is_default').notNullable().defaultTo(false);
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['owner_id']);
+    table.index(['organization_id']);
+  });
+
+  // An entry follows either a tracked player or an RSI organization by its SID
+  await knex.schema.createTable('watchlist_entries', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('watchlist_id')
+      .references('id')
+      .inTable('watchlists')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.enum('entry_type', ['player', 'organization']).notNullable();
+    table
+      .uuid('player_id')
+      .references('id')
+      .inTable('sc_players')
+      .onDelete('CASCADE')
+      .nullable();
+    table.string('org_spectrum_id').nullable();
+    table.string('org_name').nullable();
+    table.text('note').nullable();
+    table
+      .uuid('added_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.unique(['watchlist_id', 'player_id']);
+    table.unique(['watchlist_id', 'org_spectrum_id']);
+    table.index(['player_id']);
+    table.index(['org_spectrum_id']);
+  });
+
+  // Player watchers become entries on each user's default personal list
+  const watchers = await knex('player_watchers').select('player_id', 'user_id', 'created_at');
+  const userIds = [...new Set(watchers.map(watcher => watcher.user_id))];
+
+  for (const userId of userIds) {
+    const [watchlist] = await knex('watchlists')
+      .insert({ name: 'My Watchlist', owner_id: userId, is_default: true })
+      .returning('id');
+
+    await knex('watchlist_entries').insert(
+      watchers
+        .filter(watcher => watcher.user_id === userId)
+        .map(watcher => ({
+          watchlist_id: watchlist.id,
+          entry_type: 'player',
+          player_id: watcher.player_id,
+          added_by: userId,
+          created_at: watcher.created_at,
+        }))
+    );
+  }
+
+  await knex.schema.dropTable('player_watchers');
+
+  // Owners and admins of existing organizations can manage shared watchlists
+  await knex.raw(`
+    INSERT INTO organization_permissions (role_id, permission, granted, created_at, updated_at)
+    SELECT id, 'manage_watchlists', true, NOW(), NOW()
+    FROM organization_roles
+    WHERE is_system_role = true AND name IN ('Owner', 'Admin')
+    ON CONFLICT (role_id, permission) DO NOTHING
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex('organization_permissions').where({ permission: 'manage_watchlists' }).del();
+
+  await knex.schema.createTable('player_watchers', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('player_id')
+      .references('id')
+      .inTable('sc_players')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.unique(['player_id', 'user_id']);
+    table.index(['user_id']);
+  });
+
+  await knex.raw(`
+    INSERT INTO player_watchers (player_id, user_id, created_at)
+    SELECT DISTINCT ON (e.player_id, w.owner_id) e.player_id, w.owner_id, e.created_at
+    FROM watchlist_entries e
+    JOIN watchlists w ON w.id = e.watchlist_id
+    WHERE w.organization_id IS NULL AND e.player_id IS NOT NULL
+  `);
+
+  await knex.schema.dropTableIfExists('watchlist_entries');
+  await knex.schema.dropTableIfExists('watchlists');
+};
@@ -0,0 +1,22 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Background check on the applicant, run when the application is submitted
+  await knex.schema.alterTable('hr_applications', table => {
+    table.jsonb('vetting_summary').nullable();
+    table.timestamp('vetted_at').nullable();
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('hr_applications', table => {
+    table.dropColumn('vetting_summary');
+    table.dropColumn('vetted_at');
+  });
+};
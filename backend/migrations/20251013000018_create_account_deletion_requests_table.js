@@ -0,0 +1,49 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // A user asks for their account to be deleted, and it is carried out once the
+  // grace period runs out unless they cancel first
+  await knex.schema.createTable('account_deletion_requests', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .enum('status', ['pending', 'cancelled', 'completed', 'blocked'])
+      .notNullable()
+      .defaultTo('pending');
+    table.text('reason').nullable();
+    // [{ organization_id, new_owner_id }] for each organization the user owns
+    table.jsonb('organization_transfers').notNullable().defaultTo('[]');
+    table.timestamp('scheduled_for').notNullable();
+    table.timestamp('cancelled_at').nullable();
+    table.timestamp('completed_at').nullable();
+    table.text('blocked_reason').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['user_id']);
+    table.index(['status', 'scheduled_for']);
+  });
+
+  // Deleted accounts are kept as anonymous placeholders so authored content survives
+  await knex.schema.alterTable('users', table => {
+    table.timestamp('deleted_at').nullable();
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('users', table => {
+    table.dropColumn('deleted_at');
+  });
+  await knex.schema.dropTableIfExists('account_deletion_requests');
+};
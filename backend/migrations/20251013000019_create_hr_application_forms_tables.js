@@ -0,0 +1,77 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Recruitment application forms an organization builds for its divisions
+  await knex.schema.createTable('hr_application_forms', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.string('name', 100).notNullable();
+    table.text('description').nullable();
+    table.integer('current_version').notNullable().defaultTo(1);
+    // Archived forms stop taking applications but keep their versions for review
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table
+      .uuid('created_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['organization_id', 'is_active']);
+  });
+
+  // Questions are never edited in place: every change becomes a new version so
+  // submitted applications are always read against the questions the applicant saw
+  await knex.schema.createTable('hr_application_form_versions', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('form_id')
+      .references('id')
+      .inTable('hr_application_forms')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.integer('version').notNullable();
+    table.jsonb('questions').notNullable().defaultTo('[]');
+    table
+      .uuid('created_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.unique(['form_id', 'version']);
+  });
+
+  await knex.schema.alterTable('hr_applications', table => {
+    table
+      .uuid('form_id')
+      .references('id')
+      .inTable('hr_application_forms')
+      .onDelete('SET NULL')
+      .nullable();
+    table.integer('form_version').nullable();
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('hr_applications', table => {
+    table.dropColumn('form_id');
+    table.dropColumn('form_version');
+  });
+  await knex.schema.dropTableIfExists('hr_application_form_versions');
+  await knex.schema.dropTableIfExists('hr_application_forms');
+};
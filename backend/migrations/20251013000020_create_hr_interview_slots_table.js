@@ -0,0 +1,75 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Availability windows recruiters publish; an applicant books one to schedule
+  // their interview and the same row then carries the interview itself
+  await knex.schema.createTable('hr_interview_slots', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('interviewer_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.timestamp('start_time').notNullable();
+    table.timestamp('end_time').notNullable();
+    table
+      .enum('status', ['open', 'booked', 'completed', 'cancelled'])
+      .notNullable()
+      .defaultTo('open');
+    table
+      .uuid('application_id')
+      .references('id')
+      .inTable('hr_applications')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamp('booked_at').nullable();
+
+    // Private Discord voice channel and scheduled event, when the recruiter asked for one
+    table.boolean('create_discord_event').notNullable().defaultTo(false);
+    table.string('discord_guild_id').nullable();
+    table.string('discord_channel_id').nullable();
+    table.string('discord_event_id').nullable();
+
+    // Set once each reminder went out so the reminder job never repeats one
+    table.timestamp('reminder_24h_sent_at').nullable();
+    table.timestamp('reminder_1h_sent_at').nullable();
+
+    // Structured interview notes and the interviewer's recommendation
+    table.jsonb('notes').nullable();
+    table
+      .enum('recommendation', ['strong_yes', 'yes', 'no', 'strong_no'])
+      .nullable();
+    table.timestamp('completed_at').nullable();
+
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['organization_id', 'status', 'start_time']);
+    table.index(['status', 'start_time']);
+    table.index(['application_id']);
+  });
+
+  // An application holds at most one upcoming interview
+  await knex.raw(`
+    CREATE UNIQUE INDEX hr_interview_slots_booked_application_unique
+    ON hr_interview_slots (application_id)
+    WHERE status = 'booked'
+  `);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('hr_interview_slots');
+};
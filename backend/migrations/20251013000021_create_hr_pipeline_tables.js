@@ -0,0 +1,98 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // An organization's own recruitment stages. Each stage belongs to one of the
+  // application statuses, so the status lifecycle still holds between stages.
+  await knex.schema.createTable('hr_pipeline_stages', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.string('name', 100).notNullable();
+    table.text('description').nullable();
+    table
+      .enum('status', [
+        'pending',
+        'under_review',
+        'interview_scheduled',
+        'approved',
+        'rejected',
+      ])
+      .notNullable();
+    table.integer('position').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['organization_id', 'position']);
+  });
+
+  await knex.schema.createTable('hr_pipeline_rules', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.string('name', 100).notNullable();
+    table
+      .enum('trigger', [
+        'application_submitted',
+        'status_changed',
+        'stage_entered',
+        'idle',
+      ])
+      .notNullable();
+    table.jsonb('conditions').notNullable().defaultTo('{}');
+    table.jsonb('actions').notNullable().defaultTo('[]');
+    table.boolean('is_active').notNullable().defaultTo(true);
+    // Counts round-robin assignments so the next one goes to the next recruiter
+    table.integer('assignment_cursor').notNullable().defaultTo(0);
+    table
+      .uuid('created_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['organization_id', 'trigger', 'is_active']);
+  });
+
+  await knex.schema.alterTable('hr_applications', table => {
+    table
+      .uuid('stage_id')
+      .references('id')
+      .inTable('hr_pipeline_stages')
+      .onDelete('SET NULL')
+      .nullable();
+    table
+      .uuid('assignee_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+
+    table.index(['stage_id']);
+    table.index(['assignee_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('hr_applications', table => {
+    table.dropColumn('stage_id');
+    table.dropColumn('assignee_id');
+  });
+  await knex.schema.dropTableIfExists('hr_pipeline_rules');
+  await knex.schema.dropTableIfExists('hr_pipeline_stages');
+};
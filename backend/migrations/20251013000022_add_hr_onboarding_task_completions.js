@@ -0,0 +1,21 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  await knex.schema.alterTable('hr_onboarding_progress', table => {
+    // Who completed each task and how, keyed by task id. Tasks can be signed off by
+    // someone other than the member or complete on their own from a trigger.
+    table.jsonb('task_completions').notNullable().defaultTo('{}');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.alterTable('hr_onboarding_progress', table => {
+    table.dropColumn('task_completions');
+  });
+};
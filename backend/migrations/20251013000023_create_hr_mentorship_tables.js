@@ -0,0 +1,186 @@
+const ACTIVITY_TYPES = [
+  'application_submitted',
+  'application_status_changed',
+  'onboarding_completed',
+  'performance_review_submitted',
+  'skill_verified',
+  'document_acknowledged',
+];
+
+const MENTORSHIP_ACTIVITY_TYPES = ['mentor_assigned', 'mentor_unassigned'];
+
+const replaceActivityTypeCheck = async (knex, activityTypes) => {
+  await knex.raw(
+    'ALTER TABLE hr_activities DROP CONSTRAINT IF EXISTS hr_activities_activity_type_check'
+  );
+  await knex.raw(
+    `ALTER TABLE hr_activities ADD CONSTRAINT hr_activities_activity_type_check CHECK (activity_type IN (${activityTypes
+      .map(() => '?')
+      .join(', ')}))`,
+    activityTypes
+  );
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // Whether a member volunteers as a mentor, how many mentees they take on and
+  // what mentees are matched with them on besides their skills
+  await knex.schema.createTable('hr_mentor_profiles', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('user_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.boolean('is_mentor').notNullable().defaultTo(false);
+    table.integer('max_mentees').notNullable().defaultTo(3);
+    // IANA timezone, e.g. Europe/Berlin
+    table.string('timezone', 100).nullable();
+    table.jsonb('languages').notNullable().defaultTo('[]');
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.unique(['organization_id', 'user_id']);
+    table.index(['organization_id', 'is_mentor']);
+  });
+
+  // A mentor paired with a new member for their onboarding. Reassigning ends the
+  // pairing and starts a new one, so the rows double as the mentor history.
+  await knex.schema.createTable('hr_mentorships', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('organization_id')
+      .references('id')
+      .inTable('organizations')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('progress_id')
+      .references('id')
+      .inTable('hr_onboarding_progress')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('mentee_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('mentor_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.enum('status', ['active', 'ended']).notNullable().defaultTo('active');
+    table.enum('assignment_method', ['manual', 'matched']).notNullable();
+    // 0 to 1, for mentors picked by matching
+    table.decimal('match_score', 4, 3).nullable();
+    table.integer('check_in_interval_days').notNullable().defaultTo(14);
+    table
+      .uuid('assigned_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    table.timestamp('started_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('ended_at').nullable();
+    table.string('end_reason', 500).nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['organization_id', 'status']);
+    table.index(['mentor_id', 'status']);
+    table.index(['progress_id']);
+  });
+
+  // A member has at most one mentor at a time
+  await knex.raw(`
+    CREATE UNIQUE INDEX hr_mentorships_active_mentee_unique
+    ON hr_mentorships (organization_id, mentee_id)
+    WHERE status = 'active'
+  `);
+
+  await knex.schema.createTable('hr_mentorship_check_ins', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('mentorship_id')
+      .references('id')
+      .inTable('hr_mentorships')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.timestamp('scheduled_for').notNullable();
+    table.timestamp('completed_at').nullable();
+    table
+      .uuid('completed_by')
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .nullable();
+    // Set once the reminder went out so the reminder job never repeats it
+    table.timestamp('reminder_sent_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['mentorship_id', 'completed_at']);
+    table.index(['scheduled_for']);
+  });
+
+  await knex.schema.createTable('hr_mentorship_notes', table => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table
+      .uuid('mentorship_id')
+      .references('id')
+      .inTable('hr_mentorships')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('author_id')
+      .references('id')
+      .inTable('users')
+      .onDelete('CASCADE')
+      .notNullable();
+    // The check-in the note was written for, if any
+    table
+      .uuid('check_in_id')
+      .references('id')
+      .inTable('hr_mentorship_check_ins')
+      .onDelete('SET NULL')
+      .nullable();
+    table.text('content').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.index(['mentorship_id', 'created_at']);
+  });
+
+  await replaceActivityTypeCheck(knex, [
+    ...ACTIVITY_TYPES,
+    ...MENTORSHIP_ACTIVITY_TYPES,
+  ]);
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex('hr_activities')
+    .whereIn('activity_type', MENTORSHIP_ACTIVITY_TYPES)
+    .del();
+  await replaceActivityTypeCheck(knex, ACTIVITY_TYPES);
+
+  await knex.schema.dropTableIfExists('hr_mentorship_notes');
+  await knex.schema.dropTableIfExists('hr_mentorship_check_ins');
+  await knex.schema.dropTableIfExists('hr_mentorships');
+  await knex.schema.dropTableIfExists('hr_mentor_profiles');
+};
@@ -0,0 +1,32 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function(knex) {
+  // When an idle rule last fired for an application, so it fires once per idle spell
+  await knex.schema.createTable('hr_pipeline_rule_runs', table => {
+    table
+      .uuid('rule_id')
+      .references('id')
+      .inTable('hr_pipeline_rules')
+      .onDelete('CASCADE')
+      .notNullable();
+    table
+      .uuid('application_id')
+      .references('id')
+      .inTable('hr_applications')
+      .onDelete('CASCADE')
+      .notNullable();
+    table.timestamp('fired_at').defaultTo(knex.fn.now()).notNullable();
+
+    table.primary(['rule_id', 'application_id']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('hr_pipeline_rule_runs');
+};
@@ -0,0 +1,453 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { AccountLifecycleService } from '../services/account_lifecycle_service';
+import { AccountModel } from '../models/account_model';
+import { UserModel } from '../models/user_model';
+import { RoleModel } from '../models/role_model';
+import { EventModel } from '../models/event_model';
+import { EventWaitlistService } from '../services/event_waitlist_service';
+import db from '../config/database';
+import { AccountDeletionRequest, OwnedOrganization, User } from '../types/user';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/account_model');
+jest.mock('../models/user_model');
+jest.mock('../models/role_model');
+jest.mock('../models/event_model');
+jest.mock('../services/event_waitlist_service');
+jest.mock('../config/logger');
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn() },
+}));
+
+const mockDb = db as unknown as { transaction: jest.Mock<any> };
+
+describe('AccountLifecycleService', () => {
+  let service: AccountLifecycleService;
+  let mockAccountModel: jest.Mocked<AccountModel>;
+  let mockUserModel: jest.Mocked<UserModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
+  let mockEventModel: jest.Mocked<EventModel>;
+  let mockWaitlistService: jest.Mocked<EventWaitlistService>;
+
+  const now = new Date('2025-07-01T12:00:00Z');
+  const trx = { isTransaction: true } as any;
+  const userId = uuidv4();
+  const memberId = uuidv4();
+
+  const ownedOrganization: OwnedOrganization = {
+    id: uuidv4(),
+    name: 'Test Org',
+    rsi_org_id: 'TESTORG',
+    transfer_candidates: [{ id: memberId, rsi_handle: 'Member' }],
+  };
+
+  const buildRequest = (
+    overrides: Partial<AccountDeletionRequest> = {}
+  ): AccountDeletionRequest => ({
+    id: uuidv4(),
+    user_id: userId,
+    status: 'pending',
+    reason: null,
+    organization_transfers: [],
+    scheduled_for: now,
+    cancelled_at: null,
+    completed_at: null,
+    blocked_reason: null,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockAccountModel = {
+      findOpenDeletionRequest: jest.fn(),
+      createDeletionRequest: jest.fn(),
+      updateDeletionRequest: jest.fn(),
+      findDueDeletionRequests: jest.fn(),
+      getOwnedOrganizations: jest.fn(),
+      isActiveMember: jest.fn(),
+      getMembershipOrganizationIds: jest.fn(),
+      setOrganizationOwner: jest.fn(),
+      cancelFutureRegistrations: jest.fn(),
+      deletePersonalData: jest.fn(),
+      anonymizeUser: jest.fn(),
+      getExportData: jest.fn(),
+    } as any;
+
+    mockUserModel = {
+      findById: jest.fn(),
+    } as any;
+
+    mockRoleModel = {
+      findByOrganizationAndName: jest.fn(),
+      addRoleToUser: jest.fn(),
+      removeUserFromOrganization: jest.fn(),
+    } as any;
+
+    mockEventModel = {
+      compactWaitlist: jest.fn(),
+    } as any;
+
+    mockWaitlistService = {
+      promoteAvailableSeats: jest.fn(),
+    } as any;
+
+    (AccountModel as jest.MockedClass<typeof AccountModel>).mockImplementation(
+      () => mockAccountModel
+    );
+    (UserModel as jest.MockedClass<typeof UserModel>).mockImplementation(
+      () => mockUserModel
+    );
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => mockRoleModel
+    );
+    (EventModel as jest.MockedClass<typeof EventModel>).mockImplementation(
+      () => mockEventModel
+    );
+    (
+      EventWaitlistService as jest.MockedClass<typeof EventWaitlistService>
+    ).mockImplementation(() => mockWaitlistService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+    mockAccountModel.findOpenDeletionRequest.mockResolvedValue(null);
+    mockAccountModel.getOwnedOrganizations.mockResolvedValue([]);
+    mockAccountModel.isActiveMember.mockResolvedValue(true);
+    mockAccountModel.createDeletionRequest.mockImplementation(async data =>
+      buildRequest({
+        organization_transfers: data.organization_transfers,
+        scheduled_for: data.scheduled_for,
+      })
+    );
+    mockAccountModel.updateDeletionRequest.mockImplementation(
+      async (id, data) => buildRequest({ id, ...data })
+    );
+    mockAccountModel.getMembershipOrganizationIds.mockResolvedValue([]);
+    mockAccountModel.cancelFutureRegistrations.mockResolvedValue([]);
+    mockDb.transaction.mockImplementation(async (callback: any) =>
+      callback(trx)
+    );
+    service = new AccountLifecycleService();
+  });
+
+  afterEach(() => {
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  });
+
+  describe('exportAccountData', () => {
+    it('should leave verification codes out of the exported profile', async () => {
+      mockUserModel.findById.mockResolvedValue({
+        id: userId,
+        discord_id: '1234',
+        rsi_handle: 'Exporter',
+        is_rsi_verified: false,
+        verification_code: 'SECRET',
+        verification_code_expires_at: now,
+        is_active: true,
+        created_at: now,
+        updated_at: now,
+      } as User);
+      mockAccountModel.getExportData.mockResolvedValue({
+        comments: { comments: [{ id: 'c1' }], votes: [] },
+      } as any);
+
+      const result = await service.exportAccountData(userId, now);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.exported_at).toBe(now);
+      expect(result.data.profile).toMatchObject({ rsi_handle: 'Exporter' });
+      expect(result.data.profile).not.toHaveProperty('verification_code');
+      expect(result.data.profile).not.toHaveProperty(
+        'verification_code_expires_at'
+      );
+      expect(result.data.comments.comments).toEqual([{ id: 'c1' }]);
+    });
+
+    it('should not export deleted accounts', async () => {
+      mockUserModel.findById.mockResolvedValue({
+        id: userId,
+        deleted_at: now,
+      } as User);
+
+      const result = await service.exportAccountData(userId, now);
+
+      expect(result).toMatchObject({ success: false, code: 'not_found' });
+    });
+  });
+
+  describe('requestDeletion', () => {
+    it('should schedule deletion after the grace period', async () => {
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = '7';
+
+      const result = await service.requestDeletion(
+        userId,
+        { reason: 'Moving on' },
+        now
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockAccountModel.createDeletionRequest).toHaveBeenCalledWith({
+        user_id: userId,
+        reason: 'Moving on',
+        organization_transfers: [],
+        scheduled_for: new Date('2025-07-08T12:00:00Z'),
+      });
+    });
+
+    it('should refuse while a deletion is already pending', async () => {
+      mockAccountModel.findOpenDeletionRequest.mockResolvedValue(
+        buildRequest()
+      );
+
+      const result = await service.requestDeletion(userId, {}, now);
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(mockAccountModel.createDeletionRequest).not.toHaveBeenCalled();
+    });
+
+    it('should require a new owner for every owned organization', async () => {
+      mockAccountModel.getOwnedOrganizations.mockResolvedValue([
+        ownedOrganization,
+      ]);
+
+      const result = await service.requestDeletion(userId, {}, now);
+
+      expect(result).toMatchObject({
+        success: false,
+        code: 'conflict',
+        error: 'Choose a new owner for Test Org before deleting your account',
+      });
+    });
+
+    it('should only hand organizations to active members', async () => {
+      mockAccountModel.getOwnedOrganizations.mockResolvedValue([
+        ownedOrganization,
+      ]);
+      mockAccountModel.isActiveMember.mockResolvedValue(false);
+
+      const result = await service.requestDeletion(
+        userId,
+        {
+          organization_transfers: [
+            { organization_id: ownedOrganization.id, new_owner_id: memberId },
+          ],
+        },
+        now
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error: 'The new owner of Test Org must be an active member',
+      });
+    });
+
+    it('should replace a blocked request', async () => {
+      const blocked = buildRequest({ status: 'blocked' });
+      mockAccountModel.findOpenDeletionRequest.mockResolvedValue(blocked);
+
+      const result = await service.requestDeletion(userId, {}, now);
+
+      expect(result.success).toBe(true);
+      expect(mockAccountModel.updateDeletionRequest).toHaveBeenCalledWith(
+        blocked.id,
+        { status: 'cancelled', cancelled_at: now }
+      );
+    });
+  });
+
+  describe('processDueDeletions', () => {
+    it('should transfer ownership, leave organizations and anonymize the user', async () => {
+      const otherOrgId = uuidv4();
+      const ownerRoleId = uuidv4();
+      const request = buildRequest({
+        organization_transfers: [
+          { organization_id: ownedOrganization.id, new_owner_id: memberId },
+        ],
+      });
+      mockAccountModel.findDueDeletionRequests.mockResolvedValue([request]);
+      mockAccountModel.getOwnedOrganizations.mockResolvedValue([
+        ownedOrganization,
+      ]);
+      mockRoleModel.findByOrganizationAndName.mockResolvedValue({
+        id: ownerRoleId,
+      } as any);
+      mockAccountModel.getMembershipOrganizationIds.mockResolvedValue([
+        ownedOrganization.id,
+        otherOrgId,
+      ]);
+
+      const deleted = await service.processDueDeletions(now);
+
+      expect(deleted).toBe(1);
+      expect(mockRoleModel.addRoleToUser).toHaveBeenCalledWith(
+        ownedOrganization.id,
+        memberId,
+        ownerRoleId,
+        undefined,
+        trx
+      );
+      expect(mockAccountModel.setOrganizationOwner).toHaveBeenCalledWith(
+        ownedOrganization.id,
+        memberId,
+        trx
+      );
+      expect(mockRoleModel.removeUserFromOrganization).toHaveBeenCalledWith(
+        ownedOrganization.id,
+        userId,
+        trx
+      );
+      expect(mockRoleModel.removeUserFromOrganization).toHaveBeenCalledWith(
+        otherOrgId,
+        userId,
+        trx
+      );
+      expect(mockAccountModel.cancelFutureRegistrations).toHaveBeenCalledWith(
+        userId,
+        now,
+        trx
+      );
+      expect(mockAccountModel.deletePersonalData).toHaveBeenCalledWith(
+        userId,
+        trx
+      );
+      expect(mockAccountModel.anonymizeUser).toHaveBeenCalledWith(
+        userId,
+        now,
+        trx
+      );
+      expect(mockAccountModel.updateDeletionRequest).toHaveBeenCalledWith(
+        request.id,
+        { status: 'completed', completed_at: now },
+        trx
+      );
+    });
+
+    it('should offer the seats of cancelled registrations to the waitlist after the deletion commits', async () => {
+      const eventId = uuidv4();
+      const otherEventId = uuidv4();
+      const calls: string[] = [];
+      mockAccountModel.findDueDeletionRequests.mockResolvedValue([
+        buildRequest(),
+      ]);
+      mockAccountModel.cancelFutureRegistrations.mockResolvedValue([
+        eventId,
+        otherEventId,
+      ]);
+      mockDb.transaction.mockImplementation(async (callback: any) => {
+        const result = await callback(trx);
+        calls.push('commit');
+        return result;
+      });
+      mockEventModel.compactWaitlist.mockImplementation(async id => {
+        calls.push(`compact ${id}`);
+      });
+      mockWaitlistService.promoteAvailableSeats.mockImplementation(async id => {
+        calls.push(`promote ${id}`);
+        return [];
+      });
+
+      const deleted = await service.processDueDeletions(now);
+
+      expect(deleted).toBe(1);
+      expect(calls).toEqual([
+        'commit',
+        `compact ${eventId}`,
+        `promote ${eventId}`,
+        `compact ${otherEventId}`,
+        `promote ${otherEventId}`,
+      ]);
+    });
+
+    it('should leave waitlists alone when the deletion fails', async () => {
+      mockAccountModel.findDueDeletionRequests.mockResolvedValue([
+        buildRequest(),
+      ]);
+      mockAccountModel.cancelFutureRegistrations.mockResolvedValue([uuidv4()]);
+      mockAccountModel.anonymizeUser.mockRejectedValueOnce(
+        new Error('Database unavailable')
+      );
+
+      const deleted = await service.processDueDeletions(now);
+
+      expect(deleted).toBe(0);
+      expect(mockEventModel.compactWaitlist).not.toHaveBeenCalled();
+      expect(mockWaitlistService.promoteAvailableSeats).not.toHaveBeenCalled();
+    });
+
+    it('should block the request when a step of the deletion fails', async () => {
+      const request = buildRequest();
+      mockAccountModel.findDueDeletionRequests.mockResolvedValue([request]);
+      mockAccountModel.deletePersonalData.mockRejectedValueOnce(
+        new Error('Database unavailable')
+      );
+
+      const deleted = await service.processDueDeletions(now);
+
+      expect(deleted).toBe(0);
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(mockAccountModel.anonymizeUser).not.toHaveBeenCalled();
+      // Recorded outside the rolled-back transaction
+      expect(mockAccountModel.updateDeletionRequest).toHaveBeenCalledTimes(1);
+      expect(mockAccountModel.updateDeletionRequest).toHaveBeenCalledWith(
+        request.id,
+        {
+          status: 'blocked',
+          blocked_reason: expect.stringContaining('nothing was changed'),
+        }
+      );
+    });
+
+    it('should block deletion when the new owner left during the grace period', async () => {
+      const request = buildRequest({
+        organization_transfers: [
+          { organization_id: ownedOrganization.id, new_owner_id: memberId },
+        ],
+      });
+      mockAccountModel.findDueDeletionRequests.mockResolvedValue([request]);
+      mockAccountModel.getOwnedOrganizations.mockResolvedValue([
+        ownedOrganization,
+      ]);
+      mockAccountModel.isActiveMember.mockResolvedValue(false);
+
+      const deleted = await service.processDueDeletions(now);
+
+      expect(deleted).toBe(0);
+      expect(mockAccountModel.updateDeletionRequest).toHaveBeenCalledWith(
+        request.id,
+        {
+          status: 'blocked',
+          blocked_reason: 'The new owner of Test Org must be an active member',
+        }
+      );
+      expect(mockRoleModel.removeUserFromOrganization).not.toHaveBeenCalled();
+      expect(mockAccountModel.anonymizeUser).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when one deletion fails', async () => {
+      mockAccountModel.findDueDeletionRequests.mockResolvedValue([
+        buildRequest(),
+        buildRequest(),
+      ]);
+      mockAccountModel.anonymizeUser
+        .mockRejectedValueOnce(new Error('Database unavailable'))
+        .mockResolvedValue(undefined);
+
+      const deleted = await service.processDueDeletions(now);
+
+      expect(deleted).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { BrigadingDetectionService } from '../services/brigading_detection_service';
+import {
+  AttestationFlagModel,
+  NewAttestationFlag,
+  ScreenedAttestation,
+} from '../models/attestation_flag_model';
+import { ReputationModel } from '../models/reputation_model';
+import { ReputationScoreService } from '../services/reputation_score_service';
+import { AttestationFlag } from '../types/reputation';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/attestation_flag_model');
+jest.mock('../models/reputation_model');
+jest.mock('../services/reputation_score_service');
+jest.mock('../config/logger');
+
+describe('BrigadingDetectionService', () => {
+  let service: BrigadingDetectionService;
+  let mockFlagModel: jest.Mocked<AttestationFlagModel>;
+  let mockReputationModel: jest.Mocked<ReputationModel>;
+  let mockScoreService: jest.Mocked<ReputationScoreService>;
+
+  const playerId = uuidv4();
+  const tagId = uuidv4();
+  const attesterId = uuidv4();
+  const organizationId = uuidv4();
+  const now = new Date('2025-07-01T12:00:00Z');
+  const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const buildAttestation = (
+    overrides: Partial<ScreenedAttestation> = {}
+  ): ScreenedAttestation => ({
+    kind: 'tag',
+    id: uuidv4(),
+    item_id: tagId,
+    player_id: playerId,
+    attester_id: attesterId,
+    held_for_review: false,
+    created_at: now,
+    ...overrides,
+  });
+
+  const toFlag = ({
+    attestation,
+    reasons,
+    evidence,
+  }: NewAttestationFlag): AttestationFlag => ({
+    id: uuidv4(),
+    attestation_kind: attestation.kind,
+    attestation_id: attestation.id,
+    item_id: attestation.item_id,
+    player_id: attestation.player_id,
+    attester_id: attestation.attester_id,
+    reasons,
+    evidence,
+    status: 'held',
+    reviewed_by: null,
+    reviewed_at: null,
+    review_note: null,
+    created_at: now,
+  });
+
+  const membership = (userId: string) => ({
+    user_id: userId,
+    organization_id: organizationId,
+    organization_name: 'Test Org',
+  });
+
+  let attestation: ScreenedAttestation;
+
+  beforeAll(() => {
+    mockFlagModel = {
+      getAttestation: jest.fn(),
+      findRecentAttestationsOnPlayer: jest.fn(),
+      getAttester: jest.fn(),
+      getOrganizationMemberships: jest.fn(),
+      findAltReportsNaming: jest.fn(),
+      hold: jest.fn(),
+      getFlag: jest.fn(),
+      listFlags: jest.fn(),
+      resolve: jest.fn(),
+    } as any;
+
+    mockReputationModel = {
+      updateCommentAttestationCount: jest.fn(),
+      updateTagAttestationCount: jest.fn(),
+      updateOrganizationReportCorroborationCount: jest.fn(),
+      updateAltAccountReportCorroborationCount: jest.fn(),
+      updateAffiliatedPeopleReportCorroborationCount: jest.fn(),
+    } as any;
+
+    mockScoreService = {
+      recalculateScore: jest.fn(),
+    } as any;
+
+    (
+      AttestationFlagModel as jest.MockedClass<typeof AttestationFlagModel>
+    ).mockImplementation(() => mockFlagModel);
+    (
+      ReputationModel as jest.MockedClass<typeof ReputationModel>
+    ).mockImplementation(() => mockReputationModel);
+    (
+      ReputationScoreService as jest.MockedClass<typeof ReputationScoreService>
+    ).mockImplementation(() => mockScoreService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    attestation = buildAttestation();
+    mockFlagModel.getAttestation.mockResolvedValue(attestation);
+    mockFlagModel.getAttester.mockResolvedValue({
+      id: attesterId,
+      rsi_handle: 'Veteran',
+      spectrum_id: '12345',
+      created_at: daysAgo(365),
+    });
+    mockFlagModel.findAltReportsNaming.mockResolvedValue([]);
+    mockFlagModel.findRecentAttestationsOnPlayer.mockResolvedValue([
+      attestation,
+    ]);
+    mockFlagModel.getOrganizationMemberships.mockResolvedValue([]);
+    mockFlagModel.hold.mockImplementation(async flags => flags.map(toFlag));
+    service = new BrigadingDetectionService();
+  });
+
+  describe('screen', () => {
+    it('should let attestations from established accounts count', async () => {
+      const flags = await service.screen('tag', attestation.id, now);
+
+      expect(flags).toEqual([]);
+      expect(mockFlagModel.hold).not.toHaveBeenCalled();
+      expect(
+        mockReputationModel.updateTagAttestationCount
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should hold attestations from accounts created this week', async () => {
+      mockFlagModel.getAttester.mockResolvedValue({
+        id: attesterId,
+        rsi_handle: 'Newcomer',
+        spectrum_id: null,
+        created_at: daysAgo(2),
+      });
+
+      const flags = await service.screen('tag', attestation.id, now);
+
+      expect(flags).toHaveLength(1);
+      expect(flags[0].reasons).toEqual(['new_account']);
+      expect(flags[0].evidence.new_account?.account_age_hours).toBe(48);
+      expect(
+        mockReputationModel.updateTagAttestationCount
+      ).toHaveBeenCalledWith(tagId);
+      expect(mockScoreService.recalculateScore).toHaveBeenCalledWith(playerId);
+    });
+
+    it('should hold attestations from accounts named as alts', async () => {
+      const reportId = uuidv4();
+      const mainPlayerId = uuidv4();
+      mockFlagModel.findAltReportsNaming.mockResolvedValue([
+        { id: reportId, main_player_id: mainPlayerId },
+      ]);
+
+      const flags = await service.screen('tag', attestation.id, now);
+
+      expect(mockFlagModel.findAltReportsNaming).toHaveBeenCalledWith(
+        'Veteran',
+        '12345'
+      );
+      expect(flags[0].reasons).toEqual(['suspected_alt']);
+      expect(flags[0].evidence.suspected_alt).toEqual({
+        alt_account_report_ids: [reportId],
+        main_player_ids: [mainPlayerId],
+      });
+    });
+
+    it('should hold every attestation in a burst from one organization', async () => {
+      const others = [uuidv4(), uuidv4()].map(userId =>
+        buildAttestation({ attester_id: userId })
+      );
+      const bystander = buildAttestation({ attester_id: uuidv4() });
+      mockFlagModel.findRecentAttestationsOnPlayer.mockResolvedValue([
+        attestation,
+        ...others,
+        bystander,
+      ]);
+      mockFlagModel.getOrganizationMemberships.mockResolvedValue([
+        membership(attesterId),
+        ...others.map(other => membership(other.attester_id)),
+      ]);
+
+      const flags = await service.screen('tag', attestation.id, now);
+
+      expect(flags.map(flag => flag.attestation_id)).toEqual([
+        attestation.id,
+        ...others.map(other => other.id),
+      ]);
+      expect(flags[0].evidence.org_burst).toMatchObject({
+        organization_id: organizationId,
+        organization_name: 'Test Org',
+        attestation_count: 3,
+      });
+      // Every held attestation is on the same tag, so it is recounted once
+      expect(
+        mockReputationModel.updateTagAttestationCount
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not treat a few members of one organization as a burst', async () => {
+      const other = buildAttestation({ attester_id: uuidv4() });
+      mockFlagModel.findRecentAttestationsOnPlayer.mockResolvedValue([
+        attestation,
+        other,
+      ]);
+      mockFlagModel.getOrganizationMemberships.mockResolvedValue([
+        membership(attesterId),
+        membership(other.attester_id),
+      ]);
+
+      const flags = await service.screen('tag', attestation.id, now);
+
+      expect(flags).toEqual([]);
+    });
+
+    it('should skip attestations that are already held', async () => {
+      mockFlagModel.getAttestation.mockResolvedValue(
+        buildAttestation({ held_for_review: true })
+      );
+
+      const flags = await service.screen('tag', attestation.id, now);
+
+      expect(flags).toEqual([]);
+      expect(mockFlagModel.getAttester).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewFlag', () => {
+    const reviewerId = uuidv4();
+    let flag: AttestationFlag;
+
+    beforeEach(() => {
+      flag = toFlag({
+        attestation: buildAttestation({ kind: 'comment' }),
+        reasons: ['new_account'],
+        evidence: {},
+      });
+      mockFlagModel.getFlag.mockResolvedValue(flag);
+    });
+
+    it('should release the attestation and recount its item', async () => {
+      mockFlagModel.resolve.mockResolvedValue({ ...flag, status: 'released' });
+
+      const result = await service.reviewFlag(flag.id, reviewerId, {
+        decision: 'release',
+        note: '  Known trader  ',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockFlagModel.resolve).toHaveBeenCalledWith(
+        flag,
+        'release',
+        reviewerId,
+        'Known trader'
+      );
+      expect(
+        mockReputationModel.updateCommentAttestationCount
+      ).toHaveBeenCalledWith(tagId);
+    });
+
+    it('should not let moderators review flags on their own attestations', async () => {
+      const result = await service.reviewFlag(flag.id, attesterId, {
+        decision: 'release',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'forbidden' });
+      expect(mockFlagModel.resolve).not.toHaveBeenCalled();
+    });
+
+    it('should conflict when the flag was already reviewed', async () => {
+      mockFlagModel.getFlag.mockResolvedValue({ ...flag, status: 'discarded' });
+
+      const result = await service.reviewFlag(flag.id, reviewerId, {
+        decision: 'release',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+    });
+
+    it('should conflict when another moderator reviews it first', async () => {
+      mockFlagModel.resolve.mockResolvedValue(null);
+
+      const result = await service.reviewFlag(flag.id, reviewerId, {
+        decision: 'discard',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(
+        mockReputationModel.updateCommentAttestationCount
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should return not found for unknown flags', async () => {
+      mockFlagModel.getFlag.mockResolvedValue(null);
+
+      const result = await service.reviewFlag(uuidv4(), reviewerId, {
+        decision: 'discard',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'not_found' });
+    });
+  });
+});
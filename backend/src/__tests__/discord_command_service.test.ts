@@ -0,0 +1,368 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { DiscordCommandService } from '../services/discord_command_service';
+import { DiscordService } from '../services/discord_service';
+import { EventAttendanceService } from '../services/event_attendance_service';
+import { EventWaitlistService } from '../services/event_waitlist_service';
+import { HRApplicationService } from '../services/hr_application_service';
+import { HRApplicationFormService } from '../services/hr_application_form_service';
+import { DiscordServerModel } from '../models/discord_server_model';
+import { OrganizationModel } from '../models/organization_model';
+import { UserModel } from '../models/user_model';
+import { EventModel } from '../models/event_model';
+import { RoleModel } from '../models/role_model';
+import { HRDocumentModel } from '../models/hr_document_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { PermissionHelper } from '../middleware/permissions';
+import { Event } from '../types/event';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../services/discord_service');
+jest.mock('../services/event_attendance_service');
+jest.mock('../services/event_waitlist_service');
+jest.mock('../services/hr_application_service');
+jest.mock('../services/hr_application_form_service');
+jest.mock('../models/discord_server_model');
+jest.mock('../models/organization_model');
+jest.mock('../models/user_model');
+jest.mock('../models/event_model');
+jest.mock('../models/role_model');
+jest.mock('../models/hr_document_model');
+jest.mock('../models/sc_player_model');
+jest.mock('../config/logger');
+
+describe('DiscordCommandService member commands', () => {
+  let service: DiscordCommandService;
+  let mockDiscordService: jest.Mocked<DiscordService>;
+  let mockDiscordServerModel: jest.Mocked<DiscordServerModel>;
+  let mockOrganizationModel: jest.Mocked<OrganizationModel>;
+  let mockUserModel: jest.Mocked<UserModel>;
+  let mockEventModel: jest.Mocked<EventModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
+  let mockApplicationService: jest.Mocked<HRApplicationService>;
+  let mockApplicationFormService: jest.Mocked<HRApplicationFormService>;
+  let mockDocumentModel: jest.Mocked<HRDocumentModel>;
+  let mockWaitlistService: jest.Mocked<EventWaitlistService>;
+  let canUserViewEvent: jest.SpiedFunction<typeof PermissionHelper.canUserViewEvent>;
+
+  const now = Date.now();
+  const hour = 60 * 60 * 1000;
+  const guildId = '200000000000000001';
+  const discordUserId = '100000000000000002';
+  const organization = { id: uuidv4(), rsi_org_id: 'TESTORG', name: 'Test Org', total_members: 2 };
+  const user = { id: uuidv4() };
+
+  const buildEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: uuidv4(),
+    organization_id: organization.id,
+    created_by: uuidv4(),
+    title: 'Mining Op',
+    start_time: new Date(now + 48 * hour),
+    end_time: new Date(now + 50 * hour),
+    languages: ['en'],
+    is_public: true,
+    is_active: true,
+    created_at: new Date(now),
+    updated_at: new Date(now),
+    ...overrides,
+  });
+
+  const buildInteraction = (data: Record<string, unknown>, type: number = 2): any => ({
+    id: '400000000000000001',
+    token: 'interaction-token',
+    type,
+    guild_id: guildId,
+    member: { user: { id: discordUserId } },
+    data,
+  });
+
+  const eventCommand = (subcommand: string, eventId: string) =>
+    buildInteraction({
+      name: 'events',
+      options: [
+        { type: 1, name: subcommand, options: [{ type: 3, name: 'event', value: eventId }] },
+      ],
+    });
+
+  const lastResponse = (): any => {
+    const calls = mockDiscordService.sendInteractionResponse.mock.calls;
+    return calls[calls.length - 1]?.[2];
+  };
+
+  beforeAll(() => {
+    mockDiscordService = {
+      sendInteractionResponse: jest.fn(),
+    } as any;
+    mockDiscordServerModel = {
+      findByGuildId: jest.fn(),
+    } as any;
+    mockOrganizationModel = {
+      findById: jest.fn(),
+      isUserMember: jest.fn(),
+      getMembers: jest.fn(),
+    } as any;
+    mockUserModel = {
+      findByDiscordId: jest.fn(),
+    } as any;
+    mockEventModel = {
+      findById: jest.fn(),
+      isUserRegistered: jest.fn(),
+      registerUserWithCapacity: jest.fn(),
+      getUserRegistration: jest.fn(),
+      unregisterUser: jest.fn(),
+      compactWaitlist: jest.fn(),
+      getEventsByOrganization: jest.fn(),
+      getUserCalendarEvents: jest.fn(),
+    } as any;
+    mockRoleModel = {
+      getUserRoleIds: jest.fn(),
+    } as any;
+    mockApplicationService = {
+      submitApplication: jest.fn(),
+    } as any;
+    mockApplicationFormService = {
+      requiresForm: jest.fn(),
+    } as any;
+    mockDocumentModel = {
+      getPendingAcknowledgments: jest.fn(),
+    } as any;
+    mockWaitlistService = {
+      promoteAvailableSeats: jest.fn(),
+    } as any;
+
+    (DiscordService as jest.MockedClass<typeof DiscordService>).mockImplementation(
+      () => mockDiscordService
+    );
+    (DiscordServerModel as jest.MockedClass<typeof DiscordServerModel>).mockImplementation(
+      () => mockDiscordServerModel
+    );
+    (OrganizationModel as jest.MockedClass<typeof OrganizationModel>).mockImplementation(
+      () => mockOrganizationModel
+    );
+    (UserModel as jest.MockedClass<typeof UserModel>).mockImplementation(
+      () => mockUserModel
+    );
+    (EventModel as jest.MockedClass<typeof EventModel>).mockImplementation(
+      () => mockEventModel
+    );
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => mockRoleModel
+    );
+    (HRDocumentModel as jest.MockedClass<typeof HRDocumentModel>).mockImplementation(
+      () => mockDocumentModel
+    );
+    (EventWaitlistService as jest.MockedClass<typeof EventWaitlistService>).mockImplementation(
+      () => mockWaitlistService
+    );
+    (HRApplicationService as jest.MockedClass<typeof HRApplicationService>).mockImplementation(
+      () => mockApplicationService
+    );
+    (HRApplicationFormService as jest.MockedClass<typeof HRApplicationFormService>).mockImplementation(
+      () => mockApplicationFormService
+    );
+    (EventAttendanceService as jest.MockedClass<typeof EventAttendanceService>).mockImplementation(
+      () => ({}) as any
+    );
+    (ScPlayerModel as jest.MockedClass<typeof ScPlayerModel>).mockImplementation(
+      () => ({}) as any
+    );
+    canUserViewEvent = jest.spyOn(PermissionHelper, 'canUserViewEvent');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDiscordServerModel.findByGuildId.mockResolvedValue({
+      organization_id: organization.id,
+      is_active: true,
+    } as any);
+    mockOrganizationModel.findById.mockResolvedValue(organization as any);
+    mockUserModel.findByDiscordId.mockResolvedValue(user as any);
+    canUserViewEvent.mockResolvedValue({ canView: true });
+    service = new DiscordCommandService();
+  });
+
+  it('should register the linked user for an event', async () => {
+    const event = buildEvent();
+    mockEventModel.findById.mockResolvedValue(event);
+    mockEventModel.isUserRegistered.mockResolvedValue(false);
+    mockEventModel.registerUserWithCapacity.mockResolvedValue({ status: 'registered' } as any);
+
+    await service.handleSlashCommand(eventCommand('register', event.id));
+
+    expect(mockEventModel.registerUserWithCapacity).toHaveBeenCalledWith(event.id, user.id);
+    expect(lastResponse().data.content).toContain("You're registered for **Mining Op**");
+  });
+
+  it('should refuse private events to non-members', async () => {
+    const event = buildEvent({ is_public: false });
+    mockEventModel.findById.mockResolvedValue(event);
+    mockEventModel.isUserRegistered.mockResolvedValue(false);
+    canUserViewEvent.mockResolvedValue({
+      canView: false,
+      reason: 'Only organization members can view private events',
+    });
+
+    await service.handleSlashCommand(eventCommand('register', event.id));
+
+    expect(mockEventModel.registerUserWithCapacity).not.toHaveBeenCalled();
+    expect(lastResponse().data.content).toContain('Only organization members');
+  });
+
+  it('should refuse private events an override denies to a member', async () => {
+    const event = buildEvent({ is_public: false });
+    mockEventModel.findById.mockResolvedValue(event);
+    mockEventModel.isUserRegistered.mockResolvedValue(false);
+    mockOrganizationModel.isUserMember.mockResolvedValue(true);
+    canUserViewEvent.mockResolvedValue({ canView: false, reason: 'Denied for this user' });
+
+    await service.handleSlashCommand(eventCommand('register', event.id));
+
+    expect(canUserViewEvent).toHaveBeenCalledWith(event, user.id);
+    expect(mockEventModel.registerUserWithCapacity).not.toHaveBeenCalled();
+    expect(lastResponse().data.content).toContain('Denied for this user');
+  });
+
+  it("should not register for another organization's events", async () => {
+    const event = buildEvent({ organization_id: uuidv4() });
+    mockEventModel.findById.mockResolvedValue(event);
+
+    await service.handleSlashCommand(eventCommand('register', event.id));
+
+    expect(mockEventModel.registerUserWithCapacity).not.toHaveBeenCalled();
+    expect(lastResponse().data.content).toContain('Event not found');
+  });
+
+  it('should ask unlinked Discord users to sign in first', async () => {
+    mockUserModel.findByDiscordId.mockResolvedValue(null);
+
+    await service.handleSlashCommand(eventCommand('register', uuidv4()));
+
+    expect(mockEventModel.findById).not.toHaveBeenCalled();
+    expect(lastResponse().data.content).toContain('not linked to an SC-Orgs account');
+  });
+
+  it('should promote the waitlist when a registered member leaves', async () => {
+    const event = buildEvent();
+    mockEventModel.findById.mockResolvedValue(event);
+    mockEventModel.getUserRegistration.mockResolvedValue({ status: 'registered' } as any);
+    mockEventModel.unregisterUser.mockResolvedValue(true);
+
+    await service.handleSlashCommand(eventCommand('unregister', event.id));
+
+    expect(mockEventModel.unregisterUser).toHaveBeenCalledWith(event.id, user.id);
+    expect(mockWaitlistService.promoteAvailableSeats).toHaveBeenCalledWith(event.id);
+    expect(mockEventModel.compactWaitlist).not.toHaveBeenCalled();
+  });
+
+  it('should suggest upcoming events matching the typed name', async () => {
+    const mining = buildEvent({ title: 'Mining Op' });
+    const racing = buildEvent({ title: 'Racing Night' });
+    const past = buildEvent({ title: 'Mining Op (old)', start_time: new Date(now - hour) });
+    mockEventModel.getEventsByOrganization.mockResolvedValue([past, racing, mining]);
+
+    await service.handleAutocomplete(
+      buildInteraction(
+        {
+          name: 'events',
+          options: [
+            {
+              type: 1,
+              name: 'register',
+              options: [{ type: 3, name: 'event', value: 'mining', focused: true }],
+            },
+          ],
+        },
+        4
+      )
+    );
+
+    expect(mockEventModel.getEventsByOrganization).toHaveBeenCalledWith(organization.id, user.id);
+    expect(lastResponse()).toEqual({
+      type: 8,
+      data: {
+        choices: [expect.objectContaining({ value: mining.id })],
+      },
+    });
+  });
+
+  it('should leave private events the member cannot view out of upcoming events', async () => {
+    const visible = buildEvent({ title: 'Mining Op', is_public: false });
+    const hidden = buildEvent({ title: 'Officer Briefing', is_public: false });
+    mockEventModel.getEventsByOrganization.mockResolvedValue([visible, hidden]);
+    canUserViewEvent.mockImplementation(async event => ({ canView: event.id !== hidden.id }));
+
+    await service.handleSlashCommand(
+      buildInteraction({ name: 'events', options: [{ type: 1, name: 'upcoming' }] })
+    );
+
+    const content = lastResponse().data.content;
+    expect(content).toContain('Mining Op');
+    expect(content).not.toContain('Officer Briefing');
+  });
+
+  it('should open the apply form for organizations without a custom form', async () => {
+    mockOrganizationModel.isUserMember.mockResolvedValue(false);
+    mockApplicationFormService.requiresForm.mockResolvedValue(false);
+
+    await service.handleSlashCommand(buildInteraction({ name: 'apply' }));
+
+    expect(lastResponse()).toEqual(
+      expect.objectContaining({ type: 9, data: expect.objectContaining({ custom_id: 'scorgs_apply' }) })
+    );
+  });
+
+  it('should point to the website when the organization uses a custom application form', async () => {
+    mockOrganizationModel.isUserMember.mockResolvedValue(false);
+    mockApplicationFormService.requiresForm.mockResolvedValue(true);
+
+    await service.handleSlashCommand(buildInteraction({ name: 'apply' }));
+
+    expect(mockApplicationFormService.requiresForm).toHaveBeenCalledWith(organization.id);
+    expect(lastResponse().data.content).toContain('/organizations/TESTORG');
+    expect(lastResponse().data.custom_id).toBeUndefined();
+  });
+
+  it('should create an application from the apply form', async () => {
+    mockApplicationService.submitApplication.mockResolvedValue({ id: uuidv4() } as any);
+
+    await service.handleModalSubmit(
+      buildInteraction(
+        {
+          custom_id: 'scorgs_apply',
+          components: [
+            { type: 1, components: [{ type: 4, custom_id: 'cover_letter', value: 'Let me in' }] },
+            { type: 1, components: [{ type: 4, custom_id: 'experience', value: '' }] },
+            { type: 1, components: [{ type: 4, custom_id: 'availability', value: 'Weekends' }] },
+          ],
+        },
+        5
+      )
+    );
+
+    expect(mockApplicationService.submitApplication).toHaveBeenCalledWith({
+      organization_id: organization.id,
+      user_id: user.id,
+      application_data: { cover_letter: 'Let me in', availability: 'Weekends' },
+    });
+    expect(lastResponse().data.content).toContain('application to **Test Org** was submitted');
+  });
+
+  it("should list pending documents for the member's roles", async () => {
+    const roleId = uuidv4();
+    mockRoleModel.getUserRoleIds.mockResolvedValue([roleId]);
+    mockDocumentModel.getPendingAcknowledgments.mockResolvedValue([
+      { title: 'Code of Conduct' },
+    ] as any);
+
+    await service.handleSlashCommand(
+      buildInteraction({ name: 'docs', options: [{ type: 1, name: 'pending' }] })
+    );
+
+    expect(mockDocumentModel.getPendingAcknowledgments).toHaveBeenCalledWith(
+      organization.id,
+      user.id,
+      [roleId]
+    );
+    expect(lastResponse().data.content).toContain('Code of Conduct');
+  });
+});
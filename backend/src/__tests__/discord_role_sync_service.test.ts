@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { DiscordRoleSyncService } from '../services/discord_role_sync_service';
+import { DiscordService } from '../services/discord_service';
+import { DiscordServerModel } from '../models/discord_server_model';
+import { DiscordRoleMappingModel } from '../models/discord_role_mapping_model';
+import { RoleModel } from '../models/role_model';
+import { UserModel } from '../models/user_model';
+import { DiscordRoleMappingWithRole, DiscordServer } from '../types/discord';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../services/discord_service');
+jest.mock('../models/discord_server_model');
+jest.mock('../models/discord_role_mapping_model');
+jest.mock('../models/role_model');
+jest.mock('../models/user_model');
+jest.mock('../config/logger');
+
+describe('DiscordRoleSyncService', () => {
+  let service: DiscordRoleSyncService;
+  let mockDiscordService: jest.Mocked<DiscordService>;
+  let mockDiscordServerModel: jest.Mocked<DiscordServerModel>;
+  let mockMappingModel: jest.Mocked<DiscordRoleMappingModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
+  let mockUserModel: jest.Mocked<UserModel>;
+
+  const officerRoleId = uuidv4();
+  const memberRoleId = uuidv4();
+  const officerDiscordRole = '500000000000000001';
+  const memberDiscordRole = '500000000000000002';
+  const unmappedDiscordRole = '500000000000000003';
+  const userId = uuidv4();
+  const discordUserId = '100000000000000002';
+
+  const server: DiscordServer = {
+    id: uuidv4(),
+    organization_id: uuidv4(),
+    discord_guild_id: '200000000000000001',
+    guild_name: 'Test Guild',
+    bot_permissions: 0,
+    is_active: true,
+    auto_create_events: true,
+    role_sync_auto_fix: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const mappings: DiscordRoleMappingWithRole[] = [
+    {
+      id: uuidv4(),
+      discord_server_id: server.id,
+      organization_role_id: officerRoleId,
+      discord_role_id: officerDiscordRole,
+      role_name: 'Officer',
+      role_rank: 50,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+    {
+      id: uuidv4(),
+      discord_server_id: server.id,
+      organization_role_id: memberRoleId,
+      discord_role_id: memberDiscordRole,
+      role_name: 'Member',
+      role_rank: 10,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  ];
+
+  const guildMember = (id: string, roles: string[]): any => ({
+    user: { id, username: `user-${id}` },
+    roles,
+  });
+
+  beforeAll(() => {
+    mockDiscordService = {
+      getGuildMember: jest.fn(),
+      getAllGuildMembers: jest.fn(),
+      addGuildMemberRole: jest.fn(),
+      removeGuildMemberRole: jest.fn(),
+    } as any;
+    mockDiscordServerModel = {
+      findByOrganizationId: jest.fn(),
+      listActive: jest.fn(),
+      update: jest.fn(),
+    } as any;
+    mockMappingModel = {
+      findByServerId: jest.fn(),
+      getLinkedMembers: jest.fn(),
+    } as any;
+    mockRoleModel = {
+      getUserRoleIds: jest.fn(),
+    } as any;
+    mockUserModel = {
+      findById: jest.fn(),
+    } as any;
+
+    (DiscordService as jest.MockedClass<typeof DiscordService>).mockImplementation(
+      () => mockDiscordService
+    );
+    (DiscordServerModel as jest.MockedClass<typeof DiscordServerModel>).mockImplementation(
+      () => mockDiscordServerModel
+    );
+    (DiscordRoleMappingModel as jest.MockedClass<typeof DiscordRoleMappingModel>).mockImplementation(
+      () => mockMappingModel
+    );
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => mockRoleModel
+    );
+    (UserModel as jest.MockedClass<typeof UserModel>).mockImplementation(
+      () => mockUserModel
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMappingModel.findByServerId.mockResolvedValue(mappings);
+    mockDiscordServerModel.findByOrganizationId.mockResolvedValue(server);
+    mockUserModel.findById.mockResolvedValue({ id: userId, discord_id: discordUserId } as any);
+    service = new DiscordRoleSyncService();
+  });
+
+  describe('syncMemberRoles', () => {
+    it('should swap Discord roles when the organization role changes', async () => {
+      mockDiscordService.getGuildMember.mockResolvedValue(
+        guildMember(discordUserId, [memberDiscordRole, unmappedDiscordRole])
+      );
+      mockRoleModel.getUserRoleIds.mockResolvedValue([officerRoleId]);
+
+      await service.syncMemberRoles(server.organization_id, userId);
+
+      expect(mockDiscordService.addGuildMemberRole).toHaveBeenCalledWith(
+        server.discord_guild_id,
+        discordUserId,
+        officerDiscordRole
+      );
+      expect(mockDiscordService.removeGuildMemberRole).toHaveBeenCalledTimes(1);
+      expect(mockDiscordService.removeGuildMemberRole).toHaveBeenCalledWith(
+        server.discord_guild_id,
+        discordUserId,
+        memberDiscordRole
+      );
+    });
+
+    it('should remove every mapped role when the member leaves', async () => {
+      mockDiscordService.getGuildMember.mockResolvedValue(
+        guildMember(discordUserId, [officerDiscordRole, unmappedDiscordRole])
+      );
+      mockRoleModel.getUserRoleIds.mockResolvedValue([]);
+
+      await service.syncMemberRoles(server.organization_id, userId);
+
+      expect(mockDiscordService.addGuildMemberRole).not.toHaveBeenCalled();
+      expect(mockDiscordService.removeGuildMemberRole).toHaveBeenCalledTimes(1);
+      expect(mockDiscordService.removeGuildMemberRole).toHaveBeenCalledWith(
+        server.discord_guild_id,
+        discordUserId,
+        officerDiscordRole
+      );
+    });
+
+    it('should skip users without a linked Discord account', async () => {
+      mockUserModel.findById.mockResolvedValue({ id: userId } as any);
+
+      await service.syncMemberRoles(server.organization_id, userId);
+
+      expect(mockDiscordService.getGuildMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncMemberRolesAfterCommit', () => {
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    const buildTransaction = () => {
+      let commit!: () => void;
+      let rollback!: () => void;
+      const trx: any = jest.fn(() => ({
+        where: () => ({ first: async () => ({ discord_id: discordUserId }) }),
+      }));
+      trx.isTransaction = true;
+      trx.executionPromise = new Promise<void>((resolve, reject) => {
+        commit = resolve;
+        rollback = () => reject(new Error('rolled back'));
+      });
+      trx.executionPromise.catch(() => undefined);
+      return { trx, commit, rollback };
+    };
+
+    beforeEach(() => {
+      mockDiscordService.getGuildMember.mockResolvedValue(
+        guildMember(discordUserId, [memberDiscordRole])
+      );
+      mockRoleModel.getUserRoleIds.mockResolvedValue([]);
+    });
+
+    it('should sync after commit with the Discord account read inside the transaction', async () => {
+      const { trx, commit } = buildTransaction();
+      // Anonymized later in the same transaction
+      mockUserModel.findById.mockResolvedValue({ id: userId, discord_id: `deleted:${userId}` } as any);
+
+      DiscordRoleSyncService.syncMemberRolesAfterCommit(server.organization_id, userId, trx);
+      await flush();
+      expect(mockDiscordService.getGuildMember).not.toHaveBeenCalled();
+
+      commit();
+      await flush();
+      expect(mockDiscordService.removeGuildMemberRole).toHaveBeenCalledWith(
+        server.discord_guild_id,
+        discordUserId,
+        memberDiscordRole
+      );
+    });
+
+    it('should not sync a change that was rolled back', async () => {
+      const { trx, rollback } = buildTransaction();
+
+      DiscordRoleSyncService.syncMemberRolesAfterCommit(server.organization_id, userId, trx);
+      rollback();
+      await flush();
+
+      expect(mockDiscordService.getGuildMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileServer', () => {
+    const strangerDiscordId = '100000000000000003';
+
+    beforeEach(() => {
+      mockDiscordService.getAllGuildMembers.mockResolvedValue([
+        guildMember(discordUserId, [unmappedDiscordRole]),
+        guildMember(strangerDiscordId, [officerDiscordRole]),
+      ]);
+      mockMappingModel.getLinkedMembers.mockResolvedValue([
+        { user_id: userId, discord_id: discordUserId, rsi_handle: 'Pilot', role_ids: [memberRoleId] },
+      ]);
+    });
+
+    it('should report drift in both directions without fixing it', async () => {
+      const report = await service.reconcileServer(server, false);
+
+      expect(report?.drift).toEqual([
+        expect.objectContaining({
+          discord_user_id: discordUserId,
+          user_id: userId,
+          discord_role_id: memberDiscordRole,
+          type: 'missing',
+        }),
+        expect.objectContaining({
+          discord_user_id: strangerDiscordId,
+          user_id: null,
+          discord_role_id: officerDiscordRole,
+          type: 'extra',
+        }),
+      ]);
+      expect(report?.fixed).toBe(0);
+      expect(mockDiscordService.addGuildMemberRole).not.toHaveBeenCalled();
+      expect(mockDiscordService.removeGuildMemberRole).not.toHaveBeenCalled();
+    });
+
+    it('should fix drift when requested', async () => {
+      const report = await service.reconcileServer(server, true);
+
+      expect(mockDiscordService.addGuildMemberRole).toHaveBeenCalledWith(
+        server.discord_guild_id,
+        discordUserId,
+        memberDiscordRole
+      );
+      expect(mockDiscordService.removeGuildMemberRole).toHaveBeenCalledWith(
+        server.discord_guild_id,
+        strangerDiscordId,
+        officerDiscordRole
+      );
+      expect(report?.fixed).toBe(2);
+      expect(report?.failed).toBe(0);
+    });
+
+    it('should skip servers without role mappings', async () => {
+      mockMappingModel.findByServerId.mockResolvedValue([]);
+
+      const report = await service.reconcileServer(server, true);
+
+      expect(report).toBeNull();
+      expect(mockDiscordService.getAllGuildMembers).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { EventAttendanceService } from '../services/event_attendance_service';
+import { EventModel } from '../models/event_model';
+import { Event, EventCheckInCode, EventRegistration } from '../types/event';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/event_model');
+jest.mock('../config/logger');
+
+const MockedEventModel = EventModel as jest.MockedClass<typeof EventModel>;
+
+describe('EventAttendanceService', () => {
+  let service: EventAttendanceService;
+  let mockEventModel: jest.Mocked<EventModel>;
+
+  const now = new Date();
+  const inOneHour = new Date(now.getTime() + 60 * 60 * 1000);
+
+  const mockEvent: Event = {
+    id: uuidv4(),
+    organization_id: uuidv4(),
+    created_by: uuidv4(),
+    title: 'Salvage Night',
+    start_time: new Date(now.getTime() - 30 * 60 * 1000),
+    end_time: inOneHour,
+    languages: ['en'],
+    is_public: true,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const activeCode: EventCheckInCode = {
+    id: uuidv4(),
+    event_id: mockEvent.id,
+    organization_id: mockEvent.organization_id,
+    code: 'K7QX2M',
+    expires_at: new Date(now.getTime() + 10 * 60 * 1000),
+    created_by: mockEvent.created_by,
+    created_at: now,
+  };
+
+  const buildRegistration = (
+    overrides: Partial<EventRegistration> = {}
+  ): EventRegistration => ({
+    id: uuidv4(),
+    event_id: mockEvent.id,
+    user_id: uuidv4(),
+    status: 'confirmed',
+    registered_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockEventModel = {
+      findById: jest.fn(),
+      getUserRegistration: jest.fn(),
+      getCheckInCode: jest.fn(),
+      findActiveCheckInCode: jest.fn(),
+      markAttendance: jest.fn(),
+    } as any;
+
+    MockedEventModel.mockImplementation(() => mockEventModel);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.EVENT_CHECK_IN_CODE_MINUTES;
+    service = new EventAttendanceService();
+  });
+
+  describe('getCodeExpiry', () => {
+    it('should use the requested lifetime', () => {
+      const expiry = service.getCodeExpiry(mockEvent, 5, now);
+
+      expect(expiry.getTime()).toBe(now.getTime() + 5 * 60 * 1000);
+    });
+
+    it('should fall back to the server default lifetime', () => {
+      process.env.EVENT_CHECK_IN_CODE_MINUTES = '20';
+      service = new EventAttendanceService();
+
+      const expiry = service.getCodeExpiry(mockEvent, undefined, now);
+
+      expect(expiry.getTime()).toBe(now.getTime() + 20 * 60 * 1000);
+    });
+
+    it('should not outlive the event', () => {
+      const expiry = service.getCodeExpiry(mockEvent, 180, now);
+
+      expect(expiry).toEqual(inOneHour);
+    });
+  });
+
+  describe('checkInWithCode', () => {
+    it('should reject a code that does not match', async () => {
+      mockEventModel.getCheckInCode.mockResolvedValue(activeCode);
+
+      const result = await service.checkInWithCode(
+        mockEvent.id,
+        uuidv4(),
+        'WRONG1'
+      );
+
+      expect(result.checkedIn).toBe(false);
+      expect(mockEventModel.markAttendance).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired code', async () => {
+      mockEventModel.getCheckInCode.mockResolvedValue({
+        ...activeCode,
+        expires_at: new Date(now.getTime() - 1000),
+      });
+
+      const result = await service.checkInWithCode(
+        mockEvent.id,
+        uuidv4(),
+        activeCode.code
+      );
+
+      expect(result.checkedIn).toBe(false);
+    });
+
+    it('should mark a registered participant as attended', async () => {
+      const registration = buildRegistration();
+      const attended = { ...registration, status: 'attended' as const };
+      mockEventModel.getCheckInCode.mockResolvedValue(activeCode);
+      mockEventModel.findById.mockResolvedValue(mockEvent);
+      mockEventModel.getUserRegistration.mockResolvedValue(registration);
+      mockEventModel.markAttendance.mockResolvedValue([attended]);
+
+      // Codes are case-insensitive and tolerate separators
+      const result = await service.checkInWithCode(
+        mockEvent.id,
+        registration.user_id,
+        ' k7q-x2m '
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ checkedIn: true, registration: attended })
+      );
+      expect(mockEventModel.markAttendance).toHaveBeenCalledWith(
+        mockEvent.id,
+        [registration.user_id],
+        'attended',
+        registration.user_id,
+        'check_in_code'
+      );
+    });
+
+    it('should not check in waitlisted users', async () => {
+      const registration = buildRegistration({ status: 'waitlisted' });
+      mockEventModel.getCheckInCode.mockResolvedValue(activeCode);
+      mockEventModel.findById.mockResolvedValue(mockEvent);
+      mockEventModel.getUserRegistration.mockResolvedValue(registration);
+
+      const result = await service.checkInWithCode(
+        mockEvent.id,
+        registration.user_id,
+        activeCode.code
+      );
+
+      expect(result.checkedIn).toBe(false);
+      expect(result.reason).toContain('waitlist');
+      expect(mockEventModel.markAttendance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkInByOrganizationCode', () => {
+    it('should resolve the event from the organization code', async () => {
+      const registration = buildRegistration();
+      mockEventModel.findActiveCheckInCode.mockResolvedValue(activeCode);
+      mockEventModel.findById.mockResolvedValue(mockEvent);
+      mockEventModel.getUserRegistration.mockResolvedValue(registration);
+      mockEventModel.markAttendance.mockResolvedValue([
+        { ...registration, status: 'attended' },
+      ]);
+
+      const result = await service.checkInByOrganizationCode(
+        mockEvent.organization_id,
+        registration.user_id,
+        'k7qx2m'
+      );
+
+      expect(result.checkedIn).toBe(true);
+      expect(mockEventModel.findActiveCheckInCode).toHaveBeenCalledWith(
+        mockEvent.organization_id,
+        'K7QX2M',
+        expect.any(Date)
+      );
+      expect(mockEventModel.markAttendance).toHaveBeenCalledWith(
+        mockEvent.id,
+        [registration.user_id],
+        'attended',
+        registration.user_id,
+        'discord'
+      );
+    });
+  });
+
+  describe('summarizeRecords', () => {
+    it('should only count recorded attendance towards rates', () => {
+      const summary = EventAttendanceService.summarizeRecords([
+        { status: 'attended' },
+        { status: 'attended' },
+        { status: 'attended' },
+        { status: 'no_show' },
+        { status: 'confirmed' },
+      ]);
+
+      expect(summary).toEqual({
+        total_events: 5,
+        attended: 3,
+        no_shows: 1,
+        unmarked: 1,
+        attendance_rate: 75,
+        no_show_rate: 25,
+      });
+    });
+
+    it('should report zero rates when nothing was recorded', () => {
+      const summary = EventAttendanceService.summarizeRecords([
+        { status: 'registered' },
+      ]);
+
+      expect(summary.attendance_rate).toBe(0);
+      expect(summary.no_show_rate).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { Request, Response } from 'express';
+import { EventController } from '../controllers/event_controller';
+import { EventModel } from '../models/event_model';
+import db from '../config/database';
+import { Event, EventRegistration } from '../types/event';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/organization_model');
+jest.mock('../models/role_model');
+jest.mock('../services/event_waitlist_service');
+jest.mock('../services/event_slot_service');
+jest.mock('../config/logger');
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn() },
+}));
+
+const mockDb = db as unknown as { transaction: jest.Mock<any> };
+
+describe('Event registration', () => {
+  const userId = uuidv4();
+  const event: Event = {
+    id: uuidv4(),
+    organization_id: uuidv4(),
+    created_by: uuidv4(),
+    title: 'Mining Op',
+    start_time: new Date(),
+    end_time: new Date(),
+    languages: ['en'],
+    is_public: true,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const buildRegistration = (
+    overrides: Partial<EventRegistration> = {}
+  ): EventRegistration => ({
+    id: uuidv4(),
+    event_id: event.id,
+    user_id: userId,
+    status: 'registered',
+    registered_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('EventModel.registerUserWithCapacity', () => {
+    const eventModel = new EventModel();
+
+    it('should return null when a concurrent request already registered the user', async () => {
+      mockDb.transaction.mockRejectedValue(
+        Object.assign(new Error('duplicate key value'), { code: '23505' })
+      );
+
+      expect(
+        await eventModel.registerUserWithCapacity(event.id, userId)
+      ).toBeNull();
+    });
+
+    it('should let other database errors through', async () => {
+      mockDb.transaction.mockRejectedValue(new Error('Connection terminated'));
+
+      await expect(
+        eventModel.registerUserWithCapacity(event.id, userId)
+      ).rejects.toThrow('Connection terminated');
+    });
+  });
+
+  describe('EventController.registerForEvent', () => {
+    const controller = new EventController();
+    let findById: jest.SpiedFunction<EventModel['findById']>;
+    let isUserRegistered: jest.SpiedFunction<EventModel['isUserRegistered']>;
+    let registerUserWithCapacity: jest.SpiedFunction<
+      EventModel['registerUserWithCapacity']
+    >;
+
+    const request = {
+      params: { id: event.id },
+      headers: { authorization: 'Bearer token' },
+      body: {},
+      user: { id: userId },
+    } as unknown as Request;
+
+    const buildResponse = () => {
+      const res: any = {};
+      res.status = jest.fn(() => res);
+      res.json = jest.fn(() => res);
+      return res as Response & { status: jest.Mock; json: jest.Mock };
+    };
+
+    beforeAll(() => {
+      findById = jest.spyOn(EventModel.prototype, 'findById');
+      isUserRegistered = jest.spyOn(EventModel.prototype, 'isUserRegistered');
+      registerUserWithCapacity = jest.spyOn(
+        EventModel.prototype,
+        'registerUserWithCapacity'
+      );
+    });
+
+    beforeEach(() => {
+      findById.mockResolvedValue(event);
+      isUserRegistered.mockResolvedValue(false);
+    });
+
+    it('should return the registration as data and flag waitlisting separately', async () => {
+      const registration = buildRegistration({
+        status: 'waitlisted',
+        waitlist_position: 2,
+      });
+      registerUserWithCapacity.mockResolvedValue(registration);
+      const res = buildResponse();
+
+      await controller.registerForEvent(request, res);
+
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: registration,
+        waitlisted: true,
+        message: 'Event is full, added to the waitlist at position 2',
+      });
+    });
+
+    it('should report a registration made meanwhile as already registered', async () => {
+      registerUserWithCapacity.mockResolvedValue(null);
+      isUserRegistered.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      const res = buildResponse();
+
+      await controller.registerForEvent(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Already registered for this event',
+      });
+    });
+
+    it('should answer unexpected failures with a server error', async () => {
+      registerUserWithCapacity.mockRejectedValue(
+        new Error('Connection terminated')
+      );
+      const res = buildResponse();
+
+      await controller.registerForEvent(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { EventSeriesService } from '../services/event_series_service';
+import { EventModel } from '../models/event_model';
+import { EventSeriesModel } from '../models/event_series_model';
+import db from '../config/database';
+import { Event, EventSeries } from '../types/event';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/event_model');
+jest.mock('../models/event_series_model');
+jest.mock('../services/event_reminder_service');
+jest.mock('../services/event_sync_service');
+jest.mock('../config/logger');
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: { transaction: jest.fn() },
+}));
+
+const MockedEventModel = EventModel as jest.MockedClass<typeof EventModel>;
+const MockedEventSeriesModel = EventSeriesModel as jest.MockedClass<
+  typeof EventSeriesModel
+>;
+const mockDb = db as unknown as { transaction: jest.Mock<any> };
+
+describe('EventSeriesService', () => {
+  let service: EventSeriesService;
+  let mockEventModel: jest.Mocked<EventModel>;
+  let mockEventSeriesModel: jest.Mocked<EventSeriesModel>;
+  const trx = {};
+
+  const week = 7 * 24 * 60 * 60 * 1000;
+  // Mondays at 20:00 UTC
+  const seriesStart = new Date('2030-01-07T20:00:00.000Z');
+  const occurrenceStart = (index: number) =>
+    new Date(seriesStart.getTime() + index * week);
+
+  const buildSeries = (overrides: Partial<EventSeries> = {}): EventSeries => ({
+    id: uuidv4(),
+    organization_id: uuidv4(),
+    created_by: uuidv4(),
+    recurrence: { frequency: 'weekly', count: 6 },
+    series_start: seriesStart,
+    duration_minutes: 60,
+    template: { title: 'Mining Op', languages: ['en'], is_public: true } as any,
+    generated_until: occurrenceStart(10),
+    is_active: true,
+    created_at: seriesStart,
+    updated_at: seriesStart,
+    ...overrides,
+  });
+
+  const buildOccurrence = (series: EventSeries, index: number): Event => ({
+    id: uuidv4(),
+    organization_id: series.organization_id!,
+    created_by: series.created_by,
+    title: 'Mining Op',
+    start_time: occurrenceStart(index),
+    end_time: new Date(occurrenceStart(index).getTime() + 60 * 60 * 1000),
+    languages: ['en'],
+    is_public: true,
+    is_active: true,
+    series_id: series.id,
+    occurrence_start: occurrenceStart(index),
+    created_at: seriesStart,
+    updated_at: seriesStart,
+  });
+
+  beforeAll(() => {
+    mockEventModel = {
+      findById: jest.fn(),
+      update: jest.fn(),
+      getSeriesOccurrences: jest.fn(),
+      createOccurrence: jest.fn(),
+      delete: jest.fn(),
+    } as any;
+
+    mockEventSeriesModel = {
+      findById: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    } as any;
+
+    MockedEventModel.mockImplementation(() => mockEventModel);
+    MockedEventSeriesModel.mockImplementation(() => mockEventSeriesModel);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.transaction.mockImplementation(async (callback: any) =>
+      callback(trx)
+    );
+    mockEventModel.getSeriesOccurrences.mockResolvedValue([]);
+    mockEventSeriesModel.create.mockImplementation(async data => ({
+      ...buildSeries(),
+      ...data,
+    }));
+    mockEventSeriesModel.update.mockImplementation(
+      async (id, data) =>
+        ({
+          ...buildSeries({ id }),
+          ...data,
+        }) as EventSeries
+    );
+    service = new EventSeriesService();
+  });
+
+  describe('updateOccurrence', () => {
+    it('should carry the remaining count over when splitting a count-limited series', async () => {
+      const series = buildSeries({
+        // An excluded date still uses up a slot of the count
+        recurrence: {
+          frequency: 'weekly',
+          count: 6,
+          exceptions: [occurrenceStart(1).toISOString()],
+        },
+      });
+      const anchor = buildOccurrence(series, 2);
+      mockEventSeriesModel.findById.mockResolvedValue(series);
+
+      await service.updateOccurrence(
+        anchor,
+        { title: 'Deep Core Mining' },
+        'following'
+      );
+
+      const created = mockEventSeriesModel.create.mock.calls[0][0];
+      expect(created.series_start).toEqual(occurrenceStart(2));
+      expect(created.recurrence.count).toBe(4);
+      expect(created.recurrence.exceptions).toEqual([]);
+      expect(mockEventSeriesModel.update).toHaveBeenCalledWith(series.id, {
+        recurrence: expect.objectContaining({
+          count: 6,
+          until: new Date(occurrenceStart(2).getTime() - 1).toISOString(),
+        }),
+      });
+
+      // The continued series still ends on the original last occurrence
+      const starts = mockEventModel.createOccurrence.mock.calls.map(
+        call => call[1]
+      );
+      expect(starts).toEqual([2, 3, 4, 5].map(occurrenceStart));
+    });
+
+    it('should leave the count unset when splitting a series bounded by a date', async () => {
+      const until = occurrenceStart(4).toISOString();
+      const series = buildSeries({
+        recurrence: { frequency: 'weekly', until },
+      });
+      mockEventSeriesModel.findById.mockResolvedValue(series);
+
+      await service.updateOccurrence(
+        buildOccurrence(series, 2),
+        { title: 'Deep Core Mining' },
+        'following'
+      );
+
+      const created = mockEventSeriesModel.create.mock.calls[0][0];
+      expect(created.recurrence.count).toBeUndefined();
+      expect(created.recurrence.until).toBe(until);
+    });
+
+    it('should leave the date of a detached occurrence alone when editing all occurrences', async () => {
+      const series = buildSeries();
+      const occurrences = [0, 1, 2, 3, 4, 5].map(index =>
+        buildOccurrence(series, index)
+      );
+      // Moved by an earlier "this" edit, still holding its series date
+      const detached = {
+        ...occurrences[2],
+        start_time: new Date(occurrenceStart(2).getTime() + 2 * 60 * 60 * 1000),
+        is_series_exception: true,
+      };
+      occurrences[2] = detached;
+      mockEventSeriesModel.findById.mockResolvedValue(series);
+      mockEventModel.getSeriesOccurrences.mockResolvedValue(occurrences);
+
+      await service.updateOccurrence(
+        occurrences[3],
+        { title: 'Deep Core Mining' },
+        'all'
+      );
+
+      expect(mockEventSeriesModel.update).toHaveBeenCalledWith(
+        series.id,
+        expect.objectContaining({
+          template: expect.objectContaining({ title: 'Deep Core Mining' }),
+        }),
+        trx
+      );
+      const retimed = mockEventModel.update.mock.calls
+        .filter(([, data]) => data.occurrence_start)
+        .map(([id, data]) => [id, data.occurrence_start]);
+      expect(retimed).toEqual(
+        [0, 1, 3, 4, 5].map(index => [
+          occurrences[index].id,
+          occurrenceStart(index),
+        ])
+      );
+      expect(mockEventModel.update).not.toHaveBeenCalledWith(
+        detached.id,
+        expect.anything(),
+        expect.anything()
+      );
+      expect(mockEventModel.createOccurrence).not.toHaveBeenCalled();
+      expect(mockEventModel.delete).not.toHaveBeenCalled();
+    });
+  });
+});
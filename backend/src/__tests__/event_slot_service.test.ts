@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { EventSlotService } from '../services/event_slot_service';
+import { EventModel } from '../models/event_model';
+import { HRSkillModel } from '../models/hr_skill_model';
+import { Event, EventSlot } from '../types/event';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/event_model');
+jest.mock('../models/hr_skill_model');
+
+const MockedEventModel = EventModel as jest.MockedClass<typeof EventModel>;
+const MockedHRSkillModel = HRSkillModel as jest.MockedClass<typeof HRSkillModel>;
+
+describe('EventSlotService', () => {
+  let service: EventSlotService;
+  let mockEventModel: jest.Mocked<EventModel>;
+  let mockSkillModel: jest.Mocked<HRSkillModel>;
+
+  const organizationId = uuidv4();
+  const gunnerySkillId = uuidv4();
+  const medicalSkillId = uuidv4();
+  const now = new Date();
+
+  const mockEvent: Event = {
+    id: uuidv4(),
+    organization_id: organizationId,
+    created_by: uuidv4(),
+    title: 'Hammerhead Escort',
+    start_time: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+    end_time: new Date(now.getTime() + 26 * 60 * 60 * 1000),
+    languages: ['en'],
+    max_participants: 10,
+    is_public: true,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const buildSlot = (overrides: Partial<EventSlot> = {}): EventSlot => ({
+    id: uuidv4(),
+    event_id: mockEvent.id,
+    name: 'Turret Gunner',
+    capacity: 2,
+    required_skill_ids: [],
+    sort_order: 0,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  const buildSkill = (id: string, name: string, orgId = organizationId) => ({
+    id,
+    organization_id: orgId,
+    name,
+    category: 'security' as const,
+    verification_required: true,
+    created_at: now,
+    updated_at: now,
+  });
+
+  beforeAll(() => {
+    mockEventModel = {
+      findSlotById: jest.fn(),
+      getSlotRoster: jest.fn(),
+    } as any;
+    mockSkillModel = {
+      findSkillById: jest.fn(),
+      getUserSkills: jest.fn(),
+    } as any;
+
+    MockedEventModel.mockImplementation(() => mockEventModel);
+    MockedHRSkillModel.mockImplementation(() => mockSkillModel);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new EventSlotService();
+  });
+
+  describe('validateSlots', () => {
+    it('should accept valid slots', async () => {
+      mockSkillModel.findSkillById.mockResolvedValue(
+        buildSkill(gunnerySkillId, 'Turret Gunnery')
+      );
+
+      const errors = await service.validateSlots(
+        [
+          { name: 'Turret Gunner', capacity: 2, required_skill_ids: [gunnerySkillId] },
+          { name: 'Medic', capacity: 1 },
+        ],
+        { organizationId, maxParticipants: 10 }
+      );
+
+      expect(errors).toEqual([]);
+    });
+
+    it('should reject missing names, bad capacities and duplicates', async () => {
+      const errors = await service.validateSlots(
+        [
+          { name: ' ', capacity: 1 },
+          { name: 'Pilot', capacity: 0 },
+          { name: 'Medic', capacity: 1 },
+          { name: 'medic', capacity: 1 },
+        ],
+        { organizationId }
+      );
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain('Slot 1');
+      expect(errors[1]).toContain('capacity');
+      expect(errors[2]).toContain('unique');
+    });
+
+    it('should reject capacities above the event maximum', async () => {
+      const errors = await service.validateSlots(
+        [
+          { name: 'Pilot', capacity: 4 },
+          { name: 'Gunner', capacity: 4 },
+        ],
+        { organizationId, maxParticipants: 6 }
+      );
+
+      expect(errors).toEqual([
+        "Slot capacities (8) exceed the event's maximum participants (6)",
+      ]);
+    });
+
+    it('should reject skills from another organization', async () => {
+      mockSkillModel.findSkillById.mockResolvedValue(
+        buildSkill(gunnerySkillId, 'Turret Gunnery', uuidv4())
+      );
+
+      const errors = await service.validateSlots(
+        [{ name: 'Gunner', capacity: 1, required_skill_ids: [gunnerySkillId] }],
+        { organizationId }
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain(gunnerySkillId);
+    });
+
+    it('should reject skill requirements on events without an organization', async () => {
+      const errors = await service.validateSlots(
+        [{ name: 'Gunner', capacity: 1, required_skill_ids: [gunnerySkillId] }],
+        { organizationId: null }
+      );
+
+      expect(errors).toEqual([
+        'Skill requirements are only available for organization events',
+      ]);
+      expect(mockSkillModel.findSkillById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkSlotEligibility', () => {
+    it('should allow claiming a slot without requirements', async () => {
+      mockEventModel.findSlotById.mockResolvedValue(buildSlot());
+
+      const result = await service.checkSlotEligibility(
+        mockEvent,
+        uuidv4(),
+        uuidv4()
+      );
+
+      expect(result).toEqual({ canClaim: true });
+      expect(mockSkillModel.getUserSkills).not.toHaveBeenCalled();
+    });
+
+    it('should reject slots from another event', async () => {
+      mockEventModel.findSlotById.mockResolvedValue(
+        buildSlot({ event_id: uuidv4() })
+      );
+
+      const result = await service.checkSlotEligibility(
+        mockEvent,
+        uuidv4(),
+        uuidv4()
+      );
+
+      expect(result.canClaim).toBe(false);
+      expect(result.reason).toBe('Slot not found for this event');
+    });
+
+    it('should require every skill to be verified', async () => {
+      const userId = uuidv4();
+      mockEventModel.findSlotById.mockResolvedValue(
+        buildSlot({
+          name: 'Medic',
+          required_skill_ids: [gunnerySkillId, medicalSkillId],
+        })
+      );
+      mockSkillModel.getUserSkills.mockResolvedValue([
+        { skill_id: gunnerySkillId, verified: true },
+      ]);
+      mockSkillModel.findSkillById.mockResolvedValue(
+        buildSkill(medicalSkillId, 'Field Medicine')
+      );
+
+      const result = await service.checkSlotEligibility(
+        mockEvent,
+        uuidv4(),
+        userId
+      );
+
+      expect(mockSkillModel.getUserSkills).toHaveBeenCalledWith(
+        organizationId,
+        userId,
+        { verified: true }
+      );
+      expect(result.canClaim).toBe(false);
+      expect(result.missingSkills).toEqual(['Field Medicine']);
+      expect(result.reason).toContain('"Medic" slot requires verified skills');
+    });
+
+    it('should allow members with all required skills verified', async () => {
+      mockEventModel.findSlotById.mockResolvedValue(
+        buildSlot({ required_skill_ids: [gunnerySkillId] })
+      );
+      mockSkillModel.getUserSkills.mockResolvedValue([
+        { skill_id: gunnerySkillId, verified: true },
+      ]);
+
+      const result = await service.checkSlotEligibility(
+        mockEvent,
+        uuidv4(),
+        uuidv4()
+      );
+
+      expect(result).toEqual({ canClaim: true });
+    });
+  });
+});
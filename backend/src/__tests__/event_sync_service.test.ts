@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { EventSyncService } from '../services/event_sync_service';
+import { DiscordService } from '../services/discord_service';
+import { EventReminderService } from '../services/event_reminder_service';
+import { DiscordServerModel } from '../models/discord_server_model';
+import { DiscordEventModel } from '../models/discord_event_model';
+import { EventModel } from '../models/event_model';
+import { OrganizationModel } from '../models/organization_model';
+import { UserModel } from '../models/user_model';
+import { Event } from '../types/event';
+import {
+  APIGuildScheduledEvent,
+  DiscordEvent,
+  DiscordServer,
+} from '../types/discord';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../services/discord_service');
+jest.mock('../services/event_reminder_service');
+jest.mock('../models/discord_server_model');
+jest.mock('../models/discord_event_model');
+jest.mock('../models/event_model');
+jest.mock('../models/organization_model');
+jest.mock('../models/user_model');
+jest.mock('../config/logger');
+
+describe('EventSyncService inbound sync', () => {
+  let service: EventSyncService;
+  let mockDiscordService: jest.Mocked<DiscordService>;
+  let mockDiscordEventModel: jest.Mocked<DiscordEventModel>;
+  let mockEventModel: jest.Mocked<EventModel>;
+  let mockOrganizationModel: jest.Mocked<OrganizationModel>;
+  let mockUserModel: jest.Mocked<UserModel>;
+  let mockReminderService: jest.Mocked<EventReminderService>;
+
+  const now = Date.now();
+  const hour = 60 * 60 * 1000;
+  const botUserId = '100000000000000001';
+  const officerDiscordId = '100000000000000002';
+  const startTime = new Date(now + 48 * hour);
+  const endTime = new Date(now + 50 * hour);
+
+  const server: DiscordServer = {
+    id: uuidv4(),
+    organization_id: uuidv4(),
+    discord_guild_id: '200000000000000001',
+    guild_name: 'Test Guild',
+    bot_permissions: 0,
+    is_active: true,
+    auto_create_events: true,
+    role_sync_auto_fix: false,
+    created_at: new Date(now),
+    updated_at: new Date(now),
+  };
+
+  const buildEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: uuidv4(),
+    organization_id: server.organization_id,
+    created_by: uuidv4(),
+    title: 'Mining Op',
+    start_time: startTime,
+    end_time: endTime,
+    languages: ['en'],
+    is_public: true,
+    is_active: true,
+    created_at: new Date(now - 24 * hour),
+    updated_at: new Date(now - 24 * hour),
+    ...overrides,
+  });
+
+  const buildGuildEvent = (
+    overrides: Record<string, unknown> = {}
+  ): APIGuildScheduledEvent =>
+    ({
+      id: '300000000000000001',
+      guild_id: server.discord_guild_id,
+      channel_id: null,
+      creator_id: officerDiscordId,
+      name: 'Mining Op',
+      description: 'Quantanium run',
+      scheduled_start_time: startTime.toISOString(),
+      scheduled_end_time: endTime.toISOString(),
+      privacy_level: 2,
+      status: 1,
+      entity_type: 3,
+      entity_id: null,
+      entity_metadata: { location: 'Aaron Halo' },
+      ...overrides,
+    }) as unknown as APIGuildScheduledEvent;
+
+  const buildRecord = (
+    event: Event,
+    overrides: Partial<DiscordEvent> = {}
+  ): DiscordEvent => ({
+    id: uuidv4(),
+    event_id: event.id,
+    discord_guild_id: server.discord_guild_id,
+    discord_event_id: '300000000000000001',
+    sync_status: 'synced',
+    last_sync_at: new Date(now - 12 * hour),
+    origin: 'platform',
+    discord_snapshot: {
+      title: 'Mining Op',
+      start_time: startTime.toISOString(),
+      end_time: endTime.toISOString(),
+    },
+    discord_checked_at: new Date(now - hour),
+    sync_conflicts: [],
+    created_at: new Date(now - 24 * hour),
+    updated_at: new Date(now - hour),
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockDiscordService = {
+      listServerEvents: jest.fn(),
+      getBotUserId: jest.fn(),
+      createEventWithRetry: jest.fn(),
+      updateEventWithRetry: jest.fn(),
+    } as any;
+    mockDiscordEventModel = {
+      findByGuildId: jest.fn(),
+      findByEventId: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateByEventId: jest.fn(),
+      recordConflict: jest.fn(),
+    } as any;
+    mockEventModel = {
+      findById: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    } as any;
+    mockOrganizationModel = {
+      findById: jest.fn(),
+    } as any;
+    mockUserModel = {
+      findByDiscordId: jest.fn(),
+    } as any;
+    mockReminderService = {
+      createEventScheduledTasks: jest.fn(),
+      cancelEventScheduledTasks: jest.fn(),
+    } as any;
+
+    (DiscordService as jest.MockedClass<typeof DiscordService>).mockImplementation(
+      () => mockDiscordService
+    );
+    (DiscordEventModel as jest.MockedClass<typeof DiscordEventModel>).mockImplementation(
+      () => mockDiscordEventModel
+    );
+    (DiscordServerModel as jest.MockedClass<typeof DiscordServerModel>).mockImplementation(
+      () => ({}) as any
+    );
+    (EventModel as jest.MockedClass<typeof EventModel>).mockImplementation(
+      () => mockEventModel
+    );
+    (OrganizationModel as jest.MockedClass<typeof OrganizationModel>).mockImplementation(
+      () => mockOrganizationModel
+    );
+    (UserModel as jest.MockedClass<typeof UserModel>).mockImplementation(
+      () => mockUserModel
+    );
+    (EventReminderService as jest.MockedClass<typeof EventReminderService>).mockImplementation(
+      () => mockReminderService
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDiscordService.getBotUserId.mockResolvedValue(botUserId);
+    service = new EventSyncService();
+  });
+
+  it('should import events created directly in Discord', async () => {
+    const officerId = uuidv4();
+    const imported = buildEvent();
+    mockDiscordService.listServerEvents.mockResolvedValue([buildGuildEvent()]);
+    mockDiscordEventModel.findByGuildId.mockResolvedValue([]);
+    mockOrganizationModel.findById.mockResolvedValue({
+      id: server.organization_id,
+      owner_id: uuidv4(),
+    } as any);
+    mockUserModel.findByDiscordId.mockResolvedValue({ id: officerId } as any);
+    mockEventModel.create.mockResolvedValue(imported);
+
+    await service.syncInboundEventsForServer(server);
+
+    expect(mockEventModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        organization_id: server.organization_id,
+        created_by: officerId,
+        title: 'Mining Op',
+        location: 'Aaron Halo',
+        is_public: false,
+      })
+    );
+    expect(mockDiscordEventModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event_id: imported.id,
+        discord_event_id: '300000000000000001',
+        origin: 'discord',
+        sync_status: 'synced',
+      })
+    );
+    expect(mockReminderService.createEventScheduledTasks).toHaveBeenCalledWith(
+      imported.id,
+      startTime
+    );
+  });
+
+  it('should not import events the bot created', async () => {
+    mockDiscordService.listServerEvents.mockResolvedValue([
+      buildGuildEvent({ creator_id: botUserId }),
+    ]);
+    mockDiscordEventModel.findByGuildId.mockResolvedValue([]);
+
+    await service.syncInboundEventsForServer(server);
+
+    expect(mockEventModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should apply title and time edits made in Discord', async () => {
+    const event = buildEvent();
+    const newStart = new Date(now + 72 * hour);
+    const newEnd = new Date(now + 75 * hour);
+    mockDiscordService.listServerEvents.mockResolvedValue([
+      buildGuildEvent({
+        name: 'Mining Op (moved)',
+        scheduled_start_time: newStart.toISOString(),
+        scheduled_end_time: newEnd.toISOString(),
+      }),
+    ]);
+    const record = buildRecord(event);
+    mockDiscordEventModel.findByGuildId.mockResolvedValue([record]);
+    mockEventModel.findById.mockResolvedValue(event);
+
+    await service.syncInboundEventsForServer(server);
+
+    expect(mockEventModel.update).toHaveBeenCalledWith(event.id, {
+      title: 'Mining Op (moved)',
+      start_time: newStart,
+      end_time: newEnd,
+    });
+    expect(mockReminderService.createEventScheduledTasks).toHaveBeenCalledWith(
+      event.id,
+      newStart
+    );
+    expect(mockDiscordEventModel.recordConflict).not.toHaveBeenCalled();
+    expect(mockDiscordEventModel.update).toHaveBeenCalledWith(
+      record.id,
+      expect.objectContaining({
+        sync_status: 'synced',
+        discord_snapshot: {
+          title: 'Mining Op (moved)',
+          start_time: newStart.toISOString(),
+          end_time: newEnd.toISOString(),
+        },
+      })
+    );
+  });
+
+  it('should keep the platform version when it was edited after the last Discord check', async () => {
+    const event = buildEvent({
+      title: 'Mining Op (platform)',
+      updated_at: new Date(now - 10 * 60 * 1000),
+    });
+    const record = buildRecord(event);
+    mockDiscordService.listServerEvents.mockResolvedValue([
+      buildGuildEvent({ name: 'Mining Op (discord)' }),
+    ]);
+    mockDiscordEventModel.findByGuildId.mockResolvedValue([record]);
+    mockDiscordEventModel.findByEventId.mockResolvedValue(record);
+    mockEventModel.findById.mockResolvedValue(event);
+
+    await service.syncInboundEventsForServer(server);
+
+    expect(mockDiscordEventModel.recordConflict).toHaveBeenCalledWith(
+      record.id,
+      expect.objectContaining({ type: 'edit', winner: 'platform' })
+    );
+    expect(mockDiscordService.updateEventWithRetry).toHaveBeenCalledWith(
+      record.discord_event_id,
+      event,
+      server.discord_guild_id
+    );
+    expect(mockEventModel.update).not.toHaveBeenCalled();
+  });
+
+  it('should keep the Discord version when the platform edit predates the last check', async () => {
+    const event = buildEvent({
+      title: 'Mining Op (platform)',
+      updated_at: new Date(now - 2 * hour),
+    });
+    const record = buildRecord(event);
+    mockDiscordService.listServerEvents.mockResolvedValue([
+      buildGuildEvent({ name: 'Mining Op (discord)' }),
+    ]);
+    mockDiscordEventModel.findByGuildId.mockResolvedValue([record]);
+    mockEventModel.findById.mockResolvedValue(event);
+
+    await service.syncInboundEventsForServer(server);
+
+    expect(mockDiscordEventModel.recordConflict).toHaveBeenCalledWith(
+      record.id,
+      expect.objectContaining({ type: 'edit', winner: 'discord' })
+    );
+    expect(mockEventModel.update).toHaveBeenCalledWith(
+      event.id,
+      expect.objectContaining({ title: 'Mining Op (discord)' })
+    );
+    expect(mockDiscordService.updateEventWithRetry).not.toHaveBeenCalled();
+  });
+
+  it('should deactivate events deleted in Discord', async () => {
+    const event = buildEvent();
+    const record = buildRecord(event);
+    mockDiscordService.listServerEvents.mockResolvedValue([]);
+    mockDiscordEventModel.findByGuildId.mockResolvedValue([record]);
+    mockEventModel.findById.mockResolvedValue(event);
+
+    await service.syncInboundEventsForServer(server);
+
+    expect(mockEventModel.update).toHaveBeenCalledWith(event.id, {
+      is_active: false,
+    });
+    expect(mockDiscordEventModel.update).toHaveBeenCalledWith(
+      record.id,
+      expect.objectContaining({ sync_status: 'cancelled' })
+    );
+    expect(mockReminderService.cancelEventScheduledTasks).toHaveBeenCalledWith(
+      event.id
+    );
+  });
+
+  it('should ignore events that dropped out of Discord after starting', async () => {
+    const event = buildEvent({
+      start_time: new Date(now - 3 * hour),
+      end_time: new Date(now - hour),
+    });
+    mockDiscordService.listServerEvents.mockResolvedValue([]);
+    mockDiscordEventModel.findByGuildId.mockResolvedValue([buildRecord(event)]);
+    mockEventModel.findById.mockResolvedValue(event);
+
+    await service.syncInboundEventsForServer(server);
+
+    expect(mockEventModel.update).not.toHaveBeenCalled();
+    expect(mockDiscordEventModel.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { Request, Response } from 'express';
+import { PermissionHelper } from '../middleware/permissions';
+import { EventController } from '../controllers/event_controller';
+import { CalendarController } from '../controllers/calendar_controller';
+import { EventModel } from '../models/event_model';
+import { OrganizationModel } from '../models/organization_model';
+import { CalendarFeedModel } from '../models/calendar_feed_model';
+import { Event } from '../types/event';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/event_model');
+jest.mock('../models/organization_model');
+jest.mock('../models/role_model');
+jest.mock('../models/user_model');
+jest.mock('../models/calendar_feed_model');
+jest.mock('../services/event_waitlist_service');
+jest.mock('../services/event_slot_service');
+jest.mock('../config/database');
+jest.mock('../config/logger');
+
+describe('Per-event view overrides on listings and feeds', () => {
+  let canUserViewEvent: jest.SpiedFunction<
+    typeof PermissionHelper.canUserViewEvent
+  >;
+  // Automocked class methods live on the prototype, shared by every instance
+  const mockEventModel = EventModel.prototype as jest.Mocked<EventModel>;
+  const mockOrganizationModel =
+    OrganizationModel.prototype as jest.Mocked<OrganizationModel>;
+  const mockCalendarFeedModel =
+    CalendarFeedModel.prototype as jest.Mocked<CalendarFeedModel>;
+
+  const organizationId = uuidv4();
+  const user = { id: uuidv4() };
+
+  const buildEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: uuidv4(),
+    organization_id: organizationId,
+    created_by: uuidv4(),
+    title: 'Mining Op',
+    start_time: new Date(),
+    end_time: new Date(),
+    languages: ['en'],
+    is_public: false,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  const buildResponse = () => {
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    res.send = jest.fn(() => res);
+    res.setHeader = jest.fn();
+    return res as Response & {
+      status: jest.Mock;
+      json: jest.Mock;
+      send: jest.Mock;
+    };
+  };
+
+  beforeAll(() => {
+    canUserViewEvent = jest.spyOn(PermissionHelper, 'canUserViewEvent');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('PermissionHelper.filterViewableEvents', () => {
+    it('should keep public events and the private events the user can view', async () => {
+      const publicEvent = buildEvent({ is_public: true });
+      const visible = buildEvent();
+      const hidden = buildEvent();
+      canUserViewEvent.mockImplementation(async event => ({
+        canView: event.id !== hidden.id,
+      }));
+
+      const events = await PermissionHelper.filterViewableEvents(
+        [publicEvent, visible, hidden],
+        user.id
+      );
+
+      expect(events).toEqual([publicEvent, visible]);
+      expect(canUserViewEvent).not.toHaveBeenCalledWith(publicEvent, user.id);
+    });
+
+    it('should drop private events when there is no user', async () => {
+      const publicEvent = buildEvent({ is_public: true });
+
+      const events = await PermissionHelper.filterViewableEvents(
+        [publicEvent, buildEvent()],
+        null
+      );
+
+      expect(events).toEqual([publicEvent]);
+      expect(canUserViewEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PermissionHelper.getDeniedEventIds', () => {
+    it('should return the candidates the overrides actually deny', async () => {
+      const denied = buildEvent();
+      const allowedByUserOverride = buildEvent();
+      mockEventModel.getPrivateEventsWithDenyOverrides.mockResolvedValue([
+        denied,
+        allowedByUserOverride,
+      ]);
+      canUserViewEvent.mockImplementation(async event => ({
+        canView: event.id === allowedByUserOverride.id,
+      }));
+
+      const ids = await PermissionHelper.getDeniedEventIds(user.id);
+
+      expect(
+        mockEventModel.getPrivateEventsWithDenyOverrides
+      ).toHaveBeenCalledWith(user.id);
+      expect(ids).toEqual([denied.id]);
+    });
+  });
+
+  describe('EventController listings', () => {
+    const controller = new EventController();
+    const denied = buildEvent();
+
+    beforeEach(() => {
+      mockEventModel.getPrivateEventsWithDenyOverrides.mockResolvedValue([
+        denied,
+      ]);
+      canUserViewEvent.mockResolvedValue({
+        canView: false,
+        reason: 'Denied for this user',
+      });
+      mockEventModel.list.mockResolvedValue({ data: [], total: 0 });
+      mockEventModel.search.mockResolvedValue({ data: [], total: 0 });
+      mockEventModel.getPrivateEventsForUser.mockResolvedValue([]);
+    });
+
+    it('should exclude denied events from the event list', async () => {
+      await controller.listEvents(
+        { query: {}, user } as unknown as Request,
+        buildResponse()
+      );
+
+      expect(mockEventModel.list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: user.id,
+          exclude_event_ids: [denied.id],
+        })
+      );
+    });
+
+    it('should exclude denied events from private-only listings', async () => {
+      await controller.listEvents(
+        { query: { private_only: 'true' }, user } as unknown as Request,
+        buildResponse()
+      );
+
+      expect(mockEventModel.getPrivateEventsForUser).toHaveBeenCalledWith(
+        user.id,
+        expect.objectContaining({ exclude_event_ids: [denied.id] })
+      );
+    });
+
+    it('should exclude denied events from search results', async () => {
+      await controller.searchEvents(
+        { query: { q: 'mining' }, user } as unknown as Request,
+        buildResponse()
+      );
+
+      expect(mockEventModel.search).toHaveBeenCalledWith(
+        'mining',
+        expect.objectContaining({
+          include_private: true,
+          exclude_event_ids: [denied.id],
+        })
+      );
+    });
+
+    it('should exclude denied events from upcoming events', async () => {
+      await controller.getUpcomingEvents(
+        { query: {}, user } as unknown as Request,
+        buildResponse()
+      );
+
+      expect(mockEventModel.list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include_private: true,
+          exclude_event_ids: [denied.id],
+        })
+      );
+    });
+
+    it('should exclude denied events from the private events page', async () => {
+      await controller.getPrivateEvents(
+        { query: {}, user } as unknown as Request,
+        buildResponse()
+      );
+
+      expect(mockEventModel.getPrivateEventsForUser).toHaveBeenCalledWith(
+        user.id,
+        expect.objectContaining({ exclude_event_ids: [denied.id] })
+      );
+    });
+
+    it('should skip the override lookup for anonymous visitors', async () => {
+      await controller.listEvents(
+        { query: {} } as unknown as Request,
+        buildResponse()
+      );
+
+      expect(
+        mockEventModel.getPrivateEventsWithDenyOverrides
+      ).not.toHaveBeenCalled();
+      expect(mockEventModel.list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include_private: false,
+          exclude_event_ids: undefined,
+        })
+      );
+    });
+  });
+
+  describe('CalendarController feeds', () => {
+    const controller = new CalendarController();
+    const feedToken = { id: uuidv4(), user_id: user.id, token: 'feed-token' };
+
+    beforeEach(() => {
+      mockOrganizationModel.findByRsiOrgId.mockResolvedValue({
+        id: organizationId,
+        name: 'Test Org',
+      } as any);
+      mockOrganizationModel.isUserMember.mockResolvedValue(true);
+      mockCalendarFeedModel.findByToken.mockResolvedValue(feedToken as any);
+    });
+
+    it('should leave denied private events out of the organization feed', async () => {
+      const visible = buildEvent({ title: 'Mining Op' });
+      const hidden = buildEvent({ title: 'Officer Briefing' });
+      mockEventModel.getOrganizationCalendarEvents.mockResolvedValue([
+        visible,
+        hidden,
+      ]);
+      canUserViewEvent.mockImplementation(async event => ({
+        canView: event.id !== hidden.id,
+      }));
+      const res = buildResponse();
+
+      await controller.getOrganizationFeed(
+        {
+          params: { spectrumId: 'TESTORG' },
+          query: { token: feedToken.token },
+        } as unknown as Request,
+        res
+      );
+
+      const calendar = res.send.mock.calls[0][0] as string;
+      expect(calendar).toContain('SUMMARY:Mining Op');
+      expect(calendar).not.toContain('Officer Briefing');
+    });
+
+    it('should leave events the user can no longer view out of the registrations feed', async () => {
+      const visible = buildEvent({ title: 'Mining Op' });
+      const hidden = buildEvent({ title: 'Officer Briefing' });
+      mockEventModel.getUserCalendarEvents.mockResolvedValue([
+        { ...visible, registration_status: 'registered' },
+        { ...hidden, registration_status: 'registered' },
+      ]);
+      canUserViewEvent.mockImplementation(async event => ({
+        canView: event.id !== hidden.id,
+      }));
+      const res = buildResponse();
+
+      await controller.getRegistrationsFeed(
+        { params: {}, query: { token: feedToken.token } } as unknown as Request,
+        res
+      );
+
+      const calendar = res.send.mock.calls[0][0] as string;
+      expect(calendar).toContain('SUMMARY:Mining Op');
+      expect(calendar).not.toContain('Officer Briefing');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { EventWaitlistService } from '../services/event_waitlist_service';
+import { EventModel } from '../models/event_model';
+import { NotificationService } from '../services/notification_service';
+import { NotificationEntityType } from '../types/notification';
+import { Event, EventRegistration } from '../types/event';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/event_model');
+jest.mock('../services/notification_service');
+jest.mock('../config/logger');
+
+const MockedEventModel = EventModel as jest.MockedClass<typeof EventModel>;
+const MockedNotificationService = NotificationService as jest.MockedClass<typeof NotificationService>;
+
+describe('EventWaitlistService', () => {
+  let service: EventWaitlistService;
+  let mockEventModel: jest.Mocked<EventModel>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+
+  const now = new Date();
+  const inTwoDays = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+  const mockEvent: Event = {
+    id: uuidv4(),
+    organization_id: uuidv4(),
+    created_by: uuidv4(),
+    title: 'Mining Op',
+    start_time: inTwoDays,
+    end_time: new Date(inTwoDays.getTime() + 60 * 60 * 1000),
+    languages: ['en'],
+    max_participants: 2,
+    is_public: true,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const buildRegistration = (
+    overrides: Partial<EventRegistration> = {}
+  ): EventRegistration => ({
+    id: uuidv4(),
+    event_id: mockEvent.id,
+    user_id: uuidv4(),
+    status: 'registered',
+    registered_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockEventModel = {
+      findById: jest.fn(),
+      promoteWaitlisted: jest.fn(),
+      getExpiredPromotions: jest.fn(),
+      unregisterUser: jest.fn(),
+    } as any;
+
+    mockNotificationService = {
+      createCustomEventNotification: jest.fn(),
+    } as any;
+
+    MockedEventModel.mockImplementation(() => mockEventModel);
+    MockedNotificationService.mockImplementation(() => mockNotificationService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.EVENT_WAITLIST_CONFIRMATION_MINUTES;
+    service = new EventWaitlistService();
+  });
+
+  describe('getConfirmationDeadline', () => {
+    it('should use the event confirmation window', () => {
+      const deadline = service.getConfirmationDeadline(
+        { ...mockEvent, waitlist_confirmation_minutes: 60 },
+        now
+      );
+
+      expect(deadline?.getTime()).toBe(now.getTime() + 60 * 60 * 1000);
+    });
+
+    it('should fall back to the server default window', () => {
+      process.env.EVENT_WAITLIST_CONFIRMATION_MINUTES = '30';
+      service = new EventWaitlistService();
+
+      const deadline = service.getConfirmationDeadline(mockEvent, now);
+
+      expect(deadline?.getTime()).toBe(now.getTime() + 30 * 60 * 1000);
+    });
+
+    it('should not extend past the event start', () => {
+      const deadline = service.getConfirmationDeadline(
+        { ...mockEvent, waitlist_confirmation_minutes: 7 * 24 * 60 },
+        now
+      );
+
+      expect(deadline).toEqual(inTwoDays);
+    });
+
+    it('should return null when no confirmation is required', () => {
+      expect(
+        service.getConfirmationDeadline(
+          { ...mockEvent, waitlist_confirmation_minutes: 0 },
+          now
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('promoteAvailableSeats', () => {
+    it('should promote waitlisted users and notify them', async () => {
+      const promoted = buildRegistration({
+        confirmation_expires_at: new Date(now.getTime() + 60 * 60 * 1000),
+      });
+      mockEventModel.findById.mockResolvedValue(mockEvent);
+      mockEventModel.promoteWaitlisted.mockResolvedValue([promoted]);
+
+      const result = await service.promoteAvailableSeats(mockEvent.id);
+
+      expect(result).toEqual([promoted]);
+      expect(mockEventModel.promoteWaitlisted).toHaveBeenCalledWith(
+        mockEvent.id,
+        expect.any(Date)
+      );
+      expect(
+        mockNotificationService.createCustomEventNotification
+      ).toHaveBeenCalledWith(
+        NotificationEntityType.EVENT_WAITLIST_PROMOTED,
+        mockEvent.id,
+        mockEvent.created_by,
+        [promoted.user_id],
+        expect.any(String),
+        expect.stringContaining('Confirm your spot'),
+        expect.objectContaining({ registration_id: promoted.id })
+      );
+    });
+
+    it('should not promote for events that have already started', async () => {
+      mockEventModel.findById.mockResolvedValue({
+        ...mockEvent,
+        start_time: new Date(now.getTime() - 60 * 1000),
+      });
+
+      const result = await service.promoteAvailableSeats(mockEvent.id);
+
+      expect(result).toEqual([]);
+      expect(mockEventModel.promoteWaitlisted).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireUnconfirmedPromotions', () => {
+    it('should release expired seats and promote the next users', async () => {
+      const expired = buildRegistration();
+      mockEventModel.getExpiredPromotions.mockResolvedValue([expired]);
+      mockEventModel.unregisterUser.mockResolvedValue(true);
+      mockEventModel.findById.mockResolvedValue(mockEvent);
+      mockEventModel.promoteWaitlisted.mockResolvedValue([]);
+
+      const count = await service.expireUnconfirmedPromotions();
+
+      expect(count).toBe(1);
+      expect(mockEventModel.unregisterUser).toHaveBeenCalledWith(
+        mockEvent.id,
+        expired.user_id
+      );
+      expect(mockEventModel.promoteWaitlisted).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { HRApplicationFormService } from '../services/hr_application_form_service';
+import {
+  HRApplicationFormModel,
+  HRApplicationForm,
+  ApplicationFormQuestion,
+} from '../models/hr_application_form_model';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/hr_application_form_model');
+jest.mock('../config/logger');
+
+describe('HRApplicationFormService', () => {
+  let service: HRApplicationFormService;
+  let mockFormModel: jest.Mocked<HRApplicationFormModel>;
+
+  const organizationId = uuidv4();
+  const now = new Date('2025-07-01T12:00:00Z');
+
+  const form: HRApplicationForm = {
+    id: uuidv4(),
+    organization_id: organizationId,
+    name: 'Pilot',
+    description: null,
+    current_version: 2,
+    is_active: true,
+    created_by: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const questions: ApplicationFormQuestion[] = [
+    {
+      id: 'role',
+      type: 'single_choice',
+      label: 'Role',
+      required: true,
+      options: ['Fighter', 'Industry'],
+    },
+    {
+      id: 'ships',
+      type: 'ship_ownership',
+      label: 'Ships',
+      required: true,
+      visible_when: { question_id: 'role', values: ['Fighter'] },
+    },
+    {
+      id: 'timezone',
+      type: 'timezone',
+      label: 'Timezone',
+      required: false,
+    },
+    {
+      id: 'handle',
+      type: 'rsi_handle_confirmation',
+      label: 'RSI handle',
+      required: true,
+    },
+    {
+      id: 'why',
+      type: 'short_text',
+      label: 'Why us',
+      required: false,
+      max_length: 10,
+    },
+  ];
+
+  beforeAll(() => {
+    mockFormModel = {
+      findFormById: jest.fn(),
+      findVersion: jest.fn(),
+      createVersion: jest.fn(),
+      updateForm: jest.fn(),
+    } as any;
+
+    (
+      HRApplicationFormModel as jest.MockedClass<typeof HRApplicationFormModel>
+    ).mockImplementation(() => mockFormModel);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFormModel.findFormById.mockResolvedValue(form);
+    mockFormModel.findVersion.mockImplementation(async (formId, version) => ({
+      id: uuidv4(),
+      form_id: formId,
+      version,
+      questions,
+      created_at: now,
+    }));
+    mockFormModel.createVersion.mockImplementation(
+      async (formId, newQuestions) => ({
+        id: uuidv4(),
+        form_id: formId,
+        version: 3,
+        questions: newQuestions,
+        created_at: now,
+      })
+    );
+    service = new HRApplicationFormService();
+  });
+
+  describe('normalizeQuestions', () => {
+    it('should generate ids for new questions', () => {
+      const result = service.normalizeQuestions([
+        {
+          type: 'long_text',
+          label: ' Tell us about yourself ',
+          required: true,
+        },
+      ]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.questions[0]).toMatchObject({
+        type: 'long_text',
+        label: 'Tell us about yourself',
+        required: true,
+      });
+      expect(result.questions[0].id).toEqual(expect.any(String));
+    });
+
+    it('should require options on choice questions', () => {
+      const result = service.normalizeQuestions([
+        { id: 'role', type: 'single_choice', label: 'Role', options: [] },
+      ]);
+
+      expect(result.errors).toHaveLength(1);
+    });
+
+    it('should reject duplicate question ids', () => {
+      const result = service.normalizeQuestions([
+        { id: 'same', type: 'timezone', label: 'Timezone' },
+        { id: 'same', type: 'short_text', label: 'Name' },
+      ]);
+
+      expect(result.errors).toEqual(['Question 2 reuses the id same']);
+    });
+
+    it('should only allow conditions on earlier choice questions', () => {
+      const result = service.normalizeQuestions([
+        {
+          id: 'ships',
+          type: 'ship_ownership',
+          label: 'Ships',
+          visible_when: { question_id: 'role', values: ['Fighter'] },
+        },
+        {
+          id: 'role',
+          type: 'single_choice',
+          label: 'Role',
+          options: ['Fighter'],
+        },
+      ]);
+
+      expect(result.errors).toEqual([
+        'Question 1 can only depend on an earlier choice question',
+      ]);
+    });
+
+    it('should reject conditions on options the question does not have', () => {
+      const result = service.normalizeQuestions([
+        {
+          id: 'role',
+          type: 'single_choice',
+          label: 'Role',
+          options: ['Fighter'],
+        },
+        {
+          id: 'ships',
+          type: 'ship_ownership',
+          label: 'Ships',
+          visible_when: { question_id: 'role', values: ['Miner'] },
+        },
+      ]);
+
+      expect(result.errors).toEqual([
+        'Question 2 depends on options that Role does not have',
+      ]);
+    });
+  });
+
+  describe('validateAnswers', () => {
+    it('should accept valid answers', () => {
+      const result = service.validateAnswers(
+        questions,
+        {
+          role: 'Fighter',
+          ships: ['Gladius', ' Arrow '],
+          timezone: 'Europe/Berlin',
+          handle: 'pilot',
+        },
+        'Pilot'
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.answers).toEqual({
+        role: 'Fighter',
+        ships: ['Gladius', 'Arrow'],
+        timezone: 'Europe/Berlin',
+        handle: 'pilot',
+      });
+    });
+
+    it('should skip hidden questions and drop their answers', () => {
+      const result = service.validateAnswers(
+        questions,
+        {
+          role: 'Industry',
+          ships: ['Prospector'],
+          handle: 'Pilot',
+          extra: 'x',
+        },
+        'Pilot'
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.answers).toEqual({ role: 'Industry', handle: 'Pilot' });
+    });
+
+    it('should require visible required questions', () => {
+      const result = service.validateAnswers(
+        questions,
+        { role: 'Fighter', handle: 'Pilot' },
+        'Pilot'
+      );
+
+      expect(result.errors).toEqual([
+        { field: 'answers.ships', message: 'Ships is required' },
+      ]);
+    });
+
+    it('should check answers against the question type', () => {
+      const result = service.validateAnswers(
+        questions,
+        {
+          role: 'Miner',
+          timezone: 'Mars/Olympus',
+          handle: 'SomeoneElse',
+          why: 'Far too long an answer',
+        },
+        'Pilot'
+      );
+
+      expect(result.errors.map(error => error.field)).toEqual([
+        'answers.role',
+        'answers.timezone',
+        'answers.handle',
+        'answers.why',
+      ]);
+    });
+  });
+
+  describe('validateSubmission', () => {
+    it('should validate against the submitted version', async () => {
+      const result = await service.validateSubmission(
+        organizationId,
+        form.id,
+        1,
+        { role: 'Industry', handle: 'Pilot' },
+        'Pilot'
+      );
+
+      expect(mockFormModel.findVersion).toHaveBeenCalledWith(form.id, 1);
+      expect(result.errors).toEqual([]);
+      expect(result.form_version).toBe(1);
+    });
+
+    it('should reject forms of other organizations', async () => {
+      const result = await service.validateSubmission(
+        uuidv4(),
+        form.id,
+        2,
+        {},
+        'Pilot'
+      );
+
+      expect(result.errors).toEqual([
+        { field: 'form_id', message: 'Application form not found' },
+      ]);
+    });
+
+    it('should reject archived forms', async () => {
+      mockFormModel.findFormById.mockResolvedValue({
+        ...form,
+        is_active: false,
+      });
+
+      const result = await service.validateSubmission(
+        organizationId,
+        form.id,
+        2,
+        {},
+        'Pilot'
+      );
+
+      expect(result.form).toBeNull();
+    });
+  });
+
+  describe('updateForm', () => {
+    it('should only save a new version when the questions change', async () => {
+      await service.updateForm(form, 'user-1', { questions });
+
+      expect(mockFormModel.createVersion).not.toHaveBeenCalled();
+
+      await service.updateForm(form, 'user-1', {
+        questions: questions.slice(1),
+      });
+
+      expect(mockFormModel.createVersion).toHaveBeenCalledWith(
+        form.id,
+        questions.slice(1),
+        'user-1'
+      );
+    });
+  });
+});
@@ -1,22 +1,43 @@
 import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
 import { HRApplicationService } from '../services/hr_application_service';
 import { HRApplicationModel, HRApplication } from '../models/hr_application_model';
+import { HRPipelineModel, HRPipelineRule, HRPipelineStage } from '../models/hr_pipeline_model';
+import { RoleModel } from '../models/role_model';
 import { NotificationService } from '../services/notification_service';
+import { PlayerVettingService } from '../services/player_vetting_service';
+import { HRApplicationFormService } from '../services/hr_application_form_service';
+import { UserModel } from '../models/user_model';
+import { PlayerVettingSummary } from '../types/reputation';
 import { v4 as uuidv4 } from 'uuid';
 
 // Mock dependencies
 jest.mock('../models/hr_application_model');
 jest.mock('../services/notification_service');
+jest.mock('../services/player_vetting_service');
+jest.mock('../services/hr_application_form_service');
+jest.mock('../models/user_model');
 jest.mock('../models/organization_model');
+jest.mock('../models/hr_pipeline_model');
+jest.mock('../models/role_model');
 jest.mock('../config/logger');
 
 const MockedHRApplicationModel = HRApplicationModel as jest.MockedClass<typeof HRApplicationModel>;
 const MockedNotificationService = NotificationService as jest.MockedClass<typeof NotificationService>;
+const MockedPlayerVettingService = PlayerVettingService as jest.MockedClass<typeof PlayerVettingService>;
+const MockedHRApplicationFormService = HRApplicationFormService as jest.MockedClass<typeof HRApplicationFormService>;
+const MockedUserModel = UserModel as jest.MockedClass<typeof UserModel>;
+const MockedHRPipelineModel = HRPipelineModel as jest.MockedClass<typeof HRPipelineModel>;
+const MockedRoleModel = RoleModel as jest.MockedClass<typeof RoleModel>;
 
 describe('HRApplicationService', () => {
   let service: HRApplicationService;
   let mockApplicationModel: jest.Mocked<HRApplicationModel>;
   let mockNotificationService: jest.Mocked<NotificationService>;
+  let mockVettingService: jest.Mocked<PlayerVettingService>;
+  let mockFormService: jest.Mocked<HRApplicationFormService>;
+  let mockUserModel: jest.Mocked<UserModel>;
+  let mockPipelineModel: jest.Mocked<HRPipelineModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
 
   const testOrganizationId = uuidv4();
   const testUserId = uuidv4();
@@ -36,14 +57,20 @@ describe('HRApplicationService', () => {
 
   beforeAll(() => {
     mockApplicationModel = {
+      create: jest.fn(),
       checkDuplicateApplication: jest.fn(),
       validateApplicationData: jest.fn(),
       getApplicationsByStatus: jest.fn(),
       findByOrganizationAndUser: jest.fn(),
       findById: jest.fn(),
       updateStatus: jest.fn(),
+      update: jest.fn(),
+      logStatusChange: jest.fn(),
+      validateStageTransition: jest.fn(),
+      isTerminalStatus: jest.fn(),
       generateInviteCode: jest.fn(),
       getApplicationStats: jest.fn(),
+      saveVettingSummary: jest.fn(),
     } as any;
 
     mockNotificationService = {
@@ -51,11 +78,45 @@ describe('HRApplicationService', () => {
     } as any;
 
     MockedHRApplicationModel.mockImplementation(() => mockApplicationModel);
+    mockVettingService = {
+      vetHandle: jest.fn(),
+    } as any;
+
+    mockUserModel = {
+      findById: jest.fn(),
+    } as any;
+
+    mockFormService = {
+      requiresForm: jest.fn(),
+    } as any;
+
+    mockPipelineModel = {
+      findFirstStageForStatus: jest.fn(),
+      findStageById: jest.fn(),
+      findActiveRules: jest.fn(),
+      findIdleApplications: jest.fn(),
+      recordRuleRun: jest.fn(),
+      nextAssignmentIndex: jest.fn(),
+    } as any;
+
+    mockRoleModel = {
+      addRoleToUser: jest.fn(),
+      canAssignRole: jest.fn(),
+    } as any;
+
     MockedNotificationService.mockImplementation(() => mockNotificationService);
+    MockedHRPipelineModel.mockImplementation(() => mockPipelineModel);
+    MockedRoleModel.mockImplementation(() => mockRoleModel);
+    MockedPlayerVettingService.mockImplementation(() => mockVettingService);
+    MockedUserModel.mockImplementation(() => mockUserModel);
+    MockedHRApplicationFormService.mockImplementation(() => mockFormService);
   });
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockPipelineModel.findFirstStageForStatus.mockResolvedValue(null);
+    mockPipelineModel.findActiveRules.mockResolvedValue([]);
+    mockFormService.requiresForm.mockResolvedValue(false);
     service = new HRApplicationService();
   });
 
@@ -195,4 +256,335 @@ describe('HRApplicationService', () => {
       )).rejects.toThrow('Application not found');
     });
   });
-});
\ No newline at end of file
+
+  describe('vetApplication', () => {
+    it('should vet the applicant by RSI handle and store the summary', async () => {
+      const summary = {
+        handle: 'testuser',
+        status: 'found',
+        risk_level: 'clear',
+        flags: [],
+        vetted_at: new Date(),
+      } as unknown as PlayerVettingSummary;
+      const vettedApplication = { ...mockApplication, vetting_summary: summary };
+
+      mockUserModel.findById.mockResolvedValue({ id: testUserId, rsi_handle: 'testuser' } as any);
+      mockVettingService.vetHandle.mockResolvedValue(summary);
+      mockApplicationModel.saveVettingSummary.mockResolvedValue(vettedApplication);
+
+      const result = await service.vetApplication(mockApplication);
+
+      expect(mockVettingService.vetHandle).toHaveBeenCalledWith('testuser');
+      expect(mockApplicationModel.saveVettingSummary).toHaveBeenCalledWith(testApplicationId, summary);
+      expect(result).toEqual(vettedApplication);
+    });
+
+    it('should leave the application unvetted when the check fails', async () => {
+      mockUserModel.findById.mockResolvedValue({ id: testUserId, rsi_handle: 'testuser' } as any);
+      mockVettingService.vetHandle.mockRejectedValue(new Error('Spectrum unavailable'));
+
+      const result = await service.vetApplication(mockApplication);
+
+      expect(result).toBeNull();
+      expect(mockApplicationModel.saveVettingSummary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitApplication', () => {
+    const submission = {
+      organization_id: testOrganizationId,
+      user_id: testUserId,
+      application_data: { cover_letter: 'Test cover letter' },
+    };
+
+    it('should create the application and vet the applicant', async () => {
+      const vettedApplication = { ...mockApplication, vetting_summary: {} as PlayerVettingSummary };
+      mockApplicationModel.create.mockResolvedValue(mockApplication);
+      mockUserModel.findById.mockResolvedValue({ id: testUserId, rsi_handle: 'testuser' } as any);
+      mockVettingService.vetHandle.mockResolvedValue({} as PlayerVettingSummary);
+      mockApplicationModel.saveVettingSummary.mockResolvedValue(vettedApplication);
+
+      const result = await service.submitApplication(submission);
+
+      expect(mockApplicationModel.create).toHaveBeenCalledWith(submission);
+      expect(mockVettingService.vetHandle).toHaveBeenCalledWith('testuser');
+      expect(result).toEqual(vettedApplication);
+    });
+
+    it('should put the application in the first pending stage of the pipeline', async () => {
+      const stageId = uuidv4();
+      const stagedApplication = { ...mockApplication, stage_id: stageId };
+      mockApplicationModel.create.mockResolvedValue(mockApplication);
+      mockUserModel.findById.mockResolvedValue(null);
+      mockPipelineModel.findFirstStageForStatus.mockResolvedValue({ id: stageId } as any);
+      mockApplicationModel.update.mockResolvedValue(stagedApplication);
+
+      const result = await service.submitApplication(submission);
+
+      expect(mockPipelineModel.findFirstStageForStatus).toHaveBeenCalledWith(
+        testOrganizationId,
+        'pending'
+      );
+      expect(mockApplicationModel.update).toHaveBeenCalledWith(testApplicationId, { stage_id: stageId });
+      expect(mockPipelineModel.findActiveRules).toHaveBeenCalledWith('application_submitted', testOrganizationId);
+      expect(result).toEqual(stagedApplication);
+    });
+
+    it('should keep the application when vetting fails', async () => {
+      mockApplicationModel.create.mockResolvedValue(mockApplication);
+      mockUserModel.findById.mockResolvedValue(null);
+
+      const result = await service.submitApplication(submission);
+
+      expect(result).toEqual(mockApplication);
+    });
+
+    it('should refuse applications without a form when the organization has one', async () => {
+      mockFormService.requiresForm.mockResolvedValue(true);
+
+      await expect(service.submitApplication(submission)).rejects.toThrow(
+        'Validation failed: This organization takes applications through its application form'
+      );
+      expect(mockFormService.requiresForm).toHaveBeenCalledWith(testOrganizationId);
+      expect(mockApplicationModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should accept applications submitted through a form', async () => {
+      const formSubmission = { ...submission, form_id: uuidv4(), form_version: 1 };
+      mockApplicationModel.create.mockResolvedValue(mockApplication);
+      mockUserModel.findById.mockResolvedValue(null);
+
+      await service.submitApplication(formSubmission);
+
+      expect(mockFormService.requiresForm).not.toHaveBeenCalled();
+      expect(mockApplicationModel.create).toHaveBeenCalledWith(formSubmission);
+    });
+
+    it('should throw validation errors from the model', async () => {
+      mockApplicationModel.create.mockRejectedValue(
+        new Error('User already has an active application for this organization')
+      );
+
+      await expect(service.submitApplication(submission)).rejects.toThrow(
+        'already has an active application'
+      );
+      expect(mockVettingService.vetHandle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pipeline stages and rules', () => {
+    const recruiterId = uuidv4();
+    const otherRecruiterId = uuidv4();
+
+    const stage = (data: Partial<HRPipelineStage>): HRPipelineStage => ({
+      id: uuidv4(),
+      organization_id: testOrganizationId,
+      name: 'Background check',
+      status: 'under_review',
+      position: 0,
+      created_at: new Date(),
+      updated_at: new Date(),
+      ...data,
+    });
+
+    const rule = (data: Partial<HRPipelineRule>): HRPipelineRule => ({
+      id: uuidv4(),
+      organization_id: testOrganizationId,
+      name: 'Test rule',
+      trigger: 'status_changed',
+      conditions: {},
+      actions: [],
+      is_active: true,
+      assignment_cursor: 0,
+      created_by: testUserId,
+      created_at: new Date(),
+      updated_at: new Date(),
+      ...data,
+    });
+
+    const rulesFor = (trigger: string, rules: HRPipelineRule[]) => {
+      mockPipelineModel.findActiveRules.mockImplementation(async ruleTrigger =>
+        ruleTrigger === trigger ? rules : []
+      );
+    };
+
+    it('should put the application in the first stage of its new status', async () => {
+      const backgroundCheck = stage({});
+      const underReview = { ...mockApplication, status: 'under_review' as const, stage_id: backgroundCheck.id };
+
+      mockApplicationModel.findById.mockResolvedValue(mockApplication);
+      mockPipelineModel.findFirstStageForStatus.mockResolvedValue(backgroundCheck);
+      mockApplicationModel.updateStatus.mockResolvedValue(underReview);
+
+      await service.processStatusChange(testApplicationId, 'under_review', testUserId);
+
+      expect(mockPipelineModel.findFirstStageForStatus).toHaveBeenCalledWith(testOrganizationId, 'under_review');
+      expect(mockApplicationModel.updateStatus).toHaveBeenCalledWith(
+        testApplicationId,
+        'under_review',
+        testUserId,
+        undefined,
+        undefined,
+        backgroundCheck.id
+      );
+    });
+
+    it('should assign recruiters round-robin when a status rule matches', async () => {
+      const underReview = { ...mockApplication, status: 'under_review' as const };
+      rulesFor('status_changed', [
+        rule({
+          conditions: { status: 'under_review' },
+          actions: [{ type: 'assign_round_robin', recruiter_ids: [recruiterId, otherRecruiterId] }],
+        }),
+      ]);
+
+      mockApplicationModel.findById.mockResolvedValue(mockApplication);
+      mockApplicationModel.updateStatus.mockResolvedValue(underReview);
+      mockPipelineModel.nextAssignmentIndex.mockResolvedValue(3);
+      mockApplicationModel.update.mockResolvedValue({ ...underReview, assignee_id: otherRecruiterId });
+      mockUserModel.findById.mockResolvedValue({ id: otherRecruiterId, rsi_handle: 'Recruiter' } as any);
+
+      const result = await service.processStatusChange(testApplicationId, 'under_review', testUserId);
+
+      expect(mockApplicationModel.update).toHaveBeenCalledWith(testApplicationId, {
+        assignee_id: otherRecruiterId,
+      });
+      expect(mockApplicationModel.logStatusChange).toHaveBeenCalledWith(
+        testApplicationId,
+        'under_review',
+        testUserId,
+        'Automation rule "Test rule" assigned the application to Recruiter'
+      );
+      expect(result?.assignee_id).toBe(otherRecruiterId);
+    });
+
+    it('should skip rules limited to another status', async () => {
+      rulesFor('status_changed', [
+        rule({
+          conditions: { status: 'interview_scheduled' },
+          actions: [{ type: 'assign_round_robin', recruiter_ids: [recruiterId] }],
+        }),
+      ]);
+
+      mockApplicationModel.findById.mockResolvedValue(mockApplication);
+      mockApplicationModel.updateStatus.mockResolvedValue({ ...mockApplication, status: 'under_review' });
+
+      await service.processStatusChange(testApplicationId, 'under_review', testUserId);
+
+      expect(mockPipelineModel.nextAssignmentIndex).not.toHaveBeenCalled();
+      expect(mockApplicationModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should give approved applicants the rule\'s role', async () => {
+      const roleId = uuidv4();
+      const approved = { ...mockApplication, status: 'approved' as const, invite_code: 'HR-12345678' };
+      rulesFor('status_changed', [
+        rule({
+          conditions: { status: 'approved' },
+          actions: [{ type: 'assign_role', role_id: roleId }],
+        }),
+      ]);
+
+      mockApplicationModel.findById.mockResolvedValue({ ...mockApplication, status: 'under_review' });
+      mockApplicationModel.updateStatus.mockResolvedValue(approved);
+      mockRoleModel.canAssignRole.mockResolvedValue(true);
+
+      await service.processStatusChange(testApplicationId, 'approved', testUserId);
+
+      expect(mockRoleModel.canAssignRole).toHaveBeenCalledWith(testOrganizationId, testUserId, roleId);
+      expect(mockRoleModel.addRoleToUser).toHaveBeenCalledWith(
+        testOrganizationId,
+        testUserId,
+        roleId,
+        testUserId
+      );
+    });
+
+    it('should skip roles the rule\'s author can no longer grant', async () => {
+      const roleId = uuidv4();
+      const approved = { ...mockApplication, status: 'approved' as const, invite_code: 'HR-12345678' };
+      rulesFor('status_changed', [
+        rule({
+          conditions: { status: 'approved' },
+          actions: [{ type: 'assign_role', role_id: roleId }],
+        }),
+      ]);
+
+      mockApplicationModel.findById.mockResolvedValue({ ...mockApplication, status: 'under_review' });
+      mockApplicationModel.updateStatus.mockResolvedValue(approved);
+      mockRoleModel.canAssignRole.mockResolvedValue(false);
+
+      await service.processStatusChange(testApplicationId, 'approved', testUserId);
+
+      expect(mockRoleModel.addRoleToUser).not.toHaveBeenCalled();
+    });
+
+    it('should move between stages of the same status and log it', async () => {
+      const current = stage({ name: 'Background check' });
+      const trial = stage({ name: 'Trial period', position: 1 });
+      const application = { ...mockApplication, status: 'under_review' as const, stage_id: current.id };
+
+      mockApplicationModel.validateStageTransition.mockReturnValue({ isValid: true, errors: [] });
+      mockApplicationModel.update.mockResolvedValue({ ...application, stage_id: trial.id });
+
+      const result = await service.moveToStage(application, trial, testUserId);
+
+      expect(mockApplicationModel.updateStatus).not.toHaveBeenCalled();
+      expect(mockApplicationModel.logStatusChange).toHaveBeenCalledWith(
+        testApplicationId,
+        'under_review',
+        testUserId,
+        'Moved to Trial period'
+      );
+      expect(result.stage_id).toBe(trial.id);
+    });
+
+    it('should refuse stage moves the status lifecycle does not allow', async () => {
+      const application = { ...mockApplication, status: 'approved' as const };
+
+      mockApplicationModel.validateStageTransition.mockReturnValue({
+        isValid: false,
+        errors: ['Cannot transition from approved to under_review'],
+      });
+
+      await expect(service.moveToStage(application, stage({}), testUserId)).rejects.toThrow(
+        'Invalid stage transition'
+      );
+      expect(mockApplicationModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject applications left idle', async () => {
+      const idleRule = rule({
+        name: 'Idle cleanup',
+        trigger: 'idle',
+        conditions: { idle_days: 14 },
+        actions: [{ type: 'reject', reason: 'No activity for 14 days' }],
+      });
+      const now = new Date('2025-07-15T00:00:00Z');
+
+      rulesFor('idle', [idleRule]);
+      mockPipelineModel.findIdleApplications.mockResolvedValue([mockApplication]);
+      mockApplicationModel.isTerminalStatus.mockReturnValue(false);
+      mockApplicationModel.findById.mockResolvedValue(mockApplication);
+      mockApplicationModel.updateStatus.mockResolvedValue({ ...mockApplication, status: 'rejected' });
+
+      const applied = await service.runIdleRules(now);
+
+      expect(applied).toBe(1);
+      expect(mockPipelineModel.findIdleApplications).toHaveBeenCalledWith(
+        idleRule,
+        new Date('2025-07-01T00:00:00Z')
+      );
+      expect(mockApplicationModel.updateStatus).toHaveBeenCalledWith(
+        testApplicationId,
+        'rejected',
+        testUserId,
+        'Automation rule "Idle cleanup"',
+        'No activity for 14 days',
+        null
+      );
+      // Recorded so the rule doesn't fire again until the application changes
+      expect(mockPipelineModel.recordRuleRun).toHaveBeenCalledWith(idleRule.id, testApplicationId);
+    });
+  });
+});
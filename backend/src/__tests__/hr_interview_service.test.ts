@@ -0,0 +1,425 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { HRInterviewService } from '../services/hr_interview_service';
+import {
+  HRInterviewModel,
+  HRInterviewSlot,
+  HRInterviewSlotWithUsers,
+} from '../models/hr_interview_model';
+import {
+  HRApplication,
+  HRApplicationModel,
+} from '../models/hr_application_model';
+import { DiscordServerModel } from '../models/discord_server_model';
+import { UserModel } from '../models/user_model';
+import { DiscordService } from '../services/discord_service';
+import { HRApplicationService } from '../services/hr_application_service';
+import { NotificationService } from '../services/notification_service';
+import { NotificationEntityType } from '../types/notification';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/hr_interview_model');
+jest.mock('../models/hr_application_model');
+jest.mock('../models/discord_server_model');
+jest.mock('../models/user_model');
+jest.mock('../services/discord_service');
+jest.mock('../services/hr_application_service');
+jest.mock('../services/notification_service');
+jest.mock('../config/logger');
+
+describe('HRInterviewService', () => {
+  let service: HRInterviewService;
+  let mockInterviewModel: jest.Mocked<HRInterviewModel>;
+  let mockApplicationModel: jest.Mocked<HRApplicationModel>;
+  let mockApplicationService: jest.Mocked<HRApplicationService>;
+  let mockDiscordServerModel: jest.Mocked<DiscordServerModel>;
+  let mockUserModel: jest.Mocked<UserModel>;
+  let mockDiscordService: jest.Mocked<DiscordService>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+
+  const organizationId = uuidv4();
+  const interviewerId = uuidv4();
+  const applicantId = uuidv4();
+  const now = new Date('2025-07-01T12:00:00Z');
+  const startTime = new Date('2025-07-02T18:00:00Z');
+
+  const application: HRApplication = {
+    id: uuidv4(),
+    organization_id: organizationId,
+    user_id: applicantId,
+    status: 'under_review',
+    application_data: { cover_letter: 'Hello' },
+    created_at: now,
+    updated_at: now,
+  };
+
+  const slot: HRInterviewSlot = {
+    id: uuidv4(),
+    organization_id: organizationId,
+    interviewer_id: interviewerId,
+    start_time: startTime,
+    end_time: new Date('2025-07-02T18:30:00Z'),
+    status: 'open',
+    create_discord_event: false,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const withUsers = (
+    data: Partial<HRInterviewSlotWithUsers> = {}
+  ): HRInterviewSlotWithUsers => ({
+    ...slot,
+    status: 'booked',
+    application_id: application.id,
+    rsi_org_id: 'TESTORG',
+    interviewer_rsi_handle: 'Recruiter',
+    applicant_id: applicantId,
+    applicant_rsi_handle: 'Pilot',
+    ...data,
+  });
+
+  beforeAll(() => {
+    mockInterviewModel = {
+      findById: jest.fn(),
+      findByIdWithUsers: jest.fn(),
+      findByApplication: jest.fn(),
+      hasOverlappingSlot: jest.fn(),
+      createSlot: jest.fn(),
+      book: jest.fn(),
+      cancel: jest.fn(),
+      update: jest.fn(),
+      recordOutcome: jest.fn(),
+    } as any;
+    mockApplicationModel = {
+      findById: jest.fn(),
+      logStatusChange: jest.fn(),
+    } as any;
+    mockApplicationService = {
+      processStatusChange: jest.fn(),
+    } as any;
+    mockDiscordServerModel = {
+      findByOrganizationId: jest.fn(),
+    } as any;
+    mockUserModel = {
+      findById: jest.fn(),
+    } as any;
+    mockDiscordService = {
+      createPrivateVoiceChannel: jest.fn(),
+      createVoiceChannelEvent: jest.fn(),
+      deleteEvent: jest.fn(),
+      deleteChannel: jest.fn(),
+    } as any;
+    mockNotificationService = {
+      createCustomEventNotification: jest.fn(),
+    } as any;
+
+    (
+      HRInterviewModel as jest.MockedClass<typeof HRInterviewModel>
+    ).mockImplementation(() => mockInterviewModel);
+    (
+      HRApplicationModel as jest.MockedClass<typeof HRApplicationModel>
+    ).mockImplementation(() => mockApplicationModel);
+    (
+      HRApplicationService as jest.MockedClass<typeof HRApplicationService>
+    ).mockImplementation(() => mockApplicationService);
+    (
+      DiscordServerModel as jest.MockedClass<typeof DiscordServerModel>
+    ).mockImplementation(() => mockDiscordServerModel);
+    (UserModel as jest.MockedClass<typeof UserModel>).mockImplementation(
+      () => mockUserModel
+    );
+    (
+      DiscordService as jest.MockedClass<typeof DiscordService>
+    ).mockImplementation(() => mockDiscordService);
+    (
+      NotificationService as jest.MockedClass<typeof NotificationService>
+    ).mockImplementation(() => mockNotificationService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInterviewModel.findById.mockResolvedValue(slot);
+    mockInterviewModel.findByApplication.mockResolvedValue(withUsers());
+    mockInterviewModel.book.mockResolvedValue({
+      ...slot,
+      status: 'booked',
+      application_id: application.id,
+    });
+    service = new HRInterviewService();
+  });
+
+  describe('publishSlot', () => {
+    it('should reject slots overlapping another of the interviewer', async () => {
+      mockInterviewModel.hasOverlappingSlot.mockResolvedValue(true);
+
+      const result = await service.publishSlot(organizationId, interviewerId, {
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(mockInterviewModel.createSlot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bookSlot', () => {
+    it('should schedule the interview and notify both participants', async () => {
+      mockInterviewModel.findByApplication
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(withUsers());
+
+      const result = await service.bookSlot(application, slot.id);
+
+      expect(result.success).toBe(true);
+      expect(mockInterviewModel.book).toHaveBeenCalledWith(
+        slot.id,
+        application.id
+      );
+      expect(mockApplicationService.processStatusChange).toHaveBeenCalledWith(
+        application.id,
+        'interview_scheduled',
+        interviewerId,
+        `Interview booked for ${startTime.toISOString()}`
+      );
+      expect(
+        mockNotificationService.createCustomEventNotification
+      ).toHaveBeenCalledWith(
+        NotificationEntityType.HR_INTERVIEW_SCHEDULED,
+        slot.id,
+        applicantId,
+        [interviewerId, applicantId],
+        'Interview Scheduled',
+        expect.any(String),
+        expect.objectContaining({
+          organization_id: organizationId,
+          rsi_org_id: 'TESTORG',
+        })
+      );
+      expect(
+        mockDiscordService.createPrivateVoiceChannel
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should only log the move when rebooking a scheduled interview', async () => {
+      await service.bookSlot(
+        { ...application, status: 'interview_scheduled' },
+        slot.id
+      );
+
+      expect(mockApplicationService.processStatusChange).not.toHaveBeenCalled();
+      expect(mockApplicationModel.logStatusChange).toHaveBeenCalledWith(
+        application.id,
+        'interview_scheduled',
+        applicantId,
+        `Interview moved to ${startTime.toISOString()}`
+      );
+    });
+
+    it('should reject applications that are not under review', async () => {
+      const result = await service.bookSlot(
+        { ...application, status: 'pending' },
+        slot.id
+      );
+
+      expect(result).toMatchObject({ success: false, code: 'forbidden' });
+      expect(mockInterviewModel.book).not.toHaveBeenCalled();
+    });
+
+    it('should reject slots of other organizations', async () => {
+      mockInterviewModel.findById.mockResolvedValue({
+        ...slot,
+        organization_id: uuidv4(),
+      });
+
+      const result = await service.bookSlot(application, slot.id);
+
+      expect(result).toMatchObject({ success: false, code: 'not_found' });
+    });
+
+    it('should report slots taken in the meantime', async () => {
+      mockInterviewModel.book.mockResolvedValue(null);
+
+      const result = await service.bookSlot(application, slot.id);
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(mockApplicationService.processStatusChange).not.toHaveBeenCalled();
+    });
+
+    it('should create a private voice channel event when the slot asks for one', async () => {
+      mockInterviewModel.book.mockResolvedValue({
+        ...slot,
+        status: 'booked',
+        application_id: application.id,
+        create_discord_event: true,
+      });
+      mockDiscordServerModel.findByOrganizationId.mockResolvedValue({
+        discord_guild_id: 'guild-1',
+        is_active: true,
+      } as any);
+      mockUserModel.findById.mockImplementation(
+        async id =>
+          ({
+            id,
+            discord_id:
+              id === interviewerId
+                ? 'discord-interviewer'
+                : 'discord-applicant',
+            rsi_handle: id === interviewerId ? 'Recruiter' : 'Pilot',
+          }) as any
+      );
+      mockDiscordService.createPrivateVoiceChannel.mockResolvedValue({
+        id: 'channel-1',
+      } as any);
+      mockDiscordService.createVoiceChannelEvent.mockResolvedValue('event-1');
+
+      await service.bookSlot(application, slot.id);
+
+      expect(mockDiscordService.createPrivateVoiceChannel).toHaveBeenCalledWith(
+        'guild-1',
+        'interview-pilot',
+        ['discord-interviewer', 'discord-applicant']
+      );
+      expect(mockInterviewModel.update).toHaveBeenCalledWith(slot.id, {
+        discord_guild_id: 'guild-1',
+        discord_channel_id: 'channel-1',
+        discord_event_id: 'event-1',
+      });
+    });
+
+    it('should still book when Discord fails', async () => {
+      mockInterviewModel.book.mockResolvedValue({
+        ...slot,
+        status: 'booked',
+        application_id: application.id,
+        create_discord_event: true,
+      });
+      mockDiscordServerModel.findByOrganizationId.mockRejectedValue(
+        new Error('Discord down')
+      );
+
+      const result = await service.bookSlot(application, slot.id);
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('cancelSlot', () => {
+    it('should send a booked interview back under review', async () => {
+      mockInterviewModel.findByIdWithUsers.mockResolvedValue(withUsers());
+      mockInterviewModel.cancel.mockResolvedValue({
+        ...slot,
+        status: 'cancelled',
+      });
+      mockApplicationModel.findById.mockResolvedValue({
+        ...application,
+        status: 'interview_scheduled',
+      });
+
+      const result = await service.cancelSlot(
+        organizationId,
+        slot.id,
+        interviewerId
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockApplicationService.processStatusChange).toHaveBeenCalledWith(
+        application.id,
+        'under_review',
+        interviewerId,
+        'Interview cancelled by the organization'
+      );
+      expect(
+        mockNotificationService.createCustomEventNotification
+      ).toHaveBeenCalledWith(
+        NotificationEntityType.HR_INTERVIEW_CANCELLED,
+        slot.id,
+        'system',
+        [applicantId],
+        'Interview Cancelled',
+        expect.any(String),
+        expect.objectContaining({
+          application_id: application.id,
+          organization_id: organizationId,
+        })
+      );
+    });
+  });
+
+  describe('recordOutcome', () => {
+    const notes = {
+      summary: 'Knows the Gladius well',
+      ratings: { communication: 4 },
+    };
+
+    it('should write the recommendation to the application history', async () => {
+      mockInterviewModel.findByApplication.mockResolvedValue(
+        withUsers({
+          discord_guild_id: 'guild-1',
+          discord_channel_id: 'channel-1',
+        })
+      );
+      mockInterviewModel.recordOutcome.mockResolvedValue({
+        ...slot,
+        status: 'completed',
+      });
+
+      const result = await service.recordOutcome(
+        { ...application, status: 'interview_scheduled' },
+        interviewerId,
+        notes,
+        'strong_yes',
+        new Date('2025-07-02T19:00:00Z')
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockInterviewModel.recordOutcome).toHaveBeenCalledWith(
+        slot.id,
+        notes,
+        'strong_yes'
+      );
+      expect(mockApplicationModel.logStatusChange).toHaveBeenCalledWith(
+        application.id,
+        'interview_scheduled',
+        interviewerId,
+        'Interview recommendation: Strong yes. Knows the Gladius well'
+      );
+      expect(mockDiscordService.deleteChannel).toHaveBeenCalledWith(
+        'channel-1'
+      );
+    });
+
+    it('should not take notes before the interview starts', async () => {
+      const result = await service.recordOutcome(
+        application,
+        interviewerId,
+        notes,
+        'yes',
+        now
+      );
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(mockInterviewModel.recordOutcome).not.toHaveBeenCalled();
+    });
+
+    it('should require a booked interview', async () => {
+      mockInterviewModel.findByApplication.mockResolvedValue(null);
+
+      const result = await service.recordOutcome(
+        application,
+        interviewerId,
+        notes,
+        'no',
+        now
+      );
+
+      expect(result).toMatchObject({ success: false, code: 'not_found' });
+    });
+  });
+});
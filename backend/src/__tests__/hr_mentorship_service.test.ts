@@ -0,0 +1,442 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { HRMentorshipService } from '../services/hr_mentorship_service';
+import {
+  HRMentorProfileWithLoad,
+  HRMentorship,
+  HRMentorshipModel,
+  HRMentorshipWithUsers,
+} from '../models/hr_mentorship_model';
+import { HROnboardingModel } from '../models/hr_onboarding_model';
+import { RoleModel } from '../models/role_model';
+import { HRActivityService } from '../services/hr_activity_service';
+import { NotificationService } from '../services/notification_service';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/hr_mentorship_model');
+jest.mock('../models/hr_onboarding_model');
+jest.mock('../models/role_model');
+jest.mock('../services/hr_activity_service');
+jest.mock('../services/notification_service');
+jest.mock('../config/logger');
+
+describe('HRMentorshipService', () => {
+  let service: HRMentorshipService;
+  let mockMentorshipModel: jest.Mocked<HRMentorshipModel>;
+  let mockOnboardingModel: jest.Mocked<HROnboardingModel>;
+  let mockActivityService: jest.Mocked<HRActivityService>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+
+  const organizationId = uuidv4();
+  const menteeId = uuidv4();
+  const progressId = uuidv4();
+  const pilotSkillId = uuidv4();
+  const medicSkillId = uuidv4();
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  const mentor = (
+    data: Partial<HRMentorProfileWithLoad> = {}
+  ): HRMentorProfileWithLoad => ({
+    id: uuidv4(),
+    organization_id: organizationId,
+    user_id: uuidv4(),
+    rsi_handle: 'Veteran',
+    is_mentor: true,
+    max_mentees: 3,
+    active_mentees: 0,
+    timezone: null,
+    languages: [],
+    created_at: now,
+    updated_at: now,
+    ...data,
+  });
+
+  const mentorship = (
+    data: Partial<HRMentorshipWithUsers> = {}
+  ): HRMentorshipWithUsers => ({
+    id: uuidv4(),
+    organization_id: organizationId,
+    rsi_org_id: 'TESTORG',
+    progress_id: progressId,
+    mentee_id: menteeId,
+    mentee_rsi_handle: 'Recruit',
+    mentor_id: uuidv4(),
+    mentor_rsi_handle: 'Veteran',
+    status: 'active',
+    assignment_method: 'manual',
+    check_in_interval_days: 14,
+    started_at: now,
+    created_at: now,
+    updated_at: now,
+    ...data,
+  });
+
+  beforeAll(() => {
+    mockMentorshipModel = {
+      findProfile: jest.fn(),
+      listMentors: jest.fn(),
+      getUserSkillIds: jest.fn(),
+      findActiveByMentee: jest.fn(),
+      findByIdWithUsers: jest.fn(),
+      assign: jest.fn(),
+      end: jest.fn(),
+      findOpenCheckIn: jest.fn(),
+      completeCheckIn: jest.fn(),
+      addNote: jest.fn(),
+    } as any;
+    mockOnboardingModel = {
+      findProgressByUserAndOrganization: jest.fn(),
+    } as any;
+    mockActivityService = {
+      createMentorAssignedActivity: jest.fn(),
+      createMentorUnassignedActivity: jest.fn(),
+    } as any;
+    mockNotificationService = {
+      createCustomEventNotification: jest.fn(),
+    } as any;
+
+    (
+      HRMentorshipModel as jest.MockedClass<typeof HRMentorshipModel>
+    ).mockImplementation(() => mockMentorshipModel);
+    (
+      HROnboardingModel as jest.MockedClass<typeof HROnboardingModel>
+    ).mockImplementation(() => mockOnboardingModel);
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => ({ userHasPermission: jest.fn() }) as any
+    );
+    (
+      HRActivityService as jest.MockedClass<typeof HRActivityService>
+    ).mockImplementation(() => mockActivityService);
+    (
+      NotificationService as jest.MockedClass<typeof NotificationService>
+    ).mockImplementation(() => mockNotificationService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new HRMentorshipService();
+    mockOnboardingModel.findProgressByUserAndOrganization.mockResolvedValue({
+      id: progressId,
+    } as any);
+    mockMentorshipModel.findActiveByMentee.mockResolvedValue(null);
+  });
+
+  describe('scoreMatch', () => {
+    it('should weigh shared skills, timezone and language', () => {
+      const match = HRMentorshipService.scoreMatch(
+        { timezone: 'Europe/Berlin', languages: ['German', 'English'] },
+        [pilotSkillId, medicSkillId],
+        mentor({ timezone: 'Europe/London', languages: ['english'] }),
+        [pilotSkillId],
+        now
+      );
+
+      expect(match.shared_skill_ids).toEqual([pilotSkillId]);
+      expect(match.timezone_difference_hours).toBe(1);
+      expect(match.shared_languages).toEqual(['English']);
+      // 0.5 * 1/2 + 0.3 * 11/12 + 0.2
+      expect(match.score).toBe(0.725);
+    });
+
+    it('should measure timezones the short way around the clock', () => {
+      const match = HRMentorshipService.scoreMatch(
+        { timezone: 'Pacific/Auckland', languages: [] },
+        [],
+        mentor({ timezone: 'Pacific/Honolulu' }),
+        [],
+        now
+      );
+
+      // Auckland is UTC+13 in March and Honolulu UTC-10
+      expect(match.timezone_difference_hours).toBe(1);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should skip full mentors and prefer the less loaded of equal matches', async () => {
+      const busy = mentor({ rsi_handle: 'Busy', active_mentees: 2 });
+      const free = mentor({ rsi_handle: 'Free', active_mentees: 1 });
+      const full = mentor({
+        rsi_handle: 'Full',
+        active_mentees: 3,
+        languages: ['English'],
+      });
+      mockMentorshipModel.findProfile.mockResolvedValue(null);
+      mockMentorshipModel.listMentors.mockResolvedValue([
+        busy,
+        full,
+        free,
+        mentor({ user_id: menteeId }),
+      ]);
+      mockMentorshipModel.getUserSkillIds.mockResolvedValue({});
+
+      const matches = await service.findMatches(
+        organizationId,
+        menteeId,
+        5,
+        now
+      );
+
+      expect(matches.map(match => match.mentor.rsi_handle)).toEqual([
+        'Free',
+        'Busy',
+      ]);
+      expect(mockMentorshipModel.getUserSkillIds).toHaveBeenCalledWith(
+        organizationId,
+        [busy.user_id, free.user_id],
+        true
+      );
+    });
+  });
+
+  describe('assignMentor', () => {
+    it('should refuse mentors who already have their cap of mentees', async () => {
+      const full = mentor({ max_mentees: 2, active_mentees: 2 });
+      mockMentorshipModel.listMentors.mockResolvedValue([full]);
+
+      const result = await service.assignMentor(
+        organizationId,
+        menteeId,
+        uuidv4(),
+        { mentor_id: full.user_id },
+        now
+      );
+
+      expect(result).toEqual({
+        success: false,
+        code: 'conflict',
+        error: 'This mentor already has 2 mentees',
+      });
+      expect(mockMentorshipModel.assign).not.toHaveBeenCalled();
+    });
+
+    it('should refuse when another assignment filled the mentor up meanwhile', async () => {
+      const almostFull = mentor({ max_mentees: 2, active_mentees: 1 });
+      mockMentorshipModel.listMentors.mockResolvedValue([almostFull]);
+      mockMentorshipModel.assign.mockResolvedValue(null);
+
+      const result = await service.assignMentor(
+        organizationId,
+        menteeId,
+        uuidv4(),
+        { mentor_id: almostFull.user_id },
+        now
+      );
+
+      expect(result).toEqual({
+        success: false,
+        code: 'conflict',
+        error: 'This mentor already has 2 mentees',
+      });
+      expect(mockMentorshipModel.findByIdWithUsers).not.toHaveBeenCalled();
+    });
+
+    it('should require the member to be in onboarding', async () => {
+      mockOnboardingModel.findProgressByUserAndOrganization.mockResolvedValue(
+        null
+      );
+
+      const result = await service.assignMentor(
+        organizationId,
+        menteeId,
+        uuidv4(),
+        {},
+        now
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockMentorshipModel.listMentors).not.toHaveBeenCalled();
+    });
+
+    it('should assign the best match and schedule the first check-in', async () => {
+      const best = mentor({ languages: ['English'] });
+      const assignedBy = uuidv4();
+      const assigned = mentorship({
+        mentor_id: best.user_id,
+        assignment_method: 'matched',
+        match_score: 0.2,
+        assigned_by: assignedBy,
+      });
+      mockMentorshipModel.findProfile.mockResolvedValue({
+        languages: ['English'],
+      } as any);
+      mockMentorshipModel.listMentors.mockResolvedValue([mentor(), best]);
+      mockMentorshipModel.getUserSkillIds.mockResolvedValue({});
+      mockMentorshipModel.assign.mockResolvedValue({
+        mentorship: assigned,
+        previous: null,
+      });
+      mockMentorshipModel.findByIdWithUsers.mockResolvedValue(assigned);
+
+      const result = await service.assignMentor(
+        organizationId,
+        menteeId,
+        assignedBy,
+        { check_in_interval_days: 7 },
+        now
+      );
+
+      expect(result).toEqual({ success: true, data: assigned });
+      expect(mockMentorshipModel.assign).toHaveBeenCalledWith(
+        {
+          organization_id: organizationId,
+          progress_id: progressId,
+          mentee_id: menteeId,
+          mentor_id: best.user_id,
+          assignment_method: 'matched',
+          match_score: 0.2,
+          check_in_interval_days: 7,
+          assigned_by: assignedBy,
+        },
+        new Date('2026-03-08T12:00:00Z'),
+        now
+      );
+      expect(
+        mockActivityService.createMentorAssignedActivity
+      ).toHaveBeenCalledWith(
+        organizationId,
+        menteeId,
+        'Recruit',
+        assigned.id,
+        best.user_id,
+        'Veteran',
+        'matched',
+        undefined
+      );
+    });
+
+    it('should record the previous mentor when reassigning', async () => {
+      const newMentor = mentor({ rsi_handle: 'NewVeteran' });
+      const previous = mentorship({ mentor_rsi_handle: 'OldVeteran' });
+      const assigned = mentorship({
+        mentor_id: newMentor.user_id,
+        mentor_rsi_handle: 'NewVeteran',
+      });
+      mockMentorshipModel.findActiveByMentee.mockResolvedValue(previous);
+      mockMentorshipModel.listMentors.mockResolvedValue([newMentor]);
+      mockMentorshipModel.assign.mockResolvedValue({
+        mentorship: assigned,
+        previous,
+      });
+      mockMentorshipModel.findByIdWithUsers.mockImplementation(async id =>
+        id === previous.id ? previous : assigned
+      );
+
+      const result = await service.assignMentor(
+        organizationId,
+        menteeId,
+        uuidv4(),
+        { mentor_id: newMentor.user_id },
+        now
+      );
+
+      expect(result.success).toBe(true);
+      expect(
+        mockActivityService.createMentorAssignedActivity
+      ).toHaveBeenCalledWith(
+        organizationId,
+        menteeId,
+        'Recruit',
+        assigned.id,
+        newMentor.user_id,
+        'NewVeteran',
+        'manual',
+        { id: previous.mentor_id, handle: 'OldVeteran' }
+      );
+      expect(
+        mockNotificationService.createCustomEventNotification
+      ).toHaveBeenCalledWith(
+        expect.anything(),
+        assigned.id,
+        expect.anything(),
+        [newMentor.user_id, menteeId],
+        'Mentor Assigned',
+        expect.stringContaining('NewVeteran'),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('endMentorship', () => {
+    it('should record the mentor leaving in the activity timeline', async () => {
+      const active = mentorship();
+      mockMentorshipModel.findByIdWithUsers.mockResolvedValue(active);
+      mockMentorshipModel.end.mockResolvedValue({
+        ...active,
+        status: 'ended',
+        ended_at: now,
+      });
+
+      const result = await service.endMentorship(
+        organizationId,
+        active.id,
+        'Mentor went on leave',
+        now
+      );
+
+      expect(result.success).toBe(true);
+      expect(
+        mockActivityService.createMentorUnassignedActivity
+      ).toHaveBeenCalledWith(
+        organizationId,
+        menteeId,
+        'Recruit',
+        active.id,
+        active.mentor_id,
+        'Veteran',
+        'Mentor went on leave'
+      );
+    });
+  });
+
+  describe('completeCheckIn', () => {
+    it('should schedule the next check-in an interval later and keep the notes', async () => {
+      const active: HRMentorship = mentorship({ check_in_interval_days: 10 });
+      const mentorId = active.mentor_id;
+      const checkIn = {
+        id: uuidv4(),
+        mentorship_id: active.id,
+        scheduled_for: now,
+        created_at: now,
+        updated_at: now,
+      };
+      mockMentorshipModel.findOpenCheckIn.mockResolvedValue(checkIn);
+      mockMentorshipModel.completeCheckIn.mockResolvedValue({
+        checkIn: { ...checkIn, completed_at: now, completed_by: mentorId },
+        nextCheckIn: {
+          ...checkIn,
+          id: uuidv4(),
+          scheduled_for: new Date('2026-03-11T12:00:00Z'),
+        },
+      });
+
+      const result = await service.completeCheckIn(
+        active,
+        mentorId,
+        'Flew their first op',
+        now
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockMentorshipModel.completeCheckIn).toHaveBeenCalledWith(
+        checkIn.id,
+        mentorId,
+        new Date('2026-03-11T12:00:00Z'),
+        now
+      );
+      expect(mockMentorshipModel.addNote).toHaveBeenCalledWith(
+        active.id,
+        mentorId,
+        'Flew their first op',
+        checkIn.id
+      );
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { HROnboardingService } from '../services/hr_onboarding_service';
+import {
+  HROnboardingModel,
+  HROnboardingProgress,
+  HROnboardingTemplate,
+  OnboardingTask,
+} from '../models/hr_onboarding_model';
+import { HRDocumentModel } from '../models/hr_document_model';
+import { HRSkillModel } from '../models/hr_skill_model';
+import { RoleModel } from '../models/role_model';
+import { NotificationService } from '../services/notification_service';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/hr_onboarding_model');
+jest.mock('../models/hr_document_model');
+jest.mock('../models/hr_skill_model');
+jest.mock('../models/role_model');
+jest.mock('../services/notification_service');
+jest.mock('../services/activity_service');
+jest.mock('../config/logger');
+
+describe('HROnboardingService task dependencies and triggers', () => {
+  let service: HROnboardingService;
+  let mockOnboardingModel: jest.Mocked<HROnboardingModel>;
+  let mockDocumentModel: jest.Mocked<HRDocumentModel>;
+  let mockSkillModel: jest.Mocked<HRSkillModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+
+  const organizationId = uuidv4();
+  const userId = uuidv4();
+  const mentorId = uuidv4();
+  const documentId = uuidv4();
+
+  const task = (
+    data: Partial<OnboardingTask> & { id: string }
+  ): OnboardingTask => ({
+    title: data.id,
+    description: '',
+    required: true,
+    estimated_hours: 1,
+    order_index: 0,
+    ...data,
+  });
+
+  const tasks: OnboardingTask[] = [
+    task({
+      id: 'handbook',
+      completion_trigger: {
+        type: 'document_acknowledged',
+        document_id: documentId,
+      },
+    }),
+    task({ id: 'first-flight', depends_on: ['handbook'], due_offset_days: 7 }),
+    task({
+      id: 'mentor-sign-off',
+      depends_on: ['first-flight'],
+      assignee_type: 'user',
+      assignee_id: mentorId,
+    }),
+  ];
+
+  const template: HROnboardingTemplate = {
+    id: uuidv4(),
+    organization_id: organizationId,
+    role_name: 'Pilot',
+    tasks,
+    estimated_duration_days: 30,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  const progress = (
+    data: Partial<HROnboardingProgress> = {}
+  ): HROnboardingProgress => ({
+    id: uuidv4(),
+    organization_id: organizationId,
+    user_id: userId,
+    template_id: template.id,
+    status: 'in_progress',
+    completed_tasks: [],
+    task_completions: {},
+    completion_percentage: 0,
+    started_at: new Date('2026-03-01T00:00:00Z'),
+    created_at: new Date('2026-03-01T00:00:00Z'),
+    updated_at: new Date('2026-03-01T00:00:00Z'),
+    ...data,
+  });
+
+  beforeAll(() => {
+    mockOnboardingModel = {
+      findProgressById: jest.fn(),
+      findProgressByUserAndOrganization: jest.fn(),
+      findTemplateById: jest.fn(),
+      completeTask: jest.fn(),
+      isOnboardingComplete: jest.fn(),
+      hasAttendedTrainingEvent: jest.fn(),
+      hasVerifiedSkill: jest.fn(),
+      findTrainingEvent: jest.fn(),
+    } as any;
+    mockDocumentModel = {
+      findAcknowledgment: jest.fn(),
+      findDocumentById: jest.fn(),
+    } as any;
+    mockSkillModel = {
+      findSkillById: jest.fn(),
+    } as any;
+    mockRoleModel = {
+      findById: jest.fn(),
+      getUserRoleIds: jest.fn(),
+      userHasPermission: jest.fn(),
+    } as any;
+    mockNotificationService = {
+      createCustomEventNotification: jest.fn(),
+    } as any;
+
+    (
+      HROnboardingModel as jest.MockedClass<typeof HROnboardingModel>
+    ).mockImplementation(() => mockOnboardingModel);
+    (
+      HRDocumentModel as jest.MockedClass<typeof HRDocumentModel>
+    ).mockImplementation(() => mockDocumentModel);
+    (HRSkillModel as jest.MockedClass<typeof HRSkillModel>).mockImplementation(
+      () => mockSkillModel
+    );
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => mockRoleModel
+    );
+    (
+      NotificationService as jest.MockedClass<typeof NotificationService>
+    ).mockImplementation(() => mockNotificationService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new HROnboardingService();
+  });
+
+  describe('getTaskStatuses', () => {
+    it('should block tasks until their prerequisites are completed', () => {
+      const statuses = HROnboardingService.getTaskStatuses(
+        template,
+        progress({ completed_tasks: ['handbook'] }),
+        new Date('2026-03-05T00:00:00Z')
+      );
+
+      expect(statuses.map(status => [status.task_id, status.state])).toEqual([
+        ['handbook', 'completed'],
+        ['first-flight', 'available'],
+        ['mentor-sign-off', 'blocked'],
+      ]);
+      expect(statuses[2].blocked_by).toEqual(['first-flight']);
+    });
+
+    it('should date tasks from the start of onboarding', () => {
+      const [, firstFlight] = HROnboardingService.getTaskStatuses(
+        template,
+        progress(),
+        new Date('2026-03-10T00:00:00Z')
+      );
+
+      expect(firstFlight.due_date).toEqual(new Date('2026-03-08T00:00:00Z'));
+      expect(firstFlight.is_overdue).toBe(true);
+    });
+  });
+
+  describe('validateTemplateTasks', () => {
+    it('should reject unknown prerequisites and dependency cycles', async () => {
+      const errors = await service.validateTemplateTasks(organizationId, [
+        task({ id: 'a', depends_on: ['b'] }),
+        task({ id: 'b', depends_on: ['a'] }),
+        task({ id: 'c', depends_on: ['c', 'missing'] }),
+      ]);
+
+      expect(errors).toEqual([
+        'Task c cannot depend on itself',
+        'Task c depends on unknown task missing',
+        'Task a is part of a dependency cycle',
+      ]);
+    });
+
+    it('should only allow assignees and triggers of the organization', async () => {
+      mockRoleModel.getUserRoleIds.mockResolvedValue([]);
+      mockDocumentModel.findDocumentById.mockResolvedValue({
+        id: documentId,
+        organization_id: uuidv4(),
+      } as any);
+
+      const errors = await service.validateTemplateTasks(organizationId, [
+        task({ id: 'sign-off', assignee_type: 'user', assignee_id: mentorId }),
+        task({
+          id: 'handbook',
+          completion_trigger: {
+            type: 'document_acknowledged',
+            document_id: documentId,
+          },
+        }),
+      ]);
+
+      expect(errors).toEqual([
+        'Task sign-off is assigned to a user outside this organization',
+        'Task handbook waits on a document outside this organization',
+      ]);
+    });
+  });
+
+  describe('canCompleteTask', () => {
+    it('should let only the assignee or a manager complete assigned tasks', async () => {
+      mockRoleModel.userHasPermission.mockResolvedValue(false);
+      const memberProgress = progress();
+
+      await expect(
+        service.canCompleteTask(
+          organizationId,
+          mentorId,
+          memberProgress,
+          tasks[2]
+        )
+      ).resolves.toBe(true);
+      await expect(
+        service.canCompleteTask(
+          organizationId,
+          userId,
+          memberProgress,
+          tasks[2]
+        )
+      ).resolves.toBe(false);
+      await expect(
+        service.canCompleteTask(
+          organizationId,
+          userId,
+          memberProgress,
+          tasks[1]
+        )
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('evaluateCompletionTriggers', () => {
+    it('should complete unlocked tasks whose document was acknowledged', async () => {
+      const memberProgress = progress();
+      mockOnboardingModel.findProgressByUserAndOrganization.mockResolvedValue(
+        memberProgress
+      );
+      mockOnboardingModel.findTemplateById.mockResolvedValue(template);
+      mockDocumentModel.findAcknowledgment.mockResolvedValue({
+        id: uuidv4(),
+      } as any);
+      mockOnboardingModel.completeTask.mockResolvedValue(
+        progress({ id: memberProgress.id, completed_tasks: ['handbook'] })
+      );
+      mockOnboardingModel.isOnboardingComplete.mockResolvedValue(false);
+
+      const completed = await service.evaluateCompletionTriggers(
+        organizationId,
+        userId
+      );
+
+      expect(completed).toEqual(['handbook']);
+      expect(mockOnboardingModel.completeTask).toHaveBeenCalledWith(
+        memberProgress.id,
+        'handbook',
+        { completed_by: null, source: 'trigger' }
+      );
+    });
+
+    it('should leave blocked trigger tasks alone', async () => {
+      mockOnboardingModel.findProgressByUserAndOrganization.mockResolvedValue(
+        progress()
+      );
+      mockOnboardingModel.findTemplateById.mockResolvedValue({
+        ...template,
+        tasks: [
+          task({ id: 'intro' }),
+          task({
+            id: 'training',
+            depends_on: ['intro'],
+            completion_trigger: { type: 'training_attended' },
+          }),
+        ],
+      });
+      mockOnboardingModel.hasAttendedTrainingEvent.mockResolvedValue(true);
+
+      const completed = await service.evaluateCompletionTriggers(
+        organizationId,
+        userId
+      );
+
+      expect(completed).toEqual([]);
+      expect(mockOnboardingModel.completeTask).not.toHaveBeenCalled();
+    });
+
+    it('should notify the assignee when their task unlocks', async () => {
+      const memberProgress = progress({ completed_tasks: ['handbook'] });
+      mockOnboardingModel.findProgressById.mockResolvedValue(memberProgress);
+      mockOnboardingModel.findProgressByUserAndOrganization.mockResolvedValue(
+        progress({ completed_tasks: ['handbook', 'first-flight'] })
+      );
+      mockOnboardingModel.findTemplateById.mockResolvedValue(template);
+      mockOnboardingModel.completeTask.mockResolvedValue(
+        progress({
+          id: memberProgress.id,
+          completed_tasks: ['handbook', 'first-flight'],
+        })
+      );
+      mockOnboardingModel.isOnboardingComplete.mockResolvedValue(false);
+
+      await service.completeTaskWithNotification(
+        memberProgress.id,
+        'first-flight',
+        {
+          completed_by: userId,
+          source: 'manual',
+        }
+      );
+
+      expect(
+        mockNotificationService.createCustomEventNotification
+      ).toHaveBeenCalledWith(
+        expect.anything(),
+        memberProgress.id,
+        userId,
+        [mentorId],
+        'Onboarding Task Ready',
+        expect.stringContaining('mentor-sign-off'),
+        expect.anything()
+      );
+    });
+  });
+});
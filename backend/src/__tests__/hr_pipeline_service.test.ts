@@ -0,0 +1,285 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { HRPipelineService } from '../services/hr_pipeline_service';
+import { HRPipelineModel, HRPipelineStage } from '../models/hr_pipeline_model';
+import { HROnboardingModel } from '../models/hr_onboarding_model';
+import { RoleModel } from '../models/role_model';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/hr_pipeline_model');
+jest.mock('../models/hr_onboarding_model');
+jest.mock('../models/role_model');
+jest.mock('../config/logger');
+
+describe('HRPipelineService', () => {
+  let service: HRPipelineService;
+  let mockPipelineModel: jest.Mocked<HRPipelineModel>;
+  let mockOnboardingModel: jest.Mocked<HROnboardingModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
+
+  const organizationId = uuidv4();
+  const authorId = uuidv4();
+
+  const stage = (data: Partial<HRPipelineStage> = {}): HRPipelineStage => ({
+    id: uuidv4(),
+    organization_id: organizationId,
+    name: 'Background check',
+    status: 'under_review',
+    position: 0,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...data,
+  });
+
+  beforeAll(() => {
+    mockPipelineModel = {
+      listStages: jest.fn(),
+      findStageById: jest.fn(),
+    } as any;
+    mockOnboardingModel = {
+      findTemplateById: jest.fn(),
+    } as any;
+    mockRoleModel = {
+      findById: jest.fn(),
+      userHasPermission: jest.fn(),
+      canAssignRole: jest.fn(),
+    } as any;
+
+    (
+      HRPipelineModel as jest.MockedClass<typeof HRPipelineModel>
+    ).mockImplementation(() => mockPipelineModel);
+    (
+      HROnboardingModel as jest.MockedClass<typeof HROnboardingModel>
+    ).mockImplementation(() => mockOnboardingModel);
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => mockRoleModel
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new HRPipelineService();
+  });
+
+  describe('normalizeStages', () => {
+    it('should trim stage names and keep existing stage ids', async () => {
+      const existing = stage();
+      mockPipelineModel.listStages.mockResolvedValue([existing]);
+
+      const result = await service.normalizeStages(organizationId, [
+        { id: existing.id, name: ' Background check ', status: 'under_review' },
+        { name: 'Trial period', status: 'interview_scheduled' },
+      ]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.stages).toEqual([
+        {
+          id: existing.id,
+          name: 'Background check',
+          description: null,
+          status: 'under_review',
+        },
+        {
+          name: 'Trial period',
+          description: null,
+          status: 'interview_scheduled',
+        },
+      ]);
+    });
+
+    it('should reject duplicate names and stages of another pipeline', async () => {
+      mockPipelineModel.listStages.mockResolvedValue([]);
+
+      const result = await service.normalizeStages(organizationId, [
+        { id: uuidv4(), name: 'Trial period', status: 'under_review' },
+        { name: 'trial period', status: 'under_review' },
+      ]);
+
+      expect(result.errors).toEqual([
+        'Stage 1 is not a stage of this pipeline',
+        'Stage 2 reuses the name trial period',
+      ]);
+    });
+  });
+
+  describe('normalizeRule', () => {
+    it('should accept an idle rejection rule', async () => {
+      const result = await service.normalizeRule(
+        organizationId,
+        {
+          name: ' Idle cleanup ',
+          trigger: 'idle',
+          conditions: { status: 'pending', idle_days: 14 },
+          actions: [{ type: 'reject', reason: ' No activity for 14 days ' }],
+        },
+        authorId
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.rule).toEqual({
+        name: 'Idle cleanup',
+        trigger: 'idle',
+        conditions: { status: 'pending', idle_days: 14 },
+        actions: [{ type: 'reject', reason: 'No activity for 14 days' }],
+        is_active: true,
+      });
+    });
+
+    it('should require idle_days on idle rules only', async () => {
+      const idle = await service.normalizeRule(
+        organizationId,
+        {
+          name: 'Idle',
+          trigger: 'idle',
+          conditions: {},
+          actions: [{ type: 'reject', reason: 'Idle' }],
+        },
+        authorId
+      );
+      const submitted = await service.normalizeRule(
+        organizationId,
+        {
+          name: 'Submitted',
+          trigger: 'application_submitted',
+          conditions: { idle_days: 3 },
+          actions: [{ type: 'reject', reason: 'Idle' }],
+        },
+        authorId
+      );
+
+      expect(idle.errors).toEqual([
+        'Idle rules need idle_days between 1 and 365',
+      ]);
+      expect(submitted.errors).toEqual(['Only idle rules can have idle_days']);
+    });
+
+    it('should only allow membership actions for approved applications', async () => {
+      const roleId = uuidv4();
+      mockRoleModel.findById.mockResolvedValue({
+        id: roleId,
+        organization_id: organizationId,
+      } as any);
+      mockRoleModel.canAssignRole.mockResolvedValue(true);
+
+      const unlimited = await service.normalizeRule(
+        organizationId,
+        {
+          name: 'Welcome',
+          trigger: 'status_changed',
+          conditions: {},
+          actions: [{ type: 'assign_role', role_id: roleId }],
+        },
+        authorId
+      );
+      const approved = await service.normalizeRule(
+        organizationId,
+        {
+          name: 'Welcome',
+          trigger: 'status_changed',
+          conditions: { status: 'approved' },
+          actions: [{ type: 'assign_role', role_id: roleId }],
+        },
+        authorId
+      );
+
+      expect(unlimited.errors).toEqual([
+        'Action 1 can only run in rules limited to approved applications',
+      ]);
+      expect(approved.errors).toEqual([]);
+    });
+
+    it('should refuse roles the author cannot grant', async () => {
+      const roleId = uuidv4();
+      mockRoleModel.findById.mockResolvedValue({
+        id: roleId,
+        organization_id: organizationId,
+      } as any);
+      mockRoleModel.canAssignRole.mockResolvedValue(false);
+
+      const result = await service.normalizeRule(
+        organizationId,
+        {
+          name: 'Promote',
+          trigger: 'status_changed',
+          conditions: { status: 'approved' },
+          actions: [{ type: 'assign_role', role_id: roleId }],
+        },
+        authorId
+      );
+
+      expect(result.errors).toEqual([
+        'Action 1 assigns a role ranked at or above your own',
+      ]);
+      expect(mockRoleModel.canAssignRole).toHaveBeenCalledWith(
+        organizationId,
+        authorId,
+        roleId
+      );
+    });
+
+    it('should allow membership actions on stages of approved applications', async () => {
+      const onboardingStage = stage({ name: 'Onboarding', status: 'approved' });
+      const templateId = uuidv4();
+      mockPipelineModel.findStageById.mockResolvedValue(onboardingStage);
+      mockOnboardingModel.findTemplateById.mockResolvedValue({
+        id: templateId,
+        organization_id: organizationId,
+        is_active: true,
+      } as any);
+
+      const result = await service.normalizeRule(
+        organizationId,
+        {
+          name: 'Start onboarding',
+          trigger: 'stage_entered',
+          conditions: { stage_id: onboardingStage.id },
+          actions: [
+            { type: 'generate_invite_code' },
+            { type: 'start_onboarding', template_id: templateId },
+          ],
+        },
+        authorId
+      );
+
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should only assign to members who can manage applications', async () => {
+      const recruiterId = uuidv4();
+      const memberId = uuidv4();
+      mockRoleModel.userHasPermission.mockImplementation(
+        async (_organizationId, userId) => userId === recruiterId
+      );
+
+      const result = await service.normalizeRule(
+        organizationId,
+        {
+          name: 'Assign',
+          trigger: 'application_submitted',
+          conditions: {},
+          actions: [
+            {
+              type: 'assign_round_robin',
+              recruiter_ids: [recruiterId, recruiterId, memberId],
+            },
+          ],
+        },
+        authorId
+      );
+
+      expect(result.errors).toEqual([
+        'Action 1 assigns to a member who cannot manage applications',
+      ]);
+      expect(result.rule.actions).toEqual([
+        { type: 'assign_round_robin', recruiter_ids: [recruiterId, memberId] },
+      ]);
+    });
+  });
+});
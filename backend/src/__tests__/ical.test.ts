@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildICalendar, getEventUid, ICalendarEvent } from '../utils/ical';
+
+describe('ical utils', () => {
+  const baseEvent: ICalendarEvent = {
+    id: '5f0c6f0e-1a2b-4c3d-8e9f-0a1b2c3d4e5f',
+    organization_id: 'org-1',
+    created_by: 'user-1',
+    title: 'Fleet Week; Day 1, Opening',
+    description: 'Bring your ships\nand friends',
+    location: 'Port Olisar',
+    start_time: new Date('2025-03-01T18:00:00.000Z'),
+    end_time: new Date('2025-03-01T20:30:00.000Z'),
+    languages: ['en'],
+    is_public: true,
+    is_active: true,
+    created_at: new Date('2025-02-01T12:00:00.000Z'),
+    updated_at: new Date('2025-02-10T08:15:00.000Z'),
+  };
+
+  const parseLines = (calendar: string): string[] =>
+    // Unfold continuation lines before inspecting properties
+    calendar.replace(/\r\n /g, '').split('\r\n');
+
+  it('should wrap events in a VCALENDAR with CRLF line endings', () => {
+    const calendar = buildICalendar([baseEvent], { name: 'Test Org Events' });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(
+      true
+    );
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(parseLines(calendar)).toContain('X-WR-CALNAME:Test Org Events');
+  });
+
+  it('should serialize event fields with escaping and UTC times', () => {
+    const lines = parseLines(
+      buildICalendar([baseEvent], {
+        name: 'Test',
+        eventUrlBase: 'https://example.com',
+      })
+    );
+
+    expect(lines).toContain(`UID:${getEventUid(baseEvent.id)}`);
+    expect(lines).toContain('DTSTART:20250301T180000Z');
+    expect(lines).toContain('DTEND:20250301T203000Z');
+    expect(lines).toContain('SUMMARY:Fleet Week\\; Day 1\\, Opening');
+    expect(lines).toContain('DESCRIPTION:Bring your ships\\nand friends');
+    expect(lines).toContain('LOCATION:Port Olisar');
+    expect(lines).toContain('LAST-MODIFIED:20250210T081500Z');
+    expect(lines).toContain(`URL:https://example.com/events/${baseEvent.id}`);
+    expect(lines).toContain('STATUS:CONFIRMED');
+  });
+
+  it('should keep the UID stable when the event changes', () => {
+    const before = parseLines(buildICalendar([baseEvent], { name: 'Test' }));
+    const after = parseLines(
+      buildICalendar(
+        [{ ...baseEvent, title: 'Renamed', updated_at: new Date() }],
+        { name: 'Test' }
+      )
+    );
+
+    const uid = (lines: string[]) => lines.find(line => line.startsWith('UID:'));
+    expect(uid(after)).toBe(uid(before));
+  });
+
+  it('should mark deactivated events as cancelled and waitlisted ones as tentative', () => {
+    const lines = parseLines(
+      buildICalendar(
+        [
+          { ...baseEvent, is_active: false },
+          { ...baseEvent, id: 'other', registration_status: 'waitlisted' },
+        ],
+        { name: 'Test' }
+      )
+    );
+
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('STATUS:TENTATIVE');
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const calendar = buildICalendar(
+      [{ ...baseEvent, description: 'é'.repeat(100) }],
+      { name: 'Test' }
+    );
+
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(parseLines(calendar)).toContain(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+});
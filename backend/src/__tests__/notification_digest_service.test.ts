@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { NotificationDigestService } from '../services/notification_digest_service';
+import {
+  NotificationDigestModel,
+  PendingDigestNotification,
+} from '../models/notification_digest_model';
+import { NotificationPreferenceModel } from '../models/notification_preference_model';
+import { NotificationPreferenceService } from '../services/notification_preference_service';
+import { NotificationService } from '../services/notification_service';
+import { NotificationEntityType, NotificationSettings } from '../types/notification';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/notification_digest_model');
+jest.mock('../models/notification_preference_model');
+jest.mock('../services/notification_preference_service');
+jest.mock('../services/notification_service');
+jest.mock('../config/logger');
+
+describe('NotificationDigestService', () => {
+  let service: NotificationDigestService;
+  let mockDigestModel: jest.Mocked<NotificationDigestModel>;
+  let mockPreferenceModel: jest.Mocked<NotificationPreferenceModel>;
+  let mockPreferenceService: jest.Mocked<NotificationPreferenceService>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+
+  const userId = uuidv4();
+  const organizationId = uuidv4();
+  const digestId = uuidv4();
+  // Wednesday 2025-07-02, 09:30 in Berlin
+  const wednesdayMorning = new Date('2025-07-02T07:30:00Z');
+
+  const buildSettings = (overrides: Partial<NotificationSettings> = {}): NotificationSettings => ({
+    user_id: userId,
+    timezone: 'Europe/Berlin',
+    quiet_hours_enabled: false,
+    quiet_hours_start: '22:00',
+    quiet_hours_end: '08:00',
+    digest_frequency: 'daily',
+    ...overrides,
+  });
+
+  const buildPending = (
+    overrides: Partial<PendingDigestNotification> = {}
+  ): PendingDigestNotification => ({
+    id: uuidv4(),
+    entity_type: NotificationEntityType.HR_APPLICATION_SUBMITTED,
+    organization_id: organizationId,
+    rsi_org_id: 'TEST',
+    organization_name: 'Test Squadron',
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockDigestModel = {
+      claimPeriod: jest.fn(),
+      releasePeriod: jest.fn(),
+      findPendingNotifications: jest.fn(),
+      markDigested: jest.fn(),
+    } as any;
+    mockPreferenceModel = {
+      listDigestSubscribers: jest.fn(),
+    } as any;
+    mockPreferenceService = {
+      filterRecipients: jest.fn(),
+    } as any;
+    mockNotificationService = {
+      createNotification: jest.fn(),
+    } as any;
+
+    (NotificationDigestModel as jest.MockedClass<typeof NotificationDigestModel>).mockImplementation(
+      () => mockDigestModel
+    );
+    (NotificationPreferenceModel as jest.MockedClass<typeof NotificationPreferenceModel>).mockImplementation(
+      () => mockPreferenceModel
+    );
+    (NotificationPreferenceService as jest.MockedClass<typeof NotificationPreferenceService>).mockImplementation(
+      () => mockPreferenceService
+    );
+    (NotificationService as jest.MockedClass<typeof NotificationService>).mockImplementation(
+      () => mockNotificationService
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDigestModel.claimPeriod.mockResolvedValue({
+      id: digestId,
+      user_id: userId,
+      frequency: 'daily',
+      period_start: '2025-07-02',
+      notification_count: 0,
+      created_at: new Date(),
+    });
+    mockPreferenceService.filterRecipients.mockImplementation(async userIds => userIds);
+    mockNotificationService.createNotification.mockResolvedValue(undefined);
+    service = new NotificationDigestService();
+  });
+
+  describe('getDuePeriodStart', () => {
+    it('should use the local date once the digest hour has passed', () => {
+      expect(service.getDuePeriodStart(buildSettings(), 'daily', wednesdayMorning)).toBe('2025-07-02');
+      // 07:30 in New York, before the digest hour
+      expect(
+        service.getDuePeriodStart(
+          buildSettings({ timezone: 'America/New_York' }),
+          'daily',
+          new Date('2025-07-02T11:30:00Z')
+        )
+      ).toBeNull();
+    });
+
+    it('should start weekly periods on the local Monday', () => {
+      expect(service.getDuePeriodStart(buildSettings(), 'weekly', wednesdayMorning)).toBe('2025-06-30');
+      // Monday 07:00 in Berlin
+      expect(
+        service.getDuePeriodStart(buildSettings(), 'weekly', new Date('2025-06-30T05:00:00Z'))
+      ).toBeNull();
+    });
+  });
+
+  describe('generateDigest', () => {
+    it('should skip periods that were already claimed', async () => {
+      mockDigestModel.claimPeriod.mockResolvedValue(null);
+
+      const sent = await service.generateDigest(userId, 'daily', '2025-07-02', wednesdayMorning);
+
+      expect(sent).toBe(false);
+      expect(mockDigestModel.findPendingNotifications).not.toHaveBeenCalled();
+      expect(mockNotificationService.createNotification).not.toHaveBeenCalled();
+    });
+
+    it('should summarize notifications by organization and type in one notification', async () => {
+      const pending = [
+        buildPending(),
+        buildPending(),
+        buildPending({ entity_type: NotificationEntityType.COMMENT_CREATED }),
+        buildPending({
+          entity_type: NotificationEntityType.SYSTEM_ANNOUNCEMENT,
+          organization_id: null,
+          rsi_org_id: null,
+          organization_name: null,
+        }),
+      ];
+      mockDigestModel.findPendingNotifications.mockResolvedValue(pending);
+
+      const sent = await service.generateDigest(userId, 'daily', '2025-07-02', wednesdayMorning);
+
+      expect(sent).toBe(true);
+      expect(mockDigestModel.markDigested).toHaveBeenCalledWith(
+        digestId,
+        pending.map(notification => notification.id)
+      );
+      expect(mockNotificationService.createNotification).toHaveBeenCalledTimes(1);
+
+      const notification = mockNotificationService.createNotification.mock.calls[0][0];
+      expect(notification.entity_type).toBe(NotificationEntityType.SYSTEM_DIGEST);
+      expect(notification.title).toBe('Your daily digest');
+      expect(notification.message).toBe(
+        '4 unread notifications. Test Squadron: Applications submitted (2), New comments (1). General: Announcements (1).'
+      );
+      expect(notification.custom_data?.groups).toHaveLength(3);
+    });
+
+    it('should group HR notifications under their organization', async () => {
+      mockDigestModel.findPendingNotifications.mockResolvedValue([
+        buildPending({ entity_type: NotificationEntityType.HR_INTERVIEW_SCHEDULED }),
+        buildPending({ entity_type: NotificationEntityType.HR_INTERVIEW_REMINDER }),
+        buildPending({ entity_type: NotificationEntityType.HR_MENTOR_ASSIGNED }),
+        buildPending({
+          entity_type: NotificationEntityType.HR_MENTOR_ASSIGNED,
+          organization_id: uuidv4(),
+          rsi_org_id: 'OTHER',
+          organization_name: 'Other Squadron',
+        }),
+      ]);
+
+      await service.generateDigest(userId, 'daily', '2025-07-02', wednesdayMorning);
+
+      const notification = mockNotificationService.createNotification.mock.calls[0][0];
+      expect(notification.message).toBe(
+        '4 unread notifications. Test Squadron: Interviews scheduled (1), Interview reminders (1), Mentor assignments (1). Other Squadron: Mentor assignments (1).'
+      );
+      expect(notification.message).not.toContain('General');
+    });
+
+    it('should leave out types the user excluded from digests', async () => {
+      const application = buildPending();
+      const comment = buildPending({ entity_type: NotificationEntityType.COMMENT_CREATED });
+      mockDigestModel.findPendingNotifications.mockResolvedValue([application, comment]);
+      mockPreferenceService.filterRecipients.mockImplementation(async (userIds, entityType) =>
+        entityType === NotificationEntityType.COMMENT_CREATED ? [] : userIds
+      );
+
+      await service.generateDigest(userId, 'daily', '2025-07-02', wednesdayMorning);
+
+      expect(mockPreferenceService.filterRecipients).toHaveBeenCalledWith(
+        [userId],
+        NotificationEntityType.COMMENT_CREATED,
+        'email_digest',
+        organizationId
+      );
+      expect(mockDigestModel.markDigested).toHaveBeenCalledWith(digestId, [application.id]);
+    });
+
+    it('should not send an empty digest', async () => {
+      mockDigestModel.findPendingNotifications.mockResolvedValue([]);
+
+      const sent = await service.generateDigest(userId, 'daily', '2025-07-02', wednesdayMorning);
+
+      expect(sent).toBe(false);
+      expect(mockDigestModel.markDigested).toHaveBeenCalledWith(digestId, []);
+      expect(mockNotificationService.createNotification).not.toHaveBeenCalled();
+    });
+
+    it('should release the period when delivery fails', async () => {
+      mockDigestModel.findPendingNotifications.mockResolvedValue([buildPending()]);
+      mockNotificationService.createNotification.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(
+        service.generateDigest(userId, 'daily', '2025-07-02', wednesdayMorning)
+      ).rejects.toThrow('Database unavailable');
+      expect(mockDigestModel.releasePeriod).toHaveBeenCalledWith(digestId);
+    });
+  });
+
+  describe('generateDueDigests', () => {
+    it('should only build digests whose period has started', async () => {
+      const lateUserId = uuidv4();
+      mockPreferenceModel.listDigestSubscribers.mockResolvedValue([
+        buildSettings(),
+        buildSettings({ user_id: lateUserId, timezone: 'America/New_York' }),
+      ]);
+      mockDigestModel.findPendingNotifications.mockResolvedValue([buildPending()]);
+
+      const sent = await service.generateDueDigests(wednesdayMorning);
+
+      expect(sent).toBe(1);
+      expect(mockDigestModel.claimPeriod).toHaveBeenCalledTimes(1);
+      expect(mockDigestModel.claimPeriod).toHaveBeenCalledWith(userId, 'daily', '2025-07-02');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { NotificationPreferenceService } from '../services/notification_preference_service';
+import { NotificationPreferenceModel } from '../models/notification_preference_model';
+import {
+  NotificationChannel,
+  NotificationEntityType,
+  NotificationPreference,
+  NotificationSettings,
+} from '../types/notification';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/notification_preference_model');
+jest.mock('../config/logger');
+
+describe('NotificationPreferenceService', () => {
+  let service: NotificationPreferenceService;
+  let mockPreferenceModel: jest.Mocked<NotificationPreferenceModel>;
+
+  const organizationId = uuidv4();
+  const userId = uuidv4();
+  const otherUserId = uuidv4();
+  // 23:30 UTC, which is 01:30 in Berlin during summer time
+  const lateEvening = new Date('2025-07-01T23:30:00Z');
+
+  const buildPreference = (
+    overrides: Partial<NotificationPreference> = {}
+  ): NotificationPreference => ({
+    id: uuidv4(),
+    user_id: userId,
+    organization_id: null,
+    entity_type: NotificationEntityType.COMMENT_VOTED,
+    channel: 'in_app',
+    enabled: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  const buildSettings = (overrides: Partial<NotificationSettings> = {}): NotificationSettings => ({
+    user_id: userId,
+    timezone: 'UTC',
+    quiet_hours_enabled: true,
+    quiet_hours_start: '22:00',
+    quiet_hours_end: '07:00',
+    digest_frequency: 'off',
+    ...overrides,
+  });
+
+  const filter = (
+    entityType: NotificationEntityType,
+    channel: NotificationChannel = 'in_app',
+    orgId?: string
+  ) => service.filterRecipients([userId, otherUserId], entityType, channel, orgId, lateEvening);
+
+  beforeAll(() => {
+    mockPreferenceModel = {
+      findForRecipients: jest.fn(),
+      getSettingsForUsers: jest.fn(),
+    } as any;
+
+    (NotificationPreferenceModel as jest.MockedClass<typeof NotificationPreferenceModel>).mockImplementation(
+      () => mockPreferenceModel
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPreferenceModel.findForRecipients.mockResolvedValue([]);
+    mockPreferenceModel.getSettingsForUsers.mockResolvedValue(new Map());
+    service = new NotificationPreferenceService();
+  });
+
+  it('should fall back to channel defaults without preferences', async () => {
+    expect(await filter(NotificationEntityType.EVENT_REMINDER, 'in_app')).toEqual([userId, otherUserId]);
+    expect(await filter(NotificationEntityType.EVENT_REMINDER, 'discord_dm')).toEqual([]);
+  });
+
+  it('should drop users who muted a type and keep everyone else', async () => {
+    mockPreferenceModel.findForRecipients.mockResolvedValue([buildPreference()]);
+
+    expect(await filter(NotificationEntityType.COMMENT_VOTED)).toEqual([otherUserId]);
+  });
+
+  it('should let an organization override win over the global preference', async () => {
+    mockPreferenceModel.findForRecipients.mockResolvedValue([
+      buildPreference({ enabled: true }),
+      buildPreference({ organization_id: organizationId, enabled: false }),
+    ]);
+
+    const recipients = await filter(NotificationEntityType.COMMENT_VOTED, 'in_app', organizationId);
+
+    expect(recipients).toEqual([otherUserId]);
+    expect(mockPreferenceModel.findForRecipients).toHaveBeenCalledWith(
+      [userId, otherUserId],
+      NotificationEntityType.COMMENT_VOTED,
+      'in_app',
+      organizationId
+    );
+  });
+
+  it('should always deliver locked channels without reading preferences', async () => {
+    mockPreferenceModel.findForRecipients.mockResolvedValue([
+      buildPreference({ entity_type: NotificationEntityType.SECURITY_LOGIN }),
+    ]);
+
+    expect(await filter(NotificationEntityType.SECURITY_LOGIN)).toEqual([userId, otherUserId]);
+    expect(mockPreferenceModel.findForRecipients).not.toHaveBeenCalled();
+  });
+
+  it('should drop Discord DMs during quiet hours', async () => {
+    mockPreferenceModel.findForRecipients.mockResolvedValue([
+      buildPreference({ channel: 'discord_dm', enabled: true }),
+      buildPreference({ user_id: otherUserId, channel: 'discord_dm', enabled: true }),
+    ]);
+    mockPreferenceModel.getSettingsForUsers.mockResolvedValue(
+      new Map([[userId, buildSettings()]])
+    );
+
+    expect(await filter(NotificationEntityType.EVENT_REMINDER, 'discord_dm')).toEqual([otherUserId]);
+  });
+
+  it('should send Discord DMs again once quiet hours are over', async () => {
+    mockPreferenceModel.findForRecipients.mockResolvedValue([
+      buildPreference({ channel: 'discord_dm', enabled: true }),
+    ]);
+    mockPreferenceModel.getSettingsForUsers.mockResolvedValue(
+      new Map([[userId, buildSettings()]])
+    );
+
+    expect(
+      await service.filterRecipients(
+        [userId],
+        NotificationEntityType.EVENT_REMINDER,
+        'discord_dm',
+        organizationId,
+        new Date('2025-07-01T12:00:00Z')
+      )
+    ).toEqual([userId]);
+  });
+
+  it('should not apply quiet hours to in-app notifications', async () => {
+    expect(await filter(NotificationEntityType.EVENT_REMINDER, 'in_app')).toEqual([userId, otherUserId]);
+    expect(mockPreferenceModel.getSettingsForUsers).not.toHaveBeenCalled();
+  });
+
+  it('should evaluate quiet hours in the user timezone', () => {
+    const morningWindow = buildSettings({ quiet_hours_start: '01:00', quiet_hours_end: '06:00' });
+
+    expect(service.isWithinQuietHours(morningWindow, lateEvening)).toBe(false);
+    expect(
+      service.isWithinQuietHours({ ...morningWindow, timezone: 'Europe/Berlin' }, lateEvening)
+    ).toBe(true);
+  });
+
+  it('should handle windows spanning midnight and disabled windows', () => {
+    expect(service.isWithinQuietHours(buildSettings(), lateEvening)).toBe(true);
+    expect(service.isWithinQuietHours(buildSettings(), new Date('2025-07-01T12:00:00Z'))).toBe(false);
+    expect(
+      service.isWithinQuietHours(buildSettings({ quiet_hours_enabled: false }), lateEvening)
+    ).toBe(false);
+    expect(
+      service.isWithinQuietHours(
+        buildSettings({ quiet_hours_start: '09:00', quiet_hours_end: '09:00' }),
+        lateEvening
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { NotificationService } from '../services/notification_service';
+import { notificationStreamService } from '../services/notification_stream_service';
+import { NotificationPreferenceService } from '../services/notification_preference_service';
+import { NotificationModel } from '../models/notification_model';
+import { NotificationSerializer } from '../utils/notification_serializer';
+import { NotificationEntityType } from '../types/notification';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: jest.fn(),
+}));
+jest.mock('../models/notification_model');
+jest.mock('../services/notification_preference_service');
+jest.mock('../services/discord_service');
+jest.mock('../utils/notification_serializer');
+jest.mock('../config/logger');
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let openStreams: Array<() => void>;
+
+  const userId = uuidv4();
+  const organizationId = uuidv4();
+
+  const buildResponse = () =>
+    ({
+      status: jest.fn(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      write: jest.fn(),
+    }) as any;
+
+  const open = (res: any, lastEventId?: string) => {
+    const unsubscribe = notificationStreamService.subscribe(userId, res, lastEventId);
+    openStreams.push(unsubscribe);
+    return unsubscribe;
+  };
+
+  const written = (res: any): string =>
+    res.write.mock.calls.map((call: any[]) => call[0]).join('');
+
+  const eventIds = (res: any): string[] =>
+    [...written(res).matchAll(/^id: (.+)$/gm)].map(match => match[1]);
+
+  beforeAll(() => {
+    // Everyone gets in-app notifications, nobody gets DMs
+    (
+      NotificationPreferenceService.prototype.filterRecipients as jest.Mock<any>
+    ).mockImplementation(async (userIds: any, _type: any, channel: any) =>
+      channel === 'in_app' ? userIds : []
+    );
+    (NotificationModel.prototype.countUnreadForUsers as jest.Mock<any>).mockResolvedValue(
+      new Map([[userId, 1]])
+    );
+    (
+      NotificationSerializer.generateNotificationContent as jest.Mock<any>
+    ).mockResolvedValue({ title: 'Application Update', message: 'Your application moved' });
+  });
+
+  beforeEach(() => {
+    (
+      NotificationModel.prototype.createCompleteNotification as jest.Mock<any>
+    ).mockResolvedValue({
+      notificationObject: {},
+      notificationChange: {},
+      notifications: [
+        {
+          id: uuidv4(),
+          notification_object_id: uuidv4(),
+          notifier_id: userId,
+          is_read: false,
+          created_at: new Date(),
+        },
+      ],
+    });
+    service = new NotificationService();
+    openStreams = [];
+  });
+
+  afterEach(() => {
+    // Stop heartbeat intervals so they do not keep the test run alive
+    openStreams.forEach(unsubscribe => unsubscribe());
+  });
+
+  it('should replay a notification created while the stream was reconnecting', async () => {
+    const res = buildResponse();
+    const unsubscribe = open(res);
+    notificationStreamService.publish(userId, 'unread_count', { unread_count: 0 });
+    unsubscribe();
+
+    await service.createNotification({
+      user_id: userId,
+      entity_type: NotificationEntityType.HR_APPLICATION_STATUS_CHANGED,
+      entity_id: uuidv4(),
+      title: 'Application Update',
+      message: 'Your application moved',
+      custom_data: { organization_id: organizationId },
+    });
+
+    const reconnected = buildResponse();
+    open(reconnected, eventIds(res)[0]);
+
+    expect(written(reconnected)).toContain('event: notification');
+    expect(written(reconnected)).toContain('"title":"Application Update"');
+    expect(written(reconnected)).toContain('"unread_count":1');
+    expect(written(reconnected)).not.toContain('resync');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { NotificationStreamService } from '../services/notification_stream_service';
+import { NotificationModel } from '../models/notification_model';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/notification_model');
+jest.mock('../config/logger');
+
+describe('NotificationStreamService', () => {
+  let service: NotificationStreamService;
+  let mockNotificationModel: jest.Mocked<NotificationModel>;
+  let openStreams: Array<() => void>;
+
+  const userId = uuidv4();
+  const otherUserId = uuidv4();
+
+  const buildResponse = () =>
+    ({
+      status: jest.fn(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      write: jest.fn(),
+    }) as any;
+
+  const open = (id: string, res: any, lastEventId?: string) => {
+    const unsubscribe = service.subscribe(id, res, lastEventId);
+    openStreams.push(unsubscribe);
+    return unsubscribe;
+  };
+
+  const written = (res: any): string =>
+    res.write.mock.calls.map((call: any[]) => call[0]).join('');
+
+  const eventIds = (res: any): string[] =>
+    [...written(res).matchAll(/^id: (.+)$/gm)].map(match => match[1]);
+
+  beforeAll(() => {
+    mockNotificationModel = {
+      countUnreadForUsers: jest.fn(),
+    } as any;
+
+    (NotificationModel as jest.MockedClass<typeof NotificationModel>).mockImplementation(
+      () => mockNotificationModel
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new NotificationStreamService();
+    openStreams = [];
+  });
+
+  afterEach(() => {
+    // Stop heartbeat intervals so they do not keep the test run alive
+    openStreams.forEach(unsubscribe => unsubscribe());
+    jest.useRealTimers();
+  });
+
+  it('should open the stream with event stream headers', () => {
+    const res = buildResponse();
+    const unsubscribe = open(userId, res);
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    expect(res.flushHeaders).toHaveBeenCalled();
+    expect(written(res)).toContain('retry: 5000');
+    expect(service.isConnected(userId)).toBe(true);
+
+    unsubscribe();
+    expect(service.isConnected(userId)).toBe(false);
+  });
+
+  it('should push published events only to the recipient', () => {
+    const res = buildResponse();
+    const otherRes = buildResponse();
+    open(userId, res);
+    open(otherUserId, otherRes);
+
+    service.publish(userId, 'read_state', { notification_ids: ['n1'], is_read: true });
+
+    expect(written(res)).toContain(
+      'event: read_state\ndata: {"notification_ids":["n1"],"is_read":true}\n\n'
+    );
+    expect(written(otherRes)).not.toContain('read_state');
+  });
+
+  it('should replay events published after Last-Event-ID on reconnect', () => {
+    const res = buildResponse();
+    const unsubscribe = open(userId, res);
+    service.publish(userId, 'unread_count', { unread_count: 1 });
+    unsubscribe();
+
+    service.publish(userId, 'unread_count', { unread_count: 2 });
+    service.publish(userId, 'unread_count', { unread_count: 3 });
+
+    const reconnected = buildResponse();
+    open(userId, reconnected, eventIds(res)[0]);
+
+    expect(written(reconnected)).not.toContain('"unread_count":1');
+    expect(written(reconnected)).toContain('"unread_count":2');
+    expect(written(reconnected)).toContain('"unread_count":3');
+    expect(written(reconnected)).not.toContain('resync');
+  });
+
+  it('should ask clients from another server instance to resync', () => {
+    const res = buildResponse();
+    open(userId, res, 'unknownboot-42');
+
+    expect(written(res)).toContain('event: resync');
+  });
+
+  it('should ask clients to resync when their events are no longer buffered', () => {
+    jest.useFakeTimers();
+    const res = buildResponse();
+    const unsubscribe = open(userId, res);
+    service.publish(userId, 'unread_count', { unread_count: 1 });
+    unsubscribe();
+
+    // Gone longer than the replay window
+    jest.advanceTimersByTime(11 * 60 * 1000);
+    service.publish(userId, 'unread_count', { unread_count: 2 });
+
+    const reconnected = buildResponse();
+    open(userId, reconnected, eventIds(res)[0]);
+
+    expect(written(reconnected)).toContain('event: resync');
+  });
+
+  it('should send heartbeats until the stream closes', () => {
+    jest.useFakeTimers();
+    const res = buildResponse();
+    const unsubscribe = open(userId, res);
+
+    jest.advanceTimersByTime(25 * 1000);
+    expect(written(res)).toContain(': heartbeat');
+
+    unsubscribe();
+    res.write.mockClear();
+    jest.advanceTimersByTime(60 * 1000);
+    service.publish(userId, 'unread_count', { unread_count: 1 });
+    expect(res.write).not.toHaveBeenCalled();
+  });
+
+  it('should publish unread counts to connected users only', async () => {
+    const res = buildResponse();
+    open(userId, res);
+    mockNotificationModel.countUnreadForUsers.mockResolvedValue(new Map([[userId, 4]]));
+
+    await service.publishUnreadCounts([userId, otherUserId]);
+
+    expect(mockNotificationModel.countUnreadForUsers).toHaveBeenCalledWith([userId]);
+    expect(written(res)).toContain('event: unread_count\ndata: {"unread_count":4}');
+  });
+});
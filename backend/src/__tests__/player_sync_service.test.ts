@@ -0,0 +1,393 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { PlayerSyncService } from '../services/player_sync_service';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { SpectrumAPIClient, SpectrumAPIError } from '../clients/spectrum';
+import rsiClient from '../clients/rsi_client';
+import { rateLimitService } from '../services/rate_limit_service';
+import { NotificationService } from '../services/notification_service';
+import { WatchlistService } from '../services/watchlist_service';
+import { NotificationEntityType } from '../types/notification';
+import { PlayerOrgHistory, ScPlayer } from '../types/sc_player';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/sc_player_model');
+jest.mock('../services/notification_service');
+jest.mock('../services/watchlist_service');
+jest.mock('../config/logger');
+jest.mock('../clients/spectrum', () => ({
+  ...(jest.requireActual('../clients/spectrum') as object),
+  SpectrumAPIClient: jest.fn(),
+}));
+jest.mock('../clients/rsi_client', () => ({
+  __esModule: true,
+  default: { getCitizenOrganizations: jest.fn() },
+}));
+
+describe('PlayerSyncService', () => {
+  let service: PlayerSyncService;
+  let mockScPlayerModel: jest.Mocked<ScPlayerModel>;
+  let mockSpectrumClient: jest.Mocked<SpectrumAPIClient>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+  let mockWatchlistService: jest.Mocked<WatchlistService>;
+  const mockGetCitizenOrganizations = jest.mocked(
+    rsiClient.getCitizenOrganizations
+  );
+
+  const now = new Date('2025-07-01T12:00:00Z');
+  const hoursFromNow = (hours: number) =>
+    new Date(now.getTime() + hours * 60 * 60 * 1000);
+  const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const buildPlayer = (overrides: Partial<ScPlayer> = {}): ScPlayer => ({
+    id: uuidv4(),
+    spectrum_id: '12345',
+    current_handle: 'OldHandle',
+    current_display_name: 'Old Handle',
+    first_observed_at: daysAgo(100),
+    last_observed_at: daysAgo(1),
+    sync_failure_count: 0,
+    is_active: true,
+    created_at: daysAgo(100),
+    updated_at: daysAgo(1),
+    ...overrides,
+  });
+
+  const buildOrgHistory = (
+    overrides: Partial<PlayerOrgHistory> = {}
+  ): PlayerOrgHistory => ({
+    id: uuidv4(),
+    player_id: uuidv4(),
+    org_name: 'Old Org',
+    org_spectrum_id: 'OLDORG',
+    first_observed_at: daysAgo(30),
+    last_observed_at: daysAgo(1),
+    is_current: true,
+    created_at: daysAgo(30),
+    ...overrides,
+  });
+
+  const memberResponse = (nickname: string) => ({
+    success: 1,
+    code: 'OK',
+    msg: 'OK',
+    data: {
+      member: { id: '12345', nickname, displayname: nickname },
+    },
+  });
+
+  let player: ScPlayer;
+
+  beforeAll(() => {
+    mockScPlayerModel = {
+      findDueForSync: jest.fn(),
+      update: jest.fn(),
+      createHandleHistory: jest.fn(),
+      updateHandleHistoryLastObserved: jest.fn(),
+      getCurrentOrgHistory: jest.fn(),
+      createOrgHistory: jest.fn(),
+      updateOrgHistory: jest.fn(),
+      getSyncActivity: jest.fn(),
+      markViewed: jest.fn(),
+      pullSyncForward: jest.fn(),
+    } as any;
+
+    mockSpectrumClient = {
+      fetchMemberById: jest.fn(),
+    } as any;
+
+    mockNotificationService = {
+      createNotification: jest.fn(),
+    } as any;
+
+    mockWatchlistService = {
+      findPlayerWatcherIds: jest.fn(),
+      findOrganizationWatcherIds: jest.fn(),
+    } as any;
+
+    (
+      ScPlayerModel as jest.MockedClass<typeof ScPlayerModel>
+    ).mockImplementation(() => mockScPlayerModel);
+    (
+      SpectrumAPIClient as jest.MockedClass<typeof SpectrumAPIClient>
+    ).mockImplementation(() => mockSpectrumClient);
+    (
+      NotificationService as jest.MockedClass<typeof NotificationService>
+    ).mockImplementation(() => mockNotificationService);
+    (
+      WatchlistService as jest.MockedClass<typeof WatchlistService>
+    ).mockImplementation(() => mockWatchlistService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rateLimitService.clearBackoff('spectrum');
+    rateLimitService.clearBackoff('rsi_citizens');
+
+    player = buildPlayer();
+    mockScPlayerModel.findDueForSync.mockResolvedValue([player]);
+    mockScPlayerModel.update.mockImplementation(async (id, data) => ({
+      ...player,
+      ...data,
+    }));
+    mockScPlayerModel.getCurrentOrgHistory.mockResolvedValue([]);
+    mockScPlayerModel.createOrgHistory.mockImplementation(async data =>
+      buildOrgHistory({ ...data })
+    );
+    mockScPlayerModel.getSyncActivity.mockResolvedValue({
+      last_viewed_at: null,
+      last_reported_at: null,
+      watcher_count: 0,
+    });
+    mockWatchlistService.findPlayerWatcherIds.mockResolvedValue([]);
+    mockWatchlistService.findOrganizationWatcherIds.mockResolvedValue([]);
+    mockSpectrumClient.fetchMemberById.mockResolvedValue(
+      memberResponse('OldHandle')
+    );
+    mockGetCitizenOrganizations.mockResolvedValue([]);
+    service = new PlayerSyncService();
+  });
+
+  describe('getSyncInterval', () => {
+    const activity = {
+      last_viewed_at: null,
+      last_reported_at: null,
+      watcher_count: 0,
+    };
+    const hours = (ms: number) => ms / (60 * 60 * 1000);
+
+    it('should sync watched and recently reported players every six hours', () => {
+      expect(
+        hours(
+          service.getSyncInterval(
+            player,
+            { ...activity, watcher_count: 1 },
+            now
+          )
+        )
+      ).toBe(6);
+      expect(
+        hours(
+          service.getSyncInterval(
+            player,
+            { ...activity, last_reported_at: daysAgo(2) },
+            now
+          )
+        )
+      ).toBe(6);
+    });
+
+    it('should sync players viewed this month daily', () => {
+      expect(
+        hours(
+          service.getSyncInterval(
+            player,
+            { ...activity, last_viewed_at: daysAgo(20) },
+            now
+          )
+        )
+      ).toBe(24);
+    });
+
+    it('should rarely sync dormant players', () => {
+      expect(hours(service.getSyncInterval(player, activity, now))).toBe(
+        7 * 24
+      );
+      expect(
+        hours(
+          service.getSyncInterval(
+            buildPlayer({ is_active: false }),
+            activity,
+            now
+          )
+        )
+      ).toBe(30 * 24);
+    });
+  });
+
+  describe('syncPlayer', () => {
+    it('should record handle changes and notify watchers', async () => {
+      const watcherId = uuidv4();
+      mockSpectrumClient.fetchMemberById.mockResolvedValue(
+        memberResponse('NewHandle')
+      );
+      mockWatchlistService.findPlayerWatcherIds.mockResolvedValue([watcherId]);
+
+      const result = await service.syncPlayer(player, now);
+
+      expect(result.status).toBe('synced');
+      expect(mockScPlayerModel.createHandleHistory).toHaveBeenCalledWith({
+        player_id: player.id,
+        handle: 'NewHandle',
+        display_name: 'NewHandle',
+      });
+      expect(mockScPlayerModel.update).toHaveBeenCalledWith(
+        player.id,
+        expect.objectContaining({
+          current_handle: 'NewHandle',
+          next_sync_at: hoursFromNow(7 * 24),
+          sync_failure_count: 0,
+        })
+      );
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: watcherId,
+          entity_type: NotificationEntityType.REPUTATION_PLAYER_HANDLE_CHANGED,
+          message: 'OldHandle is now NewHandle',
+        })
+      );
+    });
+
+    it('should record organizations joined and left', async () => {
+      const staying = buildOrgHistory({
+        org_name: 'Staying',
+        org_spectrum_id: 'STAY',
+      });
+      const leaving = buildOrgHistory({
+        org_name: 'Leaving',
+        org_spectrum_id: 'LEAVE',
+      });
+      mockScPlayerModel.getCurrentOrgHistory.mockResolvedValue([
+        staying,
+        leaving,
+      ]);
+      mockGetCitizenOrganizations.mockResolvedValue([
+        { name: 'Staying', sid: 'STAY', rank: 'Officer', is_main: true },
+        { name: 'Joining', sid: 'JOIN', is_main: false },
+      ]);
+      mockWatchlistService.findPlayerWatcherIds.mockResolvedValue([uuidv4()]);
+
+      const result = await service.syncPlayer(player, now);
+
+      expect(mockScPlayerModel.updateOrgHistory).toHaveBeenCalledWith(
+        staying.id,
+        { role: 'Officer', last_observed_at: now }
+      );
+      expect(mockScPlayerModel.createOrgHistory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          org_spectrum_id: 'JOIN',
+          is_current: true,
+        })
+      );
+      expect(mockScPlayerModel.updateOrgHistory).toHaveBeenCalledWith(
+        leaving.id,
+        { is_current: false }
+      );
+      expect(result.status === 'synced' && result.changes.left_orgs).toEqual([
+        leaving,
+      ]);
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entity_type: NotificationEntityType.REPUTATION_PLAYER_ORG_CHANGED,
+          message: 'OldHandle joined Joining and left Leaving',
+        })
+      );
+    });
+
+    it('should tell watchers of an organization about its own membership changes', async () => {
+      const playerWatcherId = uuidv4();
+      const orgWatcherId = uuidv4();
+      mockScPlayerModel.getCurrentOrgHistory.mockResolvedValue([
+        buildOrgHistory({ org_name: 'Leaving', org_spectrum_id: 'LEAVE' }),
+      ]);
+      mockGetCitizenOrganizations.mockResolvedValue([
+        { name: 'Joining', sid: 'JOIN', is_main: true },
+      ]);
+      mockWatchlistService.findPlayerWatcherIds.mockResolvedValue([
+        playerWatcherId,
+      ]);
+      mockWatchlistService.findOrganizationWatcherIds.mockImplementation(
+        async sid => (sid === 'JOIN' ? [orgWatcherId, playerWatcherId] : [])
+      );
+
+      await service.syncPlayer(player, now);
+
+      expect(mockNotificationService.createNotification).toHaveBeenCalledTimes(
+        2
+      );
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: orgWatcherId,
+          entity_type:
+            NotificationEntityType.REPUTATION_WATCHED_ORG_MEMBERSHIP_CHANGED,
+          message: 'OldHandle joined Joining',
+        })
+      );
+    });
+
+    it('should leave organizations alone when the profile cannot be read', async () => {
+      mockScPlayerModel.getCurrentOrgHistory.mockResolvedValue([
+        buildOrgHistory(),
+      ]);
+      mockGetCitizenOrganizations.mockResolvedValue(null);
+
+      await service.syncPlayer(player, now);
+
+      expect(mockScPlayerModel.updateOrgHistory).not.toHaveBeenCalled();
+      expect(mockNotificationService.createNotification).not.toHaveBeenCalled();
+    });
+
+    it('should back off players Spectrum cannot find', async () => {
+      mockSpectrumClient.fetchMemberById.mockRejectedValue(
+        new SpectrumAPIError('Member not found', 'ErrNoMemberFound')
+      );
+
+      const result = await service.syncPlayer(
+        buildPlayer({ id: player.id, sync_failure_count: 2 }),
+        now
+      );
+
+      expect(result.status).toBe('not_found');
+      expect(mockScPlayerModel.update).toHaveBeenCalledWith(player.id, {
+        sync_failure_count: 3,
+        next_sync_at: hoursFromNow(4 * 24),
+      });
+    });
+  });
+
+  describe('syncDuePlayers', () => {
+    it('should stop the batch and back off when Spectrum rate limits', async () => {
+      mockScPlayerModel.findDueForSync.mockResolvedValue([
+        player,
+        buildPlayer(),
+      ]);
+      mockSpectrumClient.fetchMemberById.mockRejectedValue(
+        new SpectrumAPIError('HTTP 429: Too Many Requests', undefined, 429, 120)
+      );
+
+      const synced = await service.syncDuePlayers(now);
+
+      expect(synced).toBe(0);
+      expect(mockSpectrumClient.fetchMemberById).toHaveBeenCalledTimes(1);
+      expect(rateLimitService.getBackoff('spectrum')).not.toBeNull();
+
+      // The next run waits out the backoff without calling Spectrum
+      await service.syncDuePlayers(now);
+      expect(mockScPlayerModel.findDueForSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep syncing after one player fails', async () => {
+      const failing = buildPlayer({ spectrum_id: '999' });
+      mockScPlayerModel.findDueForSync.mockResolvedValue([failing, player]);
+      mockSpectrumClient.fetchMemberById
+        .mockRejectedValueOnce(new SpectrumAPIError('Network error: timeout'))
+        .mockResolvedValueOnce(memberResponse('OldHandle'));
+
+      const synced = await service.syncDuePlayers(now);
+
+      expect(synced).toBe(1);
+      expect(mockScPlayerModel.update).toHaveBeenCalledWith(failing.id, {
+        sync_failure_count: 1,
+        next_sync_at: hoursFromNow(24),
+      });
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { PlayerVettingService } from '../services/player_vetting_service';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { PlayerVettingModel } from '../models/player_vetting_model';
+import { SpectrumAPIClient, SpectrumAPIError } from '../clients/spectrum';
+import { ReputationScoreService } from '../services/reputation_score_service';
+import { PlayerSyncService } from '../services/player_sync_service';
+import { rateLimitService } from '../services/rate_limit_service';
+import { PlayerOrgHistory, ScPlayer } from '../types/sc_player';
+import { PlayerReputationScore } from '../types/reputation';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/sc_player_model');
+jest.mock('../models/player_vetting_model');
+jest.mock('../services/reputation_score_service');
+jest.mock('../services/player_sync_service');
+jest.mock('../config/logger');
+jest.mock('../clients/spectrum', () => ({
+  ...(jest.requireActual('../clients/spectrum') as object),
+  SpectrumAPIClient: jest.fn(),
+}));
+
+describe('PlayerVettingService', () => {
+  let service: PlayerVettingService;
+  let mockScPlayerModel: jest.Mocked<ScPlayerModel>;
+  let mockVettingModel: jest.Mocked<PlayerVettingModel>;
+  let mockSpectrumClient: jest.Mocked<SpectrumAPIClient>;
+  let mockScoreService: jest.Mocked<ReputationScoreService>;
+  let mockPlayerSyncService: jest.Mocked<PlayerSyncService>;
+
+  const now = new Date('2025-07-01T12:00:00Z');
+
+  const player: ScPlayer = {
+    id: uuidv4(),
+    spectrum_id: '12345',
+    current_handle: 'Applicant',
+    current_display_name: 'Applicant',
+    first_observed_at: now,
+    last_observed_at: now,
+    sync_failure_count: 0,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const buildScore = (
+    overrides: Partial<PlayerReputationScore> = {}
+  ): PlayerReputationScore => ({
+    player_id: player.id,
+    score: 50,
+    confidence: 'medium',
+    breakdown: {} as PlayerReputationScore['breakdown'],
+    is_stale: false,
+    computed_at: now,
+    ...overrides,
+  });
+
+  const buildOrg = (
+    overrides: Partial<PlayerOrgHistory> = {}
+  ): PlayerOrgHistory => ({
+    id: uuidv4(),
+    player_id: player.id,
+    org_name: 'Pirate Guild',
+    org_spectrum_id: 'PIRATE',
+    first_observed_at: now,
+    last_observed_at: now,
+    is_current: true,
+    created_at: now,
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockScPlayerModel = {
+      findByHandle: jest.fn(),
+      findBySpectrumId: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      createHandleHistory: jest.fn(),
+      updateLastObserved: jest.fn(),
+    } as any;
+
+    mockVettingModel = {
+      getOrgHistory: jest.fn(),
+      getOrganizationReportTallies: jest.fn(),
+      getAffiliationReports: jest.fn(),
+      getAltAccounts: jest.fn(),
+    } as any;
+
+    mockSpectrumClient = {
+      fetchMemberByHandle: jest.fn(),
+    } as any;
+
+    mockScoreService = {
+      getScore: jest.fn(),
+    } as any;
+
+    mockPlayerSyncService = {
+      syncPlayer: jest.fn(),
+    } as any;
+
+    (
+      ScPlayerModel as jest.MockedClass<typeof ScPlayerModel>
+    ).mockImplementation(() => mockScPlayerModel);
+    (
+      PlayerVettingModel as jest.MockedClass<typeof PlayerVettingModel>
+    ).mockImplementation(() => mockVettingModel);
+    (
+      SpectrumAPIClient as jest.MockedClass<typeof SpectrumAPIClient>
+    ).mockImplementation(() => mockSpectrumClient);
+    (
+      ReputationScoreService as jest.MockedClass<typeof ReputationScoreService>
+    ).mockImplementation(() => mockScoreService);
+    (
+      PlayerSyncService as jest.MockedClass<typeof PlayerSyncService>
+    ).mockImplementation(() => mockPlayerSyncService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rateLimitService.clearBackoff('spectrum');
+    mockScPlayerModel.findByHandle.mockResolvedValue(player);
+    mockScoreService.getScore.mockResolvedValue(buildScore());
+    mockVettingModel.getOrgHistory.mockResolvedValue([]);
+    mockVettingModel.getOrganizationReportTallies.mockResolvedValue([]);
+    mockVettingModel.getAffiliationReports.mockResolvedValue([]);
+    mockVettingModel.getAltAccounts.mockResolvedValue([]);
+    service = new PlayerVettingService();
+  });
+
+  describe('vetHandle', () => {
+    it('should clear players with no reports against them', async () => {
+      const summary = await service.vetHandle('applicant', now);
+
+      expect(summary).toMatchObject({
+        handle: 'applicant',
+        status: 'found',
+        player: { id: player.id, spectrum_id: '12345' },
+        reputation: { score: 50, confidence: 'medium' },
+        risk_level: 'clear',
+        flags: [],
+      });
+      expect(mockVettingModel.getAltAccounts).toHaveBeenCalledWith(
+        player.id,
+        'Applicant',
+        '12345'
+      );
+    });
+
+    it('should flag current membership in organizations named by reports', async () => {
+      mockVettingModel.getOrgHistory.mockResolvedValue([
+        buildOrg(),
+        buildOrg({
+          org_name: 'Old Crew',
+          org_spectrum_id: 'OLDCREW',
+          is_current: false,
+        }),
+        buildOrg({ org_name: 'Traders', org_spectrum_id: 'TRADE' }),
+      ]);
+      mockVettingModel.getOrganizationReportTallies.mockResolvedValue([
+        {
+          org_spectrum_id: 'PIRATE',
+          approved_report_count: 2,
+          open_report_count: 1,
+        },
+        {
+          org_spectrum_id: 'OLDCREW',
+          approved_report_count: 0,
+          open_report_count: 1,
+        },
+      ]);
+
+      const summary = await service.vetHandle('Applicant', now);
+
+      expect(
+        mockVettingModel.getOrganizationReportTallies
+      ).toHaveBeenCalledWith(['PIRATE', 'OLDCREW', 'TRADE']);
+      expect(summary.risk_level).toBe('high');
+      expect(summary.flags).toEqual([
+        'Member of reported organization Pirate Guild (PIRATE)',
+        'Former member of reported organization Old Crew (OLDCREW)',
+      ]);
+      expect(summary.organizations[2]).toMatchObject({
+        org_spectrum_id: 'TRADE',
+        approved_report_count: 0,
+        open_report_count: 0,
+      });
+    });
+
+    it('should list open alt account reports as caution and confirmed ones as high risk', async () => {
+      mockVettingModel.getAltAccounts.mockResolvedValue([
+        {
+          report_id: uuidv4(),
+          relation: 'alt',
+          handle: 'SneakyAlt',
+          spectrum_id: null,
+          status: 'pending',
+          corroboration_count: 1,
+        },
+      ]);
+
+      const pending = await service.vetHandle('Applicant', now);
+      expect(pending.risk_level).toBe('caution');
+      expect(pending.flags).toEqual(['Reported alt account SneakyAlt']);
+
+      mockVettingModel.getAltAccounts.mockResolvedValue([
+        {
+          report_id: uuidv4(),
+          relation: 'main',
+          handle: 'BannedMain',
+          spectrum_id: '999',
+          status: 'approved',
+          corroboration_count: 4,
+        },
+      ]);
+
+      const confirmed = await service.vetHandle('Applicant', now);
+      expect(confirmed.risk_level).toBe('high');
+      expect(confirmed.flags).toEqual(['Confirmed alt of BannedMain']);
+    });
+
+    it('should only count poor scores that have enough evidence behind them', async () => {
+      mockScoreService.getScore.mockResolvedValue(
+        buildScore({ score: 20, confidence: 'low' })
+      );
+      const unproven = await service.vetHandle('Applicant', now);
+      expect(unproven.risk_level).toBe('clear');
+
+      mockScoreService.getScore.mockResolvedValue(
+        buildScore({ score: 20, confidence: 'high' })
+      );
+      const proven = await service.vetHandle('Applicant', now);
+      expect(proven.risk_level).toBe('high');
+      expect(proven.flags).toEqual(['Poor reputation score (20)']);
+    });
+
+    it('should start tracking unknown handles and pull in their organizations', async () => {
+      mockScPlayerModel.findByHandle.mockResolvedValue(null);
+      mockSpectrumClient.fetchMemberByHandle.mockResolvedValue({
+        success: 1,
+        data: {
+          member: { id: '12345', nickname: 'Applicant', displayname: 'App' },
+        },
+      } as any);
+      mockScPlayerModel.findBySpectrumId.mockResolvedValue(null);
+      mockScPlayerModel.create.mockResolvedValue(player);
+      mockPlayerSyncService.syncPlayer.mockResolvedValue({
+        status: 'synced',
+        player,
+        changes: { joined_orgs: [], left_orgs: [] },
+      });
+
+      const summary = await service.vetHandle('applicant', now);
+
+      expect(mockScPlayerModel.create).toHaveBeenCalledWith({
+        spectrum_id: '12345',
+        current_handle: 'Applicant',
+        current_display_name: 'App',
+        last_spectrum_sync_at: now,
+      });
+      expect(mockPlayerSyncService.syncPlayer).toHaveBeenCalledWith(
+        player,
+        now
+      );
+      expect(summary.status).toBe('found');
+    });
+
+    it('should report handles Spectrum does not know', async () => {
+      mockScPlayerModel.findByHandle.mockResolvedValue(null);
+      mockSpectrumClient.fetchMemberByHandle.mockRejectedValue(
+        new SpectrumAPIError('Member not found', 'ErrMemberNotFound', 404)
+      );
+
+      const summary = await service.vetHandle('Nobody', now);
+
+      expect(summary).toMatchObject({
+        status: 'not_found',
+        player: null,
+        risk_level: 'caution',
+        flags: ['Handle not found on Spectrum'],
+      });
+      expect(mockScoreService.getScore).not.toHaveBeenCalled();
+    });
+
+    it('should not call Spectrum while backing off from it', async () => {
+      mockScPlayerModel.findByHandle.mockResolvedValue(null);
+      rateLimitService.backOff('spectrum', 60);
+
+      const summary = await service.vetHandle('Nobody', now);
+
+      expect(summary.status).toBe('unavailable');
+      expect(mockSpectrumClient.fetchMemberByHandle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('vetHandles', () => {
+    it('should keep going when one handle fails', async () => {
+      mockScoreService.getScore
+        .mockRejectedValueOnce(new Error('Database unavailable'))
+        .mockResolvedValue(buildScore());
+
+      const summaries = await service.vetHandles(['First', 'Second'], now);
+
+      expect(summaries.map(summary => summary.status)).toEqual([
+        'unavailable',
+        'found',
+      ]);
+    });
+  });
+
+  describe('parseHandles', () => {
+    it('should split pasted lists and drop repeats regardless of case', () => {
+      expect(
+        service.parseHandles('Alpha, bravo\n@Charlie;alpha\n\n  BRAVO ')
+      ).toEqual(['Alpha', 'bravo', 'Charlie']);
+    });
+  });
+});
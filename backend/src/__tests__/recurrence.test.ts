@@ -0,0 +1,148 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  expandRecurrence,
+  normalizeRecurrenceRule,
+  toRRuleString,
+  validateRecurrenceRule,
+} from '../utils/recurrence';
+
+describe('recurrence utils', () => {
+  // Wednesday 2025-01-01 20:00 UTC
+  const seriesStart = new Date('2025-01-01T20:00:00.000Z');
+  const windowEnd = new Date('2025-03-01T00:00:00.000Z');
+
+  describe('validateRecurrenceRule', () => {
+    it('should accept a valid weekly rule', () => {
+      expect(
+        validateRecurrenceRule({ frequency: 'weekly', by_weekday: [1, 3] })
+      ).toHaveLength(0);
+    });
+
+    it('should reject unknown frequencies and invalid weekdays', () => {
+      const errors = validateRecurrenceRule({
+        frequency: 'daily',
+        by_weekday: [7],
+      });
+
+      expect(errors).toHaveLength(2);
+    });
+
+    it('should reject multiple weekdays for monthly rules', () => {
+      expect(
+        validateRecurrenceRule({ frequency: 'monthly', by_weekday: [1, 2] })
+      ).toContain('Monthly recurrence supports a single weekday');
+    });
+  });
+
+  describe('normalizeRecurrenceRule', () => {
+    it('should default the weekday to the series start weekday', () => {
+      const rule = normalizeRecurrenceRule({ frequency: 'weekly' }, seriesStart);
+
+      expect(rule.by_weekday).toEqual([3]);
+    });
+
+    it('should derive the week of month for monthly rules', () => {
+      const rule = normalizeRecurrenceRule(
+        { frequency: 'monthly' },
+        new Date('2025-01-15T20:00:00.000Z')
+      );
+
+      expect(rule.week_of_month).toBe(3);
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should generate weekly occurrences at the same time of day', () => {
+      const occurrences = expandRecurrence(
+        { frequency: 'weekly', count: 3 },
+        seriesStart,
+        seriesStart,
+        windowEnd
+      );
+
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2025-01-01T20:00:00.000Z',
+        '2025-01-08T20:00:00.000Z',
+        '2025-01-15T20:00:00.000Z',
+      ]);
+    });
+
+    it('should generate biweekly occurrences on multiple weekdays', () => {
+      const occurrences = expandRecurrence(
+        { frequency: 'biweekly', by_weekday: [3, 5], count: 4 },
+        seriesStart,
+        seriesStart,
+        windowEnd
+      );
+
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2025-01-01T20:00:00.000Z',
+        '2025-01-03T20:00:00.000Z',
+        '2025-01-15T20:00:00.000Z',
+        '2025-01-17T20:00:00.000Z',
+      ]);
+    });
+
+    it('should generate monthly occurrences by weekday', () => {
+      const occurrences = expandRecurrence(
+        { frequency: 'monthly', by_weekday: [6], week_of_month: -1 },
+        seriesStart,
+        seriesStart,
+        windowEnd
+      );
+
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2025-01-25T20:00:00.000Z',
+        '2025-02-22T20:00:00.000Z',
+      ]);
+    });
+
+    it('should skip exceptions while still counting them', () => {
+      const occurrences = expandRecurrence(
+        {
+          frequency: 'weekly',
+          count: 3,
+          exceptions: ['2025-01-08T20:00:00.000Z'],
+        },
+        seriesStart,
+        seriesStart,
+        windowEnd
+      );
+
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2025-01-01T20:00:00.000Z',
+        '2025-01-15T20:00:00.000Z',
+      ]);
+    });
+
+    it('should only return occurrences inside the window and before until', () => {
+      const occurrences = expandRecurrence(
+        { frequency: 'weekly', until: '2025-01-29T00:00:00.000Z' },
+        seriesStart,
+        new Date('2025-01-10T00:00:00.000Z'),
+        windowEnd
+      );
+
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2025-01-15T20:00:00.000Z',
+        '2025-01-22T20:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('toRRuleString', () => {
+    it('should render weekly and monthly rules', () => {
+      expect(
+        toRRuleString({ frequency: 'biweekly', by_weekday: [1, 3], count: 5 })
+      ).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5');
+      expect(
+        toRRuleString({
+          frequency: 'monthly',
+          by_weekday: [6],
+          week_of_month: -1,
+          until: '2025-06-01T00:00:00.000Z',
+        })
+      ).toBe('FREQ=MONTHLY;BYDAY=-1SA;UNTIL=20250601T000000Z');
+    });
+  });
+});
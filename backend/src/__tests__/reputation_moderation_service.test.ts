@@ -0,0 +1,362 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { ReputationModerationService } from '../services/reputation_moderation_service';
+import {
+  ModeratedReport,
+  ReputationModerationModel,
+} from '../models/reputation_moderation_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { UserModel } from '../models/user_model';
+import { User } from '../types/user';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/reputation_moderation_model');
+jest.mock('../models/sc_player_model');
+jest.mock('../models/user_model');
+jest.mock('../config/logger');
+
+describe('ReputationModerationService', () => {
+  let service: ReputationModerationService;
+  let mockModerationModel: jest.Mocked<ReputationModerationModel>;
+  let mockScPlayerModel: jest.Mocked<ScPlayerModel>;
+  let mockUserModel: jest.Mocked<UserModel>;
+
+  const moderatorId = uuidv4();
+  const reporterId = uuidv4();
+  const playerId = uuidv4();
+  const reportId = uuidv4();
+
+  const buildReport = (
+    overrides: Partial<ModeratedReport> = {}
+  ): ModeratedReport => ({
+    id: reportId,
+    player_id: playerId,
+    reporter_id: reporterId,
+    status: 'pending',
+    ...overrides,
+  });
+
+  const buildUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: uuidv4(),
+      rsi_handle: 'ReportedPilot',
+      spectrum_id: '123456',
+      is_rsi_verified: true,
+      ...overrides,
+    }) as User;
+
+  const buildAction = (overrides: Record<string, unknown> = {}) => ({
+    id: uuidv4(),
+    report_type: 'player' as const,
+    report_id: reportId,
+    actor_id: moderatorId,
+    action: 'approve' as const,
+    from_status: 'pending' as const,
+    to_status: 'approved' as const,
+    rationale: 'Confirmed by multiple witnesses',
+    created_at: new Date(),
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockModerationModel = {
+      getModerator: jest.fn(),
+      getReport: jest.fn(),
+      recordAction: jest.fn(),
+      hasAppeal: jest.fn(),
+      removeModerator: jest.fn(),
+    } as any;
+    mockScPlayerModel = {
+      findById: jest.fn(),
+    } as any;
+    mockUserModel = {
+      findById: jest.fn(),
+    } as any;
+
+    (
+      ReputationModerationModel as jest.MockedClass<
+        typeof ReputationModerationModel
+      >
+    ).mockImplementation(() => mockModerationModel);
+    (
+      ScPlayerModel as jest.MockedClass<typeof ScPlayerModel>
+    ).mockImplementation(() => mockScPlayerModel);
+    (UserModel as jest.MockedClass<typeof UserModel>).mockImplementation(
+      () => mockUserModel
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockModerationModel.getReport.mockResolvedValue(buildReport());
+    mockModerationModel.recordAction.mockImplementation(
+      async (_type, _id, action) => buildAction(action)
+    );
+    mockModerationModel.hasAppeal.mockResolvedValue(false);
+    mockScPlayerModel.findById.mockResolvedValue({
+      id: playerId,
+      spectrum_id: '123456',
+      current_handle: 'ReportedPilot',
+    } as any);
+    mockUserModel.findById.mockResolvedValue(
+      buildUser({
+        id: moderatorId,
+        rsi_handle: 'Moderator',
+        spectrum_id: '654321',
+      })
+    );
+    service = new ReputationModerationService();
+  });
+
+  afterEach(() => {
+    delete process.env.REPUTATION_ADMIN_USER_IDS;
+  });
+
+  describe('roles', () => {
+    it('should treat configured admins as admins without a database row', async () => {
+      process.env.REPUTATION_ADMIN_USER_IDS = ` ${moderatorId} , ${uuidv4()}`;
+
+      expect(await service.getRole(moderatorId)).toBe('admin');
+      expect(await service.hasRole(moderatorId, 'moderator')).toBe(true);
+      expect(mockModerationModel.getModerator).not.toHaveBeenCalled();
+
+      const result = await service.revokeRole(moderatorId);
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(mockModerationModel.removeModerator).not.toHaveBeenCalled();
+    });
+
+    it('should not let moderators pass admin checks', async () => {
+      mockModerationModel.getModerator.mockResolvedValue({
+        user_id: moderatorId,
+        role: 'moderator',
+        granted_by: null,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+
+      expect(await service.hasRole(moderatorId, 'moderator')).toBe(true);
+      expect(await service.hasRole(moderatorId, 'admin')).toBe(false);
+    });
+  });
+
+  describe('decide', () => {
+    it('should move a pending report to approved and record the rationale', async () => {
+      const result = await service.decide('player', reportId, moderatorId, {
+        decision: 'approve',
+        rationale: '  Confirmed by multiple witnesses  ',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockModerationModel.recordAction).toHaveBeenCalledWith(
+        'player',
+        reportId,
+        {
+          actor_id: moderatorId,
+          action: 'approve',
+          from_status: 'pending',
+          to_status: 'approved',
+          rationale: 'Confirmed by multiple witnesses',
+        }
+      );
+    });
+
+    it('should reject disputed reports', async () => {
+      mockModerationModel.getReport.mockResolvedValue(
+        buildReport({ status: 'disputed' })
+      );
+
+      const result = await service.decide(
+        'alt_account',
+        reportId,
+        moderatorId,
+        {
+          decision: 'reject',
+          rationale: 'Appeal evidence shows different accounts',
+        }
+      );
+
+      expect(result.success && result.data.report.status).toBe('rejected');
+      expect(mockModerationModel.recordAction).toHaveBeenCalledWith(
+        'alt_account',
+        reportId,
+        expect.objectContaining({
+          from_status: 'disputed',
+          to_status: 'rejected',
+        })
+      );
+    });
+
+    it('should not let moderators decide on their own reports', async () => {
+      const result = await service.decide('player', reportId, reporterId, {
+        decision: 'approve',
+        rationale: 'I filed this',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'forbidden' });
+      expect(mockModerationModel.recordAction).not.toHaveBeenCalled();
+    });
+
+    it('should not let moderators decide on reports about their own player', async () => {
+      mockUserModel.findById.mockResolvedValue(
+        buildUser({
+          id: moderatorId,
+          rsi_handle: 'reportedpilot',
+          spectrum_id: undefined,
+        })
+      );
+
+      const result = await service.decide('player', reportId, moderatorId, {
+        decision: 'reject',
+        rationale: 'Nothing happened',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'forbidden' });
+      expect(mockModerationModel.recordAction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse reports that were already decided', async () => {
+      mockModerationModel.getReport.mockResolvedValue(
+        buildReport({ status: 'rejected' })
+      );
+
+      const result = await service.decide('player', reportId, moderatorId, {
+        decision: 'approve',
+        rationale: 'Second opinion',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(mockModerationModel.recordAction).not.toHaveBeenCalled();
+    });
+
+    it('should report a conflict when another moderator decided first', async () => {
+      mockModerationModel.recordAction.mockResolvedValue(null);
+
+      const result = await service.decide('player', reportId, moderatorId, {
+        decision: 'approve',
+        rationale: 'Confirmed',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+    });
+
+    it('should return not found for unknown reports', async () => {
+      mockModerationModel.getReport.mockResolvedValue(null);
+
+      const result = await service.decide(
+        'organization',
+        reportId,
+        moderatorId,
+        {
+          decision: 'approve',
+          rationale: 'Confirmed',
+        }
+      );
+
+      expect(result).toMatchObject({ success: false, code: 'not_found' });
+    });
+  });
+
+  describe('appeal', () => {
+    it('should let the verified owner dispute an approved report', async () => {
+      mockModerationModel.getReport.mockResolvedValue(
+        buildReport({ status: 'approved' })
+      );
+      const owner = buildUser();
+
+      const result = await service.appeal(
+        'player',
+        reportId,
+        owner,
+        'That was not me'
+      );
+
+      expect(result.success && result.data.report.status).toBe('disputed');
+      expect(mockModerationModel.recordAction).toHaveBeenCalledWith(
+        'player',
+        reportId,
+        {
+          actor_id: owner.id,
+          action: 'appeal',
+          from_status: 'approved',
+          to_status: 'disputed',
+          rationale: 'That was not me',
+        }
+      );
+    });
+
+    it('should fall back to a case-insensitive handle match without a Spectrum ID', async () => {
+      const owner = buildUser({
+        spectrum_id: undefined,
+        rsi_handle: 'reportedpilot',
+      });
+
+      const result = await service.appeal(
+        'player',
+        reportId,
+        owner,
+        'That was not me'
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should only accept appeals from the verified owner of the handle', async () => {
+      const results = await Promise.all([
+        service.appeal(
+          'player',
+          reportId,
+          buildUser({ spectrum_id: '999' }),
+          'Not me'
+        ),
+        service.appeal(
+          'player',
+          reportId,
+          buildUser({ is_rsi_verified: false }),
+          'Not me'
+        ),
+      ]);
+
+      results.forEach(result =>
+        expect(result).toMatchObject({ success: false, code: 'forbidden' })
+      );
+      expect(mockModerationModel.recordAction).not.toHaveBeenCalled();
+    });
+
+    it('should allow a single appeal per report', async () => {
+      mockModerationModel.hasAppeal.mockResolvedValue(true);
+
+      const result = await service.appeal(
+        'player',
+        reportId,
+        buildUser(),
+        'Still not me'
+      );
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+      expect(mockModerationModel.recordAction).not.toHaveBeenCalled();
+    });
+
+    it('should not reopen rejected reports', async () => {
+      mockModerationModel.getReport.mockResolvedValue(
+        buildReport({ status: 'rejected' })
+      );
+
+      const result = await service.appeal(
+        'player',
+        reportId,
+        buildUser(),
+        'Not me'
+      );
+
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+    });
+  });
+});
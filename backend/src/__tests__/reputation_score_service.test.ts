@@ -0,0 +1,337 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { ReputationScoreService } from '../services/reputation_score_service';
+import {
+  ReputationScoreModel,
+  ScoringAttestation,
+  ScoringInputs,
+} from '../models/reputation_score_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { PlayerReputationScore } from '../types/reputation';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/reputation_score_model');
+jest.mock('../models/sc_player_model');
+jest.mock('../config/logger');
+
+describe('ReputationScoreService', () => {
+  let service: ReputationScoreService;
+  let mockScoreModel: jest.Mocked<ReputationScoreModel>;
+
+  const playerId = uuidv4();
+  const tagId = uuidv4();
+  const reportId = uuidv4();
+  const now = new Date('2025-07-01T12:00:00Z');
+  const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const buildAttestation = (
+    overrides: Partial<ScoringAttestation> = {}
+  ): ScoringAttestation => ({
+    item_id: tagId,
+    attestation_type: 'support',
+    attester_id: uuidv4(),
+    attester_verified: true,
+    attester_created_at: daysAgo(365),
+    attester_player_id: null,
+    attester_score: null,
+    ...overrides,
+  });
+
+  const buildInputs = (
+    overrides: Partial<ScoringInputs> = {}
+  ): ScoringInputs => ({
+    tags: [
+      {
+        id: tagId,
+        tag_name: 'Reliable trader',
+        tag_type: 'positive',
+        created_at: now,
+      },
+    ],
+    reports: [],
+    tagAttestations: [],
+    reportAttestations: [],
+    ...overrides,
+  });
+
+  const buildStored = (
+    overrides: Partial<PlayerReputationScore> = {}
+  ): PlayerReputationScore => ({
+    player_id: playerId,
+    score: 50,
+    confidence: 'low',
+    breakdown: {
+      raw_score: 0,
+      positive: 0,
+      negative: 0,
+      attestation_count: 0,
+      effective_attestations: 0,
+      factors: [],
+    },
+    is_stale: false,
+    computed_at: now,
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockScoreModel = {
+      getScore: jest.fn(),
+      getScores: jest.fn(),
+      saveScore: jest.fn(),
+      markStale: jest.fn(),
+      getScoringInputs: jest.fn(),
+      findLinkedUserId: jest.fn(),
+      findPlayersAttestedBy: jest.fn(),
+    } as any;
+
+    (
+      ReputationScoreModel as jest.MockedClass<typeof ReputationScoreModel>
+    ).mockImplementation(() => mockScoreModel);
+    (
+      ScPlayerModel as jest.MockedClass<typeof ScPlayerModel>
+    ).mockImplementation(() => ({}) as any);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockScoreModel.getScore.mockResolvedValue(null);
+    mockScoreModel.getScoringInputs.mockResolvedValue(buildInputs());
+    mockScoreModel.saveScore.mockImplementation(async (id, data) =>
+      buildStored({ player_id: id, ...data })
+    );
+    mockScoreModel.findLinkedUserId.mockResolvedValue(null);
+    service = new ReputationScoreService();
+  });
+
+  describe('calculateScore', () => {
+    it('should be neutral without attestations', () => {
+      const result = service.calculateScore(playerId, buildInputs(), now);
+
+      expect(result.score).toBe(50);
+      expect(result.confidence).toBe('low');
+      expect(result.breakdown.factors).toEqual([]);
+    });
+
+    it('should weight verified, established attesters above new unverified accounts', () => {
+      const veteran = service.calculateScore(
+        playerId,
+        buildInputs({ tagAttestations: [buildAttestation()] }),
+        now
+      );
+      const newcomer = service.calculateScore(
+        playerId,
+        buildInputs({
+          tagAttestations: [
+            buildAttestation({
+              attester_verified: false,
+              attester_created_at: now,
+            }),
+          ],
+        }),
+        now
+      );
+
+      expect(veteran.breakdown.factors[0].support_weight).toBe(1);
+      expect(newcomer.breakdown.factors[0].support_weight).toBe(0.03);
+      expect(veteran.score).toBeGreaterThan(newcomer.score);
+      expect(newcomer.score).toBeGreaterThan(50);
+    });
+
+    it('should scale attesters by their own standing', () => {
+      const result = service.calculateScore(
+        playerId,
+        buildInputs({
+          tagAttestations: [
+            buildAttestation({ attester_score: 100 }),
+            buildAttestation({
+              attestation_type: 'dispute',
+              attester_score: 0,
+            }),
+          ],
+        }),
+        now
+      );
+
+      expect(result.breakdown.factors[0]).toMatchObject({
+        support_weight: 1.5,
+        dispute_weight: 0.5,
+        contribution: 1,
+      });
+    });
+
+    it('should halve the weight of items every six months', () => {
+      const result = service.calculateScore(
+        playerId,
+        buildInputs({
+          tags: [
+            {
+              id: tagId,
+              tag_name: 'Pirate',
+              tag_type: 'negative',
+              created_at: daysAgo(180),
+            },
+          ],
+          tagAttestations: [buildAttestation(), buildAttestation()],
+        }),
+        now
+      );
+
+      expect(result.breakdown.factors[0]).toMatchObject({
+        decay: 0.5,
+        contribution: -1,
+      });
+      expect(result.score).toBeLessThan(50);
+    });
+
+    it('should count supported reports against the player but never for them', () => {
+      const supported = service.calculateScore(
+        playerId,
+        buildInputs({
+          tags: [],
+          reports: [
+            {
+              id: reportId,
+              title: 'Scammed me',
+              status: 'approved',
+              created_at: now,
+            },
+          ],
+          reportAttestations: [buildAttestation({ item_id: reportId })],
+        }),
+        now
+      );
+      const disputed = service.calculateScore(
+        playerId,
+        buildInputs({
+          tags: [],
+          reports: [
+            {
+              id: reportId,
+              title: 'Scammed me',
+              status: 'pending',
+              created_at: now,
+            },
+          ],
+          reportAttestations: [
+            buildAttestation({
+              item_id: reportId,
+              attestation_type: 'dispute',
+            }),
+          ],
+        }),
+        now
+      );
+
+      expect(supported.breakdown.factors[0]).toMatchObject({
+        source: 'report',
+        contribution: -1.5,
+      });
+      expect(disputed.score).toBe(50);
+    });
+
+    it('should ignore rejected reports and self-attestations', () => {
+      const result = service.calculateScore(
+        playerId,
+        buildInputs({
+          reports: [
+            {
+              id: reportId,
+              title: 'Scammed me',
+              status: 'rejected',
+              created_at: now,
+            },
+          ],
+          tagAttestations: [buildAttestation({ attester_player_id: playerId })],
+          reportAttestations: [buildAttestation({ item_id: reportId })],
+        }),
+        now
+      );
+
+      expect(result.score).toBe(50);
+      expect(result.breakdown.attestation_count).toBe(0);
+    });
+
+    it('should raise confidence with the weight of attestations', () => {
+      const attestations = Array.from({ length: 10 }, () => buildAttestation());
+
+      expect(
+        service.calculateScore(
+          playerId,
+          buildInputs({ tagAttestations: attestations.slice(0, 3) }),
+          now
+        ).confidence
+      ).toBe('medium');
+      expect(
+        service.calculateScore(
+          playerId,
+          buildInputs({ tagAttestations: attestations }),
+          now
+        ).confidence
+      ).toBe('high');
+    });
+  });
+
+  describe('getScore', () => {
+    it('should return fresh stored scores without recomputing', async () => {
+      mockScoreModel.getScore.mockResolvedValue(buildStored({ score: 72 }));
+
+      const score = await service.getScore(playerId, now);
+
+      expect(score.score).toBe(72);
+      expect(mockScoreModel.saveScore).not.toHaveBeenCalled();
+    });
+
+    it('should recompute stale and outdated scores', async () => {
+      mockScoreModel.getScore.mockResolvedValueOnce(
+        buildStored({ is_stale: true })
+      );
+      await service.getScore(playerId, now);
+
+      mockScoreModel.getScore.mockResolvedValueOnce(
+        buildStored({ computed_at: daysAgo(2) })
+      );
+      await service.getScore(playerId, now);
+
+      expect(mockScoreModel.saveScore).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('recalculateScore', () => {
+    it('should mark players the linked user attested on as stale when the score moves', async () => {
+      const userId = uuidv4();
+      const otherPlayerId = uuidv4();
+      mockScoreModel.getScoringInputs.mockResolvedValue(
+        buildInputs({
+          tagAttestations: [buildAttestation(), buildAttestation()],
+        })
+      );
+      mockScoreModel.findLinkedUserId.mockResolvedValue(userId);
+      mockScoreModel.findPlayersAttestedBy.mockResolvedValue([
+        otherPlayerId,
+        playerId,
+      ]);
+
+      await service.recalculateScore(playerId, now);
+
+      expect(mockScoreModel.findPlayersAttestedBy).toHaveBeenCalledWith(userId);
+      expect(mockScoreModel.markStale).toHaveBeenCalledWith([otherPlayerId]);
+    });
+
+    it('should not propagate when the score barely changes', async () => {
+      mockScoreModel.getScore.mockResolvedValue(buildStored());
+
+      await service.recalculateScore(playerId, now);
+
+      expect(mockScoreModel.findLinkedUserId).not.toHaveBeenCalled();
+      expect(mockScoreModel.markStale).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { ResourceAccessService } from '../services/resource_access_service';
+import { ResourcePermissionModel } from '../models/resource_permission_model';
+import { OrganizationModel } from '../models/organization_model';
+import { RoleModel } from '../models/role_model';
+import { AccessDecision, ResourcePermissionOverride } from '../types/resource_permission';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/resource_permission_model');
+jest.mock('../models/organization_model');
+jest.mock('../models/role_model');
+jest.mock('../config/logger');
+
+describe('ResourceAccessService', () => {
+  let service: ResourceAccessService;
+  let mockResourcePermissionModel: jest.Mocked<ResourcePermissionModel>;
+  let mockOrganizationModel: jest.Mocked<OrganizationModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
+
+  const organizationId = uuidv4();
+  const ownerId = uuidv4();
+  const userId = uuidv4();
+  const officerRoleId = uuidv4();
+  const documentId = uuidv4();
+  const allowedByRoles: AccessDecision = { allowed: true, reason: 'Granted by the document access roles' };
+  const deniedByRoles: AccessDecision = { allowed: false, reason: 'None of the user roles are in the document access roles' };
+
+  const buildOverride = (
+    overrides: Partial<ResourcePermissionOverride> = {}
+  ): ResourcePermissionOverride => ({
+    id: uuidv4(),
+    organization_id: organizationId,
+    resource_type: 'document',
+    resource_id: documentId,
+    subject_type: 'role',
+    subject_id: officerRoleId,
+    action: 'view',
+    effect: 'allow',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    mockResourcePermissionModel = {
+      findApplicable: jest.fn(),
+      hasApplicable: jest.fn(),
+    } as any;
+    mockOrganizationModel = {
+      findById: jest.fn(),
+    } as any;
+    mockRoleModel = {
+      getUserRoleIds: jest.fn(),
+      findById: jest.fn(),
+    } as any;
+
+    (ResourcePermissionModel as jest.MockedClass<typeof ResourcePermissionModel>).mockImplementation(
+      () => mockResourcePermissionModel
+    );
+    (OrganizationModel as jest.MockedClass<typeof OrganizationModel>).mockImplementation(
+      () => mockOrganizationModel
+    );
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => mockRoleModel
+    );
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrganizationModel.findById.mockResolvedValue({ id: organizationId, owner_id: ownerId } as any);
+    mockRoleModel.getUserRoleIds.mockResolvedValue([officerRoleId]);
+    mockRoleModel.findById.mockResolvedValue({ id: officerRoleId, name: 'Officer' } as any);
+    service = new ResourceAccessService();
+  });
+
+  const evaluateDocument = (defaultAccess: AccessDecision, action: 'view' | 'manage' = 'view') =>
+    service.evaluate(
+      organizationId,
+      userId,
+      service.getDocumentScopes(documentId, '/policies/security'),
+      action,
+      defaultAccess
+    );
+
+  it('should list a document and each parent folder from most specific', () => {
+    expect(service.getDocumentScopes(documentId, '/policies/security/')).toEqual([
+      { resource_type: 'document', resource_id: documentId },
+      { resource_type: 'document_folder', resource_id: '/policies/security' },
+      { resource_type: 'document_folder', resource_id: '/policies' },
+      { resource_type: 'document_folder', resource_id: '/' },
+    ]);
+  });
+
+  it('should fall back to the default decision without overrides', async () => {
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([]);
+
+    const access = await evaluateDocument(deniedByRoles);
+
+    expect(access.allowed).toBe(false);
+    expect(access.source).toBe('default');
+    expect(access.reason).toBe(deniedByRoles.reason);
+  });
+
+  it('should let a folder allow grant access the document roles refuse', async () => {
+    const folderAllow = buildOverride({
+      resource_type: 'document_folder',
+      resource_id: '/policies',
+    });
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([folderAllow]);
+
+    const access = await evaluateDocument(deniedByRoles);
+
+    expect(access.allowed).toBe(true);
+    expect(access.source).toBe('override');
+    expect(access.override).toBe(folderAllow);
+    expect(access.reason).toBe(
+      "Allowed by view override for role 'Officer' inherited from folder /policies"
+    );
+  });
+
+  it('should prefer the most specific scope over parent folders', async () => {
+    const folderDeny = buildOverride({
+      resource_type: 'document_folder',
+      resource_id: '/policies',
+      effect: 'deny',
+    });
+    const documentAllow = buildOverride();
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([folderDeny, documentAllow]);
+
+    const access = await evaluateDocument(deniedByRoles);
+
+    expect(access.allowed).toBe(true);
+    expect(access.override).toBe(documentAllow);
+    expect(access.applicable_overrides).toEqual([documentAllow, folderDeny]);
+  });
+
+  it('should prefer user entries over role entries on the same resource', async () => {
+    const roleAllow = buildOverride();
+    const userDeny = buildOverride({ subject_type: 'user', subject_id: userId, effect: 'deny' });
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([roleAllow, userDeny]);
+
+    const access = await evaluateDocument(allowedByRoles);
+
+    expect(access.allowed).toBe(false);
+    expect(access.reason).toBe('Denied by view override for this user on this document');
+  });
+
+  it('should let deny win between entries at the same level', async () => {
+    const otherRoleId = uuidv4();
+    mockRoleModel.getUserRoleIds.mockResolvedValue([officerRoleId, otherRoleId]);
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([
+      buildOverride(),
+      buildOverride({ subject_id: otherRoleId, effect: 'deny' }),
+    ]);
+
+    const access = await evaluateDocument(allowedByRoles);
+
+    expect(access.allowed).toBe(false);
+  });
+
+  it('should treat manage allows as view access and view denies as no manage access', async () => {
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([
+      buildOverride({ action: 'manage' }),
+    ]);
+    expect((await evaluateDocument(deniedByRoles, 'view')).allowed).toBe(true);
+
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([
+      buildOverride({ effect: 'deny' }),
+    ]);
+    expect((await evaluateDocument(allowedByRoles, 'manage')).allowed).toBe(false);
+  });
+
+  it('should ignore view allows when checking manage access', async () => {
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([buildOverride()]);
+
+    const access = await evaluateDocument(deniedByRoles, 'manage');
+
+    expect(access.allowed).toBe(false);
+    expect(access.source).toBe('default');
+    expect(access.applicable_overrides).toEqual([]);
+  });
+
+  it('should always allow the organization owner', async () => {
+    mockResourcePermissionModel.findApplicable.mockResolvedValue([
+      buildOverride({ subject_type: 'user', subject_id: ownerId, effect: 'deny' }),
+    ]);
+
+    const access = await service.evaluate(
+      organizationId,
+      ownerId,
+      service.getDocumentScopes(documentId, '/'),
+      'view',
+      deniedByRoles
+    );
+
+    expect(access.allowed).toBe(true);
+    expect(access.source).toBe('owner');
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  jest,
+} from '@jest/globals';
+import { WatchlistService } from '../services/watchlist_service';
+import { WatchlistModel } from '../models/watchlist_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { OrganizationModel } from '../models/organization_model';
+import { RoleModel } from '../models/role_model';
+import { NotificationService } from '../services/notification_service';
+import { NotificationEntityType } from '../types/notification';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
+import { ScPlayer } from '../types/sc_player';
+import {
+  Watchlist,
+  WatchlistEntry,
+  WatchlistEntryWithPlayer,
+} from '../types/reputation';
+import { v4 as uuidv4 } from 'uuid';
+
+// Mock dependencies
+jest.mock('../models/watchlist_model');
+jest.mock('../models/sc_player_model');
+jest.mock('../models/organization_model');
+jest.mock('../models/role_model');
+jest.mock('../services/notification_service');
+jest.mock('../config/logger');
+
+describe('WatchlistService', () => {
+  let service: WatchlistService;
+  let mockWatchlistModel: jest.Mocked<WatchlistModel>;
+  let mockScPlayerModel: jest.Mocked<ScPlayerModel>;
+  let mockOrganizationModel: jest.Mocked<OrganizationModel>;
+  let mockRoleModel: jest.Mocked<RoleModel>;
+  let mockNotificationService: jest.Mocked<NotificationService>;
+
+  const ownerId = uuidv4();
+  const officerId = uuidv4();
+  const memberId = uuidv4();
+  const organizationId = uuidv4();
+  const now = new Date('2025-07-01T12:00:00Z');
+
+  const buildWatchlist = (overrides: Partial<Watchlist> = {}): Watchlist => ({
+    id: uuidv4(),
+    name: 'Suspects',
+    description: null,
+    owner_id: ownerId,
+    organization_id: null,
+    is_default: false,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  });
+
+  const buildEntry = (
+    overrides: Partial<WatchlistEntry> = {}
+  ): WatchlistEntry => ({
+    id: uuidv4(),
+    watchlist_id: uuidv4(),
+    entry_type: 'player',
+    player_id: uuidv4(),
+    org_spectrum_id: null,
+    org_name: null,
+    note: null,
+    added_by: ownerId,
+    created_at: now,
+    ...overrides,
+  });
+
+  const player: ScPlayer = {
+    id: uuidv4(),
+    spectrum_id: '12345',
+    current_handle: 'Suspect',
+    first_observed_at: now,
+    last_observed_at: now,
+    sync_failure_count: 0,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+  };
+
+  // The organization's owner, an officer with manage_watchlists and a plain member
+  const grantManageWatchlists = () =>
+    mockRoleModel.userHasPermission.mockImplementation(
+      async (_organizationId, userId, permission) =>
+        userId === officerId &&
+        permission === ORGANIZATION_PERMISSIONS.MANAGE_WATCHLISTS
+    );
+
+  beforeAll(() => {
+    mockWatchlistModel = {
+      findById: jest.fn(),
+      listForUser: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      findDefaultList: jest.fn(),
+      getEntries: jest.fn(),
+      findEntry: jest.fn(),
+      findPlayerEntry: jest.fn(),
+      findOrganizationEntry: jest.fn(),
+      addEntry: jest.fn(),
+      removeEntry: jest.fn(),
+      touch: jest.fn(),
+      findListsWatchingPlayer: jest.fn(),
+      findListsWatchingOrganizations: jest.fn(),
+      getOrganizationMemberIds: jest.fn(),
+    } as any;
+
+    mockScPlayerModel = {
+      findBySpectrumId: jest.fn(),
+    } as any;
+
+    mockOrganizationModel = {
+      findById: jest.fn(),
+    } as any;
+
+    mockRoleModel = {
+      userHasPermission: jest.fn(),
+    } as any;
+
+    mockNotificationService = {
+      createNotification: jest.fn(),
+    } as any;
+
+    (
+      WatchlistModel as jest.MockedClass<typeof WatchlistModel>
+    ).mockImplementation(() => mockWatchlistModel);
+    (
+      ScPlayerModel as jest.MockedClass<typeof ScPlayerModel>
+    ).mockImplementation(() => mockScPlayerModel);
+    (
+      OrganizationModel as jest.MockedClass<typeof OrganizationModel>
+    ).mockImplementation(() => mockOrganizationModel);
+    (RoleModel as jest.MockedClass<typeof RoleModel>).mockImplementation(
+      () => mockRoleModel
+    );
+    (
+      NotificationService as jest.MockedClass<typeof NotificationService>
+    ).mockImplementation(() => mockNotificationService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrganizationModel.findById.mockResolvedValue({
+      id: organizationId,
+      name: 'Security Corp',
+      owner_id: ownerId,
+    } as any);
+    mockWatchlistModel.getOrganizationMemberIds.mockResolvedValue([
+      ownerId,
+      officerId,
+      memberId,
+    ]);
+    mockRoleModel.userHasPermission.mockResolvedValue(false);
+    mockWatchlistModel.findPlayerEntry.mockResolvedValue(null);
+    mockWatchlistModel.findOrganizationEntry.mockResolvedValue(null);
+    mockWatchlistModel.addEntry.mockImplementation(async data =>
+      buildEntry({ ...data })
+    );
+    mockWatchlistModel.findListsWatchingPlayer.mockResolvedValue([]);
+    mockWatchlistModel.findListsWatchingOrganizations.mockResolvedValue([]);
+    service = new WatchlistService();
+  });
+
+  describe('access', () => {
+    it('should hide personal lists from everyone but their owner', async () => {
+      mockWatchlistModel.findById.mockResolvedValue(buildWatchlist());
+
+      const result = await service.getWatchlist(uuidv4(), memberId);
+
+      expect(result).toMatchObject({ success: false, code: 'not_found' });
+      expect(mockWatchlistModel.getEntries).not.toHaveBeenCalled();
+    });
+
+    it('should let members view shared lists but only permitted members change them', async () => {
+      const watchlist = buildWatchlist({
+        owner_id: officerId,
+        organization_id: organizationId,
+      });
+      mockWatchlistModel.findById.mockResolvedValue(watchlist);
+      mockWatchlistModel.getEntries.mockResolvedValue([]);
+      grantManageWatchlists();
+
+      const viewed = await service.getWatchlist(watchlist.id, memberId);
+      const removed = await service.deleteWatchlist(watchlist.id, memberId);
+
+      expect(viewed.success && viewed.data.watchlist).toMatchObject({
+        organization_name: 'Security Corp',
+        can_manage: false,
+      });
+      expect(removed).toMatchObject({ success: false, code: 'forbidden' });
+
+      const removedByOfficer = await service.deleteWatchlist(
+        watchlist.id,
+        officerId
+      );
+      expect(removedByOfficer.success).toBe(true);
+      expect(mockWatchlistModel.delete).toHaveBeenCalledWith(watchlist.id);
+    });
+
+    it('should require manage_watchlists to share a list with an organization', async () => {
+      const result = await service.createWatchlist(memberId, {
+        name: 'Org list',
+        organization_id: organizationId,
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'forbidden' });
+      expect(mockWatchlistModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addEntry', () => {
+    let watchlist: Watchlist;
+
+    beforeEach(() => {
+      watchlist = buildWatchlist();
+      mockWatchlistModel.findById.mockResolvedValue(watchlist);
+    });
+
+    it('should add tracked players by Spectrum ID', async () => {
+      mockScPlayerModel.findBySpectrumId.mockResolvedValue(player);
+
+      const result = await service.addEntry(watchlist.id, ownerId, {
+        entry_type: 'player',
+        spectrum_id: '12345',
+        note: '  Seen scouting our base  ',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockWatchlistModel.addEntry).toHaveBeenCalledWith({
+        watchlist_id: watchlist.id,
+        entry_type: 'player',
+        player_id: player.id,
+        note: 'Seen scouting our base',
+        added_by: ownerId,
+      });
+    });
+
+    it('should normalize organization SIDs and reject duplicates', async () => {
+      mockWatchlistModel.findOrganizationEntry.mockResolvedValue(
+        buildEntry({ entry_type: 'organization', org_spectrum_id: 'PIRATE' })
+      );
+
+      const result = await service.addEntry(watchlist.id, ownerId, {
+        entry_type: 'organization',
+        org_spectrum_id: ' pirate ',
+      });
+
+      expect(mockWatchlistModel.findOrganizationEntry).toHaveBeenCalledWith(
+        watchlist.id,
+        'PIRATE'
+      );
+      expect(result).toMatchObject({ success: false, code: 'conflict' });
+    });
+
+    it('should not add players that are not tracked yet', async () => {
+      mockScPlayerModel.findBySpectrumId.mockResolvedValue(null);
+
+      const result = await service.addEntry(watchlist.id, ownerId, {
+        entry_type: 'player',
+        spectrum_id: '99999',
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'not_found' });
+      expect(mockWatchlistModel.addEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watchPlayer', () => {
+    it('should create the default personal list on first use', async () => {
+      const created = buildWatchlist({ is_default: true });
+      mockWatchlistModel.findDefaultList.mockResolvedValue(null);
+      mockWatchlistModel.create.mockResolvedValue(created);
+
+      await service.watchPlayer(ownerId, player.id);
+
+      expect(mockWatchlistModel.create).toHaveBeenCalledWith({
+        name: 'My Watchlist',
+        owner_id: ownerId,
+        is_default: true,
+      });
+      expect(mockWatchlistModel.addEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          watchlist_id: created.id,
+          player_id: player.id,
+        })
+      );
+    });
+  });
+
+  describe('notifyPlayerEvent', () => {
+    it('should alert personal owners and permitted members of sharing organizations', async () => {
+      const personalOwnerId = uuidv4();
+      mockWatchlistModel.findListsWatchingPlayer.mockResolvedValue([
+        buildWatchlist({ owner_id: personalOwnerId }),
+        buildWatchlist({
+          owner_id: officerId,
+          organization_id: organizationId,
+        }),
+      ]);
+      grantManageWatchlists();
+
+      const notified = await service.notifyPlayerEvent(player, {
+        type: 'report',
+        actor_id: uuidv4(),
+        summary: 'Griefing at Port Olisar',
+        item_id: uuidv4(),
+      });
+
+      expect(notified).toBe(3);
+      const recipients =
+        mockNotificationService.createNotification.mock.calls.map(
+          ([notification]) => notification.user_id
+        );
+      expect(recipients).toEqual([personalOwnerId, ownerId, officerId]);
+      expect(mockNotificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entity_type:
+            NotificationEntityType.REPUTATION_WATCHED_PLAYER_REPORTED,
+          entity_id: player.id,
+          message: 'Suspect was reported: Griefing at Port Olisar',
+        })
+      );
+    });
+
+    it('should not alert whoever made the change', async () => {
+      mockWatchlistModel.findListsWatchingPlayer.mockResolvedValue([
+        buildWatchlist(),
+      ]);
+
+      const notified = await service.notifyPlayerEvent(player, {
+        type: 'tag',
+        actor_id: ownerId,
+        summary: 'Pirate',
+        item_id: uuidv4(),
+      });
+
+      expect(notified).toBe(0);
+      expect(mockNotificationService.createNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote values containing commas and quotes', () => {
+      const entries: WatchlistEntryWithPlayer[] = [
+        {
+          ...buildEntry({ note: 'Flew "escort", then attacked' }),
+          player_spectrum_id: '12345',
+          player_handle: 'Suspect',
+          player_display_name: 'Suspect',
+        },
+      ];
+
+      expect(service.toCsv(entries).split('\n')).toEqual([
+        'type,spectrum_id,handle,org_spectrum_id,org_name,note,added_at',
+        'player,12345,Suspect,,,"Flew ""escort"", then attacked",2025-07-01T12:00:00.000Z',
+      ]);
+    });
+  });
+});
@@ -14,6 +14,13 @@ export interface RSIOrgPageData {
   language?: string;
 }
 
+export interface RSICitizenOrganization {
+  name: string;
+  sid: string;
+  rank?: string;
+  is_main: boolean;
+}
+
 export class RSIClient {
   private baseUrl: string;
   private turndownService: TurndownService;
@@ -420,6 +427,65 @@ export class RSIClient {
     }
   }
 
+  /**
+   * Scrape the organizations a citizen lists on their RSI profile. Redacted and hidden
+   * memberships are left out. Rate limit errors are rethrown so callers can back off;
+   * anything else returns null.
+   */
+  async getCitizenOrganizations(
+    handle: string
+  ): Promise<RSICitizenOrganization[] | null> {
+    const url = `${this.baseUrl}/citizens/${encodeURIComponent(handle)}/organizations`;
+
+    try {
+      const response = await axios.get(url, {
+        timeout: 10000,
+        headers: {
+          'User-Agent': 'SC-Orgs/1.0 (Star Citizen Organization Platform)',
+          Accept:
+            'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'en-US,en;q=0.5',
+        },
+      });
+
+      const $ = cheerio.load(response.data);
+      const organizations: RSICitizenOrganization[] = [];
+
+      $('.orgs-content .org').each((_, element) => {
+        const $org = $(element);
+        if ($org.hasClass('visibility-R') || $org.hasClass('visibility-H')) {
+          return;
+        }
+
+        const name = $org.find('.info a.value').first().text().trim();
+        let sid = '';
+        let rank: string | undefined;
+        $org.find('.info .entry').each((_, entry) => {
+          const label = $(entry).find('.label').text().trim();
+          const value = $(entry).find('.value').text().trim();
+          if (/SID/i.test(label)) sid = value;
+          else if (/rank/i.test(label)) rank = value || undefined;
+        });
+
+        if (name && sid) {
+          organizations.push({ name, sid, rank, is_main: $org.hasClass('main') });
+        }
+      });
+
+      return organizations;
+    } catch (error: any) {
+      if (error?.response?.status === 429) {
+        throw error;
+      }
+      logger.error('Failed to scrape RSI citizen organizations', {
+        handle,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        url,
+      });
+      return null;
+    }
+  }
+
   /**
    * Get organization data for registration (after verification)
    */
@@ -41,7 +41,9 @@ export class SpectrumAPIError extends Error {
   constructor(
     message: string,
     public code?: string,
-    public statusCode?: number
+    public statusCode?: number,
+    // Seconds the API asked us to wait, on rate limit responses
+    public retryAfter?: number
   ) {
     super(message);
     this.name = 'SpectrumAPIError';
@@ -158,10 +160,12 @@ export class SpectrumAPIClient {
       });
 
       if (!response.ok) {
+        const retryAfter = response.headers.get('retry-after');
         throw new SpectrumAPIError(
           `HTTP ${response.status}: ${response.statusText}`,
           undefined,
-          response.status
+          response.status,
+          retryAfter ? parseFloat(retryAfter) : undefined
         );
       }
 
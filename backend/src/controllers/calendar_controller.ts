@@ -0,0 +1,300 @@
+import { Request, Response } from 'express';
+import { CalendarFeedModel } from '../models/calendar_feed_model';
+import { EventModel } from '../models/event_model';
+import { OrganizationModel } from '../models/organization_model';
+import { UserModel } from '../models/user_model';
+import { PermissionHelper } from '../middleware/permissions';
+import { CalendarFeedToken, CalendarFeedUrls } from '../types/calendar';
+import { buildICalendar, ICalendarEvent } from '../utils/ical';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+
+// Feeds include events that ended up to this many days ago
+const FEED_LOOKBACK_DAYS = 90;
+
+export class CalendarController {
+  private calendarFeedModel: CalendarFeedModel;
+  private eventModel: EventModel;
+  private organizationModel: OrganizationModel;
+  private userModel: UserModel;
+
+  constructor() {
+    this.calendarFeedModel = new CalendarFeedModel();
+    this.eventModel = new EventModel();
+    this.organizationModel = new OrganizationModel();
+    this.userModel = new UserModel();
+  }
+
+  /**
+   * Get the current user's feed token and subscription URLs
+   * GET /api/calendar/token
+   */
+  async getFeedToken(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserFromRequest(req)?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'User not found in request',
+        });
+        return;
+      }
+
+      const feedToken = await this.calendarFeedModel.findByUserId(userId);
+
+      res.json({
+        success: true,
+        data: feedToken ? await this.serializeFeedToken(req, feedToken) : null,
+      });
+    } catch (error) {
+      logger.error('Failed to get calendar feed token:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get calendar feed token',
+      });
+    }
+  }
+
+  /**
+   * Create or replace the current user's feed token, invalidating existing subscriptions
+   * POST /api/calendar/token/rotate
+   */
+  async rotateFeedToken(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserFromRequest(req)?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'User not found in request',
+        });
+        return;
+      }
+
+      const feedToken = await this.calendarFeedModel.rotate(userId);
+      logger.info(`Rotated calendar feed token for user ${userId}`);
+
+      res.json({
+        success: true,
+        data: await this.serializeFeedToken(req, feedToken),
+        message: 'Calendar feed token rotated successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to rotate calendar feed token:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to rotate calendar feed token',
+      });
+    }
+  }
+
+  /**
+   * Revoke the current user's feed token
+   * DELETE /api/calendar/token
+   */
+  async revokeFeedToken(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserFromRequest(req)?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'User not found in request',
+        });
+        return;
+      }
+
+      const revoked = await this.calendarFeedModel.revoke(userId);
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          error: 'No calendar feed token to revoke',
+        });
+        return;
+      }
+
+      logger.info(`Revoked calendar feed token for user ${userId}`);
+
+      res.json({
+        success: true,
+        message: 'Calendar feed token revoked successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to revoke calendar feed token:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke calendar feed token',
+      });
+    }
+  }
+
+  /**
+   * Organization event feed. Public events for everyone; private events as
+   * well when the token belongs to an organization member.
+   * GET /api/calendar/organizations/:spectrumId.ics
+   */
+  async getOrganizationFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const { spectrumId } = req.params;
+
+      const organization =
+        await this.organizationModel.findByRsiOrgId(spectrumId);
+      if (!organization) {
+        res.status(404).json({
+          success: false,
+          error: 'Organization not found',
+        });
+        return;
+      }
+
+      let includePrivate = false;
+      let feedUserId: string | null = null;
+      const token = req.query.token as string | undefined;
+      if (token) {
+        const feedToken = await this.calendarFeedModel.findByToken(token);
+        if (!feedToken) {
+          res.status(401).json({
+            success: false,
+            error: 'Invalid calendar feed token',
+          });
+          return;
+        }
+
+        feedUserId = feedToken.user_id;
+        includePrivate = await this.organizationModel.isUserMember(
+          organization.id,
+          feedToken.user_id
+        );
+        await this.calendarFeedModel.touch(feedToken.id);
+      }
+
+      // Per-event overrides can hide private events from individual members
+      const events = await PermissionHelper.filterViewableEvents(
+        await this.eventModel.getOrganizationCalendarEvents(organization.id, {
+          includePrivate,
+          since: this.getFeedStart(),
+        }),
+        feedUserId
+      );
+
+      this.sendCalendar(res, events, {
+        name: `${organization.name} Events`,
+        description: `Events hosted by ${organization.name}`,
+        filename: `${spectrumId.toLowerCase()}-events.ics`,
+        isPrivate: !!token,
+      });
+    } catch (error) {
+      logger.error('Failed to build organization calendar feed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to build calendar feed',
+      });
+    }
+  }
+
+  /**
+   * Personal feed of the events the token holder registered for
+   * GET /api/calendar/registrations.ics
+   */
+  async getRegistrationsFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const token = req.query.token as string | undefined;
+      const feedToken = token
+        ? await this.calendarFeedModel.findByToken(token)
+        : null;
+      if (!feedToken) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid calendar feed token',
+        });
+        return;
+      }
+
+      await this.calendarFeedModel.touch(feedToken.id);
+
+      // Registrations outlive access, so drop events the user can no longer see
+      const events = await PermissionHelper.filterViewableEvents(
+        await this.eventModel.getUserCalendarEvents(
+          feedToken.user_id,
+          this.getFeedStart()
+        ),
+        feedToken.user_id
+      );
+
+      this.sendCalendar(res, events, {
+        name: 'My SC-Orgs Events',
+        description: 'Events you registered for on SC-Orgs',
+        filename: 'my-events.ics',
+        isPrivate: true,
+      });
+    } catch (error) {
+      logger.error('Failed to build registrations calendar feed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to build calendar feed',
+      });
+    }
+  }
+
+  private getFeedStart(): Date {
+    return new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private sendCalendar(
+    res: Response,
+    events: ICalendarEvent[],
+    options: {
+      name: string;
+      description: string;
+      filename: string;
+      isPrivate: boolean;
+    }
+  ): void {
+    const calendar = buildICalendar(events, {
+      name: options.name,
+      description: options.description,
+      eventUrlBase: process.env.FRONTEND_URL || 'http://localhost:3000',
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="${options.filename}"`
+    );
+    res.setHeader(
+      'Cache-Control',
+      `${options.isPrivate ? 'private' : 'public'}, max-age=300`
+    );
+    res.send(calendar);
+  }
+
+  private async serializeFeedToken(
+    req: Request,
+    feedToken: CalendarFeedToken
+  ): Promise<{
+    token: string;
+    created_at: Date;
+    updated_at: Date;
+    last_used_at?: Date | null;
+    urls: CalendarFeedUrls;
+  }> {
+    const baseUrl = `${process.env.API_URL || `${req.protocol}://${req.get('host')}`}/api/calendar`;
+    const query = `token=${feedToken.token}`;
+    const organizations = await this.userModel.getUserOrganizations(
+      feedToken.user_id
+    );
+
+    return {
+      token: feedToken.token,
+      created_at: feedToken.created_at,
+      updated_at: feedToken.updated_at,
+      last_used_at: feedToken.last_used_at,
+      urls: {
+        registrations: `${baseUrl}/registrations.ics?${query}`,
+        organizations: organizations.map(organization => ({
+          rsi_org_id: organization.rsi_org_id,
+          name: organization.name,
+          url: `${baseUrl}/organizations/${organization.rsi_org_id}.ics?${query}`,
+        })),
+      },
+    };
+  }
+}
@@ -2,8 +2,11 @@ import { Request, Response } from 'express';
 import { DiscordService } from '../services/discord_service';
 import { EventSyncService } from '../services/event_sync_service';
 import { DiscordCommandService } from '../services/discord_command_service';
+import { DiscordRoleSyncService } from '../services/discord_role_sync_service';
 import { DiscordServerModel } from '../models/discord_server_model';
 import { DiscordEventModel } from '../models/discord_event_model';
+import { DiscordRoleMappingModel } from '../models/discord_role_mapping_model';
+import { RoleModel } from '../models/role_model';
 import { OrganizationModel } from '../models/organization_model';
 import { EventModel } from '../models/event_model';
 import {
@@ -21,8 +24,11 @@ export class DiscordController {
   private discordService: DiscordService;
   private eventSyncService: EventSyncService;
   private discordCommandService: DiscordCommandService;
+  private discordRoleSyncService: DiscordRoleSyncService;
   private discordServerModel: DiscordServerModel;
   private discordEventModel: DiscordEventModel;
+  private discordRoleMappingModel: DiscordRoleMappingModel;
+  private roleModel: RoleModel;
   private organizationModel: OrganizationModel;
   private eventModel: EventModel;
 
@@ -30,8 +36,11 @@ export class DiscordController {
     this.discordService = new DiscordService();
     this.eventSyncService = new EventSyncService();
     this.discordCommandService = new DiscordCommandService();
+    this.discordRoleSyncService = new DiscordRoleSyncService();
     this.discordServerModel = new DiscordServerModel();
     this.discordEventModel = new DiscordEventModel();
+    this.discordRoleMappingModel = new DiscordRoleMappingModel();
+    this.roleModel = new RoleModel();
     this.organizationModel = new OrganizationModel();
     this.eventModel = new EventModel();
   }
@@ -482,6 +491,221 @@ export class DiscordController {
     }
   }
 
+  // Discord Role Synchronization
+
+  async getRoleMappings(req: Request, res: Response): Promise<void> {
+    try {
+      const discordServer = await this.getResolvedDiscordServer(req, res);
+      if (!discordServer) return;
+
+      const mappings = await this.discordRoleMappingModel.findByServerId(discordServer.id);
+
+      // Guild roles are listed so admins can pick a mapping target; @everyone and
+      // integration-managed roles can't be assigned by the bot
+      let discordRoles: Array<{ id: string; name: string; position: number }> = [];
+      try {
+        const guildRoles = await this.discordService.getGuildRoles(discordServer.discord_guild_id);
+        discordRoles = guildRoles
+          .filter(role => role.id !== discordServer.discord_guild_id && !role.managed)
+          .sort((a, b) => b.position - a.position)
+          .map(role => ({ id: role.id, name: role.name, position: role.position }));
+      } catch (discordError) {
+        logger.warn(`Unable to load roles for guild ${discordServer.discord_guild_id}`);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          mappings,
+          discord_roles: discordRoles,
+          auto_fix: discordServer.role_sync_auto_fix,
+          last_checked_at: discordServer.role_sync_checked_at || null,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to get Discord role mappings:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get Discord role mappings',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async setRoleMapping(req: Request, res: Response): Promise<void> {
+    try {
+      const { roleId } = req.params;
+      const { discord_role_id } = req.body;
+
+      if (!discord_role_id || typeof discord_role_id !== 'string') {
+        res.status(400).json({
+          success: false,
+          message: 'discord_role_id is required',
+        });
+        return;
+      }
+
+      const discordServer = await this.getResolvedDiscordServer(req, res);
+      if (!discordServer) return;
+
+      const role = await this.roleModel.findById(roleId);
+      if (!role || role.organization_id !== discordServer.organization_id) {
+        res.status(404).json({
+          success: false,
+          message: 'Role not found in this organization',
+        });
+        return;
+      }
+
+      const guildRoles = await this.discordService.getGuildRoles(discordServer.discord_guild_id);
+      const discordRole = guildRoles.find(guildRole => guildRole.id === discord_role_id);
+      if (!discordRole || discordRole.id === discordServer.discord_guild_id || discordRole.managed) {
+        res.status(400).json({
+          success: false,
+          message: 'Discord role not found or cannot be assigned by the bot',
+        });
+        return;
+      }
+
+      const mapping = await this.discordRoleMappingModel.upsert(discordServer.id, role.id, discordRole.id);
+
+      res.json({
+        success: true,
+        data: mapping,
+      });
+    } catch (error) {
+      logger.error('Failed to set Discord role mapping:', error);
+      if (error instanceof Error && error.message.includes('duplicate key')) {
+        res.status(409).json({
+          success: false,
+          message: 'This Discord role is already mapped to another organization role',
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: 'Failed to set Discord role mapping',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async deleteRoleMapping(req: Request, res: Response): Promise<void> {
+    try {
+      const { roleId } = req.params;
+
+      const discordServer = await this.getResolvedDiscordServer(req, res);
+      if (!discordServer) return;
+
+      const deleted = await this.discordRoleMappingModel.delete(discordServer.id, roleId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Role mapping not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Role mapping removed',
+      });
+    } catch (error) {
+      logger.error('Failed to delete Discord role mapping:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete Discord role mapping',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async updateRoleSyncSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { auto_fix } = req.body;
+
+      if (typeof auto_fix !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          message: 'auto_fix must be a boolean',
+        });
+        return;
+      }
+
+      const discordServer = await this.getResolvedDiscordServer(req, res);
+      if (!discordServer) return;
+
+      await this.discordServerModel.update(discordServer.id, { role_sync_auto_fix: auto_fix });
+
+      res.json({
+        success: true,
+        data: { auto_fix },
+      });
+    } catch (error) {
+      logger.error('Failed to update Discord role sync settings:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update Discord role sync settings',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Report role drift for the organization's server; pass fix=true to correct it
+   */
+  async reconcileRoles(req: Request, res: Response): Promise<void> {
+    try {
+      const fix = req.body?.fix === true;
+
+      const discordServer = await this.getResolvedDiscordServer(req, res);
+      if (!discordServer) return;
+
+      const report = await this.discordRoleSyncService.reconcileServer(discordServer, fix);
+      if (!report) {
+        res.status(400).json({
+          success: false,
+          message: 'No Discord role mappings configured',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      logger.error('Failed to reconcile Discord roles:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to reconcile Discord roles',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async getResolvedDiscordServer(req: Request, res: Response): Promise<DiscordServer | null> {
+    const organization = (req as any).org;
+    if (!organization) {
+      res.status(400).json({
+        success: false,
+        message: 'Organization not resolved',
+      });
+      return null;
+    }
+
+    const discordServer = await this.discordServerModel.findByOrganizationId(organization.id);
+    if (!discordServer) {
+      res.status(404).json({
+        success: false,
+        message: 'Discord server not found for this organization',
+      });
+      return null;
+    }
+
+    return discordServer;
+  }
+
   async getSyncStats(req: Request, res: Response): Promise<void> {
     try {
       const stats = await this.eventSyncService.getSyncStats();
@@ -589,6 +813,20 @@ export class DiscordController {
         return;
       }
 
+      // Handle autocomplete interactions (type: 4) - option suggestions for slash commands
+      if (type === InteractionType.ApplicationCommandAutocomplete) {
+        await this.discordCommandService.handleAutocomplete(webhookPayload);
+        res.status(204).end();
+        return;
+      }
+
+      // Handle modal submissions (type: 5) - forms opened by slash commands
+      if (type === InteractionType.ModalSubmit) {
+        await this.discordCommandService.handleModalSubmit(webhookPayload);
+        res.status(204).end();
+        return;
+      }
+
       res.status(400).json({
         success: false,
         message: 'Unknown webhook type',
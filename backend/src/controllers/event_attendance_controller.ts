@@ -0,0 +1,296 @@
+import { Request, Response } from 'express';
+import { EventAttendanceService } from '../services/event_attendance_service';
+import { PermissionHelper } from '../middleware/permissions';
+import { Event, EventAttendanceStatus } from '../types/event';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+
+const ATTENDANCE_STATUSES: EventAttendanceStatus[] = ['attended', 'no_show'];
+
+export class EventAttendanceController {
+  private attendanceService: EventAttendanceService;
+
+  constructor() {
+    this.attendanceService = new EventAttendanceService();
+  }
+
+  /**
+   * Attendance roster with summary counts and the active check-in code
+   * GET /api/events/:id/attendance
+   */
+  async getRoster(req: Request, res: Response): Promise<void> {
+    try {
+      // Event is resolved and permissions checked by middleware
+      const event: Event = req.event;
+
+      const [{ roster, summary }, checkInCode] = await Promise.all([
+        this.attendanceService.getRoster(event.id),
+        this.attendanceService.getActiveCheckInCode(event.id),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          roster,
+          summary,
+          check_in_code: checkInCode
+            ? { code: checkInCode.code, expires_at: checkInCode.expires_at }
+            : null,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to get attendance roster:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get attendance roster',
+      });
+    }
+  }
+
+  /**
+   * Bulk mark registrations as attended or no-show
+   * PUT /api/events/:id/attendance
+   */
+  async markAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      const event: Event = req.event;
+      const userId = getUserFromRequest(req)!.id;
+      const { user_ids, status } = req.body as {
+        user_ids?: string[];
+        status?: EventAttendanceStatus;
+      };
+
+      if (!Array.isArray(user_ids) || user_ids.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'user_ids must be a non-empty array',
+        });
+        return;
+      }
+
+      if (!status || !ATTENDANCE_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      if (new Date(event.start_time) > new Date()) {
+        res.status(400).json({
+          success: false,
+          error: 'Attendance can only be recorded once the event has started',
+        });
+        return;
+      }
+
+      const updated = await this.attendanceService.markAttendance(
+        event.id,
+        user_ids,
+        status,
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: updated,
+        message: `Marked ${updated.length} participant(s) as ${status === 'attended' ? 'attended' : 'no-show'}`,
+      });
+    } catch (error) {
+      logger.error('Failed to mark attendance:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to mark attendance',
+      });
+    }
+  }
+
+  /**
+   * Issue a new short-lived check-in code, replacing any existing one
+   * POST /api/events/:id/check-in-code
+   */
+  async openCheckIn(req: Request, res: Response): Promise<void> {
+    try {
+      const event: Event = req.event;
+      const userId = getUserFromRequest(req)!.id;
+      const { expires_in_minutes } = req.body as {
+        expires_in_minutes?: number;
+      };
+
+      if (!event.is_active || new Date(event.end_time) <= new Date()) {
+        res.status(400).json({
+          success: false,
+          error: 'Check-in cannot be opened for an event that has ended',
+        });
+        return;
+      }
+
+      if (
+        expires_in_minutes !== undefined &&
+        (!Number.isInteger(expires_in_minutes) || expires_in_minutes < 1)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'expires_in_minutes must be a positive integer',
+        });
+        return;
+      }
+
+      const checkInCode = await this.attendanceService.openCheckIn(
+        event,
+        userId,
+        expires_in_minutes
+      );
+
+      res.json({
+        success: true,
+        data: { code: checkInCode.code, expires_at: checkInCode.expires_at },
+        message: 'Check-in opened successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to open event check-in:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to open check-in',
+      });
+    }
+  }
+
+  /**
+   * Invalidate the event's check-in code
+   * DELETE /api/events/:id/check-in-code
+   */
+  async closeCheckIn(req: Request, res: Response): Promise<void> {
+    try {
+      const event: Event = req.event;
+
+      const closed = await this.attendanceService.closeCheckIn(event.id);
+      if (!closed) {
+        res.status(404).json({
+          success: false,
+          error: 'Check-in is not open for this event',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Check-in closed successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to close event check-in:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to close check-in',
+      });
+    }
+  }
+
+  /**
+   * Check the current user in with a code
+   * POST /api/events/:id/check-in
+   */
+  async checkIn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = getUserFromRequest(req)?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'User not found in request',
+        });
+        return;
+      }
+
+      const { code } = req.body as { code?: string };
+      if (!code || typeof code !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Check-in code is required',
+        });
+        return;
+      }
+
+      const result = await this.attendanceService.checkInWithCode(
+        id,
+        userId,
+        code
+      );
+      if (!result.checkedIn) {
+        res.status(400).json({
+          success: false,
+          error: result.reason || 'Check-in failed',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.registration,
+        message: 'Checked in successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to check in to event:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check in',
+      });
+    }
+  }
+
+  /**
+   * Attendance history and no-show rate for a member of an organization.
+   * Members can see their own history; others need member management rights.
+   * GET /api/organizations/:rsi_org_id/members/:userId/attendance
+   */
+  async getMemberAttendance(req: Request, res: Response): Promise<void> {
+    try {
+      // Organization is already resolved by middleware
+      const organizationId = req.org!.id;
+      const { userId } = req.params;
+      const requesterId = getUserFromRequest(req)?.id;
+      if (!requesterId) {
+        res.status(401).json({
+          success: false,
+          error: 'User not found in request',
+        });
+        return;
+      }
+
+      if (
+        requesterId !== userId &&
+        !(await PermissionHelper.hasOrganizationPermission(
+          organizationId,
+          requesterId,
+          'MANAGE_MEMBERS'
+        ))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions to view member attendance',
+        });
+        return;
+      }
+
+      const { since } = req.query;
+      const history = await this.attendanceService.getUserAttendanceHistory(
+        userId,
+        {
+          organizationId,
+          since: since ? new Date(since as string) : undefined,
+        }
+      );
+
+      res.json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      logger.error('Failed to get member attendance history:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get attendance history',
+      });
+    }
+  }
+}
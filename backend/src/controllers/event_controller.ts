@@ -2,13 +2,22 @@ import { Request, Response } from 'express';
 import { EventModel } from '../models/event_model';
 import { OrganizationModel } from '../models/organization_model';
 import { RoleModel } from '../models/role_model';
-import { Event, CreateEventData, UpdateEventData } from '../types/event';
+import {
+  Event,
+  CreateEventData,
+  UpdateEventData,
+  EventSeriesEditScope,
+} from '../types/event';
 import { User } from '../types/user';
 import logger from '../config/logger';
 import { EventReminderService } from '../services/event_reminder_service';
 import { NotificationService } from '../services/notification_service';
 import { EventSyncService } from '../services/event_sync_service';
+import { EventSeriesService } from '../services/event_series_service';
+import { EventWaitlistService } from '../services/event_waitlist_service';
+import { EventSlotService } from '../services/event_slot_service';
 import { NotificationEntityType } from '../types/notification';
+import { PermissionHelper } from '../middleware/permissions';
 import db from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 // Removed response transformers - frontend handles rsi_org_id properly
@@ -19,9 +28,15 @@ import {
   validateActivityTags,
   getTagValidationErrorMessage,
 } from '../utils/tagValidation';
+import { validateRecurrenceRule } from '../utils/recurrence';
+
+const SERIES_EDIT_SCOPES: EventSeriesEditScope[] = ['this', 'following', 'all'];
+
 const eventModel = new EventModel();
 const organizationModel = new OrganizationModel();
 const roleModel = new RoleModel();
+const eventWaitlistService = new EventWaitlistService();
+const eventSlotService = new EventSlotService();
 
 export class EventController {
   // Helper methods for event parsing (copied from EventModel)
@@ -121,15 +136,18 @@ export class EventController {
 
         // Get private events for the authenticated user
         const user = requireUserFromRequest(req);
+        const deniedEventIds = await PermissionHelper.getDeniedEventIds(user.id);
         const events = await eventModel.getPrivateEventsForUser(user.id, {
           limit: parsedLimit,
           offset: calculatedOffset,
+          exclude_event_ids: deniedEventIds,
         });
 
         // Get total count for pagination
         const totalResult = await eventModel.getPrivateEventsForUser(user.id, {
           limit: 10000, // Large limit to get all events for counting
           offset: 0,
+          exclude_event_ids: deniedEventIds,
         });
 
         res.json({
@@ -147,6 +165,7 @@ export class EventController {
         return;
       }
 
+      const userId = getUserFromRequest(req)?.id;
       const filters = {
         organization_id: organization_id as string,
         is_upcoming:
@@ -171,7 +190,10 @@ export class EventController {
         sort_order: sort_order as 'asc' | 'desc',
         // Include private events if user is authenticated
         include_private: !!req.user,
-        user_id: getUserFromRequest(req)?.id,
+        user_id: userId,
+        exclude_event_ids: userId
+          ? await PermissionHelper.getDeniedEventIds(userId)
+          : undefined,
       };
 
       const result = await eventModel.list(filters);
@@ -226,6 +248,7 @@ export class EventController {
         ? parseInt(offset as string)
         : (parsedPage - 1) * parsedLimit;
 
+      const userId = getUserFromRequest(req)?.id;
       const filters = {
         organization_id: organization_id as string,
         is_upcoming:
@@ -243,8 +266,11 @@ export class EventController {
         limit: parsedLimit,
         offset: calculatedOffset,
         // Include private events if user is authenticated
-        include_private: !!getUserFromRequest(req),
-        user_id: getUserFromRequest(req)?.id,
+        include_private: !!userId,
+        user_id: userId,
+        exclude_event_ids: userId
+          ? await PermissionHelper.getDeniedEventIds(userId)
+          : undefined,
       };
 
       const result = await eventModel.search(q as string, filters);
@@ -315,29 +341,12 @@ export class EventController {
           return;
         }
 
-        // Check if user is the event creator
-        if (event.created_by === userId) {
-          // Event creator can always view their own events
-        } else if (event.organization_id) {
-          // For organization events, check if user is a member
-          const isMember = await organizationModel.isUserMember(
-            event.organization_id,
-            userId
-          );
-          if (!isMember) {
-            res.status(403).json({
-              success: false,
-              error:
-                'Access denied: Only organization members can view private events',
-            });
-            return;
-          }
-        } else {
-          // Private event without organization - only creator can view
+        // Creators, organization members and per-event overrides decide access
+        const access = await PermissionHelper.canUserViewEvent(rawEvent, userId);
+        if (!access.canView) {
           res.status(403).json({
             success: false,
-            error:
-              'Access denied: Only the event creator can view private events',
+            error: `Access denied: ${access.reason}`,
           });
           return;
         }
@@ -360,6 +369,65 @@ export class EventController {
     }
   }
 
+  // Get a recurring event series with its occurrences
+  async getEventSeries(req: Request, res: Response): Promise<void> {
+    try {
+      const { seriesId } = req.params;
+      const userId = getUserFromRequest(req)?.id;
+
+      const eventSeriesService = new EventSeriesService();
+      const result = await eventSeriesService.getSeriesWithOccurrences(seriesId);
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: 'Event series not found',
+        });
+        return;
+      }
+
+      const { series, occurrences } = result;
+
+      // Private series follow the same visibility rules as private events
+      if (series.template.is_public === false) {
+        if (!userId) {
+          res.status(401).json({
+            success: false,
+            error: 'Authentication required to view private events',
+          });
+          return;
+        }
+
+        if (series.created_by !== userId) {
+          const isMember = series.organization_id
+            ? await organizationModel.isUserMember(series.organization_id, userId)
+            : false;
+          if (!isMember) {
+            res.status(403).json({
+              success: false,
+              error:
+                'Access denied: Only organization members can view private events',
+            });
+            return;
+          }
+        }
+      }
+
+      res.json({
+        success: true,
+        data: {
+          series,
+          occurrences,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to get event series:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get event series',
+      });
+    }
+  }
+
   // Get event registrations
   async getEventRegistrations(req: Request, res: Response): Promise<void> {
     try {
@@ -388,29 +456,12 @@ export class EventController {
           return;
         }
 
-        // Check if user is the event creator
-        if (event.created_by === userId) {
-          // Event creator can always view their own event registrations
-        } else if (event.organization_id) {
-          // For organization events, check if user is a member
-          const isMember = await organizationModel.isUserMember(
-            event.organization_id,
-            userId
-          );
-          if (!isMember) {
-            res.status(403).json({
-              success: false,
-              error:
-                'Access denied: Only organization members can view private event registrations',
-            });
-            return;
-          }
-        } else {
-          // Private event without organization - only creator can view
+        // Registrations are visible to whoever can view the private event
+        const access = await PermissionHelper.canUserViewEvent(event, userId);
+        if (!access.canView) {
           res.status(403).json({
             success: false,
-            error:
-              'Access denied: Only the event creator can view private event registrations',
+            error: `Access denied: ${access.reason}`,
           });
           return;
         }
@@ -435,6 +486,52 @@ export class EventController {
     }
   }
 
+  // Get the slot roster for an event (positions, requirements and who claimed them)
+  async getEventSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = getUserFromRequest(req)?.id;
+
+      const event = await eventModel.findById(id);
+      if (!event) {
+        res.status(404).json({
+          success: false,
+          error: 'Event not found',
+        });
+        return;
+      }
+
+      // Private event rosters follow the same visibility rules as registrations
+      if (!event.is_public) {
+        const access = userId
+          ? await PermissionHelper.canUserViewEvent(event, userId)
+          : { canView: false };
+        if (!access.canView) {
+          res.status(userId ? 403 : 401).json({
+            success: false,
+            error: userId
+              ? `Access denied: ${access.reason}`
+              : 'Authentication required to view private event slots',
+          });
+          return;
+        }
+      }
+
+      const slots = await eventSlotService.getSlotRoster(id);
+
+      res.json({
+        success: true,
+        data: slots,
+      });
+    } catch (error) {
+      logger.error('Failed to get event slots:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get event slots',
+      });
+    }
+  }
+
   // Create event
   async createEvent(req: Request, res: Response): Promise<void> {
     try {
@@ -485,6 +582,18 @@ export class EventController {
         }
       }
 
+      // Validate recurrence rule for recurring events
+      if (eventData.recurrence) {
+        const recurrenceErrors = validateRecurrenceRule(eventData.recurrence);
+        if (recurrenceErrors.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: recurrenceErrors.join('; '),
+          });
+          return;
+        }
+      }
+
       // Verify user has permission to create events for this organization
       if (eventData.organization_id) {
         let organization;
@@ -522,6 +631,47 @@ export class EventController {
         eventData.organization_id = organization.id;
       }
 
+      if (eventData.slots !== undefined) {
+        const slotErrors = await eventSlotService.validateSlots(eventData.slots, {
+          organizationId: eventData.organization_id,
+          maxParticipants: eventData.max_participants,
+        });
+        if (slotErrors.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: slotErrors.join('; '),
+          });
+          return;
+        }
+      }
+
+      // Recurring events are created as a series; reminders and Discord events
+      // are generated per occurrence by the series service
+      if (eventData.recurrence) {
+        const eventSeriesService = new EventSeriesService();
+        const preview = eventSeriesService.previewOccurrences(
+          eventData.recurrence,
+          new Date(eventData.start_time)
+        );
+        if (preview.length === 0) {
+          res.status(400).json({
+            success: false,
+            error: 'Recurrence rule does not produce any upcoming occurrences',
+          });
+          return;
+        }
+
+        const { series, occurrences } =
+          await eventSeriesService.createSeries(eventData);
+
+        res.status(201).json({
+          success: true,
+          data: occurrences[0],
+          series,
+        });
+        return;
+      }
+
       // Store the organization_id before creating the event (since parseEvent removes it)
       const organizationIdForTransform = eventData.organization_id;
       const event = await eventModel.create(eventData);
@@ -656,7 +806,37 @@ export class EventController {
         return;
       }
 
-      const updateData: UpdateEventData = req.body;
+      const { scope, recurrence, ...updateData } = req.body as UpdateEventData & {
+        scope?: EventSeriesEditScope;
+        recurrence?: CreateEventData['recurrence'];
+      };
+
+      if (scope && !SERIES_EDIT_SCOPES.includes(scope)) {
+        res.status(400).json({
+          success: false,
+          error: `Scope must be one of: ${SERIES_EDIT_SCOPES.join(', ')}`,
+        });
+        return;
+      }
+
+      if (recurrence) {
+        if (!event.series_id) {
+          res.status(400).json({
+            success: false,
+            error: 'Recurrence can only be changed on a recurring event',
+          });
+          return;
+        }
+
+        const recurrenceErrors = validateRecurrenceRule(recurrence);
+        if (recurrenceErrors.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: recurrenceErrors.join('; '),
+          });
+          return;
+        }
+      }
 
       // Validate tags
       if (updateData.playstyle_tags && updateData.playstyle_tags.length > 0) {
@@ -681,6 +861,56 @@ export class EventController {
         }
       }
 
+      if (updateData.slots !== undefined) {
+        const slotErrors = await eventSlotService.validateSlots(updateData.slots, {
+          organizationId: event.organization_id,
+          maxParticipants:
+            updateData.max_participants !== undefined
+              ? updateData.max_participants
+              : event.max_participants,
+        });
+        if (slotErrors.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: slotErrors.join('; '),
+          });
+          return;
+        }
+      }
+
+      // Occurrences of a recurring series are updated through the series service
+      if (event.series_id) {
+        const editScope = scope || 'this';
+        if (recurrence && editScope === 'this') {
+          res.status(400).json({
+            success: false,
+            error: 'Recurrence changes require the "following" or "all" scope',
+          });
+          return;
+        }
+
+        const eventSeriesService = new EventSeriesService();
+        const updatedOccurrence = await eventSeriesService.updateOccurrence(
+          event,
+          { ...updateData, recurrence },
+          editScope
+        );
+
+        if (!updatedOccurrence) {
+          res.status(404).json({
+            success: false,
+            error: 'Event occurrence no longer matches the series',
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: updatedOccurrence,
+        });
+        return;
+      }
+
       // Check if start_time is being updated
       const isTimeChanged =
         updateData.start_time &&
@@ -762,6 +992,15 @@ export class EventController {
         // Don't fail the event update if Discord sync fails
       }
 
+      // Raising the event or slot capacity frees seats for waitlisted users
+      if (
+        updateData.slots !== undefined ||
+        (updateData.max_participants !== undefined &&
+          updateData.max_participants !== event.max_participants)
+      ) {
+        await eventWaitlistService.promoteAvailableSeats(id);
+      }
+
       res.json({
         success: true,
         data: updatedEvent,
@@ -826,6 +1065,30 @@ export class EventController {
         return;
       }
 
+      // Occurrences of a recurring series are deleted through the series service
+      if (event.series_id) {
+        const scope = (req.query.scope as EventSeriesEditScope) || 'this';
+        if (!SERIES_EDIT_SCOPES.includes(scope)) {
+          res.status(400).json({
+            success: false,
+            error: `Scope must be one of: ${SERIES_EDIT_SCOPES.join(', ')}`,
+          });
+          return;
+        }
+
+        const eventSeriesService = new EventSeriesService();
+        await eventSeriesService.deleteOccurrence(event, scope);
+
+        res.json({
+          success: true,
+          message:
+            scope === 'this'
+              ? 'Event deleted successfully'
+              : 'Event series occurrences deleted successfully',
+        });
+        return;
+      }
+
       // Cancel Discord event if it exists
       try {
         const eventSyncService = new EventSyncService();
@@ -922,29 +1185,64 @@ export class EventController {
       }
 
       // If event is private, check if user is a member of the organization
+      // or has been granted access to the event
       if (!event.is_public && event.organization_id) {
-        const isMember = await organizationModel.isUserMember(
-          event.organization_id,
+        const access = await PermissionHelper.canUserViewEvent(event, userId);
+        if (!access.canView) {
+          res.status(403).json({
+            success: false,
+            error: `Cannot join private event: ${access.reason}`,
+          });
+          return;
+        }
+      }
+
+      // Claiming a slot requires the slot's verified skills
+      const slotId: string | null = req.body?.slot_id || null;
+      if (slotId) {
+        const eligibility = await eventSlotService.checkSlotEligibility(
+          event,
+          slotId,
           userId
         );
-        if (!isMember) {
-          res.status(403).json({
+        if (!eligibility.canClaim) {
+          res.status(eligibility.missingSkills ? 403 : 400).json({
             success: false,
-            error: 'Only organization members can join private events',
+            error: eligibility.reason,
+            missing_skills: eligibility.missingSkills,
           });
           return;
         }
       }
 
-      // Register user for event
-      const registration = await eventModel.registerUser(id, userId);
+      // Register user for event, joining the waitlist if it (or the slot) is full
+      const registration = await eventModel.registerUserWithCapacity(
+        id,
+        userId,
+        slotId
+      );
+      if (!registration) {
+        const registeredMeanwhile = await eventModel.isUserRegistered(id, userId);
+        res.status(400).json({
+          success: false,
+          error: registeredMeanwhile
+            ? 'Already registered for this event'
+            : 'Event or slot is no longer available',
+        });
+        return;
+      }
 
+      const waitlisted = registration.status === 'waitlisted';
       res.json({
         success: true,
         data: registration,
-        message: 'Registered for event successfully',
+        waitlisted,
+        message: waitlisted
+          ? `${slotId ? 'No seats left for this slot' : 'Event is full'}, added to the waitlist at position ${registration.waitlist_position}`
+          : 'Registered for event successfully',
       });
     } catch (error) {
+      logger.error('Failed to register for event:', error);
       res.status(500).json({
         success: false,
         error: 'Failed to register for event',
@@ -976,8 +1274,11 @@ export class EventController {
       }
 
       // Check if user is registered for the event
-      const isRegistered = await eventModel.isUserRegistered(id, userId);
-      if (!isRegistered) {
+      const existingRegistration = await eventModel.getUserRegistration(
+        id,
+        userId
+      );
+      if (!existingRegistration) {
         res.status(400).json({
           success: false,
           error: 'Not registered for this event',
@@ -995,6 +1296,13 @@ export class EventController {
         return;
       }
 
+      // Hand the freed seat to the waitlist, or close the gap in the queue
+      if (existingRegistration.status === 'waitlisted') {
+        await eventModel.compactWaitlist(id);
+      } else {
+        await eventWaitlistService.promoteAvailableSeats(id);
+      }
+
       res.json({
         success: true,
         message: 'Unregistered from event successfully',
@@ -1007,6 +1315,73 @@ export class EventController {
     }
   }
 
+  // Confirm a seat offered from the waitlist
+  async confirmRegistration(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = getUserFromRequest(req)?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'User not found in request',
+        });
+        return;
+      }
+
+      const registration = await eventModel.confirmPromotedRegistration(
+        id,
+        userId
+      );
+      if (!registration) {
+        res.status(400).json({
+          success: false,
+          error: 'No pending seat confirmation for this event',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: registration,
+        message: 'Seat confirmed successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to confirm event registration:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to confirm registration',
+      });
+    }
+  }
+
+  // Get the current user's registration (including waitlist position)
+  async getMyRegistration(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = getUserFromRequest(req)?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'User not found in request',
+        });
+        return;
+      }
+
+      const registration = await eventModel.getUserRegistration(id, userId);
+
+      res.json({
+        success: true,
+        data: registration,
+      });
+    } catch (error) {
+      logger.error('Failed to get event registration:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get event registration',
+      });
+    }
+  }
+
   // Cancel event
   async cancelEvent(req: Request, res: Response): Promise<void> {
     try {
@@ -1153,13 +1528,17 @@ export class EventController {
     try {
       const { limit = 3 } = req.query;
 
+      const userId = getUserFromRequest(req)?.id;
       const filters = {
         is_upcoming: true,
         is_active: true,
         limit: parseInt(limit as string),
         // Include private events if user is authenticated
-        include_private: !!getUserFromRequest(req),
-        user_id: getUserFromRequest(req)?.id,
+        include_private: !!userId,
+        user_id: userId,
+        exclude_event_ids: userId
+          ? await PermissionHelper.getDeniedEventIds(userId)
+          : undefined,
       };
 
       const result = await eventModel.list(filters);
@@ -1195,6 +1574,7 @@ export class EventController {
       const events = await eventModel.getPrivateEventsForUser(user.id, {
         limit: parseInt(limit as string),
         offset,
+        exclude_event_ids: await PermissionHelper.getDeniedEventIds(user.id),
       });
 
       res.json({
@@ -51,7 +51,9 @@ export class HRActivityController {
           'onboarding_completed',
           'performance_review_submitted',
           'skill_verified',
-          'document_acknowledged'
+          'document_acknowledged',
+          'mentor_assigned',
+          'mentor_unassigned'
         ];
         parsedActivityTypes = types.filter(type => 
           validTypes.includes(type as HRActivityType)
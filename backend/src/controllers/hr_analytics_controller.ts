@@ -575,24 +575,18 @@ export class HRAnalyticsController {
     try {
       // Organization is already resolved and permissions checked by middleware
       const organizationId = req.org!.id;
-      const { start_date, end_date } = req.query;
+      const { start_date, end_date, user_id } = req.query;
 
       // Default to last 90 days if no dates provided
       const endDate = end_date ? new Date(end_date as string) : new Date();
       const startDate = start_date ? new Date(start_date as string) : new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
 
-      // Get event analytics data (placeholder implementation)
-      const eventAnalytics = {
-        total_events: 0,
-        events_by_type: {},
-        attendance_rate: 0,
-        average_rating: 0,
-        upcoming_events: 0,
-        period: {
-          start: startDate.toISOString(),
-          end: endDate.toISOString()
-        }
-      };
+      const eventAnalytics = await this.analyticsService.getEventAttendanceAnalytics(
+        organizationId,
+        startDate,
+        endDate,
+        user_id as string | undefined
+      );
 
       res.json({
         success: true,
@@ -1,10 +1,19 @@
 import { Request, Response } from 'express';
 import { HRApplicationModel } from '../models/hr_application_model';
+import { HRApplicationService } from '../services/hr_application_service';
+import { HRApplicationFormService } from '../services/hr_application_form_service';
+import {
+  PlayerVettingService,
+  MAX_BATCH_HANDLES,
+} from '../services/player_vetting_service';
 import { getUserFromRequest } from '../utils/user-casting';
 import { validateHRRequest, sanitizeRequest } from '../middleware/openapi_validation';
 import logger from '../config/logger';
 
 const applicationModel = new HRApplicationModel();
+const applicationService = new HRApplicationService();
+const vettingService = new PlayerVettingService();
+const formService = new HRApplicationFormService();
 
 export class HRApplicationController {
   /**
@@ -24,7 +33,7 @@ export class HRApplicationController {
         return;
       }
 
-      const { application_data } = req.body;
+      const { application_data, form_id, form_version } = req.body;
 
       if (!application_data) {
         res.status(400).json({
@@ -34,17 +43,38 @@ export class HRApplicationController {
         return;
       }
 
-      // Create application
-      const application = await applicationModel.create({
+      // Answers are checked against the version of the form the applicant was shown
+      let answers = application_data.answers;
+      if (form_id) {
+        const submission = await formService.validateSubmission(
+          organization.id,
+          form_id,
+          form_version,
+          application_data.answers,
+          user.rsi_handle
+        );
+        if (submission.errors.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: 'Validation failed',
+            details: submission.errors,
+          });
+          return;
+        }
+        answers = submission.answers;
+      } else if (answers) {
+        res.status(400).json({
+          success: false,
+          error: 'Answers can only be submitted with an application form',
+        });
+        return;
+      }
+
+      const application = await applicationService.submitApplication({
         organization_id: organization.id,
         user_id: user.id,
-        application_data,
-      });
-
-      logger.info('Application submitted successfully', {
-        applicationId: application.id,
-        organizationId: organization.id,
-        userId: user.id,
+        application_data: { ...application_data, ...(form_id && { answers }) },
+        ...(form_id && { form_id, form_version }),
       });
 
       res.status(201).json({
@@ -87,6 +117,8 @@ export class HRApplicationController {
       const {
         status,
         reviewer_id,
+        stage_id,
+        assignee_id,
         page = 1,
         limit = 20,
         include_user_info = 'false',
@@ -99,6 +131,8 @@ export class HRApplicationController {
       const filters = {
         status: status as any,
         reviewer_id: reviewer_id as string,
+        stage_id: stage_id as string,
+        assignee_id: assignee_id as string,
         limit: parsedLimit,
         offset,
       };
@@ -256,8 +290,8 @@ export class HRApplicationController {
         return;
       }
 
-      // Update status
-      const updatedApplication = await applicationModel.updateStatus(
+      // Update status, running the organization's pipeline rules
+      const updatedApplication = await applicationService.processStatusChange(
         applicationId,
         status,
         user.id,
@@ -372,13 +406,14 @@ export class HRApplicationController {
         return;
       }
 
-      // Perform bulk update
-      const updatedCount = await applicationModel.bulkUpdateStatus(
+      // Perform bulk update, one transition at a time so pipeline rules run for each
+      const result = await applicationService.processBulkStatusChange(
         application_ids,
         status,
         user.id,
         notes
       );
+      const updatedCount = result.successful;
 
       logger.info('Bulk application status update completed', {
         organizationId: organization.id,
@@ -409,6 +444,129 @@ export class HRApplicationController {
     }
   }
 
+  /**
+   * POST /api/organizations/:rsi_org_id/applications/vetting
+   * Vet a pasted list of RSI handles, e.g. a batch of recruits from an event
+   */
+  async vetHandles(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!;
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { handles } = req.body;
+      if (typeof handles !== 'string' && !Array.isArray(handles)) {
+        res.status(400).json({
+          success: false,
+          error: 'Handles are required',
+        });
+        return;
+      }
+
+      const parsedHandles = vettingService.parseHandles(handles);
+      if (parsedHandles.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Handles are required',
+        });
+        return;
+      }
+
+      if (parsedHandles.length > MAX_BATCH_HANDLES) {
+        res.status(400).json({
+          success: false,
+          error: `At most ${MAX_BATCH_HANDLES} handles can be vetted at once`,
+        });
+        return;
+      }
+
+      const summaries = await vettingService.vetHandles(parsedHandles);
+
+      logger.info('Batch vetting completed', {
+        organizationId: organization.id,
+        userId: user.id,
+        handleCount: parsedHandles.length,
+      });
+
+      res.json({
+        success: true,
+        data: summaries,
+      });
+    } catch (error) {
+      logger.error('Failed to vet handles', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        userId: getUserFromRequest(req)?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to vet handles',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/applications/:applicationId/vetting
+   * Re-run the vetting check for an application, e.g. after Spectrum was unavailable
+   */
+  async vetApplication(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!;
+      const { applicationId } = req.params;
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const application = await applicationModel.findById(applicationId);
+      if (!application || application.organization_id !== organization.id) {
+        res.status(404).json({
+          success: false,
+          error: 'Application not found',
+        });
+        return;
+      }
+
+      const vettedApplication = await applicationService.vetApplication(application);
+      if (!vettedApplication) {
+        res.status(502).json({
+          success: false,
+          error: 'Vetting check could not be completed',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: vettedApplication,
+      });
+    } catch (error) {
+      logger.error('Failed to vet application', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        applicationId: req.params.applicationId,
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to vet application',
+      });
+    }
+  }
+
   /**
    * GET /api/organizations/:rsi_org_id/applications/stats
    * Get application statistics for an organization
@@ -0,0 +1,278 @@
+import { Request, Response } from 'express';
+import { HRApplicationFormService } from '../services/hr_application_form_service';
+import { HRApplicationForm } from '../models/hr_application_form_model';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+
+const formService = new HRApplicationFormService();
+
+export class HRApplicationFormController {
+  /**
+   * GET /api/organizations/:rsi_org_id/application-forms
+   * List the organization's application forms with their current questions
+   */
+  async listForms(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const includeArchived = req.query.include_archived === 'true';
+
+      const forms = await formService.listForms(
+        organization.id,
+        includeArchived
+      );
+
+      res.json({
+        success: true,
+        data: forms,
+      });
+    } catch (error) {
+      logger.error('Failed to list application forms', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list application forms',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/application-forms/:formId
+   * GET /api/organizations/:rsi_org_id/application-forms/:formId/versions/:version
+   * Get a form with the questions of its current or a past version
+   */
+  async getForm(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const { formId, version } = req.params;
+
+      const form = await formService.getForm(
+        organization.id,
+        formId,
+        version ? parseInt(version) : undefined
+      );
+
+      if (!form) {
+        res.status(404).json({
+          success: false,
+          error: 'Application form not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: form,
+      });
+    } catch (error) {
+      logger.error('Failed to get application form', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        formId: req.params.formId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get application form',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/application-forms
+   * Create an application form
+   */
+  async createForm(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { name, description } = req.body;
+
+      const { questions, errors } = formService.normalizeQuestions(
+        req.body.questions
+      );
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors,
+        });
+        return;
+      }
+
+      if (await formService.findFormByName(organization.id, name)) {
+        res.status(409).json({
+          success: false,
+          error: 'An application form with this name already exists',
+        });
+        return;
+      }
+
+      const form = await formService.createForm(organization.id, user.id, {
+        name: name.trim(),
+        description,
+        questions,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: form,
+        message: 'Application form created successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to create application form', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create application form',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/organizations/:rsi_org_id/application-forms/:formId
+   * Update a form. Changing the questions saves a new version; applications already
+   * submitted keep pointing at the version they answered.
+   */
+  async updateForm(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const form = await this.findOrganizationForm(
+        organization.id,
+        req.params.formId
+      );
+      if (!form) {
+        res.status(404).json({
+          success: false,
+          error: 'Application form not found',
+        });
+        return;
+      }
+
+      const { name, description, is_active } = req.body;
+      let questions;
+      if (req.body.questions !== undefined) {
+        const normalized = formService.normalizeQuestions(req.body.questions);
+        if (normalized.errors.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: 'Validation failed',
+            details: normalized.errors,
+          });
+          return;
+        }
+        questions = normalized.questions;
+      }
+
+      if (name !== undefined) {
+        const existing = await formService.findFormByName(
+          organization.id,
+          name
+        );
+        if (existing && existing.id !== form.id) {
+          res.status(409).json({
+            success: false,
+            error: 'An application form with this name already exists',
+          });
+          return;
+        }
+      }
+
+      const updated = await formService.updateForm(form, user.id, {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description }),
+        ...(is_active !== undefined && { is_active }),
+        ...(questions && { questions }),
+      });
+
+      res.json({
+        success: true,
+        data: updated,
+        message: 'Application form updated successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to update application form', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        formId: req.params.formId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update application form',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/organizations/:rsi_org_id/application-forms/:formId
+   * Archive a form so it stops taking applications
+   */
+  async archiveForm(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+
+      const form = await this.findOrganizationForm(
+        organization.id,
+        req.params.formId
+      );
+      if (!form) {
+        res.status(404).json({
+          success: false,
+          error: 'Application form not found',
+        });
+        return;
+      }
+
+      await formService.archiveForm(form);
+
+      res.json({
+        success: true,
+        message: 'Application form archived successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to archive application form', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        formId: req.params.formId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to archive application form',
+      });
+    }
+  }
+
+  private async findOrganizationForm(
+    organizationId: string,
+    formId: string
+  ): Promise<HRApplicationForm | null> {
+    const form = await formService.findFormById(formId);
+    return form && form.organization_id === organizationId ? form : null;
+  }
+}
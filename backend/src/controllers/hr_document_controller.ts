@@ -2,12 +2,15 @@ import { Request, Response } from 'express';
 import { HRDocumentModel } from '../models/hr_document_model';
 import { MarkdownProcessingService } from '../services/markdown_processing_service';
 import { HRDocumentService } from '../services/hr_document_service';
+import { HROnboardingService } from '../services/hr_onboarding_service';
+import { HRPermissionHelper } from '../middleware/hr_permissions';
 import { getUserFromRequest } from '../utils/user-casting';
 import logger from '../config/logger';
 
 const documentModel = new HRDocumentModel();
 const markdownService = new MarkdownProcessingService();
 const documentService = new HRDocumentService();
+const onboardingService = new HROnboardingService();
 
 export class HRDocumentController {
   /**
@@ -160,11 +163,33 @@ export class HRDocumentController {
         offset,
       };
 
+      const listPage = (pageFilters: Parameters<HRDocumentModel['listDocuments']>[1]) =>
+        include_uploader_info === 'true'
+          ? documentModel.getDocumentsWithUploaderInfo(organization.id, pageFilters)
+          : documentModel.listDocuments(organization.id, pageFilters);
+
       let result;
-      if (include_uploader_info === 'true') {
-        result = await documentModel.getDocumentsWithUploaderInfo(organization.id, filters);
+      if (await HRPermissionHelper.hasDocumentOverrides(organization.id, user.id, userRoles)) {
+        // Overrides can grant or revoke individual documents, which access_roles
+        // filtering cannot express, so resolve access per document instead
+        const { data } = await listPage({
+          ...filters,
+          user_roles: undefined,
+          limit: undefined,
+          offset: undefined,
+        });
+        const accessible = [];
+        for (const document of data) {
+          if (await this.hasDocumentAccess(organization.id, user.id, document, userRoles)) {
+            accessible.push(document);
+          }
+        }
+        result = {
+          data: accessible.slice(offset, offset + parsedLimit),
+          total: accessible.length,
+        };
       } else {
-        result = await documentModel.listDocuments(organization.id, filters);
+        result = await listPage(filters);
       }
 
       // Ensure word count and reading time are included in response
@@ -235,7 +260,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -532,7 +557,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -568,6 +593,8 @@ export class HRDocumentController {
         ip_address: req.ip,
       });
 
+      await onboardingService.evaluateCompletionTriggers(organization.id, user.id);
+
       logger.info('Document acknowledged successfully', {
         documentId,
         organizationId: organization.id,
@@ -749,7 +776,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -939,7 +966,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -1017,7 +1044,7 @@ export class HRDocumentController {
         const document = await documentModel.findDocumentById(documentId);
         if (document && 
             document.organization_id === organization.id && 
-            await this.hasDocumentAccess(document, userRoles)) {
+            await this.hasDocumentAccess(organization.id, user.id, document, userRoles)) {
           validDocumentIds.push(documentId);
         }
       }
@@ -1036,6 +1063,10 @@ export class HRDocumentController {
         req.ip
       );
 
+      if (result.success > 0) {
+        await onboardingService.evaluateCompletionTriggers(organization.id, user.id);
+      }
+
       logger.info('Bulk document acknowledgment completed', {
         organizationId: organization.id,
         userId: user.id,
@@ -1350,14 +1381,14 @@ export class HRDocumentController {
     }
   }
 
-  private async hasDocumentAccess(document: any, userRoles: string[]): Promise<boolean> {
-    // If document has no access restrictions, it's accessible to all organization members
-    if (!document.access_roles || document.access_roles.length === 0) {
-      return userRoles.length > 0; // User must be a member
-    }
-
-    // Check if user has at least one matching role ID
-    return userRoles.some(roleId => document.access_roles.includes(roleId));
+  private async hasDocumentAccess(
+    organizationId: string,
+    userId: string,
+    document: any,
+    userRoles: string[]
+  ): Promise<boolean> {
+    // Access roles apply unless a document or folder override says otherwise
+    return HRPermissionHelper.canAccessDocument(organizationId, userId, document, userRoles);
   }
 
   private async getUserRoles(organizationId: string, userId: string): Promise<string[]> {
@@ -1539,7 +1570,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -1613,7 +1644,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -1701,7 +1732,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -1778,7 +1809,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -1879,7 +1910,7 @@ export class HRDocumentController {
 
       // Check if user has access to this document
       const userRoles = await this.getUserRoles(organization.id, user.id);
-      const hasAccess = await this.hasDocumentAccess(document, userRoles);
+      const hasAccess = await this.hasDocumentAccess(organization.id, user.id, document, userRoles);
 
       if (!hasAccess) {
         res.status(403).json({
@@ -0,0 +1,435 @@
+import { Request, Response } from 'express';
+import { HRInterviewService } from '../services/hr_interview_service';
+import { ServiceResult } from '../types/service_result';
+import {
+  HRApplication,
+  HRApplicationModel,
+} from '../models/hr_application_model';
+import {
+  HRInterviewSlotWithUsers,
+  InterviewNotes,
+} from '../models/hr_interview_model';
+import { RoleModel } from '../models/role_model';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+
+const interviewService = new HRInterviewService();
+const applicationModel = new HRApplicationModel();
+const roleModel = new RoleModel();
+
+const INTERVIEW_ERROR_STATUS = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+} as const;
+
+export class HRInterviewController {
+  /**
+   * GET /api/organizations/:rsi_org_id/interview-slots
+   * List upcoming interview slots, open and booked
+   */
+  async listSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+
+      const slots = await interviewService.listSlots(organization.id);
+
+      res.json({
+        success: true,
+        data: slots,
+      });
+    } catch (error) {
+      logger.error('Failed to list interview slots', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list interview slots',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/interview-slots
+   * Publish an availability window the current user will interview in
+   */
+  async publishSlot(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const startTime = new Date(req.body.start_time);
+      const endTime = new Date(req.body.end_time);
+
+      const errors = [];
+      if (startTime <= new Date()) {
+        errors.push({
+          field: 'start_time',
+          message: 'Start time must be in the future',
+        });
+      }
+      if (endTime <= startTime) {
+        errors.push({
+          field: 'end_time',
+          message: 'End time must be after the start time',
+        });
+      }
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors,
+        });
+        return;
+      }
+
+      const result = await interviewService.publishSlot(
+        organization.id,
+        user.id,
+        {
+          start_time: startTime,
+          end_time: endTime,
+          create_discord_event: req.body.create_discord_event === true,
+        }
+      );
+      if (!result.success) {
+        this.sendInterviewError(res, result);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: 'Interview slot published successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to publish interview slot', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to publish interview slot',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/organizations/:rsi_org_id/interview-slots/:slotId
+   * Withdraw a slot, calling off the interview booked in it
+   */
+  async cancelSlot(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await interviewService.cancelSlot(
+        organization.id,
+        req.params.slotId,
+        user.id
+      );
+      if (!result.success) {
+        this.sendInterviewError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: 'Interview slot cancelled successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to cancel interview slot', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        slotId: req.params.slotId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel interview slot',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/applications/:applicationId/interview-slots
+   * Open slots the applicant can book their interview in
+   */
+  async getOpenSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const application = await this.findOwnApplication(req, res);
+      if (!application) return;
+
+      const slots = await interviewService.getOpenSlots(application);
+
+      res.json({
+        success: true,
+        data: slots.map(slot => this.forApplicant(slot)),
+      });
+    } catch (error) {
+      logger.error('Failed to list open interview slots', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        applicationId: req.params.applicationId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list open interview slots',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/applications/:applicationId/interview
+   * The application's interview. Notes and the recommendation are only shown to
+   * members who manage applications.
+   */
+  async getInterview(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const application = await this.findOrganizationApplication(
+        organization.id,
+        req.params.applicationId
+      );
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          error: 'Application not found',
+        });
+        return;
+      }
+
+      const isRecruiter = await roleModel.userHasPermission(
+        organization.id,
+        user.id,
+        ORGANIZATION_PERMISSIONS.MANAGE_MEMBERS
+      );
+      if (!isRecruiter && application.user_id !== user.id) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions to view this interview',
+        });
+        return;
+      }
+
+      const interview = await interviewService.getInterview(application.id);
+
+      res.json({
+        success: true,
+        data:
+          interview && !isRecruiter ? this.forApplicant(interview) : interview,
+      });
+    } catch (error) {
+      logger.error('Failed to get interview', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        applicationId: req.params.applicationId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get interview',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/applications/:applicationId/interview
+   * Book an interview slot for the current user's application
+   */
+  async bookSlot(req: Request, res: Response): Promise<void> {
+    try {
+      const application = await this.findOwnApplication(req, res);
+      if (!application) return;
+
+      const result = await interviewService.bookSlot(
+        application,
+        req.body.slot_id
+      );
+      if (!result.success) {
+        this.sendInterviewError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.forApplicant(result.data),
+        message: 'Interview booked successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to book interview slot', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        applicationId: req.params.applicationId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to book interview slot',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/organizations/:rsi_org_id/applications/:applicationId/interview/notes
+   * Record the interview notes and a recommendation
+   */
+  async recordNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const application = await this.findOrganizationApplication(
+        organization.id,
+        req.params.applicationId
+      );
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          error: 'Application not found',
+        });
+        return;
+      }
+
+      const { notes, recommendation } = req.body;
+      const interviewNotes: InterviewNotes = {
+        summary: notes.summary.trim(),
+        ...(notes.strengths?.trim() && { strengths: notes.strengths.trim() }),
+        ...(notes.concerns?.trim() && { concerns: notes.concerns.trim() }),
+        ...(notes.ratings && { ratings: notes.ratings }),
+      };
+
+      const result = await interviewService.recordOutcome(
+        application,
+        user.id,
+        interviewNotes,
+        recommendation
+      );
+      if (!result.success) {
+        this.sendInterviewError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: 'Interview notes recorded successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to record interview notes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        applicationId: req.params.applicationId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record interview notes',
+      });
+    }
+  }
+
+  private async findOrganizationApplication(
+    organizationId: string,
+    applicationId: string
+  ): Promise<HRApplication | null> {
+    const application = await applicationModel.findById(applicationId);
+    return application && application.organization_id === organizationId
+      ? application
+      : null;
+  }
+
+  /**
+   * The application, when it belongs to the current user; otherwise responds with
+   * the error and returns null
+   */
+  private async findOwnApplication(
+    req: Request,
+    res: Response
+  ): Promise<HRApplication | null> {
+    const user = getUserFromRequest(req);
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return null;
+    }
+
+    const application = await this.findOrganizationApplication(
+      req.org!.id,
+      req.params.applicationId
+    );
+    if (!application || application.user_id !== user.id) {
+      res.status(404).json({
+        success: false,
+        error: 'Application not found',
+      });
+      return null;
+    }
+
+    return application;
+  }
+
+  // Applicants see when and with whom, not what the interviewer wrote
+  private forApplicant(slot: HRInterviewSlotWithUsers) {
+    const {
+      notes: _notes,
+      recommendation: _recommendation,
+      reminder_24h_sent_at: _reminder24h,
+      reminder_1h_sent_at: _reminder1h,
+      ...visible
+    } = slot;
+    return visible;
+  }
+
+  private sendInterviewError(
+    res: Response,
+    result: Extract<ServiceResult<unknown>, { success: false }>
+  ): void {
+    res.status(INTERVIEW_ERROR_STATUS[result.code]).json({
+      success: false,
+      error: result.error,
+    });
+  }
+}
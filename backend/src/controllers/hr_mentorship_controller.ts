@@ -0,0 +1,628 @@
+import { Request, Response } from 'express';
+import { HRMentorshipService } from '../services/hr_mentorship_service';
+import { ServiceResult } from '../types/service_result';
+import {
+  HRMentorshipWithUsers,
+  MentorProfileData,
+  MentorshipFilters,
+  MentorshipStatus,
+} from '../models/hr_mentorship_model';
+import { OrganizationModel } from '../models/organization_model';
+import { RoleModel } from '../models/role_model';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+
+const mentorshipService = new HRMentorshipService();
+const organizationModel = new OrganizationModel();
+const roleModel = new RoleModel();
+
+const MENTORSHIP_ERROR_STATUS = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+} as const;
+
+const MENTORSHIP_STATUSES: MentorshipStatus[] = ['active', 'ended'];
+
+export class HRMentorshipController {
+  /**
+   * GET /api/organizations/:rsi_org_id/mentorship/profiles/:userId
+   * A member's mentor profile, for the member and members who manage members
+   */
+  async getProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { userId } = req.params;
+      if (
+        user.id !== userId &&
+        !(await this.canManageMembers(organization.id, user.id))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions to view this mentor profile',
+        });
+        return;
+      }
+
+      const profile = await mentorshipService.getProfile(
+        organization.id,
+        userId
+      );
+
+      res.json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      logger.error('Failed to get mentor profile', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        userId: req.params.userId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get mentor profile',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/organizations/:rsi_org_id/mentorship/profiles/:userId
+   * Update a member's timezone and languages. Making a member a mentor and their
+   * mentee cap are up to members who manage members.
+   */
+  async updateProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { userId } = req.params;
+      const canManageMembers = await this.canManageMembers(
+        organization.id,
+        user.id
+      );
+      const changesMentorship =
+        req.body.is_mentor !== undefined || req.body.max_mentees !== undefined;
+
+      if ((user.id !== userId || changesMentorship) && !canManageMembers) {
+        res.status(403).json({
+          success: false,
+          error: changesMentorship
+            ? 'Only members who manage members can choose mentors'
+            : 'Insufficient permissions to update this mentor profile',
+        });
+        return;
+      }
+
+      if (!(await organizationModel.isUserMember(organization.id, userId))) {
+        res.status(404).json({
+          success: false,
+          error: 'Member not found',
+        });
+        return;
+      }
+
+      const timezone = req.body.timezone?.trim();
+      if (
+        timezone &&
+        HRMentorshipService.getTimezoneOffsetMinutes(timezone) === null
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: [
+            {
+              field: 'timezone',
+              message:
+                'Timezone must be an IANA timezone such as Europe/Berlin',
+            },
+          ],
+        });
+        return;
+      }
+
+      const profileData: MentorProfileData = {
+        ...(req.body.is_mentor !== undefined && {
+          is_mentor: req.body.is_mentor,
+        }),
+        ...(req.body.max_mentees !== undefined && {
+          max_mentees: req.body.max_mentees,
+        }),
+        ...(req.body.timezone !== undefined && { timezone: timezone || null }),
+        ...(req.body.languages !== undefined && {
+          languages: req.body.languages,
+        }),
+      };
+
+      const profile = await mentorshipService.updateProfile(
+        organization.id,
+        userId,
+        profileData
+      );
+
+      res.json({
+        success: true,
+        data: profile,
+        message: 'Mentor profile updated successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to update mentor profile', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        userId: req.params.userId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update mentor profile',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/mentorship/mentors
+   * Members available as mentors, with how many mentees each has
+   */
+  async listMentors(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+
+      const mentors = await mentorshipService.listMentors(organization.id);
+
+      res.json({
+        success: true,
+        data: mentors,
+      });
+    } catch (error) {
+      logger.error('Failed to list mentors', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list mentors',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/mentorship/matches/:userId
+   * The mentors that best fit a member, among those with room for another mentee
+   */
+  async getMatches(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const limit = Math.min(
+        Math.max(1, parseInt(req.query.limit as string) || 5),
+        20
+      );
+
+      const matches = await mentorshipService.findMatches(
+        organization.id,
+        req.params.userId,
+        limit
+      );
+
+      res.json({
+        success: true,
+        data: matches,
+      });
+    } catch (error) {
+      logger.error('Failed to find mentor matches', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        userId: req.params.userId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to find mentor matches',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/onboarding/progress/:userId/mentor
+   * Assign a mentor to a member in onboarding, or the best match when none is given
+   */
+  async assignMentor(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await mentorshipService.assignMentor(
+        organization.id,
+        req.params.userId,
+        user.id,
+        {
+          ...(req.body.mentor_id && { mentor_id: req.body.mentor_id }),
+          ...(req.body.check_in_interval_days && {
+            check_in_interval_days: req.body.check_in_interval_days,
+          }),
+        }
+      );
+      if (!result.success) {
+        this.sendMentorshipError(res, result);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: 'Mentor assigned successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to assign mentor', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        userId: req.params.userId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to assign mentor',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/mentorships
+   * Mentorships of the organization, optionally filtered by status, mentor or mentee
+   */
+  async listMentorships(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const { status, mentor_id, mentee_id } = req.query;
+
+      const filters: MentorshipFilters = {
+        ...(MENTORSHIP_STATUSES.includes(status as MentorshipStatus) && {
+          status: status as MentorshipStatus,
+        }),
+        ...(mentor_id && { mentor_id: mentor_id as string }),
+        ...(mentee_id && { mentee_id: mentee_id as string }),
+      };
+
+      const mentorships = await mentorshipService.listMentorships(
+        organization.id,
+        filters
+      );
+
+      res.json({
+        success: true,
+        data: mentorships,
+      });
+    } catch (error) {
+      logger.error('Failed to list mentorships', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list mentorships',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/mentorships/mine
+   * Mentorships the current user is part of, as mentor or as mentee
+   */
+  async getMyMentorships(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const mentorships = await mentorshipService.listMentorshipsForUser(
+        organization.id,
+        user.id
+      );
+
+      res.json({
+        success: true,
+        data: mentorships,
+      });
+    } catch (error) {
+      logger.error('Failed to list own mentorships', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list mentorships',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/mentorships/:mentorshipId
+   * A mentorship with its check-ins. Notes are only shown to the mentor and members
+   * who manage members.
+   */
+  async getMentorship(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const mentorship = await this.findMentorship(req, res);
+      if (!mentorship) return;
+
+      const canManage = await mentorshipService.canManage(user.id, mentorship);
+      if (!canManage && mentorship.mentee_id !== user.id) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions to view this mentorship',
+        });
+        return;
+      }
+
+      const [checkIns, notes] = await Promise.all([
+        mentorshipService.getCheckIns(mentorship.id),
+        canManage
+          ? mentorshipService.getNotes(mentorship.id)
+          : Promise.resolve(undefined),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          ...mentorship,
+          check_ins: checkIns,
+          ...(notes && { notes }),
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to get mentorship', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        mentorshipId: req.params.mentorshipId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get mentorship',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/mentorships/:mentorshipId/end
+   * End a mentorship, leaving the member without a mentor
+   */
+  async endMentorship(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+
+      const reason = req.body.reason?.trim();
+      const result = await mentorshipService.endMentorship(
+        organization.id,
+        req.params.mentorshipId,
+        reason || undefined
+      );
+      if (!result.success) {
+        this.sendMentorshipError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: 'Mentorship ended successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to end mentorship', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        mentorshipId: req.params.mentorshipId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to end mentorship',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/mentorships/:mentorshipId/check-ins/complete
+   * Complete the mentorship's open check-in and schedule the next one
+   */
+  async completeCheckIn(req: Request, res: Response): Promise<void> {
+    try {
+      const mentorship = await this.findManagedMentorship(req, res);
+      if (!mentorship) return;
+
+      const notes = req.body.notes?.trim();
+      const result = await mentorshipService.completeCheckIn(
+        mentorship,
+        getUserFromRequest(req)!.id,
+        notes || undefined
+      );
+      if (!result.success) {
+        this.sendMentorshipError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: 'Check-in completed successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to complete mentorship check-in', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        mentorshipId: req.params.mentorshipId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to complete check-in',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/mentorships/:mentorshipId/notes
+   * Log a note on how the mentee is doing
+   */
+  async addNote(req: Request, res: Response): Promise<void> {
+    try {
+      const mentorship = await this.findManagedMentorship(req, res);
+      if (!mentorship) return;
+
+      const content = req.body.content.trim();
+      if (!content) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: [{ field: 'content', message: 'Note cannot be empty' }],
+        });
+        return;
+      }
+
+      const note = await mentorshipService.addNote(
+        mentorship,
+        getUserFromRequest(req)!.id,
+        content
+      );
+
+      res.status(201).json({
+        success: true,
+        data: note,
+        message: 'Note added successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to add mentorship note', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        mentorshipId: req.params.mentorshipId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add note',
+      });
+    }
+  }
+
+  private async canManageMembers(
+    organizationId: string,
+    userId: string
+  ): Promise<boolean> {
+    return roleModel.userHasPermission(
+      organizationId,
+      userId,
+      ORGANIZATION_PERMISSIONS.MANAGE_MEMBERS
+    );
+  }
+
+  /**
+   * The organization's mentorship from the path; otherwise responds with the error
+   * and returns null
+   */
+  private async findMentorship(
+    req: Request,
+    res: Response
+  ): Promise<HRMentorshipWithUsers | null> {
+    const mentorship = await mentorshipService.getMentorship(
+      req.org!.id,
+      req.params.mentorshipId
+    );
+    if (!mentorship) {
+      res.status(404).json({
+        success: false,
+        error: 'Mentorship not found',
+      });
+      return null;
+    }
+
+    return mentorship;
+  }
+
+  /**
+   * The mentorship, when the current user is its mentor or manages members;
+   * otherwise responds with the error and returns null
+   */
+  private async findManagedMentorship(
+    req: Request,
+    res: Response
+  ): Promise<HRMentorshipWithUsers | null> {
+    const user = getUserFromRequest(req);
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return null;
+    }
+
+    const mentorship = await this.findMentorship(req, res);
+    if (!mentorship) return null;
+
+    if (!(await mentorshipService.canManage(user.id, mentorship))) {
+      res.status(403).json({
+        success: false,
+        error: 'Only the mentor can update this mentorship',
+      });
+      return null;
+    }
+
+    return mentorship;
+  }
+
+  private sendMentorshipError(
+    res: Response,
+    result: Extract<ServiceResult<unknown>, { success: false }>
+  ): void {
+    res.status(MENTORSHIP_ERROR_STATUS[result.code]).json({
+      success: false,
+      error: result.error,
+    });
+  }
+}
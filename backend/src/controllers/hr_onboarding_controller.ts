@@ -1,12 +1,16 @@
 import { Request, Response } from 'express';
-import { HROnboardingModel, CreateHROnboardingTemplateData, UpdateHROnboardingTemplateData, CreateHROnboardingProgressData, UpdateHROnboardingProgressData } from '../models/hr_onboarding_model';
+import { HROnboardingModel, HROnboardingProgress, CreateHROnboardingTemplateData, UpdateHROnboardingTemplateData, CreateHROnboardingProgressData, UpdateHROnboardingProgressData } from '../models/hr_onboarding_model';
+import { HROnboardingService } from '../services/hr_onboarding_service';
+import { getUserFromRequest } from '../utils/user-casting';
 import logger from '../config/logger';
 
 export class HROnboardingController {
   private onboardingModel: HROnboardingModel;
+  private onboardingService: HROnboardingService;
 
   constructor() {
     this.onboardingModel = new HROnboardingModel();
+    this.onboardingService = new HROnboardingService();
   }
 
   // Template management endpoints
@@ -70,6 +74,16 @@ export class HROnboardingController {
         }
       }
 
+      const taskErrors = await this.onboardingService.validateTemplateTasks(organizationId, templateData.tasks);
+      if (taskErrors.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid onboarding tasks',
+          errors: taskErrors,
+        });
+        return;
+      }
+
       const template = await this.onboardingModel.createTemplate(templateData);
 
       res.status(201).json({
@@ -141,6 +155,16 @@ export class HROnboardingController {
             return;
           }
         }
+
+        const taskErrors = await this.onboardingService.validateTemplateTasks(req.org!.id, updateData.tasks);
+        if (taskErrors.length > 0) {
+          res.status(400).json({
+            success: false,
+            message: 'Invalid onboarding tasks',
+            errors: taskErrors,
+          });
+          return;
+        }
       }
 
       const template = await this.onboardingModel.updateTemplate(templateId, updateData);
@@ -224,6 +248,7 @@ export class HROnboardingController {
           template,
           estimated_completion_date: estimatedCompletion,
           remaining_required_tasks: remainingTasks,
+          task_statuses: template ? HROnboardingService.getTaskStatuses(template, progress) : [],
         },
       });
     } catch (error) {
@@ -334,10 +359,11 @@ export class HROnboardingController {
   async getAllProgress(req: Request, res: Response): Promise<void> {
     try {
       const organizationId = req.org!.id;
-      const { status, limit, offset } = req.query;
+      const { status, user_id, limit, offset } = req.query;
 
       const filters = {
         status: status as any,
+        user_id: user_id as string | undefined,
         limit: limit ? parseInt(limit as string) : undefined,
         offset: offset ? parseInt(offset as string) : undefined,
       };
@@ -399,27 +425,67 @@ export class HROnboardingController {
         return;
       }
 
-      const updatedProgress = await this.onboardingModel.completeTask(existingProgress.id, taskId);
+      await this.finishTaskCompletion(res, existingProgress, taskId, getUserFromRequest(req)?.id || null);
+    } catch (error) {
+      logger.error('Error completing onboarding task:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to complete onboarding task',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Completes a task on a member's onboarding as its assignee: the member, the assigned
+  // user, a holder of the assigned role, or anyone who can manage members
+  async signOffTask(req: Request, res: Response): Promise<void> {
+    try {
+      const organizationId = req.org!.id;
+      const { userId, taskId } = req.params;
+      const user = getUserFromRequest(req);
 
-      if (!updatedProgress) {
-        res.status(500).json({
+      if (!user) {
+        res.status(401).json({
           success: false,
-          message: 'Failed to complete task',
+          message: 'Authentication required',
         });
         return;
       }
 
-      // Check if onboarding is now complete
-      const isComplete = await this.onboardingModel.isOnboardingComplete(updatedProgress.id);
+      const existingProgress = await this.onboardingModel.findProgressByUserAndOrganization(organizationId, userId);
+      const template = existingProgress
+        ? await this.onboardingModel.findTemplateById(existingProgress.template_id)
+        : null;
+      const task = template?.tasks.find(t => t.id === taskId);
 
-      res.json({
-        success: true,
-        data: updatedProgress,
-        message: isComplete ? 'Task completed! Onboarding is now complete.' : 'Task completed successfully',
-        onboarding_complete: isComplete,
-      });
+      if (!existingProgress || !task) {
+        res.status(404).json({
+          success: false,
+          message: 'Onboarding task not found for this user',
+        });
+        return;
+      }
+
+      const canComplete = await this.onboardingService.canCompleteTask(organizationId, user.id, existingProgress, task);
+      if (!canComplete) {
+        res.status(403).json({
+          success: false,
+          message: 'This task is assigned to someone else',
+        });
+        return;
+      }
+
+      if ((existingProgress.completed_tasks || []).includes(taskId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Task is already completed',
+        });
+        return;
+      }
+
+      await this.finishTaskCompletion(res, existingProgress, taskId, user.id);
     } catch (error) {
-      logger.error('Error completing onboarding task:', error);
+      logger.error('Error signing off onboarding task:', error);
       res.status(500).json({
         success: false,
         message: 'Failed to complete onboarding task',
@@ -428,6 +494,48 @@ export class HROnboardingController {
     }
   }
 
+  private async finishTaskCompletion(
+    res: Response,
+    progress: HROnboardingProgress,
+    taskId: string,
+    completedBy: string | null
+  ): Promise<void> {
+    const template = await this.onboardingModel.findTemplateById(progress.template_id);
+    const status = template
+      ? HROnboardingService.getTaskStatuses(template, progress).find(s => s.task_id === taskId)
+      : undefined;
+
+    if (status?.state === 'blocked') {
+      res.status(400).json({
+        success: false,
+        message: 'Task is blocked until its prerequisites are completed',
+        blocked_by: status.blocked_by,
+      });
+      return;
+    }
+
+    const { progress: updatedProgress, isComplete } = await this.onboardingService.completeTaskWithNotification(
+      progress.id,
+      taskId,
+      { completed_by: completedBy, source: 'manual' }
+    );
+
+    if (!updatedProgress) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to complete task',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: updatedProgress,
+      message: isComplete ? 'Task completed! Onboarding is now complete.' : 'Task completed successfully',
+      onboarding_complete: isComplete,
+    });
+  }
+
   // Analytics and reporting endpoints
   async getAnalytics(req: Request, res: Response): Promise<void> {
     try {
@@ -0,0 +1,320 @@
+import { Request, Response } from 'express';
+import { HRPipelineService } from '../services/hr_pipeline_service';
+import { HRApplicationService } from '../services/hr_application_service';
+import { HRApplicationModel } from '../models/hr_application_model';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+
+const pipelineService = new HRPipelineService();
+const applicationService = new HRApplicationService();
+const applicationModel = new HRApplicationModel();
+
+export class HRPipelineController {
+  /**
+   * GET /api/organizations/:rsi_org_id/pipeline
+   * Get the organization's pipeline stages and automation rules
+   */
+  async getPipeline(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+
+      const pipeline = await pipelineService.getPipeline(organization.id);
+
+      res.json({
+        success: true,
+        data: pipeline,
+      });
+    } catch (error) {
+      logger.error('Failed to get recruitment pipeline', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get recruitment pipeline',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/organizations/:rsi_org_id/pipeline/stages
+   * Replace the pipeline stages with an ordered list
+   */
+  async updateStages(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+
+      const { stages, errors } = await pipelineService.normalizeStages(
+        organization.id,
+        req.body.stages
+      );
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors,
+        });
+        return;
+      }
+
+      const savedStages = await pipelineService.replaceStages(
+        organization.id,
+        stages
+      );
+
+      res.json({
+        success: true,
+        data: savedStages,
+        message: 'Pipeline stages updated successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to update pipeline stages', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update pipeline stages',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/pipeline/rules
+   * Create an automation rule
+   */
+  async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { rule, errors } = await pipelineService.normalizeRule(
+        organization.id,
+        req.body,
+        user.id
+      );
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors,
+        });
+        return;
+      }
+
+      const createdRule = await pipelineService.createRule(
+        organization.id,
+        rule,
+        user.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: createdRule,
+        message: 'Automation rule created successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to create automation rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create automation rule',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/organizations/:rsi_org_id/pipeline/rules/:ruleId
+   * Replace an automation rule's trigger, conditions and actions
+   */
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const { ruleId } = req.params;
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const existingRule = await pipelineService.findRule(
+        organization.id,
+        ruleId
+      );
+      if (!existingRule) {
+        res.status(404).json({
+          success: false,
+          error: 'Automation rule not found',
+        });
+        return;
+      }
+
+      const { rule, errors } = await pipelineService.normalizeRule(
+        organization.id,
+        req.body,
+        user.id
+      );
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors,
+        });
+        return;
+      }
+
+      const updatedRule = await pipelineService.updateRule(ruleId, rule);
+
+      res.json({
+        success: true,
+        data: updatedRule,
+        message: 'Automation rule updated successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to update automation rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        ruleId: req.params.ruleId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update automation rule',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/organizations/:rsi_org_id/pipeline/rules/:ruleId
+   * Delete an automation rule
+   */
+  async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const { ruleId } = req.params;
+
+      const rule = await pipelineService.findRule(organization.id, ruleId);
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: 'Automation rule not found',
+        });
+        return;
+      }
+
+      await pipelineService.deleteRule(ruleId);
+
+      res.json({
+        success: true,
+        message: 'Automation rule deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to delete automation rule', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        ruleId: req.params.ruleId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete automation rule',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/organizations/:rsi_org_id/applications/:applicationId/stage
+   * Move an application to a pipeline stage
+   */
+  async moveApplicationToStage(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!; // Resolved by middleware
+      const { applicationId } = req.params;
+      const { stage_id, notes, rejection_reason } = req.body;
+      const user = getUserFromRequest(req);
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const application = await applicationModel.findById(applicationId);
+      if (!application || application.organization_id !== organization.id) {
+        res.status(404).json({
+          success: false,
+          error: 'Application not found',
+        });
+        return;
+      }
+
+      const stage = await pipelineService.findStage(organization.id, stage_id);
+      if (!stage) {
+        res.status(404).json({
+          success: false,
+          error: 'Pipeline stage not found',
+        });
+        return;
+      }
+
+      const updatedApplication = await applicationService.moveToStage(
+        application,
+        stage,
+        user.id,
+        notes,
+        rejection_reason
+      );
+
+      res.json({
+        success: true,
+        data: updatedApplication,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Failed to move application to stage', {
+        error: errorMessage,
+        applicationId: req.params.applicationId,
+        organizationId: req.org?.id,
+      });
+
+      // Handle validation errors
+      if (
+        errorMessage.includes('Invalid stage transition') ||
+        errorMessage.includes('Invalid status transition') ||
+        errorMessage.includes('required')
+      ) {
+        res.status(400).json({
+          success: false,
+          error: errorMessage,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to move application to stage',
+      });
+    }
+  }
+}
@@ -1,9 +1,11 @@
 import { Request, Response } from 'express';
 import { HRSkillModel } from '../models/hr_skill_model';
+import { HROnboardingService } from '../services/hr_onboarding_service';
 import { getUserFromRequest } from '../utils/user-casting';
 import logger from '../config/logger';
 
 const skillModel = new HRSkillModel();
+const onboardingService = new HROnboardingService();
 
 export class HRSkillController {
   /**
@@ -349,6 +351,8 @@ export class HRSkillController {
         return;
       }
 
+      await onboardingService.evaluateCompletionTriggers(userSkill.organization_id, userSkill.user_id);
+
       logger.info('User skill verified successfully', {
         userSkillId: skillId,
         verifiedBy: user.id,
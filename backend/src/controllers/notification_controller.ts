@@ -1,20 +1,35 @@
 import { Request, Response } from 'express';
 import { User } from '../types/user';
 import { NotificationModel } from '../models/notification_model';
+import { OrganizationModel } from '../models/organization_model';
+import { NotificationPreferenceService } from '../services/notification_preference_service';
+import {
+  notificationStreamService,
+  NotificationStreamEventType,
+} from '../services/notification_stream_service';
 import {
   CreateNotificationObjectData,
   UpdateNotificationData,
+  UpdateNotificationPreferencesData,
+  NotificationPreferenceChange,
   NotificationListQuery,
   NotificationEntityType,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_DIGEST_FREQUENCIES,
+  NOTIFICATION_TYPES,
 } from '../types/notification';
 import logger from '../config/logger';
 
 import { getUserFromRequest } from '../utils/user-casting';
 export class NotificationController {
   private notificationModel: NotificationModel;
+  private organizationModel: OrganizationModel;
+  private notificationPreferenceService: NotificationPreferenceService;
 
   constructor() {
     this.notificationModel = new NotificationModel();
+    this.organizationModel = new OrganizationModel();
+    this.notificationPreferenceService = new NotificationPreferenceService();
   }
 
   // Get notifications for the current user
@@ -60,6 +75,31 @@ export class NotificationController {
     }
   };
 
+  // Stream notification activity over Server-Sent Events
+  streamNotifications = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = getUserFromRequest(req)?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const unsubscribe = notificationStreamService.subscribe(
+        userId,
+        res,
+        req.header('Last-Event-ID') || undefined
+      );
+      req.on('close', unsubscribe);
+
+      await notificationStreamService.publishUnreadCounts([userId]);
+    } catch (error) {
+      logger.error('Error opening notification stream:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  };
+
   // Get notification statistics for the current user
   getNotificationStats = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -141,6 +181,12 @@ export class NotificationController {
 
       const updatedNotification =
         await this.notificationModel.updateNotification(id, updateData);
+      if (updateData.is_read !== undefined) {
+        await this.publishStreamChange(userId, 'read_state', {
+          notification_ids: [id],
+          is_read: updateData.is_read,
+        });
+      }
 
       res.json({
         success: true,
@@ -187,6 +233,10 @@ export class NotificationController {
 
       const updatedCount =
         await this.notificationModel.markNotificationsAsRead(notification_ids);
+      await this.publishStreamChange(userId, 'read_state', {
+        notification_ids,
+        is_read: true,
+      });
 
       res.json({
         success: true,
@@ -214,6 +264,10 @@ export class NotificationController {
 
       const updatedCount =
         await this.notificationModel.markAllNotificationsAsRead(userId);
+      await this.publishStreamChange(userId, 'read_state', {
+        all: true,
+        is_read: true,
+      });
 
       res.json({
         success: true,
@@ -252,6 +306,9 @@ export class NotificationController {
       }
 
       await this.notificationModel.deleteNotification(id);
+      await this.publishStreamChange(userId, 'deleted', {
+        notification_ids: [id],
+      });
 
       res.json({
         success: true,
@@ -295,6 +352,7 @@ export class NotificationController {
 
       const deletedCount =
         await this.notificationModel.deleteNotifications(notification_ids);
+      await this.publishStreamChange(userId, 'deleted', { notification_ids });
 
       res.json({
         success: true,
@@ -353,7 +411,7 @@ export class NotificationController {
     }
   };
 
-  // Get notification preferences (placeholder for future implementation)
+  // Get notification preferences, including the type catalog the settings UI renders
   getNotificationPreferences = async (
     req: Request,
     res: Response
@@ -365,19 +423,12 @@ export class NotificationController {
         return;
       }
 
-      // TODO: Implement notification preferences table and model
-      const defaultPreferences = {
-        email_notifications: true,
-        push_notifications: true,
-        organization_updates: true,
-        event_reminders: true,
-        security_alerts: true,
-        marketing: false,
-      };
+      const preferences =
+        await this.notificationPreferenceService.getPreferences(userId);
 
       res.json({
         success: true,
-        data: defaultPreferences,
+        data: preferences,
       });
     } catch (error) {
       logger.error('Error getting notification preferences:', error);
@@ -385,7 +436,7 @@ export class NotificationController {
     }
   };
 
-  // Update notification preferences (placeholder for future implementation)
+  // Update per-channel preferences, per-organization overrides and quiet hours
   updateNotificationPreferences = async (
     req: Request,
     res: Response
@@ -397,10 +448,61 @@ export class NotificationController {
         return;
       }
 
-      // TODO: Implement notification preferences update
+      const data: UpdateNotificationPreferencesData = req.body || {};
+
+      const validationError = this.validatePreferencesUpdate(data);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      // Overrides are addressed by spectrum ID; resolve each once and check membership
+      const organizationIds = new Map<string, string>();
+      for (const preference of data.preferences || []) {
+        const rsiOrgId = preference.rsi_org_id;
+        if (!rsiOrgId || organizationIds.has(rsiOrgId)) continue;
+
+        const organization = await this.organizationModel.findByRsiOrgId(rsiOrgId);
+        if (!organization) {
+          res.status(404).json({ error: `Organization ${rsiOrgId} not found` });
+          return;
+        }
+
+        const isMember = await this.organizationModel.isUserMember(
+          organization.id,
+          userId
+        );
+        if (!isMember) {
+          res.status(403).json({
+            error: 'Organization overrides require membership in that organization',
+          });
+          return;
+        }
+
+        organizationIds.set(rsiOrgId, organization.id);
+      }
+
+      const changes: NotificationPreferenceChange[] = (data.preferences || []).map(
+        preference => ({
+          organization_id: preference.rsi_org_id
+            ? organizationIds.get(preference.rsi_org_id)!
+            : null,
+          entity_type: preference.entity_type,
+          channel: preference.channel,
+          enabled: preference.enabled,
+        })
+      );
+
+      const preferences =
+        await this.notificationPreferenceService.updatePreferences(
+          userId,
+          changes,
+          data.settings
+        );
+
       res.json({
         success: true,
-        message: 'Notification preferences updated successfully',
+        data: preferences,
       });
     } catch (error) {
       logger.error('Error updating notification preferences:', error);
@@ -408,6 +510,98 @@ export class NotificationController {
     }
   };
 
+  // Keep the user's other open tabs in sync with read-state changes and deletions
+  private async publishStreamChange(
+    userId: string,
+    type: Extract<NotificationStreamEventType, 'read_state' | 'deleted'>,
+    data: Record<string, any>
+  ): Promise<void> {
+    notificationStreamService.publish(userId, type, data);
+    await notificationStreamService.publishUnreadCounts([userId]);
+  }
+
+  private validatePreferencesUpdate(
+    data: UpdateNotificationPreferencesData
+  ): string | null {
+    if (data.preferences !== undefined) {
+      if (!Array.isArray(data.preferences)) {
+        return 'preferences must be an array';
+      }
+
+      for (const preference of data.preferences) {
+        if (!preference || typeof preference !== 'object') {
+          return 'Each preference must be an object';
+        }
+        if (
+          preference.rsi_org_id !== undefined &&
+          preference.rsi_org_id !== null &&
+          typeof preference.rsi_org_id !== 'string'
+        ) {
+          return 'rsi_org_id must be a string';
+        }
+        if (
+          !NOTIFICATION_TYPES.some(
+            type => type.entity_type === preference.entity_type
+          )
+        ) {
+          return `Unknown notification type: ${preference.entity_type}`;
+        }
+        if (!NOTIFICATION_CHANNELS.includes(preference.channel)) {
+          return `channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`;
+        }
+        if (preference.enabled !== null && typeof preference.enabled !== 'boolean') {
+          return 'enabled must be true, false or null';
+        }
+        if (
+          preference.enabled === false &&
+          this.notificationPreferenceService.isLocked(
+            preference.entity_type,
+            preference.channel
+          )
+        ) {
+          return 'This notification type cannot be turned off for this channel';
+        }
+      }
+    }
+
+    const settings = data.settings;
+    if (settings !== undefined) {
+      if (settings.timezone !== undefined && !this.isValidTimezone(settings.timezone)) {
+        return 'timezone must be a valid IANA timezone';
+      }
+      if (
+        settings.quiet_hours_enabled !== undefined &&
+        typeof settings.quiet_hours_enabled !== 'boolean'
+      ) {
+        return 'quiet_hours_enabled must be a boolean';
+      }
+      for (const time of [settings.quiet_hours_start, settings.quiet_hours_end]) {
+        if (time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+          return 'Quiet hours must use HH:MM times';
+        }
+      }
+      if (
+        settings.digest_frequency !== undefined &&
+        !NOTIFICATION_DIGEST_FREQUENCIES.includes(settings.digest_frequency)
+      ) {
+        return `digest_frequency must be one of: ${NOTIFICATION_DIGEST_FREQUENCIES.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  private isValidTimezone(timezone: unknown): boolean {
+    if (typeof timezone !== 'string' || !timezone) return false;
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Mark a notification as read when clicked
    */
@@ -436,6 +630,10 @@ export class NotificationController {
       }
 
       await this.notificationModel.markAsRead(id);
+      await this.publishStreamChange(userId, 'read_state', {
+        notification_ids: [id],
+        is_read: true,
+      });
       logger.debug(`Marked notification ${id} as read for user ${userId}`);
 
       res.json({
@@ -480,6 +678,12 @@ export class NotificationController {
         );
 
       const totalMarked = reminderCount + customCount;
+      if (totalMarked > 0) {
+        await this.publishStreamChange(userId, 'read_state', {
+          entity_id: eventId,
+          is_read: true,
+        });
+      }
       logger.debug(
         `Marked ${totalMarked} event notifications as read for user ${userId} and event ${eventId}`
       );
@@ -507,6 +711,10 @@ export class NotificationController {
       }
 
       const affectedCount = await this.notificationModel.markAllAsRead(userId);
+      await this.publishStreamChange(userId, 'read_state', {
+        all: true,
+        is_read: true,
+      });
       logger.debug(
         `Marked ${affectedCount} notifications as read for user ${userId}`
       );
@@ -538,6 +746,7 @@ export class NotificationController {
 
       const affectedCount =
         await this.notificationModel.deleteAllNotifications(userId);
+      await this.publishStreamChange(userId, 'deleted', { all: true });
       logger.debug(`Deleted ${affectedCount} notifications for user ${userId}`);
 
       res.json({
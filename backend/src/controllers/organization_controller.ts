@@ -3,7 +3,6 @@ import { OrganizationModel } from '../models/organization_model';
 import { UserModel } from '../models/user_model';
 import { InviteModel } from '../models/invite_model';
 import db from '../config/database';
-import { v4 as uuidv4 } from 'uuid';
 import {
   Organization,
   CreateOrganizationData,
@@ -1759,18 +1758,10 @@ export class OrganizationController {
         return;
       }
 
-      // Add user to organization
-      const memberId = uuidv4();
-      await db('organization_members').insert({
-        id: memberId,
-        organization_id: invite.organization_id,
-        user_id: userId,
-        role_id: invite.role_id,
-        is_active: true,
-        joined_at: new Date(),
-        created_at: new Date(),
-        updated_at: new Date(),
-      });
+      // Add user to organization with the invite's role
+      const { RoleModel } = await import('../models/role_model');
+      const roleModel = new RoleModel();
+      await roleModel.addRoleToUser(invite.organization_id, userId, invite.role_id);
 
       // Use the invite code (increment used count)
       await inviteModel.useInviteCode(inviteCode);
@@ -2,6 +2,11 @@ import { Request, Response } from 'express';
 import { ScPlayerModel } from '../models/sc_player_model';
 import { ReputationModel } from '../models/reputation_model';
 import { SpectrumAPIClient } from '../clients/spectrum';
+import { ReputationModerationService } from '../services/reputation_moderation_service';
+import { ReputationScoreService } from '../services/reputation_score_service';
+import { BrigadingDetectionService } from '../services/brigading_detection_service';
+import { PlayerSyncService } from '../services/player_sync_service';
+import { WatchlistService } from '../services/watchlist_service';
 import { getUserFromRequest } from '../utils/user-casting';
 import logger from '../config/logger';
 import {
@@ -20,17 +25,49 @@ import {
   CreateAltAccountReportCorroborationData,
   CreateAffiliatedPeopleReportData,
   CreateAffiliatedPeopleReportCorroborationData,
+  // Moderation
+  ModerateReportRequest,
+  AppealReportRequest,
+  ModerationQueueQuery,
+  REPUTATION_REPORT_TYPES,
+  ReputationReportType,
+  // Brigading detection
+  AttestationKind,
+  AttestationFlagStatus,
+  ReviewAttestationFlagRequest,
+  // Watchlists
+  OrganizationReport,
+  WatchedPlayerEvent,
 } from '../types/reputation';
+import { ServiceResult } from '../types/service_result';
+
+const MAX_RATIONALE_LENGTH = 2000;
+
+const MODERATION_ERROR_STATUS = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+} as const;
 
 export class ReputationController {
   private scPlayerModel: ScPlayerModel;
   private reputationModel: ReputationModel;
   private spectrumClient: SpectrumAPIClient;
+  private moderationService: ReputationModerationService;
+  private scoreService: ReputationScoreService;
+  private brigadingService: BrigadingDetectionService;
+  private playerSyncService: PlayerSyncService;
+  private watchlistService: WatchlistService;
 
   constructor() {
     this.scPlayerModel = new ScPlayerModel();
     this.reputationModel = new ReputationModel();
     this.spectrumClient = new SpectrumAPIClient();
+    this.moderationService = new ReputationModerationService();
+    this.scoreService = new ReputationScoreService();
+    this.brigadingService = new BrigadingDetectionService();
+    this.playerSyncService = new PlayerSyncService();
+    this.watchlistService = new WatchlistService();
   }
 
   // Player Management Endpoints
@@ -51,6 +88,7 @@ export class ReputationController {
       };
 
       const { players, total } = await this.scPlayerModel.searchPlayers(query);
+      const scores = await this.scoreService.getScores(players.map(player => player.id));
 
       const totalPages = Math.ceil(total / (query.limit || 20));
       const hasNext = (query.page || 1) < totalPages;
@@ -59,7 +97,10 @@ export class ReputationController {
       res.json({
         success: true,
         data: {
-          players,
+          players: players.map(player => ({
+            ...player,
+            reputation: scores.get(player.id),
+          })),
           pagination: {
             page: query.page,
             limit: query.limit,
@@ -201,7 +242,7 @@ export class ReputationController {
         return;
       }
 
-      const playerDetails = await this.scPlayerModel.getPlayerDetails(spectrumId);
+      const playerDetails = await this.scoreService.getPlayerDetails(spectrumId);
 
       if (!playerDetails) {
         res.status(404).json({
@@ -210,6 +251,7 @@ export class ReputationController {
         });
         return;
       }
+      await this.prioritizePlayerSync(playerDetails.player.id, true);
 
       res.json({
         success: true,
@@ -348,10 +390,19 @@ export class ReputationController {
         return;
       }
 
-      // Fetch latest data from Spectrum
-      const spectrumResponse = await this.spectrumClient.fetchMemberById(spectrumId);
+      // Same sync the background worker runs, so history and watchers stay consistent
+      const result = await this.playerSyncService.syncPlayer(player);
+
+      if (result.status === 'rate_limited') {
+        res.status(429).json({
+          success: false,
+          error: 'Spectrum is rate limiting requests, try again later',
+          retryAt: result.retry_at,
+        });
+        return;
+      }
 
-      if (!spectrumResponse.success || !spectrumResponse.data?.member) {
+      if (result.status === 'not_found') {
         res.status(404).json({
           success: false,
           error: 'Player not found in Spectrum',
@@ -359,34 +410,97 @@ export class ReputationController {
         return;
       }
 
-      const spectrumMember = spectrumResponse.data.member;
+      res.json({
+        success: true,
+        data: result.player,
+        message: 'Player data synced successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to sync player data:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to sync player data',
+      });
+    }
+  }
+
+  /**
+   * Add a player to the user's default personal watchlist
+   * PUT /api/reputation/players/:spectrumId/watch
+   */
+  async watchPlayer(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const player = await this.scPlayerModel.findBySpectrumId(req.params.spectrumId);
+      if (!player) {
+        res.status(404).json({
+          success: false,
+          error: 'Player not found',
+        });
+        return;
+      }
+
+      await this.watchlistService.watchPlayer(user.id, player.id);
+      await this.prioritizePlayerSync(player.id);
 
-      // Update player data
-      const updatedPlayer = await this.scPlayerModel.update(player.id, {
-        current_handle: spectrumMember.nickname,
-        current_display_name: spectrumMember.displayname,
-        last_spectrum_sync_at: new Date(),
+      res.json({
+        success: true,
+        data: { player_id: player.id, watching: true },
+        message: 'Watching player',
+      });
+    } catch (error) {
+      logger.error('Failed to watch player:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to watch player',
       });
+    }
+  }
+
+  /**
+   * Remove a player from the user's default personal watchlist
+   * DELETE /api/reputation/players/:spectrumId/watch
+   */
+  async unwatchPlayer(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
 
-      // Update handle history if handle changed
-      if (player.current_handle !== spectrumMember.nickname) {
-        await this.scPlayerModel.createHandleHistory({
-          player_id: player.id,
-          handle: spectrumMember.nickname,
-          display_name: spectrumMember.displayname,
+      const player = await this.scPlayerModel.findBySpectrumId(req.params.spectrumId);
+      if (!player) {
+        res.status(404).json({
+          success: false,
+          error: 'Player not found',
         });
+        return;
       }
 
+      await this.watchlistService.unwatchPlayer(user.id, player.id);
+
       res.json({
         success: true,
-        data: updatedPlayer,
-        message: 'Player data synced successfully',
+        data: { player_id: player.id, watching: false },
+        message: 'Stopped watching player',
       });
     } catch (error) {
-      logger.error('Failed to sync player data:', error);
+      logger.error('Failed to unwatch player:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to sync player data',
+        error: 'Failed to unwatch player',
       });
     }
   }
@@ -414,6 +528,14 @@ export class ReputationController {
       };
 
       const report = await this.reputationModel.createReport(reportData);
+      await this.refreshReputationScore(report.player_id);
+      await this.prioritizePlayerSync(report.player_id);
+      await this.notifyWatchers(report.player_id, {
+        type: 'report',
+        actor_id: user.id,
+        summary: report.title,
+        item_id: report.id,
+      });
 
       res.status(201).json({
         success: true,
@@ -498,11 +620,14 @@ export class ReputationController {
         attestation_type: attestationData.attestation_type,
         comment: attestationData.comment,
       });
+      const held = await this.screenAttestation('player_report', attestation);
 
       // Get the report to include player_id in response
       const report = await this.reputationModel.getReportById(id);
+      if (report) await this.refreshReputationScore(report.player_id);
       const responseData = {
         ...attestation,
+        held_for_review: held,
         player_id: report?.player_id,
       };
 
@@ -545,6 +670,14 @@ export class ReputationController {
       };
 
       const comment = await this.reputationModel.createComment(commentData);
+      if (comment.is_public) {
+        await this.notifyWatchers(comment.player_id, {
+          type: 'comment',
+          actor_id: user.id,
+          summary: this.truncate(comment.content),
+          item_id: comment.id,
+        });
+      }
 
       res.status(201).json({
         success: true,
@@ -599,10 +732,13 @@ export class ReputationController {
         });
       }
 
+      const held = await this.screenAttestation('comment', attestation);
+
       // Get the comment to include player_id in response
       const comment = await this.reputationModel.getCommentById(id);
       const responseData = {
         ...attestation,
+        held_for_review: held,
         player_id: comment?.player_id,
       };
 
@@ -657,6 +793,20 @@ export class ReputationController {
 
       const tag = await this.reputationModel.createTag(tagData);
 
+      // Adding a tag the player already has supports the existing one instead
+      if (tag.tagger_id !== user.id) {
+        const attestation = await this.reputationModel.getUserTagAttestation(tag.id, user.id);
+        if (attestation) await this.screenAttestation('tag', attestation);
+      } else {
+        await this.notifyWatchers(tag.player_id, {
+          type: 'tag',
+          actor_id: user.id,
+          summary: tag.tag_name,
+          item_id: tag.id,
+        });
+      }
+      await this.refreshReputationScore(tag.player_id);
+
       res.status(201).json({
         success: true,
         data: {
@@ -710,10 +860,14 @@ export class ReputationController {
         });
       }
 
+      const held = await this.screenAttestation('tag', attestation);
+
       // Get the tag to include player_id in response
       const tag = await this.reputationModel.getTagById(id);
+      if (tag) await this.refreshReputationScore(tag.player_id);
       const responseData = {
         ...attestation,
+        held_for_review: held,
         player_id: tag?.player_id,
       };
 
@@ -754,6 +908,17 @@ export class ReputationController {
       };
 
       const report = await this.reputationModel.createOrganizationReport(reportData);
+      await this.prioritizePlayerSync(report.player_id);
+      await this.notifyWatchers(
+        report.player_id,
+        {
+          type: 'report',
+          actor_id: user.id,
+          summary: `affiliated with ${report.org_name || report.org_spectrum_id}`,
+          item_id: report.id,
+        },
+        report
+      );
       
       // Get the player to include spectrum_id in response
       const player = await this.scPlayerModel.findById(report.player_id);
@@ -836,15 +1001,25 @@ export class ReputationController {
         // Create new vote
         corroboration = await this.reputationModel.createOrganizationReportCorroboration(corroborationData);
       }
+      const held = await this.screenAttestation('organization_report', corroboration);
 
       // Get the report to include spectrum_id in response
       const report = await this.reputationModel.getOrganizationReportById(reportId);
       const player = report ? await this.scPlayerModel.findById(report.player_id) : null;
+      if (report && !existingCorroboration && !held && corroboration.corroboration_type === 'agree') {
+        await this.notifyWatchers(report.player_id, {
+          type: 'corroboration',
+          actor_id: user.id,
+          summary: `organization report (${report.org_name || report.org_spectrum_id})`,
+          item_id: report.id,
+        });
+      }
 
       res.status(201).json({
         success: true,
         data: {
           ...corroboration,
+          held_for_review: held,
           player_id: player?.spectrum_id, // Return spectrum_id for cache invalidation
         },
         message: 'Vote recorded successfully',
@@ -894,6 +1069,13 @@ export class ReputationController {
       }
 
       const report = await this.reputationModel.createAltAccountReport(reportData);
+      await this.prioritizePlayerSync(report.main_player_id);
+      await this.notifyWatchers(report.main_player_id, {
+        type: 'report',
+        actor_id: user.id,
+        summary: `possible alt account ${report.alt_handle}`,
+        item_id: report.id,
+      });
       
       // Update the report with Spectrum data if available
       if (altSpectrumId || altDisplayName) {
@@ -981,15 +1163,25 @@ export class ReputationController {
         // Create new vote
         corroboration = await this.reputationModel.createAltAccountReportCorroboration(corroborationData);
       }
+      const held = await this.screenAttestation('alt_account_report', corroboration);
 
       // Get the report to include spectrum_id in response
       const report = await this.reputationModel.getAltAccountReportById(reportId);
       const player = report ? await this.scPlayerModel.findById(report.main_player_id) : null;
+      if (report && !existingCorroboration && !held && corroboration.corroboration_type === 'agree') {
+        await this.notifyWatchers(report.main_player_id, {
+          type: 'corroboration',
+          actor_id: user.id,
+          summary: `alt account report (${report.alt_handle})`,
+          item_id: report.id,
+        });
+      }
 
       res.status(201).json({
         success: true,
         data: {
           ...corroboration,
+          held_for_review: held,
           player_id: player?.spectrum_id, // Return spectrum_id for cache invalidation
         },
         message: 'Vote recorded successfully',
@@ -1039,6 +1231,13 @@ export class ReputationController {
       }
 
       const report = await this.reputationModel.createAffiliatedPeopleReport(reportData);
+      await this.prioritizePlayerSync(report.main_player_id);
+      await this.notifyWatchers(report.main_player_id, {
+        type: 'report',
+        actor_id: user.id,
+        summary: `affiliated with ${report.affiliated_handle}`,
+        item_id: report.id,
+      });
       
       // Update the report with Spectrum data if available
       if (affiliatedSpectrumId || affiliatedDisplayName) {
@@ -1126,15 +1325,25 @@ export class ReputationController {
         // Create new vote
         corroboration = await this.reputationModel.createAffiliatedPeopleReportCorroboration(corroborationData);
       }
+      const held = await this.screenAttestation('affiliated_people_report', corroboration);
 
       // Get the report to include spectrum_id in response
       const report = await this.reputationModel.getAffiliatedPeopleReportById(reportId);
       const player = report ? await this.scPlayerModel.findById(report.main_player_id) : null;
+      if (report && !existingCorroboration && !held && corroboration.corroboration_type === 'agree') {
+        await this.notifyWatchers(report.main_player_id, {
+          type: 'corroboration',
+          actor_id: user.id,
+          summary: `affiliated people report (${report.affiliated_handle})`,
+          item_id: report.id,
+        });
+      }
 
       res.status(201).json({
         success: true,
         data: {
           ...corroboration,
+          held_for_review: held,
           player_id: player?.spectrum_id, // Return spectrum_id for cache invalidation
         },
         message: 'Vote recorded successfully',
@@ -1197,6 +1406,9 @@ export class ReputationController {
       const { id: tagId } = req.params;
       await this.reputationModel.deleteTagAttestation(tagId, user.id);
 
+      const tag = await this.reputationModel.getTagById(tagId);
+      if (tag) await this.refreshReputationScore(tag.player_id);
+
       res.status(200).json({
         success: true,
         message: 'Attestation removed successfully',
@@ -1323,4 +1535,509 @@ export class ReputationController {
       });
     }
   }
-}
\ No newline at end of file
+
+  // Moderation Endpoints
+
+  /**
+   * List pending and disputed reports of every kind, ordered by attestation balance
+   * GET /api/reputation/moderation/queue
+   */
+  async getModerationQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status ? (req.query.status as string).split(',') : undefined;
+      const reportTypes = req.query.report_types
+        ? (req.query.report_types as string).split(',')
+        : undefined;
+
+      if (status?.some(value => value !== 'pending' && value !== 'disputed')) {
+        res.status(400).json({
+          success: false,
+          error: 'status must be pending, disputed or both',
+        });
+        return;
+      }
+      if (reportTypes?.some(value => !this.isReportType(value))) {
+        res.status(400).json({
+          success: false,
+          error: `report_types must be one of: ${REPUTATION_REPORT_TYPES.join(', ')}`,
+        });
+        return;
+      }
+
+      const query: ModerationQueueQuery = {
+        page: parseInt(req.query.page as string) || 1,
+        limit: Math.min(parseInt(req.query.limit as string) || 20, 100),
+        status: status as ModerationQueueQuery['status'],
+        report_types: reportTypes as ReputationReportType[] | undefined,
+        sort_order: req.query.sort_order === 'asc' ? 'asc' : 'desc',
+      };
+
+      const { items, total } = await this.moderationService.getQueue(query);
+
+      const totalPages = Math.ceil(total / (query.limit || 20));
+
+      res.json({
+        success: true,
+        data: {
+          reports: items,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            totalPages,
+            hasNext: (query.page || 1) < totalPages,
+            hasPrev: (query.page || 1) > 1,
+          },
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to get moderation queue:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get moderation queue',
+      });
+    }
+  }
+
+  /**
+   * Approve or reject a pending or disputed report
+   * POST /api/reputation/moderation/reports/:reportType/:reportId/decision
+   */
+  async moderateReport(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { reportType, reportId } = req.params;
+      const { decision, rationale }: ModerateReportRequest = req.body;
+
+      if (!this.isReportType(reportType)) {
+        res.status(400).json({
+          success: false,
+          error: `reportType must be one of: ${REPUTATION_REPORT_TYPES.join(', ')}`,
+        });
+        return;
+      }
+      if (decision !== 'approve' && decision !== 'reject') {
+        res.status(400).json({
+          success: false,
+          error: 'decision must be approve or reject',
+        });
+        return;
+      }
+      const rationaleError = this.validateWrittenReason(rationale, 'rationale');
+      if (rationaleError) {
+        res.status(400).json({
+          success: false,
+          error: rationaleError,
+        });
+        return;
+      }
+
+      const result = await this.moderationService.decide(reportType, reportId, user.id, {
+        decision,
+        rationale,
+      });
+      if (!result.success) {
+        this.sendModerationError(res, result);
+        return;
+      }
+      if (reportType === 'player') {
+        await this.refreshReputationScore(result.data.report.player_id);
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Report ${result.data.report.status}`,
+      });
+    } catch (error) {
+      logger.error('Failed to moderate report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to moderate report',
+      });
+    }
+  }
+
+  /**
+   * Moderation audit trail for a report
+   * GET /api/reputation/moderation/reports/:reportType/:reportId/history
+   */
+  async getModerationHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { reportType, reportId } = req.params;
+
+      if (!this.isReportType(reportType)) {
+        res.status(400).json({
+          success: false,
+          error: `reportType must be one of: ${REPUTATION_REPORT_TYPES.join(', ')}`,
+        });
+        return;
+      }
+
+      const result = await this.moderationService.getHistory(reportType, reportId);
+      if (!result.success) {
+        this.sendModerationError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      logger.error('Failed to get moderation history:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get moderation history',
+      });
+    }
+  }
+
+  /**
+   * Appeal a report as the verified owner of the reported handle
+   * POST /api/reputation/reports/:reportType/:reportId/appeal
+   */
+  async appealReport(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { reportType, reportId } = req.params;
+      const { statement }: AppealReportRequest = req.body;
+
+      if (!this.isReportType(reportType)) {
+        res.status(400).json({
+          success: false,
+          error: `reportType must be one of: ${REPUTATION_REPORT_TYPES.join(', ')}`,
+        });
+        return;
+      }
+      const statementError = this.validateWrittenReason(statement, 'statement');
+      if (statementError) {
+        res.status(400).json({
+          success: false,
+          error: statementError,
+        });
+        return;
+      }
+
+      const result = await this.moderationService.appeal(reportType, reportId, user, statement);
+      if (!result.success) {
+        this.sendModerationError(res, result);
+        return;
+      }
+      if (reportType === 'player') {
+        await this.refreshReputationScore(result.data.report.player_id);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: 'Appeal submitted for moderator review',
+      });
+    } catch (error) {
+      logger.error('Failed to appeal report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to appeal report',
+      });
+    }
+  }
+
+  /**
+   * List reputation moderators and admins
+   * GET /api/reputation/moderation/moderators
+   */
+  async listModerators(req: Request, res: Response): Promise<void> {
+    try {
+      const moderators = await this.moderationService.listModerators();
+
+      res.json({
+        success: true,
+        data: moderators,
+      });
+    } catch (error) {
+      logger.error('Failed to list reputation moderators:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list moderators',
+      });
+    }
+  }
+
+  /**
+   * Grant a user the moderator or admin role
+   * PUT /api/reputation/moderation/moderators/:userId
+   */
+  async grantModeratorRole(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { userId } = req.params;
+      const { role = 'moderator' } = req.body;
+
+      if (role !== 'moderator' && role !== 'admin') {
+        res.status(400).json({
+          success: false,
+          error: 'role must be moderator or admin',
+        });
+        return;
+      }
+
+      const result = await this.moderationService.grantRole(userId, role, user.id);
+      if (!result.success) {
+        this.sendModerationError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: `User is now a reputation ${role}`,
+      });
+    } catch (error) {
+      logger.error('Failed to grant reputation moderator role:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to grant role',
+      });
+    }
+  }
+
+  /**
+   * Revoke a user's moderator or admin role
+   * DELETE /api/reputation/moderation/moderators/:userId
+   */
+  async revokeModeratorRole(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.moderationService.revokeRole(req.params.userId);
+      if (!result.success) {
+        this.sendModerationError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Role revoked successfully',
+      });
+    } catch (error) {
+      logger.error('Failed to revoke reputation moderator role:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke role',
+      });
+    }
+  }
+
+  /**
+   * List attestations flagged as possible brigading, with the evidence for each flag
+   * GET /api/reputation/moderation/flags
+   */
+  async listAttestationFlags(req: Request, res: Response): Promise<void> {
+    try {
+      const status = (req.query.status as string) || 'held';
+      if (!['held', 'released', 'discarded'].includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: 'status must be held, released or discarded',
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const { flags, total } = await this.brigadingService.listFlags({
+        status: status as AttestationFlagStatus,
+        page,
+        limit,
+      });
+
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        success: true,
+        data: {
+          flags,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to list attestation flags:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list attestation flags',
+      });
+    }
+  }
+
+  /**
+   * Release a held attestation so it counts, or discard it
+   * POST /api/reputation/moderation/flags/:flagId/review
+   */
+  async reviewAttestationFlag(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { decision, note }: ReviewAttestationFlagRequest = req.body;
+
+      if (decision !== 'release' && decision !== 'discard') {
+        res.status(400).json({
+          success: false,
+          error: 'decision must be release or discard',
+        });
+        return;
+      }
+      if (note !== undefined && (typeof note !== 'string' || note.length > 2000)) {
+        res.status(400).json({
+          success: false,
+          error: 'note must be a string of at most 2000 characters',
+        });
+        return;
+      }
+
+      const result = await this.brigadingService.reviewFlag(req.params.flagId, user.id, {
+        decision,
+        note,
+      });
+      if (!result.success) {
+        this.sendModerationError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: decision === 'release' ? 'Attestation released' : 'Attestation discarded',
+      });
+    } catch (error) {
+      logger.error('Failed to review attestation flag:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to review attestation flag',
+      });
+    }
+  }
+
+  // A failed recalculation shouldn't fail the change that triggered it; the score is
+  // recomputed on its next read once it goes stale
+  private async refreshReputationScore(playerId: string): Promise<void> {
+    try {
+      await this.scoreService.recalculateScore(playerId);
+    } catch (error) {
+      logger.error('Failed to recalculate reputation score:', { playerId, error });
+    }
+  }
+
+  // Viewing or reporting a player moves their next background sync up. Scheduling
+  // is best-effort and never fails the request.
+  private async prioritizePlayerSync(playerId: string, viewed = false): Promise<void> {
+    try {
+      if (viewed) {
+        await this.playerSyncService.recordView(playerId);
+      } else {
+        await this.playerSyncService.prioritize(playerId);
+      }
+    } catch (error) {
+      logger.error('Failed to prioritize player sync:', { playerId, error });
+    }
+  }
+
+  // Alerts the player's watchers, and for organization reports the organization's
+  // watchers. Alerts are best-effort and never fail the change that caused them.
+  private async notifyWatchers(
+    playerId: string,
+    event: WatchedPlayerEvent,
+    organizationReport?: OrganizationReport
+  ): Promise<void> {
+    try {
+      const player = await this.scPlayerModel.findById(playerId);
+      if (!player) return;
+
+      await this.watchlistService.notifyPlayerEvent(player, event);
+      if (organizationReport) {
+        await this.watchlistService.notifyOrganizationReport(player, organizationReport);
+      }
+    } catch (error) {
+      logger.error('Failed to notify watchers:', { playerId, type: event.type, error });
+    }
+  }
+
+  private truncate(value: string, length = 100): string {
+    return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+  }
+
+  // Screens a new or changed attestation and reports whether it is held for review.
+  // Screening failures are logged rather than failing the vote.
+  private async screenAttestation(
+    kind: AttestationKind,
+    attestation: { id: string; held_for_review?: boolean }
+  ): Promise<boolean> {
+    try {
+      const flags = await this.brigadingService.screen(kind, attestation.id);
+      return !!attestation.held_for_review || flags.some(flag => flag.attestation_id === attestation.id);
+    } catch (error) {
+      logger.error('Failed to screen attestation:', { kind, attestationId: attestation.id, error });
+      return !!attestation.held_for_review;
+    }
+  }
+
+  private isReportType(value: unknown): value is ReputationReportType {
+    return REPUTATION_REPORT_TYPES.includes(value as ReputationReportType);
+  }
+
+  private validateWrittenReason(value: unknown, field: string): string | null {
+    if (typeof value !== 'string' || !value.trim()) {
+      return `A written ${field} is required`;
+    }
+    if (value.length > MAX_RATIONALE_LENGTH) {
+      return `${field} must be at most ${MAX_RATIONALE_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  private sendModerationError(
+    res: Response,
+    result: Extract<ServiceResult<unknown>, { success: false }>
+  ): void {
+    res.status(MODERATION_ERROR_STATUS[result.code]).json({
+      success: false,
+      error: result.error,
+    });
+  }
+}
@@ -0,0 +1,317 @@
+import { Request, Response } from 'express';
+import { ResourcePermissionModel } from '../models/resource_permission_model';
+import { RoleModel } from '../models/role_model';
+import { UserModel } from '../models/user_model';
+import { EventModel } from '../models/event_model';
+import { HRDocumentModel } from '../models/hr_document_model';
+import { PermissionHelper } from '../middleware/permissions';
+import { HRPermissionHelper } from '../middleware/hr_permissions';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
+import {
+  EffectiveAccess,
+  OverrideEffect,
+  OverrideSubjectType,
+  ResourceAction,
+  ResourceType,
+} from '../types/resource_permission';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+
+const RESOURCE_TYPES: ResourceType[] = ['document_folder', 'document', 'event'];
+const SUBJECT_TYPES: OverrideSubjectType[] = ['role', 'user'];
+const ACTIONS: ResourceAction[] = ['view', 'manage'];
+const EFFECTS: OverrideEffect[] = ['allow', 'deny'];
+
+export class ResourcePermissionController {
+  private resourcePermissionModel: ResourcePermissionModel;
+  private roleModel: RoleModel;
+  private userModel: UserModel;
+  private eventModel: EventModel;
+  private documentModel: HRDocumentModel;
+
+  constructor() {
+    this.resourcePermissionModel = new ResourcePermissionModel();
+    this.roleModel = new RoleModel();
+    this.userModel = new UserModel();
+    this.eventModel = new EventModel();
+    this.documentModel = new HRDocumentModel();
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/permission-overrides
+   * List overrides, optionally for a single resource
+   */
+  async listOverrides(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!;
+      const { resource_type, resource_id } = req.query;
+
+      if (resource_type && !RESOURCE_TYPES.includes(resource_type as ResourceType)) {
+        res.status(400).json({
+          success: false,
+          error: `resource_type must be one of: ${RESOURCE_TYPES.join(', ')}`,
+        });
+        return;
+      }
+
+      const overrides = await this.resourcePermissionModel.listByOrganization(organization.id, {
+        resource_type: resource_type as ResourceType | undefined,
+        resource_id: resource_id
+          ? this.normalizeResourceId(resource_type as ResourceType, resource_id as string)
+          : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: overrides,
+      });
+    } catch (error) {
+      logger.error('Failed to list permission overrides', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list permission overrides',
+      });
+    }
+  }
+
+  /**
+   * POST /api/organizations/:rsi_org_id/permission-overrides
+   * Create or replace an allow/deny override for a role or user on a resource
+   */
+  async createOverride(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!;
+      const userId = getUserFromRequest(req)?.id;
+      const { resource_type, resource_id, subject_type, subject_id, action = 'view', effect } = req.body;
+
+      if (
+        !RESOURCE_TYPES.includes(resource_type) ||
+        !SUBJECT_TYPES.includes(subject_type) ||
+        !ACTIONS.includes(action) ||
+        !EFFECTS.includes(effect) ||
+        !resource_id ||
+        !subject_id
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'resource_type, resource_id, subject_type, subject_id and effect are required',
+        });
+        return;
+      }
+
+      const resourceId = this.normalizeResourceId(resource_type, resource_id);
+      const resourceError = await this.validateResource(organization.id, resource_type, resourceId);
+      if (resourceError) {
+        res.status(resourceError.status).json({ success: false, error: resourceError.error });
+        return;
+      }
+
+      if (subject_type === 'role') {
+        const role = await this.roleModel.findById(subject_id);
+        if (!role || role.organization_id !== organization.id) {
+          res.status(404).json({ success: false, error: 'Role not found' });
+          return;
+        }
+      } else {
+        // Users don't need to be members: a user override can grant a guest access to one resource
+        const user = await this.userModel.findById(subject_id);
+        if (!user) {
+          res.status(404).json({ success: false, error: 'User not found' });
+          return;
+        }
+      }
+
+      const override = await this.resourcePermissionModel.upsert({
+        organization_id: organization.id,
+        resource_type,
+        resource_id: resourceId,
+        subject_type,
+        subject_id,
+        action,
+        effect,
+        created_by: userId,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: override,
+      });
+    } catch (error) {
+      logger.error('Failed to create permission override', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create permission override',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/organizations/:rsi_org_id/permission-overrides/:overrideId
+   */
+  async deleteOverride(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!;
+      const { overrideId } = req.params;
+
+      const override = await this.resourcePermissionModel.findById(overrideId);
+      if (!override || override.organization_id !== organization.id) {
+        res.status(404).json({
+          success: false,
+          error: 'Permission override not found',
+        });
+        return;
+      }
+
+      await this.resourcePermissionModel.delete(overrideId);
+
+      res.json({
+        success: true,
+        message: 'Permission override removed',
+      });
+    } catch (error) {
+      logger.error('Failed to delete permission override', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+        overrideId: req.params.overrideId,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete permission override',
+      });
+    }
+  }
+
+  /**
+   * GET /api/organizations/:rsi_org_id/effective-access
+   * Explain whether a user can view or manage a resource, and which rule decided it.
+   * Anyone can check their own access; checking another user requires role management.
+   */
+  async getEffectiveAccess(req: Request, res: Response): Promise<void> {
+    try {
+      const organization = req.org!;
+      const requesterId = getUserFromRequest(req)?.id;
+
+      if (!requesterId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { resource_type, resource_id, action = 'view', user_id } = req.query;
+      const resourceType = resource_type as ResourceType;
+      const resourceAction = action as ResourceAction;
+      const targetUserId = (user_id as string) || requesterId;
+
+      if (!RESOURCE_TYPES.includes(resourceType) || !resource_id || !ACTIONS.includes(resourceAction)) {
+        res.status(400).json({
+          success: false,
+          error: 'resource_type, resource_id and a valid action are required',
+        });
+        return;
+      }
+
+      if (targetUserId !== requesterId) {
+        const canInspect = await PermissionHelper.hasOrganizationPermission(
+          organization.id,
+          requesterId,
+          ORGANIZATION_PERMISSIONS.MANAGE_ROLES
+        );
+        if (!canInspect) {
+          res.status(403).json({
+            success: false,
+            error: 'Insufficient permissions to inspect other users',
+          });
+          return;
+        }
+      }
+
+      const resourceId = this.normalizeResourceId(resourceType, resource_id as string);
+      let access: EffectiveAccess;
+
+      if (resourceType === 'event') {
+        const event = await this.eventModel.findById(resourceId);
+        if (!event || event.organization_id !== organization.id) {
+          res.status(404).json({ success: false, error: 'Event not found' });
+          return;
+        }
+        access = await PermissionHelper.explainEventAccess(event, targetUserId, resourceAction);
+      } else if (resourceType === 'document') {
+        const document = await this.documentModel.findDocumentById(resourceId);
+        if (!document || document.organization_id !== organization.id) {
+          res.status(404).json({ success: false, error: 'Document not found' });
+          return;
+        }
+        access = await HRPermissionHelper.explainDocumentAccess(
+          organization.id,
+          targetUserId,
+          document,
+          resourceAction
+        );
+      } else {
+        access = await HRPermissionHelper.explainFolderAccess(
+          organization.id,
+          targetUserId,
+          resourceId,
+          resourceAction
+        );
+      }
+
+      res.json({
+        success: true,
+        data: access,
+      });
+    } catch (error) {
+      logger.error('Failed to resolve effective access', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        organizationId: req.org?.id,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resolve effective access',
+      });
+    }
+  }
+
+  // Folder paths are stored without a trailing slash so '/policies/' and '/policies' match
+  private normalizeResourceId(resourceType: ResourceType, resourceId: string): string {
+    if (resourceType !== 'document_folder') return resourceId;
+
+    const trimmed = resourceId.trim().replace(/\/+$/, '');
+    return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  }
+
+  private async validateResource(
+    organizationId: string,
+    resourceType: ResourceType,
+    resourceId: string
+  ): Promise<{ status: number; error: string } | null> {
+    if (resourceType === 'event') {
+      const event = await this.eventModel.findById(resourceId);
+      return event && event.organization_id === organizationId
+        ? null
+        : { status: 404, error: 'Event not found' };
+    }
+
+    if (resourceType === 'document') {
+      const document = await this.documentModel.findDocumentById(resourceId);
+      return document && document.organization_id === organizationId
+        ? null
+        : { status: 404, error: 'Document not found' };
+    }
+
+    // Folders are implicit in document paths, so overrides may be set before any document exists
+    return null;
+  }
+}
@@ -347,7 +347,8 @@ export class RoleController {
       const success = await this.roleModel.assignRoleToUser(
         organizationId,
         targetUserId,
-        roleId
+        roleId,
+        userId
       );
       if (!success) {
         res.status(400).json({ error: 'Failed to assign role' });
@@ -365,6 +366,160 @@ export class RoleController {
     }
   }
 
+  /**
+   * Give a member an additional role
+   */
+  async addMemberRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { spectrumId, userId: targetUserId } = req.params;
+      const userId = getUserFromRequest(req)?.id;
+      const { roleId } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      if (!roleId) {
+        res.status(400).json({ error: 'roleId is required' });
+        return;
+      }
+
+      // Convert spectrum ID to internal ID
+      const organizationId = await this.getOrganizationIdFromSpectrum(spectrumId);
+      if (!organizationId) {
+        res.status(404).json({ error: 'Organization not found' });
+        return;
+      }
+
+      const denied = await this.checkMemberRoleChange(
+        organizationId,
+        userId,
+        targetUserId,
+        roleId
+      );
+      if (denied) {
+        res.status(denied.status).json({ error: denied.error });
+        return;
+      }
+
+      await this.roleModel.addRoleToUser(organizationId, targetUserId, roleId, userId);
+
+      const roles = await this.roleModel.getUserRoles(organizationId, targetUserId);
+      res.json({ success: true, roles });
+    } catch (error) {
+      logger.error('Error adding member role:', error);
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Take a single role away from a member
+   */
+  async removeMemberRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { spectrumId, userId: targetUserId, roleId } = req.params;
+      const userId = getUserFromRequest(req)?.id;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      // Convert spectrum ID to internal ID
+      const organizationId = await this.getOrganizationIdFromSpectrum(spectrumId);
+      if (!organizationId) {
+        res.status(404).json({ error: 'Organization not found' });
+        return;
+      }
+
+      const denied = await this.checkMemberRoleChange(
+        organizationId,
+        userId,
+        targetUserId,
+        roleId
+      );
+      if (denied) {
+        res.status(denied.status).json({ error: denied.error });
+        return;
+      }
+
+      const removed = await this.roleModel.removeRoleFromUser(
+        organizationId,
+        targetUserId,
+        roleId
+      );
+      if (!removed) {
+        res.status(404).json({ error: 'Member does not have this role' });
+        return;
+      }
+
+      const roles = await this.roleModel.getUserRoles(organizationId, targetUserId);
+      res.json({ success: true, roles });
+    } catch (error) {
+      logger.error('Error removing member role:', error);
+      if (error instanceof Error && error.message.includes('at least one role')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Shared checks for adding or removing a single member role.
+   * Returns the rejection to send, or null when the change is allowed.
+   */
+  private async checkMemberRoleChange(
+    organizationId: string,
+    managerUserId: string,
+    targetUserId: string,
+    roleId: string
+  ): Promise<{ status: number; error: string } | null> {
+    const canAssignRoles = await this.roleModel.userHasPermission(
+      organizationId,
+      managerUserId,
+      ORGANIZATION_PERMISSIONS.ASSIGN_ROLES
+    );
+    if (!canAssignRoles) {
+      return { status: 403, error: 'Insufficient permissions' };
+    }
+
+    const isMember = await this.organizationModel.isUserMember(
+      organizationId,
+      targetUserId
+    );
+    if (!isMember) {
+      return { status: 404, error: 'User is not a member of this organization' };
+    }
+
+    const canManage = await this.roleModel.canManageUserRole(
+      organizationId,
+      managerUserId,
+      targetUserId
+    );
+    if (!canManage) {
+      return { status: 403, error: 'Cannot change roles for this user' };
+    }
+
+    const role = await this.roleModel.findById(roleId);
+    if (!role || role.organization_id !== organizationId) {
+      return { status: 404, error: 'Role not found in this organization' };
+    }
+
+    // Managers can only hand out or take away roles below their own rank
+    const managerRank = await this.roleModel.getUserRank(organizationId, managerUserId);
+    if (managerRank === null || role.rank >= managerRank) {
+      return { status: 403, error: 'Cannot manage a role with equal or higher rank' };
+    }
+
+    return null;
+  }
+
   /**
    * Get organization members with their roles
    * Hidden members are only visible to other members of the same organization
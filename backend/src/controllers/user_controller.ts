@@ -1,9 +1,20 @@
 import { Request, Response } from 'express';
 import { UserModel } from '../models/user_model';
+import { AccountLifecycleService } from '../services/account_lifecycle_service';
+import { CreateAccountDeletionRequest } from '../types/user';
 import logger from '../config/logger';
 
 import { getUserFromRequest, requireUserFromRequest } from '../utils/user-casting';
 const userModel = new UserModel();
+const accountLifecycleService = new AccountLifecycleService();
+
+const MAX_DELETION_REASON_LENGTH = 2000;
+
+const ACCOUNT_ERROR_STATUS = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+} as const;
 
 export class UserController {
   // Get public user profile by RSI handle
@@ -193,4 +204,175 @@ export class UserController {
       });
     }
   }
+
+  // Download everything stored about the user as a JSON archive
+  async exportAccountData(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const user = requireUserFromRequest(req);
+      const result = await accountLifecycleService.exportAccountData(user.id);
+
+      if (!result.success) {
+        res.status(ACCOUNT_ERROR_STATUS[result.code]).json({
+          success: false,
+          error: result.error,
+        });
+        return;
+      }
+
+      const date = result.data.exported_at.toISOString().slice(0, 10);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="account-export-${date}.json"`
+      );
+      res.json(result.data);
+    } catch (error) {
+      logger.error('Failed to export account data:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export account data',
+      });
+    }
+  }
+
+  // Get the user's scheduled deletion and the organizations they would need to hand over
+  async getAccountDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const user = requireUserFromRequest(req);
+      const status = await accountLifecycleService.getDeletionStatus(user.id);
+
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      logger.error('Failed to get account deletion status:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get account deletion status',
+      });
+    }
+  }
+
+  // Schedule the user's account for deletion after the grace period
+  async requestAccountDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { reason, organization_transfers }: CreateAccountDeletionRequest =
+        req.body || {};
+
+      if (
+        reason !== undefined &&
+        (typeof reason !== 'string' ||
+          reason.length > MAX_DELETION_REASON_LENGTH)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `reason must be a string of at most ${MAX_DELETION_REASON_LENGTH} characters`,
+        });
+        return;
+      }
+
+      if (
+        organization_transfers !== undefined &&
+        (!Array.isArray(organization_transfers) ||
+          organization_transfers.some(
+            transfer =>
+              typeof transfer?.organization_id !== 'string' ||
+              typeof transfer?.new_owner_id !== 'string'
+          ))
+      ) {
+        res.status(400).json({
+          success: false,
+          error:
+            'organization_transfers must be a list of organization_id and new_owner_id pairs',
+        });
+        return;
+      }
+
+      const user = requireUserFromRequest(req);
+      const result = await accountLifecycleService.requestDeletion(user.id, {
+        ...(reason !== undefined && { reason }),
+        ...(organization_transfers !== undefined && { organization_transfers }),
+      });
+
+      if (!result.success) {
+        res.status(ACCOUNT_ERROR_STATUS[result.code]).json({
+          success: false,
+          error: result.error,
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: 'Account deletion scheduled',
+      });
+    } catch (error) {
+      logger.error('Failed to request account deletion:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to request account deletion',
+      });
+    }
+  }
+
+  // Cancel a scheduled account deletion during the grace period
+  async cancelAccountDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const user = requireUserFromRequest(req);
+      const result = await accountLifecycleService.cancelDeletion(user.id);
+
+      if (!result.success) {
+        res.status(ACCOUNT_ERROR_STATUS[result.code]).json({
+          success: false,
+          error: result.error,
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: 'Account deletion cancelled',
+      });
+    } catch (error) {
+      logger.error('Failed to cancel account deletion:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel account deletion',
+      });
+    }
+  }
 }
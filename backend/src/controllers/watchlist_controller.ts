@@ -0,0 +1,463 @@
+import { Request, Response } from 'express';
+import { WatchlistService } from '../services/watchlist_service';
+import { PlayerSyncService } from '../services/player_sync_service';
+import { ServiceResult } from '../types/service_result';
+import { getUserFromRequest } from '../utils/user-casting';
+import logger from '../config/logger';
+import {
+  AddWatchlistEntryRequest,
+  CreateWatchlistRequest,
+  UpdateWatchlistRequest,
+} from '../types/reputation';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_LENGTH = 2000;
+
+const WATCHLIST_ERROR_STATUS = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+} as const;
+
+export class WatchlistController {
+  private watchlistService: WatchlistService;
+  private playerSyncService: PlayerSyncService;
+
+  constructor() {
+    this.watchlistService = new WatchlistService();
+    this.playerSyncService = new PlayerSyncService();
+  }
+
+  /**
+   * List the user's personal watchlists and those shared with their organizations
+   * GET /api/reputation/watchlists
+   */
+  async listWatchlists(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const watchlists = await this.watchlistService.listWatchlists(user.id);
+
+      res.json({
+        success: true,
+        data: watchlists,
+      });
+    } catch (error) {
+      logger.error('Failed to list watchlists:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list watchlists',
+      });
+    }
+  }
+
+  /**
+   * Create a personal watchlist, or one shared with an organization
+   * POST /api/reputation/watchlists
+   */
+  async createWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { name, description, organization_id }: CreateWatchlistRequest =
+        req.body;
+
+      const validationError =
+        this.validateName(name) ||
+        this.validateText(description, 'description');
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError,
+        });
+        return;
+      }
+
+      const result = await this.watchlistService.createWatchlist(user.id, {
+        name,
+        description,
+        organization_id,
+      });
+      if (!result.success) {
+        this.sendWatchlistError(res, result);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: 'Watchlist created',
+      });
+    } catch (error) {
+      logger.error('Failed to create watchlist:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create watchlist',
+      });
+    }
+  }
+
+  /**
+   * Get a watchlist and the players and organizations on it
+   * GET /api/reputation/watchlists/:watchlistId
+   */
+  async getWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await this.watchlistService.getWatchlist(
+        req.params.watchlistId,
+        user.id
+      );
+      if (!result.success) {
+        this.sendWatchlistError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      logger.error('Failed to get watchlist:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get watchlist',
+      });
+    }
+  }
+
+  /**
+   * Rename a watchlist or change its description
+   * PUT /api/reputation/watchlists/:watchlistId
+   */
+  async updateWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { name, description }: UpdateWatchlistRequest = req.body;
+
+      const validationError =
+        (name !== undefined ? this.validateName(name) : null) ||
+        (description !== null
+          ? this.validateText(description, 'description')
+          : null);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError,
+        });
+        return;
+      }
+
+      const result = await this.watchlistService.updateWatchlist(
+        req.params.watchlistId,
+        user.id,
+        {
+          name,
+          description,
+        }
+      );
+      if (!result.success) {
+        this.sendWatchlistError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: 'Watchlist updated',
+      });
+    } catch (error) {
+      logger.error('Failed to update watchlist:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update watchlist',
+      });
+    }
+  }
+
+  /**
+   * Delete a watchlist and everything on it
+   * DELETE /api/reputation/watchlists/:watchlistId
+   */
+  async deleteWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await this.watchlistService.deleteWatchlist(
+        req.params.watchlistId,
+        user.id
+      );
+      if (!result.success) {
+        this.sendWatchlistError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Watchlist deleted',
+      });
+    } catch (error) {
+      logger.error('Failed to delete watchlist:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete watchlist',
+      });
+    }
+  }
+
+  /**
+   * Add a player (by Spectrum ID) or an organization (by SID) to a watchlist
+   * POST /api/reputation/watchlists/:watchlistId/entries
+   */
+  async addEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const request: AddWatchlistEntryRequest = req.body;
+
+      let validationError: string | null = null;
+      if (
+        request.entry_type !== 'player' &&
+        request.entry_type !== 'organization'
+      ) {
+        validationError = 'entry_type must be player or organization';
+      } else if (request.entry_type === 'player' && !request.spectrum_id) {
+        validationError = 'spectrum_id is required for player entries';
+      } else if (
+        request.entry_type === 'organization' &&
+        (typeof request.org_spectrum_id !== 'string' ||
+          !request.org_spectrum_id.trim())
+      ) {
+        validationError =
+          'org_spectrum_id is required for organization entries';
+      } else {
+        validationError = this.validateText(request.note, 'note');
+      }
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError,
+        });
+        return;
+      }
+
+      const result = await this.watchlistService.addEntry(
+        req.params.watchlistId,
+        user.id,
+        request
+      );
+      if (!result.success) {
+        this.sendWatchlistError(res, result);
+        return;
+      }
+      if (result.data.player_id) {
+        await this.prioritizePlayerSync(result.data.player_id);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: 'Added to watchlist',
+      });
+    } catch (error) {
+      logger.error('Failed to add watchlist entry:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add watchlist entry',
+      });
+    }
+  }
+
+  /**
+   * Remove a player or organization from a watchlist
+   * DELETE /api/reputation/watchlists/:watchlistId/entries/:entryId
+   */
+  async removeEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await this.watchlistService.removeEntry(
+        req.params.watchlistId,
+        req.params.entryId,
+        user.id
+      );
+      if (!result.success) {
+        this.sendWatchlistError(res, result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Removed from watchlist',
+      });
+    } catch (error) {
+      logger.error('Failed to remove watchlist entry:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove watchlist entry',
+      });
+    }
+  }
+
+  /**
+   * Download a watchlist as CSV or JSON
+   * GET /api/reputation/watchlists/:watchlistId/export
+   */
+  async exportWatchlist(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getUserFromRequest(req);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const format = (req.query.format as string) || 'csv';
+      if (format !== 'csv' && format !== 'json') {
+        res.status(400).json({
+          success: false,
+          error: 'format must be csv or json',
+        });
+        return;
+      }
+
+      const result = await this.watchlistService.getWatchlist(
+        req.params.watchlistId,
+        user.id
+      );
+      if (!result.success) {
+        this.sendWatchlistError(res, result);
+        return;
+      }
+
+      const { watchlist, entries } = result.data;
+      const filename = `watchlist-${watchlist.id}-${new Date().toISOString().split('T')[0]}`;
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${filename}.csv"`
+        );
+        res.send(this.watchlistService.toCsv(entries));
+        return;
+      }
+
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}.json"`
+      );
+      res.json({
+        name: watchlist.name,
+        description: watchlist.description,
+        organization_name: watchlist.organization_name,
+        exported_at: new Date().toISOString(),
+        entries: entries.map(entry => ({
+          type: entry.entry_type,
+          spectrum_id: entry.player_spectrum_id,
+          handle: entry.player_handle,
+          org_spectrum_id: entry.org_spectrum_id,
+          org_name: entry.org_name,
+          note: entry.note,
+          added_at: entry.created_at,
+        })),
+      });
+    } catch (error) {
+      logger.error('Failed to export watchlist:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export watchlist',
+      });
+    }
+  }
+
+  // Watched players are synced on the watched schedule; scheduling never fails the request
+  private async prioritizePlayerSync(playerId: string): Promise<void> {
+    try {
+      await this.playerSyncService.prioritize(playerId);
+    } catch (error) {
+      logger.error('Failed to prioritize player sync:', { playerId, error });
+    }
+  }
+
+  private validateName(value: unknown): string | null {
+    if (typeof value !== 'string' || !value.trim()) {
+      return 'name is required';
+    }
+    if (value.length > MAX_NAME_LENGTH) {
+      return `name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  private validateText(value: unknown, field: string): string | null {
+    if (value === undefined) return null;
+    if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) {
+      return `${field} must be a string of at most ${MAX_TEXT_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  private sendWatchlistError(
+    res: Response,
+    result: Extract<ServiceResult<unknown>, { success: false }>
+  ): void {
+    res.status(WATCHLIST_ERROR_STATUS[result.code]).json({
+      success: false,
+      error: result.error,
+    });
+  }
+}
@@ -14,6 +14,7 @@ import notificationRoutes from './routes/notification_routes';
 import userRoutes from './routes/user_routes';
 import discordRoutes from './routes/discord_routes';
 import reputationRoutes from './routes/reputation_routes';
+import calendarRoutes from './routes/calendar_routes';
 import openapiRoutes from './routes/openapi_routes';
 import logger from './config/logger';
 import { authenticateJWT } from './middleware/auth';
@@ -143,6 +144,7 @@ app.use('/api/comments', commentRoutes);
 app.use('/api/roles', roleRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/reputation', reputationRoutes);
+app.use('/api/calendar', calendarRoutes);
 app.use('/api', discordRoutes);
 app.use('/api/openapi', openapiRoutes);
 
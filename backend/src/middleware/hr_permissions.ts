@@ -1,11 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { RoleModel } from '../models/role_model';
+import { HRDocument } from '../models/hr_document_model';
+import { ResourceAccessService } from '../services/resource_access_service';
 import { ORGANIZATION_PERMISSIONS } from '../types/role';
+import {
+  AccessDecision,
+  EffectiveAccess,
+  ResourceAction,
+} from '../types/resource_permission';
 import logger from '../config/logger';
 import { getUserFromRequest } from '../utils/user-casting';
 
 export class HRPermissionHelper {
   private static roleModel = new RoleModel();
+  private static resourceAccessService = new ResourceAccessService();
 
   /**
    * Check if user has HR Manager permissions
@@ -58,6 +66,116 @@ export class HRPermissionHelper {
     return await this.roleModel.userHasPermission(organizationId, userId, permission);
   }
 
+  /**
+   * Resolve a user's access to a document and explain which rule decided it.
+   * Document and folder overrides take precedence over the document's access roles.
+   */
+  static async explainDocumentAccess(
+    organizationId: string,
+    userId: string,
+    document: Pick<HRDocument, 'id' | 'folder_path' | 'access_roles'>,
+    action: ResourceAction = 'view',
+    roleIds?: string[]
+  ): Promise<EffectiveAccess> {
+    const userRoleIds =
+      roleIds ?? (await this.roleModel.getUserRoleIds(organizationId, userId));
+
+    let defaultAccess: AccessDecision;
+    if (action === 'manage') {
+      defaultAccess = await this.getDocumentManagementDefault(organizationId, userId);
+    } else if (!document.access_roles || document.access_roles.length === 0) {
+      // Unrestricted documents are accessible to all organization members
+      defaultAccess = userRoleIds.length > 0
+        ? { allowed: true, reason: 'Document is available to all organization members' }
+        : { allowed: false, reason: 'User is not a member of this organization' };
+    } else {
+      defaultAccess = userRoleIds.some(roleId => document.access_roles.includes(roleId))
+        ? { allowed: true, reason: 'Granted by the document access roles' }
+        : { allowed: false, reason: 'None of the user roles are in the document access roles' };
+    }
+
+    return this.resourceAccessService.evaluate(
+      organizationId,
+      userId,
+      this.resourceAccessService.getDocumentScopes(document.id, document.folder_path),
+      action,
+      defaultAccess,
+      userRoleIds
+    );
+  }
+
+  /**
+   * Check if user can view a document, including per-resource overrides
+   */
+  static async canAccessDocument(
+    organizationId: string,
+    userId: string,
+    document: Pick<HRDocument, 'id' | 'folder_path' | 'access_roles'>,
+    roleIds?: string[]
+  ): Promise<boolean> {
+    const access = await this.explainDocumentAccess(
+      organizationId,
+      userId,
+      document,
+      'view',
+      roleIds
+    );
+    return access.allowed;
+  }
+
+  /**
+   * Resolve a user's access to a document folder and explain which rule decided it
+   */
+  static async explainFolderAccess(
+    organizationId: string,
+    userId: string,
+    folderPath: string,
+    action: ResourceAction = 'view'
+  ): Promise<EffectiveAccess> {
+    const userRoleIds = await this.roleModel.getUserRoleIds(organizationId, userId);
+
+    let defaultAccess: AccessDecision;
+    if (action === 'manage') {
+      defaultAccess = await this.getDocumentManagementDefault(organizationId, userId);
+    } else {
+      defaultAccess = userRoleIds.length > 0
+        ? { allowed: true, reason: 'Organization members can browse document folders' }
+        : { allowed: false, reason: 'User is not a member of this organization' };
+    }
+
+    return this.resourceAccessService.evaluate(
+      organizationId,
+      userId,
+      this.resourceAccessService.getFolderScopes(folderPath),
+      action,
+      defaultAccess,
+      userRoleIds
+    );
+  }
+
+  /**
+   * Whether the user has any document or folder overrides, which list queries must account for
+   */
+  static async hasDocumentOverrides(
+    organizationId: string,
+    userId: string,
+    roleIds: string[]
+  ): Promise<boolean> {
+    return this.resourceAccessService.hasDocumentOverrides(organizationId, userId, roleIds);
+  }
+
+  private static async getDocumentManagementDefault(
+    organizationId: string,
+    userId: string
+  ): Promise<AccessDecision> {
+    const permission = ORGANIZATION_PERMISSIONS.MANAGE_HR_DOCUMENTS;
+    const canManage = await this.roleModel.userHasPermission(organizationId, userId, permission);
+
+    return canManage
+      ? { allowed: true, reason: `Granted by permission: ${permission}` }
+      : { allowed: false, reason: `Missing required permission: ${permission}` };
+  }
+
   /**
    * Get user's HR permissions for data filtering
    */
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import Ajv, { JSONSchemaType, ValidateFunction } from 'ajv';
 import addFormats from 'ajv-formats';
 import logger from '../config/logger';
+import { VALID_LANGUAGES } from '../utils/languageValidation';
 
 // Initialize AJV with formats support
 const ajv = new Ajv({ 
@@ -200,13 +201,49 @@ export const hrValidationSchemas = {
           cover_letter: { type: 'string', maxLength: 2000 },
           experience: { type: 'string', maxLength: 1000 },
           availability: { type: 'string', maxLength: 500 },
-          custom_fields: { type: 'object' }
+          custom_fields: { type: 'object' },
+          // Checked against the form's questions by the application form service
+          answers: { type: 'object' }
         },
-        required: ['cover_letter'],
         additionalProperties: false
-      }
+      },
+      form_id: { type: 'string', format: 'uuid' },
+      form_version: { type: 'integer', minimum: 1 }
     },
     required: ['application_data'],
+    // Applications sent through an organization's form answer its questions instead
+    // of writing a cover letter
+    if: { required: ['form_id'] },
+    then: {
+      required: ['form_version'],
+      properties: { application_data: { required: ['answers'] } }
+    },
+    else: {
+      properties: { application_data: { required: ['cover_letter'] } }
+    },
+    additionalProperties: false
+  },
+
+  createApplicationForm: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      description: { type: 'string', maxLength: 1000 },
+      // Question shapes are checked by the application form service
+      questions: { type: 'array', minItems: 1, maxItems: 50, items: { type: 'object' } }
+    },
+    required: ['name', 'questions'],
+    additionalProperties: false
+  },
+
+  updateApplicationForm: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      description: { type: 'string', maxLength: 1000 },
+      is_active: { type: 'boolean' },
+      questions: { type: 'array', minItems: 1, maxItems: 50, items: { type: 'object' } }
+    },
     additionalProperties: false
   },
 
@@ -224,6 +261,146 @@ export const hrValidationSchemas = {
     additionalProperties: false
   },
 
+  // Recruitment pipeline schemas
+  updatePipelineStages: {
+    type: 'object',
+    properties: {
+      stages: {
+        type: 'array',
+        maxItems: 30,
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            description: { type: 'string', maxLength: 500 },
+            status: {
+              type: 'string',
+              enum: ['pending', 'under_review', 'interview_scheduled', 'approved', 'rejected']
+            }
+          },
+          required: ['name', 'status'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['stages'],
+    additionalProperties: false
+  },
+
+  pipelineRule: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      trigger: {
+        type: 'string',
+        enum: ['application_submitted', 'status_changed', 'stage_entered', 'idle']
+      },
+      conditions: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'string',
+            enum: ['pending', 'under_review', 'interview_scheduled', 'approved', 'rejected']
+          },
+          stage_id: { type: 'string', format: 'uuid' },
+          idle_days: { type: 'integer', minimum: 1, maximum: 365 }
+        },
+        additionalProperties: false
+      },
+      // Action shapes are checked by the pipeline service
+      actions: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 10,
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: [
+                'reject',
+                'move_to_stage',
+                'assign_round_robin',
+                'generate_invite_code',
+                'assign_role',
+                'start_onboarding'
+              ]
+            }
+          },
+          required: ['type']
+        }
+      },
+      is_active: { type: 'boolean' }
+    },
+    required: ['name', 'trigger', 'actions'],
+    additionalProperties: false
+  },
+
+  moveApplicationStage: {
+    type: 'object',
+    properties: {
+      stage_id: { type: 'string', format: 'uuid' },
+      notes: { type: 'string', maxLength: 1000 },
+      rejection_reason: { type: 'string', maxLength: 500 }
+    },
+    required: ['stage_id'],
+    additionalProperties: false
+  },
+
+  // Interview schemas
+  publishInterviewSlot: {
+    type: 'object',
+    properties: {
+      start_time: { type: 'string', format: 'date-time' },
+      end_time: { type: 'string', format: 'date-time' },
+      create_discord_event: { type: 'boolean' }
+    },
+    required: ['start_time', 'end_time'],
+    additionalProperties: false
+  },
+
+  bookInterviewSlot: {
+    type: 'object',
+    properties: {
+      slot_id: { type: 'string', format: 'uuid' }
+    },
+    required: ['slot_id'],
+    additionalProperties: false
+  },
+
+  recordInterviewNotes: {
+    type: 'object',
+    properties: {
+      notes: {
+        type: 'object',
+        properties: {
+          summary: { type: 'string', minLength: 1, maxLength: 2000 },
+          strengths: { type: 'string', maxLength: 2000 },
+          concerns: { type: 'string', maxLength: 2000 },
+          ratings: {
+            type: 'object',
+            properties: {
+              communication: { type: 'integer', minimum: 1, maximum: 5 },
+              experience: { type: 'integer', minimum: 1, maximum: 5 },
+              teamwork: { type: 'integer', minimum: 1, maximum: 5 },
+              availability: { type: 'integer', minimum: 1, maximum: 5 }
+            },
+            additionalProperties: false
+          }
+        },
+        required: ['summary'],
+        additionalProperties: false
+      },
+      recommendation: {
+        type: 'string',
+        enum: ['strong_yes', 'yes', 'no', 'strong_no']
+      }
+    },
+    required: ['notes', 'recommendation'],
+    additionalProperties: false
+  },
+
   // Onboarding schemas
   createOnboardingTemplate: {
     type: 'object',
@@ -234,11 +411,37 @@ export const hrValidationSchemas = {
         items: {
           type: 'object',
           properties: {
+            id: { type: 'string', minLength: 1, maxLength: 100 },
             title: { type: 'string', minLength: 1, maxLength: 200 },
             description: { type: 'string', maxLength: 1000 },
             required: { type: 'boolean' },
             estimated_hours: { type: 'number', minimum: 0 },
-            order_index: { type: 'integer', minimum: 0 }
+            order_index: { type: 'integer', minimum: 0 },
+            depends_on: {
+              type: 'array',
+              items: { type: 'string', minLength: 1, maxLength: 100 },
+              maxItems: 50
+            },
+            due_offset_days: { type: 'integer', minimum: 0, maximum: 365 },
+            assignee_type: { type: 'string', enum: ['member', 'user', 'role'] },
+            assignee_id: { type: 'string', format: 'uuid' },
+            completion_trigger: {
+              type: 'object',
+              properties: {
+                type: {
+                  type: 'string',
+                  enum: ['document_acknowledged', 'training_attended', 'skill_verified']
+                },
+                document_id: { type: 'string', format: 'uuid' },
+                training_type: {
+                  type: 'string',
+                  enum: ['onboarding', 'skill_development', 'leadership', 'compliance']
+                },
+                skill_id: { type: 'string', format: 'uuid' }
+              },
+              required: ['type'],
+              additionalProperties: false
+            }
           },
           required: ['title', 'description', 'required', 'estimated_hours', 'order_index'],
           additionalProperties: false
@@ -251,6 +454,57 @@ export const hrValidationSchemas = {
     additionalProperties: false
   },
 
+  // Mentorship schemas
+  updateMentorProfile: {
+    type: 'object',
+    properties: {
+      is_mentor: { type: 'boolean' },
+      max_mentees: { type: 'integer', minimum: 0, maximum: 20 },
+      timezone: { type: 'string', maxLength: 100 },
+      languages: {
+        type: 'array',
+        items: { type: 'string', enum: [...VALID_LANGUAGES] },
+        maxItems: 10,
+        uniqueItems: true
+      }
+    },
+    additionalProperties: false
+  },
+
+  assignMentor: {
+    type: 'object',
+    properties: {
+      mentor_id: { type: 'string', format: 'uuid' },
+      check_in_interval_days: { type: 'integer', minimum: 1, maximum: 90 }
+    },
+    additionalProperties: false
+  },
+
+  endMentorship: {
+    type: 'object',
+    properties: {
+      reason: { type: 'string', maxLength: 500 }
+    },
+    additionalProperties: false
+  },
+
+  completeMentorshipCheckIn: {
+    type: 'object',
+    properties: {
+      notes: { type: 'string', maxLength: 5000 }
+    },
+    additionalProperties: false
+  },
+
+  addMentorshipNote: {
+    type: 'object',
+    properties: {
+      content: { type: 'string', minLength: 1, maxLength: 5000 }
+    },
+    required: ['content'],
+    additionalProperties: false
+  },
+
   // Performance review schemas
   createPerformanceReview: {
     type: 'object',
@@ -2,6 +2,15 @@ import { Request, Response, NextFunction } from 'express';
 import { EventModel } from '../models/event_model';
 import { OrganizationModel } from '../models/organization_model';
 import { RoleModel } from '../models/role_model';
+import { ResourceAccessService } from '../services/resource_access_service';
+import { ReputationModerationService } from '../services/reputation_moderation_service';
+import { Event } from '../types/event';
+import {
+  AccessDecision,
+  EffectiveAccess,
+  ResourceAction,
+} from '../types/resource_permission';
+import { ReputationModeratorRole } from '../types/reputation';
 import logger from '../config/logger';
 import db from '../config/database';
 
@@ -11,6 +20,7 @@ export class PermissionHelper {
   private static eventModel = new EventModel();
   private static organizationModel = new OrganizationModel();
   private static roleModel = new RoleModel();
+  private static resourceAccessService = new ResourceAccessService();
 
   /**
    * Check if user can perform a specific action on an event
@@ -26,36 +36,159 @@ export class PermissionHelper {
         return { canManage: false, reason: 'Event not found' };
       }
 
-      // Event creator can always manage their events
-      if (event.created_by === userId) {
-        return { canManage: true, event };
+      const access = await this.explainEventAccess(
+        event,
+        userId,
+        'manage',
+        requiredPermission
+      );
+
+      return {
+        canManage: access.allowed,
+        event,
+        reason: access.allowed ? undefined : access.reason,
+      };
+    } catch (error) {
+      logger.error('Error checking event management permission:', error);
+      return { canManage: false, reason: 'Internal server error' };
+    }
+  }
+
+  /**
+   * Check if user can view an event, honouring per-event overrides for private events
+   */
+  static async canUserViewEvent(
+    event: Event,
+    userId: string
+  ): Promise<{ canView: boolean; reason?: string }> {
+    try {
+      const access = await this.explainEventAccess(event, userId, 'view');
+      return {
+        canView: access.allowed,
+        reason: access.allowed ? undefined : access.reason,
+      };
+    } catch (error) {
+      logger.error('Error checking event view permission:', error);
+      return { canView: false, reason: 'Internal server error' };
+    }
+  }
+
+  /**
+   * Keep the events a user can view. Lists built from membership or visibility alone
+   * go through this so per-event overrides apply to them too.
+   */
+  static async filterViewableEvents<T extends Event>(
+    events: T[],
+    userId?: string | null
+  ): Promise<T[]> {
+    const viewable: T[] = [];
+    for (const event of events) {
+      if (event.is_public) {
+        viewable.push(event);
+      } else if (userId && (await this.canUserViewEvent(event, userId)).canView) {
+        viewable.push(event);
       }
+    }
+    return viewable;
+  }
 
-      // For orgless events, only the creator can manage
-      if (!event.organization_id) {
-        return {
-          canManage: false,
-          event,
-          reason: 'Only the event creator can manage orgless events',
-        };
+  /**
+   * IDs of private events in the user's organizations that overrides hide from them,
+   * for paginated queries that filter private events by membership
+   */
+  static async getDeniedEventIds(userId: string): Promise<string[]> {
+    const candidates = await this.eventModel.getPrivateEventsWithDenyOverrides(userId);
+    const denied: string[] = [];
+    for (const event of candidates) {
+      if (!(await this.canUserViewEvent(event, userId)).canView) {
+        denied.push(event.id);
       }
+    }
+    return denied;
+  }
 
+  /**
+   * Resolve a user's access to an event and explain which rule decided it.
+   * Creators always keep access; organization events then apply per-event
+   * overrides on top of org-wide permissions.
+   */
+  static async explainEventAccess(
+    event: Event,
+    userId: string,
+    action: ResourceAction,
+    requiredPermission?: string
+  ): Promise<EffectiveAccess> {
+    const base = {
+      user_id: userId,
+      resource_type: 'event' as const,
+      resource_id: event.id,
+      action,
+      applicable_overrides: [],
+    };
+
+    // Event creator can always manage their events
+    if (event.created_by === userId) {
+      const decision = {
+        allowed: true,
+        reason: 'Event creators always have access to their events',
+      };
+      return { ...base, ...decision, source: 'creator', default_access: decision };
+    }
+
+    // Public events are visible to everyone, including signed-out users,
+    // so view overrides only apply to private events
+    if (action === 'view' && event.is_public) {
+      const decision = { allowed: true, reason: 'Event is public' };
+      return { ...base, ...decision, source: 'default', default_access: decision };
+    }
+
+    let defaultAccess: AccessDecision;
+    if (!event.organization_id) {
+      // For orgless events, only the creator has access
+      defaultAccess = {
+        allowed: false,
+        reason:
+          action === 'view'
+            ? 'Only the event creator can view private orgless events'
+            : 'Only the event creator can manage orgless events',
+      };
+    } else if (action === 'view') {
+      const isMember = await this.organizationModel.isUserMember(
+        event.organization_id,
+        userId
+      );
+      defaultAccess = isMember
+        ? { allowed: true, reason: 'Organization members can view private events' }
+        : { allowed: false, reason: 'Only organization members can view private events' };
+    } else {
       // For organization events, check organization permissions
       const orgPermission = await this.canUserManageOrganization(
         event.organization_id,
         userId,
         requiredPermission
       );
-
-      return {
-        canManage: orgPermission.canManage,
-        event,
-        reason: orgPermission.reason,
+      defaultAccess = {
+        allowed: orgPermission.canManage,
+        reason:
+          orgPermission.reason ||
+          (requiredPermission
+            ? `Granted by permission: ${requiredPermission}`
+            : 'Organization members can manage organization events'),
       };
-    } catch (error) {
-      logger.error('Error checking event management permission:', error);
-      return { canManage: false, reason: 'Internal server error' };
     }
+
+    // Overrides are organization-scoped, so orgless events only use the defaults
+    if (!event.organization_id) {
+      return { ...base, ...defaultAccess, source: 'default', default_access: defaultAccess };
+    }
+
+    return this.resourceAccessService.evaluate(
+      event.organization_id,
+      userId,
+      [{ resource_type: 'event', resource_id: event.id }],
+      action,
+      defaultAccess
+    );
   }
 
   /**
@@ -358,6 +491,8 @@ export const requireEventDeletePermission =
   requireEventPermission('DELETE_EVENTS');
 export const requireEventNotificationPermission =
   requireEventPermission('SEND_NOTIFICATIONS');
+export const requireEventAttendancePermission =
+  requireEventPermission('MANAGE_EVENTS');
 
 export const requireOrganizationOwnership = requireOrganizationPermission();
 export const requireOrganizationEditPermission =
@@ -422,3 +557,48 @@ export const requireResolvedOrganizationPermission = (requiredPermission?: strin
 
 // Analytics permission (works with resolveOrganization middleware)
 export const requireOrganizationAnalyticsPermission = requireResolvedOrganizationPermission('VIEW_ANALYTICS');
+
+// Middleware factory for platform-wide reputation moderation roles
+export const requireReputationRole = (role: ReputationModeratorRole) => {
+  const moderationService = new ReputationModerationService();
+
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = getUserFromRequest(req)?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      if (!(await moderationService.hasRole(userId, role))) {
+        res.status(403).json({
+          success: false,
+          error:
+            role === 'admin'
+              ? 'Reputation admin role required'
+              : 'Reputation moderator role required',
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Error in requireReputationRole middleware:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Permission check failed',
+      });
+    }
+  };
+};
+
+export const requireReputationModerator = requireReputationRole('moderator');
+export const requireReputationAdmin = requireReputationRole('admin');
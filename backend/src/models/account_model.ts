@@ -0,0 +1,388 @@
+import { Knex } from 'knex';
+import db from '../config/database';
+import {
+  AccountDataExport,
+  AccountDeletionRequest,
+  AccountDeletionStatus,
+  OrganizationTransfer,
+  OwnedOrganization,
+} from '../types/user';
+import { generateDeletedUserHandle } from '../utils/username';
+
+export interface NewAccountDeletionRequest {
+  user_id: string;
+  reason?: string | null;
+  organization_transfers: OrganizationTransfer[];
+  scheduled_for: Date;
+}
+
+export interface AccountDeletionRequestUpdate {
+  status?: AccountDeletionStatus;
+  organization_transfers?: OrganizationTransfer[];
+  cancelled_at?: Date | null;
+  completed_at?: Date | null;
+  blocked_reason?: string | null;
+}
+
+// Reputation contributions, keyed by the export section they land in
+const REPUTATION_TABLES: { section: string; table: string; column: string }[] =
+  [
+    {
+      section: 'player_reports',
+      table: 'player_reports',
+      column: 'reporter_id',
+    },
+    {
+      section: 'player_comments',
+      table: 'player_comments',
+      column: 'commenter_id',
+    },
+    { section: 'player_tags', table: 'player_tags', column: 'tagger_id' },
+    {
+      section: 'organization_reports',
+      table: 'organization_reports',
+      column: 'reporter_id',
+    },
+    {
+      section: 'alt_account_reports',
+      table: 'alt_account_reports',
+      column: 'reporter_id',
+    },
+    {
+      section: 'affiliated_people_reports',
+      table: 'affiliated_people_reports',
+      column: 'reporter_id',
+    },
+    {
+      section: 'player_report_attestations',
+      table: 'player_report_attestations',
+      column: 'attester_id',
+    },
+    {
+      section: 'player_comment_attestations',
+      table: 'player_comment_attestations',
+      column: 'attester_id',
+    },
+    {
+      section: 'player_tag_attestations',
+      table: 'player_tag_attestations',
+      column: 'attester_id',
+    },
+    {
+      section: 'organization_report_corroborations',
+      table: 'organization_report_corroborations',
+      column: 'corroborator_id',
+    },
+    {
+      section: 'alt_account_report_corroborations',
+      table: 'alt_account_report_corroborations',
+      column: 'corroborator_id',
+    },
+    {
+      section: 'affiliated_people_report_corroborations',
+      table: 'affiliated_people_report_corroborations',
+      column: 'corroborator_id',
+    },
+  ];
+
+// HR records kept about the user by the organizations they belong to
+const HR_TABLES: { section: string; table: string; column: string }[] = [
+  { section: 'onboarding', table: 'hr_onboarding_progress', column: 'user_id' },
+  {
+    section: 'performance_reviews',
+    table: 'hr_performance_reviews',
+    column: 'reviewee_id',
+  },
+  {
+    section: 'performance_goals',
+    table: 'hr_performance_goals',
+    column: 'user_id',
+  },
+  { section: 'skills', table: 'hr_user_skills', column: 'user_id' },
+  { section: 'certifications', table: 'hr_certifications', column: 'user_id' },
+  {
+    section: 'document_acknowledgments',
+    table: 'hr_document_acknowledgments',
+    column: 'user_id',
+  },
+  { section: 'activities', table: 'hr_activities', column: 'user_id' },
+];
+
+const parseTransfers = (value: unknown): OrganizationTransfer[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const toDeletionRequest = (row: any): AccountDeletionRequest => ({
+  ...row,
+  organization_transfers: parseTransfers(row.organization_transfers),
+});
+
+export class AccountModel {
+  /**
+   * The user's pending or blocked deletion request, if they have one
+   */
+  async findOpenDeletionRequest(
+    userId: string
+  ): Promise<AccountDeletionRequest | null> {
+    const request = await db('account_deletion_requests')
+      .where({ user_id: userId })
+      .whereIn('status', ['pending', 'blocked'])
+      .orderBy('created_at', 'desc')
+      .first();
+    return request ? toDeletionRequest(request) : null;
+  }
+
+  async createDeletionRequest(
+    data: NewAccountDeletionRequest
+  ): Promise<AccountDeletionRequest> {
+    const [request] = await db('account_deletion_requests')
+      .insert({
+        user_id: data.user_id,
+        reason: data.reason || null,
+        organization_transfers: JSON.stringify(data.organization_transfers),
+        scheduled_for: data.scheduled_for,
+        status: 'pending',
+      })
+      .returning('*');
+    return toDeletionRequest(request);
+  }
+
+  async updateDeletionRequest(
+    id: string,
+    data: AccountDeletionRequestUpdate,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<AccountDeletionRequest | null> {
+    const { organization_transfers, ...rest } = data;
+    const [request] = await conn('account_deletion_requests')
+      .where({ id })
+      .update({
+        ...rest,
+        ...(organization_transfers && {
+          organization_transfers: JSON.stringify(organization_transfers),
+        }),
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return request ? toDeletionRequest(request) : null;
+  }
+
+  async findDueDeletionRequests(
+    now: Date,
+    limit: number
+  ): Promise<AccountDeletionRequest[]> {
+    const requests = await db('account_deletion_requests')
+      .where({ status: 'pending' })
+      .where('scheduled_for', '<=', now)
+      .orderBy('scheduled_for', 'asc')
+      .limit(limit);
+    return requests.map(toDeletionRequest);
+  }
+
+  /**
+   * Organizations the user owns, with the active members who could take them over
+   */
+  async getOwnedOrganizations(userId: string): Promise<OwnedOrganization[]> {
+    const organizations = await db('organizations')
+      .where({ owner_id: userId })
+      .select('id', 'name', 'rsi_org_id')
+      .orderBy('name', 'asc');
+
+    return Promise.all(
+      organizations.map(async organization => ({
+        ...organization,
+        transfer_candidates: await db('organization_members as m')
+          .join('users as u', 'm.user_id', 'u.id')
+          .where({ 'm.organization_id': organization.id, 'm.is_active': true })
+          .whereNot('m.user_id', userId)
+          .whereNull('u.deleted_at')
+          .select('u.id', 'u.rsi_handle')
+          .orderBy('u.rsi_handle', 'asc'),
+      }))
+    );
+  }
+
+  async isActiveMember(
+    organizationId: string,
+    userId: string
+  ): Promise<boolean> {
+    const member = await db('organization_members as m')
+      .join('users as u', 'm.user_id', 'u.id')
+      .where({
+        'm.organization_id': organizationId,
+        'm.user_id': userId,
+        'm.is_active': true,
+      })
+      .whereNull('u.deleted_at')
+      .first();
+    return !!member;
+  }
+
+  async getMembershipOrganizationIds(
+    userId: string,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<string[]> {
+    const rows = await conn('organization_members')
+      .where({ user_id: userId })
+      .select('organization_id');
+    return rows.map(row => row.organization_id);
+  }
+
+  async setOrganizationOwner(
+    organizationId: string,
+    ownerId: string,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<void> {
+    await conn('organizations').where({ id: organizationId }).update({
+      owner_id: ownerId,
+      updated_at: new Date(),
+    });
+  }
+
+  /**
+   * Cancel the user's registrations for events that have not started yet, returning
+   * the events they were cancelled for
+   */
+  async cancelFutureRegistrations(
+    userId: string,
+    now: Date,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<string[]> {
+    const cancelled = await conn('event_registrations')
+      .where({ user_id: userId })
+      .whereNot('status', 'cancelled')
+      .whereIn(
+        'event_id',
+        conn('events').where('start_time', '>', now).select('id')
+      )
+      .update({ status: 'cancelled' })
+      .returning('event_id');
+    return cancelled.map(row => row.event_id);
+  }
+
+  /**
+   * Remove data that only exists for the user's own benefit: notifications,
+   * notification settings, calendar feeds, personal watchlists and view history
+   */
+  async deletePersonalData(
+    userId: string,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<void> {
+    await conn('notification').where({ notifier_id: userId }).del();
+    await conn('notification_digests').where({ user_id: userId }).del();
+    await conn('notification_preferences').where({ user_id: userId }).del();
+    await conn('notification_settings').where({ user_id: userId }).del();
+    await conn('calendar_feed_tokens').where({ user_id: userId }).del();
+    await conn('watchlists')
+      .where({ owner_id: userId })
+      .whereNull('organization_id')
+      .del();
+    await conn('entity_views').where({ user_id: userId }).del();
+  }
+
+  /**
+   * Strip identifying details from the user while keeping the row, so comments,
+   * reports and reviews stay in place under a placeholder handle. The Discord ID is
+   * replaced so signing in again starts a new account.
+   */
+  async anonymizeUser(
+    userId: string,
+    now: Date,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<void> {
+    await conn('users')
+      .where({ id: userId })
+      .update({
+        discord_id: `deleted:${userId}`,
+        rsi_handle: generateDeletedUserHandle(userId),
+        spectrum_id: null,
+        avatar_url: null,
+        avatar_source: 'default',
+        is_rsi_verified: false,
+        verification_code: null,
+        verification_code_expires_at: null,
+        is_active: false,
+        deleted_at: now,
+        updated_at: now,
+      });
+  }
+
+  /**
+   * Everything stored about the user, grouped for a data export
+   */
+  async getExportData(
+    userId: string
+  ): Promise<Omit<AccountDataExport, 'exported_at' | 'profile'>> {
+    const byUser = (table: string, column = 'user_id') =>
+      db(table)
+        .where({ [column]: userId })
+        .select('*');
+
+    const reputation: AccountDataExport['reputation'] = {};
+    for (const { section, table, column } of REPUTATION_TABLES) {
+      reputation[section] = await byUser(table, column);
+    }
+
+    const hr: AccountDataExport['hr'] = {
+      applications: await db('hr_applications as a')
+        .join('organizations as o', 'a.organization_id', 'o.id')
+        .where('a.user_id', userId)
+        .select('a.*', 'o.name as organization_name'),
+      application_status_history: await db('hr_application_status_history as h')
+        .join('hr_applications as a', 'h.application_id', 'a.id')
+        .where('a.user_id', userId)
+        .select('h.*'),
+    };
+    for (const { section, table, column } of HR_TABLES) {
+      hr[section] = await byUser(table, column);
+    }
+
+    return {
+      organizations: {
+        memberships: await db('organization_members as m')
+          .join('organizations as o', 'm.organization_id', 'o.id')
+          .leftJoin('organization_roles as r', 'm.role_id', 'r.id')
+          .where('m.user_id', userId)
+          .select(
+            'o.id as organization_id',
+            'o.name as organization_name',
+            'o.rsi_org_id',
+            'r.name as role_name',
+            'm.is_active',
+            'm.is_hidden',
+            'm.joined_at'
+          ),
+        owned: await db('organizations')
+          .where({ owner_id: userId })
+          .select('id', 'name', 'rsi_org_id', 'created_at'),
+        ratings: await byUser('organization_ratings'),
+        upvotes: await byUser('organization_upvotes'),
+      },
+      events: {
+        registrations: await db('event_registrations as r')
+          .join('events as e', 'r.event_id', 'e.id')
+          .where('r.user_id', userId)
+          .select('r.*', 'e.title as event_title', 'e.start_time'),
+        created: await byUser('events', 'created_by'),
+        reviews: await byUser('event_reviews'),
+      },
+      comments: {
+        comments: await byUser('comments'),
+        votes: await byUser('comment_votes'),
+      },
+      reputation,
+      hr,
+      notification_preferences: await byUser('notification_preferences'),
+      watchlists: await db('watchlists')
+        .where({ owner_id: userId })
+        .select('*'),
+    };
+  }
+}
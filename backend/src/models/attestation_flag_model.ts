@@ -0,0 +1,297 @@
+import db from '../config/database';
+import {
+  AttestationFlag,
+  AttestationFlagEvidence,
+  AttestationFlagReason,
+  AttestationFlagStatus,
+  AttestationFlagWithContext,
+  AttestationKind,
+} from '../types/reputation';
+
+interface AttestationTableConfig {
+  table: string;
+  itemColumn: string;
+  voterColumn: string;
+  itemTable: string;
+  playerColumn: string;
+}
+
+// Where each kind of attestation lives and how it leads back to the player it is about
+const ATTESTATION_TABLES: Record<AttestationKind, AttestationTableConfig> = {
+  comment: {
+    table: 'player_comment_attestations',
+    itemColumn: 'comment_id',
+    voterColumn: 'attester_id',
+    itemTable: 'player_comments',
+    playerColumn: 'player_id',
+  },
+  tag: {
+    table: 'player_tag_attestations',
+    itemColumn: 'tag_id',
+    voterColumn: 'attester_id',
+    itemTable: 'player_tags',
+    playerColumn: 'player_id',
+  },
+  player_report: {
+    table: 'player_report_attestations',
+    itemColumn: 'report_id',
+    voterColumn: 'attester_id',
+    itemTable: 'player_reports',
+    playerColumn: 'player_id',
+  },
+  organization_report: {
+    table: 'organization_report_corroborations',
+    itemColumn: 'report_id',
+    voterColumn: 'corroborator_id',
+    itemTable: 'organization_reports',
+    playerColumn: 'player_id',
+  },
+  alt_account_report: {
+    table: 'alt_account_report_corroborations',
+    itemColumn: 'report_id',
+    voterColumn: 'corroborator_id',
+    itemTable: 'alt_account_reports',
+    playerColumn: 'main_player_id',
+  },
+  affiliated_people_report: {
+    table: 'affiliated_people_report_corroborations',
+    itemColumn: 'report_id',
+    voterColumn: 'corroborator_id',
+    itemTable: 'affiliated_people_reports',
+    playerColumn: 'main_player_id',
+  },
+};
+
+export const ATTESTATION_KINDS = Object.keys(
+  ATTESTATION_TABLES
+) as AttestationKind[];
+
+export interface ScreenedAttestation {
+  kind: AttestationKind;
+  id: string;
+  item_id: string;
+  player_id: string;
+  attester_id: string;
+  held_for_review: boolean;
+  created_at: Date;
+}
+
+export interface AttesterProfile {
+  id: string;
+  rsi_handle: string;
+  spectrum_id: string | null;
+  created_at: Date;
+}
+
+export interface NewAttestationFlag {
+  attestation: ScreenedAttestation;
+  reasons: AttestationFlagReason[];
+  evidence: AttestationFlagEvidence;
+}
+
+export class AttestationFlagModel {
+  async getAttestation(
+    kind: AttestationKind,
+    id: string
+  ): Promise<ScreenedAttestation | null> {
+    const config = ATTESTATION_TABLES[kind];
+    const attestation = await db(`${config.table} as a`)
+      .join(`${config.itemTable} as item`, `a.${config.itemColumn}`, 'item.id')
+      .where('a.id', id)
+      .first(
+        'a.id',
+        `a.${config.itemColumn} as item_id`,
+        `item.${config.playerColumn} as player_id`,
+        `a.${config.voterColumn} as attester_id`,
+        'a.held_for_review',
+        'a.created_at'
+      );
+    return attestation ? { kind, ...attestation } : null;
+  }
+
+  /**
+   * Every attestation of any kind made on a player since the given time
+   */
+  async findRecentAttestationsOnPlayer(
+    playerId: string,
+    since: Date
+  ): Promise<ScreenedAttestation[]> {
+    const queries = ATTESTATION_KINDS.map(kind => {
+      const config = ATTESTATION_TABLES[kind];
+      // Kind and column names come from ATTESTATION_TABLES, never from the request
+      return db(`${config.table} as a`)
+        .join(
+          `${config.itemTable} as item`,
+          `a.${config.itemColumn}`,
+          'item.id'
+        )
+        .where(`item.${config.playerColumn}`, playerId)
+        .where('a.created_at', '>=', since)
+        .select(
+          db.raw(`'${kind}'::text as kind`),
+          'a.id',
+          `a.${config.itemColumn} as item_id`,
+          `item.${config.playerColumn} as player_id`,
+          `a.${config.voterColumn} as attester_id`,
+          'a.held_for_review',
+          'a.created_at'
+        );
+    });
+
+    const [first, ...rest] = queries;
+    return first.unionAll(rest, true);
+  }
+
+  async getAttester(userId: string): Promise<AttesterProfile | null> {
+    const user = await db('users')
+      .where({ id: userId })
+      .first('id', 'rsi_handle', 'spectrum_id', 'created_at');
+    return user || null;
+  }
+
+  // Active organization memberships, keyed by user
+  async getOrganizationMemberships(
+    userIds: string[]
+  ): Promise<
+    Array<{
+      user_id: string;
+      organization_id: string;
+      organization_name: string;
+    }>
+  > {
+    if (userIds.length === 0) return [];
+    return db('organization_members as om')
+      .join('organizations as o', 'om.organization_id', 'o.id')
+      .whereIn('om.user_id', userIds)
+      .where('om.is_active', true)
+      .select(
+        'om.user_id',
+        'om.organization_id',
+        'o.name as organization_name'
+      );
+  }
+
+  /**
+   * Alt account reports, other than rejected ones, that name this handle or Spectrum ID as the alt
+   */
+  async findAltReportsNaming(
+    handle: string,
+    spectrumId: string | null
+  ): Promise<Array<{ id: string; main_player_id: string }>> {
+    return db('alt_account_reports')
+      .whereNot('status', 'rejected')
+      .where(query => {
+        query.whereRaw('LOWER(alt_handle) = LOWER(?)', [handle]);
+        if (spectrumId) query.orWhere('alt_spectrum_id', spectrumId);
+      })
+      .select('id', 'main_player_id');
+  }
+
+  /**
+   * Hold the attestations and record why. Attestations that were already flagged keep
+   * their first flag. Returns the flags that were created.
+   */
+  async hold(flags: NewAttestationFlag[]): Promise<AttestationFlag[]> {
+    if (flags.length === 0) return [];
+
+    return db.transaction(async trx => {
+      const created: AttestationFlag[] = [];
+
+      for (const { attestation, reasons, evidence } of flags) {
+        const [flag] = await trx('reputation_attestation_flags')
+          .insert({
+            attestation_kind: attestation.kind,
+            attestation_id: attestation.id,
+            item_id: attestation.item_id,
+            player_id: attestation.player_id,
+            attester_id: attestation.attester_id,
+            reasons: JSON.stringify(reasons),
+            evidence: JSON.stringify(evidence),
+            status: 'held',
+            created_at: new Date(),
+          })
+          .onConflict(['attestation_kind', 'attestation_id'])
+          .ignore()
+          .returning('*');
+        if (!flag) continue;
+
+        await trx(ATTESTATION_TABLES[attestation.kind].table)
+          .where({ id: attestation.id })
+          .update({ held_for_review: true });
+        created.push(flag);
+      }
+
+      return created;
+    });
+  }
+
+  async getFlag(id: string): Promise<AttestationFlag | null> {
+    const flag = await db('reputation_attestation_flags').where({ id }).first();
+    return flag || null;
+  }
+
+  async listFlags(query: {
+    status: AttestationFlagStatus;
+    page: number;
+    limit: number;
+  }): Promise<{ flags: AttestationFlagWithContext[]; total: number }> {
+    const baseQuery = db('reputation_attestation_flags as f').where(
+      'f.status',
+      query.status
+    );
+
+    const totalResult = await baseQuery.clone().count('* as count').first();
+    const total = parseInt(totalResult?.count as string) || 0;
+
+    const flags = await baseQuery
+      .leftJoin('users as u', 'f.attester_id', 'u.id')
+      .leftJoin('sc_players as p', 'f.player_id', 'p.id')
+      .select(
+        'f.*',
+        'u.rsi_handle as attester_handle',
+        'p.current_handle as player_handle',
+        'p.spectrum_id as player_spectrum_id'
+      )
+      .orderBy('f.created_at', query.status === 'held' ? 'asc' : 'desc')
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    return { flags, total };
+  }
+
+  /**
+   * Release a held attestation so it counts again, or discard it. Returns null when the
+   * flag was already reviewed.
+   */
+  async resolve(
+    flag: AttestationFlag,
+    decision: 'release' | 'discard',
+    reviewerId: string,
+    note: string | null
+  ): Promise<AttestationFlag | null> {
+    const table = ATTESTATION_TABLES[flag.attestation_kind].table;
+
+    return db.transaction(async trx => {
+      const [resolved] = await trx('reputation_attestation_flags')
+        .where({ id: flag.id, status: 'held' })
+        .update({
+          status: decision === 'release' ? 'released' : 'discarded',
+          reviewed_by: reviewerId,
+          reviewed_at: new Date(),
+          review_note: note,
+        })
+        .returning('*');
+      if (!resolved) return null;
+
+      if (decision === 'release') {
+        await trx(table)
+          .where({ id: flag.attestation_id })
+          .update({ held_for_review: false });
+      } else {
+        await trx(table).where({ id: flag.attestation_id }).del();
+      }
+
+      return resolved;
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import db from '../config/database';
+import { CalendarFeedToken } from '../types/calendar';
+import { randomBytes } from 'crypto';
+
+export class CalendarFeedModel {
+  /**
+   * Generate an unguessable URL-safe feed token
+   */
+  private generateToken(): string {
+    return randomBytes(24).toString('hex');
+  }
+
+  async findByUserId(userId: string): Promise<CalendarFeedToken | null> {
+    const feedToken = await db('calendar_feed_tokens')
+      .where({ user_id: userId })
+      .first();
+    return feedToken || null;
+  }
+
+  async findByToken(token: string): Promise<CalendarFeedToken | null> {
+    const feedToken = await db('calendar_feed_tokens')
+      .where({ token })
+      .first();
+    return feedToken || null;
+  }
+
+  /**
+   * Create or replace the user's token; subscriptions using the old URL stop working
+   */
+  async rotate(userId: string): Promise<CalendarFeedToken> {
+    const [feedToken] = await db('calendar_feed_tokens')
+      .insert({
+        user_id: userId,
+        token: this.generateToken(),
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .onConflict('user_id')
+      .merge(['token', 'updated_at'])
+      .returning('*');
+
+    return feedToken;
+  }
+
+  async revoke(userId: string): Promise<boolean> {
+    const deleted = await db('calendar_feed_tokens')
+      .where({ user_id: userId })
+      .del();
+    return deleted > 0;
+  }
+
+  async touch(id: string): Promise<void> {
+    await db('calendar_feed_tokens')
+      .where({ id })
+      .update({ last_used_at: new Date() });
+  }
+}
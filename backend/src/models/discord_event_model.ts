@@ -3,6 +3,7 @@ import {
   DiscordEvent,
   CreateDiscordEventData,
   UpdateDiscordEventData,
+  DiscordEventSyncConflict,
 } from '../types/discord';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -69,6 +70,16 @@ export class DiscordEventModel {
     return event || null;
   }
 
+  // Append a resolved conflict to the record's conflict log
+  async recordConflict(id: string, conflict: DiscordEventSyncConflict): Promise<void> {
+    await db('discord_events')
+      .where({ id })
+      .update({
+        sync_conflicts: db.raw('sync_conflicts || ?::jsonb', [JSON.stringify([conflict])]),
+        updated_at: new Date(),
+      });
+  }
+
   async delete(id: string): Promise<boolean> {
     const deleted = await db('discord_events').where({ id }).del();
     return deleted > 0;
@@ -0,0 +1,83 @@
+import db from '../config/database';
+import {
+  DiscordRoleMapping,
+  DiscordRoleMappingWithRole,
+} from '../types/discord';
+import { v4 as uuidv4 } from 'uuid';
+
+export class DiscordRoleMappingModel {
+  async findByServerId(discordServerId: string): Promise<DiscordRoleMappingWithRole[]> {
+    return db('discord_role_mappings')
+      .join('organization_roles', 'discord_role_mappings.organization_role_id', 'organization_roles.id')
+      .where('discord_role_mappings.discord_server_id', discordServerId)
+      .select(
+        'discord_role_mappings.*',
+        'organization_roles.name as role_name',
+        'organization_roles.rank as role_rank'
+      )
+      .orderBy('organization_roles.rank', 'desc');
+  }
+
+  async upsert(
+    discordServerId: string,
+    organizationRoleId: string,
+    discordRoleId: string
+  ): Promise<DiscordRoleMapping> {
+    const [mapping] = await db('discord_role_mappings')
+      .insert({
+        id: uuidv4(),
+        discord_server_id: discordServerId,
+        organization_role_id: organizationRoleId,
+        discord_role_id: discordRoleId,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .onConflict(['discord_server_id', 'organization_role_id'])
+      .merge({
+        discord_role_id: discordRoleId,
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return mapping;
+  }
+
+  async delete(discordServerId: string, organizationRoleId: string): Promise<boolean> {
+    const deleted = await db('discord_role_mappings')
+      .where({
+        discord_server_id: discordServerId,
+        organization_role_id: organizationRoleId,
+      })
+      .del();
+    return deleted > 0;
+  }
+
+  // Active members with a linked Discord account and all their roles, for reconciliation
+  async getLinkedMembers(organizationId: string): Promise<Array<{
+    user_id: string;
+    discord_id: string;
+    rsi_handle: string;
+    role_ids: string[];
+  }>> {
+    const rows = await db('organization_members')
+      .join('users', 'organization_members.user_id', 'users.id')
+      .leftJoin('organization_member_roles', function() {
+        this.on('organization_member_roles.organization_id', '=', 'organization_members.organization_id')
+          .andOn('organization_member_roles.user_id', '=', 'organization_members.user_id');
+      })
+      .where({
+        'organization_members.organization_id': organizationId,
+        'organization_members.is_active': true,
+      })
+      .whereNotNull('users.discord_id')
+      .groupBy('organization_members.user_id', 'users.discord_id', 'users.rsi_handle')
+      .select(
+        'organization_members.user_id',
+        'users.discord_id',
+        'users.rsi_handle',
+        db.raw('array_remove(array_agg(organization_member_roles.role_id), NULL) as role_ids')
+      );
+
+    return rows;
+  }
+}
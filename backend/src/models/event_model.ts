@@ -1,23 +1,82 @@
+import { Knex } from 'knex';
 import db from '../config/database';
-import { Event, CreateEventData, UpdateEventData } from '../types/event';
+import {
+  Event,
+  CreateEventData,
+  UpdateEventData,
+  EventRegistration,
+  EventSlot,
+  EventSlotInput,
+  EventSlotWithRoster,
+  EventAttendanceStatus,
+  EventAttendanceSource,
+  EventCheckInCode,
+  UserAttendanceRecord,
+} from '../types/event';
 import { v4 as uuidv4 } from 'uuid';
 
 export class EventModel {
   async create(eventData: CreateEventData): Promise<Event> {
-    // Let PostgreSQL generate the UUID
-    const [event] = await db('events')
-      .insert({
-        ...eventData,
-        languages: eventData.languages || ['en'],
-        playstyle_tags: eventData.playstyle_tags || [],
-        activity_tags: eventData.activity_tags || [],
-        is_active: true,
-        created_at: new Date(),
-        updated_at: new Date(),
-      })
-      .returning('*');
+    // Recurrence rules live on the series, and slots in their own table
+    const { recurrence: _recurrence, slots, ...eventFields } = eventData;
 
-    return this.parseEvent(event);
+    return db.transaction(async trx => {
+      // Let PostgreSQL generate the UUID
+      const [event] = await trx('events')
+        .insert({
+          ...eventFields,
+          languages: eventData.languages || ['en'],
+          playstyle_tags: eventData.playstyle_tags || [],
+          activity_tags: eventData.activity_tags || [],
+          is_active: true,
+          created_at: new Date(),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      if (slots && slots.length > 0) {
+        await this.syncEventSlots(event.id, slots, trx);
+      }
+
+      return this.parseEvent(event);
+    });
+  }
+
+  // Create a materialized occurrence of a recurring series
+  async createOccurrence(
+    seriesId: string,
+    occurrenceStart: Date,
+    eventData: CreateEventData,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<Event | null> {
+    const { recurrence: _recurrence, slots, ...eventFields } = eventData;
+
+    return conn.transaction(async trx => {
+      const [event] = await trx('events')
+        .insert({
+          ...eventFields,
+          languages: eventData.languages || ['en'],
+          playstyle_tags: eventData.playstyle_tags || [],
+          activity_tags: eventData.activity_tags || [],
+          series_id: seriesId,
+          occurrence_start: occurrenceStart,
+          is_series_exception: false,
+          is_active: true,
+          created_at: new Date(),
+          updated_at: new Date(),
+        })
+        .onConflict(['series_id', 'occurrence_start'])
+        .ignore()
+        .returning('*');
+
+      if (!event) return null;
+
+      if (slots && slots.length > 0) {
+        await this.syncEventSlots(event.id, slots, trx);
+      }
+
+      return this.parseEvent(event);
+    });
   }
 
   async findById(id: string): Promise<Event | null> {
@@ -46,6 +105,9 @@ export class EventModel {
       end_time: this.normalizeTimestamp(event.end_time),
       created_at: this.normalizeTimestamp(event.created_at),
       updated_at: this.normalizeTimestamp(event.updated_at),
+      occurrence_start: event.occurrence_start
+        ? this.normalizeTimestamp(event.occurrence_start)
+        : null,
       languages: Array.isArray(event.languages) ? event.languages : ['en'],
       playstyle_tags: Array.isArray(event.playstyle_tags) ? event.playstyle_tags : [],
       activity_tags: Array.isArray(event.activity_tags) ? event.activity_tags : [],
@@ -118,9 +180,14 @@ export class EventModel {
     return [];
   }
 
-  async update(id: string, updateData: UpdateEventData): Promise<Event | null> {
+  async update(
+    id: string,
+    updateData: UpdateEventData,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<Event | null> {
+    const { slots, ...eventFields } = updateData;
     const updateFields: any = {
-      ...updateData,
+      ...eventFields,
       updated_at: new Date(),
     };
 
@@ -135,12 +202,18 @@ export class EventModel {
       updateFields.activity_tags = updateData.activity_tags;
     }
 
-    const [event] = await db('events')
-      .where({ id })
-      .update(updateFields)
-      .returning('*');
+    return conn.transaction(async trx => {
+      const [event] = await trx('events')
+        .where({ id })
+        .update(updateFields)
+        .returning('*');
 
-    return event ? this.parseEvent(event) : null;
+      if (event && slots) {
+        await this.syncEventSlots(id, slots, trx);
+      }
+
+      return event ? this.parseEvent(event) : null;
+    });
   }
 
   async delete(id: string): Promise<boolean> {
@@ -148,6 +221,26 @@ export class EventModel {
     return deleted > 0;
   }
 
+  // Get occurrences of a recurring series, optionally from a given start time
+  async getSeriesOccurrences(
+    seriesId: string,
+    filters: { from?: Date; include_exceptions?: boolean } = {},
+    conn: Knex | Knex.Transaction = db
+  ): Promise<Event[]> {
+    let query = conn('events').where({ series_id: seriesId });
+
+    if (filters.from) {
+      query = query.where('occurrence_start', '>=', filters.from);
+    }
+
+    if (filters.include_exceptions === false) {
+      query = query.where({ is_series_exception: false });
+    }
+
+    const events = await query.orderBy('occurrence_start', 'asc');
+    return events.map(event => this.parseEvent(event));
+  }
+
   async list(
     filters: {
       organization_id?: string;
@@ -161,6 +254,7 @@ export class EventModel {
       sort_order?: 'asc' | 'desc';
       include_private?: boolean;
       user_id?: string; // For checking private event access
+      exclude_event_ids?: string[]; // Private events the user's overrides deny
     } = {}
   ): Promise<{ data: Event[]; total: number }> {
     let query = db('events')
@@ -194,6 +288,10 @@ export class EventModel {
       });
     }
 
+    if (filters.exclude_event_ids && filters.exclude_event_ids.length > 0) {
+      query = query.whereNotIn('events.id', filters.exclude_event_ids);
+    }
+
     if (filters.organization_id) {
       query = query.where({ organization_id: filters.organization_id });
     }
@@ -262,6 +360,10 @@ export class EventModel {
       });
     }
 
+    if (filters.exclude_event_ids && filters.exclude_event_ids.length > 0) {
+      countQuery = countQuery.whereNotIn('events.id', filters.exclude_event_ids);
+    }
+
     if (filters.organization_id) {
       countQuery = countQuery.where({
         organization_id: filters.organization_id,
@@ -323,6 +425,7 @@ export class EventModel {
       offset?: number;
       include_private?: boolean;
       user_id?: string; // For checking private event access
+      exclude_event_ids?: string[]; // Private events the user's overrides deny
     } = {}
   ): Promise<{ data: Event[]; total: number }> {
     let query = db('events')
@@ -366,6 +469,10 @@ export class EventModel {
       });
     }
 
+    if (filters.exclude_event_ids && filters.exclude_event_ids.length > 0) {
+      query = query.whereNotIn('events.id', filters.exclude_event_ids);
+    }
+
     if (filters.organization_id) {
       query = query.where({ organization_id: filters.organization_id });
     }
@@ -443,6 +550,10 @@ export class EventModel {
       });
     }
 
+    if (filters.exclude_event_ids && filters.exclude_event_ids.length > 0) {
+      countQuery = countQuery.whereNotIn('events.id', filters.exclude_event_ids);
+    }
+
     if (filters.organization_id) {
       countQuery = countQuery.where({
         organization_id: filters.organization_id,
@@ -534,13 +645,19 @@ export class EventModel {
 
   async getEventRegistrations(eventId: string): Promise<any[]> {
     return db('event_registrations')
-      .where({ event_id: eventId })
+      .where('event_registrations.event_id', eventId)
       .join('users', 'event_registrations.user_id', 'users.id')
+      .leftJoin('event_slots', 'event_registrations.slot_id', 'event_slots.id')
       .select(
         'event_registrations.*',
         'users.rsi_handle as username',
-        'users.avatar_url'
+        'users.avatar_url',
+        'event_slots.name as slot_name'
       )
+      .orderByRaw(
+        "CASE WHEN event_registrations.status = 'waitlisted' THEN 1 ELSE 0 END"
+      )
+      .orderBy('event_registrations.waitlist_position', 'asc')
       .orderBy('event_registrations.registered_at', 'asc');
   }
 
@@ -593,6 +710,500 @@ export class EventModel {
     return !!registration;
   }
 
+  // Count registrations holding a seat (waitlisted and cancelled ones do not)
+  async getSeatedRegistrationCount(eventId: string): Promise<number> {
+    const result = await db('event_registrations')
+      .where({ event_id: eventId })
+      .whereNotIn('status', ['waitlisted', 'cancelled'])
+      .count('* as count')
+      .first();
+    return parseInt(result?.count as string) || 0;
+  }
+
+  /**
+   * Register a user, placing them on the waitlist when the event (or the
+   * claimed slot) is full. The event row is locked so concurrent
+   * registrations cannot oversell seats.
+   * Returns null when the event or slot is gone, or when a concurrent request
+   * already registered the user; any other error is thrown.
+   */
+  async registerUserWithCapacity(
+    eventId: string,
+    userId: string,
+    slotId: string | null = null
+  ): Promise<EventRegistration | null> {
+    try {
+      return await db.transaction(async trx => {
+        const event = await trx('events')
+          .where({ id: eventId })
+          .forUpdate()
+          .first();
+        if (!event) return null;
+
+        const seated = await trx('event_registrations')
+          .where({ event_id: eventId })
+          .whereNotIn('status', ['waitlisted', 'cancelled'])
+          .count('* as count')
+          .first();
+        const seatedCount = parseInt(seated?.count as string) || 0;
+        let isFull =
+          !!event.max_participants && seatedCount >= event.max_participants;
+
+        if (slotId && !isFull) {
+          const slot = await trx('event_slots')
+            .where({ id: slotId, event_id: eventId })
+            .first();
+          if (!slot) return null;
+
+          const slotSeated = await trx('event_registrations')
+            .where({ event_id: eventId, slot_id: slotId })
+            .whereNotIn('status', ['waitlisted', 'cancelled'])
+            .count('* as count')
+            .first();
+          isFull = (parseInt(slotSeated?.count as string) || 0) >= slot.capacity;
+        }
+
+        let waitlistPosition: number | null = null;
+        if (isFull) {
+          const last = await trx('event_registrations')
+            .where({ event_id: eventId, status: 'waitlisted' })
+            .max('waitlist_position as position')
+            .first();
+          waitlistPosition = (parseInt(last?.position as string) || 0) + 1;
+        }
+
+        // Let PostgreSQL generate the UUID
+        const [registration] = await trx('event_registrations')
+          .insert({
+            event_id: eventId,
+            user_id: userId,
+            slot_id: slotId,
+            status: isFull ? 'waitlisted' : 'registered',
+            waitlist_position: waitlistPosition,
+            registered_at: new Date(),
+          })
+          .returning('*');
+
+        return registration;
+      });
+    } catch (error: any) {
+      // Unique (event_id, user_id) violation
+      if (error?.code === '23505') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getWaitlist(eventId: string): Promise<EventRegistration[]> {
+    return db('event_registrations')
+      .where({ event_id: eventId, status: 'waitlisted' })
+      .orderBy('waitlist_position', 'asc');
+  }
+
+  /**
+   * Move waitlisted users into free seats, in waitlist order.
+   * Users waiting for a slot are skipped while that slot is still full.
+   * Promoted users must confirm before confirmationExpiresAt (null = no confirmation needed).
+   */
+  async promoteWaitlisted(
+    eventId: string,
+    confirmationExpiresAt: Date | null
+  ): Promise<EventRegistration[]> {
+    return db.transaction(async trx => {
+      const event = await trx('events')
+        .where({ id: eventId })
+        .forUpdate()
+        .first();
+      if (!event || !event.is_active) return [];
+
+      const seated = await trx('event_registrations')
+        .where({ event_id: eventId })
+        .whereNotIn('status', ['waitlisted', 'cancelled'])
+        .count('* as count')
+        .first();
+      const seatedCount = parseInt(seated?.count as string) || 0;
+
+      let available = event.max_participants
+        ? event.max_participants - seatedCount
+        : Infinity;
+      if (available <= 0) return [];
+
+      const waitlisted = await trx('event_registrations')
+        .where({ event_id: eventId, status: 'waitlisted' })
+        .orderBy('waitlist_position', 'asc')
+        .select('id', 'slot_id');
+
+      const slotSpace = new Map<string, number>();
+      const slots = await trx('event_slots')
+        .where({ event_id: eventId })
+        .select('id', 'capacity');
+      for (const slot of slots) {
+        const slotSeated = await trx('event_registrations')
+          .where({ event_id: eventId, slot_id: slot.id })
+          .whereNotIn('status', ['waitlisted', 'cancelled'])
+          .count('* as count')
+          .first();
+        slotSpace.set(
+          slot.id,
+          slot.capacity - (parseInt(slotSeated?.count as string) || 0)
+        );
+      }
+
+      const candidates: { id: string }[] = [];
+      for (const entry of waitlisted) {
+        if (available <= 0) break;
+        if (entry.slot_id) {
+          const space = slotSpace.get(entry.slot_id) ?? 0;
+          if (space <= 0) continue;
+          slotSpace.set(entry.slot_id, space - 1);
+        }
+        candidates.push(entry);
+        available--;
+      }
+      if (candidates.length === 0) return [];
+
+      const now = new Date();
+      const promoted = await trx('event_registrations')
+        .whereIn(
+          'id',
+          candidates.map(candidate => candidate.id)
+        )
+        .update({
+          status: confirmationExpiresAt ? 'registered' : 'confirmed',
+          waitlist_position: null,
+          promoted_at: now,
+          confirmation_expires_at: confirmationExpiresAt,
+          updated_at: now,
+        })
+        .returning('*');
+
+      await this.renumberWaitlist(trx, eventId);
+
+      return promoted;
+    });
+  }
+
+  // Close gaps in waitlist positions (e.g. after a waitlisted user leaves)
+  async compactWaitlist(eventId: string): Promise<void> {
+    await this.renumberWaitlist(db, eventId);
+  }
+
+  private async renumberWaitlist(
+    conn: Knex | Knex.Transaction,
+    eventId: string
+  ): Promise<void> {
+    await conn.raw(
+      `UPDATE event_registrations AS er
+       SET waitlist_position = ranked.position
+       FROM (
+         SELECT id, ROW_NUMBER() OVER (ORDER BY waitlist_position, registered_at) AS position
+         FROM event_registrations
+         WHERE event_id = ? AND status = 'waitlisted'
+       ) AS ranked
+       WHERE er.id = ranked.id`,
+      [eventId]
+    );
+  }
+
+  // Confirm a seat offered from the waitlist
+  async confirmPromotedRegistration(
+    eventId: string,
+    userId: string
+  ): Promise<EventRegistration | null> {
+    const [registration] = await db('event_registrations')
+      .where({ event_id: eventId, user_id: userId, status: 'registered' })
+      .whereNotNull('confirmation_expires_at')
+      .where('confirmation_expires_at', '>', new Date())
+      .update({
+        status: 'confirmed',
+        confirmation_expires_at: null,
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return registration || null;
+  }
+
+  // Promoted registrations whose confirmation window has lapsed
+  async getExpiredPromotions(now: Date): Promise<EventRegistration[]> {
+    return db('event_registrations')
+      .where({ status: 'registered' })
+      .whereNotNull('confirmation_expires_at')
+      .where('confirmation_expires_at', '<=', now)
+      .orderBy('confirmation_expires_at', 'asc');
+  }
+
+  // Slots for an event in display order
+  async getEventSlots(
+    eventId: string,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<EventSlot[]> {
+    const slots = await conn('event_slots')
+      .where({ event_id: eventId })
+      .orderBy('sort_order', 'asc')
+      .orderBy('created_at', 'asc');
+    return slots.map(slot => this.parseSlot(slot));
+  }
+
+  async findSlotById(slotId: string): Promise<EventSlot | null> {
+    const slot = await db('event_slots').where({ id: slotId }).first();
+    return slot ? this.parseSlot(slot) : null;
+  }
+
+  /**
+   * Make an event's slots match the given definitions. Existing slots are
+   * matched by id, or by name when the id belongs to another event (series
+   * templates), so claims survive edits. Participants of removed slots keep
+   * their seat as general sign-ups.
+   */
+  async syncEventSlots(
+    eventId: string,
+    slots: EventSlotInput[],
+    conn: Knex | Knex.Transaction = db
+  ): Promise<EventSlot[]> {
+    const existing = await this.getEventSlots(eventId, conn);
+    const keptIds = new Set<string>();
+
+    for (const [index, input] of slots.entries()) {
+      const name = input.name.trim();
+      const match =
+        existing.find(slot => input.id && slot.id === input.id) ||
+        existing.find(slot => !keptIds.has(slot.id) && slot.name === name);
+
+      const fields = {
+        name,
+        description: input.description ?? null,
+        capacity: input.capacity,
+        required_skill_ids: JSON.stringify(input.required_skill_ids || []),
+        sort_order: index,
+        updated_at: new Date(),
+      };
+
+      if (match && !keptIds.has(match.id)) {
+        await conn('event_slots').where({ id: match.id }).update(fields);
+        keptIds.add(match.id);
+      } else {
+        // Let PostgreSQL generate the UUID
+        await conn('event_slots').insert({ ...fields, event_id: eventId });
+      }
+    }
+
+    const removedIds = existing
+      .filter(slot => !keptIds.has(slot.id))
+      .map(slot => slot.id);
+    if (removedIds.length > 0) {
+      await conn('event_slots').whereIn('id', removedIds).del();
+    }
+
+    return this.getEventSlots(eventId, conn);
+  }
+
+  // Slots with the skills they require and who has claimed them
+  async getSlotRoster(eventId: string): Promise<EventSlotWithRoster[]> {
+    const slots = await this.getEventSlots(eventId);
+    if (slots.length === 0) return [];
+
+    const skillIds = [...new Set(slots.flatMap(slot => slot.required_skill_ids))];
+    const skills = skillIds.length
+      ? await db('hr_skills').whereIn('id', skillIds).select('id', 'name')
+      : [];
+    const skillNames = new Map(skills.map(skill => [skill.id, skill.name]));
+
+    const participants = await db('event_registrations')
+      .join('users', 'event_registrations.user_id', 'users.id')
+      .where('event_registrations.event_id', eventId)
+      .whereNotNull('event_registrations.slot_id')
+      .whereNot('event_registrations.status', 'cancelled')
+      .select(
+        'event_registrations.slot_id',
+        'event_registrations.user_id',
+        'event_registrations.status',
+        'event_registrations.waitlist_position',
+        'users.rsi_handle as username',
+        'users.avatar_url'
+      )
+      .orderBy('event_registrations.registered_at', 'asc');
+
+    return slots.map(slot => {
+      const claimed = participants
+        .filter(participant => participant.slot_id === slot.id)
+        .map(({ slot_id: _slotId, ...participant }) => participant);
+      const waitlisted = claimed.filter(
+        participant => participant.status === 'waitlisted'
+      ).length;
+
+      return {
+        ...slot,
+        required_skills: slot.required_skill_ids
+          .filter(id => skillNames.has(id))
+          .map(id => ({ id, name: skillNames.get(id) as string })),
+        filled: claimed.length - waitlisted,
+        waitlisted,
+        participants: claimed,
+      };
+    });
+  }
+
+  private parseSlot(slot: any): EventSlot {
+    return {
+      ...slot,
+      required_skill_ids: this.parseJsonField(slot.required_skill_ids),
+    };
+  }
+
+  // Registrations holding a seat, with the fields organizers need to take attendance
+  async getAttendanceRoster(eventId: string): Promise<any[]> {
+    return db('event_registrations')
+      .where({ event_id: eventId })
+      .whereNotIn('event_registrations.status', ['waitlisted', 'cancelled'])
+      .join('users', 'event_registrations.user_id', 'users.id')
+      .select(
+        'event_registrations.*',
+        'users.rsi_handle as username',
+        'users.avatar_url'
+      )
+      .orderBy('users.rsi_handle', 'asc');
+  }
+
+  /**
+   * Record attendance for seated registrations. Waitlisted and cancelled
+   * registrations are left untouched.
+   */
+  async markAttendance(
+    eventId: string,
+    userIds: string[],
+    status: EventAttendanceStatus,
+    markedBy: string,
+    source: EventAttendanceSource
+  ): Promise<EventRegistration[]> {
+    if (userIds.length === 0) return [];
+
+    const now = new Date();
+    return db('event_registrations')
+      .where({ event_id: eventId })
+      .whereIn('user_id', userIds)
+      .whereNotIn('status', ['waitlisted', 'cancelled'])
+      .update({
+        status,
+        checked_in_at: status === 'attended' ? now : null,
+        attendance_marked_by: markedBy,
+        attendance_source: source,
+        // Attending settles any pending waitlist seat confirmation
+        confirmation_expires_at: null,
+        updated_at: now,
+      })
+      .returning('*');
+  }
+
+  async getCheckInCode(eventId: string): Promise<EventCheckInCode | null> {
+    const checkInCode = await db('event_check_in_codes')
+      .where({ event_id: eventId })
+      .first();
+    return checkInCode || null;
+  }
+
+  // Replace the event's check-in code; the previous code stops working
+  async setCheckInCode(data: {
+    event_id: string;
+    organization_id?: string | null;
+    code: string;
+    expires_at: Date;
+    created_by: string;
+  }): Promise<EventCheckInCode> {
+    const [checkInCode] = await db('event_check_in_codes')
+      .insert({ ...data, created_at: new Date() })
+      .onConflict('event_id')
+      .merge(['code', 'expires_at', 'created_by', 'created_at'])
+      .returning('*');
+    return checkInCode;
+  }
+
+  async deleteCheckInCode(eventId: string): Promise<boolean> {
+    const deleted = await db('event_check_in_codes')
+      .where({ event_id: eventId })
+      .del();
+    return deleted > 0;
+  }
+
+  // Look up an unexpired code across an organization's events (used where no event is selected, e.g. Discord)
+  async findActiveCheckInCode(
+    organizationId: string,
+    code: string,
+    now: Date
+  ): Promise<EventCheckInCode | null> {
+    const checkInCode = await db('event_check_in_codes')
+      .where({ organization_id: organizationId, code })
+      .where('expires_at', '>', now)
+      .orderBy('created_at', 'desc')
+      .first();
+    return checkInCode || null;
+  }
+
+  /**
+   * A user's registrations for events that have ended, newest first.
+   * Waitlisted and cancelled registrations are not part of attendance history.
+   */
+  async getUserAttendanceRecords(
+    userId: string,
+    options: { organizationId?: string; before: Date; since?: Date }
+  ): Promise<UserAttendanceRecord[]> {
+    let query = db('event_registrations')
+      .join('events', 'event_registrations.event_id', 'events.id')
+      .where('event_registrations.user_id', userId)
+      .whereNotIn('event_registrations.status', ['waitlisted', 'cancelled'])
+      .where('events.is_active', true)
+      .where('events.end_time', '<=', options.before);
+
+    if (options.organizationId) {
+      query = query.where('events.organization_id', options.organizationId);
+    }
+
+    if (options.since) {
+      query = query.where('events.start_time', '>=', options.since);
+    }
+
+    return query
+      .select(
+        'events.id as event_id',
+        'events.title as event_title',
+        'events.start_time',
+        'events.end_time',
+        'event_registrations.status',
+        'event_registrations.checked_in_at'
+      )
+      .orderBy('events.start_time', 'desc');
+  }
+
+  // Seated registrations for an organization's events that ended within the period
+  async getOrganizationAttendanceRecords(
+    organizationId: string,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<
+    Array<
+      UserAttendanceRecord & { user_id: string; username: string }
+    >
+  > {
+    return db('event_registrations')
+      .join('events', 'event_registrations.event_id', 'events.id')
+      .join('users', 'event_registrations.user_id', 'users.id')
+      .where('events.organization_id', organizationId)
+      .where('events.is_active', true)
+      .whereBetween('events.end_time', [periodStart, periodEnd])
+      .whereNotIn('event_registrations.status', ['waitlisted', 'cancelled'])
+      .select(
+        'event_registrations.user_id',
+        'users.rsi_handle as username',
+        'events.id as event_id',
+        'events.title as event_title',
+        'events.start_time',
+        'events.end_time',
+        'event_registrations.status',
+        'event_registrations.checked_in_at'
+      )
+      .orderBy('events.start_time', 'desc');
+  }
+
   async getEventStats(eventId: string): Promise<{
     total_registrations: number;
     confirmed_registrations: number;
@@ -620,12 +1231,81 @@ export class EventModel {
     };
   }
 
+  /**
+   * Events for an organization's calendar feed, including deactivated ones
+   * so subscribed calendars can mark them as cancelled
+   */
+  async getOrganizationCalendarEvents(
+    organizationId: string,
+    options: { includePrivate: boolean; since: Date }
+  ): Promise<Event[]> {
+    let query = db('events')
+      .where({ organization_id: organizationId })
+      .where('end_time', '>=', options.since);
+
+    if (!options.includePrivate) {
+      query = query.where({ is_public: true });
+    }
+
+    const events = await query.orderBy('start_time', 'asc');
+    return events.map(event => this.parseEvent(event));
+  }
+
+  // Events a user registered (or is waitlisted) for, for their personal calendar feed
+  async getUserCalendarEvents(
+    userId: string,
+    since: Date
+  ): Promise<Array<Event & { registration_status: string }>> {
+    const events = await db('event_registrations')
+      .join('events', 'event_registrations.event_id', 'events.id')
+      .where('event_registrations.user_id', userId)
+      .whereNot('event_registrations.status', 'cancelled')
+      .where('events.end_time', '>=', since)
+      .select('events.*', 'event_registrations.status as registration_status')
+      .orderBy('events.start_time', 'asc');
+
+    return events.map(event => ({
+      ...this.parseEvent(event),
+      registration_status: event.registration_status,
+    }));
+  }
+
+  /**
+   * Private events in the user's organizations that carry a deny override. Membership
+   * grants view access by default, so these are the only ones overrides can take away.
+   */
+  async getPrivateEventsWithDenyOverrides(userId: string): Promise<Event[]> {
+    const events = await db('events')
+      .where('events.is_public', false)
+      .whereExists(function () {
+        this.select('*')
+          .from('organization_members')
+          .whereRaw('organization_members.organization_id = events.organization_id')
+          .where('organization_members.user_id', userId);
+      })
+      .whereExists(function () {
+        this.select('*')
+          .from('resource_permission_overrides')
+          .whereRaw('resource_permission_overrides.organization_id = events.organization_id')
+          .whereRaw('resource_permission_overrides.resource_id = events.id::text')
+          .where({
+            'resource_permission_overrides.resource_type': 'event',
+            'resource_permission_overrides.action': 'view',
+            'resource_permission_overrides.effect': 'deny',
+          });
+      })
+      .select('events.*');
+
+    return events.map(event => this.parseEvent(event));
+  }
+
   // Get private events for a user based on their organization memberships
   async getPrivateEventsForUser(
     userId: string,
     filters: {
       limit?: number;
       offset?: number;
+      exclude_event_ids?: string[]; // Private events the user's overrides deny
     } = {}
   ): Promise<Event[]> {
     let query = db('events')
@@ -645,6 +1325,10 @@ export class EventModel {
         'organizations.rsi_org_id as organization_spectrum_id'
       );
 
+    if (filters.exclude_event_ids && filters.exclude_event_ids.length > 0) {
+      query = query.whereNotIn('events.id', filters.exclude_event_ids);
+    }
+
     if (filters.limit) {
       query = query.limit(filters.limit);
     }
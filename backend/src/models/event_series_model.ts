@@ -0,0 +1,66 @@
+import { Knex } from 'knex';
+import db from '../config/database';
+import {
+  EventSeries,
+  CreateEventSeriesData,
+  UpdateEventSeriesData,
+} from '../types/event';
+
+export class EventSeriesModel {
+  async create(seriesData: CreateEventSeriesData): Promise<EventSeries> {
+    const [series] = await db('event_series')
+      .insert({
+        ...seriesData,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return series;
+  }
+
+  async findById(id: string): Promise<EventSeries | null> {
+    const series = await db('event_series').where({ id }).first();
+    return series || null;
+  }
+
+  async update(
+    id: string,
+    updateData: UpdateEventSeriesData,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<EventSeries | null> {
+    const [series] = await conn('event_series')
+      .where({ id })
+      .update({
+        ...updateData,
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return series || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db('event_series').where({ id }).del();
+    return deleted > 0;
+  }
+
+  /**
+   * Active series whose materialized occurrences stop before the given date
+   */
+  async listNeedingGeneration(before: Date): Promise<EventSeries[]> {
+    return db('event_series')
+      .where({ is_active: true })
+      .where(function () {
+        this.whereNull('generated_until').orWhere('generated_until', '<', before);
+      })
+      .orderBy('created_at', 'asc');
+  }
+
+  async listByOrganization(organizationId: string): Promise<EventSeries[]> {
+    return db('event_series')
+      .where({ organization_id: organizationId, is_active: true })
+      .orderBy('series_start', 'asc');
+  }
+}
@@ -7,7 +7,9 @@ export type HRActivityType =
   | 'onboarding_completed'
   | 'performance_review_submitted'
   | 'skill_verified'
-  | 'document_acknowledged';
+  | 'document_acknowledged'
+  | 'mentor_assigned'
+  | 'mentor_unassigned';
 
 export interface HRActivity {
   id: string;
@@ -277,6 +279,8 @@ export class HRActivityModel {
         performance_review_submitted: 0,
         skill_verified: 0,
         document_acknowledged: 0,
+        mentor_assigned: 0,
+        mentor_unassigned: 0,
       };
 
       activitiesByType.forEach(item => {
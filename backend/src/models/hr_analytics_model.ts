@@ -51,10 +51,28 @@ export interface HRAnalyticsMetrics {
       new_members_period: number;
       departed_members_period: number;
     };
+    // Absent from metrics cached before mentorships existed
+    mentorship?: {
+      active_mentorships: number;
+      available_mentors: number;
+      mentors_at_capacity: number;
+      average_mentees_per_mentor: number;
+      members_without_mentor: number;
+      check_in_completion_rate: number;
+      overdue_check_ins: number;
+      load_by_mentor: MentorLoad[];
+    };
   };
   calculated_at: Date;
 }
 
+export interface MentorLoad {
+  mentor_id: string;
+  mentor_handle: string;
+  active_mentees: number;
+  max_mentees: number;
+}
+
 export interface SkillGap {
   skill_name: string;
   skill_category: string;
@@ -118,6 +136,7 @@ export class HRAnalyticsModel {
       skillMetrics,
       documentMetrics,
       retentionMetrics,
+      mentorshipMetrics,
     ] = await Promise.all([
       this.calculateApplicationMetrics(organizationId, periodStart, periodEnd),
       this.calculateOnboardingMetrics(organizationId, periodStart, periodEnd),
@@ -125,6 +144,7 @@ export class HRAnalyticsModel {
       this.calculateSkillMetrics(organizationId),
       this.calculateDocumentMetrics(organizationId),
       this.calculateRetentionMetrics(organizationId, periodStart, periodEnd),
+      this.calculateMentorshipMetrics(organizationId, periodStart, periodEnd),
     ]);
 
     return {
@@ -138,6 +158,7 @@ export class HRAnalyticsModel {
         skills: skillMetrics,
         documents: documentMetrics,
         retention: retentionMetrics,
+        mentorship: mentorshipMetrics,
       },
       calculated_at: new Date(),
     };
@@ -365,6 +386,99 @@ export class HRAnalyticsModel {
     };
   }
 
+  /**
+   * Calculate mentorship load and check-in metrics
+   */
+  private async calculateMentorshipMetrics(
+    organizationId: string,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<NonNullable<HRAnalyticsMetrics['metrics']['mentorship']>> {
+    const now = new Date();
+
+    // Mentors who are still active members, with their current mentees
+    const mentors = await db('hr_mentor_profiles')
+      .join('users', 'hr_mentor_profiles.user_id', 'users.id')
+      .join('organization_members', function () {
+        this.on('organization_members.user_id', '=', 'hr_mentor_profiles.user_id')
+          .andOn('organization_members.organization_id', '=', 'hr_mentor_profiles.organization_id');
+      })
+      .leftJoin('hr_mentorships', function () {
+        this.on('hr_mentorships.mentor_id', '=', 'hr_mentor_profiles.user_id')
+          .andOn('hr_mentorships.organization_id', '=', 'hr_mentor_profiles.organization_id')
+          .andOnVal('hr_mentorships.status', '=', 'active');
+      })
+      .where({
+        'hr_mentor_profiles.organization_id': organizationId,
+        'hr_mentor_profiles.is_mentor': true,
+        'organization_members.is_active': true,
+      })
+      .groupBy('hr_mentor_profiles.user_id', 'hr_mentor_profiles.max_mentees', 'users.rsi_handle')
+      .select(
+        'hr_mentor_profiles.user_id',
+        'hr_mentor_profiles.max_mentees',
+        'users.rsi_handle'
+      )
+      .count('hr_mentorships.id as active_mentees');
+
+    const loadByMentor: MentorLoad[] = mentors
+      .map((mentor: any) => ({
+        mentor_id: mentor.user_id,
+        mentor_handle: mentor.rsi_handle,
+        active_mentees: parseInt(mentor.active_mentees as string) || 0,
+        max_mentees: mentor.max_mentees,
+      }))
+      .sort((a, b) => b.active_mentees - a.active_mentees);
+
+    const [{ count: activeMentorships }] = await db('hr_mentorships')
+      .where({ organization_id: organizationId, status: 'active' })
+      .count('* as count');
+
+    // Members still in onboarding nobody is mentoring
+    const [{ count: membersWithoutMentor }] = await db('hr_onboarding_progress')
+      .where({ 'hr_onboarding_progress.organization_id': organizationId })
+      .whereNot('hr_onboarding_progress.status', 'completed')
+      .whereNotExists(
+        db('hr_mentorships')
+          .whereRaw('hr_mentorships.organization_id = hr_onboarding_progress.organization_id')
+          .whereRaw('hr_mentorships.mentee_id = hr_onboarding_progress.user_id')
+          .where('hr_mentorships.status', 'active')
+      )
+      .count('* as count');
+
+    // Check-ins that fell due during the period
+    const dueCheckIns = await db('hr_mentorship_check_ins')
+      .join('hr_mentorships', 'hr_mentorship_check_ins.mentorship_id', 'hr_mentorships.id')
+      .where('hr_mentorships.organization_id', organizationId)
+      .whereBetween('hr_mentorship_check_ins.scheduled_for', [periodStart, periodEnd < now ? periodEnd : now])
+      .select('hr_mentorship_check_ins.completed_at');
+
+    const completedCheckIns = dueCheckIns.filter(checkIn => checkIn.completed_at).length;
+    const checkInCompletionRate = dueCheckIns.length > 0 ? (completedCheckIns / dueCheckIns.length) * 100 : 0;
+
+    const [{ count: overdueCheckIns }] = await db('hr_mentorship_check_ins')
+      .join('hr_mentorships', 'hr_mentorship_check_ins.mentorship_id', 'hr_mentorships.id')
+      .where('hr_mentorships.organization_id', organizationId)
+      .where('hr_mentorships.status', 'active')
+      .whereNull('hr_mentorship_check_ins.completed_at')
+      .where('hr_mentorship_check_ins.scheduled_for', '<', now)
+      .count('* as count');
+
+    const totalLoad = loadByMentor.reduce((sum, mentor) => sum + mentor.active_mentees, 0);
+    const averageMenteesPerMentor = loadByMentor.length > 0 ? totalLoad / loadByMentor.length : 0;
+
+    return {
+      active_mentorships: parseInt(activeMentorships as string),
+      available_mentors: loadByMentor.filter(mentor => mentor.active_mentees < mentor.max_mentees).length,
+      mentors_at_capacity: loadByMentor.filter(mentor => mentor.active_mentees >= mentor.max_mentees).length,
+      average_mentees_per_mentor: Math.round(averageMenteesPerMentor * 100) / 100,
+      members_without_mentor: parseInt(membersWithoutMentor as string),
+      check_in_completion_rate: Math.round(checkInCompletionRate * 100) / 100,
+      overdue_check_ins: parseInt(overdueCheckIns as string),
+      load_by_mentor: loadByMentor,
+    };
+  }
+
   /**
    * Calculate retention and membership metrics
    */
@@ -700,6 +814,7 @@ export class HRAnalyticsModel {
       'skill_verification_rate': 'skills.verification_rate',
       'turnover_rate': 'retention.member_turnover_rate',
       'document_compliance_rate': 'documents.compliance_rate',
+      'mentorship_check_in_completion_rate': 'mentorship.check_in_completion_rate',
     };
 
     const path = metricPaths[metricName];
@@ -718,6 +833,7 @@ export class HRAnalyticsModel {
       'skill_verification_rate': 'Skill Verification Rate',
       'turnover_rate': 'Member Turnover Rate',
       'document_compliance_rate': 'Document Compliance Rate',
+      'mentorship_check_in_completion_rate': 'Mentorship Check-in Completion Rate',
     };
 
     const metricName = metricDisplayNames[threshold.metric_name] || threshold.metric_name;
@@ -0,0 +1,218 @@
+import db from '../config/database';
+
+export type ApplicationQuestionType =
+  | 'short_text'
+  | 'long_text'
+  | 'single_choice'
+  | 'multi_choice'
+  | 'ship_ownership'
+  | 'timezone'
+  | 'rsi_handle_confirmation';
+
+export interface ApplicationQuestionCondition {
+  // A single or multiple choice question earlier in the form
+  question_id: string;
+  // The question is shown when any of these options is chosen
+  values: string[];
+}
+
+export interface ApplicationFormQuestion {
+  id: string;
+  type: ApplicationQuestionType;
+  label: string;
+  description?: string;
+  required: boolean;
+  options?: string[];
+  max_length?: number;
+  visible_when?: ApplicationQuestionCondition;
+}
+
+export type ApplicationAnswer = string | string[];
+
+export interface HRApplicationForm {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  current_version: number;
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface HRApplicationFormVersion {
+  id: string;
+  form_id: string;
+  version: number;
+  questions: ApplicationFormQuestion[];
+  created_by?: string | null;
+  created_at: Date;
+}
+
+export interface HRApplicationFormWithQuestions extends HRApplicationForm {
+  questions: ApplicationFormQuestion[];
+}
+
+export interface CreateHRApplicationFormData {
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  questions: ApplicationFormQuestion[];
+  created_by: string;
+}
+
+export interface UpdateHRApplicationFormData {
+  name?: string;
+  description?: string | null;
+  is_active?: boolean;
+}
+
+const parseQuestions = (value: unknown): ApplicationFormQuestion[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+export class HRApplicationFormModel {
+  async createForm(
+    formData: CreateHRApplicationFormData
+  ): Promise<HRApplicationFormWithQuestions> {
+    return db.transaction(async trx => {
+      const [form] = await trx('hr_application_forms')
+        .insert({
+          organization_id: formData.organization_id,
+          name: formData.name,
+          description: formData.description || null,
+          current_version: 1,
+          is_active: true,
+          created_by: formData.created_by,
+          created_at: new Date(),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      await trx('hr_application_form_versions').insert({
+        form_id: form.id,
+        version: 1,
+        questions: JSON.stringify(formData.questions),
+        created_by: formData.created_by,
+        created_at: new Date(),
+      });
+
+      return { ...form, questions: formData.questions };
+    });
+  }
+
+  async findFormById(id: string): Promise<HRApplicationForm | null> {
+    const form = await db('hr_application_forms').where({ id }).first();
+    return form || null;
+  }
+
+  async hasActiveForm(organizationId: string): Promise<boolean> {
+    const form = await db('hr_application_forms')
+      .where({ organization_id: organizationId, is_active: true })
+      .first('id');
+    return !!form;
+  }
+
+  async findFormByName(
+    organizationId: string,
+    name: string
+  ): Promise<HRApplicationForm | null> {
+    const form = await db('hr_application_forms')
+      .where({ organization_id: organizationId, is_active: true })
+      .whereRaw('LOWER(name) = ?', [name.toLowerCase()])
+      .first();
+    return form || null;
+  }
+
+  /**
+   * Forms with the questions of their current version
+   */
+  async listForms(
+    organizationId: string,
+    includeArchived = false
+  ): Promise<HRApplicationFormWithQuestions[]> {
+    const query = db('hr_application_forms as f')
+      .join('hr_application_form_versions as v', function () {
+        this.on('v.form_id', '=', 'f.id').andOn(
+          'v.version',
+          '=',
+          'f.current_version'
+        );
+      })
+      .where('f.organization_id', organizationId)
+      .select('f.*', 'v.questions')
+      .orderBy('f.name', 'asc');
+
+    if (!includeArchived) {
+      query.where('f.is_active', true);
+    }
+
+    const forms = await query;
+    return forms.map(form => ({
+      ...form,
+      questions: parseQuestions(form.questions),
+    }));
+  }
+
+  async findVersion(
+    formId: string,
+    version: number
+  ): Promise<HRApplicationFormVersion | null> {
+    const row = await db('hr_application_form_versions')
+      .where({ form_id: formId, version })
+      .first();
+    return row ? { ...row, questions: parseQuestions(row.questions) } : null;
+  }
+
+  async updateForm(
+    id: string,
+    updateData: UpdateHRApplicationFormData
+  ): Promise<HRApplicationForm | null> {
+    const [form] = await db('hr_application_forms')
+      .where({ id })
+      .update({
+        ...updateData,
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return form || null;
+  }
+
+  /**
+   * Save new questions as the next version of the form
+   */
+  async createVersion(
+    formId: string,
+    questions: ApplicationFormQuestion[],
+    createdBy: string
+  ): Promise<HRApplicationFormVersion> {
+    return db.transaction(async trx => {
+      const [form] = await trx('hr_application_forms')
+        .where({ id: formId })
+        .increment('current_version', 1)
+        .update({ updated_at: new Date() })
+        .returning('*');
+
+      const [version] = await trx('hr_application_form_versions')
+        .insert({
+          form_id: formId,
+          version: form.current_version,
+          questions: JSON.stringify(questions),
+          created_by: createdBy,
+          created_at: new Date(),
+        })
+        .returning('*');
+
+      return { ...version, questions: parseQuestions(version.questions) };
+    });
+  }
+}
@@ -1,5 +1,7 @@
 import db from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
+import { PlayerVettingSummary } from '../types/reputation';
+import { ApplicationAnswer } from './hr_application_form_model';
 
 export interface HRApplication {
   id: string;
@@ -11,11 +13,23 @@ export interface HRApplication {
     experience?: string;
     availability?: string;
     custom_fields?: Record<string, any>;
+    // Answers keyed by question ID, for applications submitted through a form
+    answers?: Record<string, ApplicationAnswer>;
   };
+  // The organization's application form and the version of it the applicant saw
+  form_id?: string | null;
+  form_version?: number | null;
   reviewer_id?: string;
   review_notes?: string;
   rejection_reason?: string;
   invite_code?: string;
+  // Background check on the applicant's RSI handle, set shortly after submission
+  vetting_summary?: PlayerVettingSummary | null;
+  vetted_at?: Date | null;
+  // The organization's own pipeline stage, within the status above
+  stage_id?: string | null;
+  // Recruiter responsible for the application
+  assignee_id?: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -36,6 +50,8 @@ export interface CreateHRApplicationData {
   organization_id: string;
   user_id: string;
   application_data: HRApplication['application_data'];
+  form_id?: string | null;
+  form_version?: number | null;
 }
 
 export interface UpdateHRApplicationData {
@@ -44,6 +60,8 @@ export interface UpdateHRApplicationData {
   review_notes?: string;
   rejection_reason?: string;
   invite_code?: string;
+  stage_id?: string | null;
+  assignee_id?: string | null;
 }
 
 export interface HRApplicationStatusHistory {
@@ -128,6 +146,31 @@ export class HRApplicationModel {
     };
   }
 
+  /**
+   * Validates a move to a pipeline stage. Stages within the same status can be moved
+   * between freely; moving into a stage of another status follows the status transitions.
+   */
+  validateStageTransition(
+    currentStatus: ApplicationStatus,
+    stage: { name: string; status: ApplicationStatus }
+  ): StatusTransitionValidationResult {
+    if (stage.status !== currentStatus) {
+      return this.validateStatusTransition(currentStatus, stage.status);
+    }
+
+    if (this.isTerminalStatus(currentStatus)) {
+      return {
+        isValid: false,
+        errors: [`Cannot move a ${currentStatus} application to ${stage.name}`]
+      };
+    }
+
+    return {
+      isValid: true,
+      errors: []
+    };
+  }
+
   /**
    * Checks if an application already exists for a user in an organization
    */
@@ -241,7 +284,8 @@ export class HRApplicationModel {
     newStatus: ApplicationStatus,
     reviewerId: string,
     notes?: string,
-    rejectionReason?: string
+    rejectionReason?: string,
+    stageId?: string | null
   ): Promise<HRApplication | null> {
     const updateData: UpdateHRApplicationData = {
       status: newStatus,
@@ -253,6 +297,10 @@ export class HRApplicationModel {
       updateData.rejection_reason = rejectionReason;
     }
 
+    if (stageId !== undefined) {
+      updateData.stage_id = stageId;
+    }
+
     return this.update(id, updateData);
   }
 
@@ -266,6 +314,8 @@ export class HRApplicationModel {
     filters: {
       status?: HRApplication['status'];
       reviewer_id?: string;
+      stage_id?: string;
+      assignee_id?: string;
       limit?: number;
       offset?: number;
     } = {}
@@ -280,6 +330,14 @@ export class HRApplicationModel {
       query = query.where({ reviewer_id: filters.reviewer_id });
     }
 
+    if (filters.stage_id) {
+      query = query.where({ stage_id: filters.stage_id });
+    }
+
+    if (filters.assignee_id) {
+      query = query.where({ assignee_id: filters.assignee_id });
+    }
+
     // Get total count
     const countQuery = query.clone().count('* as count');
     const totalResult = await countQuery.first();
@@ -318,6 +376,22 @@ export class HRApplicationModel {
     return statusHistory;
   }
 
+  async saveVettingSummary(
+    id: string,
+    summary: PlayerVettingSummary
+  ): Promise<HRApplication | null> {
+    const [application] = await db('hr_applications')
+      .where({ id })
+      .update({
+        vetting_summary: JSON.stringify(summary),
+        vetted_at: summary.vetted_at,
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return application || null;
+  }
+
   async getStatusHistory(applicationId: string): Promise<HRApplicationStatusHistory[]> {
     return db('hr_application_status_history')
       .where({ application_id: applicationId })
@@ -360,6 +434,8 @@ export class HRApplicationModel {
     organizationId: string,
     filters: {
       status?: HRApplication['status'];
+      stage_id?: string;
+      assignee_id?: string;
       limit?: number;
       offset?: number;
     } = {}
@@ -367,18 +443,30 @@ export class HRApplicationModel {
     let query = db('hr_applications')
       .join('users', 'hr_applications.user_id', 'users.id')
       .leftJoin('users as reviewers', 'hr_applications.reviewer_id', 'reviewers.id')
+      .leftJoin('users as assignees', 'hr_applications.assignee_id', 'assignees.id')
+      .leftJoin('hr_pipeline_stages', 'hr_applications.stage_id', 'hr_pipeline_stages.id')
       .where({ 'hr_applications.organization_id': organizationId })
       .select(
         'hr_applications.*',
         'users.rsi_handle as applicant_rsi_handle',
         'users.discord_username as applicant_discord_username',
-        'reviewers.rsi_handle as reviewer_rsi_handle'
+        'reviewers.rsi_handle as reviewer_rsi_handle',
+        'assignees.rsi_handle as assignee_rsi_handle',
+        'hr_pipeline_stages.name as stage_name'
       );
 
     if (filters.status) {
       query = query.where({ 'hr_applications.status': filters.status });
     }
 
+    if (filters.stage_id) {
+      query = query.where({ 'hr_applications.stage_id': filters.stage_id });
+    }
+
+    if (filters.assignee_id) {
+      query = query.where({ 'hr_applications.assignee_id': filters.assignee_id });
+    }
+
     // Get total count
     const countQuery = query.clone().clearSelect().count('hr_applications.id as count');
     const totalResult = await countQuery.first();
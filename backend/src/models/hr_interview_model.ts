@@ -0,0 +1,315 @@
+import db from '../config/database';
+
+export type InterviewSlotStatus = 'open' | 'booked' | 'completed' | 'cancelled';
+
+export type InterviewRecommendation = 'strong_yes' | 'yes' | 'no' | 'strong_no';
+
+export const INTERVIEW_CRITERIA = [
+  'communication',
+  'experience',
+  'teamwork',
+  'availability',
+] as const;
+
+export type InterviewCriterion = (typeof INTERVIEW_CRITERIA)[number];
+
+export interface InterviewNotes {
+  summary: string;
+  strengths?: string;
+  concerns?: string;
+  // 1 to 5 for each criterion the interviewer scored
+  ratings?: Partial<Record<InterviewCriterion, number>>;
+}
+
+export type InterviewReminderType = '24h' | '1h';
+
+export interface HRInterviewSlot {
+  id: string;
+  organization_id: string;
+  interviewer_id: string;
+  start_time: Date;
+  end_time: Date;
+  status: InterviewSlotStatus;
+  application_id?: string | null;
+  booked_at?: Date | null;
+  create_discord_event: boolean;
+  discord_guild_id?: string | null;
+  discord_channel_id?: string | null;
+  discord_event_id?: string | null;
+  reminder_24h_sent_at?: Date | null;
+  reminder_1h_sent_at?: Date | null;
+  notes?: InterviewNotes | null;
+  recommendation?: InterviewRecommendation | null;
+  completed_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface HRInterviewSlotWithUsers extends HRInterviewSlot {
+  rsi_org_id: string;
+  interviewer_rsi_handle?: string;
+  applicant_id?: string | null;
+  applicant_rsi_handle?: string | null;
+}
+
+export interface CreateHRInterviewSlotData {
+  organization_id: string;
+  interviewer_id: string;
+  start_time: Date;
+  end_time: Date;
+  create_discord_event?: boolean;
+}
+
+export interface UpdateHRInterviewSlotData {
+  discord_guild_id?: string | null;
+  discord_channel_id?: string | null;
+  discord_event_id?: string | null;
+}
+
+// A booked slot put back up for booking forgets the booking's reminders and Discord channel
+const RELEASED_SLOT = {
+  status: 'open',
+  application_id: null,
+  booked_at: null,
+  discord_guild_id: null,
+  discord_channel_id: null,
+  discord_event_id: null,
+  reminder_24h_sent_at: null,
+  reminder_1h_sent_at: null,
+};
+
+const REMINDER_COLUMNS: Record<InterviewReminderType, string> = {
+  '24h': 'reminder_24h_sent_at',
+  '1h': 'reminder_1h_sent_at',
+};
+
+export class HRInterviewModel {
+  async createSlot(
+    slotData: CreateHRInterviewSlotData
+  ): Promise<HRInterviewSlot> {
+    const [slot] = await db('hr_interview_slots')
+      .insert({
+        ...slotData,
+        status: 'open',
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return slot;
+  }
+
+  async findById(id: string): Promise<HRInterviewSlot | null> {
+    const slot = await db('hr_interview_slots').where({ id }).first();
+    return slot || null;
+  }
+
+  async findByIdWithUsers(
+    id: string
+  ): Promise<HRInterviewSlotWithUsers | null> {
+    const slot = await this.slotsWithUsers()
+      .where('hr_interview_slots.id', id)
+      .first();
+    return slot || null;
+  }
+
+  /**
+   * Whether the interviewer already has a slot that isn't cancelled overlapping the window
+   */
+  async hasOverlappingSlot(
+    interviewerId: string,
+    startTime: Date,
+    endTime: Date
+  ): Promise<boolean> {
+    const slot = await db('hr_interview_slots')
+      .where({ interviewer_id: interviewerId })
+      .whereNot({ status: 'cancelled' })
+      .where('start_time', '<', endTime)
+      .where('end_time', '>', startTime)
+      .first();
+    return !!slot;
+  }
+
+  /**
+   * Slots starting after `from`, with the interviewer and the applicant who booked
+   */
+  async listSlots(
+    organizationId: string,
+    filters: {
+      from?: Date;
+      status?: InterviewSlotStatus;
+    } = {}
+  ): Promise<HRInterviewSlotWithUsers[]> {
+    const query = this.slotsWithUsers().where(
+      'hr_interview_slots.organization_id',
+      organizationId
+    );
+
+    if (filters.from) {
+      query.where('hr_interview_slots.start_time', '>=', filters.from);
+    }
+
+    if (filters.status) {
+      query.where('hr_interview_slots.status', filters.status);
+    }
+
+    return query.orderBy('hr_interview_slots.start_time', 'asc');
+  }
+
+  /**
+   * The application's upcoming interview, or its latest one once held
+   */
+  async findByApplication(
+    applicationId: string
+  ): Promise<HRInterviewSlotWithUsers | null> {
+    const slot = await this.slotsWithUsers()
+      .where('hr_interview_slots.application_id', applicationId)
+      .whereIn('hr_interview_slots.status', ['booked', 'completed'])
+      .orderByRaw("hr_interview_slots.status = 'booked' desc")
+      .orderBy('hr_interview_slots.start_time', 'desc')
+      .first();
+    return slot || null;
+  }
+
+  /**
+   * Book an open slot for an application, freeing the slot it held before. Only one
+   * application can win a slot: the slot is locked and must still be open and in
+   * the future.
+   */
+  async book(
+    id: string,
+    applicationId: string,
+    now: Date = new Date()
+  ): Promise<HRInterviewSlot | null> {
+    return db.transaction(async trx => {
+      const available = await trx('hr_interview_slots')
+        .where({ id, status: 'open' })
+        .where('start_time', '>', now)
+        .forUpdate()
+        .first();
+      if (!available) {
+        return null;
+      }
+
+      await trx('hr_interview_slots')
+        .where({ application_id: applicationId, status: 'booked' })
+        .update({ ...RELEASED_SLOT, updated_at: now });
+
+      const [slot] = await trx('hr_interview_slots')
+        .where({ id })
+        .update({
+          status: 'booked',
+          application_id: applicationId,
+          booked_at: now,
+          updated_at: now,
+        })
+        .returning('*');
+      return slot;
+    });
+  }
+
+  async cancel(id: string): Promise<HRInterviewSlot | null> {
+    const [slot] = await db('hr_interview_slots')
+      .where({ id })
+      .whereIn('status', ['open', 'booked'])
+      .update({
+        status: 'cancelled',
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return slot || null;
+  }
+
+  async update(
+    id: string,
+    updateData: UpdateHRInterviewSlotData
+  ): Promise<HRInterviewSlot | null> {
+    const [slot] = await db('hr_interview_slots')
+      .where({ id })
+      .update({
+        ...updateData,
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return slot || null;
+  }
+
+  async recordOutcome(
+    id: string,
+    notes: InterviewNotes,
+    recommendation: InterviewRecommendation
+  ): Promise<HRInterviewSlot | null> {
+    const [slot] = await db('hr_interview_slots')
+      .where({ id })
+      .whereIn('status', ['booked', 'completed'])
+      .update({
+        status: 'completed',
+        notes: JSON.stringify(notes),
+        recommendation,
+        completed_at: new Date(),
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return slot || null;
+  }
+
+  /**
+   * Booked interviews starting within `leadTimeMs` that haven't had this reminder yet
+   */
+  async findDueReminders(
+    reminderType: InterviewReminderType,
+    leadTimeMs: number,
+    now: Date = new Date()
+  ): Promise<HRInterviewSlotWithUsers[]> {
+    return this.slotsWithUsers()
+      .where('hr_interview_slots.status', 'booked')
+      .where('hr_interview_slots.start_time', '>', now)
+      .where(
+        'hr_interview_slots.start_time',
+        '<=',
+        new Date(now.getTime() + leadTimeMs)
+      )
+      .whereNull(`hr_interview_slots.${REMINDER_COLUMNS[reminderType]}`)
+      .orderBy('hr_interview_slots.start_time', 'asc');
+  }
+
+  async markReminderSent(
+    id: string,
+    reminderType: InterviewReminderType
+  ): Promise<void> {
+    await db('hr_interview_slots')
+      .where({ id })
+      .update({ [REMINDER_COLUMNS[reminderType]]: new Date() });
+  }
+
+  private slotsWithUsers() {
+    return db('hr_interview_slots')
+      .join(
+        'organizations',
+        'hr_interview_slots.organization_id',
+        'organizations.id'
+      )
+      .join(
+        'users as interviewers',
+        'hr_interview_slots.interviewer_id',
+        'interviewers.id'
+      )
+      .leftJoin(
+        'hr_applications',
+        'hr_interview_slots.application_id',
+        'hr_applications.id'
+      )
+      .leftJoin(
+        'users as applicants',
+        'hr_applications.user_id',
+        'applicants.id'
+      )
+      .select(
+        'hr_interview_slots.*',
+        'organizations.rsi_org_id',
+        'interviewers.rsi_handle as interviewer_rsi_handle',
+        'hr_applications.user_id as applicant_id',
+        'applicants.rsi_handle as applicant_rsi_handle'
+      );
+  }
+}
@@ -0,0 +1,582 @@
+import db from '../config/database';
+
+export type MentorshipStatus = 'active' | 'ended';
+
+export type MentorAssignmentMethod = 'manual' | 'matched';
+
+export interface HRMentorProfile {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  is_mentor: boolean;
+  max_mentees: number;
+  timezone?: string | null;
+  languages: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface HRMentorProfileWithLoad extends HRMentorProfile {
+  rsi_handle: string;
+  active_mentees: number;
+}
+
+export interface MentorProfileData {
+  is_mentor?: boolean;
+  max_mentees?: number;
+  timezone?: string | null;
+  languages?: string[];
+}
+
+export interface HRMentorship {
+  id: string;
+  organization_id: string;
+  progress_id: string;
+  mentee_id: string;
+  mentor_id: string;
+  status: MentorshipStatus;
+  assignment_method: MentorAssignmentMethod;
+  match_score?: number | null;
+  check_in_interval_days: number;
+  assigned_by?: string | null;
+  started_at: Date;
+  ended_at?: Date | null;
+  end_reason?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface HRMentorshipWithUsers extends HRMentorship {
+  rsi_org_id: string;
+  mentor_rsi_handle: string;
+  mentee_rsi_handle: string;
+  // The open check-in, while the mentorship is active
+  next_check_in_id?: string | null;
+  next_check_in_at?: Date | null;
+}
+
+export interface CreateHRMentorshipData {
+  organization_id: string;
+  progress_id: string;
+  mentee_id: string;
+  mentor_id: string;
+  assignment_method: MentorAssignmentMethod;
+  match_score?: number | null;
+  check_in_interval_days: number;
+  assigned_by: string;
+}
+
+export interface HRMentorshipCheckIn {
+  id: string;
+  mentorship_id: string;
+  scheduled_for: Date;
+  completed_at?: Date | null;
+  completed_by?: string | null;
+  reminder_sent_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface HRMentorshipCheckInWithUsers extends HRMentorshipCheckIn {
+  organization_id: string;
+  rsi_org_id: string;
+  mentor_id: string;
+  mentee_id: string;
+  mentor_rsi_handle: string;
+  mentee_rsi_handle: string;
+}
+
+export interface HRMentorshipNote {
+  id: string;
+  mentorship_id: string;
+  author_id: string;
+  author_rsi_handle?: string;
+  check_in_id?: string | null;
+  content: string;
+  created_at: Date;
+}
+
+export interface MentorshipFilters {
+  status?: MentorshipStatus;
+  mentor_id?: string;
+  mentee_id?: string;
+}
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
+  }
+  return (value as T) ?? fallback;
+};
+
+const toProfile = <T extends HRMentorProfile>(row: any): T => ({
+  ...row,
+  languages: parseJson<string[]>(row.languages, []),
+  ...(row.active_mentees !== undefined && {
+    active_mentees: parseInt(row.active_mentees as string) || 0,
+  }),
+});
+
+const toMentorship = <T extends HRMentorship>(row: any): T => ({
+  ...row,
+  match_score:
+    row.match_score === null || row.match_score === undefined
+      ? null
+      : parseFloat(row.match_score),
+});
+
+export class HRMentorshipModel {
+  async findProfile(
+    organizationId: string,
+    userId: string
+  ): Promise<HRMentorProfile | null> {
+    const profile = await db('hr_mentor_profiles')
+      .where({ organization_id: organizationId, user_id: userId })
+      .first();
+    return profile ? toProfile(profile) : null;
+  }
+
+  async upsertProfile(
+    organizationId: string,
+    userId: string,
+    profileData: MentorProfileData
+  ): Promise<HRMentorProfile> {
+    const row = {
+      ...profileData,
+      ...(profileData.languages && {
+        languages: JSON.stringify(profileData.languages),
+      }),
+      updated_at: new Date(),
+    };
+
+    const [profile] = await db('hr_mentor_profiles')
+      .insert({
+        ...row,
+        organization_id: organizationId,
+        user_id: userId,
+        created_at: new Date(),
+      })
+      .onConflict(['organization_id', 'user_id'])
+      .merge(Object.keys(row))
+      .returning('*');
+
+    return toProfile(profile);
+  }
+
+  /**
+   * Active members who volunteer as mentors, with how many mentees they have now
+   */
+  async listMentors(
+    organizationId: string
+  ): Promise<HRMentorProfileWithLoad[]> {
+    const mentors = await db('hr_mentor_profiles')
+      .join('users', 'hr_mentor_profiles.user_id', 'users.id')
+      .join('organization_members', function () {
+        this.on(
+          'organization_members.user_id',
+          '=',
+          'hr_mentor_profiles.user_id'
+        ).andOn(
+          'organization_members.organization_id',
+          '=',
+          'hr_mentor_profiles.organization_id'
+        );
+      })
+      .where({
+        'hr_mentor_profiles.organization_id': organizationId,
+        'hr_mentor_profiles.is_mentor': true,
+        'organization_members.is_active': true,
+      })
+      .select(
+        'hr_mentor_profiles.*',
+        'users.rsi_handle',
+        db('hr_mentorships')
+          .count('*')
+          .where('hr_mentorships.status', 'active')
+          .whereRaw('hr_mentorships.mentor_id = hr_mentor_profiles.user_id')
+          .whereRaw(
+            'hr_mentorships.organization_id = hr_mentor_profiles.organization_id'
+          )
+          .as('active_mentees')
+      )
+      .orderBy('users.rsi_handle', 'asc');
+
+    return mentors.map(mentor => toProfile<HRMentorProfileWithLoad>(mentor));
+  }
+
+  /**
+   * Skill ids of each of the users in the organization; with `verifiedOnly`, just
+   * the skills that have been verified
+   */
+  async getUserSkillIds(
+    organizationId: string,
+    userIds: string[],
+    verifiedOnly: boolean = false
+  ): Promise<Record<string, string[]>> {
+    const skillsByUser: Record<string, string[]> = {};
+    if (userIds.length === 0) {
+      return skillsByUser;
+    }
+
+    const query = db('hr_user_skills')
+      .where({ organization_id: organizationId })
+      .whereIn('user_id', userIds)
+      .select('user_id', 'skill_id');
+
+    if (verifiedOnly) {
+      query.where({ verified: true });
+    }
+
+    for (const userSkill of await query) {
+      (skillsByUser[userSkill.user_id] ||= []).push(userSkill.skill_id);
+    }
+
+    return skillsByUser;
+  }
+
+  async findById(id: string): Promise<HRMentorship | null> {
+    const mentorship = await db('hr_mentorships').where({ id }).first();
+    return mentorship ? toMentorship(mentorship) : null;
+  }
+
+  async findByIdWithUsers(id: string): Promise<HRMentorshipWithUsers | null> {
+    const mentorship = await this.mentorshipsWithUsers()
+      .where('hr_mentorships.id', id)
+      .first();
+    return mentorship ? toMentorship<HRMentorshipWithUsers>(mentorship) : null;
+  }
+
+  async findActiveByMentee(
+    organizationId: string,
+    menteeId: string
+  ): Promise<HRMentorship | null> {
+    const mentorship = await db('hr_mentorships')
+      .where({
+        organization_id: organizationId,
+        mentee_id: menteeId,
+        status: 'active',
+      })
+      .first();
+    return mentorship ? toMentorship(mentorship) : null;
+  }
+
+  async list(
+    organizationId: string,
+    filters: MentorshipFilters = {}
+  ): Promise<HRMentorshipWithUsers[]> {
+    const query = this.mentorshipsWithUsers().where(
+      'hr_mentorships.organization_id',
+      organizationId
+    );
+
+    if (filters.status) {
+      query.where('hr_mentorships.status', filters.status);
+    }
+
+    if (filters.mentor_id) {
+      query.where('hr_mentorships.mentor_id', filters.mentor_id);
+    }
+
+    if (filters.mentee_id) {
+      query.where('hr_mentorships.mentee_id', filters.mentee_id);
+    }
+
+    const mentorships = await query.orderBy(
+      'hr_mentorships.started_at',
+      'desc'
+    );
+    return mentorships.map(mentorship =>
+      toMentorship<HRMentorshipWithUsers>(mentorship)
+    );
+  }
+
+  /**
+   * Mentorships the user is part of, as mentor or as mentee
+   */
+  async listForUser(
+    organizationId: string,
+    userId: string
+  ): Promise<HRMentorshipWithUsers[]> {
+    const mentorships = await this.mentorshipsWithUsers()
+      .where('hr_mentorships.organization_id', organizationId)
+      .where(query =>
+        query
+          .where('hr_mentorships.mentor_id', userId)
+          .orWhere('hr_mentorships.mentee_id', userId)
+      )
+      .orderByRaw("hr_mentorships.status = 'active' desc")
+      .orderBy('hr_mentorships.started_at', 'desc');
+    return mentorships.map(mentorship =>
+      toMentorship<HRMentorshipWithUsers>(mentorship)
+    );
+  }
+
+  /**
+   * Start a mentorship with its first check-in, ending the mentee's current one.
+   * Returns the new mentorship and the one it replaced, or null when the mentor has
+   * no room for another mentee.
+   */
+  async assign(
+    mentorshipData: CreateHRMentorshipData,
+    firstCheckInAt: Date,
+    now: Date = new Date()
+  ): Promise<{ mentorship: HRMentorship; previous: HRMentorship | null } | null> {
+    return db.transaction(async trx => {
+      // Locking the mentor's profile keeps concurrent assignments from overfilling it
+      const profile = await trx('hr_mentor_profiles')
+        .where({
+          organization_id: mentorshipData.organization_id,
+          user_id: mentorshipData.mentor_id,
+          is_mentor: true,
+        })
+        .forUpdate()
+        .first();
+      if (!profile) return null;
+
+      const active = await trx('hr_mentorships')
+        .where({
+          organization_id: mentorshipData.organization_id,
+          mentor_id: mentorshipData.mentor_id,
+          status: 'active',
+        })
+        .count('* as count')
+        .first();
+      if ((parseInt(active?.count as string) || 0) >= profile.max_mentees) {
+        return null;
+      }
+
+      const [previous] = await trx('hr_mentorships')
+        .where({
+          organization_id: mentorshipData.organization_id,
+          mentee_id: mentorshipData.mentee_id,
+          status: 'active',
+        })
+        .update({
+          status: 'ended',
+          ended_at: now,
+          end_reason: 'Reassigned to another mentor',
+          updated_at: now,
+        })
+        .returning('*');
+
+      if (previous) {
+        await trx('hr_mentorship_check_ins')
+          .where({ mentorship_id: previous.id })
+          .whereNull('completed_at')
+          .del();
+      }
+
+      const [mentorship] = await trx('hr_mentorships')
+        .insert({
+          ...mentorshipData,
+          status: 'active',
+          started_at: now,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('*');
+
+      await trx('hr_mentorship_check_ins').insert({
+        mentorship_id: mentorship.id,
+        scheduled_for: firstCheckInAt,
+        created_at: now,
+        updated_at: now,
+      });
+
+      return {
+        mentorship: toMentorship(mentorship),
+        previous: previous ? toMentorship(previous) : null,
+      };
+    });
+  }
+
+  /**
+   * End an active mentorship, dropping the check-in it still had open
+   */
+  async end(
+    id: string,
+    reason: string | null,
+    now: Date = new Date()
+  ): Promise<HRMentorship | null> {
+    return db.transaction(async trx => {
+      const [mentorship] = await trx('hr_mentorships')
+        .where({ id, status: 'active' })
+        .update({
+          status: 'ended',
+          ended_at: now,
+          end_reason: reason,
+          updated_at: now,
+        })
+        .returning('*');
+
+      if (mentorship) {
+        await trx('hr_mentorship_check_ins')
+          .where({ mentorship_id: id })
+          .whereNull('completed_at')
+          .del();
+      }
+
+      return mentorship ? toMentorship(mentorship) : null;
+    });
+  }
+
+  async listCheckIns(mentorshipId: string): Promise<HRMentorshipCheckIn[]> {
+    return db('hr_mentorship_check_ins')
+      .where({ mentorship_id: mentorshipId })
+      .orderBy('scheduled_for', 'desc');
+  }
+
+  async findOpenCheckIn(
+    mentorshipId: string
+  ): Promise<HRMentorshipCheckIn | null> {
+    const checkIn = await db('hr_mentorship_check_ins')
+      .where({ mentorship_id: mentorshipId })
+      .whereNull('completed_at')
+      .orderBy('scheduled_for', 'asc')
+      .first();
+    return checkIn || null;
+  }
+
+  /**
+   * Complete the open check-in and schedule the one after it
+   */
+  async completeCheckIn(
+    id: string,
+    completedBy: string,
+    nextCheckInAt: Date,
+    now: Date = new Date()
+  ): Promise<{
+    checkIn: HRMentorshipCheckIn;
+    nextCheckIn: HRMentorshipCheckIn;
+  } | null> {
+    return db.transaction(async trx => {
+      const [checkIn] = await trx('hr_mentorship_check_ins')
+        .where({ id })
+        .whereNull('completed_at')
+        .update({
+          completed_at: now,
+          completed_by: completedBy,
+          updated_at: now,
+        })
+        .returning('*');
+      if (!checkIn) {
+        return null;
+      }
+
+      const [nextCheckIn] = await trx('hr_mentorship_check_ins')
+        .insert({
+          mentorship_id: checkIn.mentorship_id,
+          scheduled_for: nextCheckInAt,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('*');
+
+      return { checkIn, nextCheckIn };
+    });
+  }
+
+  /**
+   * Open check-ins of active mentorships due within `leadTimeMs` that haven't had
+   * their reminder yet
+   */
+  async findDueCheckInReminders(
+    leadTimeMs: number,
+    now: Date = new Date()
+  ): Promise<HRMentorshipCheckInWithUsers[]> {
+    return db('hr_mentorship_check_ins')
+      .join(
+        'hr_mentorships',
+        'hr_mentorship_check_ins.mentorship_id',
+        'hr_mentorships.id'
+      )
+      .join(
+        'organizations',
+        'hr_mentorships.organization_id',
+        'organizations.id'
+      )
+      .join('users as mentors', 'hr_mentorships.mentor_id', 'mentors.id')
+      .join('users as mentees', 'hr_mentorships.mentee_id', 'mentees.id')
+      .where('hr_mentorships.status', 'active')
+      .whereNull('hr_mentorship_check_ins.completed_at')
+      .whereNull('hr_mentorship_check_ins.reminder_sent_at')
+      .where(
+        'hr_mentorship_check_ins.scheduled_for',
+        '<=',
+        new Date(now.getTime() + leadTimeMs)
+      )
+      .select(
+        'hr_mentorship_check_ins.*',
+        'hr_mentorships.organization_id',
+        'organizations.rsi_org_id',
+        'hr_mentorships.mentor_id',
+        'hr_mentorships.mentee_id',
+        'mentors.rsi_handle as mentor_rsi_handle',
+        'mentees.rsi_handle as mentee_rsi_handle'
+      )
+      .orderBy('hr_mentorship_check_ins.scheduled_for', 'asc');
+  }
+
+  async markCheckInReminderSent(id: string): Promise<void> {
+    await db('hr_mentorship_check_ins')
+      .where({ id })
+      .update({ reminder_sent_at: new Date() });
+  }
+
+  async addNote(
+    mentorshipId: string,
+    authorId: string,
+    content: string,
+    checkInId: string | null = null
+  ): Promise<HRMentorshipNote> {
+    const [note] = await db('hr_mentorship_notes')
+      .insert({
+        mentorship_id: mentorshipId,
+        author_id: authorId,
+        check_in_id: checkInId,
+        content,
+        created_at: new Date(),
+      })
+      .returning('*');
+
+    return note;
+  }
+
+  async listNotes(mentorshipId: string): Promise<HRMentorshipNote[]> {
+    return db('hr_mentorship_notes')
+      .join('users', 'hr_mentorship_notes.author_id', 'users.id')
+      .where('hr_mentorship_notes.mentorship_id', mentorshipId)
+      .select('hr_mentorship_notes.*', 'users.rsi_handle as author_rsi_handle')
+      .orderBy('hr_mentorship_notes.created_at', 'desc');
+  }
+
+  private mentorshipsWithUsers() {
+    return db('hr_mentorships')
+      .join(
+        'organizations',
+        'hr_mentorships.organization_id',
+        'organizations.id'
+      )
+      .join('users as mentors', 'hr_mentorships.mentor_id', 'mentors.id')
+      .join('users as mentees', 'hr_mentorships.mentee_id', 'mentees.id')
+      .leftJoin('hr_mentorship_check_ins as next_check_ins', function () {
+        this.on(
+          'next_check_ins.mentorship_id',
+          '=',
+          'hr_mentorships.id'
+        ).andOnNull('next_check_ins.completed_at');
+      })
+      .select(
+        'hr_mentorships.*',
+        'organizations.rsi_org_id',
+        'mentors.rsi_handle as mentor_rsi_handle',
+        'mentees.rsi_handle as mentee_rsi_handle',
+        'next_check_ins.id as next_check_in_id',
+        'next_check_ins.scheduled_for as next_check_in_at'
+      );
+  }
+}
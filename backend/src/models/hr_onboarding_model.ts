@@ -1,5 +1,15 @@
 import db from '../config/database';
 
+export type OnboardingTrainingType = 'onboarding' | 'skill_development' | 'leadership' | 'compliance';
+
+// Something the member does elsewhere in the organization that completes a task on its own
+export type OnboardingTaskTrigger =
+  | { type: 'document_acknowledged'; document_id: string }
+  | { type: 'training_attended'; training_type?: OnboardingTrainingType }
+  | { type: 'skill_verified'; skill_id: string };
+
+export type OnboardingTaskAssigneeType = 'member' | 'user' | 'role';
+
 export interface OnboardingTask {
   id: string;
   title: string;
@@ -7,6 +17,20 @@ export interface OnboardingTask {
   required: boolean;
   estimated_hours: number;
   order_index: number;
+  // Tasks that have to be completed before this one unlocks
+  depends_on?: string[];
+  // Days after the member starts onboarding that the task is due
+  due_offset_days?: number;
+  // Who completes the task: the new member unless a user or holders of a role sign it off
+  assignee_type?: OnboardingTaskAssigneeType;
+  assignee_id?: string;
+  completion_trigger?: OnboardingTaskTrigger;
+}
+
+export interface OnboardingTaskCompletion {
+  completed_by: string | null;
+  completed_at: Date;
+  source: 'manual' | 'trigger';
 }
 
 export interface HROnboardingTemplate {
@@ -41,6 +65,7 @@ export interface HROnboardingProgress {
   template_id: string;
   status: 'not_started' | 'in_progress' | 'completed' | 'overdue';
   completed_tasks: string[];
+  task_completions?: Record<string, OnboardingTaskCompletion>;
   completion_percentage: number;
   started_at?: Date;
   completed_at?: Date;
@@ -57,6 +82,7 @@ export interface CreateHROnboardingProgressData {
 export interface UpdateHROnboardingProgressData {
   status?: HROnboardingProgress['status'];
   completed_tasks?: string[];
+  task_completions?: Record<string, OnboardingTaskCompletion>;
   completion_percentage?: number;
   started_at?: Date;
   completed_at?: Date;
@@ -239,7 +265,11 @@ export class HROnboardingModel {
     return { data: progress, total };
   }
 
-  async completeTask(progressId: string, taskId: string): Promise<HROnboardingProgress | null> {
+  async completeTask(
+    progressId: string,
+    taskId: string,
+    completion: Omit<OnboardingTaskCompletion, 'completed_at'> = { completed_by: null, source: 'manual' }
+  ): Promise<HROnboardingProgress | null> {
     const progress = await this.findProgressById(progressId);
     if (!progress) return null;
 
@@ -267,8 +297,14 @@ export class HROnboardingModel {
       status = 'in_progress';
     }
 
+    const taskCompletions = {
+      ...(progress.task_completions || {}),
+      [taskId]: { ...completion, completed_at: new Date() },
+    };
+
     const updateData: UpdateHROnboardingProgressData = {
       completed_tasks: completedTasks,
+      task_completions: taskCompletions,
       completion_percentage: completionPercentage,
       status,
       started_at: progress.started_at || new Date(),
@@ -285,6 +321,7 @@ export class HROnboardingModel {
     organizationId: string,
     filters: {
       status?: HROnboardingProgress['status'];
+      user_id?: string;
       limit?: number;
       offset?: number;
     } = {}
@@ -306,6 +343,10 @@ export class HROnboardingModel {
       query = query.where({ 'hr_onboarding_progress.status': filters.status });
     }
 
+    if (filters.user_id) {
+      query = query.where({ 'hr_onboarding_progress.user_id': filters.user_id });
+    }
+
     // Get total count
     const countQuery = query.clone().clearSelect().count('hr_onboarding_progress.id as count');
     const totalResult = await countQuery.first();
@@ -325,6 +366,48 @@ export class HROnboardingModel {
     return { data: progress, total };
   }
 
+  async listActiveProgress(organizationId: string): Promise<HROnboardingProgress[]> {
+    return db('hr_onboarding_progress')
+      .where({ organization_id: organizationId })
+      .whereIn('status', ['not_started', 'in_progress', 'overdue']);
+  }
+
+  // Facts that completion triggers are checked against
+  async hasAttendedTrainingEvent(
+    organizationId: string,
+    userId: string,
+    trainingType?: OnboardingTrainingType
+  ): Promise<boolean> {
+    const query = db('event_registrations')
+      .join('hr_training_events', 'event_registrations.event_id', 'hr_training_events.event_id')
+      .where({
+        'hr_training_events.organization_id': organizationId,
+        'event_registrations.user_id': userId,
+        'event_registrations.status': 'attended',
+      });
+
+    if (trainingType) {
+      query.where({ 'hr_training_events.training_type': trainingType });
+    }
+
+    const attended = await query.first('event_registrations.id');
+    return !!attended;
+  }
+
+  async hasVerifiedSkill(organizationId: string, userId: string, skillId: string): Promise<boolean> {
+    const userSkill = await db('hr_user_skills')
+      .where({ organization_id: organizationId, user_id: userId, skill_id: skillId, verified: true })
+      .first('id');
+    return !!userSkill;
+  }
+
+  async findTrainingEvent(eventId: string): Promise<{ organization_id: string; training_type: OnboardingTrainingType } | null> {
+    const trainingEvent = await db('hr_training_events')
+      .where({ event_id: eventId })
+      .first('organization_id', 'training_type');
+    return trainingEvent || null;
+  }
+
   async getOverdueProgress(organizationId: string): Promise<HROnboardingProgress[]> {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -0,0 +1,286 @@
+import db from '../config/database';
+import { ApplicationStatus, HRApplication } from './hr_application_model';
+
+export interface HRPipelineStage {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  // The application status an application in this stage has
+  status: ApplicationStatus;
+  position: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PipelineStageData {
+  // Existing stages keep their id so applications stay in them
+  id?: string;
+  name: string;
+  description?: string | null;
+  status: ApplicationStatus;
+}
+
+export type PipelineRuleTrigger =
+  'application_submitted' | 'status_changed' | 'stage_entered' | 'idle';
+
+export interface PipelineRuleConditions {
+  status?: ApplicationStatus;
+  stage_id?: string;
+  // Idle rules: days since the application last changed
+  idle_days?: number;
+}
+
+export type PipelineRuleAction =
+  | { type: 'reject'; reason: string }
+  | { type: 'move_to_stage'; stage_id: string }
+  | { type: 'assign_round_robin'; recruiter_ids: string[] }
+  | { type: 'generate_invite_code' }
+  | { type: 'assign_role'; role_id: string }
+  | { type: 'start_onboarding'; template_id: string };
+
+export type PipelineRuleActionType = PipelineRuleAction['type'];
+
+export interface HRPipelineRule {
+  id: string;
+  organization_id: string;
+  name: string;
+  trigger: PipelineRuleTrigger;
+  conditions: PipelineRuleConditions;
+  actions: PipelineRuleAction[];
+  is_active: boolean;
+  assignment_cursor: number;
+  created_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PipelineRuleData {
+  name: string;
+  trigger: PipelineRuleTrigger;
+  conditions: PipelineRuleConditions;
+  actions: PipelineRuleAction[];
+  is_active: boolean;
+}
+
+const TERMINAL_STATUSES: ApplicationStatus[] = ['approved', 'rejected'];
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
+  }
+  return (value as T) ?? fallback;
+};
+
+const toRule = (row: any): HRPipelineRule => ({
+  ...row,
+  conditions: parseJson<PipelineRuleConditions>(row.conditions, {}),
+  actions: parseJson<PipelineRuleAction[]>(row.actions, []),
+});
+
+export class HRPipelineModel {
+  async listStages(organizationId: string): Promise<HRPipelineStage[]> {
+    return db('hr_pipeline_stages')
+      .where({ organization_id: organizationId })
+      .orderBy('position', 'asc');
+  }
+
+  async findStageById(id: string): Promise<HRPipelineStage | null> {
+    const stage = await db('hr_pipeline_stages').where({ id }).first();
+    return stage || null;
+  }
+
+  /**
+   * The stage an application enters when it reaches the status
+   */
+  async findFirstStageForStatus(
+    organizationId: string,
+    status: ApplicationStatus
+  ): Promise<HRPipelineStage | null> {
+    const stage = await db('hr_pipeline_stages')
+      .where({ organization_id: organizationId, status })
+      .orderBy('position', 'asc')
+      .first();
+    return stage || null;
+  }
+
+  /**
+   * Replace the organization's stages with the given ordered list. Stages left out
+   * are removed and their applications fall back to having no stage.
+   */
+  async replaceStages(
+    organizationId: string,
+    stages: PipelineStageData[]
+  ): Promise<HRPipelineStage[]> {
+    await db.transaction(async trx => {
+      const keptIds = stages
+        .map(stage => stage.id)
+        .filter((id): id is string => !!id);
+
+      await trx('hr_pipeline_stages')
+        .where({ organization_id: organizationId })
+        .whereNotIn('id', keptIds)
+        .del();
+
+      for (const [position, stage] of stages.entries()) {
+        const row = {
+          name: stage.name,
+          description: stage.description || null,
+          status: stage.status,
+          position,
+          updated_at: new Date(),
+        };
+
+        if (stage.id) {
+          await trx('hr_pipeline_stages')
+            .where({ id: stage.id, organization_id: organizationId })
+            .update(row);
+        } else {
+          await trx('hr_pipeline_stages').insert({
+            ...row,
+            organization_id: organizationId,
+            created_at: new Date(),
+          });
+        }
+      }
+    });
+
+    return this.listStages(organizationId);
+  }
+
+  async listRules(organizationId: string): Promise<HRPipelineRule[]> {
+    const rules = await db('hr_pipeline_rules')
+      .where({ organization_id: organizationId })
+      .orderBy('created_at', 'asc');
+    return rules.map(toRule);
+  }
+
+  async findRuleById(id: string): Promise<HRPipelineRule | null> {
+    const rule = await db('hr_pipeline_rules').where({ id }).first();
+    return rule ? toRule(rule) : null;
+  }
+
+  /**
+   * Active rules for a trigger, in the order they were created. Without an
+   * organization, rules of every organization are returned.
+   */
+  async findActiveRules(
+    trigger: PipelineRuleTrigger,
+    organizationId?: string
+  ): Promise<HRPipelineRule[]> {
+    const query = db('hr_pipeline_rules').where({ trigger, is_active: true });
+
+    if (organizationId) {
+      query.where({ organization_id: organizationId });
+    }
+
+    const rules = await query.orderBy('created_at', 'asc');
+    return rules.map(toRule);
+  }
+
+  async createRule(
+    organizationId: string,
+    ruleData: PipelineRuleData,
+    createdBy: string
+  ): Promise<HRPipelineRule> {
+    const [rule] = await db('hr_pipeline_rules')
+      .insert({
+        organization_id: organizationId,
+        name: ruleData.name,
+        trigger: ruleData.trigger,
+        conditions: JSON.stringify(ruleData.conditions),
+        actions: JSON.stringify(ruleData.actions),
+        is_active: ruleData.is_active,
+        created_by: createdBy,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return toRule(rule);
+  }
+
+  async updateRule(
+    id: string,
+    ruleData: PipelineRuleData
+  ): Promise<HRPipelineRule | null> {
+    const [rule] = await db('hr_pipeline_rules')
+      .where({ id })
+      .update({
+        name: ruleData.name,
+        trigger: ruleData.trigger,
+        conditions: JSON.stringify(ruleData.conditions),
+        actions: JSON.stringify(ruleData.actions),
+        is_active: ruleData.is_active,
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return rule ? toRule(rule) : null;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const deleted = await db('hr_pipeline_rules').where({ id }).del();
+    return deleted > 0;
+  }
+
+  /**
+   * Advance the rule's round-robin cursor, returning its position before the move
+   */
+  async nextAssignmentIndex(ruleId: string): Promise<number> {
+    const [rule] = await db('hr_pipeline_rules')
+      .where({ id: ruleId })
+      .increment('assignment_cursor', 1)
+      .returning('assignment_cursor');
+    return (rule?.assignment_cursor ?? 1) - 1;
+  }
+
+  /**
+   * Open applications matching an idle rule that haven't changed since `idleSince`.
+   * Applications the rule already fired for since their last change are left out.
+   */
+  async findIdleApplications(
+    rule: HRPipelineRule,
+    idleSince: Date
+  ): Promise<HRApplication[]> {
+    const query = db('hr_applications as a')
+      .leftJoin('hr_pipeline_rule_runs as r', function () {
+        this.on('r.application_id', '=', 'a.id').andOn(
+          'r.rule_id',
+          '=',
+          db.raw('?', [rule.id])
+        );
+      })
+      .where('a.organization_id', rule.organization_id)
+      .whereNotIn('a.status', TERMINAL_STATUSES)
+      .where('a.updated_at', '<', idleSince)
+      .where(function () {
+        this.whereNull('r.fired_at').orWhereRaw('r.fired_at < a.updated_at');
+      })
+      .select('a.*');
+
+    if (rule.conditions.status) {
+      query.where('a.status', rule.conditions.status);
+    }
+
+    if (rule.conditions.stage_id) {
+      query.where('a.stage_id', rule.conditions.stage_id);
+    }
+
+    return query.orderBy('a.updated_at', 'asc');
+  }
+
+  async recordRuleRun(
+    ruleId: string,
+    applicationId: string,
+    firedAt: Date = new Date()
+  ): Promise<void> {
+    await db('hr_pipeline_rule_runs')
+      .insert({ rule_id: ruleId, application_id: applicationId, fired_at: firedAt })
+      .onConflict(['rule_id', 'application_id'])
+      .merge({ fired_at: firedAt });
+  }
+}
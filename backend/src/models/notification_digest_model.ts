@@ -0,0 +1,92 @@
+import db from '../config/database';
+import {
+  NotificationDigest,
+  NotificationDigestFrequency,
+  NotificationEntityType,
+} from '../types/notification';
+
+export interface PendingDigestNotification {
+  id: string;
+  entity_type: NotificationEntityType;
+  organization_id: string | null;
+  rsi_org_id: string | null;
+  organization_name: string | null;
+}
+
+export class NotificationDigestModel {
+  /**
+   * Claim a user's digest for a period. Returns null when the period was already claimed.
+   */
+  async claimPeriod(
+    userId: string,
+    frequency: Exclude<NotificationDigestFrequency, 'off'>,
+    periodStart: string
+  ): Promise<NotificationDigest | null> {
+    const [digest] = await db('notification_digests')
+      .insert({
+        user_id: userId,
+        frequency,
+        period_start: periodStart,
+        notification_count: 0,
+        created_at: new Date(),
+      })
+      .onConflict(['user_id', 'frequency', 'period_start'])
+      .ignore()
+      .returning('*');
+
+    return digest || null;
+  }
+
+  // Give a claimed period back, along with its notifications, so the next run can retry it
+  async releasePeriod(digestId: string): Promise<void> {
+    await db.transaction(async trx => {
+      await trx('notification')
+        .where({ digest_id: digestId })
+        .update({ digested_at: null, digest_id: null });
+      await trx('notification_digests').where({ id: digestId }).del();
+    });
+  }
+
+  /**
+   * Unread notifications that have not been part of a digest yet
+   */
+  async findPendingNotifications(
+    userId: string,
+    before: Date
+  ): Promise<PendingDigestNotification[]> {
+    return db('notification as n')
+      .join('notification_object as no', 'n.notification_object_id', 'no.id')
+      .leftJoin('organizations as o', 'no.organization_id', 'o.id')
+      .where('n.notifier_id', userId)
+      .where('n.is_read', false)
+      .whereNull('n.digested_at')
+      .where('n.created_at', '<', before)
+      .where('no.status', 1)
+      .whereNot('no.entity_type', NotificationEntityType.SYSTEM_DIGEST)
+      .select(
+        'n.id',
+        'no.entity_type',
+        'no.organization_id',
+        'o.rsi_org_id',
+        'o.name as organization_name'
+      )
+      .orderBy('n.created_at', 'asc');
+  }
+
+  /**
+   * Record what a digest covered and flag its notifications so later digests skip them
+   */
+  async markDigested(digestId: string, notificationIds: string[]): Promise<void> {
+    await db.transaction(async trx => {
+      if (notificationIds.length > 0) {
+        await trx('notification')
+          .whereIn('id', notificationIds)
+          .update({ digested_at: new Date(), digest_id: digestId });
+      }
+
+      await trx('notification_digests')
+        .where({ id: digestId })
+        .update({ notification_count: notificationIds.length });
+    });
+  }
+}
@@ -91,6 +91,7 @@ export class NotificationModel {
       const notificationObjectData = {
         entity_type: data.entity_type,
         entity_id: data.entity_id,
+        organization_id: data.organization_id || null,
         created_on: new Date(),
         status: 1,
         created_at: new Date(),
@@ -342,6 +343,31 @@ export class NotificationModel {
     return result;
   }
 
+  // Unread counts for several users at once (users with none are omitted)
+  async countUnreadForUsers(userIds: string[]): Promise<Map<string, number>> {
+    if (userIds.length === 0) return new Map();
+
+    const results = await db('notification as n')
+      .leftJoin(
+        'notification_object as no',
+        'n.notification_object_id',
+        'no.id'
+      )
+      .whereIn('n.notifier_id', userIds)
+      .where('n.is_read', false)
+      .where('no.status', 1)
+      .select('n.notifier_id')
+      .count('* as count')
+      .groupBy('n.notifier_id');
+
+    return new Map(
+      results.map((result: any) => [
+        result.notifier_id,
+        parseInt(result.count as string),
+      ])
+    );
+  }
+
   // Get notification statistics for a user
   async getNotificationStats(userId: string): Promise<NotificationStats> {
     // Total notifications
@@ -0,0 +1,140 @@
+import db from '../config/database';
+import {
+  NotificationChannel,
+  NotificationEntityType,
+  NotificationPreference,
+  NotificationPreferenceChange,
+  NotificationSettings,
+} from '../types/notification';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: Omit<NotificationSettings, 'user_id'> = {
+  timezone: 'UTC',
+  quiet_hours_enabled: false,
+  quiet_hours_start: '22:00',
+  quiet_hours_end: '08:00',
+  digest_frequency: 'off',
+};
+
+export class NotificationPreferenceModel {
+  async listByUser(userId: string): Promise<Array<NotificationPreference & { rsi_org_id: string | null }>> {
+    return db('notification_preferences')
+      .leftJoin('organizations', 'notification_preferences.organization_id', 'organizations.id')
+      .where('notification_preferences.user_id', userId)
+      .select('notification_preferences.*', 'organizations.rsi_org_id')
+      .orderBy('notification_preferences.entity_type', 'asc')
+      .orderBy('notification_preferences.channel', 'asc');
+  }
+
+  /**
+   * Explicit choices that apply to a type and channel for a batch of recipients:
+   * their global rows plus any rows for the given organization
+   */
+  async findForRecipients(
+    userIds: string[],
+    entityType: NotificationEntityType,
+    channel: NotificationChannel,
+    organizationId?: string
+  ): Promise<NotificationPreference[]> {
+    if (userIds.length === 0) return [];
+
+    return db('notification_preferences')
+      .whereIn('user_id', userIds)
+      .where({ entity_type: entityType, channel })
+      .where(query => {
+        query.whereNull('organization_id');
+        if (organizationId) {
+          query.orWhere('organization_id', organizationId);
+        }
+      });
+  }
+
+  /**
+   * Apply a batch of changes atomically. Enabled values upsert a row, null removes it.
+   */
+  async applyChanges(userId: string, changes: NotificationPreferenceChange[]): Promise<void> {
+    await db.transaction(async trx => {
+      for (const change of changes) {
+        const organizationId = change.organization_id;
+        const scope = trx('notification_preferences').where({
+          user_id: userId,
+          entity_type: change.entity_type,
+          channel: change.channel,
+        });
+
+        if (organizationId) {
+          scope.where({ organization_id: organizationId });
+        } else {
+          scope.whereNull('organization_id');
+        }
+
+        await scope.del();
+
+        if (change.enabled !== null) {
+          await trx('notification_preferences').insert({
+            user_id: userId,
+            organization_id: organizationId,
+            entity_type: change.entity_type,
+            channel: change.channel,
+            enabled: change.enabled,
+            created_at: new Date(),
+            updated_at: new Date(),
+          });
+        }
+      }
+    });
+  }
+
+  async getSettings(userId: string): Promise<NotificationSettings> {
+    const settings = await db('notification_settings').where({ user_id: userId }).first();
+    return settings ? this.toSettings(settings) : { user_id: userId, ...DEFAULT_NOTIFICATION_SETTINGS };
+  }
+
+  /**
+   * Settings for a batch of recipients; only users who saved settings are included
+   */
+  async getSettingsForUsers(userIds: string[]): Promise<Map<string, NotificationSettings>> {
+    if (userIds.length === 0) return new Map();
+
+    const rows = await db('notification_settings').whereIn('user_id', userIds);
+    return new Map(rows.map((row: any) => [row.user_id, this.toSettings(row)]));
+  }
+
+  /**
+   * Settings of every user who has opted in to digests
+   */
+  async listDigestSubscribers(): Promise<NotificationSettings[]> {
+    const rows = await db('notification_settings').whereNot('digest_frequency', 'off');
+    return rows.map((row: any) => this.toSettings(row));
+  }
+
+  async upsertSettings(
+    userId: string,
+    data: Partial<Omit<NotificationSettings, 'user_id'>>
+  ): Promise<NotificationSettings> {
+    const current = await this.getSettings(userId);
+    const [settings] = await db('notification_settings')
+      .insert({
+        ...current,
+        ...data,
+        user_id: userId,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .onConflict('user_id')
+      .merge({ ...data, updated_at: new Date() })
+      .returning('*');
+
+    return this.toSettings(settings);
+  }
+
+  private toSettings(row: any): NotificationSettings {
+    return {
+      user_id: row.user_id,
+      timezone: row.timezone,
+      quiet_hours_enabled: row.quiet_hours_enabled,
+      quiet_hours_start: row.quiet_hours_start,
+      quiet_hours_end: row.quiet_hours_end,
+      digest_frequency: row.digest_frequency,
+    };
+  }
+}
@@ -42,16 +42,7 @@ export class OrganizationModel {
 
     if (ownerRole) {
       // Add the creator as a member with owner role
-      await db('organization_members').insert({
-        id: uuidv4(),
-        organization_id: organization.id,
-        user_id: orgData.owner_id!,
-        role_id: ownerRole.id,
-        is_active: true,
-        joined_at: new Date(),
-        created_at: new Date(),
-        updated_at: new Date(),
-      });
+      await this.roleModel.addRoleToUser(organization.id, orgData.owner_id!, ownerRole.id);
     }
 
     // Generate verification sentinel with brackets
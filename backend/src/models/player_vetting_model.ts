@@ -0,0 +1,113 @@
+import db from '../config/database';
+import { PlayerOrgHistory } from '../types/sc_player';
+import {
+  VettingAffiliationReport,
+  VettingAltAccount,
+} from '../types/reputation';
+
+export interface OrganizationReportTally {
+  org_spectrum_id: string;
+  approved_report_count: number;
+  open_report_count: number;
+}
+
+export class PlayerVettingModel {
+  async getOrgHistory(playerId: string): Promise<PlayerOrgHistory[]> {
+    return db('player_org_history')
+      .where({ player_id: playerId })
+      .orderBy([
+        { column: 'is_current', order: 'desc' },
+        { column: 'last_observed_at', order: 'desc' },
+      ]);
+  }
+
+  /**
+   * Count the organization reports naming each organization, against any player.
+   * Rejected reports are left out; pending and disputed ones count as open.
+   */
+  async getOrganizationReportTallies(
+    orgSpectrumIds: string[]
+  ): Promise<OrganizationReportTally[]> {
+    if (orgSpectrumIds.length === 0) return [];
+
+    const rows = await db('organization_reports')
+      .whereIn('org_spectrum_id', orgSpectrumIds)
+      .whereNot('status', 'rejected')
+      .groupBy('org_spectrum_id')
+      .select(
+        'org_spectrum_id',
+        db.raw(
+          "COUNT(*) FILTER (WHERE status = 'approved') as approved_report_count"
+        ),
+        db.raw(
+          "COUNT(*) FILTER (WHERE status <> 'approved') as open_report_count"
+        )
+      );
+
+    return rows.map((row: Record<string, string>) => ({
+      org_spectrum_id: row.org_spectrum_id,
+      approved_report_count: parseInt(row.approved_report_count) || 0,
+      open_report_count: parseInt(row.open_report_count) || 0,
+    }));
+  }
+
+  async getAffiliationReports(
+    playerId: string
+  ): Promise<VettingAffiliationReport[]> {
+    return db('organization_reports')
+      .where({ player_id: playerId })
+      .whereNot('status', 'rejected')
+      .select(
+        'id as report_id',
+        'org_spectrum_id',
+        'org_name',
+        'status',
+        'corroboration_count'
+      )
+      .orderBy('created_at', 'desc');
+  }
+
+  /**
+   * Alt account reports naming the player's alts, and those naming the player as
+   * somebody else's alt by handle or Spectrum ID
+   */
+  async getAltAccounts(
+    playerId: string,
+    handle: string,
+    spectrumId: string
+  ): Promise<VettingAltAccount[]> {
+    const alts = await db('alt_account_reports')
+      .where({ main_player_id: playerId })
+      .whereNot('status', 'rejected')
+      .select(
+        'id as report_id',
+        db.raw("'alt' as relation"),
+        'alt_handle as handle',
+        'alt_spectrum_id as spectrum_id',
+        'status',
+        'corroboration_count'
+      )
+      .orderBy('created_at', 'desc');
+
+    const mains = await db('alt_account_reports as r')
+      .join('sc_players as p', 'r.main_player_id', 'p.id')
+      .whereNot('r.main_player_id', playerId)
+      .whereNot('r.status', 'rejected')
+      .where(query =>
+        query
+          .where('r.alt_spectrum_id', spectrumId)
+          .orWhereRaw('LOWER(r.alt_handle) = ?', [handle.toLowerCase()])
+      )
+      .select(
+        'r.id as report_id',
+        db.raw("'main' as relation"),
+        'p.current_handle as handle',
+        'p.spectrum_id as spectrum_id',
+        'r.status',
+        'r.corroboration_count'
+      )
+      .orderBy('r.created_at', 'desc');
+
+    return [...alts, ...mains];
+  }
+}
@@ -56,7 +56,7 @@ export class ReputationModel {
     if (!report) return null;
 
     const attestations = await db('player_report_attestations')
-      .where({ report_id: id });
+      .where({ report_id: id, held_for_review: false });
 
     const attestation_counts = {
       support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -126,7 +126,7 @@ export class ReputationModel {
     if (!comment) return null;
 
     const attestations = await db('player_comment_attestations')
-      .where({ comment_id: id });
+      .where({ comment_id: id, held_for_review: false });
 
     const attestation_counts = {
       support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -238,7 +238,7 @@ export class ReputationModel {
     if (!tag) return null;
 
     const attestations = await db('player_tag_attestations')
-      .where({ tag_id: id });
+      .where({ tag_id: id, held_for_review: false });
 
     const attestation_counts = {
       support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -289,7 +289,7 @@ export class ReputationModel {
 
   async updateCommentAttestationCount(commentId: string): Promise<void> {
     const attestations = await db('player_comment_attestations')
-      .where({ comment_id: commentId });
+      .where({ comment_id: commentId, held_for_review: false });
 
     const counts = {
       support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -307,7 +307,7 @@ export class ReputationModel {
 
   async updateTagAttestationCount(tagId: string): Promise<void> {
     const attestations = await db('player_tag_attestations')
-      .where({ tag_id: tagId });
+      .where({ tag_id: tagId, held_for_review: false });
 
     const counts = {
       support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -396,7 +396,7 @@ export class ReputationModel {
 
   async updateOrganizationReportCorroborationCount(reportId: string): Promise<void> {
     const counts = await db('organization_report_corroborations')
-      .where({ report_id: reportId })
+      .where({ report_id: reportId, held_for_review: false })
       .count('* as count')
       .first();
 
@@ -479,7 +479,7 @@ export class ReputationModel {
 
   async updateAltAccountReportCorroborationCount(reportId: string): Promise<void> {
     const counts = await db('alt_account_report_corroborations')
-      .where({ report_id: reportId })
+      .where({ report_id: reportId, held_for_review: false })
       .count('* as count')
       .first();
 
@@ -561,7 +561,7 @@ export class ReputationModel {
 
   async updateAffiliatedPeopleReportCorroborationCount(reportId: string): Promise<void> {
     const counts = await db('affiliated_people_report_corroborations')
-      .where({ report_id: reportId })
+      .where({ report_id: reportId, held_for_review: false })
       .count('* as count')
       .first();
 
@@ -0,0 +1,271 @@
+import { Knex } from 'knex';
+import db from '../config/database';
+import {
+  ModerationQueueItem,
+  ModerationQueueQuery,
+  REPUTATION_REPORT_TYPES,
+  ReputationModerationAction,
+  ReputationModerationActionType,
+  ReputationModerator,
+  ReputationModeratorRole,
+  ReputationReportStatus,
+  ReputationReportType,
+} from '../types/reputation';
+
+interface ReportTableConfig {
+  table: string;
+  playerColumn: string;
+  summary: string;
+  votesTable: string;
+  voteColumn: string;
+  supportValue: string;
+  disputeValue: string;
+}
+
+// Where each kind of report lives and how its community votes are recorded
+const REPORT_TABLES: Record<ReputationReportType, ReportTableConfig> = {
+  player: {
+    table: 'player_reports',
+    playerColumn: 'player_id',
+    summary: 'r.title',
+    votesTable: 'player_report_attestations',
+    voteColumn: 'attestation_type',
+    supportValue: 'support',
+    disputeValue: 'dispute',
+  },
+  organization: {
+    table: 'organization_reports',
+    playerColumn: 'player_id',
+    summary: 'COALESCE(r.org_name, r.org_spectrum_id)',
+    votesTable: 'organization_report_corroborations',
+    voteColumn: 'corroboration_type',
+    supportValue: 'agree',
+    disputeValue: 'disagree',
+  },
+  alt_account: {
+    table: 'alt_account_reports',
+    playerColumn: 'main_player_id',
+    summary: 'r.alt_handle',
+    votesTable: 'alt_account_report_corroborations',
+    voteColumn: 'corroboration_type',
+    supportValue: 'agree',
+    disputeValue: 'disagree',
+  },
+  affiliated_people: {
+    table: 'affiliated_people_reports',
+    playerColumn: 'main_player_id',
+    summary: 'r.affiliated_handle',
+    votesTable: 'affiliated_people_report_corroborations',
+    voteColumn: 'corroboration_type',
+    supportValue: 'agree',
+    disputeValue: 'disagree',
+  },
+};
+
+export interface ModeratedReport {
+  id: string;
+  player_id: string;
+  reporter_id: string;
+  status: ReputationReportStatus;
+}
+
+export class ReputationModerationModel {
+  // Moderators
+  async getModerator(userId: string): Promise<ReputationModerator | null> {
+    const moderator = await db('reputation_moderators')
+      .where({ user_id: userId })
+      .first();
+    return moderator || null;
+  }
+
+  async listModerators(): Promise<
+    Array<ReputationModerator & { rsi_handle: string }>
+  > {
+    return db('reputation_moderators as m')
+      .join('users as u', 'm.user_id', 'u.id')
+      .select('m.*', 'u.rsi_handle')
+      .orderBy('m.created_at', 'asc');
+  }
+
+  async upsertModerator(
+    userId: string,
+    role: ReputationModeratorRole,
+    grantedBy: string
+  ): Promise<ReputationModerator> {
+    const [moderator] = await db('reputation_moderators')
+      .insert({
+        user_id: userId,
+        role,
+        granted_by: grantedBy,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .onConflict('user_id')
+      .merge({ role, granted_by: grantedBy, updated_at: new Date() })
+      .returning('*');
+    return moderator;
+  }
+
+  async removeModerator(userId: string): Promise<boolean> {
+    const deleted = await db('reputation_moderators')
+      .where({ user_id: userId })
+      .del();
+    return deleted > 0;
+  }
+
+  // Reports
+  async getReport(
+    reportType: ReputationReportType,
+    reportId: string
+  ): Promise<ModeratedReport | null> {
+    const config = REPORT_TABLES[reportType];
+    const report = await db(`${config.table} as r`)
+      .where('r.id', reportId)
+      .first(
+        'r.id',
+        `r.${config.playerColumn} as player_id`,
+        'r.reporter_id',
+        'r.status'
+      );
+    return report || null;
+  }
+
+  /**
+   * Pending and disputed reports of every kind, ordered by attestation balance
+   */
+  async getQueue(
+    query: ModerationQueueQuery
+  ): Promise<{ items: ModerationQueueItem[]; total: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const statuses = query.status?.length
+      ? query.status
+      : ['pending', 'disputed'];
+    const reportTypes = query.report_types?.length
+      ? query.report_types
+      : REPUTATION_REPORT_TYPES;
+
+    const [first, ...rest] = reportTypes.map(reportType =>
+      this.queueSubquery(reportType, statuses)
+    );
+    const combined = () =>
+      first.clone().unionAll(
+        rest.map(subquery => subquery.clone()),
+        true
+      );
+
+    const totalResult = await db
+      .count('* as count')
+      .from(combined().as('queue'))
+      .first();
+    const total = parseInt(totalResult?.count as string) || 0;
+
+    const direction = query.sort_order === 'asc' ? 'asc' : 'desc';
+    const rows = await db
+      .from(combined().as('queue'))
+      .leftJoin('sc_players as p', 'queue.player_id', 'p.id')
+      .select(
+        'queue.*',
+        db.raw('queue.support_count - queue.dispute_count as balance'),
+        'p.current_handle as player_handle',
+        'p.spectrum_id as player_spectrum_id'
+      )
+      .orderByRaw(`queue.support_count - queue.dispute_count ${direction}`)
+      .orderBy('queue.created_at', 'asc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      items: rows.map((row: any) => ({
+        ...row,
+        support_count: Number(row.support_count),
+        dispute_count: Number(row.dispute_count),
+        balance: Number(row.balance),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Move a report to a new status and record the action in the audit trail.
+   * Returns null when the report is no longer in the expected status.
+   */
+  async recordAction(
+    reportType: ReputationReportType,
+    reportId: string,
+    action: {
+      actor_id: string;
+      action: ReputationModerationActionType;
+      from_status: ReputationReportStatus;
+      to_status: ReputationReportStatus;
+      rationale: string;
+    }
+  ): Promise<ReputationModerationAction | null> {
+    const config = REPORT_TABLES[reportType];
+
+    return db.transaction(async trx => {
+      // Guard on the current status so concurrent moderators cannot both decide
+      const updated = await trx(config.table)
+        .where({ id: reportId, status: action.from_status })
+        .update({ status: action.to_status, updated_at: new Date() });
+      if (updated === 0) return null;
+
+      const [entry] = await trx('reputation_moderation_actions')
+        .insert({
+          report_type: reportType,
+          report_id: reportId,
+          ...action,
+          created_at: new Date(),
+        })
+        .returning('*');
+      return entry;
+    });
+  }
+
+  async getActions(
+    reportType: ReputationReportType,
+    reportId: string
+  ): Promise<
+    Array<ReputationModerationAction & { actor_handle: string | null }>
+  > {
+    return db('reputation_moderation_actions as a')
+      .leftJoin('users as u', 'a.actor_id', 'u.id')
+      .where({ 'a.report_type': reportType, 'a.report_id': reportId })
+      .select('a.*', 'u.rsi_handle as actor_handle')
+      .orderBy('a.created_at', 'asc');
+  }
+
+  async hasAppeal(
+    reportType: ReputationReportType,
+    reportId: string
+  ): Promise<boolean> {
+    const appeal = await db('reputation_moderation_actions')
+      .where({ report_type: reportType, report_id: reportId, action: 'appeal' })
+      .first('id');
+    return !!appeal;
+  }
+
+  private queueSubquery(
+    reportType: ReputationReportType,
+    statuses: string[]
+  ): Knex.QueryBuilder {
+    const config = REPORT_TABLES[reportType];
+    // Table, column and vote values come from REPORT_TABLES, never from the request
+    const countVotes = (value: string) =>
+      `(SELECT COUNT(*) FROM ${config.votesTable} v WHERE v.report_id = r.id AND v.${config.voteColumn} = '${value}' AND NOT v.held_for_review)::int`;
+
+    return db(`${config.table} as r`)
+      .whereIn('r.status', statuses)
+      .select(
+        db.raw(`'${reportType}'::text as report_type`),
+        'r.id',
+        `r.${config.playerColumn} as player_id`,
+        'r.reporter_id',
+        'r.status',
+        db.raw(`${config.summary} as summary`),
+        'r.created_at',
+        db.raw(`${countVotes(config.supportValue)} as support_count`),
+        db.raw(`${countVotes(config.disputeValue)} as dispute_count`)
+      );
+  }
+}
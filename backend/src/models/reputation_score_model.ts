@@ -0,0 +1,167 @@
+import { Knex } from 'knex';
+import db from '../config/database';
+import {
+  PlayerReputationScore,
+  ReputationConfidenceLevel,
+  ReputationScoreBreakdown,
+} from '../types/reputation';
+
+export interface ScoringTag {
+  id: string;
+  tag_name: string;
+  tag_type: 'positive' | 'negative' | 'neutral';
+  created_at: Date;
+}
+
+export interface ScoringReport {
+  id: string;
+  title: string;
+  status: 'pending' | 'approved' | 'rejected' | 'disputed';
+  created_at: Date;
+}
+
+export interface ScoringAttestation {
+  // Tag or report the attestation was made on
+  item_id: string;
+  attestation_type: 'support' | 'dispute' | 'neutral';
+  attester_id: string;
+  attester_verified: boolean;
+  attester_created_at: Date;
+  // Set when the attester's RSI account is itself a tracked player
+  attester_player_id: string | null;
+  attester_score: number | null;
+}
+
+export interface ScoringInputs {
+  tags: ScoringTag[];
+  reports: ScoringReport[];
+  tagAttestations: ScoringAttestation[];
+  reportAttestations: ScoringAttestation[];
+}
+
+export class ReputationScoreModel {
+  async getScore(playerId: string): Promise<PlayerReputationScore | null> {
+    const score = await db('player_reputation_scores')
+      .where({ player_id: playerId })
+      .first();
+    return score || null;
+  }
+
+  async getScores(playerIds: string[]): Promise<PlayerReputationScore[]> {
+    if (playerIds.length === 0) return [];
+    return db('player_reputation_scores').whereIn('player_id', playerIds);
+  }
+
+  async saveScore(
+    playerId: string,
+    data: {
+      score: number;
+      confidence: ReputationConfidenceLevel;
+      breakdown: ReputationScoreBreakdown;
+    }
+  ): Promise<PlayerReputationScore> {
+    const row = {
+      score: data.score,
+      confidence: data.confidence,
+      breakdown: JSON.stringify(data.breakdown),
+      is_stale: false,
+      computed_at: new Date(),
+    };
+
+    const [score] = await db('player_reputation_scores')
+      .insert({ player_id: playerId, ...row })
+      .onConflict('player_id')
+      .merge(row)
+      .returning('*');
+    return score;
+  }
+
+  async markStale(playerIds: string[]): Promise<void> {
+    if (playerIds.length === 0) return;
+    await db('player_reputation_scores')
+      .whereIn('player_id', playerIds)
+      .update({ is_stale: true });
+  }
+
+  /**
+   * Tags and player reports about a player, with every attestation on them and what is
+   * known about each attester
+   */
+  async getScoringInputs(playerId: string): Promise<ScoringInputs> {
+    const [tags, reports, tagAttestations, reportAttestations] =
+      await Promise.all([
+        db('player_tags')
+          .where({ player_id: playerId })
+          .select('id', 'tag_name', 'tag_type', 'created_at'),
+        db('player_reports')
+          .where({ player_id: playerId })
+          .select('id', 'title', 'status', 'created_at'),
+        this.attestationsQuery(
+          'player_tag_attestations',
+          'tag_id',
+          'player_tags'
+        ).where('item.player_id', playerId),
+        this.attestationsQuery(
+          'player_report_attestations',
+          'report_id',
+          'player_reports'
+        ).where('item.player_id', playerId),
+      ]);
+
+    return { tags, reports, tagAttestations, reportAttestations };
+  }
+
+  // The user whose verified RSI account is this player, if they have one
+  async findLinkedUserId(playerId: string): Promise<string | null> {
+    const user = await db('users as u')
+      .join('sc_players as p', 'p.spectrum_id', 'u.spectrum_id')
+      .where('p.id', playerId)
+      .where('u.is_rsi_verified', true)
+      .first('u.id');
+    return user?.id || null;
+  }
+
+  // Players whose tags or reports the user has attested on
+  async findPlayersAttestedBy(userId: string): Promise<string[]> {
+    const rows = await db('player_tag_attestations as a')
+      .join('player_tags as t', 'a.tag_id', 't.id')
+      .where('a.attester_id', userId)
+      .select('t.player_id')
+      .union(qb =>
+        qb
+          .from('player_report_attestations as a')
+          .join('player_reports as r', 'a.report_id', 'r.id')
+          .where('a.attester_id', userId)
+          .select('r.player_id')
+      );
+    return rows.map((row: { player_id: string }) => row.player_id);
+  }
+
+  private attestationsQuery(
+    attestationTable: string,
+    itemColumn: string,
+    itemTable: string
+  ): Knex.QueryBuilder {
+    return db(`${attestationTable} as a`)
+      .join(`${itemTable} as item`, `a.${itemColumn}`, 'item.id')
+      .join('users as u', 'a.attester_id', 'u.id')
+      .leftJoin('sc_players as ap', function () {
+        this.on('ap.spectrum_id', '=', 'u.spectrum_id').andOn(
+          'u.is_rsi_verified',
+          '=',
+          db.raw('true')
+        );
+      })
+      .leftJoin('player_reputation_scores as s', 's.player_id', 'ap.id')
+      .where('a.held_for_review', false)
+      .select(
+        `a.${itemColumn} as item_id`,
+        'a.attestation_type',
+        'a.attester_id',
+        'u.is_rsi_verified as attester_verified',
+        'u.created_at as attester_created_at',
+        'ap.id as attester_player_id',
+        's.score as attester_score'
+      );
+  }
+}
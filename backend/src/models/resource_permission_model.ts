@@ -0,0 +1,117 @@
+import db from '../config/database';
+import {
+  CreateResourcePermissionOverrideData,
+  ResourcePermissionOverride,
+  ResourceScope,
+  ResourceType,
+} from '../types/resource_permission';
+import { v4 as uuidv4 } from 'uuid';
+
+export class ResourcePermissionModel {
+  /**
+   * Create an override, replacing any existing entry for the same resource, subject and action
+   */
+  async upsert(data: CreateResourcePermissionOverrideData): Promise<ResourcePermissionOverride> {
+    const [override] = await db('resource_permission_overrides')
+      .insert({
+        id: uuidv4(),
+        ...data,
+        action: data.action || 'view',
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .onConflict(['organization_id', 'resource_type', 'resource_id', 'subject_type', 'subject_id', 'action'])
+      .merge({
+        effect: data.effect,
+        created_by: data.created_by,
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return override;
+  }
+
+  async findById(id: string): Promise<ResourcePermissionOverride | null> {
+    const override = await db('resource_permission_overrides').where({ id }).first();
+    return override || null;
+  }
+
+  async listByOrganization(
+    organizationId: string,
+    filters: { resource_type?: ResourceType; resource_id?: string } = {}
+  ): Promise<ResourcePermissionOverride[]> {
+    let query = db('resource_permission_overrides').where({ organization_id: organizationId });
+
+    if (filters.resource_type) {
+      query = query.where({ resource_type: filters.resource_type });
+    }
+
+    if (filters.resource_id) {
+      query = query.where({ resource_id: filters.resource_id });
+    }
+
+    return query
+      .orderBy('resource_type', 'asc')
+      .orderBy('resource_id', 'asc')
+      .orderBy('created_at', 'asc');
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db('resource_permission_overrides').where({ id }).del();
+    return deleted > 0;
+  }
+
+  /**
+   * Overrides on any of the given resources that target the user directly or one of their roles
+   */
+  async findApplicable(
+    organizationId: string,
+    userId: string,
+    roleIds: string[],
+    scopes: ResourceScope[]
+  ): Promise<ResourcePermissionOverride[]> {
+    if (scopes.length === 0) return [];
+
+    return db('resource_permission_overrides')
+      .where({ organization_id: organizationId })
+      .where(function() {
+        scopes.forEach(scope => {
+          this.orWhere({ resource_type: scope.resource_type, resource_id: scope.resource_id });
+        });
+      })
+      .where(function() {
+        this.where({ subject_type: 'user', subject_id: userId });
+        if (roleIds.length > 0) {
+          this.orWhere(function() {
+            this.where({ subject_type: 'role' }).whereIn('subject_id', roleIds);
+          });
+        }
+      });
+  }
+
+  /**
+   * Whether any override of the given resource types targets the user or their roles.
+   * Lets list endpoints keep their SQL filtering in the common case of no overrides.
+   */
+  async hasApplicable(
+    organizationId: string,
+    userId: string,
+    roleIds: string[],
+    resourceTypes: ResourceType[]
+  ): Promise<boolean> {
+    const override = await db('resource_permission_overrides')
+      .where({ organization_id: organizationId })
+      .whereIn('resource_type', resourceTypes)
+      .where(function() {
+        this.where({ subject_type: 'user', subject_id: userId });
+        if (roleIds.length > 0) {
+          this.orWhere(function() {
+            this.where({ subject_type: 'role' }).whereIn('subject_id', roleIds);
+          });
+        }
+      })
+      .first('id');
+
+    return !!override;
+  }
+}
@@ -1,3 +1,4 @@
+import { Knex } from 'knex';
 import db from '../config/database';
 import {
   OrganizationRole,
@@ -8,6 +9,7 @@ import {
   ORGANIZATION_PERMISSIONS,
   DEFAULT_ROLE_CONFIGS,
 } from '../types/role';
+import { DiscordRoleSyncService } from '../services/discord_role_sync_service';
 import { v4 as uuidv4 } from 'uuid';
 
 export class RoleModel {
@@ -255,7 +257,7 @@ export class RoleModel {
     }
 
     // Check if role is in use
-    const memberCount = await db('organization_members')
+    const memberCount = await db('organization_member_roles')
       .where({ role_id: roleId })
       .count('* as count')
       .first();
@@ -274,15 +276,52 @@ export class RoleModel {
   }
 
   /**
-   * Assign a role to a user
+   * Assign a role to a user, replacing any roles they already hold
    */
   async assignRoleToUser(
     organizationId: string,
     userId: string,
-    roleId: string
+    roleId: string,
+    assignedBy?: string
   ): Promise<boolean> {
+    await this.grantRole(organizationId, userId, roleId, assignedBy);
+
+    await db('organization_member_roles')
+      .where({ organization_id: organizationId, user_id: userId })
+      .whereNot({ role_id: roleId })
+      .del();
+
+    await this.refreshPrimaryRole(organizationId, userId);
+    DiscordRoleSyncService.syncMemberRolesAfterCommit(organizationId, userId);
+
+    return true;
+  }
+
+  /**
+   * Give a user an additional role, creating the membership if needed
+   */
+  async addRoleToUser(
+    organizationId: string,
+    userId: string,
+    roleId: string,
+    assignedBy?: string,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<boolean> {
+    await this.grantRole(organizationId, userId, roleId, assignedBy, conn);
+    DiscordRoleSyncService.syncMemberRolesAfterCommit(organizationId, userId, conn);
+
+    return true;
+  }
+
+  private async grantRole(
+    organizationId: string,
+    userId: string,
+    roleId: string,
+    assignedBy: string | undefined,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<void> {
     // Check if role exists in the organization
-    const role = await db('organization_roles')
+    const role = await conn('organization_roles')
       .where({ id: roleId, organization_id: organizationId })
       .first();
 
@@ -290,22 +329,13 @@ export class RoleModel {
       throw new Error('Role not found in this organization');
     }
 
-    // Update or insert member record
-    const existingMember = await db('organization_members')
+    const existingMember = await conn('organization_members')
       .where({ organization_id: organizationId, user_id: userId })
       .first();
 
-    if (existingMember) {
-      // Update existing member
-      await db('organization_members')
-        .where({ organization_id: organizationId, user_id: userId })
-        .update({
-          role_id: roleId,
-          updated_at: new Date(),
-        });
-    } else {
+    if (!existingMember) {
       // Create new member record - let PostgreSQL generate the UUID
-      await db('organization_members').insert({
+      await conn('organization_members').insert({
         organization_id: organizationId,
         user_id: userId,
         role_id: roleId,
@@ -316,9 +346,76 @@ export class RoleModel {
       });
     }
 
+    await conn('organization_member_roles')
+      .insert({
+        organization_id: organizationId,
+        user_id: userId,
+        role_id: roleId,
+        assigned_by: assignedBy || null,
+        created_at: new Date(),
+      })
+      .onConflict(['organization_id', 'user_id', 'role_id'])
+      .ignore();
+
+    await this.refreshPrimaryRole(organizationId, userId, conn);
+  }
+
+  /**
+   * Take one role away from a user; members must keep at least one role
+   */
+  async removeRoleFromUser(
+    organizationId: string,
+    userId: string,
+    roleId: string
+  ): Promise<boolean> {
+    const roleIds = await this.getUserRoleIds(organizationId, userId);
+    if (!roleIds.includes(roleId)) {
+      return false;
+    }
+
+    if (roleIds.length === 1) {
+      throw new Error('Members must keep at least one role');
+    }
+
+    await db('organization_member_roles')
+      .where({ organization_id: organizationId, user_id: userId, role_id: roleId })
+      .del();
+
+    await this.refreshPrimaryRole(organizationId, userId);
+    DiscordRoleSyncService.syncMemberRolesAfterCommit(organizationId, userId);
+
     return true;
   }
 
+  /**
+   * Keep organization_members.role_id pointing at the member's highest-ranked role,
+   * which is what lists and profiles display
+   */
+  private async refreshPrimaryRole(
+    organizationId: string,
+    userId: string,
+    conn: Knex | Knex.Transaction = db
+  ): Promise<void> {
+    const primary = await conn('organization_member_roles')
+      .join('organization_roles', 'organization_member_roles.role_id', 'organization_roles.id')
+      .where({
+        'organization_member_roles.organization_id': organizationId,
+        'organization_member_roles.user_id': userId,
+      })
+      .orderBy('organization_roles.rank', 'desc')
+      .select('organization_roles.id')
+      .first();
+
+    if (!primary) return;
+
+    await conn('organization_members')
+      .where({ organization_id: organizationId, user_id: userId })
+      .update({
+        role_id: primary.id,
+        updated_at: new Date(),
+      });
+  }
+
   /**
    * Get user's role in an organization
    */
@@ -347,12 +444,38 @@ export class RoleModel {
   }
 
   /**
-   * Get user's full role object in an organization
+   * Get user's highest-ranked role object in an organization
    */
   async getUserRoleObject(
     organizationId: string,
     userId: string
   ): Promise<OrganizationRole | null> {
+    const roles = await this.getUserRoles(organizationId, userId);
+    return roles[0] || null;
+  }
+
+  /**
+   * Get every role a user holds in an organization, highest rank first
+   */
+  async getUserRoles(
+    organizationId: string,
+    userId: string
+  ): Promise<OrganizationRole[]> {
+    const roleIds = await this.getUserRoleIds(organizationId, userId);
+    const roles = await Promise.all(roleIds.map(roleId => this.findById(roleId)));
+
+    return roles
+      .filter((role): role is OrganizationRole => role !== null)
+      .sort((a, b) => b.rank - a.rank);
+  }
+
+  /**
+   * Get the IDs of the roles a user holds (empty when not an active member)
+   */
+  async getUserRoleIds(
+    organizationId: string,
+    userId: string
+  ): Promise<string[]> {
     const member = await db('organization_members')
       .where({
         organization_id: organizationId,
@@ -361,34 +484,72 @@ export class RoleModel {
       })
       .first();
 
-    if (!member) return null;
+    if (!member) return [];
+
+    const rows = await db('organization_member_roles')
+      .where({ organization_id: organizationId, user_id: userId })
+      .select('role_id');
+
+    if (rows.length > 0) {
+      return rows.map(row => row.role_id);
+    }
 
-    // If role_id exists, get the full role object
+    // Fallback for memberships without role rows: the primary role_id, then the legacy role name
     if (member.role_id) {
-      return await this.findById(member.role_id);
+      return [member.role_id];
     }
 
-    // Fallback: try to find role by name for backward compatibility
     if (member.role) {
-      return await this.findByOrganizationAndName(organizationId, member.role);
+      const legacyRole = await this.findByOrganizationAndName(organizationId, member.role);
+      return legacyRole ? [legacyRole.id] : [];
     }
 
-    return null;
+    return [];
   }
 
   /**
-   * Check if user has a specific permission in an organization
+   * Get a user's effective rank: the highest rank among their roles
+   */
+  async getUserRank(
+    organizationId: string,
+    userId: string
+  ): Promise<number | null> {
+    const role = await this.getUserRoleObject(organizationId, userId);
+    return role ? role.rank : null;
+  }
+
+  /**
+   * Get a user's effective permissions: the union of their roles' permissions
+   */
+  async getUserPermissions(
+    organizationId: string,
+    userId: string
+  ): Promise<string[]> {
+    const roleIds = await this.getUserRoleIds(organizationId, userId);
+    if (roleIds.length === 0) return [];
+
+    const rows = await db('organization_permissions')
+      .whereIn('role_id', roleIds)
+      .where({ granted: true })
+      .distinct('permission');
+
+    return rows.map(row => row.permission);
+  }
+
+  /**
+   * Check if user has a specific permission in an organization through any of their roles
    */
   async userHasPermission(
     organizationId: string,
     userId: string,
     permission: string
   ): Promise<boolean> {
-    const role = await this.getUserRoleObject(organizationId, userId);
-    if (!role) return false;
+    const roleIds = await this.getUserRoleIds(organizationId, userId);
+    if (roleIds.length === 0) return false;
 
     const permissionRecord = await db('organization_permissions')
-      .where({ role_id: role.id, permission, granted: true })
+      .whereIn('role_id', roleIds)
+      .where({ permission, granted: true })
       .first();
 
     return !!permissionRecord;
@@ -451,20 +612,47 @@ export class RoleModel {
       .orderBy('organization_roles.rank', 'desc')
       .orderBy('organization_members.joined_at', 'asc');
 
-    // Get permissions for each member's role
+    // Load every role held by the listed members in one query
+    const memberRoleRows = members.length
+      ? await db('organization_member_roles')
+          .where({ organization_id: organizationId })
+          .whereIn(
+            'user_id',
+            members.map(member => member.user_id)
+          )
+          .select('user_id', 'role_id')
+      : [];
+
+    const roleCache = new Map<string, Promise<OrganizationRole | null>>();
+    const loadRole = (roleId: string) => {
+      if (!roleCache.has(roleId)) {
+        roleCache.set(roleId, this.findById(roleId));
+      }
+      return roleCache.get(roleId)!;
+    };
+
+    // Get permissions for each member's roles
     const membersWithRoles = await Promise.all(
       members.map(async member => {
         let role: OrganizationRole | null = null;
         if (member.role_id) {
-          role = await this.findById(member.role_id);
+          role = await loadRole(member.role_id);
         }
 
+        const roleIds = memberRoleRows
+          .filter(row => row.user_id === member.user_id)
+          .map(row => row.role_id);
+        const roles = (await Promise.all(roleIds.map(loadRole)))
+          .filter((memberRole): memberRole is OrganizationRole => memberRole !== null)
+          .sort((a, b) => b.rank - a.rank);
+
         return {
           id: member.id,
           organization_id: member.organization_id,
           user_id: member.user_id,
           role_id: member.role_id,
           role,
+          roles: roles.length > 0 ? roles : role ? [role] : [],
           is_active: member.is_active,
           joined_at: member.joined_at,
           last_activity_at: member.last_activity_at,
@@ -488,12 +676,21 @@ export class RoleModel {
    */
   async removeUserFromOrganization(
     organizationId: string,
-    userId: string
+    userId: string,
+    conn: Knex | Knex.Transaction = db
   ): Promise<boolean> {
-    const deleted = await db('organization_members')
+    await conn('organization_member_roles')
+      .where({ organization_id: organizationId, user_id: userId })
+      .del();
+
+    const deleted = await conn('organization_members')
       .where({ organization_id: organizationId, user_id: userId })
       .del();
 
+    if (deleted > 0) {
+      DiscordRoleSyncService.syncMemberRolesAfterCommit(organizationId, userId, conn);
+    }
+
     return deleted > 0;
   }
 
@@ -505,16 +702,11 @@ export class RoleModel {
     managerUserId: string,
     targetUserId: string
   ): Promise<boolean> {
-    const managerRole = await this.getUserRoleObject(
-      organizationId,
-      managerUserId
-    );
-    const targetRole = await this.getUserRoleObject(
-      organizationId,
-      targetUserId
-    );
+    // Effective rank is the highest rank across each user's roles
+    const managerRank = await this.getUserRank(organizationId, managerUserId);
+    const targetRank = await this.getUserRank(organizationId, targetUserId);
 
-    if (!managerRole || !targetRole) return false;
+    if (managerRank === null || targetRank === null) return false;
 
     // Check if manager has manage_roles permission
     const hasManageRolesPermission = await this.userHasPermission(
@@ -526,7 +718,29 @@ export class RoleModel {
     if (!hasManageRolesPermission) return false;
 
     // Manager can only manage users with lower rank
-    return managerRole.rank > targetRole.rank;
+    return managerRank > targetRank;
+  }
+
+  /**
+   * Check if a user can grant a role: they need manage_roles and a higher rank than the role
+   */
+  async canAssignRole(
+    organizationId: string,
+    assignerId: string,
+    roleId: string
+  ): Promise<boolean> {
+    const role = await this.findById(roleId);
+    if (!role || role.organization_id !== organizationId) return false;
+
+    const hasManageRolesPermission = await this.userHasPermission(
+      organizationId,
+      assignerId,
+      ORGANIZATION_PERMISSIONS.MANAGE_ROLES
+    );
+    if (!hasManageRolesPermission) return false;
+
+    const assignerRank = await this.getUserRank(organizationId, assignerId);
+    return assignerRank !== null && assignerRank > role.rank;
   }
 
   /**
@@ -846,8 +1060,8 @@ export class RoleModel {
       throw new Error(`HR role '${hrRoleName}' not found in organization`);
     }
 
-    // Assign the role
-    return await this.assignRoleToUser(organizationId, userId, hrRole.id);
+    // Add the role alongside any the user already holds
+    return await this.addRoleToUser(organizationId, userId, hrRole.id, assignedBy);
   }
 
   /**
@@ -883,8 +1097,8 @@ export class RoleModel {
     }
 
     // Check rank hierarchy - assigner must have higher rank than the role being assigned
-    const assignerRole = await this.getUserRoleObject(organizationId, assignerId);
-    if (!assignerRole || assignerRole.rank <= hrRole.rank) {
+    const assignerRank = await this.getUserRank(organizationId, assignerId);
+    if (assignerRank === null || assignerRank <= hrRole.rank) {
       return { valid: false, reason: 'Cannot assign role with equal or higher rank' };
     }
 
@@ -6,7 +6,9 @@ import {
   PlayerHandleHistory,
   PlayerOrgHistory,
   CreatePlayerHandleHistoryData,
-  CreatePlayerOrgHistoryData
+  CreatePlayerOrgHistoryData,
+  UpdatePlayerOrgHistoryData,
+  PlayerSyncActivity
 } from '../types/sc_player';
 import { PlayerDetails } from '../types/reputation';
 import { PlayerTagWithAttestations, PlayerReportWithAttestations, PlayerCommentWithAttestations } from '../types/reputation';
@@ -100,8 +102,12 @@ export class ScPlayerModel {
         queryBuilder = queryBuilder.orderBy('sc_players.last_observed_at', 'desc');
         break;
       case 'reputation':
-        // TODO: Implement reputation-based sorting when scoring is ready
-        queryBuilder = queryBuilder.orderBy('sc_players.last_observed_at', 'desc');
+        // Players without a computed score sit at neutral
+        queryBuilder = queryBuilder
+          .orderByRaw(
+            'COALESCE((SELECT score FROM player_reputation_scores WHERE player_id = sc_players.id), 50) desc'
+          )
+          .orderBy('sc_players.last_observed_at', 'desc');
         break;
       case 'alphabetical':
       default:
@@ -134,7 +140,10 @@ export class ScPlayerModel {
     return players;
   }
 
-  async getPlayerDetails(spectrumId: string): Promise<PlayerDetails | null> {
+  // Scores come from ReputationScoreService, which fills in the rest of PlayerDetails
+  async getPlayerDetails(
+    spectrumId: string
+  ): Promise<Omit<PlayerDetails, 'reputationScore' | 'confidenceLevel' | 'reputationBreakdown'> | null> {
     const player = await this.findBySpectrumId(spectrumId);
     if (!player) return null;
 
@@ -165,10 +174,6 @@ export class ScPlayerModel {
     // Get comments with attestations
     const comments = await this.getPlayerCommentsWithAttestations(player.id);
 
-    // Calculate reputation score and confidence level
-    const reputationScore = this.calculateReputationScore(tags);
-    const confidenceLevel = this.calculateConfidenceLevel(tags, reports, comments);
-
     return {
       player,
       handleHistory,
@@ -179,8 +184,6 @@ export class ScPlayerModel {
       altAccountReports,
       affiliatedPeopleReports,
       comments,
-      reputationScore,
-      confidenceLevel,
     };
   }
 
@@ -192,7 +195,7 @@ export class ScPlayerModel {
     const tagsWithAttestations = await Promise.all(
       tags.map(async (tag) => {
         const attestations = await db('player_tag_attestations')
-          .where({ tag_id: tag.id });
+          .where({ tag_id: tag.id, held_for_review: false });
 
         const attestation_counts = {
           support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -222,7 +225,7 @@ export class ScPlayerModel {
     const reportsWithAttestations = await Promise.all(
       reports.map(async (report) => {
         const attestations = await db('player_report_attestations')
-          .where({ report_id: report.id });
+          .where({ report_id: report.id, held_for_review: false });
 
         const attestation_counts = {
           support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -249,7 +252,7 @@ export class ScPlayerModel {
     const reportsWithCorroborations = await Promise.all(
       reports.map(async (report) => {
         const corroborations = await db('organization_report_corroborations')
-          .where({ report_id: report.id });
+          .where({ report_id: report.id, held_for_review: false });
 
         const corroboration_counts = {
           agree: corroborations.filter(c => c.corroboration_type === 'agree').length,
@@ -285,7 +288,7 @@ export class ScPlayerModel {
     const reportsWithCorroborations = await Promise.all(
       reports.map(async (report) => {
         const corroborations = await db('alt_account_report_corroborations')
-          .where({ report_id: report.id });
+          .where({ report_id: report.id, held_for_review: false });
 
         const corroboration_counts = {
           agree: corroborations.filter(c => c.corroboration_type === 'agree').length,
@@ -322,7 +325,7 @@ export class ScPlayerModel {
     const reportsWithCorroborations = await Promise.all(
       reports.map(async (report) => {
         const corroborations = await db('affiliated_people_report_corroborations')
-          .where({ report_id: report.id });
+          .where({ report_id: report.id, held_for_review: false });
 
         const corroboration_counts = {
           agree: corroborations.filter(c => c.corroboration_type === 'agree').length,
@@ -360,7 +363,7 @@ export class ScPlayerModel {
     const commentsWithAttestations = await Promise.all(
       comments.map(async (comment) => {
         const attestations = await db('player_comment_attestations')
-          .where({ comment_id: comment.id });
+          .where({ comment_id: comment.id, held_for_review: false });
 
         const attestation_counts = {
           support: attestations.filter(a => a.attestation_type === 'support').length,
@@ -428,23 +431,66 @@ export class ScPlayerModel {
       });
   }
 
-  private calculateReputationScore(tags: PlayerTagWithAttestations[]): number {
-    return tags.reduce((total, tag) => total + tag.score, 0);
+  async getCurrentOrgHistory(playerId: string): Promise<PlayerOrgHistory[]> {
+    return db('player_org_history').where({ player_id: playerId, is_current: true });
+  }
+
+  async updateOrgHistory(id: string, data: UpdatePlayerOrgHistoryData): Promise<void> {
+    await db('player_org_history').where({ id }).update(data);
+  }
+
+  /**
+   * Players due for a background sync, never-scheduled ones first
+   */
+  async findDueForSync(limit: number, now: Date = new Date()): Promise<ScPlayer[]> {
+    return db('sc_players')
+      .where(query => query.whereNull('next_sync_at').orWhere('next_sync_at', '<=', now))
+      .orderByRaw('next_sync_at ASC NULLS FIRST')
+      .limit(limit);
+  }
+
+  async getSyncActivity(playerId: string): Promise<PlayerSyncActivity> {
+    const player = await db('sc_players').where({ id: playerId }).first('last_viewed_at');
+
+    const reportDates = await db('player_reports')
+      .where({ player_id: playerId })
+      .max('created_at as last_reported_at')
+      .unionAll([
+        db('organization_reports').where({ player_id: playerId }).max('created_at'),
+        db('alt_account_reports').where({ main_player_id: playerId }).max('created_at'),
+        db('affiliated_people_reports').where({ main_player_id: playerId }).max('created_at'),
+      ]);
+    const lastReportedAt = reportDates
+      .map(row => row.last_reported_at as Date | null)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+
+    const watchers = await db('watchlist_entries')
+      .where({ player_id: playerId })
+      .count('* as count')
+      .first();
+
+    return {
+      last_viewed_at: player?.last_viewed_at || null,
+      last_reported_at: lastReportedAt || null,
+      watcher_count: parseInt(watchers?.count as string) || 0,
+    };
+  }
+
+  async markViewed(playerId: string): Promise<void> {
+    await db('sc_players')
+      .where({ id: playerId })
+      .update({ last_viewed_at: new Date() });
   }
 
-  private calculateConfidenceLevel(
-    tags: PlayerTagWithAttestations[],
-    reports: PlayerReportWithAttestations[],
-    comments: PlayerCommentWithAttestations[]
-  ): 'low' | 'medium' | 'high' {
-    const totalAttestations = 
-      tags.reduce((sum, tag) => sum + Object.values(tag.attestation_counts).reduce((a, b) => a + b, 0), 0) +
-      reports.reduce((sum, report) => sum + Object.values(report.attestation_counts).reduce((a, b) => a + b, 0), 0) +
-      comments.reduce((sum, comment) => sum + Object.values(comment.attestation_counts).reduce((a, b) => a + b, 0), 0);
-
-    if (totalAttestations >= 20) return 'high';
-    if (totalAttestations >= 5) return 'medium';
-    return 'low';
+  /**
+   * Move the player's next sync up to the given time unless it is already sooner
+   */
+  async pullSyncForward(playerId: string, syncBy: Date): Promise<void> {
+    await db('sc_players')
+      .where({ id: playerId })
+      .where(query => query.whereNull('next_sync_at').orWhere('next_sync_at', '>', syncBy))
+      .update({ next_sync_at: syncBy });
   }
 
   private calculateTagScore(tagType: 'positive' | 'negative' | 'neutral', counts: { support: number; dispute: number; neutral: number }): number {
@@ -8,6 +8,7 @@ import {
   serializeUserOrganizations,
   UserOrganization,
 } from '../utils/organizationSerializer';
+import { DiscordRoleSyncService } from '../services/discord_role_sync_service';
 
 export class UserModel {
   async create(userData: CreateUserData): Promise<User> {
@@ -457,6 +458,8 @@ export class UserModel {
         updated_at: new Date(),
       });
 
+    DiscordRoleSyncService.syncMemberRolesAfterCommit(organization.id, userId);
+
     return { success: true, message: 'Successfully left the organization' };
   }
 
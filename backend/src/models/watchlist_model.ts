@@ -0,0 +1,202 @@
+import db from '../config/database';
+import {
+  Watchlist,
+  WatchlistEntry,
+  WatchlistEntryType,
+  WatchlistEntryWithPlayer,
+  WatchlistWithCounts,
+} from '../types/reputation';
+
+export interface NewWatchlist {
+  name: string;
+  description?: string | null;
+  owner_id: string;
+  organization_id?: string | null;
+  is_default?: boolean;
+}
+
+export interface NewWatchlistEntry {
+  watchlist_id: string;
+  entry_type: WatchlistEntryType;
+  player_id?: string | null;
+  org_spectrum_id?: string | null;
+  org_name?: string | null;
+  note?: string | null;
+  added_by: string;
+}
+
+export class WatchlistModel {
+  async findById(id: string): Promise<Watchlist | null> {
+    const watchlist = await db('watchlists').where({ id }).first();
+    return watchlist || null;
+  }
+
+  /**
+   * The user's personal lists plus the lists shared with organizations they belong to
+   */
+  async listForUser(
+    userId: string
+  ): Promise<Omit<WatchlistWithCounts, 'can_manage'>[]> {
+    const memberOrgIds = db('organization_members')
+      .where({ user_id: userId, is_active: true })
+      .select('organization_id')
+      .union(db('organizations').where({ owner_id: userId }).select('id'));
+
+    const watchlists = await db('watchlists as w')
+      .leftJoin('organizations as o', 'w.organization_id', 'o.id')
+      .where(query =>
+        query
+          .where(personal =>
+            personal.where('w.owner_id', userId).whereNull('w.organization_id')
+          )
+          .orWhereIn('w.organization_id', memberOrgIds)
+      )
+      .select(
+        'w.*',
+        'o.name as organization_name',
+        db('watchlist_entries as e')
+          .whereRaw('e.watchlist_id = w.id')
+          .count('*')
+          .as('entry_count')
+      )
+      .orderBy([
+        { column: 'w.is_default', order: 'desc' },
+        { column: 'w.organization_id', order: 'asc', nulls: 'first' },
+        { column: 'w.name', order: 'asc' },
+      ]);
+
+    return watchlists.map(watchlist => ({
+      ...watchlist,
+      entry_count: parseInt(watchlist.entry_count as string) || 0,
+    }));
+  }
+
+  async create(data: NewWatchlist): Promise<Watchlist> {
+    const [watchlist] = await db('watchlists')
+      .insert({
+        ...data,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      .returning('*');
+    return watchlist;
+  }
+
+  async update(
+    id: string,
+    data: { name?: string; description?: string | null }
+  ): Promise<Watchlist | null> {
+    const [watchlist] = await db('watchlists')
+      .where({ id })
+      .update({ ...data, updated_at: new Date() })
+      .returning('*');
+    return watchlist || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await db('watchlists').where({ id }).del();
+    return deleted > 0;
+  }
+
+  async findDefaultList(userId: string): Promise<Watchlist | null> {
+    const watchlist = await db('watchlists')
+      .where({ owner_id: userId, is_default: true })
+      .whereNull('organization_id')
+      .first();
+    return watchlist || null;
+  }
+
+  // Entries
+  async getEntries(watchlistId: string): Promise<WatchlistEntryWithPlayer[]> {
+    return db('watchlist_entries as e')
+      .leftJoin('sc_players as p', 'e.player_id', 'p.id')
+      .where('e.watchlist_id', watchlistId)
+      .select(
+        'e.*',
+        'p.spectrum_id as player_spectrum_id',
+        'p.current_handle as player_handle',
+        'p.current_display_name as player_display_name'
+      )
+      .orderBy('e.created_at', 'desc');
+  }
+
+  async findEntry(
+    watchlistId: string,
+    entryId: string
+  ): Promise<WatchlistEntry | null> {
+    const entry = await db('watchlist_entries')
+      .where({ id: entryId, watchlist_id: watchlistId })
+      .first();
+    return entry || null;
+  }
+
+  async findPlayerEntry(
+    watchlistId: string,
+    playerId: string
+  ): Promise<WatchlistEntry | null> {
+    const entry = await db('watchlist_entries')
+      .where({ watchlist_id: watchlistId, player_id: playerId })
+      .first();
+    return entry || null;
+  }
+
+  async findOrganizationEntry(
+    watchlistId: string,
+    orgSpectrumId: string
+  ): Promise<WatchlistEntry | null> {
+    const entry = await db('watchlist_entries')
+      .where({ watchlist_id: watchlistId, org_spectrum_id: orgSpectrumId })
+      .first();
+    return entry || null;
+  }
+
+  async addEntry(data: NewWatchlistEntry): Promise<WatchlistEntry> {
+    const [entry] = await db('watchlist_entries')
+      .insert({ ...data, created_at: new Date() })
+      .returning('*');
+    return entry;
+  }
+
+  async removeEntry(entryId: string): Promise<boolean> {
+    const deleted = await db('watchlist_entries').where({ id: entryId }).del();
+    return deleted > 0;
+  }
+
+  async touch(id: string): Promise<void> {
+    await db('watchlists').where({ id }).update({ updated_at: new Date() });
+  }
+
+  // Notification fan-out
+  async findListsWatchingPlayer(playerId: string): Promise<Watchlist[]> {
+    return db('watchlists as w')
+      .join('watchlist_entries as e', 'e.watchlist_id', 'w.id')
+      .where('e.player_id', playerId)
+      .distinct('w.*');
+  }
+
+  async findListsWatchingOrganizations(
+    orgSpectrumIds: string[]
+  ): Promise<Watchlist[]> {
+    if (orgSpectrumIds.length === 0) return [];
+
+    return db('watchlists as w')
+      .join('watchlist_entries as e', 'e.watchlist_id', 'w.id')
+      .whereIn('e.org_spectrum_id', orgSpectrumIds)
+      .distinct('w.*');
+  }
+
+  /**
+   * Active members of the organization, including its owner
+   */
+  async getOrganizationMemberIds(organizationId: string): Promise<string[]> {
+    const rows = await db('organization_members')
+      .where({ organization_id: organizationId, is_active: true })
+      .select('user_id')
+      .union(
+        db('organizations')
+          .where({ id: organizationId })
+          .select('owner_id as user_id')
+      );
+    return rows.map((row: { user_id: string }) => row.user_id);
+  }
+}
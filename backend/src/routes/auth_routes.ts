@@ -559,7 +559,7 @@ router.get('/hr-activities',
                       organization_id: { type: 'string' as const },
                       activity_type: { 
                         type: 'string' as const,
-                        enum: ['application_submitted', 'application_status_changed', 'onboarding_completed', 'performance_review_submitted', 'skill_verified', 'document_acknowledged']
+                        enum: ['application_submitted', 'application_status_changed', 'onboarding_completed', 'performance_review_submitted', 'skill_verified', 'document_acknowledged', 'mentor_assigned', 'mentor_unassigned']
                       },
                       user_id: { type: 'string' as const },
                       user_handle: { type: 'string' as const },
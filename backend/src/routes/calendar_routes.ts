@@ -0,0 +1,169 @@
+import { Router } from 'express';
+import { CalendarController } from '../controllers/calendar_controller';
+import { requireLogin } from '../middleware/auth';
+import { oapi } from './openapi_routes';
+
+const router: Router = Router();
+const calendarController = new CalendarController();
+
+// Feed token management (authenticated)
+
+oapi.validPath({
+  tags: ['Calendar'],
+  summary: 'Get calendar feed token',
+  description:
+    "Get the current user's calendar feed token and subscription URLs (null when feeds are not enabled)",
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  responses: {
+    '200': {
+      description: 'Feed token retrieved successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/CalendarFeedTokenResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get(
+  '/token',
+  requireLogin as any,
+  calendarController.getFeedToken.bind(calendarController)
+);
+
+oapi.validPath({
+  tags: ['Calendar'],
+  summary: 'Rotate calendar feed token',
+  description:
+    'Create a calendar feed token, or replace the existing one. Calendars subscribed with the old URLs stop updating.',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  responses: {
+    '200': {
+      description: 'Feed token rotated successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/CalendarFeedTokenResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post(
+  '/token/rotate',
+  requireLogin as any,
+  calendarController.rotateFeedToken.bind(calendarController)
+);
+
+oapi.validPath({
+  tags: ['Calendar'],
+  summary: 'Revoke calendar feed token',
+  description: 'Revoke the calendar feed token so all feed URLs stop working',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  responses: {
+    '200': {
+      description: 'Feed token revoked successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete(
+  '/token',
+  requireLogin as any,
+  calendarController.revokeFeedToken.bind(calendarController)
+);
+
+// Feeds (authenticated by the token in the URL so calendar clients can subscribe)
+
+oapi.validPath({
+  tags: ['Calendar'],
+  summary: 'Organization event feed',
+  description:
+    "iCalendar feed of an organization's events. Without a token only public events are included; a member's feed token also includes private events.",
+  parameters: [
+    {
+      name: 'spectrumId',
+      in: 'path',
+      required: true,
+      description: 'Organization Spectrum ID',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'token',
+      in: 'query',
+      required: false,
+      description: 'Calendar feed token',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'iCalendar feed',
+      content: {
+        'text/calendar': {
+          schema: { type: 'string' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get(
+  '/organizations/:spectrumId.ics',
+  calendarController.getOrganizationFeed.bind(calendarController)
+);
+
+oapi.validPath({
+  tags: ['Calendar'],
+  summary: 'Registered events feed',
+  description:
+    'iCalendar feed of the events the token holder registered for. Waitlisted registrations are marked tentative.',
+  parameters: [
+    {
+      name: 'token',
+      in: 'query',
+      required: true,
+      description: 'Calendar feed token',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'iCalendar feed',
+      content: {
+        'text/calendar': {
+          schema: { type: 'string' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get(
+  '/registrations.ics',
+  calendarController.getRegistrationsFeed.bind(calendarController)
+);
+
+export default router;
@@ -100,6 +100,269 @@ router.delete(
   (req, res) => discordController.disconnectDiscordServer(req, res)
 );
 
+// Discord Role Synchronization Routes
+
+/**
+ * @route GET /api/organizations/:rsi_org_id/discord/role-mappings
+ * @desc Get Discord role mappings and assignable guild roles
+ * @access Private (Organization Role Manager)
+ */
+oapi.validPath({
+  tags: ['Discord'],
+  summary: 'Get Discord role mappings',
+  description: 'Get the Discord roles mapped to organization roles and the guild roles available for mapping',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'rsi_org_id',
+      in: 'path',
+      required: true,
+      description: 'RSI organization ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Role mappings retrieved successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get(
+  '/organizations/:rsi_org_id/discord/role-mappings',
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  (req, res) => discordController.getRoleMappings(req, res)
+);
+
+/**
+ * @route PUT /api/organizations/:rsi_org_id/discord/role-mappings/:roleId
+ * @desc Map an organization role to a Discord role
+ * @access Private (Organization Role Manager)
+ */
+oapi.validPath({
+  tags: ['Discord'],
+  summary: 'Set Discord role mapping',
+  description: 'Map an organization role to a Discord guild role',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'rsi_org_id',
+      in: 'path',
+      required: true,
+      description: 'RSI organization ID',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'roleId',
+      in: 'path',
+      required: true,
+      description: 'Organization role ID',
+      schema: { type: 'string' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/DiscordRoleMappingRequest' }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Role mapping saved successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.put(
+  '/organizations/:rsi_org_id/discord/role-mappings/:roleId',
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  (req, res) => discordController.setRoleMapping(req, res)
+);
+
+/**
+ * @route DELETE /api/organizations/:rsi_org_id/discord/role-mappings/:roleId
+ * @desc Remove a Discord role mapping
+ * @access Private (Organization Role Manager)
+ */
+oapi.validPath({
+  tags: ['Discord'],
+  summary: 'Delete Discord role mapping',
+  description: 'Stop syncing an organization role to Discord',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'rsi_org_id',
+      in: 'path',
+      required: true,
+      description: 'RSI organization ID',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'roleId',
+      in: 'path',
+      required: true,
+      description: 'Organization role ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Role mapping removed successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete(
+  '/organizations/:rsi_org_id/discord/role-mappings/:roleId',
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  (req, res) => discordController.deleteRoleMapping(req, res)
+);
+
+/**
+ * @route PUT /api/organizations/:rsi_org_id/discord/role-sync
+ * @desc Update Discord role sync settings
+ * @access Private (Organization Role Manager)
+ */
+oapi.validPath({
+  tags: ['Discord'],
+  summary: 'Update Discord role sync settings',
+  description: 'Choose whether the reconciliation job fixes role drift automatically',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'rsi_org_id',
+      in: 'path',
+      required: true,
+      description: 'RSI organization ID',
+      schema: { type: 'string' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/DiscordRoleSyncSettingsRequest' }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Role sync settings updated successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.put(
+  '/organizations/:rsi_org_id/discord/role-sync',
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  (req, res) => discordController.updateRoleSyncSettings(req, res)
+);
+
+/**
+ * @route POST /api/organizations/:rsi_org_id/discord/role-sync/reconcile
+ * @desc Report Discord role drift and optionally fix it
+ * @access Private (Organization Role Manager)
+ */
+oapi.validPath({
+  tags: ['Discord'],
+  summary: 'Reconcile Discord roles',
+  description: 'Compare Discord roles with organization roles and optionally fix the differences',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'rsi_org_id',
+      in: 'path',
+      required: true,
+      description: 'RSI organization ID',
+      schema: { type: 'string' }
+    }
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/DiscordRoleReconcileRequest' }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Role drift report generated successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post(
+  '/organizations/:rsi_org_id/discord/role-sync/reconcile',
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  (req, res) => discordController.reconcileRoles(req, res)
+);
+
 // Discord Event Management Routes
 // Utility Routes
 
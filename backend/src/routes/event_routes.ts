@@ -2,10 +2,12 @@ import { Router } from 'express';
 import { EventController } from '../controllers/event_controller';
 import { EventReviewController } from '../controllers/event_review_controller';
 import { AnalyticsController } from '../controllers/analytics_controller';
+import { EventAttendanceController } from '../controllers/event_attendance_controller';
 import { requireLogin } from '../middleware/auth';
 import {
   requireEventOwnership,
   requireEventNotificationPermission,
+  requireEventAttendancePermission,
 } from '../middleware/permissions';
 import { recordEventView } from '../middleware/view_tracking';
 import { oapi } from './openapi_routes';
@@ -14,6 +16,7 @@ const router: Router = Router();
 const eventController = new EventController();
 const eventReviewController = new EventReviewController();
 const analyticsController = new AnalyticsController();
+const eventAttendanceController = new EventAttendanceController();
 
 // Public routes (no authentication required)
 oapi.validPath({
@@ -199,6 +202,40 @@ router.get(
   eventController.getPrivateEvents.bind(eventController) as any
 );
 
+// Recurring event series
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Get event series',
+  description: 'Get a recurring event series with its generated occurrences',
+  parameters: [
+    {
+      name: 'seriesId',
+      in: 'path',
+      required: true,
+      description: 'Event series ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Event series retrieved successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventSeriesResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get(
+  '/series/:seriesId',
+  eventController.getEventSeries.bind(eventController)
+);
+
 oapi.validPath({
   tags: ['Events'],
   summary: 'Get event details',
@@ -277,6 +314,37 @@ router.get(
   eventController.getEventRegistrations.bind(eventController)
 );
 
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Get event slots',
+  description:
+    'Get the named positions participants can sign up for, with their capacity, required HR skills and who has claimed them',
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Event slots retrieved successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventSlotsResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/:id/slots', eventController.getEventSlots.bind(eventController));
+
 // Event reviews (public read, authenticated write)
 oapi.validPath({
   tags: ['Events'],
@@ -398,7 +466,7 @@ router.post(
 oapi.validPath({
   tags: ['Events'],
   summary: 'Update event',
-  description: 'Update an existing event',
+  description: 'Update an existing event. For occurrences of a recurring series, the scope field selects this occurrence, this and following, or all upcoming occurrences',
   security: [
     { bearerAuth: [] },
     { sessionAuth: [] }
@@ -464,6 +532,12 @@ oapi.validPath({
       required: true,
       description: 'Event ID',
       schema: { type: 'string' }
+    },
+    {
+      name: 'scope',
+      in: 'query',
+      description: 'For recurring events: delete this occurrence, this and following, or all upcoming occurrences',
+      schema: { type: 'string', enum: ['this', 'following', 'all'], default: 'this' }
     }
   ],
   responses: {
@@ -491,7 +565,8 @@ router.delete(
 oapi.validPath({
   tags: ['Events'],
   summary: 'Register for event',
-  description: 'Register for an event',
+  description:
+    'Register for an event, optionally claiming a slot. When the event or slot is full the user is added to the waitlist instead and promoted automatically when a seat frees up. Slots with skill requirements need every required skill verified.',
   security: [
     { bearerAuth: [] },
     { sessionAuth: [] }
@@ -505,16 +580,32 @@ oapi.validPath({
       schema: { type: 'string' }
     }
   ],
+  requestBody: {
+    required: false,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/EventRegistrationRequest' }
+      }
+    }
+  },
   responses: {
-    '201': {
-      description: 'Successfully registered for event',
+    '200': {
+      description: 'Successfully registered for event or joined the waitlist',
       content: {
         'application/json': {
-          schema: { $ref: '#/components/schemas/SuccessResponse' }
+          schema: { $ref: '#/components/schemas/EventRegistrationResultResponse' }
         }
       }
     },
     '400': { $ref: '#/components/responses/ValidationError' },
+    '403': {
+      description: 'Missing verified skills required by the slot',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/Error' }
+        }
+      }
+    },
     '401': { $ref: '#/components/responses/Unauthorized' },
     '404': { $ref: '#/components/responses/NotFound' },
     '409': {
@@ -571,6 +662,315 @@ router.delete(
   eventController.unregisterFromEvent.bind(eventController)
 );
 
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Get my registration',
+  description:
+    "Get the current user's registration for an event, including waitlist position and any pending seat confirmation",
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Registration retrieved successfully (null when not registered)',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventRegistrationResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get(
+  '/:id/registrations/me',
+  requireLogin as any,
+  eventController.getMyRegistration.bind(eventController)
+);
+
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Confirm waitlist seat',
+  description:
+    'Confirm a seat offered after being promoted from the waitlist. Unconfirmed seats pass to the next person once the confirmation window closes.',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Seat confirmed successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventRegistrationResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post(
+  '/:id/registrations/confirm',
+  requireLogin as any,
+  eventController.confirmRegistration.bind(eventController)
+);
+
+// Attendance and check-in
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Get attendance roster',
+  description:
+    'Get participants holding a seat with their attendance status, summary counts and the active check-in code (event organizers only)',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Attendance roster retrieved successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventAttendanceRosterResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get(
+  '/:id/attendance',
+  requireLogin as any,
+  requireEventAttendancePermission as any,
+  eventAttendanceController.getRoster.bind(eventAttendanceController)
+);
+
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Mark attendance',
+  description:
+    'Mark one or more participants as attended or no-show once the event has started (event organizers only)',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/MarkAttendanceRequest' }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Attendance recorded successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventRegistrationsResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.put(
+  '/:id/attendance',
+  requireLogin as any,
+  requireEventAttendancePermission as any,
+  eventAttendanceController.markAttendance.bind(eventAttendanceController)
+);
+
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Open check-in',
+  description:
+    'Issue a short-lived check-in code for participants to enter, replacing any existing code (event organizers only)',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object' as const,
+          properties: {
+            expires_in_minutes: {
+              type: 'integer' as const,
+              minimum: 1,
+              maximum: 240,
+              description: 'Code lifetime in minutes (never extends past the event end)'
+            }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Check-in opened successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventCheckInCodeResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post(
+  '/:id/check-in-code',
+  requireLogin as any,
+  requireEventAttendancePermission as any,
+  eventAttendanceController.openCheckIn.bind(eventAttendanceController)
+);
+
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Close check-in',
+  description: 'Invalidate the active check-in code (event organizers only)',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Check-in closed successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete(
+  '/:id/check-in-code',
+  requireLogin as any,
+  requireEventAttendancePermission as any,
+  eventAttendanceController.closeCheckIn.bind(eventAttendanceController)
+);
+
+oapi.validPath({
+  tags: ['Events'],
+  summary: 'Check in to event',
+  description:
+    'Check the current user in to an event they registered for, using the code shown by the organizer',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'id',
+      in: 'path',
+      required: true,
+      description: 'Event ID',
+      schema: { type: 'string' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/EventCheckInRequest' }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Checked in successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EventRegistrationResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post(
+  '/:id/check-in',
+  requireLogin as any,
+  eventAttendanceController.checkIn.bind(eventAttendanceController)
+);
+
 // Custom notifications (event owners only)
 oapi.validPath({
   tags: ['Events'],
@@ -86,11 +86,44 @@ oapi.validPath({
 });
 router.get('/stats', notificationController.getNotificationStats as any);
 
+// GET /api/notifications/stream - Stream notification activity
+oapi.validPath({
+  tags: ['Notifications'],
+  summary: 'Stream notification activity',
+  description: 'Server-Sent Events stream of new notifications (`notification`), read-state changes (`read_state`), deletions (`deleted`) and unread counts (`unread_count`) for the current user. Comment heartbeats are sent every 25 seconds. Reconnecting clients send the last event ID they received to replay missed events; if that is not possible a `resync` event tells them to refetch.',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'Last-Event-ID',
+      in: 'header',
+      required: false,
+      description: 'ID of the last event received on a previous connection',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Event stream opened',
+      content: {
+        'text/event-stream': {
+          schema: { type: 'string' }
+        }
+      }
+    },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/stream', notificationController.streamNotifications as any);
+
 // GET /api/notifications/preferences - Get notification preferences
 oapi.validPath({
   tags: ['Notifications'],
   summary: 'Get notification preferences',
-  description: 'Get notification preferences for the current user',
+  description: 'Get per-type and per-channel notification preferences, organization overrides and quiet hours for the current user',
   security: [
     { bearerAuth: [] },
     { sessionAuth: [] }
@@ -290,7 +323,7 @@ router.post('/', notificationController.createNotification as any);
 oapi.validPath({
   tags: ['Notifications'],
   summary: 'Update notification preferences',
-  description: 'Update notification preferences for the current user',
+  description: 'Set or clear per-channel preferences and organization overrides, and update quiet hours. Unlisted preferences are left unchanged.',
   security: [
     { bearerAuth: [] },
     { sessionAuth: [] }
@@ -314,6 +347,8 @@ oapi.validPath({
     },
     '400': { $ref: '#/components/responses/ValidationError' },
     '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
     '500': { $ref: '#/components/responses/InternalServerError' }
   }
 });
@@ -12,6 +12,7 @@ import * as roleSchemas from '../schemas/role';
 import * as notificationSchemas from '../schemas/notification';
 import * as discordSchemas from '../schemas/discord';
 import * as hrSchemas from '../schemas/hr';
+import * as calendarSchemas from '../schemas/calendar';
 
 const router: Router = Router();
 
@@ -79,15 +80,42 @@ const document: OpenAPIV3.Document = {
       LeaveOrganizationRequest: userSchemas.LeaveOrganizationRequestSchema,
       ToggleVisibilityRequest: userSchemas.ToggleVisibilityRequestSchema,
       UserSuccessResponse: userSchemas.UserSuccessResponseSchema,
+      OrganizationTransfer: userSchemas.OrganizationTransferSchema,
+      AccountDeletionRequest: userSchemas.AccountDeletionRequestSchema,
+      CreateAccountDeletionRequest: userSchemas.CreateAccountDeletionRequestSchema,
+      AccountDeletionStatus: userSchemas.AccountDeletionStatusSchema,
       
       // Event schemas
       Event: eventSchemas.EventSchema,
       CreateEventRequest: eventSchemas.CreateEventRequestSchema,
       UpdateEventRequest: eventSchemas.UpdateEventRequestSchema,
+      EventRecurrenceRule: eventSchemas.EventRecurrenceRuleSchema,
+      EventSeries: eventSchemas.EventSeriesSchema,
+      EventSeriesResponse: eventSchemas.EventSeriesResponseSchema,
       EventSearchRequest: eventSchemas.EventSearchRequestSchema,
       EventListResponse: eventSchemas.EventListResponseSchema,
       EventRegistration: eventSchemas.EventRegistrationSchema,
       EventRegistrationsResponse: eventSchemas.EventRegistrationsResponseSchema,
+      EventRegistrationResponse: eventSchemas.EventRegistrationResponseSchema,
+      EventRegistrationResultResponse:
+        eventSchemas.EventRegistrationResultResponseSchema,
+      EventRegistrationRequest: eventSchemas.EventRegistrationRequestSchema,
+      EventSlotInput: eventSchemas.EventSlotInputSchema,
+      EventSlot: eventSchemas.EventSlotSchema,
+      EventSlotsResponse: eventSchemas.EventSlotsResponseSchema,
+      EventCheckInCode: eventSchemas.EventCheckInCodeSchema,
+      EventCheckInCodeResponse: eventSchemas.EventCheckInCodeResponseSchema,
+      EventAttendanceRosterResponse:
+        eventSchemas.EventAttendanceRosterResponseSchema,
+      MarkAttendanceRequest: eventSchemas.MarkAttendanceRequestSchema,
+      EventCheckInRequest: eventSchemas.EventCheckInRequestSchema,
+      UserAttendanceHistory: eventSchemas.UserAttendanceHistorySchema,
+      UserAttendanceHistoryResponse:
+        eventSchemas.UserAttendanceHistoryResponseSchema,
+
+      // Calendar feed schemas
+      CalendarFeedToken: calendarSchemas.CalendarFeedTokenSchema,
+      CalendarFeedTokenResponse: calendarSchemas.CalendarFeedTokenResponseSchema,
       EventReview: eventSchemas.EventReviewSchema,
       CreateEventReviewRequest: eventSchemas.CreateEventReviewRequestSchema,
       UpdateEventReviewRequest: eventSchemas.UpdateEventReviewRequestSchema,
@@ -117,6 +145,10 @@ const document: OpenAPIV3.Document = {
       UpdateRoleRequest: roleSchemas.UpdateRoleRequestSchema,
       OrganizationMember: roleSchemas.OrganizationMemberSchema,
       AssignRoleRequest: roleSchemas.AssignRoleRequestSchema,
+      AddMemberRoleRequest: roleSchemas.AddMemberRoleRequestSchema,
+      ResourcePermissionOverride: roleSchemas.ResourcePermissionOverrideSchema,
+      CreateResourcePermissionOverrideRequest: roleSchemas.CreateResourcePermissionOverrideRequestSchema,
+      EffectiveAccess: roleSchemas.EffectiveAccessSchema,
       PermissionsResponse: roleSchemas.PermissionsResponseSchema,
       RolesResponse: roleSchemas.RolesResponseSchema,
       RoleResponse: roleSchemas.RoleResponseSchema,
@@ -146,6 +178,9 @@ const document: OpenAPIV3.Document = {
       DiscordSyncStatsResponse: discordSchemas.DiscordSyncStatsResponseSchema,
       DiscordHealthCheckResponse: discordSchemas.DiscordHealthCheckResponseSchema,
       SyncEventsRequest: discordSchemas.SyncEventsRequestSchema,
+      DiscordRoleMappingRequest: discordSchemas.DiscordRoleMappingRequestSchema,
+      DiscordRoleSyncSettingsRequest: discordSchemas.DiscordRoleSyncSettingsRequestSchema,
+      DiscordRoleReconcileRequest: discordSchemas.DiscordRoleReconcileRequestSchema,
       WebhookResponse: discordSchemas.WebhookResponseSchema,
       
       // HR Management schemas
@@ -154,13 +189,52 @@ const document: OpenAPIV3.Document = {
       UpdateApplicationStatusRequest: hrSchemas.UpdateApplicationStatusRequestSchema,
       ApplicationListResponse: hrSchemas.ApplicationListResponseSchema,
       ApplicationResponse: hrSchemas.ApplicationResponseSchema,
+      ApplicationFormQuestion: hrSchemas.ApplicationFormQuestionSchema,
+      ApplicationForm: hrSchemas.ApplicationFormSchema,
+      ApplicationFormRequest: hrSchemas.ApplicationFormRequestSchema,
+      ApplicationFormResponse: hrSchemas.ApplicationFormResponseSchema,
+      ApplicationFormListResponse: hrSchemas.ApplicationFormListResponseSchema,
+      InterviewNotes: hrSchemas.InterviewNotesSchema,
+      InterviewSlot: hrSchemas.InterviewSlotSchema,
+      InterviewSlotRequest: hrSchemas.InterviewSlotRequestSchema,
+      BookInterviewSlotRequest: hrSchemas.BookInterviewSlotRequestSchema,
+      InterviewNotesRequest: hrSchemas.InterviewNotesRequestSchema,
+      InterviewSlotResponse: hrSchemas.InterviewSlotResponseSchema,
+      InterviewSlotListResponse: hrSchemas.InterviewSlotListResponseSchema,
+      PipelineStage: hrSchemas.PipelineStageSchema,
+      PipelineRule: hrSchemas.PipelineRuleSchema,
+      PipelineStagesRequest: hrSchemas.PipelineStagesRequestSchema,
+      PipelineRuleRequest: hrSchemas.PipelineRuleRequestSchema,
+      MoveApplicationStageRequest: hrSchemas.MoveApplicationStageRequestSchema,
+      PipelineResponse: hrSchemas.PipelineResponseSchema,
+      PipelineStageListResponse: hrSchemas.PipelineStageListResponseSchema,
+      PipelineRuleResponse: hrSchemas.PipelineRuleResponseSchema,
       
+      OnboardingTaskTrigger: hrSchemas.OnboardingTaskTriggerSchema,
       OnboardingTask: hrSchemas.OnboardingTaskSchema,
+      OnboardingTaskStatus: hrSchemas.OnboardingTaskStatusSchema,
       OnboardingTemplate: hrSchemas.OnboardingTemplateSchema,
       OnboardingProgress: hrSchemas.OnboardingProgressSchema,
       CreateOnboardingTemplateRequest: hrSchemas.CreateOnboardingTemplateRequestSchema,
       OnboardingTemplateResponse: hrSchemas.OnboardingTemplateResponseSchema,
       OnboardingProgressResponse: hrSchemas.OnboardingProgressResponseSchema,
+      MentorProfile: hrSchemas.MentorProfileSchema,
+      MentorProfileRequest: hrSchemas.MentorProfileRequestSchema,
+      MentorMatch: hrSchemas.MentorMatchSchema,
+      Mentorship: hrSchemas.MentorshipSchema,
+      MentorshipCheckIn: hrSchemas.MentorshipCheckInSchema,
+      MentorshipNote: hrSchemas.MentorshipNoteSchema,
+      AssignMentorRequest: hrSchemas.AssignMentorRequestSchema,
+      EndMentorshipRequest: hrSchemas.EndMentorshipRequestSchema,
+      CompleteMentorshipCheckInRequest: hrSchemas.CompleteMentorshipCheckInRequestSchema,
+      MentorshipNoteRequest: hrSchemas.MentorshipNoteRequestSchema,
+      MentorProfileResponse: hrSchemas.MentorProfileResponseSchema,
+      MentorListResponse: hrSchemas.MentorListResponseSchema,
+      MentorMatchListResponse: hrSchemas.MentorMatchListResponseSchema,
+      MentorshipResponse: hrSchemas.MentorshipResponseSchema,
+      MentorshipListResponse: hrSchemas.MentorshipListResponseSchema,
+      MentorshipCheckInResponse: hrSchemas.MentorshipCheckInResponseSchema,
+      MentorshipNoteResponse: hrSchemas.MentorshipNoteResponseSchema,
       
       PerformanceGoal: hrSchemas.PerformanceGoalSchema,
       PerformanceReview: hrSchemas.PerformanceReviewSchema,
@@ -262,6 +336,10 @@ const document: OpenAPIV3.Document = {
       name: 'Events',
       description: 'Event creation and management endpoints'
     },
+    {
+      name: 'Calendar',
+      description: 'iCalendar (ICS) event feed endpoints'
+    },
     {
       name: 'Comments',
       description: 'Comment and interaction endpoints'
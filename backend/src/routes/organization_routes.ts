@@ -3,6 +3,8 @@ import { OrganizationController } from '../controllers/organization_controller';
 import { EventReviewController } from '../controllers/event_review_controller';
 import { AnalyticsController } from '../controllers/analytics_controller';
 import { HRAnalyticsController } from '../controllers/hr_analytics_controller';
+import { EventAttendanceController } from '../controllers/event_attendance_controller';
+import { ResourcePermissionController } from '../controllers/resource_permission_controller';
 import { requireLogin } from '../middleware/auth';
 import { requireOrganizationPermission, requireOrganizationAnalyticsPermission, requireResolvedOrganizationPermission } from '../middleware/permissions';
 import { recordOrganizationView } from '../middleware/view_tracking';
@@ -16,6 +18,8 @@ const organizationController = new OrganizationController();
 const eventReviewController = new EventReviewController();
 const analyticsController = new AnalyticsController();
 const hrAnalyticsController = new HRAnalyticsController();
+const eventAttendanceController = new EventAttendanceController();
+const resourcePermissionController = new ResourcePermissionController();
 
 // Public routes (no authentication required)
 router.get('/',
@@ -1065,6 +1069,62 @@ router.delete('/:rsi_org_id/members/:userId',
   organizationController.removeMember.bind(organizationController)
 );
 
+router.get('/:rsi_org_id/members/:userId/attendance',
+  oapi.validPath({
+    tags: ['Organizations'],
+    summary: 'Get member attendance history',
+    description: 'Get event attendance history and no-show rate for an organization member. Members can view their own history; viewing others requires member management permission.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'RSI organization ID'
+      },
+      {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'User ID'
+      },
+      {
+        name: 'since',
+        in: 'query',
+        schema: { type: 'string' as const, format: 'date-time' },
+        description: 'Only include events starting after this date'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Member attendance history',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/UserAttendanceHistoryResponse' }
+          }
+        }
+      },
+      401: {
+        $ref: '#/components/responses/Unauthorized'
+      },
+      403: {
+        $ref: '#/components/responses/Forbidden'
+      },
+      404: {
+        $ref: '#/components/responses/NotFound'
+      },
+      500: {
+        $ref: '#/components/responses/InternalServerError'
+      }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  eventAttendanceController.getMemberAttendance.bind(eventAttendanceController)
+);
+
 // Home page routes (public)
 router.get('/featured',
   oapi.validPath({
@@ -2008,7 +2068,7 @@ router.get('/:rsi_org_id/hr/event-analytics',
   oapi.validPath({
     tags: ['HR Analytics'],
     summary: 'Get HR event analytics',
-    description: 'Get HR event analytics and statistics',
+    description: 'Get event attendance analytics for the organization or a single member, including no-show rates and attendance versus performance',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2029,6 +2089,12 @@ router.get('/:rsi_org_id/hr/event-analytics',
         in: 'query',
         schema: { type: 'string' as const, format: 'date-time' },
         description: 'End date for analytics period'
+      },
+      {
+        name: 'user_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'Limit analytics to a single member'
       }
     ],
     responses: {
@@ -2068,6 +2134,11 @@ import { HRSkillStatisticsController } from '../controllers/hr_skill_statistics_
 import { HRDocumentController } from '../controllers/hr_document_controller';
 // HR Application routes
 import { HRApplicationController } from '../controllers/hr_application_controller';
+import { HRApplicationFormController } from '../controllers/hr_application_form_controller';
+import { HRInterviewController } from '../controllers/hr_interview_controller';
+import { HRPipelineController } from '../controllers/hr_pipeline_controller';
+// HR Mentorship routes
+import { HRMentorshipController } from '../controllers/hr_mentorship_controller';
 // HR Activity routes
 import { HRActivityController } from '../controllers/hr_activity_controller';
 
@@ -2077,6 +2148,10 @@ const hrSkillController = new HRSkillController();
 const hrSkillStatisticsController = new HRSkillStatisticsController();
 const hrDocumentController = new HRDocumentController();
 const hrApplicationController = new HRApplicationController();
+const hrApplicationFormController = new HRApplicationFormController();
+const hrInterviewController = new HRInterviewController();
+const hrPipelineController = new HRPipelineController();
+const hrMentorshipController = new HRMentorshipController();
 const hrActivityController = new HRActivityController();
 
 // HR Application Management routes
@@ -2165,6 +2240,18 @@ router.get('/:rsi_org_id/applications',
         schema: { type: 'string' as const },
         description: 'Filter by reviewer ID'
       },
+      {
+        name: 'stage_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'Filter by pipeline stage ID'
+      },
+      {
+        name: 'assignee_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'Filter by assigned recruiter ID'
+      },
       {
         name: 'page',
         in: 'query',
@@ -2379,6 +2466,123 @@ router.post('/:rsi_org_id/applications/bulk-update',
   hrApplicationController.bulkUpdateApplications.bind(hrApplicationController)
 );
 
+// Vet a batch of RSI handles
+router.post('/:rsi_org_id/applications/vetting',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Vet handles',
+    description: 'Run reputation, organization history and alt account checks on a list of RSI handles',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object' as const,
+            properties: {
+              handles: {
+                oneOf: [
+                  {
+                    type: 'array' as const,
+                    items: { type: 'string' as const },
+                    maxItems: 50
+                  },
+                  { type: 'string' as const }
+                ],
+                description: 'RSI handles, or one string of handles separated by commas, spaces or new lines'
+              }
+            },
+            required: ['handles']
+          }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Vetting summary for each handle',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: {
+                  type: 'array' as const,
+                  items: { type: 'object' as const }
+                }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(bulkOperationsRateLimit),
+  hrApplicationController.vetHandles.bind(hrApplicationController)
+);
+
+// Re-run vetting for an application
+router.post('/:rsi_org_id/applications/:applicationId/vetting',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Vet applicant',
+    description: 'Re-run the vetting check on the applicant and store it on the application',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'applicationId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Application with its new vetting summary',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ApplicationResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' },
+      502: { description: 'Vetting check could not be completed' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  hrApplicationController.vetApplication.bind(hrApplicationController)
+);
+
 // Get application analytics
 router.get('/:rsi_org_id/applications/analytics',
   oapi.validPath({
@@ -2445,12 +2649,14 @@ router.get('/:rsi_org_id/applications/analytics',
   hrApplicationController.getAnalytics.bind(hrApplicationController)
 );
 
-// Onboarding template management
-router.get('/:rsi_org_id/onboarding/templates',
+// Application forms
+
+// List application forms
+router.get('/:rsi_org_id/application-forms',
   oapi.validPath({
-    tags: ['HR Onboarding'],
-    summary: 'Get onboarding templates',
-    description: 'Get onboarding templates for an organization',
+    tags: ['HR Management'],
+    summary: 'List application forms',
+    description: 'Get the application forms of an organization with the questions of their current version. Archived forms are only included on request.',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2461,59 +2667,36 @@ router.get('/:rsi_org_id/onboarding/templates',
         description: 'Organization ID'
       },
       {
-        name: 'is_active',
-        in: 'query',
-        schema: { type: 'boolean' as const },
-        description: 'Filter by active status'
-      },
-      {
-        name: 'limit',
-        in: 'query',
-        schema: { type: 'integer' as const, minimum: 1, maximum: 100, default: 20 },
-        description: 'Number of items per page'
-      },
-      {
-        name: 'offset',
+        name: 'include_archived',
         in: 'query',
-        schema: { type: 'integer' as const, minimum: 0, default: 0 },
-        description: 'Number of items to skip'
+        schema: { type: 'boolean' as const, default: false },
+        description: 'Include archived forms'
       }
     ],
     responses: {
       200: {
-        description: 'Onboarding templates',
+        description: 'Application forms',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: {
-                  type: 'array' as const,
-                  items: { $ref: '#/components/schemas/OnboardingTemplate' }
-                },
-                pagination: { $ref: '#/components/schemas/Pagination' }
-              }
-            }
+            schema: { $ref: '#/components/schemas/ApplicationFormListResponse' }
           }
         }
       },
       401: { $ref: '#/components/responses/Unauthorized' },
-      403: { $ref: '#/components/responses/Forbidden' },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.getTemplates.bind(hrOnboardingController)
+  hrApplicationFormController.listForms.bind(hrApplicationFormController)
 );
 
-router.post('/:rsi_org_id/onboarding/templates',
+// Create application form
+router.post('/:rsi_org_id/application-forms',
   oapi.validPath({
-    tags: ['HR Onboarding'],
-    summary: 'Create onboarding template',
-    description: 'Create a new onboarding template for an organization',
+    tags: ['HR Management'],
+    summary: 'Create application form',
+    description: 'Create an application form with typed questions',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2528,31 +2711,24 @@ router.post('/:rsi_org_id/onboarding/templates',
       required: true,
       content: {
         'application/json': {
-          schema: { $ref: '#/components/schemas/CreateOnboardingTemplateRequest' }
+          schema: { $ref: '#/components/schemas/ApplicationFormRequest' }
         }
       }
     },
     responses: {
       201: {
-        description: 'Onboarding template created',
+        description: 'Application form created',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingTemplate' },
-                message: { type: 'string' as const }
-              }
-            }
+            schema: { $ref: '#/components/schemas/ApplicationFormResponse' }
           }
         }
       },
-      400: { $ref: '#/components/responses/BadRequest' },
+      400: { $ref: '#/components/responses/ValidationError' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
       409: {
-        description: 'Template already exists for this role',
+        description: 'A form with this name already exists',
         content: {
           'application/json': {
             schema: { $ref: '#/components/schemas/Error' }
@@ -2565,16 +2741,18 @@ router.post('/:rsi_org_id/onboarding/templates',
   requireLogin as any,
   resolveOrganization,
   requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
   sanitizeRequest(),
-  validateHRRequest('createOnboardingTemplate'),
-  hrOnboardingController.createTemplate.bind(hrOnboardingController)
+  validateHRRequest('createApplicationForm'),
+  hrApplicationFormController.createForm.bind(hrApplicationFormController)
 );
 
-router.get('/:rsi_org_id/onboarding/templates/:templateId',
+// Get application form
+router.get('/:rsi_org_id/application-forms/:formId',
   oapi.validPath({
-    tags: ['HR Onboarding'],
-    summary: 'Get onboarding template',
-    description: 'Get a specific onboarding template',
+    tags: ['HR Management'],
+    summary: 'Get application form',
+    description: 'Get an application form with the questions of its current version',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2585,45 +2763,38 @@ router.get('/:rsi_org_id/onboarding/templates/:templateId',
         description: 'Organization ID'
       },
       {
-        name: 'templateId',
+        name: 'formId',
         in: 'path',
         required: true,
         schema: { type: 'string' as const },
-        description: 'Template ID'
+        description: 'Application form ID'
       }
     ],
     responses: {
       200: {
-        description: 'Onboarding template',
+        description: 'Application form',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingTemplate' }
-              }
-            }
+            schema: { $ref: '#/components/schemas/ApplicationFormResponse' }
           }
         }
       },
       401: { $ref: '#/components/responses/Unauthorized' },
-      403: { $ref: '#/components/responses/Forbidden' },
       404: { $ref: '#/components/responses/NotFound' },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.getTemplate.bind(hrOnboardingController)
+  hrApplicationFormController.getForm.bind(hrApplicationFormController)
 );
 
-router.put('/:rsi_org_id/onboarding/templates/:templateId',
+// Get a past version of an application form
+router.get('/:rsi_org_id/application-forms/:formId/versions/:version',
   oapi.validPath({
-    tags: ['HR Onboarding'],
-    summary: 'Update onboarding template',
-    description: 'Update an existing onboarding template',
+    tags: ['HR Management'],
+    summary: 'Get application form version',
+    description: 'Get an application form with the questions of a specific version, as answered by applications submitted against it',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2634,55 +2805,1626 @@ router.put('/:rsi_org_id/onboarding/templates/:templateId',
         description: 'Organization ID'
       },
       {
-        name: 'templateId',
+        name: 'formId',
         in: 'path',
         required: true,
         schema: { type: 'string' as const },
-        description: 'Template ID'
+        description: 'Application form ID'
+      },
+      {
+        name: 'version',
+        in: 'path',
+        required: true,
+        schema: { type: 'integer' as const, minimum: 1 },
+        description: 'Form version'
       }
     ],
-    requestBody: {
-      required: true,
-      content: {
-        'application/json': {
-          schema: { $ref: '#/components/schemas/UpdateOnboardingTemplateRequest' }
-        }
-      }
-    },
     responses: {
       200: {
-        description: 'Onboarding template updated',
+        description: 'Application form version',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingTemplate' },
-                message: { type: 'string' as const }
-              }
+            schema: { $ref: '#/components/schemas/ApplicationFormResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrApplicationFormController.getForm.bind(hrApplicationFormController)
+);
+
+// Update application form
+router.put('/:rsi_org_id/application-forms/:formId',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Update application form',
+    description: 'Update an application form. Changing its questions saves a new version; submitted applications keep the version they answered.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'formId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application form ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/ApplicationFormRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Application form updated',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ApplicationFormResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'A form with this name already exists',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('updateApplicationForm'),
+  hrApplicationFormController.updateForm.bind(hrApplicationFormController)
+);
+
+// Archive application form
+router.delete('/:rsi_org_id/application-forms/:formId',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Archive application form',
+    description: 'Archive an application form so it stops taking applications. Submitted applications and past versions are kept.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'formId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application form ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Application form archived',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SuccessResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrApplicationFormController.archiveForm.bind(hrApplicationFormController)
+);
+
+// Recruitment pipeline routes
+// Get recruitment pipeline
+router.get('/:rsi_org_id/pipeline',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Get recruitment pipeline',
+    description: 'Get the organization\'s pipeline stages, in order, and its automation rules',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Recruitment pipeline',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PipelineResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrPipelineController.getPipeline.bind(hrPipelineController)
+);
+
+// Update pipeline stages
+router.put('/:rsi_org_id/pipeline/stages',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Update pipeline stages',
+    description: 'Replace the pipeline stages with an ordered list. Each stage belongs to an application status; applications in removed stages keep their status. An empty list goes back to the plain statuses.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/PipelineStagesRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Pipeline stages updated',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PipelineStageListResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('updatePipelineStages'),
+  hrPipelineController.updateStages.bind(hrPipelineController)
+);
+
+// Create automation rule
+router.post('/:rsi_org_id/pipeline/rules',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Create automation rule',
+    description: 'Create a rule that runs its actions when an application is submitted, changes status, enters a stage or sits idle',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/PipelineRuleRequest' }
+        }
+      }
+    },
+    responses: {
+      201: {
+        description: 'Automation rule created',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PipelineRuleResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('pipelineRule'),
+  hrPipelineController.createRule.bind(hrPipelineController)
+);
+
+// Update automation rule
+router.put('/:rsi_org_id/pipeline/rules/:ruleId',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Update automation rule',
+    description: 'Replace an automation rule\'s trigger, conditions and actions, or switch it off',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'ruleId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Automation rule ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/PipelineRuleRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Automation rule updated',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PipelineRuleResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('pipelineRule'),
+  hrPipelineController.updateRule.bind(hrPipelineController)
+);
+
+// Delete automation rule
+router.delete('/:rsi_org_id/pipeline/rules/:ruleId',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Delete automation rule',
+    description: 'Delete an automation rule',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'ruleId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Automation rule ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Automation rule deleted',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SuccessResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrPipelineController.deleteRule.bind(hrPipelineController)
+);
+
+// Move application to pipeline stage
+router.put('/:rsi_org_id/applications/:applicationId/stage',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Move application to stage',
+    description: 'Move an application to a pipeline stage. Stages of the current status can be moved between freely; a stage of another status changes the status and follows its transitions.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'applicationId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/MoveApplicationStageRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Application moved',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ApplicationResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('moveApplicationStage'),
+  hrPipelineController.moveApplicationToStage.bind(hrPipelineController)
+);
+
+// Interview scheduling routes
+// List upcoming interview slots
+router.get('/:rsi_org_id/interview-slots',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'List interview slots',
+    description: 'List upcoming interview slots, open and booked, with the interviewer and the applicant who booked',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Interview slots',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/InterviewSlotListResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrInterviewController.listSlots.bind(hrInterviewController)
+);
+
+// Publish interview slot
+router.post('/:rsi_org_id/interview-slots',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Publish interview slot',
+    description: 'Publish an availability window the current user will interview applicants in',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/InterviewSlotRequest' }
+        }
+      }
+    },
+    responses: {
+      201: {
+        description: 'Interview slot published',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/InterviewSlotResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      409: {
+        description: 'The interviewer already has a slot during this time',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('publishInterviewSlot'),
+  hrInterviewController.publishSlot.bind(hrInterviewController)
+);
+
+// Cancel interview slot
+router.delete('/:rsi_org_id/interview-slots/:slotId',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Cancel interview slot',
+    description: 'Withdraw an interview slot. A booked interview is called off, its application goes back under review and the applicant is notified.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'slotId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Interview slot ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Interview slot cancelled',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/InterviewSlotResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'The interview was already held or cancelled',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  hrInterviewController.cancelSlot.bind(hrInterviewController)
+);
+
+// List interview slots the applicant can book
+router.get('/:rsi_org_id/applications/:applicationId/interview-slots',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'List bookable interview slots',
+    description: 'Open interview slots the applicant can book for their application',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'applicationId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Open interview slots',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/InterviewSlotListResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  hrInterviewController.getOpenSlots.bind(hrInterviewController)
+);
+
+// Get application interview
+router.get('/:rsi_org_id/applications/:applicationId/interview',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Get application interview',
+    description: 'The interview booked for an application. Notes and the recommendation are only shown to members who manage applications.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'applicationId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Interview, or null when none was booked',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/InterviewSlotResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  hrInterviewController.getInterview.bind(hrInterviewController)
+);
+
+// Book interview slot
+router.post('/:rsi_org_id/applications/:applicationId/interview',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Book interview slot',
+    description: 'Book an interview slot for your application. Booking again moves the interview to the new slot.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'applicationId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/BookInterviewSlotRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Interview booked',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/InterviewSlotResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'The slot is no longer available',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('bookInterviewSlot'),
+  hrInterviewController.bookSlot.bind(hrInterviewController)
+);
+
+// Record interview notes
+router.put('/:rsi_org_id/applications/:applicationId/interview/notes',
+  oapi.validPath({
+    tags: ['HR Management'],
+    summary: 'Record interview notes',
+    description: 'Record structured interview notes and a recommendation. The recommendation is added to the application history.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'applicationId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Application ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/InterviewNotesRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Interview notes recorded',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/InterviewSlotResponse' }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/ValidationError' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'The interview has not started yet',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('recordInterviewNotes'),
+  hrInterviewController.recordNotes.bind(hrInterviewController)
+);
+
+// Onboarding template management
+router.get('/:rsi_org_id/onboarding/templates',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Get onboarding templates',
+    description: 'Get onboarding templates for an organization',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'is_active',
+        in: 'query',
+        schema: { type: 'boolean' as const },
+        description: 'Filter by active status'
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        schema: { type: 'integer' as const, minimum: 1, maximum: 100, default: 20 },
+        description: 'Number of items per page'
+      },
+      {
+        name: 'offset',
+        in: 'query',
+        schema: { type: 'integer' as const, minimum: 0, default: 0 },
+        description: 'Number of items to skip'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Onboarding templates',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: {
+                  type: 'array' as const,
+                  items: { $ref: '#/components/schemas/OnboardingTemplate' }
+                },
+                pagination: { $ref: '#/components/schemas/Pagination' }
+              }
+            }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.getTemplates.bind(hrOnboardingController)
+);
+
+router.post('/:rsi_org_id/onboarding/templates',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Create onboarding template',
+    description: 'Create a new onboarding template for an organization',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/CreateOnboardingTemplateRequest' }
+        }
+      }
+    },
+    responses: {
+      201: {
+        description: 'Onboarding template created',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingTemplate' },
+                message: { type: 'string' as const }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      409: {
+        description: 'Template already exists for this role',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  sanitizeRequest(),
+  validateHRRequest('createOnboardingTemplate'),
+  hrOnboardingController.createTemplate.bind(hrOnboardingController)
+);
+
+router.get('/:rsi_org_id/onboarding/templates/:templateId',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Get onboarding template',
+    description: 'Get a specific onboarding template',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'templateId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Template ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Onboarding template',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingTemplate' }
+              }
+            }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.getTemplate.bind(hrOnboardingController)
+);
+
+router.put('/:rsi_org_id/onboarding/templates/:templateId',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Update onboarding template',
+    description: 'Update an existing onboarding template',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'templateId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Template ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/UpdateOnboardingTemplateRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Onboarding template updated',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingTemplate' },
+                message: { type: 'string' as const }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.updateTemplate.bind(hrOnboardingController)
+);
+
+router.delete('/:rsi_org_id/onboarding/templates/:templateId',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Delete onboarding template',
+    description: 'Delete an onboarding template',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'templateId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Template ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Onboarding template deleted',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                message: { type: 'string' as const }
+              }
+            }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.deleteTemplate.bind(hrOnboardingController)
+);
+
+// Onboarding progress management
+router.get('/:rsi_org_id/onboarding/progress',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Get all onboarding progress',
+    description: 'Get onboarding progress for all users in an organization',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'status',
+        in: 'query',
+        schema: { 
+          type: 'string' as const,
+          enum: ['not_started', 'in_progress', 'completed', 'overdue']
+        },
+        description: 'Filter by status'
+      },
+      {
+        name: 'user_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'Filter by user'
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        schema: { type: 'integer' as const, minimum: 1, maximum: 100, default: 20 },
+        description: 'Number of items per page'
+      },
+      {
+        name: 'offset',
+        in: 'query',
+        schema: { type: 'integer' as const, minimum: 0, default: 0 },
+        description: 'Number of items to skip'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Onboarding progress list',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: {
+                  type: 'array' as const,
+                  items: { $ref: '#/components/schemas/OnboardingProgressWithUser' }
+                },
+                pagination: { $ref: '#/components/schemas/Pagination' }
+              }
+            }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.getAllProgress.bind(hrOnboardingController)
+);
+
+router.get('/:rsi_org_id/onboarding/progress/:userId',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Get user onboarding progress',
+    description: 'Get onboarding progress for a specific user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'User ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'User onboarding progress',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingProgressDetailed' }
+              }
+            }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.getProgress.bind(hrOnboardingController)
+);
+
+router.put('/:rsi_org_id/onboarding/progress/:userId',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Update user onboarding progress',
+    description: 'Update onboarding progress for a specific user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'User ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/UpdateOnboardingProgressRequest' }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Onboarding progress updated',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingProgress' },
+                message: { type: 'string' as const }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.updateProgress.bind(hrOnboardingController)
+);
+
+router.post('/:rsi_org_id/onboarding/progress',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Create onboarding progress',
+    description: 'Create onboarding progress for a user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/CreateOnboardingProgressRequest' }
+        }
+      }
+    },
+    responses: {
+      201: {
+        description: 'Onboarding progress created',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingProgress' },
+                message: { type: 'string' as const }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'Onboarding progress already exists',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.createProgress.bind(hrOnboardingController)
+);
+
+// Task completion
+router.post('/:rsi_org_id/onboarding/tasks/:taskId/complete',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Complete onboarding task',
+    description: 'Mark an onboarding task as completed',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'taskId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Task ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object' as const,
+            properties: {
+              user_id: { type: 'string' as const }
+            },
+            required: ['user_id']
+          }
+        }
+      }
+    },
+    responses: {
+      200: {
+        description: 'Task completed',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingProgress' },
+                message: { type: 'string' as const },
+                onboarding_complete: { type: 'boolean' as const }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.completeTask.bind(hrOnboardingController)
+);
+
+router.post('/:rsi_org_id/onboarding/progress/:userId/tasks/:taskId/complete',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Sign off onboarding task',
+    description: "Complete a task on a member's onboarding as its assignee: the member, the assigned user, a holder of the assigned role, or a member manager",
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'User ID of the member being onboarded'
+      },
+      {
+        name: 'taskId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Task ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Task completed',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingProgress' },
+                message: { type: 'string' as const },
+                onboarding_complete: { type: 'boolean' as const }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  hrOnboardingController.signOffTask.bind(hrOnboardingController)
+);
+
+// Analytics and reporting
+router.get('/:rsi_org_id/onboarding/analytics',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Get onboarding analytics',
+    description: 'Get onboarding analytics and statistics',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Onboarding analytics',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/OnboardingAnalytics' }
+              }
+            }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.getAnalytics.bind(hrOnboardingController)
+);
+
+router.get('/:rsi_org_id/onboarding/overdue',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Get overdue onboarding progress',
+    description: 'Get list of overdue onboarding progress',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Overdue onboarding progress',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: {
+                  type: 'array' as const,
+                  items: { $ref: '#/components/schemas/OnboardingProgress' }
+                }
+              }
             }
           }
         }
       },
-      400: { $ref: '#/components/responses/BadRequest' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
-      404: { $ref: '#/components/responses/NotFound' },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.updateTemplate.bind(hrOnboardingController)
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.getOverdueProgress.bind(hrOnboardingController)
+);
+
+router.post('/:rsi_org_id/onboarding/mark-overdue',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Mark overdue onboarding progress',
+    description: 'Mark onboarding progress as overdue (system operation)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Overdue progress marked',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: {
+                  type: 'object' as const,
+                  properties: {
+                    updated_count: { type: 'integer' as const }
+                  }
+                },
+                message: { type: 'string' as const }
+              }
+            }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrOnboardingController.markOverdueProgress.bind(hrOnboardingController)
+);
+
+// HR Mentorship routes
+// Get mentor profile
+router.get('/:rsi_org_id/mentorship/profiles/:userId',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'Get mentor profile',
+    description: "A member's mentor profile: whether they mentor, their mentee cap, timezone and languages. Visible to the member and members who manage members.",
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      },
+      {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'User ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Mentor profile, or null when the member has none yet',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/MentorProfileResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  hrMentorshipController.getProfile.bind(hrMentorshipController)
 );
 
-router.delete('/:rsi_org_id/onboarding/templates/:templateId',
+// Update mentor profile
+router.put('/:rsi_org_id/mentorship/profiles/:userId',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Delete onboarding template',
-    description: 'Delete an onboarding template',
+    summary: 'Update mentor profile',
+    description: 'Members set their own timezone and languages. Making a member a mentor and their mentee cap are up to members who manage members.',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2693,28 +4435,31 @@ router.delete('/:rsi_org_id/onboarding/templates/:templateId',
         description: 'Organization ID'
       },
       {
-        name: 'templateId',
+        name: 'userId',
         in: 'path',
         required: true,
         schema: { type: 'string' as const },
-        description: 'Template ID'
+        description: 'User ID'
       }
     ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/MentorProfileRequest' }
+        }
+      }
+    },
     responses: {
       200: {
-        description: 'Onboarding template deleted',
+        description: 'Mentor profile updated',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                message: { type: 'string' as const }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorProfileResponse' }
           }
         }
       },
+      400: { $ref: '#/components/responses/ValidationError' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
       404: { $ref: '#/components/responses/NotFound' },
@@ -2723,16 +4468,18 @@ router.delete('/:rsi_org_id/onboarding/templates/:templateId',
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.deleteTemplate.bind(hrOnboardingController)
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('updateMentorProfile'),
+  hrMentorshipController.updateProfile.bind(hrMentorshipController)
 );
 
-// Onboarding progress management
-router.get('/:rsi_org_id/onboarding/progress',
+// List mentors
+router.get('/:rsi_org_id/mentorship/mentors',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Get all onboarding progress',
-    description: 'Get onboarding progress for all users in an organization',
+    summary: 'List mentors',
+    description: 'Members available as mentors, with their mentee cap and how many mentees each has now',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2741,45 +4488,14 @@ router.get('/:rsi_org_id/onboarding/progress',
         required: true,
         schema: { type: 'string' as const },
         description: 'Organization ID'
-      },
-      {
-        name: 'status',
-        in: 'query',
-        schema: { 
-          type: 'string' as const,
-          enum: ['not_started', 'in_progress', 'completed', 'overdue']
-        },
-        description: 'Filter by status'
-      },
-      {
-        name: 'limit',
-        in: 'query',
-        schema: { type: 'integer' as const, minimum: 1, maximum: 100, default: 20 },
-        description: 'Number of items per page'
-      },
-      {
-        name: 'offset',
-        in: 'query',
-        schema: { type: 'integer' as const, minimum: 0, default: 0 },
-        description: 'Number of items to skip'
       }
     ],
     responses: {
       200: {
-        description: 'Onboarding progress list',
+        description: 'Mentors',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: {
-                  type: 'array' as const,
-                  items: { $ref: '#/components/schemas/OnboardingProgressWithUser' }
-                },
-                pagination: { $ref: '#/components/schemas/Pagination' }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorListResponse' }
           }
         }
       },
@@ -2791,14 +4507,15 @@ router.get('/:rsi_org_id/onboarding/progress',
   requireLogin as any,
   resolveOrganization,
   requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.getAllProgress.bind(hrOnboardingController)
+  hrMentorshipController.listMentors.bind(hrMentorshipController)
 );
 
-router.get('/:rsi_org_id/onboarding/progress/:userId',
+// Find mentor matches
+router.get('/:rsi_org_id/mentorship/matches/:userId',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Get user onboarding progress',
-    description: 'Get onboarding progress for a specific user',
+    summary: 'Find mentor matches',
+    description: 'Mentors with room for another mentee, ranked by how well they match the member on skills, timezone and language',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2813,41 +4530,41 @@ router.get('/:rsi_org_id/onboarding/progress/:userId',
         in: 'path',
         required: true,
         schema: { type: 'string' as const },
-        description: 'User ID'
+        description: 'User ID of the member looking for a mentor'
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        schema: { type: 'integer' as const, minimum: 1, maximum: 20, default: 5 },
+        description: 'Number of matches to return'
       }
     ],
     responses: {
       200: {
-        description: 'User onboarding progress',
+        description: 'Mentor matches, best first',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingProgressDetailed' }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorMatchListResponse' }
           }
         }
       },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
-      404: { $ref: '#/components/responses/NotFound' },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
   requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.getProgress.bind(hrOnboardingController)
+  hrMentorshipController.getMatches.bind(hrMentorshipController)
 );
 
-router.put('/:rsi_org_id/onboarding/progress/:userId',
+// Assign mentor
+router.post('/:rsi_org_id/onboarding/progress/:userId/mentor',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Update user onboarding progress',
-    description: 'Update onboarding progress for a specific user',
+    summary: 'Assign mentor',
+    description: 'Assign a mentor to a member in onboarding, or the best match when no mentor is given. A member who already has a mentor is moved over to the new one. The change is recorded in the HR activity timeline.',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2862,51 +4579,56 @@ router.put('/:rsi_org_id/onboarding/progress/:userId',
         in: 'path',
         required: true,
         schema: { type: 'string' as const },
-        description: 'User ID'
+        description: 'User ID of the member being onboarded'
       }
     ],
     requestBody: {
       required: true,
       content: {
         'application/json': {
-          schema: { $ref: '#/components/schemas/UpdateOnboardingProgressRequest' }
+          schema: { $ref: '#/components/schemas/AssignMentorRequest' }
         }
       }
     },
     responses: {
-      200: {
-        description: 'Onboarding progress updated',
+      201: {
+        description: 'Mentor assigned',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingProgress' },
-                message: { type: 'string' as const }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorshipResponse' }
           }
         }
       },
-      400: { $ref: '#/components/responses/BadRequest' },
+      400: { $ref: '#/components/responses/ValidationError' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
       404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'The mentor has no room for another mentee, is already assigned, or no mentor is available',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
   requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.updateProgress.bind(hrOnboardingController)
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('assignMentor'),
+  hrMentorshipController.assignMentor.bind(hrMentorshipController)
 );
 
-router.post('/:rsi_org_id/onboarding/progress',
+// List mentorships
+router.get('/:rsi_org_id/mentorships',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Create onboarding progress',
-    description: 'Create onboarding progress for a user',
+    summary: 'List mentorships',
+    description: 'Mentorships of the organization with their mentor, mentee and next check-in',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2915,59 +4637,86 @@ router.post('/:rsi_org_id/onboarding/progress',
         required: true,
         schema: { type: 'string' as const },
         description: 'Organization ID'
+      },
+      {
+        name: 'status',
+        in: 'query',
+        schema: { type: 'string' as const, enum: ['active', 'ended'] },
+        description: 'Filter by status'
+      },
+      {
+        name: 'mentor_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'Filter by mentor'
+      },
+      {
+        name: 'mentee_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'Filter by mentee'
       }
     ],
-    requestBody: {
-      required: true,
-      content: {
-        'application/json': {
-          schema: { $ref: '#/components/schemas/CreateOnboardingProgressRequest' }
-        }
-      }
-    },
     responses: {
-      201: {
-        description: 'Onboarding progress created',
+      200: {
+        description: 'Mentorships',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingProgress' },
-                message: { type: 'string' as const }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorshipListResponse' }
           }
         }
       },
-      400: { $ref: '#/components/responses/BadRequest' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
-      404: { $ref: '#/components/responses/NotFound' },
-      409: {
-        description: 'Onboarding progress already exists',
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
+  hrMentorshipController.listMentorships.bind(hrMentorshipController)
+);
+
+// List own mentorships
+router.get('/:rsi_org_id/mentorships/mine',
+  oapi.validPath({
+    tags: ['HR Onboarding'],
+    summary: 'List own mentorships',
+    description: 'Mentorships the current user is part of, as mentor or as mentee',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Mentorships',
         content: {
           'application/json': {
-            schema: { $ref: '#/components/schemas/Error' }
+            schema: { $ref: '#/components/schemas/MentorshipListResponse' }
           }
         }
       },
+      401: { $ref: '#/components/responses/Unauthorized' },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.createProgress.bind(hrOnboardingController)
+  hrMentorshipController.getMyMentorships.bind(hrMentorshipController)
 );
 
-// Task completion
-router.post('/:rsi_org_id/onboarding/tasks/:taskId/complete',
+// Get mentorship
+router.get('/:rsi_org_id/mentorships/:mentorshipId',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Complete onboarding task',
-    description: 'Mark an onboarding task as completed',
+    summary: 'Get mentorship',
+    description: 'A mentorship with its check-ins. Notes are only shown to the mentor and members who manage members.',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -2978,45 +4727,22 @@ router.post('/:rsi_org_id/onboarding/tasks/:taskId/complete',
         description: 'Organization ID'
       },
       {
-        name: 'taskId',
+        name: 'mentorshipId',
         in: 'path',
         required: true,
         schema: { type: 'string' as const },
-        description: 'Task ID'
+        description: 'Mentorship ID'
       }
     ],
-    requestBody: {
-      required: true,
-      content: {
-        'application/json': {
-          schema: {
-            type: 'object' as const,
-            properties: {
-              user_id: { type: 'string' as const }
-            },
-            required: ['user_id']
-          }
-        }
-      }
-    },
     responses: {
       200: {
-        description: 'Task completed',
+        description: 'Mentorship',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingProgress' },
-                message: { type: 'string' as const },
-                onboarding_complete: { type: 'boolean' as const }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorshipResponse' }
           }
         }
       },
-      400: { $ref: '#/components/responses/BadRequest' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
       404: { $ref: '#/components/responses/NotFound' },
@@ -3025,16 +4751,15 @@ router.post('/:rsi_org_id/onboarding/tasks/:taskId/complete',
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.completeTask.bind(hrOnboardingController)
+  hrMentorshipController.getMentorship.bind(hrMentorshipController)
 );
 
-// Analytics and reporting
-router.get('/:rsi_org_id/onboarding/analytics',
+// End mentorship
+router.post('/:rsi_org_id/mentorships/:mentorshipId/end',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Get onboarding analytics',
-    description: 'Get onboarding analytics and statistics',
+    summary: 'End mentorship',
+    description: 'End a mentorship, leaving the member without a mentor. The change is recorded in the HR activity timeline.',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -3043,39 +4768,61 @@ router.get('/:rsi_org_id/onboarding/analytics',
         required: true,
         schema: { type: 'string' as const },
         description: 'Organization ID'
+      },
+      {
+        name: 'mentorshipId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Mentorship ID'
       }
     ],
+    requestBody: {
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EndMentorshipRequest' }
+        }
+      }
+    },
     responses: {
       200: {
-        description: 'Onboarding analytics',
+        description: 'Mentorship ended',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: { $ref: '#/components/schemas/OnboardingAnalytics' }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorshipResponse' }
           }
         }
       },
+      400: { $ref: '#/components/responses/ValidationError' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'The mentorship has already ended',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
   requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.getAnalytics.bind(hrOnboardingController)
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('endMentorship'),
+  hrMentorshipController.endMentorship.bind(hrMentorshipController)
 );
 
-router.get('/:rsi_org_id/onboarding/overdue',
+// Complete mentorship check-in
+router.post('/:rsi_org_id/mentorships/:mentorshipId/check-ins/complete',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Get overdue onboarding progress',
-    description: 'Get list of overdue onboarding progress',
+    summary: 'Complete mentorship check-in',
+    description: "Complete the mentorship's open check-in, optionally with notes, and schedule the next one. Only the mentor or members who manage members.",
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -3084,42 +4831,60 @@ router.get('/:rsi_org_id/onboarding/overdue',
         required: true,
         schema: { type: 'string' as const },
         description: 'Organization ID'
+      },
+      {
+        name: 'mentorshipId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Mentorship ID'
       }
     ],
+    requestBody: {
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/CompleteMentorshipCheckInRequest' }
+        }
+      }
+    },
     responses: {
       200: {
-        description: 'Overdue onboarding progress',
+        description: 'Check-in completed and the next one scheduled',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: {
-                  type: 'array' as const,
-                  items: { $ref: '#/components/schemas/OnboardingProgress' }
-                }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorshipCheckInResponse' }
           }
         }
       },
+      400: { $ref: '#/components/responses/ValidationError' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      409: {
+        description: 'The mentorship has ended',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/Error' }
+          }
+        }
+      },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.getOverdueProgress.bind(hrOnboardingController)
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('completeMentorshipCheckIn'),
+  hrMentorshipController.completeCheckIn.bind(hrMentorshipController)
 );
 
-router.post('/:rsi_org_id/onboarding/mark-overdue',
+// Add mentorship note
+router.post('/:rsi_org_id/mentorships/:mentorshipId/notes',
   oapi.validPath({
     tags: ['HR Onboarding'],
-    summary: 'Mark overdue onboarding progress',
-    description: 'Mark onboarding progress as overdue (system operation)',
+    summary: 'Add mentorship note',
+    description: 'Log a note on how the mentee is doing. Only the mentor or members who manage members.',
     security: [{ bearerAuth: [] }],
     parameters: [
       {
@@ -3128,38 +4893,45 @@ router.post('/:rsi_org_id/onboarding/mark-overdue',
         required: true,
         schema: { type: 'string' as const },
         description: 'Organization ID'
+      },
+      {
+        name: 'mentorshipId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Mentorship ID'
       }
     ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/MentorshipNoteRequest' }
+        }
+      }
+    },
     responses: {
-      200: {
-        description: 'Overdue progress marked',
+      201: {
+        description: 'Note added',
         content: {
           'application/json': {
-            schema: {
-              type: 'object' as const,
-              properties: {
-                success: { type: 'boolean' as const },
-                data: {
-                  type: 'object' as const,
-                  properties: {
-                    updated_count: { type: 'integer' as const }
-                  }
-                },
-                message: { type: 'string' as const }
-              }
-            }
+            schema: { $ref: '#/components/schemas/MentorshipNoteResponse' }
           }
         }
       },
+      400: { $ref: '#/components/responses/ValidationError' },
       401: { $ref: '#/components/responses/Unauthorized' },
       403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
       500: { $ref: '#/components/responses/InternalServerError' }
     }
   }),
   requireLogin as any,
   resolveOrganization,
-  requireResolvedOrganizationPermission('MANAGE_MEMBERS'),
-  hrOnboardingController.markOverdueProgress.bind(hrOnboardingController)
+  loggedRateLimit(hrOperationsRateLimit),
+  sanitizeRequest(),
+  validateHRRequest('addMentorshipNote'),
+  hrMentorshipController.addNote.bind(hrMentorshipController)
 );
 
 // HR Performance Review routes
@@ -6682,6 +8454,227 @@ router.get('/:rsi_org_id/documents/with-acknowledgment-status',
   hrDocumentController.listDocumentsWithAcknowledmentStatus.bind(hrDocumentController)
 );
 
+// Resource permission override routes
+
+// List permission overrides
+router.get('/:rsi_org_id/permission-overrides',
+  oapi.validPath({
+    tags: ['Roles'],
+    summary: 'List permission overrides',
+    description: 'List allow/deny overrides on document folders, documents and events, optionally for a single resource',
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization RSI ID'
+      },
+      {
+        name: 'resource_type',
+        in: 'query',
+        schema: { type: 'string' as const, enum: ['document_folder', 'document', 'event'] },
+        description: 'Only return overrides for this kind of resource'
+      },
+      {
+        name: 'resource_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'Folder path, document ID or event ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Permission overrides retrieved successfully',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: {
+                  type: 'array' as const,
+                  items: { $ref: '#/components/schemas/ResourcePermissionOverride' }
+                }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  resourcePermissionController.listOverrides.bind(resourcePermissionController)
+);
+
+// Create or replace a permission override
+router.post('/:rsi_org_id/permission-overrides',
+  oapi.validPath({
+    tags: ['Roles'],
+    summary: 'Set permission override',
+    description: 'Allow or deny a role or individual user access to a specific document folder, document or event. Replaces any existing override for the same resource, subject and action.',
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization RSI ID'
+      }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/CreateResourcePermissionOverrideRequest' }
+        }
+      }
+    },
+    responses: {
+      201: {
+        description: 'Permission override saved successfully',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/ResourcePermissionOverride' }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  resourcePermissionController.createOverride.bind(resourcePermissionController)
+);
+
+// Remove a permission override
+router.delete('/:rsi_org_id/permission-overrides/:overrideId',
+  oapi.validPath({
+    tags: ['Roles'],
+    summary: 'Remove permission override',
+    description: 'Remove an override so the resource falls back to broader rules',
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization RSI ID'
+      },
+      {
+        name: 'overrideId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Override ID'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Permission override removed successfully',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SuccessResponse' }
+          }
+        }
+      },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  requireResolvedOrganizationPermission('MANAGE_ROLES'),
+  resourcePermissionController.deleteOverride.bind(resourcePermissionController)
+);
+
+// Explain a user's effective access to a resource
+router.get('/:rsi_org_id/effective-access',
+  oapi.validPath({
+    tags: ['Roles'],
+    summary: 'Get effective access',
+    description: 'Explain whether a user can view or manage a document folder, document or event, and which rule (ownership, an override or org-wide permissions) decided it. Checking another user requires role management permission.',
+    parameters: [
+      {
+        name: 'rsi_org_id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Organization RSI ID'
+      },
+      {
+        name: 'resource_type',
+        in: 'query',
+        required: true,
+        schema: { type: 'string' as const, enum: ['document_folder', 'document', 'event'] },
+        description: 'Kind of resource'
+      },
+      {
+        name: 'resource_id',
+        in: 'query',
+        required: true,
+        schema: { type: 'string' as const },
+        description: 'Folder path, document ID or event ID'
+      },
+      {
+        name: 'action',
+        in: 'query',
+        schema: { type: 'string' as const, enum: ['view', 'manage'], default: 'view' },
+        description: 'Access level to check'
+      },
+      {
+        name: 'user_id',
+        in: 'query',
+        schema: { type: 'string' as const },
+        description: 'User to check (defaults to the current user)'
+      }
+    ],
+    responses: {
+      200: {
+        description: 'Effective access resolved successfully',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object' as const,
+              properties: {
+                success: { type: 'boolean' as const },
+                data: { $ref: '#/components/schemas/EffectiveAccess' }
+              }
+            }
+          }
+        }
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+      500: { $ref: '#/components/responses/InternalServerError' }
+    }
+  }),
+  requireLogin as any,
+  resolveOrganization,
+  resourcePermissionController.getEffectiveAccess.bind(resourcePermissionController)
+);
+
 // HR Activity Management routes
 
 // Get organization HR activities
@@ -6718,7 +8711,7 @@ router.get('/:rsi_org_id/hr-activities',
           type: 'string' as const,
           description: 'Comma-separated list of activity types to filter by'
         },
-        description: 'Filter by activity types (application_submitted, application_status_changed, onboarding_completed, performance_review_submitted, skill_verified, document_acknowledged)'
+        description: 'Filter by activity types (application_submitted, application_status_changed, onboarding_completed, performance_review_submitted, skill_verified, document_acknowledged, mentor_assigned, mentor_unassigned)'
       },
       {
         name: 'date_from',
@@ -6757,7 +8750,7 @@ router.get('/:rsi_org_id/hr-activities',
                       organization_id: { type: 'string' as const },
                       activity_type: { 
                         type: 'string' as const,
-                        enum: ['application_submitted', 'application_status_changed', 'onboarding_completed', 'performance_review_submitted', 'skill_verified', 'document_acknowledged']
+                        enum: ['application_submitted', 'application_status_changed', 'onboarding_completed', 'performance_review_submitted', 'skill_verified', 'document_acknowledged', 'mentor_assigned', 'mentor_unassigned']
                       },
                       user_id: { type: 'string' as const },
                       user_handle: { type: 'string' as const },
@@ -6908,7 +8901,7 @@ router.get('/hr-activities/:activityId',
                     organization_id: { type: 'string' as const },
                     activity_type: { 
                       type: 'string' as const,
-                      enum: ['application_submitted', 'application_status_changed', 'onboarding_completed', 'performance_review_submitted', 'skill_verified', 'document_acknowledged']
+                      enum: ['application_submitted', 'application_status_changed', 'onboarding_completed', 'performance_review_submitted', 'skill_verified', 'document_acknowledged', 'mentor_assigned', 'mentor_unassigned']
                     },
                     user_id: { type: 'string' as const },
                     user_handle: { type: 'string' as const },
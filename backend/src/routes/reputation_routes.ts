@@ -1,10 +1,13 @@
 import { Router } from 'express';
 import { ReputationController } from '../controllers/reputation_controller';
+import { WatchlistController } from '../controllers/watchlist_controller';
 import { requireLogin, requireRSIVerification } from '../middleware/auth';
+import { requireReputationAdmin, requireReputationModerator } from '../middleware/permissions';
 import { oapi } from './openapi_routes';
 
 const router: Router = Router();
 const reputationController = new ReputationController();
+const watchlistController = new WatchlistController();
 
 // Public routes (no authentication required)
 
@@ -47,7 +50,7 @@ oapi.validPath({
     {
       name: 'sort',
       in: 'query',
-      description: 'Sort order',
+      description: 'Sort order. reputation sorts by computed score, highest first',
       schema: { 
         type: 'string',
         enum: ['recent', 'reputation', 'alphabetical'],
@@ -73,7 +76,7 @@ router.get('/', reputationController.searchPlayers.bind(reputationController));
 oapi.validPath({
   tags: ['Reputation'],
   summary: 'Get player details',
-  description: 'Get detailed information about a specific player including history, reports, comments, and tags',
+  description: 'Get detailed information about a specific player including history, reports, comments, and tags, plus their computed reputation score (0-100, 50 is neutral) with a breakdown of the tags and reports behind it',
   parameters: [
     {
       name: 'spectrumId',
@@ -211,11 +214,60 @@ oapi.validPath({
     },
     '401': { $ref: '#/components/responses/UnauthorizedError' },
     '404': { $ref: '#/components/responses/NotFoundError' },
+    '429': { description: 'Spectrum is rate limiting requests' },
     '500': { $ref: '#/components/responses/InternalServerError' }
   }
 });
 router.put('/players/:spectrumId/sync', requireLogin, reputationController.syncPlayerData.bind(reputationController));
 
+// Watch a player
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Watch a player',
+  description: 'Add the player to your default personal watchlist, creating it if needed',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'spectrumId',
+      in: 'path',
+      required: true,
+      description: 'Player Spectrum ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Watching player' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.put('/players/:spectrumId/watch', requireLogin, reputationController.watchPlayer.bind(reputationController));
+
+// Stop watching a player
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Stop watching a player',
+  description: 'Remove the player from your default personal watchlist',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'spectrumId',
+      in: 'path',
+      required: true,
+      description: 'Player Spectrum ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Stopped watching player' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete('/players/:spectrumId/watch', requireLogin, reputationController.unwatchPlayer.bind(reputationController));
+
 // Create report
 oapi.validPath({
   tags: ['Reputation'],
@@ -819,4 +871,586 @@ router.delete('/organization-reports/:reportId/corroborate', requireRSIVerificat
 router.delete('/alt-account-reports/:reportId/corroborate', requireRSIVerification, reputationController.removeAltAccountReportCorroboration.bind(reputationController));
 router.delete('/affiliated-people-reports/:reportId/corroborate', requireRSIVerification, reputationController.removeAffiliatedPeopleReportCorroboration.bind(reputationController));
 
+// Moderation routes
+
+// Appeal a report
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Appeal a report',
+  description: 'Contest a pending or approved report about your own handle. Each report can be appealed once and goes back to the moderation queue as disputed (requires RSI verification of the reported handle)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'reportType',
+      in: 'path',
+      required: true,
+      description: 'Kind of report',
+      schema: { type: 'string', enum: ['player', 'organization', 'alt_account', 'affiliated_people'] }
+    },
+    {
+      name: 'reportId',
+      in: 'path',
+      required: true,
+      description: 'Report ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['statement'],
+          properties: {
+            statement: { type: 'string', maxLength: 2000, description: 'Why the report is wrong' }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '201': { description: 'Appeal submitted and report marked as disputed' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '409': { description: 'Report is already under appeal, was rejected, or was appealed before' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post('/reports/:reportType/:reportId/appeal', requireRSIVerification, reputationController.appealReport.bind(reputationController));
+
+// Moderation queue
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Get the moderation queue',
+  description: 'Pending and disputed player, organization, alt account and affiliated people reports, sorted by attestation balance (requires reputation moderator role)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'page',
+      in: 'query',
+      description: 'Page number',
+      schema: { type: 'integer', minimum: 1, default: 1 }
+    },
+    {
+      name: 'limit',
+      in: 'query',
+      description: 'Number of reports per page',
+      schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+    },
+    {
+      name: 'status',
+      in: 'query',
+      description: 'Comma-separated statuses to include (pending, disputed)',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'report_types',
+      in: 'query',
+      description: 'Comma-separated report kinds to include (player, organization, alt_account, affiliated_people)',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'sort_order',
+      in: 'query',
+      description: 'desc puts the most supported reports first, asc the most disputed',
+      schema: { type: 'string', enum: ['asc', 'desc'], default: 'desc' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Moderation queue retrieved successfully' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/moderation/queue', requireLogin, requireReputationModerator, reputationController.getModerationQueue.bind(reputationController));
+
+// Approve or reject a report
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Approve or reject a report',
+  description: 'Decide on a pending or disputed report with a written rationale. Moderators cannot decide on reports they filed (requires reputation moderator role)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'reportType',
+      in: 'path',
+      required: true,
+      description: 'Kind of report',
+      schema: { type: 'string', enum: ['player', 'organization', 'alt_account', 'affiliated_people'] }
+    },
+    {
+      name: 'reportId',
+      in: 'path',
+      required: true,
+      description: 'Report ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['decision', 'rationale'],
+          properties: {
+            decision: { type: 'string', enum: ['approve', 'reject'] },
+            rationale: { type: 'string', maxLength: 2000, description: 'Reasoning recorded in the audit trail' }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '200': { description: 'Decision recorded successfully' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '409': { description: 'Report has already been decided' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post('/moderation/reports/:reportType/:reportId/decision', requireLogin, requireReputationModerator, reputationController.moderateReport.bind(reputationController));
+
+// Moderation history
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Get moderation history of a report',
+  description: 'Every decision and appeal on a report, oldest first (requires reputation moderator role)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'reportType',
+      in: 'path',
+      required: true,
+      description: 'Kind of report',
+      schema: { type: 'string', enum: ['player', 'organization', 'alt_account', 'affiliated_people'] }
+    },
+    {
+      name: 'reportId',
+      in: 'path',
+      required: true,
+      description: 'Report ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Moderation history retrieved successfully' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/moderation/reports/:reportType/:reportId/history', requireLogin, requireReputationModerator, reputationController.getModerationHistory.bind(reputationController));
+
+// List moderators
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'List reputation moderators',
+  description: 'Users holding the reputation moderator or admin role (requires reputation admin role)',
+  security: [{ bearerAuth: [] }],
+  responses: {
+    '200': { description: 'Moderators retrieved successfully' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/moderation/moderators', requireLogin, requireReputationAdmin, reputationController.listModerators.bind(reputationController));
+
+// Grant moderator role
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Grant a reputation moderation role',
+  description: 'Make a user a reputation moderator or admin, replacing any role they already hold (requires reputation admin role)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'userId',
+      in: 'path',
+      required: true,
+      description: 'User ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            role: { type: 'string', enum: ['moderator', 'admin'], default: 'moderator' }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '200': { description: 'Role granted successfully' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.put('/moderation/moderators/:userId', requireLogin, requireReputationAdmin, reputationController.grantModeratorRole.bind(reputationController));
+
+// Revoke moderator role
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Revoke a reputation moderation role',
+  description: 'Remove a user\'s moderator or admin role. Admins configured through REPUTATION_ADMIN_USER_IDS cannot be revoked (requires reputation admin role)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'userId',
+      in: 'path',
+      required: true,
+      description: 'User ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Role revoked successfully' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '409': { description: 'Role is configured through the environment' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete('/moderation/moderators/:userId', requireLogin, requireReputationAdmin, reputationController.revokeModeratorRole.bind(reputationController));
+
+// List attestation flags
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'List flagged attestations',
+  description: 'Attestations and corroborations held as possible brigading, with the reasons and evidence for each flag. Held attestations do not count until released (requires reputation moderator role)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'status',
+      in: 'query',
+      description: 'Flag status to list',
+      schema: { type: 'string', enum: ['held', 'released', 'discarded'], default: 'held' }
+    },
+    {
+      name: 'page',
+      in: 'query',
+      description: 'Page number',
+      schema: { type: 'integer', minimum: 1, default: 1 }
+    },
+    {
+      name: 'limit',
+      in: 'query',
+      description: 'Number of flags per page',
+      schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+    }
+  ],
+  responses: {
+    '200': { description: 'Flags retrieved successfully' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/moderation/flags', requireLogin, requireReputationModerator, reputationController.listAttestationFlags.bind(reputationController));
+
+// Review an attestation flag
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Review a flagged attestation',
+  description: 'Release a held attestation so it counts again, or discard it. Moderators cannot review flags on their own attestations (requires reputation moderator role)',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'flagId',
+      in: 'path',
+      required: true,
+      description: 'Flag ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['decision'],
+          properties: {
+            decision: { type: 'string', enum: ['release', 'discard'] },
+            note: { type: 'string', maxLength: 2000 }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '200': { description: 'Flag reviewed successfully' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '409': { description: 'Flag has already been reviewed' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post('/moderation/flags/:flagId/review', requireLogin, requireReputationModerator, reputationController.reviewAttestationFlag.bind(reputationController));
+
+// Watchlists
+
+// List watchlists
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'List watchlists',
+  description: 'Your personal watchlists and the watchlists shared with your organizations',
+  security: [{ bearerAuth: [] }],
+  responses: {
+    '200': { description: 'Watchlists retrieved successfully' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/watchlists', requireLogin, watchlistController.listWatchlists.bind(watchlistController));
+
+// Create watchlist
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Create a watchlist',
+  description: 'Create a personal watchlist, or one shared with an organization (requires manage_watchlists in that organization)',
+  security: [{ bearerAuth: [] }],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', maxLength: 100 },
+            description: { type: 'string', maxLength: 2000 },
+            organization_id: { type: 'string', format: 'uuid' }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '201': { description: 'Watchlist created successfully' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post('/watchlists', requireLogin, watchlistController.createWatchlist.bind(watchlistController));
+
+// Get watchlist
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Get a watchlist',
+  description: 'Get a watchlist and the players and organizations on it',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'watchlistId',
+      in: 'path',
+      required: true,
+      description: 'Watchlist ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Watchlist retrieved successfully' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/watchlists/:watchlistId', requireLogin, watchlistController.getWatchlist.bind(watchlistController));
+
+// Update watchlist
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Update a watchlist',
+  description: 'Rename a watchlist or change its description',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'watchlistId',
+      in: 'path',
+      required: true,
+      description: 'Watchlist ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', maxLength: 100 },
+            description: { type: 'string', maxLength: 2000, nullable: true }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '200': { description: 'Watchlist updated successfully' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.put('/watchlists/:watchlistId', requireLogin, watchlistController.updateWatchlist.bind(watchlistController));
+
+// Delete watchlist
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Delete a watchlist',
+  description: 'Delete a watchlist and everything on it',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'watchlistId',
+      in: 'path',
+      required: true,
+      description: 'Watchlist ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Watchlist deleted successfully' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete('/watchlists/:watchlistId', requireLogin, watchlistController.deleteWatchlist.bind(watchlistController));
+
+// Add watchlist entry
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Add to a watchlist',
+  description: 'Watch a tracked player by Spectrum ID or an organization by its RSI SID',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'watchlistId',
+      in: 'path',
+      required: true,
+      description: 'Watchlist ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['entry_type'],
+          properties: {
+            entry_type: { type: 'string', enum: ['player', 'organization'] },
+            spectrum_id: { type: 'string' },
+            org_spectrum_id: { type: 'string' },
+            org_name: { type: 'string' },
+            note: { type: 'string', maxLength: 2000 }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    '201': { description: 'Added to watchlist' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '409': { description: 'Already on the watchlist' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post('/watchlists/:watchlistId/entries', requireLogin, watchlistController.addEntry.bind(watchlistController));
+
+// Remove watchlist entry
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Remove from a watchlist',
+  description: 'Stop watching a player or organization on this list',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'watchlistId',
+      in: 'path',
+      required: true,
+      description: 'Watchlist ID',
+      schema: { type: 'string', format: 'uuid' }
+    },
+    {
+      name: 'entryId',
+      in: 'path',
+      required: true,
+      description: 'Watchlist entry ID',
+      schema: { type: 'string', format: 'uuid' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Removed from watchlist' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '403': { $ref: '#/components/responses/ForbiddenError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete('/watchlists/:watchlistId/entries/:entryId', requireLogin, watchlistController.removeEntry.bind(watchlistController));
+
+// Export watchlist
+oapi.validPath({
+  tags: ['Reputation'],
+  summary: 'Export a watchlist',
+  description: 'Download the players and organizations on a watchlist as CSV or JSON',
+  security: [{ bearerAuth: [] }],
+  parameters: [
+    {
+      name: 'watchlistId',
+      in: 'path',
+      required: true,
+      description: 'Watchlist ID',
+      schema: { type: 'string', format: 'uuid' }
+    },
+    {
+      name: 'format',
+      in: 'query',
+      description: 'Export format',
+      schema: { type: 'string', enum: ['csv', 'json'], default: 'csv' }
+    }
+  ],
+  responses: {
+    '200': { description: 'Watchlist export file' },
+    '400': { $ref: '#/components/responses/BadRequestError' },
+    '401': { $ref: '#/components/responses/UnauthorizedError' },
+    '404': { $ref: '#/components/responses/NotFoundError' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.get('/watchlists/:watchlistId/export', requireLogin, watchlistController.exportWatchlist.bind(watchlistController));
+
 export default router;
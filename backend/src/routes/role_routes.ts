@@ -301,6 +301,111 @@ router.post(
   roleController.assignRole.bind(roleController) as any
 );
 
+oapi.validPath({
+  tags: ['Roles'],
+  summary: 'Add role to member',
+  description: 'Give an organization member an additional role',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'spectrumId',
+      in: 'path',
+      required: true,
+      description: 'Spectrum organization ID',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'userId',
+      in: 'path',
+      required: true,
+      description: 'User ID',
+      schema: { type: 'string' }
+    }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/AddMemberRoleRequest' }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Role added successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.post(
+  '/organizations/:spectrumId/members/:userId/roles',
+  roleController.addMemberRole.bind(roleController) as any
+);
+
+oapi.validPath({
+  tags: ['Roles'],
+  summary: 'Remove role from member',
+  description: 'Take a single role away from an organization member (members keep at least one role)',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  parameters: [
+    {
+      name: 'spectrumId',
+      in: 'path',
+      required: true,
+      description: 'Spectrum organization ID',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'userId',
+      in: 'path',
+      required: true,
+      description: 'User ID',
+      schema: { type: 'string' }
+    },
+    {
+      name: 'roleId',
+      in: 'path',
+      required: true,
+      description: 'Role ID',
+      schema: { type: 'string' }
+    }
+  ],
+  responses: {
+    '200': {
+      description: 'Role removed successfully',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/SuccessResponse' }
+        }
+      }
+    },
+    '400': { $ref: '#/components/responses/ValidationError' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '403': { $ref: '#/components/responses/Forbidden' },
+    '404': { $ref: '#/components/responses/NotFound' },
+    '500': { $ref: '#/components/responses/InternalServerError' }
+  }
+});
+router.delete(
+  '/organizations/:spectrumId/members/:userId/roles/:roleId',
+  roleController.removeMemberRole.bind(roleController) as any
+);
+
 oapi.validPath({
   tags: ['Roles'],
   summary: 'Remove organization member',
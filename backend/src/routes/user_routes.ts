@@ -226,4 +226,179 @@ router.post(
   userController.toggleOrganizationVisibility.bind(userController)
 );
 
+// Export the user's account data
+oapi.validPath({
+  tags: ['Users'],
+  summary: 'Export account data',
+  description: 'Download everything stored about the authenticated user as a JSON archive: profile, memberships, event registrations, comments, ratings, reputation contributions and HR records',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  responses: {
+    '200': {
+      description: 'Account data archive',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object'
+          }
+        }
+      }
+    },
+    '401': {
+      $ref: '#/components/responses/Unauthorized'
+    },
+    '404': {
+      $ref: '#/components/responses/NotFound'
+    },
+    '500': {
+      $ref: '#/components/responses/InternalServerError'
+    }
+  }
+});
+router.get(
+  '/me/export',
+  requireLogin as any,
+  userController.exportAccountData.bind(userController)
+);
+
+// Get the user's scheduled account deletion
+oapi.validPath({
+  tags: ['Users'],
+  summary: 'Get account deletion status',
+  description: 'Retrieve the pending or blocked deletion request, the organizations the user owns and who could take them over',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  responses: {
+    '200': {
+      description: 'Account deletion status retrieved successfully',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { $ref: '#/components/schemas/AccountDeletionStatus' }
+            },
+            required: ['success', 'data']
+          }
+        }
+      }
+    },
+    '401': {
+      $ref: '#/components/responses/Unauthorized'
+    },
+    '500': {
+      $ref: '#/components/responses/InternalServerError'
+    }
+  }
+});
+router.get(
+  '/me/deletion',
+  requireLogin as any,
+  userController.getAccountDeletion.bind(userController)
+);
+
+// Schedule account deletion
+oapi.validPath({
+  tags: ['Users'],
+  summary: 'Request account deletion',
+  description: 'Schedule the account for deletion after the grace period. Every owned organization must be handed to an active member.',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      'application/json': {
+        schema: {
+          $ref: '#/components/schemas/CreateAccountDeletionRequest'
+        }
+      }
+    }
+  },
+  responses: {
+    '201': {
+      description: 'Account deletion scheduled',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { $ref: '#/components/schemas/AccountDeletionRequest' },
+              message: { type: 'string' }
+            },
+            required: ['success', 'data']
+          }
+        }
+      }
+    },
+    '400': {
+      $ref: '#/components/responses/ValidationError'
+    },
+    '401': {
+      $ref: '#/components/responses/Unauthorized'
+    },
+    '409': {
+      description: 'Deletion is already scheduled or an owned organization has no valid new owner'
+    },
+    '500': {
+      $ref: '#/components/responses/InternalServerError'
+    }
+  }
+});
+router.post(
+  '/me/deletion',
+  requireLogin as any,
+  userController.requestAccountDeletion.bind(userController)
+);
+
+// Cancel a scheduled account deletion
+oapi.validPath({
+  tags: ['Users'],
+  summary: 'Cancel account deletion',
+  description: 'Cancel a pending or blocked account deletion during the grace period',
+  security: [
+    { bearerAuth: [] },
+    { sessionAuth: [] }
+  ],
+  responses: {
+    '200': {
+      description: 'Account deletion cancelled',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: { $ref: '#/components/schemas/AccountDeletionRequest' },
+              message: { type: 'string' }
+            },
+            required: ['success', 'data']
+          }
+        }
+      }
+    },
+    '401': {
+      $ref: '#/components/responses/Unauthorized'
+    },
+    '404': {
+      $ref: '#/components/responses/NotFound'
+    },
+    '500': {
+      $ref: '#/components/responses/InternalServerError'
+    }
+  }
+});
+router.delete(
+  '/me/deletion',
+  requireLogin as any,
+  userController.cancelAccountDeletion.bind(userController)
+);
+
 export default router;
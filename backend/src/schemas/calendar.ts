@@ -0,0 +1,72 @@
+/**
+ * Calendar feed OpenAPI schemas
+ */
+
+export const CalendarFeedTokenSchema = {
+  type: 'object' as const,
+  properties: {
+    token: {
+      type: 'string' as const,
+      description: 'Secret feed token embedded in subscription URLs'
+    },
+    created_at: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'When the token was created'
+    },
+    updated_at: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'When the token was last rotated'
+    },
+    last_used_at: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'When a calendar client last fetched a feed with this token',
+      nullable: true
+    },
+    urls: {
+      type: 'object' as const,
+      properties: {
+        registrations: {
+          type: 'string' as const,
+          format: 'uri' as const,
+          description: 'Feed of the events you registered for'
+        },
+        organizations: {
+          type: 'array' as const,
+          items: {
+            type: 'object' as const,
+            properties: {
+              rsi_org_id: { type: 'string' as const },
+              name: { type: 'string' as const },
+              url: { type: 'string' as const, format: 'uri' as const }
+            },
+            required: ['rsi_org_id', 'name', 'url']
+          },
+          description: 'Member feeds (including private events) for your organizations'
+        }
+      },
+      required: ['registrations', 'organizations']
+    }
+  },
+  required: ['token', 'created_at', 'updated_at', 'urls']
+};
+
+export const CalendarFeedTokenResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      $ref: '#/components/schemas/CalendarFeedToken'
+    },
+    message: {
+      type: 'string' as const,
+      description: 'Result message'
+    }
+  },
+  required: ['success', 'data']
+};
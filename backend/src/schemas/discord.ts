@@ -214,6 +214,42 @@ export const SyncEventsRequestSchema = {
   required: ['organizationId']
 };
 
+// Discord Role Mapping Request Schema
+export const DiscordRoleMappingRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    discord_role_id: {
+      type: 'string' as const,
+      description: 'Discord guild role granted to members with the organization role'
+    }
+  },
+  required: ['discord_role_id']
+};
+
+// Discord Role Sync Settings Request Schema
+export const DiscordRoleSyncSettingsRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    auto_fix: {
+      type: 'boolean' as const,
+      description: 'Let the reconciliation job fix role drift instead of only reporting it'
+    }
+  },
+  required: ['auto_fix']
+};
+
+// Discord Role Reconcile Request Schema
+export const DiscordRoleReconcileRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    fix: {
+      type: 'boolean' as const,
+      description: 'Add and remove Discord roles to match organization roles',
+      default: false
+    }
+  }
+};
+
 // Webhook Response Schema
 export const WebhookResponseSchema = {
   type: 'object' as const,
@@ -79,6 +79,15 @@ export const EventSchema = {
     reviewCount: {
       type: 'integer' as const,
       description: 'Number of reviews for the event'
+    },
+    seriesId: {
+      type: 'string' as const,
+      description: 'Recurring series this event is an occurrence of',
+      nullable: true
+    },
+    isSeriesException: {
+      type: 'boolean' as const,
+      description: 'Whether this occurrence was edited individually and no longer follows the series'
     }
   },
   required: ['id', 'title', 'startTime', 'isPrivate', 'status', 'organizationId', 'organizationName', 'createdAt', 'updatedAt', 'participantCount', 'reviewCount']
@@ -123,9 +132,24 @@ export const CreateEventRequestSchema = {
       minimum: 1,
       nullable: true
     },
+    waitlistConfirmationMinutes: {
+      type: 'integer' as const,
+      description:
+        'Minutes a user promoted from the waitlist has to confirm their seat (0 = no confirmation needed)',
+      minimum: 0,
+      nullable: true
+    },
     isPrivate: {
       type: 'boolean' as const,
       description: 'Whether the event is private'
+    },
+    recurrence: {
+      $ref: '#/components/schemas/EventRecurrenceRule'
+    },
+    slots: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/EventSlotInput' },
+      description: 'Named positions participants can sign up for'
     }
   },
   required: ['title', 'startTime', 'isPrivate']
@@ -170,6 +194,13 @@ export const UpdateEventRequestSchema = {
       minimum: 1,
       nullable: true
     },
+    waitlistConfirmationMinutes: {
+      type: 'integer' as const,
+      description:
+        'Minutes a user promoted from the waitlist has to confirm their seat (0 = no confirmation needed)',
+      minimum: 0,
+      nullable: true
+    },
     isPrivate: {
       type: 'boolean' as const,
       description: 'Whether the event is private'
@@ -178,10 +209,122 @@ export const UpdateEventRequestSchema = {
       type: 'string' as const,
       description: 'Event status',
       enum: ['draft', 'published', 'cancelled', 'completed']
+    },
+    scope: {
+      type: 'string' as const,
+      description: 'For recurring events: which occurrences the update applies to',
+      enum: ['this', 'following', 'all'],
+      default: 'this'
+    },
+    recurrence: {
+      $ref: '#/components/schemas/EventRecurrenceRule'
+    },
+    slots: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/EventSlotInput' },
+      description:
+        'Replaces the event slots. Existing slots are matched by id; participants of removed slots keep a general seat'
     }
   }
 };
 
+// Event Recurrence Rule Schema
+export const EventRecurrenceRuleSchema = {
+  type: 'object' as const,
+  properties: {
+    frequency: {
+      type: 'string' as const,
+      description: 'How often the event repeats',
+      enum: ['weekly', 'biweekly', 'monthly']
+    },
+    by_weekday: {
+      type: 'array' as const,
+      items: { type: 'integer' as const, minimum: 0, maximum: 6 },
+      description: 'Weekdays the event occurs on (0 = Sunday). Defaults to the weekday of the start time'
+    },
+    week_of_month: {
+      type: 'integer' as const,
+      description: 'Monthly only: week of the month (1-4, or -1 for the last week)'
+    },
+    until: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'Last possible occurrence start',
+      nullable: true
+    },
+    count: {
+      type: 'integer' as const,
+      minimum: 1,
+      maximum: 365,
+      description: 'Total number of occurrences',
+      nullable: true
+    },
+    exceptions: {
+      type: 'array' as const,
+      items: { type: 'string' as const, format: 'date-time' as const },
+      description: 'Occurrence start times that are skipped'
+    }
+  },
+  required: ['frequency']
+};
+
+// Event Series Schema
+export const EventSeriesSchema = {
+  type: 'object' as const,
+  properties: {
+    id: {
+      type: 'string' as const,
+      description: 'Event series ID'
+    },
+    recurrence: {
+      $ref: '#/components/schemas/EventRecurrenceRule'
+    },
+    series_start: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'Start time of the first occurrence'
+    },
+    duration_minutes: {
+      type: 'integer' as const,
+      description: 'Duration of each occurrence'
+    },
+    generated_until: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'Occurrences are generated up to this time',
+      nullable: true
+    },
+    is_active: {
+      type: 'boolean' as const,
+      description: 'Whether the series still generates occurrences'
+    }
+  },
+  required: ['id', 'recurrence', 'series_start', 'duration_minutes', 'is_active']
+};
+
+// Event Series Response Schema
+export const EventSeriesResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      type: 'object' as const,
+      properties: {
+        series: { $ref: '#/components/schemas/EventSeries' },
+        occurrences: {
+          type: 'array' as const,
+          items: { $ref: '#/components/schemas/Event' }
+        }
+      },
+      required: ['series', 'occurrences']
+    }
+  },
+  required: ['success', 'data']
+};
+
 // Event Search Request Schema
 export const EventSearchRequestSchema = {
   type: 'object' as const,
@@ -286,6 +429,45 @@ export const EventRegistrationSchema = {
       description: 'User avatar URL',
       nullable: true
     },
+    status: {
+      type: 'string' as const,
+      description: 'Registration status',
+      enum: ['registered', 'confirmed', 'attended', 'no_show', 'cancelled', 'waitlisted']
+    },
+    waitlistPosition: {
+      type: 'integer' as const,
+      description: 'Position in the waitlist (only set while waitlisted)',
+      nullable: true
+    },
+    confirmationExpiresAt: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description:
+        'Deadline to confirm a seat offered from the waitlist (null when no confirmation is pending)',
+      nullable: true
+    },
+    checkedInAt: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'When the participant was marked as attended',
+      nullable: true
+    },
+    slotId: {
+      type: 'string' as const,
+      description: 'Slot claimed by the participant',
+      nullable: true
+    },
+    slotName: {
+      type: 'string' as const,
+      description: 'Name of the claimed slot',
+      nullable: true
+    },
+    attendanceSource: {
+      type: 'string' as const,
+      description: 'How attendance was recorded',
+      enum: ['organizer', 'check_in_code', 'discord'],
+      nullable: true
+    },
     registeredAt: {
       type: 'string' as const,
       format: 'date-time' as const,
@@ -295,6 +477,44 @@ export const EventRegistrationSchema = {
   required: ['id', 'eventId', 'userId', 'username', 'discriminator', 'registeredAt']
 };
 
+// Event Registration Response Schema
+export const EventRegistrationResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      $ref: '#/components/schemas/EventRegistration'
+    }
+  },
+  required: ['success', 'data']
+};
+
+// Event Registration Result Response Schema
+export const EventRegistrationResultResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      $ref: '#/components/schemas/EventRegistration'
+    },
+    waitlisted: {
+      type: 'boolean' as const,
+      description: 'Whether the user was placed on the waitlist'
+    },
+    message: {
+      type: 'string' as const,
+      description: 'Result message'
+    }
+  },
+  required: ['success', 'data', 'waitlisted']
+};
+
 // Event Registrations Response Schema
 export const EventRegistrationsResponseSchema = {
   type: 'object' as const,
@@ -317,6 +537,287 @@ export const EventRegistrationsResponseSchema = {
   required: ['success', 'data', 'pagination']
 };
 
+// Event Registration Request Schema
+export const EventRegistrationRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    slot_id: {
+      type: 'string' as const,
+      description: 'Slot to claim (omit for a general sign-up)',
+      nullable: true
+    }
+  }
+};
+
+// Event Slot Input Schema
+export const EventSlotInputSchema = {
+  type: 'object' as const,
+  properties: {
+    id: {
+      type: 'string' as const,
+      description: 'Existing slot ID (updates only)'
+    },
+    name: {
+      type: 'string' as const,
+      description: 'Position name, e.g. "Hammerhead gunner"',
+      minLength: 1,
+      maxLength: 100
+    },
+    description: {
+      type: 'string' as const,
+      nullable: true
+    },
+    capacity: {
+      type: 'integer' as const,
+      description: 'Number of participants the slot holds',
+      minimum: 1
+    },
+    required_skill_ids: {
+      type: 'array' as const,
+      items: { type: 'string' as const },
+      description: 'HR skills a member must have verified to claim the slot'
+    }
+  },
+  required: ['name', 'capacity']
+};
+
+// Event Slot Schema
+export const EventSlotSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    event_id: { type: 'string' as const },
+    name: { type: 'string' as const },
+    description: { type: 'string' as const, nullable: true },
+    capacity: { type: 'integer' as const },
+    sort_order: { type: 'integer' as const },
+    required_skill_ids: {
+      type: 'array' as const,
+      items: { type: 'string' as const }
+    },
+    required_skills: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          id: { type: 'string' as const },
+          name: { type: 'string' as const }
+        }
+      }
+    },
+    filled: {
+      type: 'integer' as const,
+      description: 'Participants holding a seat in the slot'
+    },
+    waitlisted: {
+      type: 'integer' as const,
+      description: 'Participants waiting for a seat in the slot'
+    },
+    participants: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          user_id: { type: 'string' as const },
+          username: { type: 'string' as const },
+          avatar_url: { type: 'string' as const, nullable: true },
+          status: { type: 'string' as const },
+          waitlist_position: { type: 'integer' as const, nullable: true }
+        }
+      }
+    }
+  },
+  required: ['id', 'event_id', 'name', 'capacity', 'filled', 'participants']
+};
+
+// Event Slots Response Schema
+export const EventSlotsResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/EventSlot' }
+    }
+  },
+  required: ['success', 'data']
+};
+
+// Event Check-In Code Schema
+export const EventCheckInCodeSchema = {
+  type: 'object' as const,
+  properties: {
+    code: {
+      type: 'string' as const,
+      description: 'Code participants enter to check themselves in'
+    },
+    expires_at: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'When the code stops working'
+    }
+  },
+  required: ['code', 'expires_at']
+};
+
+// Event Check-In Code Response Schema
+export const EventCheckInCodeResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      $ref: '#/components/schemas/EventCheckInCode'
+    },
+    message: {
+      type: 'string' as const,
+      description: 'Result message'
+    }
+  },
+  required: ['success', 'data']
+};
+
+// Event Attendance Roster Response Schema
+export const EventAttendanceRosterResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      type: 'object' as const,
+      properties: {
+        roster: {
+          type: 'array' as const,
+          items: {
+            $ref: '#/components/schemas/EventRegistration'
+          },
+          description: 'Participants holding a seat'
+        },
+        summary: {
+          type: 'object' as const,
+          properties: {
+            total_registered: { type: 'integer' as const },
+            attended: { type: 'integer' as const },
+            no_shows: { type: 'integer' as const },
+            unmarked: { type: 'integer' as const }
+          }
+        },
+        check_in_code: {
+          type: 'object' as const,
+          properties: {
+            code: { type: 'string' as const },
+            expires_at: { type: 'string' as const, format: 'date-time' as const }
+          },
+          nullable: true,
+          description: 'Active check-in code (null when check-in is closed)'
+        }
+      },
+      required: ['roster', 'summary', 'check_in_code']
+    }
+  },
+  required: ['success', 'data']
+};
+
+// Mark Attendance Request Schema
+export const MarkAttendanceRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    user_ids: {
+      type: 'array' as const,
+      items: { type: 'string' as const },
+      minItems: 1,
+      description: 'Participants to update'
+    },
+    status: {
+      type: 'string' as const,
+      enum: ['attended', 'no_show'],
+      description: 'Attendance status to record'
+    }
+  },
+  required: ['user_ids', 'status']
+};
+
+// Event Check-In Request Schema
+export const EventCheckInRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    code: {
+      type: 'string' as const,
+      description: 'Check-in code shown by the event organizer',
+      minLength: 1,
+      maxLength: 12
+    }
+  },
+  required: ['code']
+};
+
+// User Attendance History Schema
+export const UserAttendanceHistorySchema = {
+  type: 'object' as const,
+  properties: {
+    user_id: { type: 'string' as const },
+    total_events: {
+      type: 'integer' as const,
+      description: 'Ended events the user held a seat for'
+    },
+    attended: { type: 'integer' as const },
+    no_shows: { type: 'integer' as const },
+    unmarked: {
+      type: 'integer' as const,
+      description: 'Events where attendance was never recorded'
+    },
+    attendance_rate: {
+      type: 'number' as const,
+      description: 'Percentage of recorded events the user attended'
+    },
+    no_show_rate: {
+      type: 'number' as const,
+      description: 'Percentage of recorded events the user missed'
+    },
+    events: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          event_id: { type: 'string' as const },
+          event_title: { type: 'string' as const },
+          start_time: { type: 'string' as const, format: 'date-time' as const },
+          end_time: { type: 'string' as const, format: 'date-time' as const },
+          status: { type: 'string' as const },
+          checked_in_at: {
+            type: 'string' as const,
+            format: 'date-time' as const,
+            nullable: true
+          }
+        }
+      }
+    }
+  },
+  required: ['user_id', 'total_events', 'attended', 'no_shows', 'attendance_rate', 'no_show_rate', 'events']
+};
+
+// User Attendance History Response Schema
+export const UserAttendanceHistoryResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: {
+      type: 'boolean' as const,
+      description: 'Success status'
+    },
+    data: {
+      $ref: '#/components/schemas/UserAttendanceHistory'
+    }
+  },
+  required: ['success', 'data']
+};
+
 // Event Review Schema
 export const EventReviewSchema = {
   type: 'object' as const,
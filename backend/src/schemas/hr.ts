@@ -1,6 +1,7 @@
 /**
  * HR Management System OpenAPI schemas
  */
+import { VALID_LANGUAGES } from '../utils/languageValidation';
 
 // Application Management Schemas
 export const ApplicationSchema = {
@@ -45,10 +46,25 @@ export const ApplicationSchema = {
           type: 'object' as const,
           nullable: true,
           description: 'Custom application fields'
+        },
+        answers: {
+          type: 'object' as const,
+          nullable: true,
+          description: 'Answers keyed by question ID, for applications submitted through a form'
         }
       },
       description: 'Application data'
     },
+    form_id: {
+      type: 'string' as const,
+      nullable: true,
+      description: 'Application form the applicant filled in'
+    },
+    form_version: {
+      type: 'integer' as const,
+      nullable: true,
+      description: 'Version of the form the answers belong to'
+    },
     reviewer_id: {
       type: 'string' as const,
       nullable: true,
@@ -69,6 +85,27 @@ export const ApplicationSchema = {
       nullable: true,
       description: 'Generated invite code for approved applications'
     },
+    vetting_summary: {
+      type: 'object' as const,
+      nullable: true,
+      description: 'Background check on the applicant: reputation, organization history and alt account reports'
+    },
+    vetted_at: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      nullable: true,
+      description: 'When the applicant was last vetted'
+    },
+    stage_id: {
+      type: 'string' as const,
+      nullable: true,
+      description: 'Pipeline stage of the organization the application is in'
+    },
+    assignee_id: {
+      type: 'string' as const,
+      nullable: true,
+      description: 'Recruiter responsible for the application'
+    },
     created_at: {
       type: 'string' as const,
       format: 'date-time' as const,
@@ -107,15 +144,438 @@ export const CreateApplicationRequestSchema = {
         custom_fields: {
           type: 'object' as const,
           description: 'Custom application fields'
+        },
+        answers: {
+          type: 'object' as const,
+          description: 'Answers keyed by question ID; required when submitting through a form'
         }
       },
-      required: ['cover_letter'],
-      description: 'Application data'
+      description: 'Application data. The cover letter is required unless a form is used'
+    },
+    form_id: {
+      type: 'string' as const,
+      format: 'uuid' as const,
+      description: 'Application form being answered'
+    },
+    form_version: {
+      type: 'integer' as const,
+      minimum: 1,
+      description: 'Version of the form the applicant was shown; required with form_id'
     }
   },
   required: ['application_data']
 };
 
+export const ApplicationFormQuestionSchema = {
+  type: 'object' as const,
+  properties: {
+    id: {
+      type: 'string' as const,
+      description: 'Question ID, generated when left out'
+    },
+    type: {
+      type: 'string' as const,
+      enum: ['short_text', 'long_text', 'single_choice', 'multi_choice', 'ship_ownership', 'timezone', 'rsi_handle_confirmation'],
+      description: 'Question type'
+    },
+    label: {
+      type: 'string' as const,
+      maxLength: 200,
+      description: 'Question text'
+    },
+    description: {
+      type: 'string' as const,
+      maxLength: 1000,
+      description: 'Help text shown under the question'
+    },
+    required: {
+      type: 'boolean' as const,
+      description: 'Whether the question must be answered when shown'
+    },
+    options: {
+      type: 'array' as const,
+      items: { type: 'string' as const },
+      description: 'Options for single and multiple choice questions'
+    },
+    max_length: {
+      type: 'integer' as const,
+      description: 'Longest allowed answer for text questions'
+    },
+    visible_when: {
+      type: 'object' as const,
+      properties: {
+        question_id: { type: 'string' as const },
+        values: { type: 'array' as const, items: { type: 'string' as const } }
+      },
+      description: 'Only show the question when an earlier choice question has one of these answers'
+    }
+  },
+  required: ['type', 'label', 'required']
+};
+
+export const ApplicationFormSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    organization_id: { type: 'string' as const },
+    name: { type: 'string' as const },
+    description: { type: 'string' as const, nullable: true },
+    current_version: {
+      type: 'integer' as const,
+      description: 'Version new applications are submitted against'
+    },
+    is_active: { type: 'boolean' as const },
+    questions: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/ApplicationFormQuestion' }
+    },
+    created_at: { type: 'string' as const, format: 'date-time' as const },
+    updated_at: { type: 'string' as const, format: 'date-time' as const }
+  },
+  required: ['id', 'organization_id', 'name', 'current_version', 'is_active', 'questions']
+};
+
+export const ApplicationFormRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string' as const, minLength: 1, maxLength: 100 },
+    description: { type: 'string' as const, maxLength: 1000 },
+    is_active: {
+      type: 'boolean' as const,
+      description: 'Only used when updating a form'
+    },
+    questions: {
+      type: 'array' as const,
+      minItems: 1,
+      maxItems: 50,
+      items: { $ref: '#/components/schemas/ApplicationFormQuestion' },
+      description: 'Changing the questions of an existing form saves a new version'
+    }
+  }
+};
+
+export const ApplicationFormResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: { $ref: '#/components/schemas/ApplicationForm' }
+  },
+  required: ['success', 'data']
+};
+
+export const ApplicationFormListResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/ApplicationForm' }
+    }
+  },
+  required: ['success', 'data']
+};
+
+const InterviewRatingSchema = {
+  type: 'integer' as const,
+  minimum: 1,
+  maximum: 5
+};
+
+export const InterviewNotesSchema = {
+  type: 'object' as const,
+  properties: {
+    summary: { type: 'string' as const, minLength: 1, maxLength: 2000 },
+    strengths: { type: 'string' as const, maxLength: 2000 },
+    concerns: { type: 'string' as const, maxLength: 2000 },
+    ratings: {
+      type: 'object' as const,
+      description: 'Scores from 1 to 5 for the criteria the interviewer rated',
+      properties: {
+        communication: InterviewRatingSchema,
+        experience: InterviewRatingSchema,
+        teamwork: InterviewRatingSchema,
+        availability: InterviewRatingSchema
+      }
+    }
+  },
+  required: ['summary']
+};
+
+export const InterviewSlotSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    organization_id: { type: 'string' as const },
+    interviewer_id: { type: 'string' as const },
+    interviewer_rsi_handle: { type: 'string' as const },
+    start_time: { type: 'string' as const, format: 'date-time' as const },
+    end_time: { type: 'string' as const, format: 'date-time' as const },
+    status: {
+      type: 'string' as const,
+      enum: ['open', 'booked', 'completed', 'cancelled']
+    },
+    application_id: { type: 'string' as const, nullable: true },
+    applicant_rsi_handle: { type: 'string' as const, nullable: true },
+    booked_at: { type: 'string' as const, format: 'date-time' as const, nullable: true },
+    create_discord_event: {
+      type: 'boolean' as const,
+      description: 'Whether booking the slot creates a private Discord voice channel event'
+    },
+    discord_event_id: { type: 'string' as const, nullable: true },
+    notes: {
+      allOf: [{ $ref: '#/components/schemas/InterviewNotes' }],
+      nullable: true,
+      description: 'Only shown to members who manage applications'
+    },
+    recommendation: {
+      type: 'string' as const,
+      enum: ['strong_yes', 'yes', 'no', 'strong_no'],
+      nullable: true,
+      description: 'Only shown to members who manage applications'
+    },
+    completed_at: { type: 'string' as const, format: 'date-time' as const, nullable: true },
+    created_at: { type: 'string' as const, format: 'date-time' as const },
+    updated_at: { type: 'string' as const, format: 'date-time' as const }
+  },
+  required: ['id', 'organization_id', 'interviewer_id', 'start_time', 'end_time', 'status']
+};
+
+export const InterviewSlotRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    start_time: { type: 'string' as const, format: 'date-time' as const },
+    end_time: { type: 'string' as const, format: 'date-time' as const },
+    create_discord_event: {
+      type: 'boolean' as const,
+      description: 'Create a private Discord voice channel event once the slot is booked'
+    }
+  },
+  required: ['start_time', 'end_time']
+};
+
+export const BookInterviewSlotRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    slot_id: { type: 'string' as const, format: 'uuid' as const }
+  },
+  required: ['slot_id']
+};
+
+export const InterviewNotesRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    notes: { $ref: '#/components/schemas/InterviewNotes' },
+    recommendation: {
+      type: 'string' as const,
+      enum: ['strong_yes', 'yes', 'no', 'strong_no']
+    }
+  },
+  required: ['notes', 'recommendation']
+};
+
+export const InterviewSlotResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      allOf: [{ $ref: '#/components/schemas/InterviewSlot' }],
+      nullable: true
+    }
+  },
+  required: ['success', 'data']
+};
+
+export const InterviewSlotListResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/InterviewSlot' }
+    }
+  },
+  required: ['success', 'data']
+};
+
+// Recruitment Pipeline Schemas
+const APPLICATION_STATUS_ENUM = ['pending', 'under_review', 'interview_scheduled', 'approved', 'rejected'];
+
+const PIPELINE_RULE_CONDITIONS = {
+  type: 'object' as const,
+  properties: {
+    status: { type: 'string' as const, enum: APPLICATION_STATUS_ENUM },
+    stage_id: { type: 'string' as const },
+    idle_days: {
+      type: 'integer' as const,
+      description: 'Idle rules: days since the application last changed'
+    }
+  }
+};
+
+const PIPELINE_RULE_ACTIONS = {
+  type: 'array' as const,
+  items: {
+    type: 'object' as const,
+    properties: {
+      type: {
+        type: 'string' as const,
+        enum: [
+          'reject',
+          'move_to_stage',
+          'assign_round_robin',
+          'generate_invite_code',
+          'assign_role',
+          'start_onboarding'
+        ]
+      },
+      reason: { type: 'string' as const },
+      stage_id: { type: 'string' as const },
+      recruiter_ids: { type: 'array' as const, items: { type: 'string' as const } },
+      role_id: { type: 'string' as const },
+      template_id: { type: 'string' as const }
+    },
+    required: ['type']
+  },
+  description: 'Run in order. Invite code, role and onboarding actions need the rule to be limited to approved applications.'
+};
+
+export const PipelineStageSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    organization_id: { type: 'string' as const },
+    name: { type: 'string' as const },
+    description: { type: 'string' as const, nullable: true },
+    status: {
+      type: 'string' as const,
+      enum: APPLICATION_STATUS_ENUM,
+      description: 'Application status of applications in this stage'
+    },
+    position: { type: 'integer' as const },
+    created_at: { type: 'string' as const, format: 'date-time' as const },
+    updated_at: { type: 'string' as const, format: 'date-time' as const }
+  },
+  required: ['id', 'organization_id', 'name', 'status', 'position']
+};
+
+export const PipelineRuleSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    organization_id: { type: 'string' as const },
+    name: { type: 'string' as const },
+    trigger: {
+      type: 'string' as const,
+      enum: ['application_submitted', 'status_changed', 'stage_entered', 'idle']
+    },
+    conditions: PIPELINE_RULE_CONDITIONS,
+    actions: PIPELINE_RULE_ACTIONS,
+    is_active: { type: 'boolean' as const },
+    created_by: { type: 'string' as const, nullable: true },
+    created_at: { type: 'string' as const, format: 'date-time' as const },
+    updated_at: { type: 'string' as const, format: 'date-time' as const }
+  },
+  required: ['id', 'organization_id', 'name', 'trigger', 'conditions', 'actions', 'is_active']
+};
+
+export const PipelineStagesRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    stages: {
+      type: 'array' as const,
+      maxItems: 30,
+      items: {
+        type: 'object' as const,
+        properties: {
+          id: {
+            type: 'string' as const,
+            format: 'uuid' as const,
+            description: 'Existing stage to keep; stages left out are removed'
+          },
+          name: { type: 'string' as const, minLength: 1, maxLength: 100 },
+          description: { type: 'string' as const, maxLength: 500 },
+          status: { type: 'string' as const, enum: APPLICATION_STATUS_ENUM }
+        },
+        required: ['name', 'status']
+      }
+    }
+  },
+  required: ['stages']
+};
+
+export const PipelineRuleRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string' as const, minLength: 1, maxLength: 100 },
+    trigger: {
+      type: 'string' as const,
+      enum: ['application_submitted', 'status_changed', 'stage_entered', 'idle']
+    },
+    conditions: PIPELINE_RULE_CONDITIONS,
+    actions: PIPELINE_RULE_ACTIONS,
+    is_active: { type: 'boolean' as const }
+  },
+  required: ['name', 'trigger', 'actions']
+};
+
+export const MoveApplicationStageRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    stage_id: { type: 'string' as const, format: 'uuid' as const },
+    notes: { type: 'string' as const, maxLength: 1000 },
+    rejection_reason: {
+      type: 'string' as const,
+      maxLength: 500,
+      description: 'Required when the stage rejects the application'
+    }
+  },
+  required: ['stage_id']
+};
+
+export const PipelineResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'object' as const,
+      properties: {
+        stages: {
+          type: 'array' as const,
+          items: { $ref: '#/components/schemas/PipelineStage' }
+        },
+        rules: {
+          type: 'array' as const,
+          items: { $ref: '#/components/schemas/PipelineRule' }
+        }
+      }
+    }
+  },
+  required: ['success', 'data']
+};
+
+export const PipelineStageListResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/PipelineStage' }
+    },
+    message: { type: 'string' as const }
+  },
+  required: ['success', 'data']
+};
+
+export const PipelineRuleResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: { $ref: '#/components/schemas/PipelineRule' },
+    message: { type: 'string' as const }
+  },
+  required: ['success', 'data']
+};
+
 export const UpdateApplicationStatusRequestSchema = {
   type: 'object' as const,
   properties: {
@@ -152,6 +612,34 @@ export const ApplicationListResponseSchema = {
 };
 
 // Onboarding Management Schemas
+export const OnboardingTaskTriggerSchema = {
+  type: 'object' as const,
+  description: 'Action elsewhere in the organization that completes the task on its own',
+  properties: {
+    type: {
+      type: 'string' as const,
+      enum: ['document_acknowledged', 'training_attended', 'skill_verified'],
+      description: 'What completes the task'
+    },
+    document_id: {
+      type: 'string' as const,
+      format: 'uuid' as const,
+      description: 'HR document the member acknowledges (document_acknowledged)'
+    },
+    training_type: {
+      type: 'string' as const,
+      enum: ['onboarding', 'skill_development', 'leadership', 'compliance'],
+      description: 'Training type the member attends; any training event when omitted (training_attended)'
+    },
+    skill_id: {
+      type: 'string' as const,
+      format: 'uuid' as const,
+      description: 'Skill the member gets verified (skill_verified)'
+    }
+  },
+  required: ['type']
+};
+
 export const OnboardingTaskSchema = {
   type: 'object' as const,
   properties: {
@@ -178,11 +666,62 @@ export const OnboardingTaskSchema = {
     order_index: {
       type: 'integer' as const,
       description: 'Task order'
-    }
+    },
+    depends_on: {
+      type: 'array' as const,
+      items: { type: 'string' as const },
+      description: 'Tasks that have to be completed before this one unlocks'
+    },
+    due_offset_days: {
+      type: 'integer' as const,
+      minimum: 0,
+      maximum: 365,
+      description: 'Days after onboarding starts that the task is due'
+    },
+    assignee_type: {
+      type: 'string' as const,
+      enum: ['member', 'user', 'role'],
+      description: 'Who completes the task; the new member when omitted'
+    },
+    assignee_id: {
+      type: 'string' as const,
+      format: 'uuid' as const,
+      description: 'Assigned user or role ID'
+    },
+    completion_trigger: { $ref: '#/components/schemas/OnboardingTaskTrigger' }
   },
   required: ['id', 'title', 'description', 'required', 'estimated_hours', 'order_index']
 };
 
+export const OnboardingTaskStatusSchema = {
+  type: 'object' as const,
+  properties: {
+    task_id: { type: 'string' as const },
+    state: {
+      type: 'string' as const,
+      enum: ['completed', 'available', 'blocked'],
+      description: 'Blocked tasks wait on unfinished prerequisites'
+    },
+    blocked_by: {
+      type: 'array' as const,
+      items: { type: 'string' as const },
+      description: 'Unfinished prerequisite task IDs'
+    },
+    due_date: { type: 'string' as const, format: 'date-time' as const, nullable: true },
+    is_overdue: { type: 'boolean' as const },
+    completion: {
+      type: 'object' as const,
+      nullable: true,
+      properties: {
+        completed_by: { type: 'string' as const, nullable: true },
+        completed_at: { type: 'string' as const, format: 'date-time' as const },
+        source: { type: 'string' as const, enum: ['manual', 'trigger'] }
+      }
+    }
+  },
+  required: ['task_id', 'state', 'blocked_by', 'due_date', 'is_overdue', 'completion']
+};
+
 export const OnboardingTemplateSchema = {
   type: 'object' as const,
   properties: {
@@ -254,6 +793,18 @@ export const OnboardingProgressSchema = {
       items: { type: 'string' as const },
       description: 'Completed task IDs'
     },
+    task_completions: {
+      type: 'object' as const,
+      additionalProperties: {
+        type: 'object' as const,
+        properties: {
+          completed_by: { type: 'string' as const, nullable: true },
+          completed_at: { type: 'string' as const, format: 'date-time' as const },
+          source: { type: 'string' as const, enum: ['manual', 'trigger'] }
+        }
+      },
+      description: 'Who completed each task and how, keyed by task ID'
+    },
     completion_percentage: {
       type: 'number' as const,
       minimum: 0,
@@ -285,6 +836,282 @@ export const OnboardingProgressSchema = {
   required: ['id', 'organization_id', 'user_id', 'template_id', 'status', 'completed_tasks', 'completion_percentage', 'started_at', 'created_at', 'updated_at']
 };
 
+// Mentorship Schemas
+export const MentorProfileSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    organization_id: { type: 'string' as const },
+    user_id: { type: 'string' as const },
+    rsi_handle: { type: 'string' as const },
+    is_mentor: {
+      type: 'boolean' as const,
+      description: 'Whether the member is available as a mentor'
+    },
+    max_mentees: {
+      type: 'integer' as const,
+      minimum: 0,
+      description: 'Most mentees the member takes on at once'
+    },
+    active_mentees: {
+      type: 'integer' as const,
+      description: 'Mentees the member has now, in mentor lists'
+    },
+    timezone: {
+      type: 'string' as const,
+      nullable: true,
+      description: 'IANA timezone, e.g. Europe/Berlin'
+    },
+    languages: {
+      type: 'array' as const,
+      items: { type: 'string' as const }
+    },
+    created_at: { type: 'string' as const, format: 'date-time' as const },
+    updated_at: { type: 'string' as const, format: 'date-time' as const }
+  },
+  required: ['id', 'organization_id', 'user_id', 'is_mentor', 'max_mentees', 'languages']
+};
+
+export const MentorProfileRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    is_mentor: {
+      type: 'boolean' as const,
+      description: 'Only members who manage members can change this'
+    },
+    max_mentees: {
+      type: 'integer' as const,
+      minimum: 0,
+      maximum: 20,
+      description: 'Only members who manage members can change this'
+    },
+    timezone: {
+      type: 'string' as const,
+      maxLength: 100,
+      description: 'IANA timezone; an empty string clears it'
+    },
+    languages: {
+      type: 'array' as const,
+      items: { type: 'string' as const, enum: [...VALID_LANGUAGES] },
+      maxItems: 10,
+      uniqueItems: true
+    }
+  }
+};
+
+export const MentorMatchSchema = {
+  type: 'object' as const,
+  properties: {
+    mentor: { $ref: '#/components/schemas/MentorProfile' },
+    score: {
+      type: 'number' as const,
+      minimum: 0,
+      maximum: 1,
+      description: 'Weighted match on skills, timezone and language'
+    },
+    shared_skill_ids: {
+      type: 'array' as const,
+      items: { type: 'string' as const },
+      description: "Skills of the member the mentor has verified"
+    },
+    timezone_difference_hours: { type: 'number' as const, nullable: true },
+    shared_languages: {
+      type: 'array' as const,
+      items: { type: 'string' as const }
+    }
+  },
+  required: ['mentor', 'score', 'shared_skill_ids', 'timezone_difference_hours', 'shared_languages']
+};
+
+export const MentorshipCheckInSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    mentorship_id: { type: 'string' as const },
+    scheduled_for: { type: 'string' as const, format: 'date-time' as const },
+    completed_at: { type: 'string' as const, format: 'date-time' as const, nullable: true },
+    completed_by: { type: 'string' as const, nullable: true },
+    reminder_sent_at: { type: 'string' as const, format: 'date-time' as const, nullable: true }
+  },
+  required: ['id', 'mentorship_id', 'scheduled_for']
+};
+
+export const MentorshipNoteSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    mentorship_id: { type: 'string' as const },
+    author_id: { type: 'string' as const },
+    author_rsi_handle: { type: 'string' as const },
+    check_in_id: { type: 'string' as const, nullable: true },
+    content: { type: 'string' as const },
+    created_at: { type: 'string' as const, format: 'date-time' as const }
+  },
+  required: ['id', 'mentorship_id', 'author_id', 'content', 'created_at']
+};
+
+export const MentorshipSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const },
+    organization_id: { type: 'string' as const },
+    progress_id: {
+      type: 'string' as const,
+      description: 'Onboarding progress of the mentee'
+    },
+    mentee_id: { type: 'string' as const },
+    mentee_rsi_handle: { type: 'string' as const },
+    mentor_id: { type: 'string' as const },
+    mentor_rsi_handle: { type: 'string' as const },
+    status: { type: 'string' as const, enum: ['active', 'ended'] },
+    assignment_method: { type: 'string' as const, enum: ['manual', 'matched'] },
+    match_score: { type: 'number' as const, nullable: true },
+    check_in_interval_days: { type: 'integer' as const },
+    assigned_by: { type: 'string' as const, nullable: true },
+    started_at: { type: 'string' as const, format: 'date-time' as const },
+    ended_at: { type: 'string' as const, format: 'date-time' as const, nullable: true },
+    end_reason: { type: 'string' as const, nullable: true },
+    next_check_in_at: { type: 'string' as const, format: 'date-time' as const, nullable: true },
+    check_ins: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/MentorshipCheckIn' },
+      description: 'Only included for a single mentorship'
+    },
+    notes: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/MentorshipNote' },
+      description: 'Only included for a single mentorship, for its mentor and members who manage members'
+    },
+    created_at: { type: 'string' as const, format: 'date-time' as const },
+    updated_at: { type: 'string' as const, format: 'date-time' as const }
+  },
+  required: ['id', 'organization_id', 'progress_id', 'mentee_id', 'mentor_id', 'status', 'assignment_method', 'check_in_interval_days', 'started_at']
+};
+
+export const AssignMentorRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    mentor_id: {
+      type: 'string' as const,
+      format: 'uuid' as const,
+      description: 'Leave out to assign the best match with room for another mentee'
+    },
+    check_in_interval_days: { type: 'integer' as const, minimum: 1, maximum: 90, default: 14 }
+  }
+};
+
+export const EndMentorshipRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    reason: { type: 'string' as const, maxLength: 500 }
+  }
+};
+
+export const CompleteMentorshipCheckInRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    notes: {
+      type: 'string' as const,
+      maxLength: 5000,
+      description: 'Notes taken during the check-in'
+    }
+  }
+};
+
+export const MentorshipNoteRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    content: { type: 'string' as const, minLength: 1, maxLength: 5000 }
+  },
+  required: ['content']
+};
+
+export const MentorProfileResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      allOf: [{ $ref: '#/components/schemas/MentorProfile' }],
+      nullable: true
+    }
+  },
+  required: ['success', 'data']
+};
+
+export const MentorListResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/MentorProfile' }
+    }
+  },
+  required: ['success', 'data']
+};
+
+export const MentorMatchListResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/MentorMatch' }
+    }
+  },
+  required: ['success', 'data']
+};
+
+export const MentorshipResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: { $ref: '#/components/schemas/Mentorship' }
+  },
+  required: ['success', 'data']
+};
+
+export const MentorshipListResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/Mentorship' }
+    }
+  },
+  required: ['success', 'data']
+};
+
+export const MentorshipCheckInResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: {
+      type: 'object' as const,
+      properties: {
+        check_in: { $ref: '#/components/schemas/MentorshipCheckIn' },
+        next_check_in: { $ref: '#/components/schemas/MentorshipCheckIn' },
+        note: {
+          allOf: [{ $ref: '#/components/schemas/MentorshipNote' }],
+          nullable: true
+        }
+      },
+      required: ['check_in', 'next_check_in', 'note']
+    }
+  },
+  required: ['success', 'data']
+};
+
+export const MentorshipNoteResponseSchema = {
+  type: 'object' as const,
+  properties: {
+    success: { type: 'boolean' as const },
+    data: { $ref: '#/components/schemas/MentorshipNote' }
+  },
+  required: ['success', 'data']
+};
+
 export const CreateOnboardingTemplateRequestSchema = {
   type: 'object' as const,
   properties: {
@@ -299,11 +1126,17 @@ export const CreateOnboardingTemplateRequestSchema = {
       items: {
         type: 'object' as const,
         properties: {
+          id: { type: 'string' as const, minLength: 1, maxLength: 100 },
           title: { type: 'string' as const, minLength: 1, maxLength: 200 },
           description: { type: 'string' as const, maxLength: 1000 },
           required: { type: 'boolean' as const },
           estimated_hours: { type: 'number' as const, minimum: 0 },
-          order_index: { type: 'integer' as const, minimum: 0 }
+          order_index: { type: 'integer' as const, minimum: 0 },
+          depends_on: { type: 'array' as const, items: { type: 'string' as const }, maxItems: 50 },
+          due_offset_days: { type: 'integer' as const, minimum: 0, maximum: 365 },
+          assignee_type: { type: 'string' as const, enum: ['member', 'user', 'role'] },
+          assignee_id: { type: 'string' as const, format: 'uuid' as const },
+          completion_trigger: { $ref: '#/components/schemas/OnboardingTaskTrigger' }
         },
         required: ['title', 'description', 'required', 'estimated_hours', 'order_index']
       },
@@ -834,6 +1667,32 @@ export const HRAnalyticsSchema = {
             }
           },
           required: ['member_turnover_rate', 'average_tenure_days', 'exit_reasons']
+        },
+        mentorship: {
+          type: 'object' as const,
+          properties: {
+            active_mentorships: { type: 'integer' as const },
+            available_mentors: { type: 'integer' as const },
+            mentors_at_capacity: { type: 'integer' as const },
+            average_mentees_per_mentor: { type: 'number' as const },
+            members_without_mentor: { type: 'integer' as const },
+            check_in_completion_rate: { type: 'number' as const },
+            overdue_check_ins: { type: 'integer' as const },
+            load_by_mentor: {
+              type: 'array' as const,
+              items: {
+                type: 'object' as const,
+                properties: {
+                  mentor_id: { type: 'string' as const },
+                  mentor_handle: { type: 'string' as const },
+                  active_mentees: { type: 'integer' as const },
+                  max_mentees: { type: 'integer' as const }
+                },
+                required: ['mentor_id', 'mentor_handle', 'active_mentees', 'max_mentees']
+              }
+            }
+          },
+          required: ['active_mentorships', 'available_mentors', 'mentors_at_capacity', 'average_mentees_per_mentor', 'members_without_mentor', 'check_in_completion_rate', 'overdue_check_ins', 'load_by_mentor']
         }
       },
       required: ['applications', 'onboarding', 'performance', 'skills', 'retention']
@@ -81,39 +81,91 @@ export const NotificationStatsSchema = {
 };
 
 // Notification Preferences Schema
+const NotificationSettingsProperties = {
+  timezone: {
+    type: 'string' as const,
+    description: 'IANA timezone used to evaluate quiet hours'
+  },
+  quiet_hours_enabled: {
+    type: 'boolean' as const,
+    description: 'Skip Discord DMs during quiet hours; they are not sent afterwards'
+  },
+  quiet_hours_start: {
+    type: 'string' as const,
+    pattern: '^([01]\\d|2[0-3]):[0-5]\\d$',
+    description: 'Local start time (HH:MM)'
+  },
+  quiet_hours_end: {
+    type: 'string' as const,
+    pattern: '^([01]\\d|2[0-3]):[0-5]\\d$',
+    description: 'Local end time (HH:MM); before the start time when the window spans midnight'
+  },
+  digest_frequency: {
+    type: 'string' as const,
+    enum: ['off', 'daily', 'weekly'],
+    description: 'How often unread notifications are summarized in a digest, delivered in-app and by Discord DM at 08:00 local time (weekly on Mondays)'
+  }
+};
+
 export const NotificationPreferencesSchema = {
   type: 'object' as const,
   properties: {
-    event_reminder: {
-      type: 'boolean' as const,
-      description: 'Enable event reminder notifications'
-    },
-    event_update: {
-      type: 'boolean' as const,
-      description: 'Enable event update notifications'
+    channels: {
+      type: 'array' as const,
+      items: {
+      type: 'string' as const,
+      enum: ['in_app', 'discord_dm', 'email_digest'],
+      description: 'Delivery channel'
+    }
     },
-    event_cancelled: {
-      type: 'boolean' as const,
-      description: 'Enable event cancellation notifications'
+    defaults: {
+      type: 'object' as const,
+      additionalProperties: { type: 'boolean' as const },
+      description: 'Delivery per channel when no preference is set'
     },
-    organization_invite: {
-      type: 'boolean' as const,
-      description: 'Enable organization invite notifications'
+    types: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          entity_type: { type: 'integer' as const },
+          label: { type: 'string' as const },
+          category: { type: 'string' as const },
+          locked_channels: {
+            type: 'array' as const,
+            items: { type: 'string' as const },
+            description: 'Channels that always deliver this type'
+          }
+        }
+      }
     },
-    role_assigned: {
-      type: 'boolean' as const,
-      description: 'Enable role assignment notifications'
+    preferences: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          rsi_org_id: {
+            type: 'string' as const,
+            nullable: true,
+            description: 'Spectrum ID of the organization the override applies to, null for the global preference'
+          },
+          entity_type: { type: 'integer' as const },
+          channel: {
+      type: 'string' as const,
+      enum: ['in_app', 'discord_dm', 'email_digest'],
+      description: 'Delivery channel'
     },
-    comment_reply: {
-      type: 'boolean' as const,
-      description: 'Enable comment reply notifications'
+          enabled: { type: 'boolean' as const }
+        }
+      },
+      description: 'Explicit choices; anything missing falls back to the defaults'
     },
-    system: {
-      type: 'boolean' as const,
-      description: 'Enable system notifications'
+    settings: {
+      type: 'object' as const,
+      properties: NotificationSettingsProperties
     }
   },
-  required: ['event_reminder', 'event_update', 'event_cancelled', 'organization_invite', 'role_assigned', 'comment_reply', 'system']
+  required: ['channels', 'defaults', 'types', 'preferences', 'settings']
 };
 
 // Create Notification Request Schema
@@ -181,33 +233,34 @@ export const MarkReadRequestSchema = {
 export const UpdatePreferencesRequestSchema = {
   type: 'object' as const,
   properties: {
-    event_reminder: {
-      type: 'boolean' as const,
-      description: 'Enable event reminder notifications'
-    },
-    event_update: {
-      type: 'boolean' as const,
-      description: 'Enable event update notifications'
-    },
-    event_cancelled: {
-      type: 'boolean' as const,
-      description: 'Enable event cancellation notifications'
-    },
-    organization_invite: {
-      type: 'boolean' as const,
-      description: 'Enable organization invite notifications'
-    },
-    role_assigned: {
-      type: 'boolean' as const,
-      description: 'Enable role assignment notifications'
+    preferences: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          rsi_org_id: {
+            type: 'string' as const,
+            nullable: true,
+            description: 'Spectrum ID of an organization to override the preference for'
+          },
+          entity_type: { type: 'integer' as const },
+          channel: {
+      type: 'string' as const,
+      enum: ['in_app', 'discord_dm', 'email_digest'],
+      description: 'Delivery channel'
     },
-    comment_reply: {
-      type: 'boolean' as const,
-      description: 'Enable comment reply notifications'
+          enabled: {
+            type: 'boolean' as const,
+            nullable: true,
+            description: 'null clears the choice so the global preference or default applies'
+          }
+        },
+        required: ['entity_type', 'channel', 'enabled']
+      }
     },
-    system: {
-      type: 'boolean' as const,
-      description: 'Enable system notifications'
+    settings: {
+      type: 'object' as const,
+      properties: NotificationSettingsProperties
     }
   }
 };
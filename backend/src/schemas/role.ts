@@ -188,6 +188,132 @@ export const AssignRoleRequestSchema = {
   required: ['userId']
 };
 
+// Add Member Role Request Schema
+export const AddMemberRoleRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    roleId: {
+      type: 'string' as const,
+      description: 'Role ID to add alongside the member\'s existing roles'
+    }
+  },
+  required: ['roleId']
+};
+
+// Resource Permission Override Schema
+export const ResourcePermissionOverrideSchema = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string' as const, format: 'uuid' },
+    organization_id: { type: 'string' as const, format: 'uuid' },
+    resource_type: {
+      type: 'string' as const,
+      enum: ['document_folder', 'document', 'event'],
+      description: 'Kind of resource the override applies to'
+    },
+    resource_id: {
+      type: 'string' as const,
+      description: 'Folder path for document folders, otherwise the document or event ID'
+    },
+    subject_type: {
+      type: 'string' as const,
+      enum: ['role', 'user']
+    },
+    subject_id: {
+      type: 'string' as const,
+      format: 'uuid',
+      description: 'Role ID or user ID the override targets'
+    },
+    action: {
+      type: 'string' as const,
+      enum: ['view', 'manage']
+    },
+    effect: {
+      type: 'string' as const,
+      enum: ['allow', 'deny']
+    },
+    created_by: { type: 'string' as const, format: 'uuid' },
+    created_at: { type: 'string' as const, format: 'date-time' },
+    updated_at: { type: 'string' as const, format: 'date-time' }
+  },
+  required: ['id', 'organization_id', 'resource_type', 'resource_id', 'subject_type', 'subject_id', 'action', 'effect']
+};
+
+// Create Resource Permission Override Request Schema
+export const CreateResourcePermissionOverrideRequestSchema = {
+  type: 'object' as const,
+  properties: {
+    resource_type: {
+      type: 'string' as const,
+      enum: ['document_folder', 'document', 'event']
+    },
+    resource_id: {
+      type: 'string' as const,
+      description: 'Folder path (e.g. /policies) for document folders, otherwise the document or event ID'
+    },
+    subject_type: {
+      type: 'string' as const,
+      enum: ['role', 'user']
+    },
+    subject_id: {
+      type: 'string' as const,
+      format: 'uuid'
+    },
+    action: {
+      type: 'string' as const,
+      enum: ['view', 'manage'],
+      default: 'view'
+    },
+    effect: {
+      type: 'string' as const,
+      enum: ['allow', 'deny']
+    }
+  },
+  required: ['resource_type', 'resource_id', 'subject_type', 'subject_id', 'effect']
+};
+
+// Effective Access Schema
+export const EffectiveAccessSchema = {
+  type: 'object' as const,
+  properties: {
+    user_id: { type: 'string' as const, format: 'uuid' },
+    resource_type: {
+      type: 'string' as const,
+      enum: ['document_folder', 'document', 'event']
+    },
+    resource_id: { type: 'string' as const },
+    action: {
+      type: 'string' as const,
+      enum: ['view', 'manage']
+    },
+    allowed: { type: 'boolean' as const },
+    reason: {
+      type: 'string' as const,
+      description: 'Why access was granted or refused'
+    },
+    source: {
+      type: 'string' as const,
+      enum: ['owner', 'creator', 'override', 'default'],
+      description: 'Which rule decided the outcome'
+    },
+    override: { $ref: '#/components/schemas/ResourcePermissionOverride' },
+    default_access: {
+      type: 'object' as const,
+      description: 'Outcome from org-wide permissions before overrides were applied',
+      properties: {
+        allowed: { type: 'boolean' as const },
+        reason: { type: 'string' as const }
+      }
+    },
+    applicable_overrides: {
+      type: 'array' as const,
+      description: 'Overrides targeting this user or their roles, most specific first',
+      items: { $ref: '#/components/schemas/ResourcePermissionOverride' }
+    }
+  },
+  required: ['user_id', 'resource_type', 'resource_id', 'action', 'allowed', 'reason', 'source']
+};
+
 // Permissions Response Schema
 export const PermissionsResponseSchema = {
   type: 'object' as const,
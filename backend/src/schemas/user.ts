@@ -179,3 +179,131 @@ export const UserSuccessResponseSchema=  {
   },
   required: ['success', 'message']
 };
+
+// Organization Transfer Schema
+export const OrganizationTransferSchema=  {
+  type: 'object' as const,
+  properties: {
+    organization_id: {
+      type: 'string' as const,
+      format: 'uuid' as const,
+      description: 'Organization the user owns'
+    },
+    new_owner_id: {
+      type: 'string' as const,
+      format: 'uuid' as const,
+      description: 'Active member who takes over the organization'
+    }
+  },
+  required: ['organization_id', 'new_owner_id']
+};
+
+// Account Deletion Request Schema
+export const AccountDeletionRequestSchema=  {
+  type: 'object' as const,
+  properties: {
+    id: {
+      type: 'string' as const,
+      format: 'uuid' as const
+    },
+    user_id: {
+      type: 'string' as const,
+      format: 'uuid' as const
+    },
+    status: {
+      type: 'string' as const,
+      enum: ['pending', 'cancelled', 'completed', 'blocked'],
+      description: 'Blocked requests could not hand over an owned organization'
+    },
+    reason: {
+      type: 'string' as const,
+      nullable: true
+    },
+    organization_transfers: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/OrganizationTransfer' }
+    },
+    scheduled_for: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      description: 'When the grace period ends and the account is deleted'
+    },
+    cancelled_at: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      nullable: true
+    },
+    completed_at: {
+      type: 'string' as const,
+      format: 'date-time' as const,
+      nullable: true
+    },
+    blocked_reason: {
+      type: 'string' as const,
+      nullable: true
+    },
+    created_at: {
+      type: 'string' as const,
+      format: 'date-time' as const
+    },
+    updated_at: {
+      type: 'string' as const,
+      format: 'date-time' as const
+    }
+  },
+  required: ['id', 'user_id', 'status', 'organization_transfers', 'scheduled_for']
+};
+
+// Create Account Deletion Request Schema
+export const CreateAccountDeletionRequestSchema=  {
+  type: 'object' as const,
+  properties: {
+    reason: {
+      type: 'string' as const,
+      maxLength: 2000,
+      description: 'Optional reason for leaving'
+    },
+    organization_transfers: {
+      type: 'array' as const,
+      items: { $ref: '#/components/schemas/OrganizationTransfer' },
+      description: 'A new owner for every organization the user owns'
+    }
+  }
+};
+
+// Account Deletion Status Schema
+export const AccountDeletionStatusSchema=  {
+  type: 'object' as const,
+  properties: {
+    request: {
+      allOf: [{ $ref: '#/components/schemas/AccountDeletionRequest' }],
+      nullable: true
+    },
+    owned_organizations: {
+      type: 'array' as const,
+      items: {
+        type: 'object' as const,
+        properties: {
+          id: { type: 'string' as const, format: 'uuid' as const },
+          name: { type: 'string' as const },
+          rsi_org_id: { type: 'string' as const },
+          transfer_candidates: {
+            type: 'array' as const,
+            items: {
+              type: 'object' as const,
+              properties: {
+                id: { type: 'string' as const, format: 'uuid' as const },
+                rsi_handle: { type: 'string' as const }
+              }
+            }
+          }
+        }
+      }
+    },
+    grace_period_days: {
+      type: 'integer' as const,
+      description: 'Days between requesting deletion and it being carried out'
+    }
+  },
+  required: ['request', 'owned_organizations', 'grace_period_days']
+};
@@ -0,0 +1,366 @@
+import { Knex } from 'knex';
+import { AccountModel } from '../models/account_model';
+import { UserModel } from '../models/user_model';
+import { RoleModel } from '../models/role_model';
+import { EventModel } from '../models/event_model';
+import { EventWaitlistService } from './event_waitlist_service';
+import { ServiceResult } from '../types/service_result';
+import {
+  AccountDataExport,
+  AccountDeletionRequest,
+  AccountDeletionStatusResponse,
+  CreateAccountDeletionRequest,
+  OrganizationTransfer,
+} from '../types/user';
+import db from '../config/database';
+import logger from '../config/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_GRACE_PERIOD_DAYS = 14;
+const DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * Self-service account lifecycle: exporting everything stored about a user, and
+ * deleting their account after a grace period. Deleted accounts are anonymized
+ * rather than removed so the comments, reports and reviews they wrote stay readable
+ * under a placeholder handle.
+ */
+export class AccountLifecycleService {
+  private accountModel: AccountModel;
+  private userModel: UserModel;
+  private roleModel: RoleModel;
+  private eventModel: EventModel;
+  private eventWaitlistService: EventWaitlistService;
+
+  constructor() {
+    this.accountModel = new AccountModel();
+    this.userModel = new UserModel();
+    this.roleModel = new RoleModel();
+    this.eventModel = new EventModel();
+    this.eventWaitlistService = new EventWaitlistService();
+  }
+
+  getGracePeriodDays(): number {
+    return (
+      parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '') ||
+      DEFAULT_GRACE_PERIOD_DAYS
+    );
+  }
+
+  async exportAccountData(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<ServiceResult<AccountDataExport>> {
+    const user = await this.userModel.findById(userId);
+    if (!user || user.deleted_at) {
+      return { success: false, code: 'not_found', error: 'User not found' };
+    }
+
+    const {
+      verification_code: _verificationCode,
+      verification_code_expires_at: _verificationCodeExpiresAt,
+      ...profile
+    } = user;
+
+    return {
+      success: true,
+      data: {
+        exported_at: now,
+        profile,
+        ...(await this.accountModel.getExportData(userId)),
+      },
+    };
+  }
+
+  async getDeletionStatus(
+    userId: string
+  ): Promise<AccountDeletionStatusResponse> {
+    return {
+      request: await this.accountModel.findOpenDeletionRequest(userId),
+      owned_organizations:
+        await this.accountModel.getOwnedOrganizations(userId),
+      grace_period_days: this.getGracePeriodDays(),
+    };
+  }
+
+  /**
+   * Schedule the account for deletion once the grace period is over. Every owned
+   * organization needs a member to hand it to; owners cannot leave an organization
+   * without one.
+   */
+  async requestDeletion(
+    userId: string,
+    data: CreateAccountDeletionRequest,
+    now: Date = new Date()
+  ): Promise<ServiceResult<AccountDeletionRequest>> {
+    const existing = await this.accountModel.findOpenDeletionRequest(userId);
+    if (existing?.status === 'pending') {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'Account deletion is already scheduled',
+      };
+    }
+
+    const transfers = data.organization_transfers || [];
+    const transferError = await this.validateTransfers(userId, transfers);
+    if (transferError) {
+      return { success: false, code: 'conflict', error: transferError };
+    }
+
+    // A blocked request is replaced by the new one
+    if (existing) {
+      await this.accountModel.updateDeletionRequest(existing.id, {
+        status: 'cancelled',
+        cancelled_at: now,
+      });
+    }
+
+    const request = await this.accountModel.createDeletionRequest({
+      user_id: userId,
+      reason: data.reason ?? null,
+      organization_transfers: transfers,
+      scheduled_for: new Date(
+        now.getTime() + this.getGracePeriodDays() * DAY_MS
+      ),
+    });
+
+    logger.info('Account deletion requested', {
+      userId,
+      requestId: request.id,
+      scheduledFor: request.scheduled_for,
+    });
+
+    return { success: true, data: request };
+  }
+
+  async cancelDeletion(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<ServiceResult<AccountDeletionRequest>> {
+    const existing = await this.accountModel.findOpenDeletionRequest(userId);
+    if (!existing) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'No account deletion is scheduled',
+      };
+    }
+
+    const request = await this.accountModel.updateDeletionRequest(existing.id, {
+      status: 'cancelled',
+      cancelled_at: now,
+    });
+
+    logger.info('Account deletion cancelled', {
+      userId,
+      requestId: existing.id,
+    });
+
+    return { success: true, data: request! };
+  }
+
+  /**
+   * Carry out deletion requests whose grace period has run out
+   */
+  async processDueDeletions(now: Date = new Date()): Promise<number> {
+    const batchSize =
+      parseInt(process.env.ACCOUNT_DELETION_BATCH_SIZE || '') ||
+      DEFAULT_BATCH_SIZE;
+    const requests = await this.accountModel.findDueDeletionRequests(
+      now,
+      batchSize
+    );
+
+    let completed = 0;
+    for (const request of requests) {
+      try {
+        if (await this.deleteAccount(request, now)) completed++;
+      } catch (error) {
+        logger.error('Failed to delete account', {
+          requestId: request.id,
+          userId: request.user_id,
+          error,
+        });
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Hand over owned organizations, leave every organization, cancel upcoming event
+   * registrations, drop personal data and anonymize the user. Membership can change
+   * during the grace period, so transfers are checked again first; if one no longer
+   * works the request is blocked and nothing is touched. The deletion itself runs in
+   * one transaction, so a failure part-way also blocks the request with nothing changed.
+   * Once it commits, the freed event seats are offered to the waitlists.
+   */
+  async deleteAccount(
+    request: AccountDeletionRequest,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const userId = request.user_id;
+
+    const transferError = await this.validateTransfers(
+      userId,
+      request.organization_transfers
+    );
+    if (transferError) {
+      await this.accountModel.updateDeletionRequest(request.id, {
+        status: 'blocked',
+        blocked_reason: transferError,
+      });
+      logger.warn('Account deletion blocked', {
+        userId,
+        requestId: request.id,
+        reason: transferError,
+      });
+      return false;
+    }
+
+    let summary: { leftOrganizations: number; cancelledRegistrations: number };
+    let cancelledEventIds: string[] = [];
+    try {
+      summary = await db.transaction(async trx => {
+        for (const transfer of request.organization_transfers) {
+          await this.transferOwnership(transfer, trx);
+        }
+
+        const organizationIds =
+          await this.accountModel.getMembershipOrganizationIds(userId, trx);
+        for (const organizationId of organizationIds) {
+          await this.roleModel.removeUserFromOrganization(
+            organizationId,
+            userId,
+            trx
+          );
+        }
+
+        cancelledEventIds = await this.accountModel.cancelFutureRegistrations(
+          userId,
+          now,
+          trx
+        );
+        await this.accountModel.deletePersonalData(userId, trx);
+        await this.accountModel.anonymizeUser(userId, now, trx);
+
+        await this.accountModel.updateDeletionRequest(
+          request.id,
+          { status: 'completed', completed_at: now },
+          trx
+        );
+
+        return {
+          leftOrganizations: organizationIds.length,
+          cancelledRegistrations: cancelledEventIds.length,
+        };
+      });
+    } catch (error) {
+      await this.accountModel.updateDeletionRequest(request.id, {
+        status: 'blocked',
+        blocked_reason:
+          'Account deletion failed and nothing was changed. Request deletion again to retry.',
+      });
+      logger.error('Account deletion failed', {
+        userId,
+        requestId: request.id,
+        error,
+      });
+      return false;
+    }
+
+    logger.info('Account deleted', {
+      userId,
+      requestId: request.id,
+      transferredOrganizations: request.organization_transfers.length,
+      ...summary,
+    });
+
+    await this.releaseEventSeats(cancelledEventIds);
+
+    return true;
+  }
+
+  /**
+   * Close the gaps the deleted user left in event waitlists and hand their seats to
+   * the next in line. The deletion has already gone through, so failures are only logged.
+   */
+  private async releaseEventSeats(eventIds: string[]): Promise<void> {
+    for (const eventId of eventIds) {
+      try {
+        await this.eventModel.compactWaitlist(eventId);
+        await this.eventWaitlistService.promoteAvailableSeats(eventId);
+      } catch (error) {
+        logger.error('Failed to release event seats after account deletion', {
+          eventId,
+          error,
+        });
+      }
+    }
+  }
+
+  private async transferOwnership(
+    transfer: OrganizationTransfer,
+    trx: Knex.Transaction
+  ): Promise<void> {
+    const ownerRole = await this.roleModel.findByOrganizationAndName(
+      transfer.organization_id,
+      'Owner'
+    );
+    if (ownerRole) {
+      await this.roleModel.addRoleToUser(
+        transfer.organization_id,
+        transfer.new_owner_id,
+        ownerRole.id,
+        undefined,
+        trx
+      );
+    }
+    await this.accountModel.setOrganizationOwner(
+      transfer.organization_id,
+      transfer.new_owner_id,
+      trx
+    );
+  }
+
+  /**
+   * Returns why the transfers cannot go ahead, or null when every owned
+   * organization goes to one of its active members
+   */
+  private async validateTransfers(
+    userId: string,
+    transfers: OrganizationTransfer[]
+  ): Promise<string | null> {
+    const owned = await this.accountModel.getOwnedOrganizations(userId);
+    const ownedIds = new Set(owned.map(organization => organization.id));
+
+    const unknown = transfers.find(
+      transfer => !ownedIds.has(transfer.organization_id)
+    );
+    if (unknown) {
+      return 'Transfers can only be made for organizations you own';
+    }
+
+    for (const organization of owned) {
+      const transfer = transfers.find(
+        candidate => candidate.organization_id === organization.id
+      );
+      if (!transfer) {
+        return `Choose a new owner for ${organization.name} before deleting your account`;
+      }
+      if (
+        transfer.new_owner_id === userId ||
+        !(await this.accountModel.isActiveMember(
+          organization.id,
+          transfer.new_owner_id
+        ))
+      ) {
+        return `The new owner of ${organization.name} must be an active member`;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,268 @@
+import {
+  AttestationFlagModel,
+  NewAttestationFlag,
+  ScreenedAttestation,
+} from '../models/attestation_flag_model';
+import { ReputationModel } from '../models/reputation_model';
+import { ReputationScoreService } from './reputation_score_service';
+import { ServiceResult } from '../types/service_result';
+import {
+  AttestationFlag,
+  AttestationFlagEvidence,
+  AttestationFlagReason,
+  AttestationFlagStatus,
+  AttestationFlagWithContext,
+  AttestationKind,
+  ReviewAttestationFlagRequest,
+} from '../types/reputation';
+import logger from '../config/logger';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Members of one organization attesting on the same player within this window count as a burst
+const BURST_WINDOW_MINUTES = 60;
+const BURST_MIN_ATTESTERS = 3;
+const NEW_ACCOUNT_HOURS = 7 * 24;
+
+type OrganizationBurst = {
+  evidence: NonNullable<AttestationFlagEvidence['org_burst']>;
+  attestations: ScreenedAttestation[];
+};
+
+/**
+ * Screens new attestations and corroborations for brigading and sock puppets. Suspicious
+ * ones are held: they stay stored but stop counting until a reputation moderator
+ * releases or discards them.
+ *
+ * An attestation is held when its account is less than a week old, when an alt account
+ * report names the account, or when it is part of a burst of attestations on one player
+ * from members of the same organization. A burst holds every attestation in it.
+ */
+export class BrigadingDetectionService {
+  private flagModel: AttestationFlagModel;
+  private reputationModel: ReputationModel;
+  private scoreService: ReputationScoreService;
+
+  constructor() {
+    this.flagModel = new AttestationFlagModel();
+    this.reputationModel = new ReputationModel();
+    this.scoreService = new ReputationScoreService();
+  }
+
+  async screen(
+    kind: AttestationKind,
+    attestationId: string,
+    now: Date = new Date()
+  ): Promise<AttestationFlag[]> {
+    const attestation = await this.flagModel.getAttestation(
+      kind,
+      attestationId
+    );
+    if (!attestation || attestation.held_for_review) return [];
+
+    const attester = await this.flagModel.getAttester(attestation.attester_id);
+    if (!attester) return [];
+
+    const reasons: AttestationFlagReason[] = [];
+    const evidence: AttestationFlagEvidence = {};
+
+    const accountAgeHours =
+      (now.getTime() - new Date(attester.created_at).getTime()) / HOUR_MS;
+    if (accountAgeHours < NEW_ACCOUNT_HOURS) {
+      reasons.push('new_account');
+      evidence.new_account = {
+        account_created_at: attester.created_at,
+        account_age_hours: Math.floor(accountAgeHours),
+      };
+    }
+
+    const altReports = await this.flagModel.findAltReportsNaming(
+      attester.rsi_handle,
+      attester.spectrum_id
+    );
+    if (altReports.length > 0) {
+      reasons.push('suspected_alt');
+      evidence.suspected_alt = {
+        alt_account_report_ids: altReports.map(report => report.id),
+        main_player_ids: [
+          ...new Set(altReports.map(report => report.main_player_id)),
+        ],
+      };
+    }
+
+    const flags: NewAttestationFlag[] = [];
+
+    const burst = await this.findOrganizationBurst(attestation, now);
+    if (burst) {
+      reasons.push('org_burst');
+      evidence.org_burst = burst.evidence;
+
+      for (const other of burst.attestations) {
+        if (
+          other.held_for_review ||
+          (other.kind === kind && other.id === attestation.id)
+        )
+          continue;
+        flags.push({
+          attestation: other,
+          reasons: ['org_burst'],
+          evidence: { org_burst: burst.evidence },
+        });
+      }
+    }
+
+    if (reasons.length === 0) return [];
+    flags.unshift({ attestation, reasons, evidence });
+
+    const created = await this.flagModel.hold(flags);
+    await this.applyCountChanges(created);
+
+    logger.info('Held attestations for reputation moderator review', {
+      playerId: attestation.player_id,
+      reasons,
+      held: created.length,
+    });
+
+    return created;
+  }
+
+  async listFlags(query: {
+    status: AttestationFlagStatus;
+    page: number;
+    limit: number;
+  }): Promise<{ flags: AttestationFlagWithContext[]; total: number }> {
+    return this.flagModel.listFlags(query);
+  }
+
+  async reviewFlag(
+    flagId: string,
+    reviewerId: string,
+    request: ReviewAttestationFlagRequest
+  ): Promise<ServiceResult<AttestationFlag>> {
+    const flag = await this.flagModel.getFlag(flagId);
+    if (!flag) {
+      return { success: false, code: 'not_found', error: 'Flag not found' };
+    }
+
+    if (flag.attester_id === reviewerId) {
+      return {
+        success: false,
+        code: 'forbidden',
+        error: 'Moderators cannot review flags on their own attestations',
+      };
+    }
+
+    if (flag.status !== 'held') {
+      return {
+        success: false,
+        code: 'conflict',
+        error: `Flag has already been ${flag.status}`,
+      };
+    }
+
+    const resolved = await this.flagModel.resolve(
+      flag,
+      request.decision,
+      reviewerId,
+      request.note?.trim() || null
+    );
+    if (!resolved) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'Flag was reviewed by someone else, reload and try again',
+      };
+    }
+
+    await this.applyCountChanges([resolved]);
+    return { success: true, data: resolved };
+  }
+
+  private async findOrganizationBurst(
+    attestation: ScreenedAttestation,
+    now: Date
+  ): Promise<OrganizationBurst | null> {
+    const recent = await this.flagModel.findRecentAttestationsOnPlayer(
+      attestation.player_id,
+      new Date(now.getTime() - BURST_WINDOW_MINUTES * 60 * 1000)
+    );
+    const memberships = await this.flagModel.getOrganizationMemberships([
+      ...new Set(recent.map(other => other.attester_id)),
+    ]);
+
+    const attesterOrganizations = memberships.filter(
+      membership => membership.user_id === attestation.attester_id
+    );
+    for (const organization of attesterOrganizations) {
+      const members = new Set(
+        memberships
+          .filter(
+            membership =>
+              membership.organization_id === organization.organization_id
+          )
+          .map(membership => membership.user_id)
+      );
+      if (members.size < BURST_MIN_ATTESTERS) continue;
+
+      const attestations = recent.filter(other =>
+        members.has(other.attester_id)
+      );
+      return {
+        evidence: {
+          organization_id: organization.organization_id,
+          organization_name: organization.organization_name,
+          window_minutes: BURST_WINDOW_MINUTES,
+          attester_ids: [...members],
+          attestation_count: attestations.length,
+        },
+        attestations,
+      };
+    }
+
+    return null;
+  }
+
+  // Stored counts and scores include every attestation that isn't held, so refresh them
+  private async applyCountChanges(flags: AttestationFlag[]): Promise<void> {
+    const items = new Map(
+      flags.map(flag => [`${flag.attestation_kind}:${flag.item_id}`, flag])
+    );
+    const scoredPlayers = new Set<string>();
+
+    for (const flag of items.values()) {
+      switch (flag.attestation_kind) {
+        case 'comment':
+          await this.reputationModel.updateCommentAttestationCount(
+            flag.item_id
+          );
+          break;
+        case 'tag':
+          await this.reputationModel.updateTagAttestationCount(flag.item_id);
+          scoredPlayers.add(flag.player_id);
+          break;
+        case 'player_report':
+          scoredPlayers.add(flag.player_id);
+          break;
+        case 'organization_report':
+          await this.reputationModel.updateOrganizationReportCorroborationCount(
+            flag.item_id
+          );
+          break;
+        case 'alt_account_report':
+          await this.reputationModel.updateAltAccountReportCorroborationCount(
+            flag.item_id
+          );
+          break;
+        case 'affiliated_people_report':
+          await this.reputationModel.updateAffiliatedPeopleReportCorroborationCount(
+            flag.item_id
+          );
+          break;
+      }
+    }
+
+    for (const playerId of scoredPlayers) {
+      await this.scoreService.recalculateScore(playerId);
+    }
+  }
+}
@@ -1,30 +1,84 @@
 import { DiscordService } from './discord_service';
 import { DiscordServerModel } from '../models/discord_server_model';
 import { OrganizationModel } from '../models/organization_model';
+import { UserModel } from '../models/user_model';
+import { EventModel } from '../models/event_model';
+import { RoleModel } from '../models/role_model';
+import { HRDocumentModel } from '../models/hr_document_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { EventAttendanceService } from './event_attendance_service';
+import { EventWaitlistService } from './event_waitlist_service';
+import { HRApplicationService } from './hr_application_service';
+import { HRApplicationFormService } from './hr_application_form_service';
+import { ReputationScoreService } from './reputation_score_service';
+import { PermissionHelper } from '../middleware/permissions';
+import { Event } from '../types/event';
+import { Organization } from '../types/organization';
+import { User } from '../types/user';
 import type {
   APIApplicationCommand,
   APIApplicationCommandOption,
   APIApplicationCommandInteraction,
+  APIApplicationCommandAutocompleteInteraction,
+  APIApplicationCommandOptionChoice,
+  APIInteraction,
   APIInteractionResponse,
   APIInteractionResponseCallbackData,
+  APIModalSubmitInteraction,
 } from 'discord-api-types/v10';
 import {
   ApplicationCommandType,
   ApplicationCommandOptionType,
+  ComponentType,
   InteractionResponseType,
   MessageFlags,
+  TextInputStyle,
 } from 'discord-api-types/v10';
 import logger from '../config/logger';
 
+// Discord caps autocomplete results at 25 choices and choice names at 100 characters
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+const MAX_CHOICE_NAME_LENGTH = 100;
+const UPCOMING_EVENTS_LIMIT = 10;
+const MEMBERS_LIST_LIMIT = 25;
+const APPLY_MODAL_ID = 'scorgs_apply';
+
+type MemberInteraction = Pick<APIInteraction, 'id' | 'token' | 'guild_id' | 'member' | 'user'>;
+
+interface MemberContext {
+  organization: Organization;
+  user: User | null;
+}
+
 export class DiscordCommandService {
   private discordService: DiscordService;
   private discordServerModel: DiscordServerModel;
   private organizationModel: OrganizationModel;
+  private userModel: UserModel;
+  private eventModel: EventModel;
+  private roleModel: RoleModel;
+  private documentModel: HRDocumentModel;
+  private scPlayerModel: ScPlayerModel;
+  private eventAttendanceService: EventAttendanceService;
+  private eventWaitlistService: EventWaitlistService;
+  private applicationService: HRApplicationService;
+  private applicationFormService: HRApplicationFormService;
+  private reputationScoreService: ReputationScoreService;
 
   constructor() {
     this.discordService = new DiscordService();
     this.discordServerModel = new DiscordServerModel();
     this.organizationModel = new OrganizationModel();
+    this.userModel = new UserModel();
+    this.eventModel = new EventModel();
+    this.roleModel = new RoleModel();
+    this.documentModel = new HRDocumentModel();
+    this.scPlayerModel = new ScPlayerModel();
+    this.eventAttendanceService = new EventAttendanceService();
+    this.eventWaitlistService = new EventWaitlistService();
+    this.applicationService = new HRApplicationService();
+    this.applicationFormService = new HRApplicationFormService();
+    this.reputationScoreService = new ReputationScoreService();
   }
 
   /**
@@ -68,6 +122,19 @@ export class DiscordCommandService {
               name: 'disconnect',
               description: 'Disconnect this Discord server from SC-Orgs',
             },
+            {
+              type: ApplicationCommandOptionType.Subcommand,
+              name: 'checkin',
+              description: 'Check in to an event using the code shared by the organizer',
+              options: [
+                {
+                  type: ApplicationCommandOptionType.String,
+                  name: 'code',
+                  description: 'The check-in code shown by the event organizer',
+                  required: true,
+                },
+              ],
+            },
             {
               type: ApplicationCommandOptionType.Subcommand,
               name: 'help',
@@ -75,6 +142,101 @@ export class DiscordCommandService {
             },
           ],
         },
+        // Member commands act on the organization connected to the server
+        {
+          name: 'events',
+          description: "Browse and sign up for your organization's events",
+          type: ApplicationCommandType.ChatInput,
+          default_member_permissions: null,
+          options: [
+            {
+              type: ApplicationCommandOptionType.Subcommand,
+              name: 'upcoming',
+              description: 'List upcoming events',
+            },
+            {
+              type: ApplicationCommandOptionType.Subcommand,
+              name: 'register',
+              description: 'Register for an event',
+              options: [
+                {
+                  type: ApplicationCommandOptionType.String,
+                  name: 'event',
+                  description: 'The event to register for',
+                  required: true,
+                  autocomplete: true,
+                },
+              ],
+            },
+            {
+              type: ApplicationCommandOptionType.Subcommand,
+              name: 'unregister',
+              description: 'Cancel your registration for an event',
+              options: [
+                {
+                  type: ApplicationCommandOptionType.String,
+                  name: 'event',
+                  description: 'The event to leave',
+                  required: true,
+                  autocomplete: true,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          name: 'org',
+          description: 'Organization information',
+          type: ApplicationCommandType.ChatInput,
+          default_member_permissions: null,
+          options: [
+            {
+              type: ApplicationCommandOptionType.Subcommand,
+              name: 'members',
+              description: 'List organization members',
+            },
+          ],
+        },
+        {
+          name: 'apply',
+          description: 'Apply to join the organization',
+          type: ApplicationCommandType.ChatInput,
+          default_member_permissions: null,
+        },
+        {
+          name: 'docs',
+          description: 'Organization documents',
+          type: ApplicationCommandType.ChatInput,
+          default_member_permissions: null,
+          options: [
+            {
+              type: ApplicationCommandOptionType.Subcommand,
+              name: 'pending',
+              description: 'List documents you still need to acknowledge',
+            },
+          ],
+        },
+        {
+          name: 'player',
+          description: 'Star Citizen player reputation',
+          type: ApplicationCommandType.ChatInput,
+          default_member_permissions: null,
+          options: [
+            {
+              type: ApplicationCommandOptionType.Subcommand,
+              name: 'lookup',
+              description: "Look up a player's reputation",
+              options: [
+                {
+                  type: ApplicationCommandOptionType.String,
+                  name: 'handle',
+                  description: 'The RSI handle of the player',
+                  required: true,
+                },
+              ],
+            },
+          ],
+        },
       ];
 
       // Register commands globally
@@ -146,6 +308,9 @@ export class DiscordCommandService {
             logger.debug('Executing disconnect subcommand');
             await this.handleDisconnectCommand(interaction);
             break;
+          case 'checkin':
+            await this.handleCheckInCommand(interaction, subcommand);
+            break;
           case 'help':
             await this.handleHelpCommand(interaction);
             break;
@@ -158,6 +323,16 @@ export class DiscordCommandService {
               },
             });
         }
+      } else if (commandName === 'events') {
+        await this.handleEventsCommand(interaction, (data as any).options?.[0]);
+      } else if (commandName === 'org') {
+        await this.handleOrgMembersCommand(interaction);
+      } else if (commandName === 'apply') {
+        await this.handleApplyCommand(interaction);
+      } else if (commandName === 'docs') {
+        await this.handlePendingDocumentsCommand(interaction);
+      } else if (commandName === 'player') {
+        await this.handlePlayerLookupCommand(interaction, (data as any).options?.[0]);
       } else {
         await this.sendInteractionResponse(interaction, {
           type: InteractionResponseType.ChannelMessageWithSource,
@@ -423,6 +598,67 @@ export class DiscordCommandService {
     }
   }
 
+  /**
+   * Handle the checkin command
+   */
+  private async handleCheckInCommand(interaction: APIApplicationCommandInteraction, subcommand: any): Promise<void> {
+    try {
+      const guildId = interaction.guild_id!;
+      const discordUserId = interaction.member?.user.id || interaction.user?.id;
+      const code = subcommand.options?.find((opt: any) => opt.name === 'code')?.value;
+
+      const discordServer = await this.discordServerModel.findByGuildId(guildId);
+      if (!discordServer) {
+        await this.sendInteractionResponse(interaction, {
+          type: InteractionResponseType.ChannelMessageWithSource,
+          data: {
+            content: '❌ This Discord server is not connected to any SC-Orgs organization.',
+            flags: 64, // EPHEMERAL
+          },
+        });
+        return;
+      }
+
+      const user = discordUserId ? await this.userModel.findByDiscordId(discordUserId) : null;
+      if (!user) {
+        await this.sendInteractionResponse(interaction, {
+          type: InteractionResponseType.ChannelMessageWithSource,
+          data: {
+            content: '❌ Your Discord account is not linked to an SC-Orgs account. Sign in to SC-Orgs with Discord first.',
+            flags: 64, // EPHEMERAL
+          },
+        });
+        return;
+      }
+
+      const result = await this.eventAttendanceService.checkInByOrganizationCode(
+        discordServer.organization_id,
+        user.id,
+        code || ''
+      );
+
+      await this.sendInteractionResponse(interaction, {
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: {
+          content: result.checkedIn
+            ? `✅ You're checked in to **${result.event?.title || 'the event'}**.`
+            : `❌ ${result.reason || 'Check-in failed.'}`,
+          flags: 64, // EPHEMERAL
+        },
+      });
+
+    } catch (error) {
+      logger.error('Failed to handle checkin command:', error);
+      await this.sendInteractionResponse(interaction, {
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: {
+          content: '❌ An error occurred while checking in.',
+          flags: 64, // EPHEMERAL
+        },
+      });
+    }
+  }
+
   /**
    * Handle the help command
    */
@@ -435,8 +671,18 @@ export class DiscordCommandService {
 \`/scorgs connect\` - Connect this Discord server to your personal account
 \`/scorgs status\` - Check the integration status for this server
 \`/scorgs disconnect\` - Disconnect this server from SC-Orgs
+\`/scorgs checkin <code>\` - Check in to an event with the organizer's code
 \`/scorgs help\` - Show this help message
 
+**Member Commands:**
+\`/events upcoming\` - List upcoming organization events
+\`/events register <event>\` - Register for an event
+\`/events unregister <event>\` - Cancel an event registration
+\`/org members\` - List organization members
+\`/apply\` - Apply to join the organization
+\`/docs pending\` - List documents you still need to acknowledge
+\`/player lookup <handle>\` - Look up a player's reputation
+
 **How to Connect:**
 1. **For Organization**: Use \`/scorgs connect BWINCORP\` (replace BWINCORP with your Spectrum ID)
 2. **For Personal Account**: Use \`/scorgs connect\` (no parameters needed)
@@ -474,10 +720,497 @@ Need more help? Visit the SC-Orgs website or contact support.`;
     }
   }
 
+  /**
+   * Handle the events command
+   */
+  private async handleEventsCommand(interaction: APIApplicationCommandInteraction, subcommand: any): Promise<void> {
+    try {
+      const context = await this.requireMemberContext(interaction, subcommand?.name !== 'upcoming');
+      if (!context) return;
+
+      const eventId = subcommand?.options?.find((opt: any) => opt.name === 'event')?.value;
+
+      switch (subcommand?.name) {
+        case 'upcoming':
+          await this.sendEphemeralMessage(interaction, await this.formatUpcomingEvents(context));
+          break;
+        case 'register':
+          await this.sendEphemeralMessage(interaction, await this.registerForEvent(context, eventId));
+          break;
+        case 'unregister':
+          await this.sendEphemeralMessage(interaction, await this.unregisterFromEvent(context, eventId));
+          break;
+        default:
+          await this.sendEphemeralMessage(interaction, '❌ Unknown subcommand. Use `/scorgs help` for available commands.');
+      }
+
+    } catch (error) {
+      logger.error('Failed to handle events command:', error);
+      await this.sendEphemeralMessage(interaction, '❌ An error occurred while processing the events command.');
+    }
+  }
+
+  private async formatUpcomingEvents(context: MemberContext): Promise<string> {
+    const events = await this.getUpcomingEvents(context);
+    if (events.length === 0) {
+      return `📅 **${context.organization.name}** has no upcoming events.`;
+    }
+
+    const lines = events.slice(0, UPCOMING_EVENTS_LIMIT).map(event => {
+      const timestamp = Math.floor(new Date(event.start_time).getTime() / 1000);
+      return `• **${event.title}** - <t:${timestamp}:F> (<t:${timestamp}:R>)`;
+    });
+
+    return `📅 **Upcoming events for ${context.organization.name}**\n\n${lines.join('\n')}\n\nUse \`/events register\` to sign up.`;
+  }
+
+  /**
+   * Register the member for an event, applying the same checks as the REST route,
+   * including per-event view overrides on private events
+   */
+  private async registerForEvent(context: MemberContext, eventId: string | undefined): Promise<string> {
+    const userId = context.user!.id;
+    const event = eventId ? await this.eventModel.findById(eventId) : null;
+    if (!event || event.organization_id !== context.organization.id) {
+      return '❌ Event not found. Pick an event from the suggestions.';
+    }
+
+    if (!event.is_active) {
+      return '❌ This event is no longer active.';
+    }
+
+    if (event.registration_deadline && new Date() > new Date(event.registration_deadline)) {
+      return '❌ The registration deadline for this event has passed.';
+    }
+
+    if (await this.eventModel.isUserRegistered(event.id, userId)) {
+      return `ℹ️ You're already registered for **${event.title}**.`;
+    }
+
+    if (!event.is_public) {
+      const access = await PermissionHelper.canUserViewEvent(event, userId);
+      if (!access.canView) {
+        return `❌ You can't join this private event: ${access.reason}`;
+      }
+    }
+
+    const registration = await this.eventModel.registerUserWithCapacity(event.id, userId);
+    if (!registration) {
+      return '❌ Failed to register for the event.';
+    }
+
+    return registration.status === 'waitlisted'
+      ? `⏳ **${event.title}** is full. You're on the waitlist at position ${registration.waitlist_position}.`
+      : `✅ You're registered for **${event.title}**.`;
+  }
+
+  private async unregisterFromEvent(context: MemberContext, eventId: string | undefined): Promise<string> {
+    const userId = context.user!.id;
+    const event = eventId ? await this.eventModel.findById(eventId) : null;
+    if (!event || event.organization_id !== context.organization.id) {
+      return '❌ Event not found. Pick an event from the suggestions.';
+    }
+
+    const registration = await this.eventModel.getUserRegistration(event.id, userId);
+    if (!registration) {
+      return `ℹ️ You're not registered for **${event.title}**.`;
+    }
+
+    const unregistered = await this.eventModel.unregisterUser(event.id, userId);
+    if (!unregistered) {
+      return '❌ Failed to cancel your registration.';
+    }
+
+    // Hand the freed seat to the waitlist, or close the gap in the queue
+    if (registration.status === 'waitlisted') {
+      await this.eventModel.compactWaitlist(event.id);
+    } else {
+      await this.eventWaitlistService.promoteAvailableSeats(event.id);
+    }
+
+    return `✅ Your registration for **${event.title}** was cancelled.`;
+  }
+
+  /**
+   * Handle the org members command
+   */
+  private async handleOrgMembersCommand(interaction: APIApplicationCommandInteraction): Promise<void> {
+    try {
+      const context = await this.requireMemberContext(interaction);
+      if (!context) return;
+
+      // Hidden members are only listed for other members, as on the website
+      const members = await this.organizationModel.getMembers(context.organization.id, {
+        limit: MEMBERS_LIST_LIMIT,
+        offset: 0,
+        viewerUserId: context.user!.id,
+      });
+
+      const lines = members.map(
+        member => `• ${member.rsi_handle}${member.role_name ? ` - ${member.role_name}` : ''}`
+      );
+      const total = context.organization.total_members || members.length;
+
+      await this.sendEphemeralMessage(
+        interaction,
+        members.length === 0
+          ? `👥 **${context.organization.name}** has no visible members.`
+          : `👥 **${context.organization.name}** (${total} members)\n\n${lines.join('\n')}` +
+              (total > members.length ? `\n\n…and ${total - members.length} more on SC-Orgs.` : '')
+      );
+
+    } catch (error) {
+      logger.error('Failed to handle org members command:', error);
+      await this.sendEphemeralMessage(interaction, '❌ An error occurred while listing members.');
+    }
+  }
+
+  /**
+   * Handle the apply command by opening the application form, or pointing to the
+   * website when the organization uses a custom form
+   */
+  private async handleApplyCommand(interaction: APIApplicationCommandInteraction): Promise<void> {
+    try {
+      const context = await this.requireMemberContext(interaction);
+      if (!context) return;
+
+      if (await this.organizationModel.isUserMember(context.organization.id, context.user!.id)) {
+        await this.sendEphemeralMessage(interaction, `ℹ️ You're already a member of **${context.organization.name}**.`);
+        return;
+      }
+
+      // Custom application forms can't be shown in a Discord modal
+      if (await this.applicationFormService.requiresForm(context.organization.id)) {
+        const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+        await this.sendEphemeralMessage(
+          interaction,
+          `📝 **${context.organization.name}** takes applications through its application form: ${frontendUrl}/organizations/${context.organization.rsi_org_id}`
+        );
+        return;
+      }
+
+      await this.sendInteractionResponse(interaction, {
+        type: InteractionResponseType.Modal,
+        data: {
+          custom_id: APPLY_MODAL_ID,
+          title: `Apply to ${context.organization.name}`.substring(0, 45),
+          components: [
+            {
+              type: ComponentType.ActionRow,
+              components: [
+                {
+                  type: ComponentType.TextInput,
+                  custom_id: 'cover_letter',
+                  label: 'Why do you want to join?',
+                  style: TextInputStyle.Paragraph,
+                  required: true,
+                  max_length: 4000,
+                },
+              ],
+            },
+            {
+              type: ComponentType.ActionRow,
+              components: [
+                {
+                  type: ComponentType.TextInput,
+                  custom_id: 'experience',
+                  label: 'Relevant experience',
+                  style: TextInputStyle.Paragraph,
+                  required: false,
+                  max_length: 2000,
+                },
+              ],
+            },
+            {
+              type: ComponentType.ActionRow,
+              components: [
+                {
+                  type: ComponentType.TextInput,
+                  custom_id: 'availability',
+                  label: 'Availability',
+                  style: TextInputStyle.Short,
+                  required: false,
+                  max_length: 500,
+                },
+              ],
+            },
+          ],
+        },
+      });
+
+    } catch (error) {
+      logger.error('Failed to handle apply command:', error);
+      await this.sendEphemeralMessage(interaction, '❌ An error occurred while opening the application form.');
+    }
+  }
+
+  /**
+   * Handle modal submissions (currently only the application form)
+   */
+  async handleModalSubmit(interaction: APIModalSubmitInteraction): Promise<void> {
+    try {
+      if (interaction.data.custom_id !== APPLY_MODAL_ID) {
+        await this.sendEphemeralMessage(interaction, '❌ Unknown form.');
+        return;
+      }
+
+      const context = await this.requireMemberContext(interaction);
+      if (!context) return;
+
+      const values: Record<string, string> = {};
+      for (const row of (interaction.data as any).components || []) {
+        for (const component of row.components || []) {
+          if (component.value) {
+            values[component.custom_id] = component.value;
+          }
+        }
+      }
+
+      const application = await this.applicationService.submitApplication({
+        organization_id: context.organization.id,
+        user_id: context.user!.id,
+        application_data: {
+          ...(values.cover_letter && { cover_letter: values.cover_letter }),
+          ...(values.experience && { experience: values.experience }),
+          ...(values.availability && { availability: values.availability }),
+        },
+      });
+
+      logger.info('Application submitted from Discord', {
+        applicationId: application.id,
+        organizationId: context.organization.id,
+        userId: context.user!.id,
+      });
+
+      await this.sendEphemeralMessage(
+        interaction,
+        `✅ Your application to **${context.organization.name}** was submitted. You'll be notified when it's reviewed.`
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to handle modal submit:', error);
+
+      // Validation and duplicate errors are safe to show to the applicant
+      await this.sendEphemeralMessage(
+        interaction,
+        errorMessage.includes('Validation failed') || errorMessage.includes('already has an active application')
+          ? `❌ ${errorMessage}`
+          : '❌ An error occurred while submitting your application.'
+      );
+    }
+  }
+
+  /**
+   * Handle the docs pending command
+   */
+  private async handlePendingDocumentsCommand(interaction: APIApplicationCommandInteraction): Promise<void> {
+    try {
+      const context = await this.requireMemberContext(interaction);
+      if (!context) return;
+
+      const roleIds = await this.roleModel.getUserRoleIds(context.organization.id, context.user!.id);
+      if (roleIds.length === 0) {
+        await this.sendEphemeralMessage(interaction, `❌ You're not a member of **${context.organization.name}**.`);
+        return;
+      }
+
+      const documents = await this.documentModel.getPendingAcknowledgments(
+        context.organization.id,
+        context.user!.id,
+        roleIds
+      );
+
+      await this.sendEphemeralMessage(
+        interaction,
+        documents.length === 0
+          ? "✅ You're all caught up - no documents need your acknowledgment."
+          : `📄 **${documents.length} document(s) need your acknowledgment**\n\n` +
+              documents.map(document => `• ${document.title}`).join('\n') +
+              '\n\nAcknowledge them on SC-Orgs.'
+      );
+
+    } catch (error) {
+      logger.error('Failed to handle docs pending command:', error);
+      await this.sendEphemeralMessage(interaction, '❌ An error occurred while loading your documents.');
+    }
+  }
+
+  /**
+   * Handle the player lookup command
+   */
+  private async handlePlayerLookupCommand(interaction: APIApplicationCommandInteraction, subcommand: any): Promise<void> {
+    try {
+      const handle = subcommand?.options?.find((opt: any) => opt.name === 'handle')?.value?.trim();
+      if (!handle) {
+        await this.sendEphemeralMessage(interaction, '❌ Please provide a player handle.');
+        return;
+      }
+
+      const player = await this.scPlayerModel.findByHandle(handle);
+      const details = player ? await this.reputationScoreService.getPlayerDetails(player.spectrum_id) : null;
+      if (!details) {
+        await this.sendEphemeralMessage(
+          interaction,
+          `❌ No reputation record for **${handle}** yet. Look them up on SC-Orgs to start tracking them.`
+        );
+        return;
+      }
+
+      const topTags = [...details.tags]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5)
+        .map(tag => `${tag.tag_type === 'negative' ? '🔻' : tag.tag_type === 'positive' ? '🔺' : '▫️'} ${tag.tag_name}`);
+      const reportCount =
+        details.reports.length +
+        details.organizationReports.length +
+        details.altAccountReports.length +
+        details.affiliatedPeopleReports.length;
+
+      await this.sendEphemeralMessage(
+        interaction,
+        `🔎 **${details.player.current_handle}**` +
+          (details.player.current_display_name ? ` (${details.player.current_display_name})` : '') +
+          `\n\n⭐ **Reputation:** ${details.reputationScore} (${details.confidenceLevel} confidence)` +
+          `\n🏷️ **Tags:** ${topTags.length > 0 ? topTags.join(', ') : 'None'}` +
+          `\n📝 **Reports:** ${reportCount}` +
+          `\n🔁 **Known handles:** ${details.handleHistory.length}`
+      );
+
+    } catch (error) {
+      logger.error('Failed to handle player lookup command:', error);
+      await this.sendEphemeralMessage(interaction, '❌ An error occurred while looking up the player.');
+    }
+  }
+
+  /**
+   * Handle autocomplete for event options
+   */
+  async handleAutocomplete(interaction: APIApplicationCommandAutocompleteInteraction): Promise<void> {
+    let choices: APIApplicationCommandOptionChoice<string>[] = [];
+
+    try {
+      const subcommand = (interaction.data as any).options?.[0];
+      const focused = subcommand?.options?.find((opt: any) => opt.focused);
+
+      if (interaction.data.name === 'events' && focused?.name === 'event') {
+        const context = await this.getMemberContext(interaction);
+        if (context) {
+          choices = await this.getEventChoices(context, subcommand.name, String(focused.value || ''));
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to build autocomplete choices:', error);
+    }
+
+    await this.sendInteractionResponse(interaction, {
+      type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+      data: { choices },
+    });
+  }
+
+  private async getEventChoices(
+    context: MemberContext,
+    subcommandName: string,
+    query: string
+  ): Promise<APIApplicationCommandOptionChoice<string>[]> {
+    let events: Event[];
+
+    if (subcommandName === 'unregister') {
+      if (!context.user) return [];
+      const now = new Date();
+      const registered = await this.eventModel.getUserCalendarEvents(context.user.id, now);
+      events = registered.filter(
+        event => event.organization_id === context.organization.id && new Date(event.start_time) > now
+      );
+    } else {
+      events = await this.getUpcomingEvents(context);
+    }
+
+    const search = query.trim().toLowerCase();
+    return events
+      .filter(event => !search || event.title.toLowerCase().includes(search))
+      .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+      .map(event => {
+        const date = new Date(event.start_time).toISOString().substring(0, 10);
+        return {
+          name: `${event.title} (${date})`.substring(0, MAX_CHOICE_NAME_LENGTH),
+          value: event.id,
+        };
+      });
+  }
+
+  // Upcoming events the member can see, soonest first (private events need membership
+  // and no override denying them)
+  private async getUpcomingEvents(context: MemberContext): Promise<Event[]> {
+    const now = new Date();
+    const events = await PermissionHelper.filterViewableEvents(
+      await this.eventModel.getEventsByOrganization(context.organization.id, context.user?.id),
+      context.user?.id
+    );
+
+    return events
+      .filter(event => new Date(event.start_time) > now)
+      .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+  }
+
+  /**
+   * Resolve the organization connected to the server and the member's linked platform account
+   */
+  private async getMemberContext(interaction: MemberInteraction): Promise<MemberContext | null> {
+    if (!interaction.guild_id) return null;
+
+    const discordServer = await this.discordServerModel.findByGuildId(interaction.guild_id);
+    if (!discordServer || !discordServer.is_active) return null;
+
+    const organization = await this.organizationModel.findById(discordServer.organization_id);
+    if (!organization) return null;
+
+    const discordUserId = interaction.member?.user.id || interaction.user?.id;
+    const user = discordUserId ? await this.userModel.findByDiscordId(discordUserId) : null;
+
+    return { organization, user };
+  }
+
+  /**
+   * Like getMemberContext, but replies with the reason when the server isn't connected
+   * or (by default) the member hasn't linked their account
+   */
+  private async requireMemberContext(
+    interaction: MemberInteraction,
+    requireAccount: boolean = true
+  ): Promise<MemberContext | null> {
+    const context = await this.getMemberContext(interaction);
+    if (!context) {
+      await this.sendEphemeralMessage(interaction, '❌ This Discord server is not connected to any SC-Orgs organization.');
+      return null;
+    }
+
+    if (requireAccount && !context.user) {
+      await this.sendEphemeralMessage(
+        interaction,
+        '❌ Your Discord account is not linked to an SC-Orgs account. Sign in to SC-Orgs with Discord first.'
+      );
+      return null;
+    }
+
+    return context;
+  }
+
+  private async sendEphemeralMessage(interaction: Pick<APIInteraction, 'id' | 'token'>, content: string): Promise<void> {
+    await this.sendInteractionResponse(interaction, {
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: {
+        content,
+        flags: MessageFlags.Ephemeral,
+      },
+    });
+  }
+
   /**
    * Send interaction response
    */
-  private async sendInteractionResponse(interaction: APIApplicationCommandInteraction, response: APIInteractionResponse): Promise<void> {
+  private async sendInteractionResponse(interaction: Pick<APIInteraction, 'id' | 'token'>, response: APIInteractionResponse): Promise<void> {
     try {
       await this.discordService.sendInteractionResponse(interaction.id, interaction.token, response);
     } catch (error) {
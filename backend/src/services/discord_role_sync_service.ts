@@ -0,0 +1,254 @@
+import { Knex } from 'knex';
+import { DiscordService } from './discord_service';
+import { DiscordServerModel } from '../models/discord_server_model';
+import { DiscordRoleMappingModel } from '../models/discord_role_mapping_model';
+import { RoleModel } from '../models/role_model';
+import { UserModel } from '../models/user_model';
+import {
+  DiscordRoleDrift,
+  DiscordRoleMappingWithRole,
+  DiscordRoleReconciliationReport,
+  DiscordServer,
+} from '../types/discord';
+import db from '../config/database';
+import logger from '../config/logger';
+
+/**
+ * Keeps Discord guild roles in line with organization roles.
+ * The platform is the source of truth: Discord roles are added or removed to match it.
+ */
+export class DiscordRoleSyncService {
+  private discordService: DiscordService;
+  private discordServerModel: DiscordServerModel;
+  private discordRoleMappingModel: DiscordRoleMappingModel;
+  private roleModel: RoleModel;
+  private userModel: UserModel;
+  private readonly discordApiDelayMs: number;
+
+  constructor() {
+    this.discordService = new DiscordService();
+    this.discordServerModel = new DiscordServerModel();
+    this.discordRoleMappingModel = new DiscordRoleMappingModel();
+    this.roleModel = new RoleModel();
+    this.userModel = new UserModel();
+
+    // Configurable delay between Discord API calls (default 1 second)
+    this.discordApiDelayMs = parseInt(process.env.DISCORD_API_DELAY_MS || '1000', 10);
+  }
+
+  /**
+   * Sync a member's Discord roles once a membership change is committed. Called by the
+   * models on every role or membership change. The Discord account is read up front, so
+   * removals made while deleting an account still reach it. Best-effort: failures are
+   * logged and left to the reconciliation job, and rolled-back changes are not synced.
+   */
+  static syncMemberRolesAfterCommit(
+    organizationId: string,
+    userId: string,
+    conn: Knex | Knex.Transaction = db
+  ): void {
+    const sync = async () => {
+      const user = await conn('users').where({ id: userId }).first('discord_id');
+      if (!user?.discord_id) return;
+
+      if (conn.isTransaction) {
+        try {
+          await (conn as Knex.Transaction).executionPromise;
+        } catch {
+          return;
+        }
+      }
+
+      await new DiscordRoleSyncService().syncMemberRoles(organizationId, userId, user.discord_id);
+    };
+
+    sync().catch(error => {
+      logger.error(`Failed to sync Discord roles for user ${userId}:`, error);
+    });
+  }
+
+  /**
+   * Apply a member's current organization roles to the connected Discord server.
+   * Called after a role change or removal; members who left lose every mapped role.
+   * Pass the Discord account when the user record may no longer carry it.
+   */
+  async syncMemberRoles(organizationId: string, userId: string, discordId?: string): Promise<void> {
+    try {
+      const server = await this.discordServerModel.findByOrganizationId(organizationId);
+      if (!server || !server.is_active) return;
+
+      const mappings = await this.discordRoleMappingModel.findByServerId(server.id);
+      if (mappings.length === 0) return;
+
+      const memberDiscordId = discordId || (await this.userModel.findById(userId))?.discord_id;
+      if (!memberDiscordId) return;
+
+      let currentRoles: string[];
+      try {
+        const member = await this.discordService.getGuildMember(server.discord_guild_id, memberDiscordId);
+        currentRoles = member.roles;
+      } catch (error) {
+        // Not in the guild (or unreachable) - the reconciliation job will pick them up later
+        logger.debug(`Skipping Discord role sync for user ${userId}: member not available`);
+        return;
+      }
+
+      const roleIds = await this.roleModel.getUserRoleIds(organizationId, userId);
+      const desired = this.getDesiredDiscordRoles(mappings, roleIds);
+
+      for (const mapping of mappings) {
+        const hasRole = currentRoles.includes(mapping.discord_role_id);
+        const wantsRole = desired.has(mapping.discord_role_id);
+
+        if (wantsRole && !hasRole) {
+          await this.discordService.addGuildMemberRole(server.discord_guild_id, memberDiscordId, mapping.discord_role_id);
+        } else if (!wantsRole && hasRole) {
+          await this.discordService.removeGuildMemberRole(server.discord_guild_id, memberDiscordId, mapping.discord_role_id);
+        }
+      }
+
+      logger.info(`Synced Discord roles for user ${userId} in guild ${server.discord_guild_id}`);
+
+    } catch (error) {
+      logger.error(`Failed to sync Discord roles for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Reconcile every active server with role mappings, fixing drift where the server opted in
+   */
+  async reconcileAllServers(): Promise<DiscordRoleReconciliationReport[]> {
+    const reports: DiscordRoleReconciliationReport[] = [];
+
+    try {
+      const servers = await this.discordServerModel.listActive();
+      logger.info(`Starting Discord role reconciliation for ${servers.length} servers`);
+
+      for (let i = 0; i < servers.length; i++) {
+        try {
+          const report = await this.reconcileServer(servers[i], servers[i].role_sync_auto_fix);
+          if (report) reports.push(report);
+        } catch (error) {
+          logger.error(`Failed to reconcile Discord roles for guild ${servers[i].discord_guild_id}:`, error);
+        }
+
+        if (i < servers.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, this.discordApiDelayMs));
+        }
+      }
+
+      logger.info('Completed Discord role reconciliation');
+
+    } catch (error) {
+      logger.error('Failed to run Discord role reconciliation:', error);
+    }
+
+    return reports;
+  }
+
+  /**
+   * Compare mapped Discord roles with organization roles in both directions:
+   * members missing the Discord role for their organization role, and guild members
+   * holding a mapped Discord role they no longer qualify for (including non-members).
+   * Returns null when the server has no mappings.
+   */
+  async reconcileServer(server: DiscordServer, fix: boolean): Promise<DiscordRoleReconciliationReport | null> {
+    const mappings = await this.discordRoleMappingModel.findByServerId(server.id);
+    if (mappings.length === 0) return null;
+
+    const guildId = server.discord_guild_id;
+    const [guildMembers, platformMembers] = await Promise.all([
+      this.discordService.getAllGuildMembers(guildId),
+      this.discordRoleMappingModel.getLinkedMembers(server.organization_id),
+    ]);
+
+    const platformByDiscordId = new Map(platformMembers.map(member => [member.discord_id, member]));
+    const mappingByDiscordRole = new Map(mappings.map(mapping => [mapping.discord_role_id, mapping]));
+    const drift: DiscordRoleDrift[] = [];
+
+    for (const guildMember of guildMembers) {
+      if (!guildMember.user || guildMember.user.bot) continue;
+
+      const discordUserId = guildMember.user.id;
+      const platformMember = platformByDiscordId.get(discordUserId);
+      const desired = this.getDesiredDiscordRoles(mappings, platformMember?.role_ids || []);
+
+      for (const discordRoleId of desired) {
+        if (!guildMember.roles.includes(discordRoleId)) {
+          drift.push({
+            discord_user_id: discordUserId,
+            user_id: platformMember?.user_id || null,
+            rsi_handle: platformMember?.rsi_handle || null,
+            discord_role_id: discordRoleId,
+            organization_role_id: mappingByDiscordRole.get(discordRoleId)!.organization_role_id,
+            type: 'missing',
+          });
+        }
+      }
+
+      for (const discordRoleId of guildMember.roles) {
+        const mapping = mappingByDiscordRole.get(discordRoleId);
+        if (mapping && !desired.has(discordRoleId)) {
+          drift.push({
+            discord_user_id: discordUserId,
+            user_id: platformMember?.user_id || null,
+            rsi_handle: platformMember?.rsi_handle || null,
+            discord_role_id: discordRoleId,
+            organization_role_id: mapping.organization_role_id,
+            type: 'extra',
+          });
+        }
+      }
+    }
+
+    let fixed = 0;
+    let failed = 0;
+    if (fix) {
+      for (const item of drift) {
+        try {
+          if (item.type === 'missing') {
+            await this.discordService.addGuildMemberRole(guildId, item.discord_user_id, item.discord_role_id);
+          } else {
+            await this.discordService.removeGuildMemberRole(guildId, item.discord_user_id, item.discord_role_id);
+          }
+          fixed++;
+        } catch (error) {
+          failed++;
+        }
+      }
+    }
+
+    const checkedAt = new Date();
+    await this.discordServerModel.update(server.id, { role_sync_checked_at: checkedAt });
+
+    if (drift.length > 0) {
+      logger.warn(`Discord role drift detected in guild ${guildId}`, {
+        drift: drift.length,
+        fixed,
+        failed,
+      });
+    }
+
+    return {
+      discord_server_id: server.id,
+      discord_guild_id: guildId,
+      checked_at: checkedAt,
+      members_checked: guildMembers.length,
+      drift,
+      fixed,
+      failed,
+    };
+  }
+
+  // Discord roles a member should hold for the given organization roles
+  private getDesiredDiscordRoles(
+    mappings: DiscordRoleMappingWithRole[],
+    organizationRoleIds: string[]
+  ): Set<string> {
+    return new Set(
+      mappings
+        .filter(mapping => organizationRoleIds.includes(mapping.organization_role_id))
+        .map(mapping => mapping.discord_role_id)
+    );
+  }
+}
@@ -4,6 +4,7 @@ import type {
   APIChannel,
   APIGuildMember,
   APIGuildScheduledEvent,
+  APIRole,
   APIEmbed,
   APIWebhook,
   APIMessage,
@@ -18,6 +19,8 @@ import {
   ApplicationCommandType,
   ApplicationCommandOptionType,
   InteractionResponseType,
+  ChannelType,
+  OverwriteType,
 } from 'discord-api-types/v10';
 import { Event } from '../types/event';
 import logger from '../config/logger';
@@ -120,6 +123,62 @@ export class DiscordService {
     }
   }
 
+  async getGuildRoles(guildId: string): Promise<APIRole[]> {
+    try {
+      const response: AxiosResponse<APIRole[]> = await this.axiosClient.get(`/guilds/${guildId}/roles`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get roles for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Page through every member of a guild (the members endpoint returns at most 1000 per request)
+   */
+  async getAllGuildMembers(guildId: string): Promise<APIGuildMember[]> {
+    const pageSize = 1000;
+    const members: APIGuildMember[] = [];
+    let after = '0';
+
+    try {
+      while (true) {
+        const response: AxiosResponse<APIGuildMember[]> = await this.axiosClient.get(
+          `/guilds/${guildId}/members`,
+          { params: { limit: pageSize, after } }
+        );
+        members.push(...response.data);
+
+        const last = response.data[response.data.length - 1];
+        if (response.data.length < pageSize || !last?.user) break;
+        after = last.user.id;
+      }
+
+      return members;
+    } catch (error) {
+      logger.error(`Failed to list all members for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async addGuildMemberRole(guildId: string, userId: string, roleId: string): Promise<void> {
+    try {
+      await this.axiosClient.put(`/guilds/${guildId}/members/${userId}/roles/${roleId}`);
+    } catch (error) {
+      logger.error(`Failed to add role ${roleId} to member ${userId} in guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async removeGuildMemberRole(guildId: string, userId: string, roleId: string): Promise<void> {
+    try {
+      await this.axiosClient.delete(`/guilds/${guildId}/members/${userId}/roles/${roleId}`);
+    } catch (error) {
+      logger.error(`Failed to remove role ${roleId} from member ${userId} in guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
   async verifyBotPermissions(guildId: string): Promise<boolean> {
     try {
       // Get guild info to check bot permissions
@@ -242,7 +301,7 @@ export class DiscordService {
     }
   }
 
-  private async getBotUserId(): Promise<string> {
+  async getBotUserId(): Promise<string> {
     try {
       const response = await this.axiosClient.get('/users/@me');
       return response.data.id;
@@ -365,6 +424,34 @@ export class DiscordService {
     }
   }
 
+  /**
+   * Schedule an event held in a voice channel, visible to server members only
+   */
+  async createVoiceChannelEvent(
+    guildId: string,
+    channelId: string,
+    eventData: { name: string; description?: string; start_time: Date; end_time: Date }
+  ): Promise<string> {
+    try {
+      const response: AxiosResponse<APIGuildScheduledEvent> = await this.axiosClient.post(
+        `/guilds/${guildId}/scheduled-events`,
+        {
+          name: eventData.name,
+          description: eventData.description,
+          channel_id: channelId,
+          scheduled_start_time: eventData.start_time.toISOString(),
+          scheduled_end_time: eventData.end_time.toISOString(),
+          privacy_level: GuildScheduledEventPrivacyLevel.GuildOnly,
+          entity_type: GuildScheduledEventEntityType.Voice,
+        }
+      );
+      return response.data.id;
+    } catch (error) {
+      logger.error(`Failed to create voice channel event in guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
   // Channel Management Methods
 
   async sendMessage(channelId: string, content: string, embed?: APIEmbed): Promise<APIMessage> {
@@ -376,6 +463,56 @@ export class DiscordService {
     }
   }
 
+  async sendDirectMessage(discordUserId: string, content: string, embed?: APIEmbed): Promise<APIMessage> {
+    try {
+      // Discord returns the existing DM channel if one is already open
+      const channel: AxiosResponse<APIChannel> = await this.axiosClient.post('/users/@me/channels', {
+        recipient_id: discordUserId,
+      });
+      return await this.discordClient.sendMessage(channel.data.id, content, embed);
+    } catch (error) {
+      logger.error(`Failed to send direct message to Discord user ${discordUserId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a voice channel hidden from everyone but the bot and the given Discord users
+   */
+  async createPrivateVoiceChannel(
+    guildId: string,
+    name: string,
+    discordUserIds: string[]
+  ): Promise<APIChannel> {
+    try {
+      const allow = String(PermissionFlagsBits.ViewChannel | PermissionFlagsBits.Connect | PermissionFlagsBits.Speak);
+      const botUserId = await this.getBotUserId();
+
+      const response: AxiosResponse<APIChannel> = await this.axiosClient.post(`/guilds/${guildId}/channels`, {
+        name,
+        type: ChannelType.GuildVoice,
+        permission_overwrites: [
+          // The @everyone role shares the guild's ID
+          { id: guildId, type: OverwriteType.Role, deny: String(PermissionFlagsBits.ViewChannel) },
+          ...[botUserId, ...discordUserIds].map(id => ({ id, type: OverwriteType.Member, allow })),
+        ],
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to create private voice channel in guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteChannel(channelId: string): Promise<void> {
+    try {
+      await this.axiosClient.delete(`/channels/${channelId}`);
+    } catch (error) {
+      logger.error(`Failed to delete channel ${channelId}:`, error);
+      throw error;
+    }
+  }
+
   async createWebhook(channelId: string, name: string = 'SC-Orgs Bot'): Promise<APIWebhook> {
     try {
       const webhookData = {
@@ -453,6 +590,7 @@ export class DiscordService {
   async generateBotInviteUrl(clientId: string, guildId?: string): Promise<string> {
     const requiredPermissions = 
       BigInt(8589934592) | // ManageEvents
+      BigInt(268435456) |  // ManageRoles (role sync)
       BigInt(2048) |       // SendMessages
       BigInt(16384) |      // EmbedLinks
       BigInt(65536) |      // ReadMessageHistory
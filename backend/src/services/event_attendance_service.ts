@@ -0,0 +1,298 @@
+import { randomInt } from 'crypto';
+import { EventModel } from '../models/event_model';
+import { HROnboardingService } from './hr_onboarding_service';
+import {
+  Event,
+  EventAttendanceSource,
+  EventAttendanceStatus,
+  EventAttendanceSummary,
+  EventCheckInCode,
+  EventRegistration,
+  UserAttendanceHistory,
+  UserAttendanceRecord,
+} from '../types/event';
+import logger from '../config/logger';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes are easy to read aloud
+const CHECK_IN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CHECK_IN_CODE_LENGTH = 6;
+
+// Default and maximum lifetime of a check-in code
+const DEFAULT_CHECK_IN_CODE_MINUTES = 15;
+const MAX_CHECK_IN_CODE_MINUTES = 4 * 60;
+
+// Registration statuses that can be checked in
+const CHECK_IN_ELIGIBLE_STATUSES = ['registered', 'confirmed', 'no_show'];
+
+export interface CheckInResult {
+  checkedIn: boolean;
+  reason?: string;
+  registration?: EventRegistration;
+  event?: Event;
+}
+
+export class EventAttendanceService {
+  private eventModel: EventModel;
+  private onboardingService: HROnboardingService;
+  private readonly defaultCodeMinutes: number;
+
+  constructor() {
+    this.eventModel = new EventModel();
+    this.onboardingService = new HROnboardingService();
+    this.defaultCodeMinutes = parseInt(
+      process.env.EVENT_CHECK_IN_CODE_MINUTES ||
+        String(DEFAULT_CHECK_IN_CODE_MINUTES)
+    );
+  }
+
+  /**
+   * Work out when a new check-in code expires. Codes never outlive the event.
+   */
+  getCodeExpiry(
+    event: Event,
+    ttlMinutes?: number,
+    now: Date = new Date()
+  ): Date {
+    const minutes = Math.min(
+      Math.max(ttlMinutes ?? this.defaultCodeMinutes, 1),
+      MAX_CHECK_IN_CODE_MINUTES
+    );
+    const expiry = new Date(now.getTime() + minutes * 60 * 1000);
+    const endTime = new Date(event.end_time);
+    return expiry > endTime ? endTime : expiry;
+  }
+
+  /**
+   * Issue a fresh check-in code for an event, replacing any previous one
+   */
+  async openCheckIn(
+    event: Event,
+    createdBy: string,
+    ttlMinutes?: number
+  ): Promise<EventCheckInCode> {
+    const checkInCode = await this.eventModel.setCheckInCode({
+      event_id: event.id,
+      organization_id: event.organization_id || null,
+      code: this.generateCode(),
+      expires_at: this.getCodeExpiry(event, ttlMinutes),
+      created_by: createdBy,
+    });
+
+    logger.info(
+      `Opened check-in for event ${event.id} until ${checkInCode.expires_at}`
+    );
+
+    return checkInCode;
+  }
+
+  async closeCheckIn(eventId: string): Promise<boolean> {
+    return this.eventModel.deleteCheckInCode(eventId);
+  }
+
+  async getActiveCheckInCode(
+    eventId: string,
+    now: Date = new Date()
+  ): Promise<EventCheckInCode | null> {
+    const checkInCode = await this.eventModel.getCheckInCode(eventId);
+    if (!checkInCode || new Date(checkInCode.expires_at) <= now) return null;
+    return checkInCode;
+  }
+
+  /**
+   * Check a member in to a specific event with the code shown by the organizer
+   */
+  async checkInWithCode(
+    eventId: string,
+    userId: string,
+    code: string,
+    source: EventAttendanceSource = 'check_in_code'
+  ): Promise<CheckInResult> {
+    const checkInCode = await this.getActiveCheckInCode(eventId);
+    if (!checkInCode || checkInCode.code !== this.normalizeCode(code)) {
+      return { checkedIn: false, reason: 'Invalid or expired check-in code' };
+    }
+
+    return this.checkInRegistration(eventId, userId, source);
+  }
+
+  /**
+   * Check a member in using only an organization and a code, for clients
+   * that don't know which event the code belongs to (e.g. Discord)
+   */
+  async checkInByOrganizationCode(
+    organizationId: string,
+    userId: string,
+    code: string,
+    source: EventAttendanceSource = 'discord'
+  ): Promise<CheckInResult> {
+    const checkInCode = await this.eventModel.findActiveCheckInCode(
+      organizationId,
+      this.normalizeCode(code),
+      new Date()
+    );
+    if (!checkInCode) {
+      return { checkedIn: false, reason: 'Invalid or expired check-in code' };
+    }
+
+    return this.checkInRegistration(checkInCode.event_id, userId, source);
+  }
+
+  /**
+   * Bulk mark registrations as attended or no-show (organizer roster)
+   */
+  async markAttendance(
+    eventId: string,
+    userIds: string[],
+    status: EventAttendanceStatus,
+    markedBy: string
+  ): Promise<EventRegistration[]> {
+    const updated = await this.eventModel.markAttendance(
+      eventId,
+      userIds,
+      status,
+      markedBy,
+      'organizer'
+    );
+
+    logger.info(
+      `Marked ${updated.length} registration(s) as ${status} for event ${eventId}`
+    );
+
+    if (status === 'attended' && updated.length > 0) {
+      await this.onboardingService.handleEventAttendance(
+        eventId,
+        updated.map(registration => registration.user_id)
+      );
+    }
+
+    return updated;
+  }
+
+  async getRoster(eventId: string): Promise<{
+    roster: any[];
+    summary: EventAttendanceSummary;
+  }> {
+    const roster = await this.eventModel.getAttendanceRoster(eventId);
+
+    const attended = roster.filter(entry => entry.status === 'attended').length;
+    const noShows = roster.filter(entry => entry.status === 'no_show').length;
+
+    return {
+      roster,
+      summary: {
+        total_registered: roster.length,
+        attended,
+        no_shows: noShows,
+        unmarked: roster.length - attended - noShows,
+      },
+    };
+  }
+
+  /**
+   * Attendance history for a member across ended events, optionally limited to one organization
+   */
+  async getUserAttendanceHistory(
+    userId: string,
+    options: { organizationId?: string; since?: Date } = {}
+  ): Promise<UserAttendanceHistory> {
+    const records = await this.eventModel.getUserAttendanceRecords(userId, {
+      organizationId: options.organizationId,
+      since: options.since,
+      before: new Date(),
+    });
+
+    return {
+      user_id: userId,
+      ...EventAttendanceService.summarizeRecords(records),
+      events: records,
+    };
+  }
+
+  /**
+   * Attendance and no-show rates only count events where attendance was
+   * actually recorded; unmarked registrations are reported separately.
+   */
+  static summarizeRecords(
+    records: Pick<UserAttendanceRecord, 'status'>[]
+  ): Omit<UserAttendanceHistory, 'user_id' | 'events'> {
+    const attended = records.filter(record => record.status === 'attended')
+      .length;
+    const noShows = records.filter(record => record.status === 'no_show').length;
+    const marked = attended + noShows;
+
+    return {
+      total_events: records.length,
+      attended,
+      no_shows: noShows,
+      unmarked: records.length - marked,
+      attendance_rate:
+        marked > 0 ? Math.round((attended / marked) * 10000) / 100 : 0,
+      no_show_rate:
+        marked > 0 ? Math.round((noShows / marked) * 10000) / 100 : 0,
+    };
+  }
+
+  private async checkInRegistration(
+    eventId: string,
+    userId: string,
+    source: EventAttendanceSource
+  ): Promise<CheckInResult> {
+    const event = await this.eventModel.findById(eventId);
+    if (!event || !event.is_active) {
+      return { checkedIn: false, reason: 'Event not found' };
+    }
+
+    const registration = await this.eventModel.getUserRegistration(
+      eventId,
+      userId
+    );
+    if (!registration) {
+      return {
+        checkedIn: false,
+        reason: 'You are not registered for this event',
+        event,
+      };
+    }
+
+    if (registration.status === 'attended') {
+      return { checkedIn: true, registration, event };
+    }
+
+    if (!CHECK_IN_ELIGIBLE_STATUSES.includes(registration.status)) {
+      return {
+        checkedIn: false,
+        reason:
+          registration.status === 'waitlisted'
+            ? 'You are on the waitlist for this event'
+            : 'Your registration for this event was cancelled',
+        event,
+      };
+    }
+
+    const [updated] = await this.eventModel.markAttendance(
+      eventId,
+      [userId],
+      'attended',
+      userId,
+      source
+    );
+
+    logger.info(`User ${userId} checked in to event ${eventId} via ${source}`);
+
+    await this.onboardingService.handleEventAttendance(eventId, [userId]);
+
+    return { checkedIn: true, registration: updated, event };
+  }
+
+  private generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CHECK_IN_CODE_LENGTH; i++) {
+      code += CHECK_IN_CODE_ALPHABET[randomInt(CHECK_IN_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase().replace(/[\s-]/g, '');
+  }
+}
@@ -1,16 +1,38 @@
 import { EventModel } from '../models/event_model';
+import {
+  HRInterviewModel,
+  HRInterviewSlotWithUsers,
+  InterviewReminderType,
+} from '../models/hr_interview_model';
+import {
+  HRMentorshipCheckInWithUsers,
+  HRMentorshipModel,
+} from '../models/hr_mentorship_model';
 import { NotificationService } from './notification_service';
 import { NotificationEntityType } from '../types/notification';
 import logger from '../config/logger';
 import db from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 
+// Closest reminder first, so an interview booked at short notice skips the 24h one
+const INTERVIEW_REMINDER_LEAD_TIMES: Array<[InterviewReminderType, number]> = [
+  ['1h', 60 * 60 * 1000],
+  ['24h', 24 * 60 * 60 * 1000],
+];
+
+// Mentors and mentees hear about a check-in a day ahead
+const CHECK_IN_REMINDER_LEAD_TIME = 24 * 60 * 60 * 1000;
+
 export class EventReminderService {
   private eventModel: EventModel;
+  private interviewModel: HRInterviewModel;
+  private mentorshipModel: HRMentorshipModel;
   private notificationService: NotificationService;
 
   constructor() {
     this.eventModel = new EventModel();
+    this.interviewModel = new HRInterviewModel();
+    this.mentorshipModel = new HRMentorshipModel();
     this.notificationService = new NotificationService();
   }
 
@@ -120,6 +142,137 @@ export class EventReminderService {
     }
   }
 
+  /**
+   * Send a reminder for a booked interview to the applicant and the interviewer
+   */
+  async sendInterviewReminder(
+    interview: HRInterviewSlotWithUsers,
+    reminderType: InterviewReminderType
+  ): Promise<void> {
+    const notifierIds = [interview.interviewer_id, interview.applicant_id].filter(
+      (id): id is string => !!id
+    );
+    const startsIn = reminderType === '24h' ? '24 hours' : '1 hour';
+
+    await this.notificationService.createCustomEventNotification(
+      NotificationEntityType.HR_INTERVIEW_REMINDER,
+      interview.id,
+      'system',
+      notifierIds,
+      'Interview Reminder',
+      `Reminder: The interview of ${interview.applicant_rsi_handle || 'an applicant'} with ${interview.interviewer_rsi_handle || 'a recruiter'} is starting in ${startsIn}!`,
+      {
+        reminderType,
+        application_id: interview.application_id,
+        organization_id: interview.organization_id,
+        rsi_org_id: interview.rsi_org_id,
+        start_time: interview.start_time,
+      }
+    );
+
+    logger.info(
+      `Sent ${reminderType} reminder for interview ${interview.id} to ${notifierIds.length} participants`
+    );
+  }
+
+  /**
+   * Send every interview reminder that is due and record it as sent
+   */
+  async sendDueInterviewReminders(now: Date = new Date()): Promise<number> {
+    let sent = 0;
+
+    for (const [reminderType, leadTimeMs] of INTERVIEW_REMINDER_LEAD_TIMES) {
+      const interviews = await this.interviewModel.findDueReminders(
+        reminderType,
+        leadTimeMs,
+        now
+      );
+
+      for (const interview of interviews) {
+        try {
+          // A 1h reminder makes a pending 24h one pointless
+          if (reminderType === '24h' && interview.reminder_1h_sent_at) {
+            await this.interviewModel.markReminderSent(interview.id, '24h');
+            continue;
+          }
+
+          await this.sendInterviewReminder(interview, reminderType);
+          await this.interviewModel.markReminderSent(interview.id, reminderType);
+          sent++;
+        } catch (error) {
+          logger.error(
+            `Error sending ${reminderType} reminder for interview ${interview.id}:`,
+            error
+          );
+        }
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Remind the mentor and the mentee of an upcoming mentorship check-in
+   */
+  async sendMentorshipCheckInReminder(
+    checkIn: HRMentorshipCheckInWithUsers,
+    now: Date = new Date()
+  ): Promise<void> {
+    const scheduledFor = new Date(checkIn.scheduled_for);
+    const message =
+      scheduledFor <= now
+        ? `Reminder: The mentorship check-in of ${checkIn.mentor_rsi_handle} with ${checkIn.mentee_rsi_handle} is due!`
+        : `Reminder: The mentorship check-in of ${checkIn.mentor_rsi_handle} with ${checkIn.mentee_rsi_handle} is due within 24 hours!`;
+
+    await this.notificationService.createCustomEventNotification(
+      NotificationEntityType.HR_MENTORSHIP_CHECK_IN_REMINDER,
+      checkIn.id,
+      'system',
+      [checkIn.mentor_id, checkIn.mentee_id],
+      'Mentorship Check-in Reminder',
+      message,
+      {
+        mentorship_id: checkIn.mentorship_id,
+        organization_id: checkIn.organization_id,
+        rsi_org_id: checkIn.rsi_org_id,
+        scheduled_for: checkIn.scheduled_for,
+      }
+    );
+
+    logger.info(
+      `Sent reminder for mentorship check-in ${checkIn.id} of mentorship ${checkIn.mentorship_id}`
+    );
+  }
+
+  /**
+   * Send every mentorship check-in reminder that is due and record it as sent
+   */
+  async sendDueMentorshipCheckInReminders(
+    now: Date = new Date()
+  ): Promise<number> {
+    let sent = 0;
+
+    const checkIns = await this.mentorshipModel.findDueCheckInReminders(
+      CHECK_IN_REMINDER_LEAD_TIME,
+      now
+    );
+
+    for (const checkIn of checkIns) {
+      try {
+        await this.sendMentorshipCheckInReminder(checkIn, now);
+        await this.mentorshipModel.markCheckInReminderSent(checkIn.id);
+        sent++;
+      } catch (error) {
+        logger.error(
+          `Error sending reminder for mentorship check-in ${checkIn.id}:`,
+          error
+        );
+      }
+    }
+
+    return sent;
+  }
+
   /**
    * Create scheduled tasks for an event (only future tasks)
    */
@@ -217,6 +370,54 @@ export class EventReminderService {
     }
   }
 
+  /**
+   * Create scheduled tasks for every upcoming occurrence of a recurring series
+   * up to the end of the rolling window
+   */
+  async createSeriesScheduledTasks(
+    seriesId: string,
+    windowEnd: Date
+  ): Promise<void> {
+    try {
+      const now = new Date();
+      const occurrences = await this.eventModel.getSeriesOccurrences(seriesId, {
+        from: now,
+      });
+      const upcoming = occurrences.filter(
+        occurrence =>
+          occurrence.is_active &&
+          new Date(occurrence.start_time) > now &&
+          new Date(occurrence.start_time) <= windowEnd
+      );
+
+      for (const occurrence of upcoming) {
+        await this.createEventScheduledTasks(
+          occurrence.id,
+          new Date(occurrence.start_time)
+        );
+      }
+
+      // Occurrences starting within the next cron cycle need their tasks scheduled now
+      const next30Minutes = new Date(now.getTime() + 30 * 60 * 1000);
+      const occurrenceIds = new Set(upcoming.map(occurrence => occurrence.id));
+      const dueTasks = (
+        await this.getTasksDueBetween(now, next30Minutes)
+      ).filter(task => occurrenceIds.has(task.event_id));
+
+      const taskScheduler = (global as any).taskScheduler;
+      if (dueTasks.length > 0 && taskScheduler) {
+        await taskScheduler.scheduleTasksImmediately(dueTasks);
+      }
+
+      logger.info(
+        `Created scheduled tasks for ${upcoming.length} occurrences of series ${seriesId}`
+      );
+    } catch (error) {
+      logger.error('Error creating scheduled tasks for event series:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get tasks due between two dates
    */
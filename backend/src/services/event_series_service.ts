@@ -0,0 +1,638 @@
+import { EventModel } from '../models/event_model';
+import { EventSeriesModel } from '../models/event_series_model';
+import { EventReminderService } from './event_reminder_service';
+import { EventSyncService } from './event_sync_service';
+import {
+  Event,
+  EventSeries,
+  EventRecurrenceRule,
+  EventSeriesEditScope,
+  CreateEventData,
+  UpdateEventData,
+} from '../types/event';
+import {
+  expandRecurrence,
+  normalizeRecurrenceRule,
+} from '../utils/recurrence';
+import db from '../config/database';
+import logger from '../config/logger';
+
+type SeriesTemplate = EventSeries['template'];
+
+// Event fields that are copied from the series template onto each occurrence
+const TEMPLATE_FIELDS = [
+  'title',
+  'description',
+  'location',
+  'languages',
+  'playstyle_tags',
+  'activity_tags',
+  'max_participants',
+  'waitlist_confirmation_minutes',
+  'is_public',
+  'slots',
+] as const;
+
+export class EventSeriesService {
+  private eventModel: EventModel;
+  private eventSeriesModel: EventSeriesModel;
+  private eventReminderService: EventReminderService;
+  private eventSyncService: EventSyncService;
+  private readonly windowDays: number;
+
+  constructor() {
+    this.eventModel = new EventModel();
+    this.eventSeriesModel = new EventSeriesModel();
+    this.eventReminderService = new EventReminderService();
+    this.eventSyncService = new EventSyncService();
+
+    // How far ahead occurrences, reminders and Discord events are generated (default 30 days)
+    this.windowDays = parseInt(process.env.EVENT_SERIES_WINDOW_DAYS || '30', 10);
+  }
+
+  /**
+   * End of the rolling generation window
+   */
+  getWindowEnd(from: Date = new Date()): Date {
+    return new Date(from.getTime() + this.windowDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Preview occurrence start times for a rule without persisting anything
+   */
+  previewOccurrences(
+    recurrence: EventRecurrenceRule,
+    seriesStart: Date,
+    windowEnd: Date = this.getWindowEnd()
+  ): Date[] {
+    return expandRecurrence(recurrence, seriesStart, seriesStart, windowEnd);
+  }
+
+  /**
+   * Create a recurring series from event data and materialize its first occurrences
+   */
+  async createSeries(
+    eventData: CreateEventData
+  ): Promise<{ series: EventSeries; occurrences: Event[] }> {
+    if (!eventData.recurrence) {
+      throw new Error('Recurrence rule is required to create an event series');
+    }
+
+    const seriesStart = new Date(eventData.start_time);
+    const durationMinutes = Math.round(
+      (new Date(eventData.end_time).getTime() - seriesStart.getTime()) / 60000
+    );
+
+    const series = await this.eventSeriesModel.create({
+      organization_id: eventData.organization_id || null,
+      created_by: eventData.created_by,
+      recurrence: normalizeRecurrenceRule(eventData.recurrence, seriesStart),
+      series_start: seriesStart,
+      duration_minutes: durationMinutes,
+      template: this.buildTemplate(eventData),
+    });
+
+    logger.info(`Created event series ${series.id}`, {
+      organization_id: series.organization_id,
+      frequency: series.recurrence.frequency,
+    });
+
+    const occurrences = await this.generateOccurrences(series);
+    return { series, occurrences };
+  }
+
+  /**
+   * Materialize occurrences up to the end of the rolling window, then schedule
+   * reminders and Discord events for them
+   */
+  async generateOccurrences(
+    series: EventSeries,
+    windowEnd: Date = this.getWindowEnd()
+  ): Promise<Event[]> {
+    const seriesStart = new Date(series.series_start);
+    const windowStart = series.generated_until
+      ? new Date(new Date(series.generated_until).getTime() + 1)
+      : seriesStart;
+
+    const created: Event[] = [];
+
+    if (windowStart <= windowEnd) {
+      const starts = expandRecurrence(
+        series.recurrence,
+        seriesStart,
+        windowStart,
+        windowEnd
+      );
+
+      for (const start of starts) {
+        const event = await this.eventModel.createOccurrence(
+          series.id,
+          start,
+          this.buildOccurrenceData(series, start)
+        );
+        if (event) {
+          created.push(event);
+        }
+      }
+
+      await this.eventSeriesModel.update(series.id, {
+        generated_until: windowEnd,
+      });
+    }
+
+    if (created.length > 0) {
+      logger.info(
+        `Generated ${created.length} occurrences for event series ${series.id}`
+      );
+      await this.scheduleSeries(series.id);
+    }
+
+    return created;
+  }
+
+  /**
+   * Extend every active series to the current rolling window (run by the task scheduler)
+   */
+  async extendActiveSeries(): Promise<number> {
+    const windowEnd = this.getWindowEnd();
+    const seriesList =
+      await this.eventSeriesModel.listNeedingGeneration(windowEnd);
+    let generated = 0;
+
+    for (const series of seriesList) {
+      try {
+        const occurrences = await this.generateOccurrences(series, windowEnd);
+        generated += occurrences.length;
+      } catch (error) {
+        logger.error(`Failed to extend event series ${series.id}:`, error);
+      }
+    }
+
+    logger.info(
+      `Extended ${seriesList.length} event series, generated ${generated} occurrences`
+    );
+    return generated;
+  }
+
+  /**
+   * Get a series with its materialized occurrences
+   */
+  async getSeriesWithOccurrences(
+    seriesId: string
+  ): Promise<{ series: EventSeries; occurrences: Event[] } | null> {
+    const series = await this.eventSeriesModel.findById(seriesId);
+    if (!series) return null;
+
+    const occurrences = await this.eventModel.getSeriesOccurrences(seriesId);
+    return { series, occurrences };
+  }
+
+  /**
+   * Update an occurrence of a series for the requested scope
+   */
+  async updateOccurrence(
+    event: Event,
+    updateData: UpdateEventData & { recurrence?: EventRecurrenceRule },
+    scope: EventSeriesEditScope
+  ): Promise<Event | null> {
+    const series = event.series_id
+      ? await this.eventSeriesModel.findById(event.series_id)
+      : null;
+    if (!series) {
+      throw new Error(`Event ${event.id} is not part of a recurring series`);
+    }
+
+    if (scope === 'this') {
+      const { recurrence: _recurrence, ...occurrenceData } = updateData;
+      const updated = await this.eventModel.update(event.id, {
+        ...occurrenceData,
+        is_series_exception: true,
+      });
+
+      if (updated) {
+        await this.refreshOccurrence(
+          updated,
+          new Date(updated.start_time).getTime() !==
+            new Date(event.start_time).getTime()
+        );
+      }
+      return updated;
+    }
+
+    const anchor = new Date(event.occurrence_start || event.start_time);
+
+    // The edited occurrence follows the series again, even if it was detached before
+    if (event.is_series_exception) {
+      await this.eventModel.update(event.id, { is_series_exception: false });
+    }
+
+    if (scope === 'following') {
+      const newSeries = await this.splitSeries(series, anchor);
+      await this.applySeriesUpdate(newSeries, event, updateData, anchor);
+    } else {
+      // Past occurrences are history; "all" only rewrites upcoming ones
+      const now = new Date();
+      await this.applySeriesUpdate(series, event, updateData, now);
+    }
+
+    return this.eventModel.findById(event.id);
+  }
+
+  /**
+   * Delete an occurrence of a series for the requested scope
+   */
+  async deleteOccurrence(
+    event: Event,
+    scope: EventSeriesEditScope
+  ): Promise<void> {
+    const series = event.series_id
+      ? await this.eventSeriesModel.findById(event.series_id)
+      : null;
+    if (!series) {
+      throw new Error(`Event ${event.id} is not part of a recurring series`);
+    }
+
+    const anchor = new Date(event.occurrence_start || event.start_time);
+
+    if (scope === 'this') {
+      await this.eventSeriesModel.update(series.id, {
+        recurrence: {
+          ...series.recurrence,
+          exceptions: [
+            ...(series.recurrence.exceptions || []),
+            anchor.toISOString(),
+          ],
+        },
+      });
+      await this.removeOccurrences([event]);
+      return;
+    }
+
+    const from = scope === 'following' ? anchor : new Date();
+    const occurrences = await this.eventModel.getSeriesOccurrences(series.id, {
+      from,
+    });
+    await this.removeOccurrences(occurrences);
+
+    if (scope === 'following') {
+      await this.eventSeriesModel.update(series.id, {
+        recurrence: {
+          ...series.recurrence,
+          until: new Date(anchor.getTime() - 1).toISOString(),
+        },
+      });
+    } else {
+      await this.eventSeriesModel.update(series.id, { is_active: false });
+    }
+
+    logger.info(
+      `Deleted ${occurrences.length} occurrences of event series ${series.id} (scope: ${scope})`
+    );
+  }
+
+  /**
+   * End the current series before the anchor and continue it as a new series
+   */
+  private async splitSeries(
+    series: EventSeries,
+    anchor: Date
+  ): Promise<EventSeries> {
+    const seriesStart = new Date(series.series_start);
+    // The new series gets whatever is left of the count; excluded dates before
+    // the anchor used up their slots too
+    const count =
+      series.recurrence.count !== undefined
+        ? series.recurrence.count -
+          expandRecurrence(
+            { ...series.recurrence, exceptions: [] },
+            seriesStart,
+            seriesStart,
+            new Date(anchor.getTime() - 1)
+          ).length
+        : undefined;
+
+    const newSeries = await this.eventSeriesModel.create({
+      organization_id: series.organization_id,
+      created_by: series.created_by,
+      recurrence: {
+        ...series.recurrence,
+        count,
+        exceptions: (series.recurrence.exceptions || []).filter(
+          date => new Date(date) >= anchor
+        ),
+      },
+      series_start: anchor,
+      duration_minutes: series.duration_minutes,
+      template: series.template,
+    });
+
+    const following = await this.eventModel.getSeriesOccurrences(series.id, {
+      from: anchor,
+    });
+    for (const occurrence of following) {
+      await this.eventModel.update(occurrence.id, { series_id: newSeries.id });
+    }
+
+    await this.eventSeriesModel.update(series.id, {
+      recurrence: {
+        ...series.recurrence,
+        until: new Date(anchor.getTime() - 1).toISOString(),
+      },
+    });
+    await this.eventSeriesModel.update(newSeries.id, {
+      generated_until: series.generated_until || null,
+    });
+
+    logger.info(`Split event series ${series.id} into ${newSeries.id}`);
+    return {
+      ...newSeries,
+      generated_until: series.generated_until || null,
+    };
+  }
+
+  /**
+   * Apply template, time and recurrence changes to a series and re-time its
+   * non-exception occurrences from the given point on. Dates held by detached
+   * occurrences are skipped, and the database changes commit together.
+   */
+  private async applySeriesUpdate(
+    series: EventSeries,
+    anchorEvent: Event,
+    updateData: UpdateEventData & { recurrence?: EventRecurrenceRule },
+    from: Date
+  ): Promise<void> {
+    const anchorStart = new Date(anchorEvent.start_time);
+    const newStart = updateData.start_time
+      ? new Date(updateData.start_time)
+      : anchorStart;
+    const shiftMs = newStart.getTime() - anchorStart.getTime();
+    const newEnd = updateData.end_time
+      ? new Date(updateData.end_time)
+      : new Date(new Date(anchorEvent.end_time).getTime() + shiftMs);
+
+    const seriesStart = new Date(
+      new Date(series.series_start).getTime() + shiftMs
+    );
+    const recurrence = normalizeRecurrenceRule(
+      updateData.recurrence
+        ? {
+            ...updateData.recurrence,
+            exceptions: series.recurrence.exceptions,
+          }
+        : series.recurrence,
+      seriesStart
+    );
+    const template = this.buildTemplate({ ...series.template, ...updateData });
+    const durationMinutes = Math.round(
+      (newEnd.getTime() - newStart.getTime()) / 60000
+    );
+
+    const occurrences = await this.eventModel.getSeriesOccurrences(series.id);
+    const existing = occurrences.filter(
+      occurrence =>
+        !occurrence.is_series_exception &&
+        new Date(occurrence.start_time) >= from
+    );
+
+    // A detached occurrence keeps its date, before and after the shift
+    const held = new Set<number>();
+    for (const occurrence of occurrences) {
+      if (occurrence.is_series_exception && occurrence.occurrence_start) {
+        const heldStart = new Date(occurrence.occurrence_start).getTime();
+        held.add(heldStart);
+        held.add(heldStart + shiftMs);
+      }
+    }
+
+    const windowEnd = series.generated_until
+      ? new Date(series.generated_until)
+      : this.getWindowEnd();
+    const expected = expandRecurrence(
+      recurrence,
+      seriesStart,
+      from,
+      windowEnd
+    ).filter(start => !held.has(start.getTime()));
+
+    const { pairs, removed, added } = this.matchOccurrences(
+      existing,
+      expected,
+      shiftMs
+    );
+
+    const result = await db.transaction(async trx => {
+      const updatedSeries = await this.eventSeriesModel.update(
+        series.id,
+        {
+          recurrence,
+          series_start: seriesStart,
+          duration_minutes: durationMinutes,
+          template,
+        },
+        trx
+      );
+      if (!updatedSeries) return null;
+
+      // Clear occurrence keys first so re-timed occurrences never collide on the unique index
+      for (const occurrence of existing) {
+        await this.eventModel.update(
+          occurrence.id,
+          { occurrence_start: null },
+          trx
+        );
+      }
+
+      const retimed: { event: Event; timeChanged: boolean }[] = [];
+      for (const { occurrence, start } of pairs) {
+        const updated = await this.eventModel.update(
+          occurrence.id,
+          {
+            ...this.buildOccurrenceData(updatedSeries, start),
+            occurrence_start: start,
+          },
+          trx
+        );
+        if (updated) {
+          retimed.push({
+            event: updated,
+            timeChanged:
+              start.getTime() !== new Date(occurrence.start_time).getTime(),
+          });
+        }
+      }
+
+      // Newly matching dates are materialized
+      for (const start of added) {
+        await this.eventModel.createOccurrence(
+          series.id,
+          start,
+          this.buildOccurrenceData(updatedSeries, start),
+          trx
+        );
+      }
+
+      return retimed;
+    });
+    if (!result) return;
+
+    for (const { event, timeChanged } of result) {
+      await this.refreshOccurrence(event, timeChanged);
+    }
+
+    // Occurrences that no longer match the rule are removed
+    await this.removeOccurrences(removed);
+
+    if (added.length > 0) {
+      await this.scheduleSeries(series.id);
+    }
+
+    logger.info(`Updated event series ${series.id}`, {
+      retimed: pairs.length,
+      removed: removed.length,
+      created: added.length,
+    });
+  }
+
+  /**
+   * Pair existing occurrences with the dates a series now expects. An occurrence
+   * keeps its own date (moved by the time shift) when the series still expects it;
+   * the rest are paired in order, which covers a change of rule.
+   */
+  private matchOccurrences(
+    existing: Event[],
+    expected: Date[],
+    shiftMs: number
+  ): {
+    pairs: { occurrence: Event; start: Date }[];
+    removed: Event[];
+    added: Date[];
+  } {
+    const open = new Map(expected.map(start => [start.getTime(), start]));
+    const pairs: { occurrence: Event; start: Date }[] = [];
+    const unmatched: Event[] = [];
+
+    for (const occurrence of existing) {
+      const target = occurrence.occurrence_start
+        ? open.get(new Date(occurrence.occurrence_start).getTime() + shiftMs)
+        : undefined;
+      if (target) {
+        pairs.push({ occurrence, start: target });
+        open.delete(target.getTime());
+      } else {
+        unmatched.push(occurrence);
+      }
+    }
+
+    const remaining = [...open.values()];
+    const paired = Math.min(unmatched.length, remaining.length);
+    for (let i = 0; i < paired; i++) {
+      pairs.push({ occurrence: unmatched[i], start: remaining[i] });
+    }
+
+    return {
+      pairs,
+      removed: unmatched.slice(paired),
+      added: remaining.slice(paired),
+    };
+  }
+
+  /**
+   * Reschedule reminders (when the time moved) and push changes to Discord
+   */
+  private async refreshOccurrence(
+    event: Event,
+    timeChanged: boolean
+  ): Promise<void> {
+    if (timeChanged) {
+      try {
+        await this.eventReminderService.cancelEventScheduledTasks(event.id);
+        await this.eventReminderService.createEventScheduledTasks(
+          event.id,
+          new Date(event.start_time)
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to reschedule reminders for occurrence ${event.id}:`,
+          error
+        );
+      }
+    }
+
+    await this.eventSyncService.updateDiscordEventForUpdatedEvent(event.id);
+  }
+
+  /**
+   * Cancel reminders and Discord events, then delete the occurrences
+   */
+  private async removeOccurrences(occurrences: Event[]): Promise<void> {
+    for (const occurrence of occurrences) {
+      try {
+        await this.eventReminderService.cancelEventScheduledTasks(occurrence.id);
+        await this.eventSyncService.cancelDiscordEventForCancelledEvent(
+          occurrence.id
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to clean up integrations for occurrence ${occurrence.id}:`,
+          error
+        );
+      }
+      await this.eventModel.delete(occurrence.id);
+    }
+  }
+
+  /**
+   * Create reminders and Discord events for upcoming occurrences in the window
+   */
+  private async scheduleSeries(seriesId: string): Promise<void> {
+    const windowEnd = this.getWindowEnd();
+
+    try {
+      await this.eventReminderService.createSeriesScheduledTasks(
+        seriesId,
+        windowEnd
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to create reminders for event series ${seriesId}:`,
+        error
+      );
+    }
+
+    await this.eventSyncService.syncSeriesOccurrences(seriesId, windowEnd);
+  }
+
+  private buildTemplate(data: Partial<CreateEventData>): SeriesTemplate {
+    const template: Record<string, any> = {
+      organization_id: data.organization_id,
+      created_by: data.created_by,
+    };
+
+    for (const field of TEMPLATE_FIELDS) {
+      if (data[field] !== undefined) {
+        template[field] = data[field];
+      }
+    }
+
+    // Slot ids belong to a single occurrence; occurrences match slots by name
+    if (data.slots) {
+      template.slots = data.slots.map(({ id: _id, ...slot }) => slot);
+    }
+
+    return template as SeriesTemplate;
+  }
+
+  private buildOccurrenceData(
+    series: EventSeries,
+    start: Date
+  ): CreateEventData {
+    return {
+      ...series.template,
+      organization_id: series.organization_id as string,
+      created_by: series.created_by,
+      start_time: start,
+      end_time: new Date(start.getTime() + series.duration_minutes * 60000),
+      duration_minutes: series.duration_minutes,
+    };
+  }
+}
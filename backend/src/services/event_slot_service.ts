@@ -0,0 +1,148 @@
+import { EventModel } from '../models/event_model';
+import { HRSkillModel } from '../models/hr_skill_model';
+import { Event, EventSlotInput, EventSlotWithRoster } from '../types/event';
+
+const MAX_SLOTS_PER_EVENT = 50;
+const MAX_SLOT_NAME_LENGTH = 100;
+
+export interface SlotEligibilityResult {
+  canClaim: boolean;
+  reason?: string;
+  missingSkills?: string[];
+}
+
+export class EventSlotService {
+  private eventModel: EventModel;
+  private skillModel: HRSkillModel;
+
+  constructor() {
+    this.eventModel = new EventModel();
+    this.skillModel = new HRSkillModel();
+  }
+
+  /**
+   * Validate slot definitions for an event. Returns a list of problems (empty when valid).
+   */
+  async validateSlots(
+    slots: unknown,
+    context: { organizationId?: string | null; maxParticipants?: number | null }
+  ): Promise<string[]> {
+    if (!Array.isArray(slots)) {
+      return ['slots must be an array'];
+    }
+
+    const errors: string[] = [];
+    if (slots.length > MAX_SLOTS_PER_EVENT) {
+      errors.push(`An event can have at most ${MAX_SLOTS_PER_EVENT} slots`);
+    }
+
+    const names = new Set<string>();
+    const skillIds = new Set<string>();
+
+    slots.forEach((slot: EventSlotInput, index) => {
+      const label = `Slot ${index + 1}`;
+      const name = typeof slot?.name === 'string' ? slot.name.trim() : '';
+
+      if (!name || name.length > MAX_SLOT_NAME_LENGTH) {
+        errors.push(
+          `${label}: name is required and must be at most ${MAX_SLOT_NAME_LENGTH} characters`
+        );
+      } else if (names.has(name.toLowerCase())) {
+        errors.push(`${label}: slot names must be unique ("${name}")`);
+      } else {
+        names.add(name.toLowerCase());
+      }
+
+      if (!Number.isInteger(slot?.capacity) || slot.capacity < 1) {
+        errors.push(`${label}: capacity must be a positive integer`);
+      }
+
+      if (slot?.required_skill_ids !== undefined) {
+        if (!Array.isArray(slot.required_skill_ids)) {
+          errors.push(`${label}: required_skill_ids must be an array`);
+        } else {
+          slot.required_skill_ids.forEach(id => skillIds.add(id));
+        }
+      }
+    });
+
+    if (errors.length > 0) return errors;
+
+    const totalCapacity = (slots as EventSlotInput[]).reduce(
+      (sum, slot) => sum + slot.capacity,
+      0
+    );
+    if (context.maxParticipants && totalCapacity > context.maxParticipants) {
+      errors.push(
+        `Slot capacities (${totalCapacity}) exceed the event's maximum participants (${context.maxParticipants})`
+      );
+    }
+
+    // Skill requirements are checked against the organization's HR skills
+    if (skillIds.size > 0) {
+      if (!context.organizationId) {
+        errors.push('Skill requirements are only available for organization events');
+      } else {
+        for (const skillId of skillIds) {
+          const skill = await this.skillModel.findSkillById(skillId);
+          if (!skill || skill.organization_id !== context.organizationId) {
+            errors.push(`Skill ${skillId} does not belong to this organization`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check whether a member can claim a slot. Slots that require skills need
+   * every one of them verified for the member in the event's organization.
+   */
+  async checkSlotEligibility(
+    event: Event,
+    slotId: string,
+    userId: string
+  ): Promise<SlotEligibilityResult> {
+    const slot = await this.eventModel.findSlotById(slotId);
+    if (!slot || slot.event_id !== event.id) {
+      return { canClaim: false, reason: 'Slot not found for this event' };
+    }
+
+    if (slot.required_skill_ids.length === 0) {
+      return { canClaim: true };
+    }
+
+    if (!event.organization_id) {
+      return { canClaim: false, reason: 'Slot skill requirements cannot be verified' };
+    }
+
+    const verifiedSkills = await this.skillModel.getUserSkills(
+      event.organization_id,
+      userId,
+      { verified: true }
+    );
+    const verifiedIds = new Set(verifiedSkills.map(skill => skill.skill_id));
+    const missing = slot.required_skill_ids.filter(id => !verifiedIds.has(id));
+
+    if (missing.length === 0) {
+      return { canClaim: true };
+    }
+
+    const missingSkills: string[] = [];
+    for (const skillId of missing) {
+      const skill = await this.skillModel.findSkillById(skillId);
+      missingSkills.push(skill?.name || skillId);
+    }
+
+    return {
+      canClaim: false,
+      reason: `The "${slot.name}" slot requires verified skills: ${missingSkills.join(', ')}`,
+      missingSkills,
+    };
+  }
+
+  async getSlotRoster(eventId: string): Promise<EventSlotWithRoster[]> {
+    return this.eventModel.getSlotRoster(eventId);
+  }
+}
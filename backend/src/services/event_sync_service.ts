@@ -3,15 +3,29 @@ import { DiscordServerModel } from '../models/discord_server_model';
 import { DiscordEventModel } from '../models/discord_event_model';
 import { EventModel } from '../models/event_model';
 import { OrganizationModel } from '../models/organization_model';
+import { UserModel } from '../models/user_model';
+import { EventReminderService } from './event_reminder_service';
 import { Event } from '../types/event';
+import {
+  APIGuildScheduledEvent,
+  DiscordEvent,
+  DiscordEventSnapshot,
+  DiscordServer,
+} from '../types/discord';
+import { GuildScheduledEventStatus } from 'discord-api-types/v10';
 import logger from '../config/logger';
 
+// Discord doesn't require an end time for every scheduled event type
+const DEFAULT_IMPORTED_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+
 export class EventSyncService {
   private discordService: DiscordService;
   private discordServerModel: DiscordServerModel;
   private discordEventModel: DiscordEventModel;
   private eventModel: EventModel;
   private organizationModel: OrganizationModel;
+  private userModel: UserModel;
+  private eventReminderService: EventReminderService;
   private readonly discordApiDelayMs: number;
 
   constructor() {
@@ -20,7 +34,9 @@ export class EventSyncService {
     this.discordEventModel = new DiscordEventModel();
     this.eventModel = new EventModel();
     this.organizationModel = new OrganizationModel();
-    
+    this.userModel = new UserModel();
+    this.eventReminderService = new EventReminderService();
+
     // Configurable delay between Discord API calls (default 1 second)
     this.discordApiDelayMs = parseInt(process.env.DISCORD_API_DELAY_MS || '1000', 10);
   }
@@ -72,6 +88,8 @@ export class EventSyncService {
           sync_status: 'synced',
           last_sync_at: new Date(),
           sync_error: undefined,
+          discord_snapshot: this.snapshotFromEvent(event),
+          discord_checked_at: new Date(),
         });
       } else {
         // Create new record
@@ -81,6 +99,8 @@ export class EventSyncService {
           discord_event_id: discordEventId,
           sync_status: 'synced',
           last_sync_at: new Date(),
+          discord_snapshot: this.snapshotFromEvent(event),
+          discord_checked_at: new Date(),
         });
       }
 
@@ -144,6 +164,8 @@ export class EventSyncService {
         sync_status: 'synced',
         last_sync_at: new Date(),
         sync_error: undefined,
+        discord_snapshot: this.snapshotFromEvent(event),
+        discord_checked_at: new Date(),
       });
 
       logger.info(`Successfully updated Discord event ${discordEvent.discord_event_id} for event ${eventId}`);
@@ -316,6 +338,397 @@ export class EventSyncService {
     }
   }
 
+  /**
+   * Create Discord events for upcoming occurrences of a recurring series within
+   * the rolling window (Discord caps the number of scheduled events per guild)
+   */
+  async syncSeriesOccurrences(seriesId: string, windowEnd: Date): Promise<void> {
+    try {
+      const now = new Date();
+      const occurrences = await this.eventModel.getSeriesOccurrences(seriesId, { from: now });
+      const upcoming = occurrences.filter(
+        occurrence => occurrence.is_active && new Date(occurrence.start_time) <= windowEnd
+      );
+
+      for (let i = 0; i < upcoming.length; i++) {
+        const occurrence = upcoming[i];
+        try {
+          const discordEvent = await this.discordEventModel.findByEventId(occurrence.id);
+          if (discordEvent && discordEvent.sync_status === 'synced') {
+            continue;
+          }
+
+          await this.createDiscordEventForNewEvent(occurrence.id);
+
+          if (i < upcoming.length - 1) {
+            await new Promise(resolve => setTimeout(resolve, this.discordApiDelayMs));
+          }
+        } catch (error) {
+          logger.error(`Failed to sync occurrence ${occurrence.id} of series ${seriesId}:`, error);
+        }
+      }
+
+      logger.info(`Completed Discord sync for ${upcoming.length} occurrences of series ${seriesId}`);
+
+    } catch (error) {
+      logger.error(`Failed to sync occurrences for series ${seriesId}:`, error);
+    }
+  }
+
+  /**
+   * Pull scheduled events from every connected Discord server
+   */
+  async syncInboundEventsForAllServers(): Promise<void> {
+    try {
+      const servers = await this.discordServerModel.listActive();
+      logger.info(`Starting inbound Discord event sync for ${servers.length} servers`);
+
+      for (let i = 0; i < servers.length; i++) {
+        await this.syncInboundEventsForServer(servers[i]);
+
+        if (i < servers.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, this.discordApiDelayMs));
+        }
+      }
+
+      logger.info('Completed inbound Discord event sync');
+
+    } catch (error) {
+      logger.error('Failed to run inbound Discord event sync:', error);
+    }
+  }
+
+  /**
+   * Import events created in a Discord server, apply title/time edits made there
+   * and detect events deleted or cancelled in Discord
+   */
+  async syncInboundEventsForServer(server: DiscordServer): Promise<void> {
+    try {
+      const guildId = server.discord_guild_id;
+      const guildEvents = await this.discordService.listServerEvents(guildId);
+      const records = await this.discordEventModel.findByGuildId(guildId);
+
+      const recordsByDiscordId = new Map<string, DiscordEvent>();
+      for (const record of records) {
+        if (record.discord_event_id) {
+          recordsByDiscordId.set(record.discord_event_id, record);
+        }
+      }
+
+      let botUserId: string | null = null;
+      const seenDiscordIds = new Set<string>();
+
+      for (const guildEvent of guildEvents) {
+        seenDiscordIds.add(guildEvent.id);
+
+        try {
+          const record = recordsByDiscordId.get(guildEvent.id);
+          if (record) {
+            if (record.sync_status !== 'cancelled') {
+              await this.applyInboundChanges(record, guildEvent);
+            }
+            continue;
+          }
+
+          if (guildEvent.status !== GuildScheduledEventStatus.Scheduled) {
+            continue;
+          }
+
+          // Events the bot created belong to the platform even if their record was lost
+          botUserId = botUserId || (await this.discordService.getBotUserId());
+          if (guildEvent.creator_id === botUserId) {
+            continue;
+          }
+
+          await this.importDiscordEvent(server, guildEvent);
+        } catch (error) {
+          logger.error(`Failed to sync Discord event ${guildEvent.id} from guild ${guildId}:`, error);
+        }
+      }
+
+      for (const record of records) {
+        if (
+          record.sync_status === 'cancelled' ||
+          !record.discord_event_id ||
+          seenDiscordIds.has(record.discord_event_id)
+        ) {
+          continue;
+        }
+
+        try {
+          await this.handleDeletedDiscordEvent(record);
+        } catch (error) {
+          logger.error(`Failed to handle deleted Discord event ${record.discord_event_id}:`, error);
+        }
+      }
+
+      logger.info(`Completed inbound Discord event sync for guild ${guildId}`);
+
+    } catch (error) {
+      logger.error(`Failed inbound Discord event sync for guild ${server.discord_guild_id}:`, error);
+    }
+  }
+
+  /**
+   * Create a platform event for a scheduled event created directly in Discord
+   */
+  private async importDiscordEvent(server: DiscordServer, guildEvent: APIGuildScheduledEvent): Promise<void> {
+    const organization = await this.organizationModel.findById(server.organization_id);
+    if (!organization) {
+      logger.warn(`Organization ${server.organization_id} not found, skipping Discord event ${guildEvent.id}`);
+      return;
+    }
+
+    // Attribute the event to its Discord creator when they have an account, otherwise the org owner
+    const creator = guildEvent.creator_id
+      ? await this.userModel.findByDiscordId(guildEvent.creator_id)
+      : null;
+
+    const snapshot = this.snapshotFromDiscord(guildEvent);
+    const startTime = new Date(snapshot.start_time);
+    const endTime = snapshot.end_time
+      ? new Date(snapshot.end_time)
+      : new Date(startTime.getTime() + DEFAULT_IMPORTED_EVENT_DURATION_MS);
+
+    const event = await this.eventModel.create({
+      organization_id: organization.id,
+      created_by: creator?.id || organization.owner_id,
+      title: snapshot.title,
+      ...(guildEvent.description && { description: guildEvent.description }),
+      start_time: startTime,
+      end_time: endTime,
+      location: guildEvent.entity_metadata?.location || 'Discord',
+      // Discord scheduled events are only visible to guild members
+      is_public: false,
+    });
+
+    await this.discordEventModel.create({
+      event_id: event.id,
+      discord_guild_id: server.discord_guild_id,
+      discord_event_id: guildEvent.id,
+      ...(guildEvent.channel_id && { discord_channel_id: guildEvent.channel_id }),
+      sync_status: 'synced',
+      last_sync_at: new Date(),
+      origin: 'discord',
+      discord_snapshot: { ...snapshot, end_time: endTime.toISOString() },
+      discord_checked_at: new Date(),
+    });
+
+    try {
+      await this.eventReminderService.createEventScheduledTasks(event.id, startTime);
+    } catch (error) {
+      logger.error(`Failed to create notification tasks for imported event ${event.id}:`, error);
+    }
+
+    logger.info(`Imported Discord event ${guildEvent.id} as event ${event.id}`);
+  }
+
+  /**
+   * Reconcile a tracked event with its Discord counterpart. The snapshot stored at the
+   * last sync tells which side changed; when both did, the later write wins and the
+   * conflict is recorded on the discord_events row.
+   */
+  private async applyInboundChanges(record: DiscordEvent, guildEvent: APIGuildScheduledEvent): Promise<void> {
+    if (guildEvent.status === GuildScheduledEventStatus.Canceled) {
+      await this.handleDeletedDiscordEvent(record);
+      return;
+    }
+
+    const event = await this.eventModel.findById(record.event_id);
+    if (!event || !event.is_active) {
+      return;
+    }
+
+    const now = new Date();
+    const discordState = this.snapshotFromDiscord(guildEvent);
+    const platformState = this.snapshotFromEvent(event);
+
+    if (this.snapshotsMatch(discordState, platformState)) {
+      await this.discordEventModel.update(record.id, {
+        sync_status: 'synced',
+        discord_snapshot: platformState,
+        discord_checked_at: now,
+      });
+      return;
+    }
+
+    // Records synced before snapshots existed treat Discord's current state as the baseline
+    const baseline = record.discord_snapshot || discordState;
+    const discordChanged = !this.snapshotsMatch(discordState, baseline);
+    const platformChanged = !this.snapshotsMatch(platformState, baseline);
+
+    if (!discordChanged) {
+      // The platform edit hasn't reached Discord yet (the outbound push failed or is pending)
+      await this.updateDiscordEventForUpdatedEvent(event.id);
+      return;
+    }
+
+    if (platformChanged) {
+      const winner = this.resolveConflictWinner(event, record);
+      await this.discordEventModel.recordConflict(record.id, {
+        detected_at: now.toISOString(),
+        type: 'edit',
+        winner,
+        platform: platformState,
+        discord: discordState,
+      });
+      logger.warn(`Discord event ${guildEvent.id} and event ${event.id} were both edited; keeping the ${winner} version`);
+
+      if (winner === 'platform') {
+        await this.updateDiscordEventForUpdatedEvent(event.id);
+        return;
+      }
+    }
+
+    await this.applyDiscordState(event, discordState);
+    await this.discordEventModel.update(record.id, {
+      sync_status: 'synced',
+      last_sync_at: now,
+      discord_snapshot: this.snapshotFromEvent({
+        ...event,
+        title: discordState.title,
+        start_time: new Date(discordState.start_time),
+        end_time: this.resolveEndTime(event, discordState),
+      }),
+      discord_checked_at: now,
+    });
+
+    logger.info(`Applied Discord edits from ${guildEvent.id} to event ${event.id}`);
+  }
+
+  /**
+   * Handle a tracked Discord event that was deleted or cancelled in Discord
+   */
+  private async handleDeletedDiscordEvent(record: DiscordEvent): Promise<void> {
+    const now = new Date();
+    const event = await this.eventModel.findById(record.event_id);
+
+    if (!event || !event.is_active) {
+      await this.discordEventModel.update(record.id, {
+        sync_status: 'cancelled',
+        last_sync_at: now,
+      });
+      return;
+    }
+
+    // Discord drops scheduled events from the guild list once they have run
+    if (new Date(event.start_time) <= now) {
+      return;
+    }
+
+    const platformState = this.snapshotFromEvent(event);
+    if (record.discord_snapshot && !this.snapshotsMatch(platformState, record.discord_snapshot)) {
+      const winner = this.resolveConflictWinner(event, record);
+      await this.discordEventModel.recordConflict(record.id, {
+        detected_at: now.toISOString(),
+        type: 'delete',
+        winner,
+        platform: platformState,
+        discord: null,
+      });
+      logger.warn(`Discord event ${record.discord_event_id} was deleted after event ${event.id} was edited; keeping the ${winner} version`);
+
+      if (winner === 'platform') {
+        const discordEventId = await this.discordService.createEventWithRetry(event, record.discord_guild_id);
+        await this.discordEventModel.update(record.id, {
+          discord_event_id: discordEventId,
+          sync_status: 'synced',
+          last_sync_at: now,
+          discord_snapshot: platformState,
+          discord_checked_at: now,
+        });
+        return;
+      }
+    }
+
+    // Deactivate rather than delete so registrations and history are kept
+    await this.eventModel.update(event.id, { is_active: false });
+    await this.discordEventModel.update(record.id, {
+      sync_status: 'cancelled',
+      last_sync_at: now,
+    });
+
+    try {
+      await this.eventReminderService.cancelEventScheduledTasks(event.id);
+    } catch (error) {
+      logger.error(`Failed to cancel notification tasks for event ${event.id}:`, error);
+    }
+
+    logger.info(`Deactivated event ${event.id} after its Discord event ${record.discord_event_id} was deleted`);
+  }
+
+  /**
+   * Write Discord's title and times onto the platform event
+   */
+  private async applyDiscordState(event: Event, discordState: DiscordEventSnapshot): Promise<void> {
+    const startTime = new Date(discordState.start_time);
+    const isTimeChanged = startTime.getTime() !== new Date(event.start_time).getTime();
+
+    await this.eventModel.update(event.id, {
+      title: discordState.title,
+      start_time: startTime,
+      end_time: this.resolveEndTime(event, discordState),
+    });
+
+    if (isTimeChanged) {
+      try {
+        await this.eventReminderService.cancelEventScheduledTasks(event.id);
+        await this.eventReminderService.createEventScheduledTasks(event.id, startTime);
+      } catch (error) {
+        logger.error(`Failed to reschedule notification tasks for event ${event.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Discord doesn't say when a scheduled event was edited, only that it changed after
+   * discord_checked_at. Discord wins when the platform edit predates that check; edits
+   * made within the same polling window go to the platform.
+   */
+  private resolveConflictWinner(event: Event, record: DiscordEvent): 'platform' | 'discord' {
+    const checkedAt = record.discord_checked_at || record.last_sync_at;
+    if (checkedAt && new Date(event.updated_at) <= new Date(checkedAt)) {
+      return 'discord';
+    }
+    return 'platform';
+  }
+
+  // Keep the event's duration when Discord has no end time
+  private resolveEndTime(event: Event, discordState: DiscordEventSnapshot): Date {
+    if (discordState.end_time) {
+      return new Date(discordState.end_time);
+    }
+    const duration = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
+    return new Date(new Date(discordState.start_time).getTime() + duration);
+  }
+
+  private snapshotFromEvent(event: Event): DiscordEventSnapshot {
+    return {
+      title: event.title,
+      start_time: new Date(event.start_time).toISOString(),
+      end_time: new Date(event.end_time).toISOString(),
+    };
+  }
+
+  private snapshotFromDiscord(guildEvent: APIGuildScheduledEvent): DiscordEventSnapshot {
+    return {
+      title: guildEvent.name,
+      start_time: new Date(guildEvent.scheduled_start_time).toISOString(),
+      end_time: guildEvent.scheduled_end_time
+        ? new Date(guildEvent.scheduled_end_time).toISOString()
+        : null,
+    };
+  }
+
+  // End times are only compared when both sides have one
+  private snapshotsMatch(a: DiscordEventSnapshot, b: DiscordEventSnapshot): boolean {
+    return (
+      a.title.trim() === b.title.trim() &&
+      a.start_time === b.start_time &&
+      (!a.end_time || !b.end_time || a.end_time === b.end_time)
+    );
+  }
+
   /**
    * Send event announcement to Discord channel
    */
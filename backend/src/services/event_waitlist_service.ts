@@ -0,0 +1,130 @@
+import { EventModel } from '../models/event_model';
+import { NotificationService } from './notification_service';
+import { NotificationEntityType } from '../types/notification';
+import { Event, EventRegistration } from '../types/event';
+import logger from '../config/logger';
+
+// Default time a promoted user has to confirm their seat
+const DEFAULT_CONFIRMATION_MINUTES = 12 * 60;
+
+export class EventWaitlistService {
+  private eventModel: EventModel;
+  private notificationService: NotificationService;
+  private readonly defaultConfirmationMinutes: number;
+
+  constructor() {
+    this.eventModel = new EventModel();
+    this.notificationService = new NotificationService();
+    this.defaultConfirmationMinutes = parseInt(
+      process.env.EVENT_WAITLIST_CONFIRMATION_MINUTES ||
+        String(DEFAULT_CONFIRMATION_MINUTES)
+    );
+  }
+
+  /**
+   * Work out when a promoted user's confirmation window closes.
+   * Returns null when the event does not require confirmation (window of 0).
+   * The window never extends past the event start.
+   */
+  getConfirmationDeadline(event: Event, now: Date = new Date()): Date | null {
+    const minutes =
+      event.waitlist_confirmation_minutes ?? this.defaultConfirmationMinutes;
+    if (minutes <= 0) return null;
+
+    const deadline = new Date(now.getTime() + minutes * 60 * 1000);
+    const startTime = new Date(event.start_time);
+    return deadline > startTime ? startTime : deadline;
+  }
+
+  /**
+   * Fill free seats from the waitlist and notify the promoted users
+   */
+  async promoteAvailableSeats(eventId: string): Promise<EventRegistration[]> {
+    try {
+      const event = await this.eventModel.findById(eventId);
+      if (!event || !event.is_active) return [];
+
+      // No point offering seats for events that have already started
+      if (new Date(event.start_time) <= new Date()) return [];
+
+      const promoted = await this.eventModel.promoteWaitlisted(
+        eventId,
+        this.getConfirmationDeadline(event)
+      );
+
+      for (const registration of promoted) {
+        await this.notifyPromotion(event, registration);
+      }
+
+      if (promoted.length > 0) {
+        logger.info(
+          `Promoted ${promoted.length} waitlisted user(s) for event ${eventId}`
+        );
+      }
+
+      return promoted;
+    } catch (error) {
+      logger.error(`Failed to promote waitlist for event ${eventId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Release seats whose confirmation window lapsed and offer them to the next in line
+   */
+  async expireUnconfirmedPromotions(): Promise<number> {
+    const expired = await this.eventModel.getExpiredPromotions(new Date());
+    const affectedEvents = new Set<string>();
+
+    for (const registration of expired) {
+      const removed = await this.eventModel.unregisterUser(
+        registration.event_id,
+        registration.user_id
+      );
+      if (removed) {
+        affectedEvents.add(registration.event_id);
+        logger.info(
+          `Waitlist promotion expired for user ${registration.user_id} on event ${registration.event_id}`
+        );
+      }
+    }
+
+    for (const eventId of affectedEvents) {
+      await this.promoteAvailableSeats(eventId);
+    }
+
+    return expired.length;
+  }
+
+  private async notifyPromotion(
+    event: Event,
+    registration: EventRegistration
+  ): Promise<void> {
+    try {
+      const message = registration.confirmation_expires_at
+        ? `A seat opened up for "${event.title}". Confirm your spot before ${new Date(
+            registration.confirmation_expires_at
+          ).toUTCString()} or it will pass to the next person on the waitlist.`
+        : `A seat opened up for "${event.title}" and you have been moved off the waitlist.`;
+
+      await this.notificationService.createCustomEventNotification(
+        NotificationEntityType.EVENT_WAITLIST_PROMOTED,
+        event.id,
+        event.created_by,
+        [registration.user_id],
+        "You're off the waitlist!",
+        message,
+        {
+          event_id: event.id,
+          registration_id: registration.id,
+          confirmation_expires_at: registration.confirmation_expires_at,
+        }
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to notify user ${registration.user_id} of waitlist promotion:`,
+        error
+      );
+    }
+  }
+}
@@ -381,6 +381,67 @@ export class HRActivityService {
     });
   }
 
+  /**
+   * Create activity for a mentor assigned to a new member
+   */
+  async createMentorAssignedActivity(
+    organizationId: string,
+    menteeId: string,
+    menteeHandle: string,
+    mentorshipId: string,
+    mentorId: string,
+    mentorHandle: string,
+    assignmentMethod: string,
+    previousMentor?: { id: string; handle: string }
+  ): Promise<HRActivity> {
+    return this.createActivity({
+      organization_id: organizationId,
+      activity_type: 'mentor_assigned',
+      user_id: menteeId,
+      user_handle: menteeHandle,
+      title: `Mentor assigned to ${menteeHandle}`,
+      description: previousMentor
+        ? `${mentorHandle} took over mentoring ${menteeHandle} from ${previousMentor.handle}`
+        : `${mentorHandle} is now mentoring ${menteeHandle}`,
+      metadata: {
+        mentorship_id: mentorshipId,
+        mentor_id: mentorId,
+        mentor_handle: mentorHandle,
+        assignment_method: assignmentMethod,
+        previous_mentor_id: previousMentor?.id,
+        previous_mentor_handle: previousMentor?.handle
+      }
+    });
+  }
+
+  /**
+   * Create activity for a mentorship that was ended
+   */
+  async createMentorUnassignedActivity(
+    organizationId: string,
+    menteeId: string,
+    menteeHandle: string,
+    mentorshipId: string,
+    mentorId: string,
+    mentorHandle: string,
+    reason?: string
+  ): Promise<HRActivity> {
+    return this.createActivity({
+      organization_id: organizationId,
+      activity_type: 'mentor_unassigned',
+      user_id: menteeId,
+      user_handle: menteeHandle,
+      title: `Mentor unassigned from ${menteeHandle}`,
+      description: `${mentorHandle} is no longer mentoring ${menteeHandle}${reason ? `: ${reason}` : ''}`,
+      metadata: {
+        mentorship_id: mentorshipId,
+        mentor_id: mentorId,
+        mentor_handle: mentorHandle,
+        reason
+      }
+    });
+  }
+
   /**
    * Validate activity data before creation
    */
@@ -400,7 +461,9 @@ export class HRActivityService {
       'onboarding_completed',
       'performance_review_submitted',
       'skill_verified',
-      'document_acknowledged'
+      'document_acknowledged',
+      'mentor_assigned',
+      'mentor_unassigned'
     ];
 
     if (!validActivityTypes.includes(activityData.activity_type)) {
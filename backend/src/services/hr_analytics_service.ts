@@ -1,14 +1,67 @@
 import db from '../config/database';
 import { HRAnalyticsMetrics, HRAlert, AlertThreshold } from '../models/hr_analytics_model';
 import { NotificationService } from './notification_service';
+import { EventAttendanceService } from './event_attendance_service';
+import { EventModel } from '../models/event_model';
 import { NotificationEntityType } from '../types/notification';
 import logger from '../config/logger';
 
+// Members at or above these thresholds count as "high" in the attendance/performance correlation
+const HIGH_ATTENDANCE_RATE = 75;
+const HIGH_PERFORMANCE_RATING = 3.5;
+
+export interface HREventAttendanceAnalytics {
+  event_participation: {
+    total_events: number;
+    attended_events: number;
+    no_show_events: number;
+    attendance_rate: number;
+    no_show_rate: number;
+    recent_events: {
+      event_id: string;
+      event_title: string;
+      event_date: Date;
+      attended: boolean;
+      attended_count: number;
+      no_show_count: number;
+    }[];
+  };
+  member_attendance: {
+    user_id: string;
+    username: string;
+    total_events: number;
+    attended: number;
+    no_shows: number;
+    unmarked: number;
+    attendance_rate: number;
+    no_show_rate: number;
+  }[];
+  skill_development: {
+    skills_demonstrated: string[];
+    skill_verifications_earned: number;
+    training_events_attended: number;
+  };
+  performance_correlation: {
+    attendance_vs_performance: {
+      high_attendance_high_performance: number;
+      high_attendance_low_performance: number;
+      low_attendance_high_performance: number;
+      low_attendance_low_performance: number;
+    };
+  };
+  period: {
+    start: string;
+    end: string;
+  };
+}
+
 export class HRAnalyticsService {
   private notificationService: NotificationService;
+  private eventModel: EventModel;
 
   constructor() {
     this.notificationService = new NotificationService();
+    this.eventModel = new EventModel();
   }
   /**
    * Check if user has access to organization analytics
@@ -50,6 +103,232 @@ export class HRAnalyticsService {
     }
   }
 
+  /**
+   * Event attendance analytics for an organization, or for a single member
+   * when userId is given. Based on attendance recorded through check-in.
+   */
+  async getEventAttendanceAnalytics(
+    organizationId: string,
+    periodStart: Date,
+    periodEnd: Date,
+    userId?: string
+  ): Promise<HREventAttendanceAnalytics> {
+    const allRecords = await this.eventModel.getOrganizationAttendanceRecords(
+      organizationId,
+      periodStart,
+      periodEnd
+    );
+    const records = userId
+      ? allRecords.filter(record => record.user_id === userId)
+      : allRecords;
+
+    const summary = EventAttendanceService.summarizeRecords(records);
+
+    // Group by event, newest first (records are already ordered by start time)
+    const eventsById = new Map<
+      string,
+      HREventAttendanceAnalytics['event_participation']['recent_events'][number]
+    >();
+    for (const record of records) {
+      const entry = eventsById.get(record.event_id) || {
+        event_id: record.event_id,
+        event_title: record.event_title,
+        event_date: record.start_time,
+        attended: false,
+        attended_count: 0,
+        no_show_count: 0,
+      };
+      if (record.status === 'attended') {
+        entry.attended = true;
+        entry.attended_count++;
+      } else if (record.status === 'no_show') {
+        entry.no_show_count++;
+      }
+      eventsById.set(record.event_id, entry);
+    }
+
+    // Per-member breakdown, worst no-show rate first
+    const recordsByUser = new Map<string, typeof records>();
+    for (const record of records) {
+      recordsByUser.set(record.user_id, [
+        ...(recordsByUser.get(record.user_id) || []),
+        record,
+      ]);
+    }
+    const memberAttendance = Array.from(recordsByUser.entries())
+      .map(([memberId, memberRecords]) => ({
+        user_id: memberId,
+        username: memberRecords[0].username,
+        ...EventAttendanceService.summarizeRecords(memberRecords),
+      }))
+      .sort(
+        (a, b) => b.no_show_rate - a.no_show_rate || b.no_shows - a.no_shows
+      );
+
+    const [
+      skillVerifications,
+      skillsDemonstrated,
+      trainingEventsAttended,
+      attendanceVsPerformance,
+    ] = await Promise.all([
+      this.countSkillVerifications(organizationId, periodStart, periodEnd, userId),
+      this.getDemonstratedSkills(organizationId, periodStart, periodEnd, userId),
+      this.countTrainingAttendance(organizationId, records),
+      this.correlateAttendanceWithPerformance(
+        organizationId,
+        periodStart,
+        periodEnd,
+        memberAttendance
+      ),
+    ]);
+
+    return {
+      event_participation: {
+        total_events: eventsById.size,
+        attended_events: summary.attended,
+        no_show_events: summary.no_shows,
+        attendance_rate: summary.attendance_rate,
+        no_show_rate: summary.no_show_rate,
+        recent_events: Array.from(eventsById.values()).slice(0, 10),
+      },
+      member_attendance: memberAttendance,
+      skill_development: {
+        skills_demonstrated: skillsDemonstrated,
+        skill_verifications_earned: skillVerifications,
+        training_events_attended: trainingEventsAttended,
+      },
+      performance_correlation: {
+        attendance_vs_performance: attendanceVsPerformance,
+      },
+      period: {
+        start: periodStart.toISOString(),
+        end: periodEnd.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Count skills verified during the period for organization members
+   */
+  private async countSkillVerifications(
+    organizationId: string,
+    periodStart: Date,
+    periodEnd: Date,
+    userId?: string
+  ): Promise<number> {
+    let query = db('hr_user_skills')
+      .join('organization_members', 'hr_user_skills.user_id', 'organization_members.user_id')
+      .where('organization_members.organization_id', organizationId)
+      .where('hr_user_skills.verified', true)
+      .whereBetween('hr_user_skills.verified_at', [periodStart, periodEnd]);
+
+    if (userId) {
+      query = query.where('hr_user_skills.user_id', userId);
+    }
+
+    const result = await query.count('* as count').first();
+    return parseInt(result?.count as string) || 0;
+  }
+
+  /**
+   * Names of the skills verified during the period for organization members
+   */
+  private async getDemonstratedSkills(
+    organizationId: string,
+    periodStart: Date,
+    periodEnd: Date,
+    userId?: string
+  ): Promise<string[]> {
+    let query = db('hr_user_skills')
+      .join('organization_members', 'hr_user_skills.user_id', 'organization_members.user_id')
+      .join('hr_skills', 'hr_user_skills.skill_id', 'hr_skills.id')
+      .where('organization_members.organization_id', organizationId)
+      .where('hr_user_skills.verified', true)
+      .whereBetween('hr_user_skills.verified_at', [periodStart, periodEnd]);
+
+    if (userId) {
+      query = query.where('hr_user_skills.user_id', userId);
+    }
+
+    const rows = await query.distinct('hr_skills.name').orderBy('hr_skills.name', 'asc');
+    return rows.map((row: { name: string }) => row.name);
+  }
+
+  /**
+   * Count attendances at events the organization marked as training
+   */
+  private async countTrainingAttendance(
+    organizationId: string,
+    records: { event_id: string; status: string }[]
+  ): Promise<number> {
+    const attended = records.filter(record => record.status === 'attended');
+    if (attended.length === 0) {
+      return 0;
+    }
+
+    const trainingEvents = await db('hr_training_events')
+      .where('organization_id', organizationId)
+      .whereIn('event_id', Array.from(new Set(attended.map(record => record.event_id))))
+      .pluck('event_id');
+    const trainingEventIds = new Set<string>(trainingEvents);
+
+    return attended.filter(record => trainingEventIds.has(record.event_id)).length;
+  }
+
+  /**
+   * Bucket members by attendance rate and their latest performance rating
+   * in the period. Members without recorded attendance or a rating are skipped.
+   */
+  private async correlateAttendanceWithPerformance(
+    organizationId: string,
+    periodStart: Date,
+    periodEnd: Date,
+    memberAttendance: HREventAttendanceAnalytics['member_attendance']
+  ): Promise<
+    HREventAttendanceAnalytics['performance_correlation']['attendance_vs_performance']
+  > {
+    const buckets = {
+      high_attendance_high_performance: 0,
+      high_attendance_low_performance: 0,
+      low_attendance_high_performance: 0,
+      low_attendance_low_performance: 0,
+    };
+
+    const marked = memberAttendance.filter(
+      member => member.attended + member.no_shows > 0
+    );
+    if (marked.length === 0) return buckets;
+
+    const reviews = await db('hr_performance_reviews')
+      .where({ organization_id: organizationId })
+      .whereIn('reviewee_id', marked.map(member => member.user_id))
+      .whereNotNull('overall_rating')
+      .whereBetween('review_period_end', [periodStart, periodEnd])
+      .orderBy('review_period_end', 'desc')
+      .select('reviewee_id', 'overall_rating');
+
+    const latestRatings = new Map<string, number>();
+    for (const review of reviews) {
+      if (!latestRatings.has(review.reviewee_id)) {
+        latestRatings.set(review.reviewee_id, parseFloat(review.overall_rating));
+      }
+    }
+
+    for (const member of marked) {
+      const rating = latestRatings.get(member.user_id);
+      if (rating === undefined) continue;
+
+      const highAttendance = member.attendance_rate >= HIGH_ATTENDANCE_RATE;
+      const highPerformance = rating >= HIGH_PERFORMANCE_RATING;
+      if (highAttendance && highPerformance) buckets.high_attendance_high_performance++;
+      else if (highAttendance) buckets.high_attendance_low_performance++;
+      else if (highPerformance) buckets.low_attendance_high_performance++;
+      else buckets.low_attendance_low_performance++;
+    }
+
+    return buckets;
+  }
+
   /**
    * Clear analytics cache for an organization
    */
@@ -126,6 +405,17 @@ export class HRAnalyticsService {
           csvRows.push(`Retention,New Members,${metrics.retention.new_members_period},${periodStart},${periodEnd}`);
           csvRows.push(`Retention,Departed Members,${metrics.retention.departed_members_period},${periodStart},${periodEnd}`);
         }
+
+        // Mentorship metrics
+        if (metrics.mentorship) {
+          csvRows.push(`Mentorship,Active Mentorships,${metrics.mentorship.active_mentorships},${periodStart},${periodEnd}`);
+          csvRows.push(`Mentorship,Available Mentors,${metrics.mentorship.available_mentors},${periodStart},${periodEnd}`);
+          csvRows.push(`Mentorship,Mentors At Capacity,${metrics.mentorship.mentors_at_capacity},${periodStart},${periodEnd}`);
+          csvRows.push(`Mentorship,Average Mentees Per Mentor,${metrics.mentorship.average_mentees_per_mentor},${periodStart},${periodEnd}`);
+          csvRows.push(`Mentorship,Members Without Mentor,${metrics.mentorship.members_without_mentor},${periodStart},${periodEnd}`);
+          csvRows.push(`Mentorship,Check-in Completion Rate,${metrics.mentorship.check_in_completion_rate}%,${periodStart},${periodEnd}`);
+          csvRows.push(`Mentorship,Overdue Check-ins,${metrics.mentorship.overdue_check_ins},${periodStart},${periodEnd}`);
+        }
       }
 
       // Add trend data if available
@@ -0,0 +1,519 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  HRApplicationFormModel,
+  HRApplicationForm,
+  HRApplicationFormWithQuestions,
+  ApplicationAnswer,
+  ApplicationFormQuestion,
+  ApplicationQuestionType,
+} from '../models/hr_application_form_model';
+import { ApplicationValidationError } from '../models/hr_application_model';
+import logger from '../config/logger';
+
+export const QUESTION_TYPES: ApplicationQuestionType[] = [
+  'short_text',
+  'long_text',
+  'single_choice',
+  'multi_choice',
+  'ship_ownership',
+  'timezone',
+  'rsi_handle_confirmation',
+];
+
+const CHOICE_TYPES: ApplicationQuestionType[] = [
+  'single_choice',
+  'multi_choice',
+];
+
+const MAX_QUESTIONS = 50;
+const MAX_OPTIONS = 50;
+const MAX_OPTION_LENGTH = 100;
+const MAX_LABEL_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_SHIPS = 100;
+const MAX_SHIP_NAME_LENGTH = 100;
+
+// Default and largest answer lengths for the text question types
+const TEXT_LIMITS: Record<
+  'short_text' | 'long_text',
+  { default: number; max: number }
+> = {
+  short_text: { default: 200, max: 500 },
+  long_text: { default: 2000, max: 5000 },
+};
+
+const QUESTION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface FormQuestionsResult {
+  questions: ApplicationFormQuestion[];
+  errors: string[];
+}
+
+export interface AnswerValidationResult {
+  // Answers to visible questions only, trimmed
+  answers: Record<string, ApplicationAnswer>;
+  errors: ApplicationValidationError[];
+}
+
+export interface FormSubmissionResult extends AnswerValidationResult {
+  form: HRApplicationForm | null;
+  form_version: number | null;
+}
+
+const isBlank = (answer: ApplicationAnswer | undefined): boolean =>
+  answer === undefined ||
+  (Array.isArray(answer) ? answer.length === 0 : answer.trim() === '');
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Organization-built recruitment application forms. Each form keeps every version of
+ * its questions; applicants submit against the version they were shown, and their
+ * answers are checked against that version even if the form has changed since.
+ */
+export class HRApplicationFormService {
+  private formModel: HRApplicationFormModel;
+
+  constructor() {
+    this.formModel = new HRApplicationFormModel();
+  }
+
+  async listForms(
+    organizationId: string,
+    includeArchived = false
+  ): Promise<HRApplicationFormWithQuestions[]> {
+    return this.formModel.listForms(organizationId, includeArchived);
+  }
+
+  async getForm(
+    organizationId: string,
+    formId: string,
+    version?: number
+  ): Promise<HRApplicationFormWithQuestions | null> {
+    const form = await this.formModel.findFormById(formId);
+    if (!form || form.organization_id !== organizationId) return null;
+
+    const formVersion = await this.formModel.findVersion(
+      formId,
+      version ?? form.current_version
+    );
+    if (!formVersion) return null;
+
+    return { ...form, questions: formVersion.questions };
+  }
+
+  async createForm(
+    organizationId: string,
+    userId: string,
+    data: {
+      name: string;
+      description?: string | null;
+      questions: ApplicationFormQuestion[];
+    }
+  ): Promise<HRApplicationFormWithQuestions> {
+    const form = await this.formModel.createForm({
+      organization_id: organizationId,
+      name: data.name,
+      description: data.description ?? null,
+      questions: data.questions,
+      created_by: userId,
+    });
+
+    logger.info('Application form created', {
+      formId: form.id,
+      organizationId,
+      questionCount: data.questions.length,
+    });
+
+    return form;
+  }
+
+  /**
+   * Update the form's details, saving a new version when the questions change
+   */
+  async updateForm(
+    form: HRApplicationForm,
+    userId: string,
+    data: {
+      name?: string;
+      description?: string | null;
+      is_active?: boolean;
+      questions?: ApplicationFormQuestion[];
+    }
+  ): Promise<HRApplicationFormWithQuestions | null> {
+    const { questions, ...details } = data;
+
+    if (questions) {
+      const current = await this.formModel.findVersion(
+        form.id,
+        form.current_version
+      );
+      if (JSON.stringify(current?.questions) !== JSON.stringify(questions)) {
+        const version = await this.formModel.createVersion(
+          form.id,
+          questions,
+          userId
+        );
+        logger.info('Application form questions updated', {
+          formId: form.id,
+          version: version.version,
+        });
+      }
+    }
+
+    if (Object.keys(details).length > 0) {
+      await this.formModel.updateForm(form.id, details);
+    }
+
+    return this.getForm(form.organization_id, form.id);
+  }
+
+  async archiveForm(form: HRApplicationForm): Promise<void> {
+    await this.formModel.updateForm(form.id, { is_active: false });
+  }
+
+  async findFormByName(
+    organizationId: string,
+    name: string
+  ): Promise<HRApplicationForm | null> {
+    return this.formModel.findFormByName(organizationId, name);
+  }
+
+  async findFormById(formId: string): Promise<HRApplicationForm | null> {
+    return this.formModel.findFormById(formId);
+  }
+
+  /**
+   * Organizations with an active form take applications through it only
+   */
+  async requiresForm(organizationId: string): Promise<boolean> {
+    return this.formModel.hasActiveForm(organizationId);
+  }
+
+  /**
+   * Check questions sent by the form builder, filling in IDs for new questions
+   */
+  normalizeQuestions(input: unknown): FormQuestionsResult {
+    const errors: string[] = [];
+
+    if (!Array.isArray(input) || input.length === 0) {
+      return { questions: [], errors: ['A form needs at least one question'] };
+    }
+    if (input.length > MAX_QUESTIONS) {
+      return {
+        questions: [],
+        errors: [`A form can have at most ${MAX_QUESTIONS} questions`],
+      };
+    }
+
+    const questions: ApplicationFormQuestion[] = [];
+    const seenIds = new Set<string>();
+
+    input.forEach((raw: any, index) => {
+      const position = `Question ${index + 1}`;
+      const id = raw?.id === undefined || raw?.id === '' ? uuidv4() : raw.id;
+
+      if (typeof id !== 'string' || !QUESTION_ID_PATTERN.test(id)) {
+        errors.push(`${position} has an invalid id`);
+        return;
+      }
+      if (seenIds.has(id)) {
+        errors.push(`${position} reuses the id ${id}`);
+        return;
+      }
+      seenIds.add(id);
+
+      if (!QUESTION_TYPES.includes(raw?.type)) {
+        errors.push(`${position} has an unknown type`);
+        return;
+      }
+      const type: ApplicationQuestionType = raw.type;
+
+      const label = typeof raw.label === 'string' ? raw.label.trim() : '';
+      if (!label || label.length > MAX_LABEL_LENGTH) {
+        errors.push(
+          `${position} needs a label of at most ${MAX_LABEL_LENGTH} characters`
+        );
+        return;
+      }
+
+      const question: ApplicationFormQuestion = {
+        id,
+        type,
+        label,
+        required: raw.required === true,
+      };
+
+      if (
+        raw.description !== undefined &&
+        raw.description !== null &&
+        raw.description !== ''
+      ) {
+        if (
+          typeof raw.description !== 'string' ||
+          raw.description.length > MAX_DESCRIPTION_LENGTH
+        ) {
+          errors.push(
+            `${position} description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+          );
+          return;
+        }
+        question.description = raw.description.trim();
+      }
+
+      if (CHOICE_TYPES.includes(type)) {
+        const options = Array.isArray(raw.options)
+          ? raw.options
+              .filter((option: unknown) => typeof option === 'string')
+              .map((option: string) => option.trim())
+              .filter(Boolean)
+          : [];
+        if (
+          options.length === 0 ||
+          options.length > MAX_OPTIONS ||
+          new Set(options).size !== options.length ||
+          options.some((option: string) => option.length > MAX_OPTION_LENGTH)
+        ) {
+          errors.push(
+            `${position} needs between 1 and ${MAX_OPTIONS} distinct options of at most ${MAX_OPTION_LENGTH} characters`
+          );
+          return;
+        }
+        question.options = options;
+      }
+
+      if (type === 'short_text' || type === 'long_text') {
+        const limits = TEXT_LIMITS[type];
+        if (raw.max_length !== undefined && raw.max_length !== null) {
+          if (
+            !Number.isInteger(raw.max_length) ||
+            raw.max_length < 1 ||
+            raw.max_length > limits.max
+          ) {
+            errors.push(
+              `${position} max length must be between 1 and ${limits.max}`
+            );
+            return;
+          }
+          question.max_length = raw.max_length;
+        }
+      }
+
+      if (raw.visible_when) {
+        // Conditions can only point back at choice questions, so there are no cycles
+        const target = questions.find(
+          candidate => candidate.id === raw.visible_when.question_id
+        );
+        const values = Array.isArray(raw.visible_when.values)
+          ? raw.visible_when.values
+          : [];
+        if (!target || !CHOICE_TYPES.includes(target.type)) {
+          errors.push(
+            `${position} can only depend on an earlier choice question`
+          );
+          return;
+        }
+        if (
+          values.length === 0 ||
+          values.some(
+            (value: unknown) => !target.options!.includes(value as string)
+          )
+        ) {
+          errors.push(
+            `${position} depends on options that ${target.label} does not have`
+          );
+          return;
+        }
+        question.visible_when = { question_id: target.id, values };
+      }
+
+      questions.push(question);
+    });
+
+    return { questions, errors };
+  }
+
+  isQuestionVisible(
+    question: ApplicationFormQuestion,
+    answers: Record<string, ApplicationAnswer>
+  ): boolean {
+    if (!question.visible_when) return true;
+
+    const answer = answers[question.visible_when.question_id];
+    if (answer === undefined) return false;
+
+    const chosen = Array.isArray(answer) ? answer : [answer];
+    return chosen.some(value => question.visible_when!.values.includes(value));
+  }
+
+  /**
+   * Check answers against a version's questions. Questions hidden by their condition
+   * are skipped and their answers dropped, as are answers to unknown questions.
+   */
+  validateAnswers(
+    questions: ApplicationFormQuestion[],
+    rawAnswers: unknown,
+    applicantHandle: string
+  ): AnswerValidationResult {
+    const errors: ApplicationValidationError[] = [];
+    const answers: Record<string, ApplicationAnswer> = {};
+    const input =
+      rawAnswers && typeof rawAnswers === 'object' && !Array.isArray(rawAnswers)
+        ? (rawAnswers as Record<string, unknown>)
+        : {};
+
+    for (const question of questions) {
+      // Conditions look at the cleaned answers, so a hidden question hides its dependants
+      if (!this.isQuestionVisible(question, answers)) continue;
+
+      const field = `answers.${question.id}`;
+      const raw = input[question.id];
+      const answer = this.coerceAnswer(question.type, raw);
+
+      if (answer === null) {
+        errors.push({
+          field,
+          message: `${question.label} has an invalid answer`,
+        });
+        continue;
+      }
+
+      if (isBlank(answer)) {
+        if (question.required) {
+          errors.push({ field, message: `${question.label} is required` });
+        }
+        continue;
+      }
+
+      const error = this.checkAnswer(question, answer, applicantHandle);
+      if (error) {
+        errors.push({ field, message: `${question.label} ${error}` });
+        continue;
+      }
+
+      answers[question.id] = answer;
+    }
+
+    return { answers, errors };
+  }
+
+  /**
+   * Validate an application submitted against one of the organization's forms
+   */
+  async validateSubmission(
+    organizationId: string,
+    formId: string,
+    formVersion: number,
+    rawAnswers: unknown,
+    applicantHandle: string
+  ): Promise<FormSubmissionResult> {
+    const form = await this.formModel.findFormById(formId);
+    if (!form || form.organization_id !== organizationId || !form.is_active) {
+      return {
+        form: null,
+        form_version: null,
+        answers: {},
+        errors: [{ field: 'form_id', message: 'Application form not found' }],
+      };
+    }
+
+    const version = await this.formModel.findVersion(formId, formVersion);
+    if (!version) {
+      return {
+        form,
+        form_version: null,
+        answers: {},
+        errors: [
+          {
+            field: 'form_version',
+            message: 'Application form version not found',
+          },
+        ],
+      };
+    }
+
+    return {
+      form,
+      form_version: version.version,
+      ...this.validateAnswers(version.questions, rawAnswers, applicantHandle),
+    };
+  }
+
+  /**
+   * Trim the answer into the shape its question type takes, or null when it has the
+   * wrong shape altogether
+   */
+  private coerceAnswer(
+    type: ApplicationQuestionType,
+    raw: unknown
+  ): ApplicationAnswer | null {
+    if (raw === undefined || raw === null) {
+      return type === 'multi_choice' || type === 'ship_ownership' ? [] : '';
+    }
+
+    if (type === 'multi_choice' || type === 'ship_ownership') {
+      if (!Array.isArray(raw) || raw.some(value => typeof value !== 'string')) {
+        return null;
+      }
+      return [
+        ...new Set(
+          (raw as string[]).map(value => value.trim()).filter(Boolean)
+        ),
+      ];
+    }
+
+    return typeof raw === 'string' ? raw.trim() : null;
+  }
+
+  private checkAnswer(
+    question: ApplicationFormQuestion,
+    answer: ApplicationAnswer,
+    applicantHandle: string
+  ): string | null {
+    switch (question.type) {
+      case 'short_text':
+      case 'long_text': {
+        const maxLength =
+          question.max_length ?? TEXT_LIMITS[question.type].default;
+        return (answer as string).length > maxLength
+          ? `must be at most ${maxLength} characters`
+          : null;
+      }
+      case 'single_choice':
+        return question.options!.includes(answer as string)
+          ? null
+          : 'must be one of the listed options';
+      case 'multi_choice':
+        return (answer as string[]).every(value =>
+          question.options!.includes(value)
+        )
+          ? null
+          : 'must only use the listed options';
+      case 'ship_ownership':
+        if ((answer as string[]).length > MAX_SHIPS) {
+          return `can list at most ${MAX_SHIPS} ships`;
+        }
+        return (answer as string[]).some(
+          ship => ship.length > MAX_SHIP_NAME_LENGTH
+        )
+          ? `ship names must be at most ${MAX_SHIP_NAME_LENGTH} characters`
+          : null;
+      case 'timezone':
+        return isValidTimezone(answer as string)
+          ? null
+          : 'must be a valid timezone';
+      case 'rsi_handle_confirmation':
+        return (answer as string).toLowerCase() ===
+          applicantHandle.toLowerCase()
+          ? null
+          : 'must match your RSI handle';
+    }
+  }
+}
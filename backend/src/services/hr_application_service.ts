@@ -1,6 +1,24 @@
-import { HRApplicationModel, HRApplication, ApplicationStatus } from '../models/hr_application_model';
+import {
+  HRApplicationModel,
+  HRApplication,
+  ApplicationStatus,
+  CreateHRApplicationData,
+} from '../models/hr_application_model';
+import {
+  HRPipelineModel,
+  HRPipelineRule,
+  HRPipelineStage,
+  PipelineRuleAction,
+  PipelineRuleTrigger,
+} from '../models/hr_pipeline_model';
 import { NotificationService } from './notification_service';
 import { ActivityService } from './activity_service';
+import { PlayerVettingService } from './player_vetting_service';
+import { HRPipelineService } from './hr_pipeline_service';
+import { HROnboardingService } from './hr_onboarding_service';
+import { HRApplicationFormService } from './hr_application_form_service';
+import { UserModel } from '../models/user_model';
+import { RoleModel } from '../models/role_model';
 import { NotificationEntityType } from '../types/notification';
 import logger from '../config/logger';
 
@@ -26,15 +44,34 @@ export interface ApplicationValidationResult {
   warnings: string[];
 }
 
+// Rule actions can move an application on and set off further rules; stop before they loop
+const MAX_RULE_DEPTH = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class HRApplicationService {
   private applicationModel: HRApplicationModel;
+  private pipelineModel: HRPipelineModel;
   private notificationService: NotificationService;
   private activityService: ActivityService;
+  private vettingService: PlayerVettingService;
+  private pipelineService: HRPipelineService;
+  private onboardingService: HROnboardingService;
+  private formService: HRApplicationFormService;
+  private userModel: UserModel;
+  private roleModel: RoleModel;
 
   constructor() {
     this.applicationModel = new HRApplicationModel();
+    this.pipelineModel = new HRPipelineModel();
     this.notificationService = new NotificationService();
     this.activityService = new ActivityService();
+    this.vettingService = new PlayerVettingService();
+    this.pipelineService = new HRPipelineService();
+    this.onboardingService = new HROnboardingService();
+    this.formService = new HRApplicationFormService();
+    this.userModel = new UserModel();
+    this.roleModel = new RoleModel();
   }
 
   /**
@@ -247,6 +284,68 @@ export class HRApplicationService {
     }
   }
 
+  /**
+   * Creates an application from the web form or the Discord /apply command, runs the
+   * background check on the applicant and puts it in the pipeline. Validation and
+   * duplicate errors are thrown.
+   */
+  async submitApplication(data: CreateHRApplicationData): Promise<HRApplication> {
+    if (!data.form_id && (await this.formService.requiresForm(data.organization_id))) {
+      throw new Error('Validation failed: This organization takes applications through its application form');
+    }
+
+    const application = await this.applicationModel.create(data);
+
+    logger.info('Application submitted', {
+      applicationId: application.id,
+      organizationId: application.organization_id,
+      userId: application.user_id,
+    });
+
+    // Vetting failures are logged and never fail the submission
+    const vettedApplication = (await this.vetApplication(application)) || application;
+
+    return this.processSubmission(vettedApplication);
+  }
+
+  /**
+   * Runs a background check on the applicant's RSI handle and stores it on the application
+   */
+  async vetApplication(application: HRApplication): Promise<HRApplication | null> {
+    try {
+      const applicant = await this.userModel.findById(application.user_id);
+      if (!applicant) {
+        logger.warn('Applicant not found for vetting', {
+          applicationId: application.id,
+          userId: application.user_id,
+        });
+        return null;
+      }
+
+      const summary = await this.vettingService.vetHandle(applicant.rsi_handle);
+      const vettedApplication = await this.applicationModel.saveVettingSummary(
+        application.id,
+        summary
+      );
+
+      logger.info('Applicant vetted', {
+        applicationId: application.id,
+        organizationId: application.organization_id,
+        status: summary.status,
+        riskLevel: summary.risk_level,
+      });
+
+      return vettedApplication;
+    } catch (error) {
+      logger.error('Error vetting applicant', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        applicationId: application.id,
+      });
+      // Don't throw error - the application stands without a vetting summary
+      return null;
+    }
+  }
+
   /**
    * Builds comprehensive application analytics and reporting
    */
@@ -374,6 +473,7 @@ export class HRApplicationService {
         message,
         {
           application_id: application.id,
+          organization_id: application.organization_id,
           status: newStatus,
           previous_status: oldStatus,
         }
@@ -571,7 +671,8 @@ export class HRApplicationService {
     newStatus: ApplicationStatus,
     reviewerId: string,
     notes?: string,
-    rejectionReason?: string
+    rejectionReason?: string,
+    ruleDepth: number = 0
   ): Promise<HRApplication | null> {
     try {
       const application = await this.applicationModel.findById(applicationId);
@@ -581,31 +682,31 @@ export class HRApplicationService {
 
       const oldStatus = application.status;
 
+      // Entering a status puts the application in the first pipeline stage of it
+      let stageId: string | null | undefined;
+      if (newStatus !== oldStatus) {
+        const stage = await this.pipelineModel.findFirstStageForStatus(
+          application.organization_id,
+          newStatus
+        );
+        stageId = stage?.id ?? null;
+      }
+
       // Update the application status
       const updatedApplication = await this.applicationModel.updateStatus(
         applicationId,
         newStatus,
         reviewerId,
         notes,
-        rejectionReason
+        rejectionReason,
+        stageId
       );
 
       if (!updatedApplication) {
         throw new Error('Failed to update application status');
       }
 
-      // Trigger notifications
-      await this.triggerStatusChangeNotifications(
-        updatedApplication,
-        oldStatus,
-        newStatus,
-        reviewerId
-      );
-
-      // Generate invite code for approved applications
-      if (newStatus === 'approved') {
-        await this.generateInviteCodeForApproval(applicationId);
-      }
+      await this.completeStatusChange(updatedApplication, oldStatus, reviewerId);
 
       logger.info('Application status change processed successfully', {
         applicationId,
@@ -615,7 +716,7 @@ export class HRApplicationService {
         organizationId: updatedApplication.organization_id,
       });
 
-      return updatedApplication;
+      return await this.runTransitionRules(updatedApplication, application, ruleDepth);
     } catch (error) {
       logger.error('Error processing status change', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -627,6 +728,387 @@ export class HRApplicationService {
     }
   }
 
+  /**
+   * Moves an application to one of the organization's pipeline stages, changing its
+   * status when the stage belongs to another one
+   */
+  async moveToStage(
+    application: HRApplication,
+    stage: HRPipelineStage,
+    movedBy: string,
+    notes?: string,
+    rejectionReason?: string,
+    ruleDepth: number = 0
+  ): Promise<HRApplication> {
+    if (application.stage_id === stage.id) {
+      return application;
+    }
+
+    const validation = this.applicationModel.validateStageTransition(application.status, stage);
+    if (!validation.isValid) {
+      throw new Error(`Invalid stage transition: ${validation.errors.join(', ')}`);
+    }
+
+    const stageNotes = notes || `Moved to ${stage.name}`;
+    let updatedApplication: HRApplication | null;
+
+    if (stage.status !== application.status) {
+      updatedApplication = await this.applicationModel.updateStatus(
+        application.id,
+        stage.status,
+        movedBy,
+        stageNotes,
+        rejectionReason,
+        stage.id
+      );
+      if (updatedApplication) {
+        await this.completeStatusChange(updatedApplication, application.status, movedBy);
+      }
+    } else {
+      updatedApplication = await this.applicationModel.update(application.id, {
+        stage_id: stage.id,
+      });
+      await this.applicationModel.logStatusChange(
+        application.id,
+        application.status,
+        movedBy,
+        stageNotes
+      );
+    }
+
+    if (!updatedApplication) {
+      throw new Error('Failed to move application to stage');
+    }
+
+    logger.info('Application moved to pipeline stage', {
+      applicationId: application.id,
+      stageId: stage.id,
+      oldStatus: application.status,
+      newStatus: stage.status,
+      movedBy,
+      organizationId: application.organization_id,
+    });
+
+    return this.runTransitionRules(updatedApplication, application, ruleDepth);
+  }
+
+  /**
+   * Puts a new application in the first pending stage and runs the submission rules.
+   * Automation problems are logged and never fail the submission.
+   */
+  private async processSubmission(application: HRApplication): Promise<HRApplication> {
+    try {
+      let current = application;
+
+      const stage = await this.pipelineModel.findFirstStageForStatus(
+        application.organization_id,
+        'pending'
+      );
+      if (stage) {
+        current = (await this.applicationModel.update(application.id, { stage_id: stage.id })) || current;
+      }
+
+      current = await this.runPipelineRules(current, 'application_submitted', 0);
+      if (stage && current.stage_id === stage.id) {
+        current = await this.runPipelineRules(current, 'stage_entered', 0);
+      }
+
+      return current;
+    } catch (error) {
+      logger.error('Error running submission pipeline rules', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        applicationId: application.id,
+      });
+      return application;
+    }
+  }
+
+  /**
+   * Runs idle rules against the applications that have sat unchanged for too long.
+   * Each rule fires once per application until the application changes again.
+   */
+  async runIdleRules(now: Date = new Date()): Promise<number> {
+    const rules = await this.pipelineModel.findActiveRules('idle');
+    let applied = 0;
+
+    for (const rule of rules) {
+      try {
+        const idleSince = new Date(now.getTime() - rule.conditions.idle_days! * DAY_MS);
+        const applications = await this.pipelineModel.findIdleApplications(rule, idleSince);
+
+        for (const application of applications) {
+          await this.executePipelineRule(rule, application);
+          await this.pipelineModel.recordRuleRun(rule.id, application.id);
+          applied++;
+        }
+      } catch (error) {
+        logger.error('Error running idle pipeline rule', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ruleId: rule.id,
+          organizationId: rule.organization_id,
+        });
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Runs a rule's actions in order. A failing action is logged and the rest still run.
+   */
+  async executePipelineRule(
+    rule: HRPipelineRule,
+    application: HRApplication,
+    ruleDepth: number = 0
+  ): Promise<HRApplication> {
+    const actorId = await this.getRuleActor(rule);
+    if (!actorId) {
+      logger.warn('No one to run pipeline rule as', {
+        ruleId: rule.id,
+        organizationId: rule.organization_id,
+      });
+      return application;
+    }
+
+    let current = application;
+    for (const action of rule.actions) {
+      try {
+        current = await this.executeRuleAction(rule, action, current, actorId, ruleDepth);
+      } catch (error) {
+        logger.error('Error running pipeline rule action', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ruleId: rule.id,
+          action: action.type,
+          applicationId: application.id,
+        });
+      }
+    }
+
+    logger.info('Pipeline rule applied', {
+      ruleId: rule.id,
+      trigger: rule.trigger,
+      applicationId: application.id,
+      organizationId: rule.organization_id,
+    });
+
+    return current;
+  }
+
+  /**
+   * Notifications and the invite code that follow a status change
+   */
+  private async completeStatusChange(
+    application: HRApplication,
+    oldStatus: ApplicationStatus,
+    reviewerId: string
+  ): Promise<void> {
+    // Trigger notifications
+    await this.triggerStatusChangeNotifications(
+      application,
+      oldStatus,
+      application.status,
+      reviewerId
+    );
+
+    // Generate invite code for approved applications
+    if (application.status === 'approved') {
+      await this.generateInviteCodeForApproval(application.id);
+    }
+  }
+
+  /**
+   * Runs the rules for the status and the stage a transition entered
+   */
+  private async runTransitionRules(
+    application: HRApplication,
+    previous: HRApplication,
+    ruleDepth: number
+  ): Promise<HRApplication> {
+    let current = application;
+
+    if (application.status !== previous.status) {
+      current = await this.runPipelineRules(current, 'status_changed', ruleDepth);
+    }
+
+    // Skipped when a status rule already moved the application on
+    if (
+      application.stage_id &&
+      application.stage_id !== previous.stage_id &&
+      current.stage_id === application.stage_id
+    ) {
+      current = await this.runPipelineRules(current, 'stage_entered', ruleDepth);
+    }
+
+    return current;
+  }
+
+  private async runPipelineRules(
+    application: HRApplication,
+    trigger: PipelineRuleTrigger,
+    ruleDepth: number
+  ): Promise<HRApplication> {
+    if (ruleDepth >= MAX_RULE_DEPTH) {
+      logger.warn('Pipeline rules stopped after too many chained transitions', {
+        applicationId: application.id,
+        trigger,
+      });
+      return application;
+    }
+
+    const rules = await this.pipelineModel.findActiveRules(trigger, application.organization_id);
+
+    let current = application;
+    for (const rule of rules) {
+      if (this.pipelineService.matchesConditions(rule, current)) {
+        current = await this.executePipelineRule(rule, current, ruleDepth);
+      }
+    }
+
+    return current;
+  }
+
+  private async executeRuleAction(
+    rule: HRPipelineRule,
+    action: PipelineRuleAction,
+    application: HRApplication,
+    actorId: string,
+    ruleDepth: number
+  ): Promise<HRApplication> {
+    const ruleNote = `Automation rule "${rule.name}"`;
+
+    switch (action.type) {
+      case 'reject': {
+        if (this.applicationModel.isTerminalStatus(application.status)) {
+          return application;
+        }
+        const rejected = await this.processStatusChange(
+          application.id,
+          'rejected',
+          actorId,
+          ruleNote,
+          action.reason,
+          ruleDepth + 1
+        );
+        return rejected || application;
+      }
+
+      case 'move_to_stage': {
+        const stage = await this.pipelineModel.findStageById(action.stage_id);
+        if (!stage || stage.organization_id !== application.organization_id) {
+          return application;
+        }
+        return this.moveToStage(
+          application,
+          stage,
+          actorId,
+          `${ruleNote} moved the application to ${stage.name}`,
+          ruleNote,
+          ruleDepth + 1
+        );
+      }
+
+      case 'assign_round_robin': {
+        const index = await this.pipelineModel.nextAssignmentIndex(rule.id);
+        const assigneeId = action.recruiter_ids[index % action.recruiter_ids.length];
+
+        const assigned = await this.applicationModel.update(application.id, {
+          assignee_id: assigneeId,
+        });
+        const assignee = await this.userModel.findById(assigneeId);
+        await this.applicationModel.logStatusChange(
+          application.id,
+          application.status,
+          actorId,
+          `${ruleNote} assigned the application to ${assignee?.rsi_handle || 'a recruiter'}`
+        );
+        await this.notifyAssignee(application, assigneeId);
+
+        return assigned || application;
+      }
+
+      case 'generate_invite_code':
+        if (application.status === 'approved') {
+          await this.generateInviteCodeForApproval(application.id);
+          return (await this.applicationModel.findById(application.id)) || application;
+        }
+        return application;
+
+      case 'assign_role':
+        if (application.status === 'approved') {
+          // The actor may have lost rank or permissions since the rule was written
+          if (!(await this.roleModel.canAssignRole(application.organization_id, actorId, action.role_id))) {
+            logger.error('Pipeline rule actor can no longer grant this role', {
+              ruleId: rule.id,
+              actorId,
+              roleId: action.role_id,
+              applicationId: application.id,
+            });
+            return application;
+          }
+          await this.roleModel.addRoleToUser(
+            application.organization_id,
+            application.user_id,
+            action.role_id,
+            actorId
+          );
+        }
+        return application;
+
+      case 'start_onboarding':
+        if (application.status === 'approved') {
+          await this.onboardingService.assignTemplateByIdToUser(
+            application.organization_id,
+            application.user_id,
+            action.template_id
+          );
+        }
+        return application;
+    }
+  }
+
+  /**
+   * Rules run as the member who created them, or the organization owner once they are gone
+   */
+  private async getRuleActor(rule: HRPipelineRule): Promise<string | null> {
+    if (rule.created_by) {
+      return rule.created_by;
+    }
+
+    // Import here to avoid circular dependencies
+    const { OrganizationModel } = await import('../models/organization_model');
+    const organizationModel = new OrganizationModel();
+
+    const organization = await organizationModel.findById(rule.organization_id);
+    return organization?.owner_id || null;
+  }
+
+  /**
+   * Notifies a recruiter that an application was assigned to them
+   */
+  private async notifyAssignee(application: HRApplication, assigneeId: string): Promise<void> {
+    try {
+      await this.notificationService.createCustomEventNotification(
+        NotificationEntityType.HR_APPLICATION_STATUS_CHANGED,
+        application.organization_id,
+        'system',
+        [assigneeId],
+        'Application Assigned',
+        'An application has been assigned to you for review',
+        {
+          application_id: application.id,
+          organization_id: application.organization_id,
+          applicant_id: application.user_id,
+        }
+      );
+    } catch (error) {
+      logger.error('Error notifying recruiter of assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        applicationId: application.id,
+        assigneeId,
+      });
+    }
+  }
+
   /**
    * Bulk processes multiple application status changes
    */
@@ -0,0 +1,440 @@
+import {
+  HRInterviewModel,
+  HRInterviewSlot,
+  HRInterviewSlotWithUsers,
+  InterviewNotes,
+  InterviewRecommendation,
+} from '../models/hr_interview_model';
+import {
+  HRApplication,
+  HRApplicationModel,
+} from '../models/hr_application_model';
+import { DiscordServerModel } from '../models/discord_server_model';
+import { UserModel } from '../models/user_model';
+import { DiscordService } from './discord_service';
+import { HRApplicationService } from './hr_application_service';
+import { NotificationService } from './notification_service';
+import { ServiceResult } from '../types/service_result';
+import { NotificationEntityType } from '../types/notification';
+import logger from '../config/logger';
+
+export const RECOMMENDATION_LABELS: Record<InterviewRecommendation, string> = {
+  strong_yes: 'Strong yes',
+  yes: 'Yes',
+  no: 'No',
+  strong_no: 'Strong no',
+};
+
+// Applications whose applicant may pick (or move) an interview slot
+const BOOKABLE_STATUSES: HRApplication['status'][] = [
+  'under_review',
+  'interview_scheduled',
+];
+
+export interface PublishInterviewSlotData {
+  start_time: Date;
+  end_time: Date;
+  create_discord_event?: boolean;
+}
+
+/**
+ * Interview scheduling for applications: recruiters publish availability windows,
+ * the applicant books one, and the interviewer records structured notes and a
+ * recommendation afterwards. Booking moves the application to
+ * `interview_scheduled`; reminders are sent by the EventReminderService.
+ */
+export class HRInterviewService {
+  private interviewModel: HRInterviewModel;
+  private applicationModel: HRApplicationModel;
+  private applicationService: HRApplicationService;
+  private discordServerModel: DiscordServerModel;
+  private userModel: UserModel;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.interviewModel = new HRInterviewModel();
+    this.applicationModel = new HRApplicationModel();
+    this.applicationService = new HRApplicationService();
+    this.discordServerModel = new DiscordServerModel();
+    this.userModel = new UserModel();
+    this.notificationService = new NotificationService();
+  }
+
+  async listSlots(
+    organizationId: string,
+    now: Date = new Date()
+  ): Promise<HRInterviewSlotWithUsers[]> {
+    return this.interviewModel.listSlots(organizationId, { from: now });
+  }
+
+  async publishSlot(
+    organizationId: string,
+    interviewerId: string,
+    data: PublishInterviewSlotData
+  ): Promise<ServiceResult<HRInterviewSlot>> {
+    if (
+      await this.interviewModel.hasOverlappingSlot(
+        interviewerId,
+        data.start_time,
+        data.end_time
+      )
+    ) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'You already have an interview slot during this time',
+      };
+    }
+
+    const slot = await this.interviewModel.createSlot({
+      organization_id: organizationId,
+      interviewer_id: interviewerId,
+      start_time: data.start_time,
+      end_time: data.end_time,
+      create_discord_event: data.create_discord_event ?? false,
+    });
+
+    return { success: true, data: slot };
+  }
+
+  /**
+   * Withdraw a slot. A booked interview is called off and its application goes back
+   * under review so the applicant can pick another slot.
+   */
+  async cancelSlot(
+    organizationId: string,
+    slotId: string,
+    cancelledBy: string
+  ): Promise<ServiceResult<HRInterviewSlot>> {
+    const slot = await this.interviewModel.findByIdWithUsers(slotId);
+    if (!slot || slot.organization_id !== organizationId) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'Interview slot not found',
+      };
+    }
+
+    const cancelled = await this.interviewModel.cancel(slotId);
+    if (!cancelled) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'Only open or booked interview slots can be cancelled',
+      };
+    }
+
+    if (slot.status === 'booked' && slot.application_id) {
+      await this.removeDiscordEvent(slot);
+
+      const application = await this.applicationModel.findById(
+        slot.application_id
+      );
+      if (application) {
+        if (application.status === 'interview_scheduled') {
+          await this.applicationService.processStatusChange(
+            application.id,
+            'under_review',
+            cancelledBy,
+            'Interview cancelled by the organization'
+          );
+        }
+        await this.notifyInterviewCancelled(slot, application);
+      }
+    }
+
+    return { success: true, data: cancelled };
+  }
+
+  async getOpenSlots(
+    application: HRApplication,
+    now: Date = new Date()
+  ): Promise<HRInterviewSlotWithUsers[]> {
+    return this.interviewModel.listSlots(application.organization_id, {
+      from: now,
+      status: 'open',
+    });
+  }
+
+  async getInterview(
+    applicationId: string
+  ): Promise<HRInterviewSlotWithUsers | null> {
+    return this.interviewModel.findByApplication(applicationId);
+  }
+
+  /**
+   * Book a slot for an application. Booking again moves the interview to the new
+   * slot and frees the previous one.
+   */
+  async bookSlot(
+    application: HRApplication,
+    slotId: string
+  ): Promise<ServiceResult<HRInterviewSlotWithUsers>> {
+    if (!BOOKABLE_STATUSES.includes(application.status)) {
+      return {
+        success: false,
+        code: 'forbidden',
+        error: 'Interviews can only be booked for applications under review',
+      };
+    }
+
+    const slot = await this.interviewModel.findById(slotId);
+    if (!slot || slot.organization_id !== application.organization_id) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'Interview slot not found',
+      };
+    }
+
+    const previous = await this.interviewModel.findByApplication(
+      application.id
+    );
+
+    const booked = await this.interviewModel.book(slotId, application.id);
+    if (!booked) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'This interview slot is no longer available',
+      };
+    }
+
+    if (previous?.status === 'booked') {
+      await this.removeDiscordEvent(previous);
+    }
+
+    const interviewTime = booked.start_time.toISOString();
+    if (application.status === 'under_review') {
+      await this.applicationService.processStatusChange(
+        application.id,
+        'interview_scheduled',
+        booked.interviewer_id,
+        `Interview booked for ${interviewTime}`
+      );
+    } else {
+      await this.applicationModel.logStatusChange(
+        application.id,
+        'interview_scheduled',
+        application.user_id,
+        `Interview moved to ${interviewTime}`
+      );
+    }
+
+    if (booked.create_discord_event) {
+      await this.createDiscordEvent(booked, application);
+    }
+
+    const interview = (await this.interviewModel.findByApplication(
+      application.id
+    ))!;
+    await this.notifyInterviewScheduled(interview);
+
+    return { success: true, data: interview };
+  }
+
+  /**
+   * Record the interviewer's notes and recommendation. The recommendation is also
+   * written to the application's history.
+   */
+  async recordOutcome(
+    application: HRApplication,
+    recordedBy: string,
+    notes: InterviewNotes,
+    recommendation: InterviewRecommendation,
+    now: Date = new Date()
+  ): Promise<ServiceResult<HRInterviewSlot>> {
+    const interview = await this.interviewModel.findByApplication(
+      application.id
+    );
+    if (!interview) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'No interview has been booked for this application',
+      };
+    }
+
+    if (new Date(interview.start_time) > now) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'Notes can only be recorded once the interview has started',
+      };
+    }
+
+    const completed = await this.interviewModel.recordOutcome(
+      interview.id,
+      notes,
+      recommendation
+    );
+    if (!completed) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'Interview not found',
+      };
+    }
+
+    await this.applicationModel.logStatusChange(
+      application.id,
+      application.status,
+      recordedBy,
+      `Interview recommendation: ${RECOMMENDATION_LABELS[recommendation]}. ${notes.summary}`
+    );
+
+    // The voice channel is only needed for the interview itself
+    if (interview.discord_channel_id) {
+      await this.removeDiscordEvent(interview);
+    }
+
+    return { success: true, data: completed };
+  }
+
+  /**
+   * Create a private voice channel for the interviewer and the applicant with a
+   * scheduled event in it. Discord problems never fail the booking.
+   */
+  private async createDiscordEvent(
+    slot: HRInterviewSlot,
+    application: HRApplication
+  ): Promise<void> {
+    try {
+      const discordServer = await this.discordServerModel.findByOrganizationId(
+        slot.organization_id
+      );
+      if (!discordServer || !discordServer.is_active) {
+        logger.info(
+          `Organization ${slot.organization_id} has no active Discord server, skipping interview channel`
+        );
+        return;
+      }
+
+      const [interviewer, applicant] = await Promise.all([
+        this.userModel.findById(slot.interviewer_id),
+        this.userModel.findById(application.user_id),
+      ]);
+      const discordUserIds = [
+        interviewer?.discord_id,
+        applicant?.discord_id,
+      ].filter((id): id is string => !!id);
+      const handle = applicant?.rsi_handle || 'applicant';
+
+      const discordService = new DiscordService();
+      const channel = await discordService.createPrivateVoiceChannel(
+        discordServer.discord_guild_id,
+        `interview-${handle}`.toLowerCase(),
+        discordUserIds
+      );
+      const discordEventId = await discordService.createVoiceChannelEvent(
+        discordServer.discord_guild_id,
+        channel.id,
+        {
+          name: `Interview: ${handle}`,
+          description: `Recruitment interview with ${interviewer?.rsi_handle || 'a recruiter'}`,
+          start_time: new Date(slot.start_time),
+          end_time: new Date(slot.end_time),
+        }
+      );
+
+      await this.interviewModel.update(slot.id, {
+        discord_guild_id: discordServer.discord_guild_id,
+        discord_channel_id: channel.id,
+        discord_event_id: discordEventId,
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to create Discord event for interview ${slot.id}:`,
+        error
+      );
+    }
+  }
+
+  private async removeDiscordEvent(slot: HRInterviewSlot): Promise<void> {
+    if (
+      !slot.discord_guild_id ||
+      (!slot.discord_event_id && !slot.discord_channel_id)
+    ) {
+      return;
+    }
+
+    try {
+      const discordService = new DiscordService();
+      if (slot.discord_event_id) {
+        await discordService.deleteEvent(
+          slot.discord_event_id,
+          slot.discord_guild_id
+        );
+      }
+      if (slot.discord_channel_id) {
+        await discordService.deleteChannel(slot.discord_channel_id);
+      }
+
+      await this.interviewModel.update(slot.id, {
+        discord_channel_id: null,
+        discord_event_id: null,
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to remove Discord event for interview ${slot.id}:`,
+        error
+      );
+    }
+  }
+
+  private async notifyInterviewScheduled(
+    interview: HRInterviewSlotWithUsers
+  ): Promise<void> {
+    try {
+      await this.notificationService.createCustomEventNotification(
+        NotificationEntityType.HR_INTERVIEW_SCHEDULED,
+        interview.id,
+        interview.applicant_id || 'system',
+        [interview.interviewer_id, interview.applicant_id].filter(
+          (id): id is string => !!id
+        ),
+        'Interview Scheduled',
+        `The interview of ${interview.applicant_rsi_handle || 'an applicant'} with ${interview.interviewer_rsi_handle || 'a recruiter'} is scheduled`,
+        {
+          application_id: interview.application_id,
+          organization_id: interview.organization_id,
+          rsi_org_id: interview.rsi_org_id,
+          start_time: interview.start_time,
+          end_time: interview.end_time,
+        }
+      );
+    } catch (error) {
+      logger.error('Error sending interview scheduled notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        interviewId: interview.id,
+      });
+    }
+  }
+
+  private async notifyInterviewCancelled(
+    slot: HRInterviewSlotWithUsers,
+    application: HRApplication
+  ): Promise<void> {
+    try {
+      await this.notificationService.createCustomEventNotification(
+        NotificationEntityType.HR_INTERVIEW_CANCELLED,
+        slot.id,
+        'system',
+        [application.user_id],
+        'Interview Cancelled',
+        'Your interview was cancelled. Please pick another interview slot.',
+        {
+          application_id: application.id,
+          organization_id: slot.organization_id,
+          rsi_org_id: slot.rsi_org_id,
+          start_time: slot.start_time,
+        }
+      );
+    } catch (error) {
+      logger.error('Error sending interview cancelled notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        interviewId: slot.id,
+      });
+    }
+  }
+}
@@ -0,0 +1,607 @@
+import {
+  HRMentorProfile,
+  HRMentorProfileWithLoad,
+  HRMentorship,
+  HRMentorshipCheckIn,
+  HRMentorshipModel,
+  HRMentorshipNote,
+  HRMentorshipWithUsers,
+  MentorProfileData,
+  MentorshipFilters,
+} from '../models/hr_mentorship_model';
+import { HROnboardingModel } from '../models/hr_onboarding_model';
+import { RoleModel } from '../models/role_model';
+import { HRActivityService } from './hr_activity_service';
+import { NotificationService } from './notification_service';
+import { ServiceResult } from '../types/service_result';
+import { NotificationEntityType } from '../types/notification';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
+import logger from '../config/logger';
+
+export const DEFAULT_CHECK_IN_INTERVAL_DAYS = 14;
+
+// How much each criterion counts towards a match score of 0 to 1
+export const MENTOR_MATCH_WEIGHTS = {
+  skills: 0.5,
+  timezone: 0.3,
+  languages: 0.2,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MentorMatch {
+  mentor: HRMentorProfileWithLoad;
+  score: number;
+  // Skills of the mentee the mentor has verified
+  shared_skill_ids: string[];
+  timezone_difference_hours: number | null;
+  shared_languages: string[];
+}
+
+export interface AssignMentorOptions {
+  // Without a mentor, the best match with capacity left is assigned
+  mentor_id?: string;
+  check_in_interval_days?: number;
+}
+
+export interface CompletedCheckIn {
+  check_in: HRMentorshipCheckIn;
+  next_check_in: HRMentorshipCheckIn;
+  note: HRMentorshipNote | null;
+}
+
+const roundScore = (score: number): number => Math.round(score * 1000) / 1000;
+
+/**
+ * Mentor pairing for members going through onboarding. Members volunteer as mentors
+ * with a cap on their mentees; HR assigns one by hand or takes the best match on
+ * skills, timezone and language. Mentors check in with their mentee on a fixed
+ * interval and keep notes; reminders are sent by the EventReminderService. Mentor
+ * changes are recorded in the HR activity timeline.
+ */
+export class HRMentorshipService {
+  private mentorshipModel: HRMentorshipModel;
+  private onboardingModel: HROnboardingModel;
+  private roleModel: RoleModel;
+  private activityService: HRActivityService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.mentorshipModel = new HRMentorshipModel();
+    this.onboardingModel = new HROnboardingModel();
+    this.roleModel = new RoleModel();
+    this.activityService = new HRActivityService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Minutes the timezone is ahead of UTC at `now`, or null for an unknown timezone
+   */
+  static getTimezoneOffsetMinutes(
+    timezone: string,
+    now: Date = new Date()
+  ): number | null {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(now);
+      const part = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find(item => item.type === type)?.value);
+
+      const localTime = Date.UTC(
+        part('year'),
+        part('month') - 1,
+        part('day'),
+        part('hour'),
+        part('minute')
+      );
+      const utcTime = Math.floor(now.getTime() / 60000) * 60000;
+      return Math.round((localTime - utcTime) / 60000);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Score how well a mentor fits a mentee. Skills count by the share of the
+   * mentee's skills the mentor has verified, timezones by how many hours apart
+   * they are (12 or more scores nothing) and languages by speaking one in common.
+   */
+  static scoreMatch(
+    mentee: Pick<HRMentorProfile, 'timezone' | 'languages'>,
+    menteeSkillIds: string[],
+    mentor: HRMentorProfileWithLoad,
+    mentorSkillIds: string[],
+    now: Date = new Date()
+  ): MentorMatch {
+    const sharedSkillIds = menteeSkillIds.filter(skillId =>
+      mentorSkillIds.includes(skillId)
+    );
+    const skillScore =
+      menteeSkillIds.length > 0
+        ? sharedSkillIds.length / menteeSkillIds.length
+        : 0;
+
+    let timezoneDifferenceHours: number | null = null;
+    if (mentee.timezone && mentor.timezone) {
+      const menteeOffset = this.getTimezoneOffsetMinutes(mentee.timezone, now);
+      const mentorOffset = this.getTimezoneOffsetMinutes(mentor.timezone, now);
+      if (menteeOffset !== null && mentorOffset !== null) {
+        const hoursApart = Math.abs(menteeOffset - mentorOffset) / 60;
+        timezoneDifferenceHours = Math.min(hoursApart, 24 - hoursApart);
+      }
+    }
+    const timezoneScore =
+      timezoneDifferenceHours === null
+        ? 0
+        : 1 - Math.min(timezoneDifferenceHours, 12) / 12;
+
+    const mentorLanguages = mentor.languages.map(language =>
+      language.toLowerCase()
+    );
+    const sharedLanguages = mentee.languages.filter(language =>
+      mentorLanguages.includes(language.toLowerCase())
+    );
+    const languageScore = sharedLanguages.length > 0 ? 1 : 0;
+
+    return {
+      mentor,
+      score: roundScore(
+        skillScore * MENTOR_MATCH_WEIGHTS.skills +
+          timezoneScore * MENTOR_MATCH_WEIGHTS.timezone +
+          languageScore * MENTOR_MATCH_WEIGHTS.languages
+      ),
+      shared_skill_ids: sharedSkillIds,
+      timezone_difference_hours: timezoneDifferenceHours,
+      shared_languages: sharedLanguages,
+    };
+  }
+
+  async getProfile(
+    organizationId: string,
+    userId: string
+  ): Promise<HRMentorProfile | null> {
+    return this.mentorshipModel.findProfile(organizationId, userId);
+  }
+
+  async updateProfile(
+    organizationId: string,
+    userId: string,
+    profileData: MentorProfileData
+  ): Promise<HRMentorProfile> {
+    return this.mentorshipModel.upsertProfile(
+      organizationId,
+      userId,
+      profileData
+    );
+  }
+
+  async listMentors(
+    organizationId: string
+  ): Promise<HRMentorProfileWithLoad[]> {
+    return this.mentorshipModel.listMentors(organizationId);
+  }
+
+  /**
+   * Mentors with room for another mentee, best match first. Equal scores go to the
+   * mentor with fewer mentees.
+   */
+  async findMatches(
+    organizationId: string,
+    menteeId: string,
+    limit: number = 5,
+    now: Date = new Date()
+  ): Promise<MentorMatch[]> {
+    const [menteeProfile, mentors] = await Promise.all([
+      this.mentorshipModel.findProfile(organizationId, menteeId),
+      this.mentorshipModel.listMentors(organizationId),
+    ]);
+
+    const available = mentors.filter(
+      mentor =>
+        mentor.user_id !== menteeId &&
+        mentor.active_mentees < mentor.max_mentees
+    );
+    if (available.length === 0) {
+      return [];
+    }
+
+    const [menteeSkills, mentorSkills] = await Promise.all([
+      this.mentorshipModel.getUserSkillIds(organizationId, [menteeId]),
+      this.mentorshipModel.getUserSkillIds(
+        organizationId,
+        available.map(mentor => mentor.user_id),
+        true
+      ),
+    ]);
+
+    const mentee = {
+      timezone: menteeProfile?.timezone ?? null,
+      languages: menteeProfile?.languages ?? [],
+    };
+
+    return available
+      .map(mentor =>
+        HRMentorshipService.scoreMatch(
+          mentee,
+          menteeSkills[menteeId] || [],
+          mentor,
+          mentorSkills[mentor.user_id] || [],
+          now
+        )
+      )
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.mentor.active_mentees - b.mentor.active_mentees
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Assign a mentor to a member in onboarding, by hand or by taking the best match.
+   * A member who already has a mentor is moved over to the new one.
+   */
+  async assignMentor(
+    organizationId: string,
+    menteeId: string,
+    assignedBy: string,
+    options: AssignMentorOptions = {},
+    now: Date = new Date()
+  ): Promise<ServiceResult<HRMentorshipWithUsers>> {
+    const progress =
+      await this.onboardingModel.findProgressByUserAndOrganization(
+        organizationId,
+        menteeId
+      );
+    if (!progress) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'This member has not started onboarding',
+      };
+    }
+
+    const current = await this.mentorshipModel.findActiveByMentee(
+      organizationId,
+      menteeId
+    );
+
+    let mentor: HRMentorProfileWithLoad | undefined;
+    let matchScore: number | null = null;
+
+    if (options.mentor_id) {
+      if (options.mentor_id === menteeId) {
+        return {
+          success: false,
+          code: 'conflict',
+          error: 'Members cannot mentor themselves',
+        };
+      }
+
+      if (current?.mentor_id === options.mentor_id) {
+        return {
+          success: false,
+          code: 'conflict',
+          error: 'This mentor is already assigned to the member',
+        };
+      }
+
+      const mentors = await this.mentorshipModel.listMentors(organizationId);
+      mentor = mentors.find(
+        candidate => candidate.user_id === options.mentor_id
+      );
+      if (!mentor) {
+        return {
+          success: false,
+          code: 'not_found',
+          error: 'This member is not available as a mentor',
+        };
+      }
+
+      if (mentor.active_mentees >= mentor.max_mentees) {
+        return {
+          success: false,
+          code: 'conflict',
+          error: `This mentor already has ${mentor.max_mentees} mentees`,
+        };
+      }
+    } else {
+      const matches = await this.findMatches(organizationId, menteeId, 5, now);
+      const best = matches.find(
+        match => match.mentor.user_id !== current?.mentor_id
+      );
+      if (!best) {
+        return {
+          success: false,
+          code: 'conflict',
+          error: 'No mentor with room for another mentee is available',
+        };
+      }
+
+      mentor = best.mentor;
+      matchScore = best.score;
+    }
+
+    const checkInIntervalDays =
+      options.check_in_interval_days ?? DEFAULT_CHECK_IN_INTERVAL_DAYS;
+
+    const assignment = await this.mentorshipModel.assign(
+      {
+        organization_id: organizationId,
+        progress_id: progress.id,
+        mentee_id: menteeId,
+        mentor_id: mentor.user_id,
+        assignment_method: options.mentor_id ? 'manual' : 'matched',
+        match_score: matchScore,
+        check_in_interval_days: checkInIntervalDays,
+        assigned_by: assignedBy,
+      },
+      new Date(now.getTime() + checkInIntervalDays * DAY_MS),
+      now
+    );
+    // Another assignment can fill the mentor up after the check above
+    if (!assignment) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: `This mentor already has ${mentor.max_mentees} mentees`,
+      };
+    }
+
+    const { mentorship, previous } = assignment;
+    const assigned = (await this.mentorshipModel.findByIdWithUsers(
+      mentorship.id
+    ))!;
+    const previousMentor = previous
+      ? await this.mentorshipModel.findByIdWithUsers(previous.id)
+      : null;
+
+    await this.recordMentorAssigned(assigned, previousMentor);
+    await this.notifyMentorAssigned(assigned);
+
+    return { success: true, data: assigned };
+  }
+
+  async endMentorship(
+    organizationId: string,
+    mentorshipId: string,
+    reason?: string,
+    now: Date = new Date()
+  ): Promise<ServiceResult<HRMentorshipWithUsers>> {
+    const mentorship =
+      await this.mentorshipModel.findByIdWithUsers(mentorshipId);
+    if (!mentorship || mentorship.organization_id !== organizationId) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'Mentorship not found',
+      };
+    }
+
+    const ended = await this.mentorshipModel.end(
+      mentorshipId,
+      reason || null,
+      now
+    );
+    if (!ended) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'This mentorship has already ended',
+      };
+    }
+
+    await this.recordMentorUnassigned(mentorship, reason);
+
+    return {
+      success: true,
+      data: {
+        ...mentorship,
+        ...ended,
+        next_check_in_id: null,
+        next_check_in_at: null,
+      },
+    };
+  }
+
+  async listMentorships(
+    organizationId: string,
+    filters: MentorshipFilters = {}
+  ): Promise<HRMentorshipWithUsers[]> {
+    return this.mentorshipModel.list(organizationId, filters);
+  }
+
+  async listMentorshipsForUser(
+    organizationId: string,
+    userId: string
+  ): Promise<HRMentorshipWithUsers[]> {
+    return this.mentorshipModel.listForUser(organizationId, userId);
+  }
+
+  /**
+   * The mentorship, when it belongs to the organization
+   */
+  async getMentorship(
+    organizationId: string,
+    mentorshipId: string
+  ): Promise<HRMentorshipWithUsers | null> {
+    const mentorship =
+      await this.mentorshipModel.findByIdWithUsers(mentorshipId);
+    return mentorship && mentorship.organization_id === organizationId
+      ? mentorship
+      : null;
+  }
+
+  /**
+   * Mentors and HR managers can run a mentorship; its mentee can only view it
+   */
+  async canManage(userId: string, mentorship: HRMentorship): Promise<boolean> {
+    if (mentorship.mentor_id === userId) {
+      return true;
+    }
+
+    return this.roleModel.userHasPermission(
+      mentorship.organization_id,
+      userId,
+      ORGANIZATION_PERMISSIONS.MANAGE_MEMBERS
+    );
+  }
+
+  async getCheckIns(mentorshipId: string): Promise<HRMentorshipCheckIn[]> {
+    return this.mentorshipModel.listCheckIns(mentorshipId);
+  }
+
+  /**
+   * Complete the mentorship's open check-in and schedule the next one an interval
+   * later. Notes taken during the check-in are kept with it.
+   */
+  async completeCheckIn(
+    mentorship: HRMentorship,
+    completedBy: string,
+    notes?: string,
+    now: Date = new Date()
+  ): Promise<ServiceResult<CompletedCheckIn>> {
+    if (mentorship.status !== 'active') {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'Check-ins can only be completed for active mentorships',
+      };
+    }
+
+    const openCheckIn = await this.mentorshipModel.findOpenCheckIn(
+      mentorship.id
+    );
+    if (!openCheckIn) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'This mentorship has no open check-in',
+      };
+    }
+
+    const completed = await this.mentorshipModel.completeCheckIn(
+      openCheckIn.id,
+      completedBy,
+      new Date(now.getTime() + mentorship.check_in_interval_days * DAY_MS),
+      now
+    );
+    if (!completed) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'This check-in has already been completed',
+      };
+    }
+
+    const note = notes
+      ? await this.mentorshipModel.addNote(
+          mentorship.id,
+          completedBy,
+          notes,
+          completed.checkIn.id
+        )
+      : null;
+
+    return {
+      success: true,
+      data: {
+        check_in: completed.checkIn,
+        next_check_in: completed.nextCheckIn,
+        note,
+      },
+    };
+  }
+
+  async addNote(
+    mentorship: HRMentorship,
+    authorId: string,
+    content: string
+  ): Promise<HRMentorshipNote> {
+    return this.mentorshipModel.addNote(mentorship.id, authorId, content);
+  }
+
+  async getNotes(mentorshipId: string): Promise<HRMentorshipNote[]> {
+    return this.mentorshipModel.listNotes(mentorshipId);
+  }
+
+  // The timeline entry is a record of the change, not part of it
+  private async recordMentorAssigned(
+    mentorship: HRMentorshipWithUsers,
+    previous: HRMentorshipWithUsers | null
+  ): Promise<void> {
+    try {
+      await this.activityService.createMentorAssignedActivity(
+        mentorship.organization_id,
+        mentorship.mentee_id,
+        mentorship.mentee_rsi_handle,
+        mentorship.id,
+        mentorship.mentor_id,
+        mentorship.mentor_rsi_handle,
+        mentorship.assignment_method,
+        previous
+          ? { id: previous.mentor_id, handle: previous.mentor_rsi_handle }
+          : undefined
+      );
+    } catch (error) {
+      logger.error('Error recording mentor assigned activity', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        mentorshipId: mentorship.id,
+      });
+    }
+  }
+
+  private async recordMentorUnassigned(
+    mentorship: HRMentorshipWithUsers,
+    reason?: string
+  ): Promise<void> {
+    try {
+      await this.activityService.createMentorUnassignedActivity(
+        mentorship.organization_id,
+        mentorship.mentee_id,
+        mentorship.mentee_rsi_handle,
+        mentorship.id,
+        mentorship.mentor_id,
+        mentorship.mentor_rsi_handle,
+        reason
+      );
+    } catch (error) {
+      logger.error('Error recording mentor unassigned activity', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        mentorshipId: mentorship.id,
+      });
+    }
+  }
+
+  private async notifyMentorAssigned(
+    mentorship: HRMentorshipWithUsers
+  ): Promise<void> {
+    try {
+      await this.notificationService.createCustomEventNotification(
+        NotificationEntityType.HR_MENTOR_ASSIGNED,
+        mentorship.id,
+        mentorship.assigned_by || 'system',
+        [mentorship.mentor_id, mentorship.mentee_id],
+        'Mentor Assigned',
+        `${mentorship.mentor_rsi_handle} is now the mentor of ${mentorship.mentee_rsi_handle}. Your first check-in is due in ${mentorship.check_in_interval_days} days.`,
+        {
+          mentorship_id: mentorship.id,
+          organization_id: mentorship.organization_id,
+          rsi_org_id: mentorship.rsi_org_id,
+          next_check_in_at: mentorship.next_check_in_at,
+        }
+      );
+    } catch (error) {
+      logger.error('Error sending mentor assigned notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        mentorshipId: mentorship.id,
+      });
+    }
+  }
+}
@@ -1,9 +1,42 @@
-import { HROnboardingModel, HROnboardingTemplate, HROnboardingProgress, OnboardingTask, CreateHROnboardingProgressData, UpdateHROnboardingProgressData } from '../models/hr_onboarding_model';
+import { HROnboardingModel, HROnboardingTemplate, HROnboardingProgress, OnboardingTask, OnboardingTaskCompletion, OnboardingTaskTrigger, OnboardingTaskAssigneeType, OnboardingTrainingType, CreateHROnboardingProgressData, UpdateHROnboardingProgressData } from '../models/hr_onboarding_model';
+import { HRDocumentModel } from '../models/hr_document_model';
+import { HRSkillModel } from '../models/hr_skill_model';
+import { RoleModel } from '../models/role_model';
 import { NotificationService } from './notification_service';
 import { ActivityService } from './activity_service';
 import { NotificationEntityType } from '../types/notification';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
 import logger from '../config/logger';
 
+export const ONBOARDING_TASK_TRIGGER_TYPES: OnboardingTaskTrigger['type'][] = [
+  'document_acknowledged',
+  'training_attended',
+  'skill_verified',
+];
+
+export const ONBOARDING_TASK_ASSIGNEE_TYPES: OnboardingTaskAssigneeType[] = ['member', 'user', 'role'];
+
+export const ONBOARDING_TRAINING_TYPES: OnboardingTrainingType[] = [
+  'onboarding',
+  'skill_development',
+  'leadership',
+  'compliance',
+];
+
+const MAX_DUE_OFFSET_DAYS = 365;
+
+export type OnboardingTaskState = 'completed' | 'available' | 'blocked';
+
+export interface OnboardingTaskStatus {
+  task_id: string;
+  state: OnboardingTaskState;
+  // Prerequisites that are still open
+  blocked_by: string[];
+  due_date: Date | null;
+  is_overdue: boolean;
+  completion: OnboardingTaskCompletion | null;
+}
+
 export interface OnboardingCompletionCertificate {
   user_id: string;
   organization_id: string;
@@ -20,7 +53,9 @@ export interface OnboardingNotificationData {
   template_id: string;
   progress_id: string;
   role_name: string;
-  notification_type: 'started' | 'task_completed' | 'completed' | 'overdue' | 'reminder';
+  notification_type: 'started' | 'task_completed' | 'task_assigned' | 'completed' | 'overdue' | 'reminder';
+  // Who gets the notification when it isn't the member being onboarded
+  recipient_id?: string;
   task_title?: string;
   completion_percentage?: number;
   days_overdue?: number;
@@ -28,11 +63,17 @@ export interface OnboardingNotificationData {
 
 export class HROnboardingService {
   private onboardingModel: HROnboardingModel;
+  private documentModel: HRDocumentModel;
+  private skillModel: HRSkillModel;
+  private roleModel: RoleModel;
   private notificationService: NotificationService;
   private activityService: ActivityService;
 
   constructor() {
     this.onboardingModel = new HROnboardingModel();
+    this.documentModel = new HRDocumentModel();
+    this.skillModel = new HRSkillModel();
+    this.roleModel = new RoleModel();
     this.notificationService = new NotificationService();
     this.activityService = new ActivityService();
   }
@@ -52,34 +93,27 @@ export class HROnboardingService {
         return null;
       }
 
-      // Check if user already has onboarding progress
-      const existingProgress = await this.onboardingModel.findProgressByUserAndOrganization(organizationId, userId);
-      if (existingProgress) {
-        logger.warn(`User ${userId} already has onboarding progress in organization ${organizationId}`);
-        return existingProgress;
-      }
-
-      // Create progress for the user
-      const progressData: CreateHROnboardingProgressData = {
-        organization_id: organizationId,
-        user_id: userId,
-        template_id: template.id,
-      };
+      return await this.startTemplateForUser(organizationId, userId, template);
+    } catch (error) {
+      logger.error('Error assigning onboarding template to user:', error);
+      throw error;
+    }
+  }
 
-      const progress = await this.onboardingModel.createProgress(progressData);
+  async assignTemplateByIdToUser(
+    organizationId: string,
+    userId: string,
+    templateId: string
+  ): Promise<HROnboardingProgress | null> {
+    try {
+      const template = await this.onboardingModel.findTemplateById(templateId);
 
-      // Send notification about onboarding start
-      await this.sendOnboardingNotification({
-        user_id: userId,
-        organization_id: organizationId,
-        template_id: template.id,
-        progress_id: progress.id,
-        role_name: roleName,
-        notification_type: 'started',
-      });
+      if (!template || template.organization_id !== organizationId || !template.is_active) {
+        logger.warn(`Onboarding template ${templateId} not found in organization ${organizationId}`);
+        return null;
+      }
 
-      logger.info(`Onboarding assigned to user ${userId} for role ${roleName} in organization ${organizationId}`);
-      return progress;
+      return await this.startTemplateForUser(organizationId, userId, template);
     } catch (error) {
       logger.error('Error assigning onboarding template to user:', error);
       throw error;
@@ -201,7 +235,8 @@ export class HROnboardingService {
 
   async completeTaskWithNotification(
     progressId: string,
-    taskId: string
+    taskId: string,
+    completion: Omit<OnboardingTaskCompletion, 'completed_at'> = { completed_by: null, source: 'manual' }
   ): Promise<{ progress: HROnboardingProgress | null; isComplete: boolean }> {
     try {
       const progress = await this.onboardingModel.findProgressById(progressId);
@@ -219,46 +254,214 @@ export class HROnboardingService {
         return { progress: null, isComplete: false };
       }
 
-      const updatedProgress = await this.onboardingModel.completeTask(progressId, taskId);
-      if (!updatedProgress) {
-        return { progress: null, isComplete: false };
+      const result = await this.recordTaskCompletion(progress, template, task, completion);
+      if (!result.progress) {
+        return result;
       }
 
-      // Send task completion notification
-      await this.sendOnboardingNotification({
-        user_id: updatedProgress.user_id,
-        organization_id: updatedProgress.organization_id,
-        template_id: updatedProgress.template_id,
-        progress_id: updatedProgress.id,
-        role_name: template.role_name,
-        notification_type: 'task_completed',
-        task_title: task.title,
-        completion_percentage: updatedProgress.completion_percentage,
-      });
+      // The completed task may unlock tasks whose triggers already happened
+      const triggeredTaskIds = await this.evaluateCompletionTriggers(progress.organization_id, progress.user_id);
+      if (triggeredTaskIds.length === 0) {
+        return result;
+      }
+
+      return {
+        progress: await this.onboardingModel.findProgressById(progressId),
+        isComplete: await this.onboardingModel.isOnboardingComplete(progressId),
+      };
+    } catch (error) {
+      logger.error('Error completing onboarding task with notification:', error);
+      throw error;
+    }
+  }
 
-      const isComplete = await this.onboardingModel.isOnboardingComplete(progressId);
+  // Task dependencies, assignees and completion triggers
+  static getTaskStatuses(
+    template: HROnboardingTemplate,
+    progress: HROnboardingProgress,
+    now: Date = new Date()
+  ): OnboardingTaskStatus[] {
+    const completedTasks = progress.completed_tasks || [];
+    const taskIds = new Set(template.tasks.map(task => task.id));
+    const startedAt = new Date(progress.started_at || progress.created_at);
+
+    return template.tasks.map(task => {
+      const isCompleted = completedTasks.includes(task.id);
+      // Prerequisites removed from the template no longer block the task
+      const blockedBy = (task.depends_on || []).filter(
+        dependencyId => taskIds.has(dependencyId) && !completedTasks.includes(dependencyId)
+      );
 
-      // If onboarding is complete, generate certificate and send completion notification
-      if (isComplete && updatedProgress.status === 'completed') {
-        const certificate = await this.generateCompletionCertificate(updatedProgress, template);
-        
-        await this.sendOnboardingNotification({
-          user_id: updatedProgress.user_id,
-          organization_id: updatedProgress.organization_id,
-          template_id: updatedProgress.template_id,
-          progress_id: updatedProgress.id,
-          role_name: template.role_name,
-          notification_type: 'completed',
-          completion_percentage: updatedProgress.completion_percentage,
+      let dueDate: Date | null = null;
+      if (task.due_offset_days !== undefined && task.due_offset_days !== null) {
+        dueDate = new Date(startedAt);
+        dueDate.setDate(dueDate.getDate() + task.due_offset_days);
+      }
+
+      return {
+        task_id: task.id,
+        state: isCompleted ? 'completed' : blockedBy.length > 0 ? 'blocked' : 'available',
+        blocked_by: isCompleted ? [] : blockedBy,
+        due_date: dueDate,
+        is_overdue: !isCompleted && dueDate !== null && dueDate < now,
+        completion: isCompleted ? progress.task_completions?.[task.id] || null : null,
+      };
+    });
+  }
+
+  /**
+   * Check a template's tasks against each other and the organization: prerequisites must
+   * be tasks of the template without cycles, and the users, roles, documents and skills
+   * the tasks name must belong to the organization
+   */
+  async validateTemplateTasks(organizationId: string, tasks: OnboardingTask[]): Promise<string[]> {
+    const errors: string[] = [];
+    const taskIds = new Set<string>();
+
+    for (const task of tasks) {
+      if (taskIds.has(task.id)) {
+        errors.push(`Task ${task.id} appears more than once`);
+      }
+      taskIds.add(task.id);
+    }
+
+    for (const task of tasks) {
+      const position = `Task ${task.id}`;
+
+      for (const dependencyId of task.depends_on || []) {
+        if (dependencyId === task.id) {
+          errors.push(`${position} cannot depend on itself`);
+        } else if (!taskIds.has(dependencyId)) {
+          errors.push(`${position} depends on unknown task ${dependencyId}`);
+        }
+      }
+
+      if (
+        task.due_offset_days !== undefined &&
+        (!Number.isInteger(task.due_offset_days) || task.due_offset_days < 0 || task.due_offset_days > MAX_DUE_OFFSET_DAYS)
+      ) {
+        errors.push(`${position} needs due_offset_days between 0 and ${MAX_DUE_OFFSET_DAYS}`);
+      }
+
+      const assigneeType = task.assignee_type || 'member';
+      if (!ONBOARDING_TASK_ASSIGNEE_TYPES.includes(assigneeType)) {
+        errors.push(`${position} has an unknown assignee type`);
+      } else if (assigneeType === 'member' && task.assignee_id) {
+        errors.push(`${position} is completed by the member and cannot name an assignee`);
+      } else if (assigneeType === 'user') {
+        const isMember = task.assignee_id
+          && (await this.roleModel.getUserRoleIds(organizationId, task.assignee_id)).length > 0;
+        if (!isMember) {
+          errors.push(`${position} is assigned to a user outside this organization`);
+        }
+      } else if (assigneeType === 'role') {
+        const role = task.assignee_id ? await this.roleModel.findById(task.assignee_id) : null;
+        if (!role || role.organization_id !== organizationId) {
+          errors.push(`${position} is assigned to a role outside this organization`);
+        }
+      }
+
+      if (task.completion_trigger) {
+        errors.push(...(await this.validateTrigger(organizationId, position, task.completion_trigger)));
+      }
+    }
+
+    const cycleTaskId = this.findDependencyCycle(tasks);
+    if (cycleTaskId) {
+      errors.push(`Task ${cycleTaskId} is part of a dependency cycle`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether the user may complete the task on a member's onboarding. Member tasks are
+   * completed by the member, assigned tasks by their assignee, and members who can manage
+   * members can complete any task.
+   */
+  async canCompleteTask(
+    organizationId: string,
+    userId: string,
+    progress: HROnboardingProgress,
+    task: OnboardingTask
+  ): Promise<boolean> {
+    const canManage = await this.roleModel.userHasPermission(
+      organizationId,
+      userId,
+      ORGANIZATION_PERMISSIONS.MANAGE_MEMBERS
+    );
+    if (canManage) {
+      return true;
+    }
+
+    switch (task.assignee_type) {
+      case 'user':
+        return task.assignee_id === userId;
+      case 'role': {
+        const roleIds = await this.roleModel.getUserRoleIds(organizationId, userId);
+        return !!task.assignee_id && roleIds.includes(task.assignee_id);
+      }
+      default:
+        return progress.user_id === userId;
+    }
+  }
+
+  /**
+   * Complete the member's unlocked tasks whose trigger has happened. Called as members
+   * acknowledge documents, attend training and get skills verified; failures are logged
+   * so the action that prompted the check still succeeds.
+   */
+  async evaluateCompletionTriggers(organizationId: string, userId: string): Promise<string[]> {
+    const completedTaskIds: string[] = [];
+
+    try {
+      let progress = await this.onboardingModel.findProgressByUserAndOrganization(organizationId, userId);
+      if (!progress) {
+        return completedTaskIds;
+      }
+
+      const template = await this.onboardingModel.findTemplateById(progress.template_id);
+      if (!template) {
+        return completedTaskIds;
+      }
+
+      // Each completion can unlock another task whose trigger already happened
+      let task = await this.findTriggeredTask(progress, template);
+      while (progress && task) {
+        const result = await this.recordTaskCompletion(progress, template, task, {
+          completed_by: null,
+          source: 'trigger',
         });
+        progress = result.progress;
+        completedTaskIds.push(task.id);
+        task = progress ? await this.findTriggeredTask(progress, template) : undefined;
+      }
 
-        logger.info(`Onboarding completed for user ${updatedProgress.user_id} in organization ${updatedProgress.organization_id}`);
+      if (completedTaskIds.length > 0) {
+        logger.info(`Completed ${completedTaskIds.length} onboarding task(s) by trigger for user ${userId} in organization ${organizationId}`);
       }
+    } catch (error) {
+      logger.error('Error evaluating onboarding completion triggers:', error);
+    }
+
+    return completedTaskIds;
+  }
 
-      return { progress: updatedProgress, isComplete };
+  /**
+   * Evaluate triggers for members marked as attending an event, if it is a training event
+   */
+  async handleEventAttendance(eventId: string, userIds: string[]): Promise<void> {
+    try {
+      const trainingEvent = await this.onboardingModel.findTrainingEvent(eventId);
+      if (!trainingEvent) {
+        return;
+      }
+
+      for (const userId of userIds) {
+        await this.evaluateCompletionTriggers(trainingEvent.organization_id, userId);
+      }
     } catch (error) {
-      logger.error('Error completing onboarding task with notification:', error);
-      throw error;
+      logger.error('Error evaluating onboarding triggers for event attendance:', error);
     }
   }
 
@@ -370,6 +573,223 @@ export class HROnboardingService {
   }
 
   // Helper methods
+  private async recordTaskCompletion(
+    progress: HROnboardingProgress,
+    template: HROnboardingTemplate,
+    task: OnboardingTask,
+    completion: Omit<OnboardingTaskCompletion, 'completed_at'>
+  ): Promise<{ progress: HROnboardingProgress | null; isComplete: boolean }> {
+    const updatedProgress = await this.onboardingModel.completeTask(progress.id, task.id, completion);
+    if (!updatedProgress) {
+      return { progress: null, isComplete: false };
+    }
+
+    // Send task completion notification
+    await this.sendOnboardingNotification({
+      user_id: updatedProgress.user_id,
+      organization_id: updatedProgress.organization_id,
+      template_id: updatedProgress.template_id,
+      progress_id: updatedProgress.id,
+      role_name: template.role_name,
+      notification_type: 'task_completed',
+      task_title: task.title,
+      completion_percentage: updatedProgress.completion_percentage,
+    });
+
+    await this.notifyUnlockedAssignees(progress, updatedProgress, template);
+
+    const isComplete = await this.onboardingModel.isOnboardingComplete(progress.id);
+
+    // If onboarding is complete, generate certificate and send completion notification
+    if (isComplete && updatedProgress.status === 'completed') {
+      await this.generateCompletionCertificate(updatedProgress, template);
+
+      await this.sendOnboardingNotification({
+        user_id: updatedProgress.user_id,
+        organization_id: updatedProgress.organization_id,
+        template_id: updatedProgress.template_id,
+        progress_id: updatedProgress.id,
+        role_name: template.role_name,
+        notification_type: 'completed',
+        completion_percentage: updatedProgress.completion_percentage,
+      });
+
+      logger.info(`Onboarding completed for user ${updatedProgress.user_id} in organization ${updatedProgress.organization_id}`);
+    }
+
+    return { progress: updatedProgress, isComplete };
+  }
+
+  private async notifyUnlockedAssignees(
+    oldProgress: HROnboardingProgress,
+    newProgress: HROnboardingProgress,
+    template: HROnboardingTemplate
+  ): Promise<void> {
+    const wasBlocked = new Set(
+      HROnboardingService.getTaskStatuses(template, oldProgress)
+        .filter(status => status.state === 'blocked')
+        .map(status => status.task_id)
+    );
+    const unlocked = HROnboardingService.getTaskStatuses(template, newProgress)
+      .filter(status => status.state === 'available' && wasBlocked.has(status.task_id));
+
+    for (const status of unlocked) {
+      const task = template.tasks.find(t => t.id === status.task_id);
+      if (task?.assignee_type !== 'user' || !task.assignee_id) {
+        continue;
+      }
+
+      await this.sendOnboardingNotification({
+        user_id: newProgress.user_id,
+        organization_id: newProgress.organization_id,
+        template_id: newProgress.template_id,
+        progress_id: newProgress.id,
+        role_name: template.role_name,
+        notification_type: 'task_assigned',
+        recipient_id: task.assignee_id,
+        task_title: task.title,
+      });
+    }
+  }
+
+  private async findTriggeredTask(
+    progress: HROnboardingProgress,
+    template: HROnboardingTemplate
+  ): Promise<OnboardingTask | undefined> {
+    const available = HROnboardingService.getTaskStatuses(template, progress)
+      .filter(status => status.state === 'available')
+      .map(status => status.task_id);
+
+    for (const task of template.tasks) {
+      if (
+        task.completion_trigger &&
+        available.includes(task.id) &&
+        (await this.isTriggerSatisfied(progress.organization_id, progress.user_id, task.completion_trigger))
+      ) {
+        return task;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async isTriggerSatisfied(
+    organizationId: string,
+    userId: string,
+    trigger: OnboardingTaskTrigger
+  ): Promise<boolean> {
+    switch (trigger.type) {
+      case 'document_acknowledged':
+        return !!(await this.documentModel.findAcknowledgment(trigger.document_id, userId));
+      case 'training_attended':
+        return this.onboardingModel.hasAttendedTrainingEvent(organizationId, userId, trigger.training_type);
+      case 'skill_verified':
+        return this.onboardingModel.hasVerifiedSkill(organizationId, userId, trigger.skill_id);
+      default:
+        return false;
+    }
+  }
+
+  private async validateTrigger(
+    organizationId: string,
+    position: string,
+    trigger: OnboardingTaskTrigger
+  ): Promise<string[]> {
+    switch (trigger.type) {
+      case 'document_acknowledged': {
+        const document = trigger.document_id ? await this.documentModel.findDocumentById(trigger.document_id) : null;
+        return !document || document.organization_id !== organizationId
+          ? [`${position} waits on a document outside this organization`]
+          : [];
+      }
+      case 'training_attended':
+        return trigger.training_type && !ONBOARDING_TRAINING_TYPES.includes(trigger.training_type)
+          ? [`${position} waits on an unknown training type`]
+          : [];
+      case 'skill_verified': {
+        const skill = trigger.skill_id ? await this.skillModel.findSkillById(trigger.skill_id) : null;
+        return !skill || skill.organization_id !== organizationId
+          ? [`${position} waits on a skill outside this organization`]
+          : [];
+      }
+      default:
+        return [`${position} has an unknown completion trigger`];
+    }
+  }
+
+  /**
+   * The first task found on a dependency cycle, if there is one
+   */
+  private findDependencyCycle(tasks: OnboardingTask[]): string | null {
+    const dependencies = new Map(tasks.map(task => [task.id, task.depends_on || []]));
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (taskId: string): string | null => {
+      if (visiting.has(taskId)) return taskId;
+      if (visited.has(taskId) || !dependencies.has(taskId)) return null;
+
+      visiting.add(taskId);
+      for (const dependencyId of dependencies.get(taskId)!) {
+        // Self-dependencies are reported on their own
+        if (dependencyId === taskId) continue;
+        const cycleTaskId = visit(dependencyId);
+        if (cycleTaskId) return cycleTaskId;
+      }
+      visiting.delete(taskId);
+      visited.add(taskId);
+      return null;
+    };
+
+    for (const task of tasks) {
+      const cycleTaskId = visit(task.id);
+      if (cycleTaskId) return cycleTaskId;
+    }
+    return null;
+  }
+
+  private async startTemplateForUser(
+    organizationId: string,
+    userId: string,
+    template: HROnboardingTemplate
+  ): Promise<HROnboardingProgress> {
+    // Check if user already has onboarding progress
+    const existingProgress = await this.onboardingModel.findProgressByUserAndOrganization(organizationId, userId);
+    if (existingProgress) {
+      logger.warn(`User ${userId} already has onboarding progress in organization ${organizationId}`);
+      return existingProgress;
+    }
+
+    // Create progress for the user
+    const progressData: CreateHROnboardingProgressData = {
+      organization_id: organizationId,
+      user_id: userId,
+      template_id: template.id,
+    };
+
+    const progress = await this.onboardingModel.createProgress(progressData);
+
+    // Send notification about onboarding start
+    await this.sendOnboardingNotification({
+      user_id: userId,
+      organization_id: organizationId,
+      template_id: template.id,
+      progress_id: progress.id,
+      role_name: template.role_name,
+      notification_type: 'started',
+    });
+
+    logger.info(`Onboarding assigned to user ${userId} for role ${template.role_name} in organization ${organizationId}`);
+
+    // Documents acknowledged, training attended or skills verified before onboarding count
+    const triggeredTaskIds = await this.evaluateCompletionTriggers(organizationId, userId);
+    if (triggeredTaskIds.length > 0) {
+      return (await this.onboardingModel.findProgressById(progress.id)) || progress;
+    }
+
+    return progress;
+  }
+
   private async handleStatusChangeNotifications(
     oldProgress: HROnboardingProgress,
     newProgress: HROnboardingProgress,
@@ -421,6 +841,10 @@ export class HROnboardingService {
           title = 'Task Completed';
           message = `You've completed the task "${data.task_title}". Progress: ${data.completion_percentage?.toFixed(1)}%`;
           break;
+        case 'task_assigned':
+          title = 'Onboarding Task Ready';
+          message = `The onboarding task "${data.task_title}" for a new ${data.role_name} is ready for you to complete.`;
+          break;
         case 'completed':
           title = 'Onboarding Complete!';
           message = `Congratulations! You've completed your onboarding for the ${data.role_name} role.`;
@@ -447,6 +871,9 @@ export class HROnboardingService {
         case 'overdue':
           entityType = NotificationEntityType.HR_ONBOARDING_OVERDUE;
           break;
+        case 'task_assigned':
+          entityType = NotificationEntityType.HR_ONBOARDING_TASK_ASSIGNED;
+          break;
         default:
           entityType = NotificationEntityType.HR_ONBOARDING_STARTED;
       }
@@ -455,7 +882,7 @@ export class HROnboardingService {
         entityType,
         data.progress_id,
         data.user_id, // actor_id
-        [data.user_id], // notifier_ids
+        [data.recipient_id || data.user_id], // notifier_ids
         title,
         message,
         {
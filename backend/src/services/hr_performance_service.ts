@@ -612,6 +612,7 @@ export class HRPerformanceService {
         'Overdue Performance Reviews',
         `${overdueReviews.length} performance reviews are overdue`,
         {
+          organization_id: organizationId,
           overdue_count: overdueReviews.length,
           overdue_reviews: overdueReviews.map(r => ({
             user_id: r.user_id,
@@ -650,6 +651,7 @@ export class HRPerformanceService {
         'Upcoming Performance Reviews',
         `${upcomingReviews.length} performance reviews are due within 7 days`,
         {
+          organization_id: organizationId,
           upcoming_count: upcomingReviews.length,
           upcoming_reviews: upcomingReviews.map(r => ({
             user_id: r.user_id,
@@ -688,6 +690,7 @@ export class HRPerformanceService {
         'Performance Reviews Due Soon',
         `${earlyWarningReviews.length} performance reviews are due in 30 days`,
         {
+          organization_id: organizationId,
           early_warning_count: earlyWarningReviews.length,
           early_warning_reviews: earlyWarningReviews.map(r => ({
             user_id: r.user_id,
@@ -716,6 +719,7 @@ export class HRPerformanceService {
         'Your performance review has been completed and is ready for your acknowledgment',
         {
           review_id: review.id,
+          organization_id: review.organization_id,
           overall_rating: review.overall_rating,
           review_period_start: review.review_period_start,
           review_period_end: review.review_period_end,
@@ -756,6 +760,7 @@ export class HRPerformanceService {
           'A performance review has been submitted for your organization',
           {
             review_id: review.id,
+            organization_id: review.organization_id,
             reviewee_id: review.reviewee_id,
             reviewer_id: review.reviewer_id,
             overall_rating: review.overall_rating,
@@ -918,16 +923,16 @@ export class HRPerformanceService {
 
       const eventIds = organizationEvents.map(event => event.id);
 
-      // Get user's event registrations during the period
+      // Get user's event registrations during the period (seated ones only)
       const registrations = await db('event_registrations')
         .whereIn('event_id', eventIds)
-        .where('user_id', userId);
+        .where('user_id', userId)
+        .whereNotIn('status', ['waitlisted', 'cancelled']);
 
       const eventsRegistered = registrations.length;
 
-      // For now, we'll consider all registrations as attended
-      // In a full implementation, you'd track actual attendance
-      const eventsAttended = registrations.filter(reg => reg.status === 'confirmed').length;
+      // Attendance is recorded by organizers or through check-in
+      const eventsAttended = registrations.filter(reg => reg.status === 'attended').length;
 
       const attendanceRate = eventsRegistered > 0 ? (eventsAttended / eventsRegistered) * 100 : 0;
 
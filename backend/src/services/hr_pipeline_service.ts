@@ -0,0 +1,399 @@
+import {
+  HRPipelineModel,
+  HRPipelineRule,
+  HRPipelineStage,
+  PipelineRuleAction,
+  PipelineRuleActionType,
+  PipelineRuleConditions,
+  PipelineRuleData,
+  PipelineRuleTrigger,
+  PipelineStageData,
+} from '../models/hr_pipeline_model';
+import {
+  ApplicationStatus,
+  HRApplication,
+} from '../models/hr_application_model';
+import { HROnboardingModel } from '../models/hr_onboarding_model';
+import { RoleModel } from '../models/role_model';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'pending',
+  'under_review',
+  'interview_scheduled',
+  'approved',
+  'rejected',
+];
+
+export const PIPELINE_RULE_TRIGGERS: PipelineRuleTrigger[] = [
+  'application_submitted',
+  'status_changed',
+  'stage_entered',
+  'idle',
+];
+
+export const PIPELINE_RULE_ACTION_TYPES: PipelineRuleActionType[] = [
+  'reject',
+  'move_to_stage',
+  'assign_round_robin',
+  'generate_invite_code',
+  'assign_role',
+  'start_onboarding',
+];
+
+// Actions that bring the applicant into the organization only run for approved applications
+const MEMBERSHIP_ACTIONS: PipelineRuleActionType[] = [
+  'generate_invite_code',
+  'assign_role',
+  'start_onboarding',
+];
+
+const TERMINAL_STATUSES: ApplicationStatus[] = ['approved', 'rejected'];
+
+const MAX_STAGES = 30;
+const MAX_ACTIONS = 10;
+const MAX_RECRUITERS = 50;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_REASON_LENGTH = 500;
+const MAX_IDLE_DAYS = 365;
+
+export interface PipelineDefinition {
+  stages: HRPipelineStage[];
+  rules: HRPipelineRule[];
+}
+
+export interface PipelineStagesResult {
+  stages: PipelineStageData[];
+  errors: string[];
+}
+
+export interface PipelineRuleResult {
+  rule: PipelineRuleData;
+  errors: string[];
+}
+
+/**
+ * An organization's recruitment pipeline: its own stages on top of the application
+ * statuses, and the automation rules the HRApplicationService runs as applications
+ * move through them.
+ */
+export class HRPipelineService {
+  private pipelineModel: HRPipelineModel;
+  private onboardingModel: HROnboardingModel;
+  private roleModel: RoleModel;
+
+  constructor() {
+    this.pipelineModel = new HRPipelineModel();
+    this.onboardingModel = new HROnboardingModel();
+    this.roleModel = new RoleModel();
+  }
+
+  async getPipeline(organizationId: string): Promise<PipelineDefinition> {
+    const [stages, rules] = await Promise.all([
+      this.pipelineModel.listStages(organizationId),
+      this.pipelineModel.listRules(organizationId),
+    ]);
+    return { stages, rules };
+  }
+
+  async findStage(
+    organizationId: string,
+    stageId: string
+  ): Promise<HRPipelineStage | null> {
+    const stage = await this.pipelineModel.findStageById(stageId);
+    return stage && stage.organization_id === organizationId ? stage : null;
+  }
+
+  async findRule(
+    organizationId: string,
+    ruleId: string
+  ): Promise<HRPipelineRule | null> {
+    const rule = await this.pipelineModel.findRuleById(ruleId);
+    return rule && rule.organization_id === organizationId ? rule : null;
+  }
+
+  /**
+   * Check an ordered stage list. An empty list goes back to the plain statuses.
+   */
+  async normalizeStages(
+    organizationId: string,
+    input: PipelineStageData[]
+  ): Promise<PipelineStagesResult> {
+    if (input.length > MAX_STAGES) {
+      return {
+        stages: [],
+        errors: [`A pipeline can have at most ${MAX_STAGES} stages`],
+      };
+    }
+
+    const existingIds = new Set(
+      (await this.pipelineModel.listStages(organizationId)).map(
+        stage => stage.id
+      )
+    );
+    const names = new Set<string>();
+    const errors: string[] = [];
+
+    const stages = input.map((stage, index) => {
+      const position = `Stage ${index + 1}`;
+      const name = (stage.name || '').trim();
+
+      if (stage.id && !existingIds.has(stage.id)) {
+        errors.push(`${position} is not a stage of this pipeline`);
+      }
+      if (!name || name.length > MAX_NAME_LENGTH) {
+        errors.push(
+          `${position} needs a name of at most ${MAX_NAME_LENGTH} characters`
+        );
+      } else if (names.has(name.toLowerCase())) {
+        errors.push(`${position} reuses the name ${name}`);
+      }
+      names.add(name.toLowerCase());
+      if (!APPLICATION_STATUSES.includes(stage.status)) {
+        errors.push(`${position} has an unknown status`);
+      }
+      if (
+        stage.description &&
+        stage.description.length > MAX_DESCRIPTION_LENGTH
+      ) {
+        errors.push(
+          `${position} description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+        );
+      }
+
+      return {
+        ...(stage.id && { id: stage.id }),
+        name,
+        description: stage.description?.trim() || null,
+        status: stage.status,
+      };
+    });
+
+    return { stages, errors };
+  }
+
+  async replaceStages(
+    organizationId: string,
+    stages: PipelineStageData[]
+  ): Promise<HRPipelineStage[]> {
+    return this.pipelineModel.replaceStages(organizationId, stages);
+  }
+
+  /**
+   * Check a rule against the organization: the stages, roles, onboarding templates and
+   * recruiters it names must belong to it, and the author must be allowed to grant its roles
+   */
+  async normalizeRule(
+    organizationId: string,
+    input: Partial<PipelineRuleData>,
+    authorId: string
+  ): Promise<PipelineRuleResult> {
+    const errors: string[] = [];
+    const name = (input.name || '').trim();
+    const trigger = input.trigger as PipelineRuleTrigger;
+    const conditions: PipelineRuleConditions = {};
+    const actions: PipelineRuleAction[] = [];
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      errors.push(
+        `A rule needs a name of at most ${MAX_NAME_LENGTH} characters`
+      );
+    }
+    if (!PIPELINE_RULE_TRIGGERS.includes(trigger)) {
+      errors.push('Unknown rule trigger');
+    }
+
+    // The status the rule is limited to, directly or through its stage
+    let matchedStatus: ApplicationStatus | undefined;
+
+    const { status, stage_id, idle_days } = input.conditions || {};
+    if (status) {
+      if (!APPLICATION_STATUSES.includes(status)) {
+        errors.push('Unknown status condition');
+      }
+      conditions.status = status;
+      matchedStatus = status;
+    }
+    if (stage_id) {
+      const stage = await this.findStage(organizationId, stage_id);
+      if (!stage) {
+        errors.push('The stage condition is not a stage of this pipeline');
+      } else if (status && stage.status !== status) {
+        errors.push('The stage condition is not in the status condition');
+      } else {
+        matchedStatus = stage.status;
+      }
+      conditions.stage_id = stage_id;
+    }
+    if (trigger === 'idle') {
+      if (
+        !Number.isInteger(idle_days) ||
+        idle_days! < 1 ||
+        idle_days! > MAX_IDLE_DAYS
+      ) {
+        errors.push(`Idle rules need idle_days between 1 and ${MAX_IDLE_DAYS}`);
+      }
+      if (matchedStatus && TERMINAL_STATUSES.includes(matchedStatus)) {
+        errors.push('Approved and rejected applications are never idle');
+      }
+      conditions.idle_days = idle_days!;
+    } else if (idle_days !== undefined) {
+      errors.push('Only idle rules can have idle_days');
+    }
+
+    const inputActions = input.actions || [];
+    if (inputActions.length === 0 || inputActions.length > MAX_ACTIONS) {
+      errors.push(`A rule needs between 1 and ${MAX_ACTIONS} actions`);
+    }
+
+    for (const [index, action] of inputActions.entries()) {
+      const position = `Action ${index + 1}`;
+
+      if (!PIPELINE_RULE_ACTION_TYPES.includes(action.type)) {
+        errors.push(`${position} has an unknown type`);
+        continue;
+      }
+      if (
+        MEMBERSHIP_ACTIONS.includes(action.type) &&
+        matchedStatus !== 'approved'
+      ) {
+        errors.push(
+          `${position} can only run in rules limited to approved applications`
+        );
+      }
+
+      switch (action.type) {
+        case 'reject': {
+          const reason = (action.reason || '').trim();
+          if (!reason || reason.length > MAX_REASON_LENGTH) {
+            errors.push(
+              `${position} needs a rejection reason of at most ${MAX_REASON_LENGTH} characters`
+            );
+          }
+          actions.push({ type: 'reject', reason });
+          break;
+        }
+        case 'move_to_stage':
+          if (!(await this.findStage(organizationId, action.stage_id))) {
+            errors.push(`${position} moves to a stage outside this pipeline`);
+          }
+          actions.push({ type: 'move_to_stage', stage_id: action.stage_id });
+          break;
+        case 'assign_round_robin': {
+          const recruiterIds = Array.from(new Set(action.recruiter_ids || []));
+          if (
+            recruiterIds.length === 0 ||
+            recruiterIds.length > MAX_RECRUITERS
+          ) {
+            errors.push(
+              `${position} needs between 1 and ${MAX_RECRUITERS} recruiters`
+            );
+          }
+          for (const recruiterId of recruiterIds) {
+            const canReview = await this.roleModel.userHasPermission(
+              organizationId,
+              recruiterId,
+              ORGANIZATION_PERMISSIONS.MANAGE_MEMBERS
+            );
+            if (!canReview) {
+              errors.push(
+                `${position} assigns to a member who cannot manage applications`
+              );
+              break;
+            }
+          }
+          actions.push({
+            type: 'assign_round_robin',
+            recruiter_ids: recruiterIds,
+          });
+          break;
+        }
+        case 'generate_invite_code':
+          actions.push({ type: 'generate_invite_code' });
+          break;
+        case 'assign_role': {
+          const role = await this.roleModel.findById(action.role_id);
+          if (!role || role.organization_id !== organizationId) {
+            errors.push(`${position} assigns a role outside this organization`);
+          } else if (
+            !(await this.roleModel.canAssignRole(
+              organizationId,
+              authorId,
+              action.role_id
+            ))
+          ) {
+            errors.push(
+              `${position} assigns a role ranked at or above your own`
+            );
+          }
+          actions.push({ type: 'assign_role', role_id: action.role_id });
+          break;
+        }
+        case 'start_onboarding': {
+          const template = await this.onboardingModel.findTemplateById(
+            action.template_id
+          );
+          if (
+            !template ||
+            template.organization_id !== organizationId ||
+            !template.is_active
+          ) {
+            errors.push(
+              `${position} starts an onboarding template outside this organization`
+            );
+          }
+          actions.push({
+            type: 'start_onboarding',
+            template_id: action.template_id,
+          });
+          break;
+        }
+      }
+    }
+
+    return {
+      rule: {
+        name,
+        trigger,
+        conditions,
+        actions,
+        is_active: input.is_active ?? true,
+      },
+      errors,
+    };
+  }
+
+  async createRule(
+    organizationId: string,
+    ruleData: PipelineRuleData,
+    createdBy: string
+  ): Promise<HRPipelineRule> {
+    return this.pipelineModel.createRule(organizationId, ruleData, createdBy);
+  }
+
+  async updateRule(
+    ruleId: string,
+    ruleData: PipelineRuleData
+  ): Promise<HRPipelineRule | null> {
+    return this.pipelineModel.updateRule(ruleId, ruleData);
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    return this.pipelineModel.deleteRule(ruleId);
+  }
+
+  /**
+   * Whether the application is in the status and stage the rule is limited to
+   */
+  matchesConditions(rule: HRPipelineRule, application: HRApplication): boolean {
+    const { status, stage_id } = rule.conditions;
+    if (status && application.status !== status) {
+      return false;
+    }
+    if (stage_id && application.stage_id !== stage_id) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -108,6 +108,7 @@ export class HRSkillService {
             title: 'Skill Verified',
             message: `Your ${skill.name} skill has been verified`,
             custom_data: {
+              organization_id: userSkill.organization_id,
               skill_name: skill.name,
               proficiency_level: userSkill.proficiency_level,
               verified_by: verifierId,
@@ -137,6 +138,7 @@ export class HRSkillService {
           title: 'Skill Verified',
           message: `Your ${skill.name} skill has been verified by a supervisor`,
           custom_data: {
+            organization_id: userSkill.organization_id,
             skill_name: skill.name,
             proficiency_level: userSkill.proficiency_level,
             verified_by: verifierId,
@@ -227,6 +229,7 @@ export class HRSkillService {
             title: notificationTitle,
             message: notificationMessage,
             custom_data: {
+              organization_id: cert.organization_id,
               certification_name: cert.name,
               expiration_date: cert.expiration_date,
               days_until_expiration: daysUntilExpiration,
@@ -620,9 +623,9 @@ export class HRSkillService {
         return { verified_skills: [], pending_verifications: [] };
       }
 
-      // Check if user attended the event
+      // Check if user attended the event (checked in, or confirmed where attendance wasn't taken)
       const registration = await eventModel.getUserRegistration(eventId, userId);
-      if (!registration || registration.status !== 'confirmed') {
+      if (!registration || !['attended', 'confirmed'].includes(registration.status)) {
         return { verified_skills: [], pending_verifications: [] };
       }
 
@@ -752,9 +755,9 @@ export class HRSkillService {
       const skillCategories = JSON.parse(trainingEventSkills.skill_categories || '[]');
       const requiredSkills = JSON.parse(trainingEventSkills.required_skills || '[]');
 
-      // Get all confirmed attendees
+      // Get all attendees; no-shows don't earn verifications
       const attendees = await eventModel.getEventRegistrations(eventId);
-      const confirmedAttendees = attendees.filter(reg => reg.status === 'confirmed');
+      const confirmedAttendees = attendees.filter(reg => ['attended', 'confirmed'].includes(reg.status));
 
       let totalProcessed = 0;
       let verifiedCount = 0;
@@ -0,0 +1,210 @@
+import {
+  NotificationDigestModel,
+  PendingDigestNotification,
+} from '../models/notification_digest_model';
+import { NotificationPreferenceModel } from '../models/notification_preference_model';
+import { NotificationPreferenceService } from './notification_preference_service';
+import { NotificationService } from './notification_service';
+import {
+  NOTIFICATION_TYPES,
+  NotificationDigestFrequency,
+  NotificationDigestGroup,
+  NotificationEntityType,
+  NotificationSettings,
+} from '../types/notification';
+import logger from '../config/logger';
+
+type DigestFrequency = Exclude<NotificationDigestFrequency, 'off'>;
+
+// Local hour at which digests become due; weekly digests go out on Mondays
+const DIGEST_HOUR = 8;
+
+/**
+ * Batches a user's unread notifications into a daily or weekly summary.
+ *
+ * Each run claims the user's current period before building the digest, so running
+ * the job more than once per period never produces a second digest. Notifications
+ * that make it into a digest are marked as digested and left out of later ones.
+ * Which types are included follows the user's email_digest channel preferences.
+ */
+export class NotificationDigestService {
+  private digestModel: NotificationDigestModel;
+  private preferenceModel: NotificationPreferenceModel;
+  private preferenceService: NotificationPreferenceService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.digestModel = new NotificationDigestModel();
+    this.preferenceModel = new NotificationPreferenceModel();
+    this.preferenceService = new NotificationPreferenceService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Send every digest whose period has started. Returns how many digests were sent.
+   */
+  async generateDueDigests(now: Date = new Date()): Promise<number> {
+    const subscribers = await this.preferenceModel.listDigestSubscribers();
+    let sent = 0;
+
+    for (const settings of subscribers) {
+      try {
+        const frequency = settings.digest_frequency as DigestFrequency;
+        const periodStart = this.getDuePeriodStart(settings, frequency, now);
+        if (!periodStart) continue;
+
+        if (await this.generateDigest(settings.user_id, frequency, periodStart, now)) {
+          sent += 1;
+        }
+      } catch (error) {
+        logger.error(`Error generating notification digest for user ${settings.user_id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Build and deliver one user's digest for a period. Returns false when the period was
+   * already handled or there was nothing to summarize.
+   */
+  async generateDigest(
+    userId: string,
+    frequency: DigestFrequency,
+    periodStart: string,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const digest = await this.digestModel.claimPeriod(userId, frequency, periodStart);
+    if (!digest) return false;
+
+    try {
+      const pending = await this.digestModel.findPendingNotifications(userId, now);
+      const included = await this.filterByPreferences(userId, pending);
+
+      await this.digestModel.markDigested(
+        digest.id,
+        included.map(notification => notification.id)
+      );
+      if (included.length === 0) return false;
+
+      const groups = this.groupNotifications(included);
+      await this.notificationService.createNotification({
+        user_id: userId,
+        entity_type: NotificationEntityType.SYSTEM_DIGEST,
+        entity_id: digest.id,
+        actor_id: userId,
+        title: `Your ${frequency} digest`,
+        message: this.formatMessage(included.length, groups),
+        custom_data: { frequency, period_start: periodStart, groups },
+      });
+
+      return true;
+    } catch (error) {
+      await this.digestModel.releasePeriod(digest.id);
+      throw error;
+    }
+  }
+
+  /**
+   * The period a digest is due for right now, or null before the digest hour.
+   * Daily periods start on the local date; weekly periods on the local Monday.
+   */
+  getDuePeriodStart(
+    settings: NotificationSettings,
+    frequency: DigestFrequency,
+    now: Date = new Date()
+  ): string | null {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: settings.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find(entry => entry.type === type)?.value || '';
+
+    const hour = Number(part('hour'));
+    // Days since Monday
+    const weekdayOffset = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(
+      part('weekday')
+    );
+    const dayOffset = frequency === 'weekly' ? weekdayOffset : 0;
+
+    if (dayOffset === 0 && hour < DIGEST_HOUR) return null;
+
+    const start = new Date(
+      Date.UTC(Number(part('year')), Number(part('month')) - 1, Number(part('day')) - dayOffset)
+    );
+    return start.toISOString().slice(0, 10);
+  }
+
+  private async filterByPreferences(
+    userId: string,
+    notifications: PendingDigestNotification[]
+  ): Promise<PendingDigestNotification[]> {
+    const decisions = new Map<string, boolean>();
+
+    for (const notification of notifications) {
+      const key = `${notification.entity_type}:${notification.organization_id || ''}`;
+      if (decisions.has(key)) continue;
+
+      const recipients = await this.preferenceService.filterRecipients(
+        [userId],
+        notification.entity_type,
+        'email_digest',
+        notification.organization_id || undefined
+      );
+      decisions.set(key, recipients.length > 0);
+    }
+
+    return notifications.filter(
+      notification =>
+        decisions.get(`${notification.entity_type}:${notification.organization_id || ''}`)
+    );
+  }
+
+  private groupNotifications(
+    notifications: PendingDigestNotification[]
+  ): NotificationDigestGroup[] {
+    const groups = new Map<string, NotificationDigestGroup>();
+
+    notifications.forEach(notification => {
+      const key = `${notification.organization_id || ''}:${notification.entity_type}`;
+      const group = groups.get(key);
+      if (group) {
+        group.count += 1;
+        return;
+      }
+
+      groups.set(key, {
+        rsi_org_id: notification.rsi_org_id,
+        organization_name: notification.organization_name,
+        entity_type: notification.entity_type,
+        label:
+          NOTIFICATION_TYPES.find(type => type.entity_type === notification.entity_type)
+            ?.label || 'Other notifications',
+        count: 1,
+      });
+    });
+
+    return [...groups.values()];
+  }
+
+  private formatMessage(total: number, groups: NotificationDigestGroup[]): string {
+    const byOrganization = new Map<string, NotificationDigestGroup[]>();
+    groups.forEach(group => {
+      const name = group.organization_name || 'General';
+      byOrganization.set(name, [...(byOrganization.get(name) || []), group]);
+    });
+
+    const sections = [...byOrganization.entries()].map(
+      ([name, entries]) =>
+        `${name}: ${entries.map(entry => `${entry.label} (${entry.count})`).join(', ')}`
+    );
+
+    return `${total} unread notification${total === 1 ? '' : 's'}. ${sections.join('. ')}.`;
+  }
+}
@@ -0,0 +1,144 @@
+import { NotificationPreferenceModel } from '../models/notification_preference_model';
+import {
+  DEFAULT_CHANNEL_PREFERENCES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  NotificationChannel,
+  NotificationEntityType,
+  NotificationPreferenceChange,
+  NotificationPreferencesResponse,
+  NotificationSettings,
+  UpdateNotificationPreferencesData,
+} from '../types/notification';
+
+// Channels that interrupt the user; quiet hours drop these sends rather than
+// deferring them. In-app notifications and digests are read on the user's own
+// schedule, so the notification itself is not lost.
+const QUIET_HOURS_CHANNELS: NotificationChannel[] = ['discord_dm'];
+
+/**
+ * Resolves whether a notification should reach a user on a channel.
+ *
+ * Precedence, first match wins:
+ * 1. Channels locked for the type (e.g. in-app security alerts)
+ * 2. Quiet hours in the user's timezone, for interrupting channels (dropped, not queued)
+ * 3. The user's override for the notification's organization
+ * 4. The user's global choice for the type
+ * 5. The channel default
+ */
+export class NotificationPreferenceService {
+  private preferenceModel: NotificationPreferenceModel;
+
+  constructor() {
+    this.preferenceModel = new NotificationPreferenceModel();
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferencesResponse> {
+    const [preferences, settings] = await Promise.all([
+      this.preferenceModel.listByUser(userId),
+      this.preferenceModel.getSettings(userId),
+    ]);
+
+    return {
+      channels: NOTIFICATION_CHANNELS,
+      defaults: DEFAULT_CHANNEL_PREFERENCES,
+      types: NOTIFICATION_TYPES,
+      preferences: preferences.map(preference => ({
+        rsi_org_id: preference.rsi_org_id,
+        entity_type: preference.entity_type,
+        channel: preference.channel,
+        enabled: preference.enabled,
+      })),
+      settings,
+    };
+  }
+
+  async updatePreferences(
+    userId: string,
+    changes: NotificationPreferenceChange[],
+    settings?: UpdateNotificationPreferencesData['settings']
+  ): Promise<NotificationPreferencesResponse> {
+    if (changes.length > 0) {
+      await this.preferenceModel.applyChanges(userId, changes);
+    }
+
+    if (settings && Object.keys(settings).length > 0) {
+      await this.preferenceModel.upsertSettings(userId, settings);
+    }
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Narrow a recipient list to the users who want this notification on this channel
+   */
+  async filterRecipients(
+    userIds: string[],
+    entityType: NotificationEntityType,
+    channel: NotificationChannel,
+    organizationId?: string,
+    now: Date = new Date()
+  ): Promise<string[]> {
+    const recipients = [...new Set(userIds)];
+    if (recipients.length === 0 || this.isLocked(entityType, channel)) {
+      return recipients;
+    }
+
+    const [preferences, settings] = await Promise.all([
+      this.preferenceModel.findForRecipients(recipients, entityType, channel, organizationId),
+      QUIET_HOURS_CHANNELS.includes(channel)
+        ? this.preferenceModel.getSettingsForUsers(recipients)
+        : Promise.resolve(new Map<string, NotificationSettings>()),
+    ]);
+
+    return recipients.filter(userId => {
+      const userSettings = settings.get(userId);
+      if (userSettings && this.isWithinQuietHours(userSettings, now)) {
+        return false;
+      }
+
+      const own = preferences.filter(preference => preference.user_id === userId);
+      const decisive =
+        own.find(preference => preference.organization_id !== null) ??
+        own.find(preference => preference.organization_id === null);
+
+      return decisive ? decisive.enabled : DEFAULT_CHANNEL_PREFERENCES[channel];
+    });
+  }
+
+  isLocked(entityType: NotificationEntityType, channel: NotificationChannel): boolean {
+    const info = NOTIFICATION_TYPES.find(type => type.entity_type === entityType);
+    return info?.locked_channels.includes(channel) ?? false;
+  }
+
+  /**
+   * Whether the user's local time falls inside their quiet hours.
+   * A window whose start is after its end spans midnight; equal times disable it.
+   */
+  isWithinQuietHours(settings: NotificationSettings, now: Date = new Date()): boolean {
+    if (!settings.quiet_hours_enabled) return false;
+
+    const start = this.toMinutes(settings.quiet_hours_start);
+    const end = this.toMinutes(settings.quiet_hours_end);
+    if (start === end) return false;
+
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: settings.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const hour = Number(parts.find(part => part.type === 'hour')?.value);
+    const minute = Number(parts.find(part => part.type === 'minute')?.value);
+    const current = hour * 60 + minute;
+
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -1,15 +1,27 @@
+import db from '../config/database';
 import { NotificationModel } from '../models/notification_model';
+import { NotificationPreferenceService } from './notification_preference_service';
+import { DiscordService } from './discord_service';
+import { notificationStreamService } from './notification_stream_service';
 import {
+  Notification,
   NotificationEntityType,
   CreateNotificationObjectData,
 } from '../types/notification';
+import { NotificationSerializer } from '../utils/notification_serializer';
 import logger from '../config/logger';
 
+type NotificationDeliveryData = CreateNotificationObjectData & {
+  customData?: { title?: string; message?: string; [key: string]: any };
+};
+
 export class NotificationService {
   private notificationModel: NotificationModel;
+  private preferenceService: NotificationPreferenceService;
 
   constructor() {
     this.notificationModel = new NotificationModel();
+    this.preferenceService = new NotificationPreferenceService();
   }
 
   // Create notification for organization events
@@ -27,7 +39,7 @@ export class NotificationService {
         notifier_ids: notifierIds,
       };
 
-      await this.notificationModel.createCompleteNotification(data);
+      await this.deliver(data);
       logger.info(
         `Created organization notification: ${entityType} for org ${organizationId}`
       );
@@ -52,7 +64,7 @@ export class NotificationService {
         notifier_ids: notifierIds,
       };
 
-      await this.notificationModel.createCompleteNotification(data);
+      await this.deliver(data);
       logger.info(
         `Created event notification: ${entityType} for event ${eventId}`
       );
@@ -97,7 +109,7 @@ export class NotificationService {
       };
 
       logger.debug(
-        'NotificationService: Calling createCompleteNotification with custom data',
+        'NotificationService: Delivering notification with custom data',
         {
           entityType,
           eventId,
@@ -105,7 +117,7 @@ export class NotificationService {
         }
       );
 
-      await this.notificationModel.createCompleteNotification(data);
+      await this.deliver(data);
 
       logger.info(
         `Created custom event notification: ${entityType} for event ${eventId} with title "${title}"`
@@ -131,7 +143,7 @@ export class NotificationService {
         notifier_ids: notifierIds,
       };
 
-      await this.notificationModel.createCompleteNotification(data);
+      await this.deliver(data);
       logger.info(
         `Created comment notification: ${entityType} for comment ${commentId}`
       );
@@ -156,7 +168,7 @@ export class NotificationService {
         notifier_ids: notifierIds,
       };
 
-      await this.notificationModel.createCompleteNotification(data);
+      await this.deliver(data);
       logger.info(
         `Created user notification: ${entityType} for user ${userId}`
       );
@@ -180,7 +192,7 @@ export class NotificationService {
         notifier_ids: notifierIds,
       };
 
-      await this.notificationModel.createCompleteNotification(data);
+      await this.deliver(data);
       logger.info(
         `Created system notification: ${entityType} for entity ${entityId}`
       );
@@ -201,14 +213,19 @@ export class NotificationService {
     actor_id?: string;
   }): Promise<void> {
     try {
-      const notificationData: CreateNotificationObjectData = {
+      const notificationData: NotificationDeliveryData = {
         entity_type: data.entity_type,
         entity_id: data.entity_id,
         actor_id: data.actor_id || 'system',
         notifier_ids: [data.user_id],
+        customData: {
+          title: data.title,
+          message: data.message,
+          ...data.custom_data,
+        },
       };
 
-      await this.notificationModel.createCompleteNotification(notificationData);
+      await this.deliver(notificationData);
       logger.info(
         `Created notification: ${data.entity_type} for user ${data.user_id}`
       );
@@ -218,6 +235,176 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Fan a notification out to each channel, keeping only the recipients whose
+   * preferences allow it there
+   */
+  private async deliver(data: NotificationDeliveryData): Promise<void> {
+    const organizationId = await this.resolveOrganizationId(data);
+
+    const inAppRecipients = await this.preferenceService.filterRecipients(
+      data.notifier_ids,
+      data.entity_type,
+      'in_app',
+      organizationId
+    );
+
+    if (inAppRecipients.length > 0) {
+      const { notifications } =
+        await this.notificationModel.createCompleteNotification({
+          ...data,
+          notifier_ids: inAppRecipients,
+          organization_id: organizationId,
+        });
+      await this.publishToStreams(data, notifications);
+    } else {
+      logger.debug('NotificationService: All recipients muted in-app delivery', {
+        entityType: data.entity_type,
+        entityId: data.entity_id,
+      });
+    }
+
+    await this.sendDiscordDirectMessages(data, organizationId);
+  }
+
+  // Push new notifications to recipients with an open stream, or one that can still be resumed
+  private async publishToStreams(
+    data: NotificationDeliveryData,
+    notifications: Notification[]
+  ): Promise<void> {
+    const streamed = notifications.filter(notification =>
+      notificationStreamService.isTracked(notification.notifier_id)
+    );
+    if (streamed.length === 0) return;
+
+    try {
+      const content = await NotificationSerializer.generateNotificationContent(
+        data.entity_type,
+        data.entity_id,
+        data.actor_id,
+        data.customData
+      );
+
+      streamed.forEach(notification => {
+        notificationStreamService.publish(notification.notifier_id, 'notification', {
+          id: notification.id,
+          notification_object_id: notification.notification_object_id,
+          entity_type: data.entity_type,
+          entity_id: data.entity_id,
+          title: content.title,
+          message: content.message,
+          created_at: notification.created_at,
+        });
+      });
+      await notificationStreamService.publishUnreadCounts(
+        streamed.map(notification => notification.notifier_id)
+      );
+    } catch (error) {
+      logger.error('Error publishing notifications to streams:', error);
+    }
+  }
+
+  private async sendDiscordDirectMessages(
+    data: NotificationDeliveryData,
+    organizationId?: string
+  ): Promise<void> {
+    try {
+      const recipients = await this.preferenceService.filterRecipients(
+        data.notifier_ids,
+        data.entity_type,
+        'discord_dm',
+        organizationId
+      );
+      if (recipients.length === 0) return;
+
+      const users = await db('users')
+        .whereIn('id', recipients)
+        .whereNotNull('discord_id')
+        .select('id', 'discord_id');
+      if (users.length === 0) return;
+
+      const content = await NotificationSerializer.generateNotificationContent(
+        data.entity_type,
+        data.entity_id,
+        data.actor_id,
+        data.customData
+      );
+      const actionUrl = NotificationService.getActionUrl(data.entity_type, {
+        id: data.entity_id,
+        organization_id: organizationId,
+        ...data.customData,
+      });
+      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+      const text = [
+        `**${content.title}**`,
+        content.message,
+        actionUrl ? `${frontendUrl}${actionUrl}` : null,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      const discordService = new DiscordService();
+      for (const user of users) {
+        try {
+          await discordService.sendDirectMessage(user.discord_id, text);
+        } catch (error) {
+          // Users can block DMs from the bot; skip them without failing the rest
+          logger.warn(`Failed to send notification DM to user ${user.id}:`, error);
+        }
+      }
+    } catch (error) {
+      logger.error('Error sending notification DMs:', error);
+      // Don't fail the notification if Discord delivery fails
+    }
+  }
+
+  /**
+   * The organization a notification belongs to, used to apply per-organization preferences.
+   * Notifications about other entities (HR applications, interviews, mentorships, ...)
+   * pass it as organization_id in their custom data.
+   */
+  private async resolveOrganizationId(
+    data: NotificationDeliveryData
+  ): Promise<string | undefined> {
+    if (data.customData?.organization_id) {
+      return data.customData.organization_id;
+    }
+
+    const type = data.entity_type;
+    try {
+      if (
+        type >= NotificationEntityType.ORGANIZATION_CREATED &&
+        type <= NotificationEntityType.ORGANIZATION_ROLE_CHANGED
+      ) {
+        return data.entity_id;
+      }
+
+      if (
+        type >= NotificationEntityType.EVENT_CREATED &&
+        type <= NotificationEntityType.EVENT_WAITLIST_PROMOTED
+      ) {
+        const event = await db('events')
+          .where({ id: data.entity_id })
+          .first('organization_id');
+        return event?.organization_id || undefined;
+      }
+
+      if (
+        type >= NotificationEntityType.COMMENT_CREATED &&
+        type <= NotificationEntityType.COMMENT_VOTED
+      ) {
+        const comment = await db('comments')
+          .where({ id: data.entity_id })
+          .first('organization_id');
+        return comment?.organization_id || undefined;
+      }
+    } catch (error) {
+      logger.warn('Could not resolve notification organization:', error);
+    }
+
+    return undefined;
+  }
+
   // Helper method to get notification message based on entity type and data
   static getNotificationMessage(
     entityType: NotificationEntityType,
@@ -291,6 +478,12 @@ export class NotificationService {
           message: `Reminder: The event "${entityData.title || 'Unknown'}" is tomorrow!`,
         };
 
+      case NotificationEntityType.EVENT_WAITLIST_PROMOTED:
+        return {
+          title: "You're Off the Waitlist",
+          message: `A seat opened up for the event: ${entityData.title || 'Unknown'}`,
+        };
+
       case NotificationEntityType.COMMENT_CREATED:
         return {
           title: 'New Comment',
@@ -365,6 +558,7 @@ export class NotificationService {
       case NotificationEntityType.EVENT_REGISTERED:
       case NotificationEntityType.EVENT_STARTING_SOON:
       case NotificationEntityType.EVENT_REMINDER:
+      case NotificationEntityType.EVENT_WAITLIST_PROMOTED:
         return `/events/${entityData.event_id || entityData.id}`;
 
       case NotificationEntityType.COMMENT_CREATED:
@@ -377,11 +571,31 @@ export class NotificationService {
 
       case NotificationEntityType.SYSTEM_ANNOUNCEMENT:
       case NotificationEntityType.SYSTEM_MAINTENANCE:
+      case NotificationEntityType.SYSTEM_DIGEST:
         return `/notifications`;
 
       case NotificationEntityType.SECURITY_LOGIN:
         return `/profile/security`;
 
+      case NotificationEntityType.REPUTATION_PLAYER_HANDLE_CHANGED:
+      case NotificationEntityType.REPUTATION_PLAYER_ORG_CHANGED:
+      case NotificationEntityType.REPUTATION_WATCHED_PLAYER_REPORTED:
+      case NotificationEntityType.REPUTATION_WATCHED_PLAYER_TAGGED:
+      case NotificationEntityType.REPUTATION_WATCHED_PLAYER_COMMENTED:
+      case NotificationEntityType.REPUTATION_WATCHED_PLAYER_CORROBORATED:
+      case NotificationEntityType.REPUTATION_WATCHED_ORG_REPORTED:
+      case NotificationEntityType.REPUTATION_WATCHED_ORG_MEMBERSHIP_CHANGED:
+        return `/reputation/players/${entityData.spectrum_id}`;
+
+      case NotificationEntityType.HR_INTERVIEW_SCHEDULED:
+      case NotificationEntityType.HR_INTERVIEW_REMINDER:
+      case NotificationEntityType.HR_INTERVIEW_CANCELLED:
+        return `/organizations/${entityData.rsi_org_id}/hr/applications`;
+
+      case NotificationEntityType.HR_MENTOR_ASSIGNED:
+      case NotificationEntityType.HR_MENTORSHIP_CHECK_IN_REMINDER:
+        return `/organizations/${entityData.rsi_org_id}/hr/dashboard`;
+
       default:
         return undefined;
     }
@@ -0,0 +1,222 @@
+import { Response } from 'express';
+import { NotificationModel } from '../models/notification_model';
+import logger from '../config/logger';
+
+export type NotificationStreamEventType =
+  | 'notification'
+  | 'read_state'
+  | 'deleted'
+  | 'unread_count'
+  | 'resync';
+
+interface NotificationStreamEvent {
+  id: string;
+  sequence: number;
+  type: NotificationStreamEventType;
+  data: Record<string, any>;
+  created_at: number;
+}
+
+interface ReplayBuffer {
+  events: NotificationStreamEvent[];
+  // Highest sequence number that has been dropped from the buffer
+  droppedThrough: number;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+const REPLAY_BUFFER_SIZE = 100;
+const REPLAY_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Pushes notification activity to users' open Server-Sent Event streams.
+ *
+ * Event IDs are `<boot id>-<sequence>`. A reconnecting client sends the last ID it
+ * saw as Last-Event-ID and gets every buffered event after it. When that is not
+ * possible (the server restarted or the events fell out of the replay buffer) it
+ * gets a `resync` event instead and should refetch.
+ *
+ * Streams and replay buffers live in this process's memory.
+ */
+export class NotificationStreamService {
+  private clients = new Map<string, Set<Response>>();
+  private buffers = new Map<string, ReplayBuffer>();
+  // When each user's last stream closed, so buffering stops once they are gone for good
+  private disconnectedAt = new Map<string, number>();
+  private bootId = Date.now().toString(36);
+  private sequence = 0;
+  private notificationModel: NotificationModel;
+
+  constructor() {
+    this.notificationModel = new NotificationModel();
+  }
+
+  /**
+   * Open a stream on the response. Returns a function that closes it.
+   */
+  subscribe(userId: string, res: Response, lastEventId?: string): () => void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop reverse proxies from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    // Events for users who were gone longer than the replay window were never buffered
+    const hasReplayHistory = this.isTracked(userId);
+    const userClients = this.clients.get(userId) || new Set<Response>();
+    userClients.add(res);
+    this.clients.set(userId, userClients);
+    this.disconnectedAt.delete(userId);
+
+    if (lastEventId) {
+      this.replay(userId, res, lastEventId, hasReplayHistory);
+    }
+
+    // Comments keep proxies from timing out idle connections and let clients detect stalls
+    const heartbeat = setInterval(() => {
+      this.writeRaw(res, `: heartbeat ${Date.now()}\n\n`);
+    }, HEARTBEAT_INTERVAL_MS);
+
+    let closed = false;
+    return () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+
+      const remaining = this.clients.get(userId);
+      remaining?.delete(res);
+      if (!remaining || remaining.size === 0) {
+        this.clients.delete(userId);
+        this.disconnectedAt.set(userId, Date.now());
+      }
+    };
+  }
+
+  isConnected(userId: string): boolean {
+    return (this.clients.get(userId)?.size || 0) > 0;
+  }
+
+  /**
+   * Users are tracked while connected and for the replay window after their last
+   * stream closes, so events published while they reconnect are replayed
+   */
+  isTracked(userId: string): boolean {
+    if (this.isConnected(userId)) return true;
+
+    const disconnectedAt = this.disconnectedAt.get(userId);
+    if (disconnectedAt && Date.now() - disconnectedAt < REPLAY_WINDOW_MS) return true;
+
+    this.disconnectedAt.delete(userId);
+    this.buffers.delete(userId);
+    return false;
+  }
+
+  /**
+   * Send an event to every open stream of a user and keep it for replay
+   */
+  publish(
+    userId: string,
+    type: NotificationStreamEventType,
+    data: Record<string, any>
+  ): void {
+    if (!this.isTracked(userId)) return;
+
+    this.sequence += 1;
+    const event: NotificationStreamEvent = {
+      id: `${this.bootId}-${this.sequence}`,
+      sequence: this.sequence,
+      type,
+      data,
+      created_at: Date.now(),
+    };
+
+    const buffer = this.buffers.get(userId) || { events: [], droppedThrough: 0 };
+    buffer.events.push(event);
+    this.trim(buffer);
+    this.buffers.set(userId, buffer);
+
+    this.clients.get(userId)?.forEach(res => this.write(res, event));
+  }
+
+  /**
+   * Push fresh unread counts to whichever of these users are tracked
+   */
+  async publishUnreadCounts(userIds: string[]): Promise<void> {
+    const tracked = [...new Set(userIds)].filter(userId => this.isTracked(userId));
+    if (tracked.length === 0) return;
+
+    try {
+      const counts = await this.notificationModel.countUnreadForUsers(tracked);
+      tracked.forEach(userId => {
+        this.publish(userId, 'unread_count', { unread_count: counts.get(userId) || 0 });
+      });
+    } catch (error) {
+      logger.error('Error publishing unread notification counts:', error);
+    }
+  }
+
+  private replay(
+    userId: string,
+    res: Response,
+    lastEventId: string,
+    hasReplayHistory: boolean
+  ): void {
+    const [bootId, sequenceValue] = lastEventId.split('-');
+    const lastSequence = Number(sequenceValue);
+
+    if (!hasReplayHistory || bootId !== this.bootId || !Number.isInteger(lastSequence)) {
+      this.writeResync(res);
+      return;
+    }
+
+    const buffer = this.buffers.get(userId);
+    if (!buffer) return;
+
+    this.trim(buffer);
+    if (lastSequence < buffer.droppedThrough) {
+      this.writeResync(res);
+      return;
+    }
+
+    buffer.events
+      .filter(event => event.sequence > lastSequence)
+      .forEach(event => this.write(res, event));
+  }
+
+  private trim(buffer: ReplayBuffer): void {
+    const cutoff = Date.now() - REPLAY_WINDOW_MS;
+    while (
+      buffer.events.length > 0 &&
+      (buffer.events.length > REPLAY_BUFFER_SIZE || buffer.events[0].created_at < cutoff)
+    ) {
+      buffer.droppedThrough = buffer.events.shift()!.sequence;
+    }
+  }
+
+  private writeResync(res: Response): void {
+    this.writeRaw(
+      res,
+      `id: ${this.bootId}-${this.sequence}\nevent: resync\ndata: {}\n\n`
+    );
+  }
+
+  private write(res: Response, event: NotificationStreamEvent): void {
+    this.writeRaw(
+      res,
+      `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+    );
+  }
+
+  private writeRaw(res: Response, chunk: string): void {
+    try {
+      res.write(chunk);
+    } catch (error) {
+      logger.debug('Failed to write to notification stream:', error);
+    }
+  }
+}
+
+export const notificationStreamService = new NotificationStreamService();
@@ -0,0 +1,391 @@
+import { ScPlayerModel } from '../models/sc_player_model';
+import {
+  SpectrumAPIClient,
+  SpectrumAPIError,
+  SpectrumMemberResponse,
+} from '../clients/spectrum';
+import rsiClient, { RSICitizenOrganization } from '../clients/rsi_client';
+import { rateLimitService } from './rate_limit_service';
+import { NotificationService } from './notification_service';
+import { WatchlistService } from './watchlist_service';
+import { NotificationEntityType } from '../types/notification';
+import {
+  PlayerOrgHistory,
+  PlayerSyncActivity,
+  PlayerSyncChanges,
+  PlayerSyncResult,
+  ScPlayer,
+} from '../types/sc_player';
+import logger from '../config/logger';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Rate limit buckets tracked by RateLimitService
+const SPECTRUM_BUCKET = 'spectrum';
+const RSI_BUCKET = 'rsi_citizens';
+
+// How often players are synced, by how much attention they are getting
+const WATCHED_INTERVAL_MS = 6 * HOUR_MS;
+const ACTIVE_INTERVAL_MS = DAY_MS;
+const DORMANT_INTERVAL_MS = 7 * DAY_MS;
+const INACTIVE_INTERVAL_MS = 30 * DAY_MS;
+
+// Viewed or reported within these windows counts as recent
+const RECENT_ACTIVITY_MS = 7 * DAY_MS;
+const ACTIVE_ACTIVITY_MS = 30 * DAY_MS;
+
+const DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * Keeps tracked players current without anyone pressing sync. Players are re-synced on
+ * a schedule that follows how much attention they get: watched, recently viewed or
+ * recently reported players every few hours, dormant ones weekly. Handle and
+ * organization changes are recorded as history and sent to the player's watchers and
+ * to watchers of the organizations they joined or left.
+ */
+export class PlayerSyncService {
+  private scPlayerModel: ScPlayerModel;
+  private spectrumClient: SpectrumAPIClient;
+  private notificationService: NotificationService;
+  private watchlistService: WatchlistService;
+
+  constructor() {
+    this.scPlayerModel = new ScPlayerModel();
+    this.spectrumClient = new SpectrumAPIClient();
+    this.notificationService = new NotificationService();
+    this.watchlistService = new WatchlistService();
+  }
+
+  /**
+   * Sync players whose next sync is due. Stops early when Spectrum rate limits us and
+   * leaves the rest for the next run.
+   */
+  async syncDuePlayers(now: Date = new Date()): Promise<number> {
+    if (rateLimitService.getBackoff(SPECTRUM_BUCKET)) {
+      logger.info('Skipping player sync while backing off from Spectrum');
+      return 0;
+    }
+
+    const batchSize =
+      parseInt(process.env.PLAYER_SYNC_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE;
+    const players = await this.scPlayerModel.findDueForSync(batchSize, now);
+
+    let synced = 0;
+    for (const player of players) {
+      try {
+        const result = await this.syncPlayer(player, now);
+        if (result.status === 'rate_limited') break;
+        if (result.status === 'synced') synced++;
+      } catch (error) {
+        logger.error('Failed to sync player', {
+          playerId: player.id,
+          spectrumId: player.spectrum_id,
+          error,
+        });
+        await this.recordFailure(player, now);
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Refresh one player from Spectrum and their RSI profile, recording what changed
+   */
+  async syncPlayer(
+    player: ScPlayer,
+    now: Date = new Date()
+  ): Promise<PlayerSyncResult> {
+    let member: SpectrumMemberResponse['data']['member'] | undefined;
+    try {
+      const response = await this.spectrumClient.fetchMemberById(
+        player.spectrum_id
+      );
+      member = response.data?.member;
+      rateLimitService.clearBackoff(SPECTRUM_BUCKET);
+    } catch (error) {
+      if (error instanceof SpectrumAPIError && error.statusCode === 429) {
+        const retryAt = rateLimitService.backOff(
+          SPECTRUM_BUCKET,
+          error.retryAfter
+        );
+        return { status: 'rate_limited', retry_at: retryAt };
+      }
+      // Spectrum answers with an error code when it can't find the member
+      if (!(error instanceof SpectrumAPIError && error.code)) throw error;
+    }
+
+    if (!member) {
+      await this.recordFailure(player, now);
+      return { status: 'not_found' };
+    }
+
+    const changes: PlayerSyncChanges = { joined_orgs: [], left_orgs: [] };
+
+    if (player.current_handle !== member.nickname) {
+      changes.handle = { from: player.current_handle, to: member.nickname };
+      await this.scPlayerModel.createHandleHistory({
+        player_id: player.id,
+        handle: member.nickname,
+        display_name: member.displayname,
+      });
+    } else {
+      await this.scPlayerModel.updateHandleHistoryLastObserved(
+        player.id,
+        player.current_handle
+      );
+    }
+
+    const organizations = await this.fetchOrganizations(member.nickname);
+    if (organizations) {
+      await this.syncOrganizations(player.id, organizations, changes, now);
+    }
+
+    const activity = await this.scPlayerModel.getSyncActivity(player.id);
+    const updated = await this.scPlayerModel.update(player.id, {
+      current_handle: member.nickname,
+      current_display_name: member.displayname,
+      last_spectrum_sync_at: now,
+      next_sync_at: new Date(
+        now.getTime() + this.getSyncInterval(player, activity, now)
+      ),
+      sync_failure_count: 0,
+    });
+
+    await this.notifyWatchers(updated || player, changes);
+
+    return { status: 'synced', player: updated || player, changes };
+  }
+
+  /**
+   * Note that someone looked at the player so they move up the schedule
+   */
+  async recordView(playerId: string): Promise<void> {
+    await this.scPlayerModel.markViewed(playerId);
+    await this.prioritize(playerId);
+  }
+
+  /**
+   * Sync the player within the watched interval, e.g. after a new report about them
+   */
+  async prioritize(playerId: string, now: Date = new Date()): Promise<void> {
+    await this.scPlayerModel.pullSyncForward(
+      playerId,
+      new Date(now.getTime() + WATCHED_INTERVAL_MS)
+    );
+  }
+
+  getSyncInterval(
+    player: ScPlayer,
+    activity: PlayerSyncActivity,
+    now: Date = new Date()
+  ): number {
+    const lastActivity = Math.max(
+      activity.last_viewed_at ? new Date(activity.last_viewed_at).getTime() : 0,
+      activity.last_reported_at
+        ? new Date(activity.last_reported_at).getTime()
+        : 0
+    );
+    const sinceActivity = now.getTime() - lastActivity;
+
+    if (activity.watcher_count > 0 || sinceActivity < RECENT_ACTIVITY_MS) {
+      return WATCHED_INTERVAL_MS;
+    }
+    if (sinceActivity < ACTIVE_ACTIVITY_MS) return ACTIVE_INTERVAL_MS;
+    return player.is_active ? DORMANT_INTERVAL_MS : INACTIVE_INTERVAL_MS;
+  }
+
+  // Null when the profile couldn't be read, so memberships are left as they were
+  private async fetchOrganizations(
+    handle: string
+  ): Promise<RSICitizenOrganization[] | null> {
+    if (rateLimitService.getBackoff(RSI_BUCKET)) return null;
+
+    try {
+      const organizations = await rsiClient.getCitizenOrganizations(handle);
+      rateLimitService.clearBackoff(RSI_BUCKET);
+      return organizations;
+    } catch (error) {
+      const rateLimitInfo = rateLimitService.extractRateLimitInfo(error);
+      if (!rateLimitInfo) throw error;
+      rateLimitService.backOff(RSI_BUCKET, rateLimitInfo.retryAfter);
+      return null;
+    }
+  }
+
+  private async syncOrganizations(
+    playerId: string,
+    organizations: RSICitizenOrganization[],
+    changes: PlayerSyncChanges,
+    now: Date
+  ): Promise<void> {
+    const current = await this.scPlayerModel.getCurrentOrgHistory(playerId);
+    const currentBySid = new Map(
+      current.map(history => [history.org_spectrum_id, history])
+    );
+    const listedSids = new Set(organizations.map(org => org.sid));
+
+    for (const organization of organizations) {
+      const existing = currentBySid.get(organization.sid);
+      if (existing) {
+        await this.scPlayerModel.updateOrgHistory(existing.id, {
+          role: organization.rank,
+          last_observed_at: now,
+        });
+        continue;
+      }
+
+      const joined = await this.scPlayerModel.createOrgHistory({
+        player_id: playerId,
+        org_name: organization.name,
+        org_spectrum_id: organization.sid,
+        role: organization.rank,
+        first_observed_at: now,
+        last_observed_at: now,
+        is_current: true,
+      });
+      changes.joined_orgs.push(joined);
+    }
+
+    for (const history of current) {
+      // Memberships recorded without an SID can't be matched against the profile
+      if (!history.org_spectrum_id || listedSids.has(history.org_spectrum_id)) {
+        continue;
+      }
+      await this.scPlayerModel.updateOrgHistory(history.id, {
+        is_current: false,
+      });
+      changes.left_orgs.push(history);
+    }
+  }
+
+  // Players Spectrum can't find are retried less and less often
+  private async recordFailure(player: ScPlayer, now: Date): Promise<void> {
+    const failures = (player.sync_failure_count || 0) + 1;
+    const delay = Math.min(
+      ACTIVE_INTERVAL_MS * 2 ** (failures - 1),
+      INACTIVE_INTERVAL_MS
+    );
+
+    await this.scPlayerModel.update(player.id, {
+      sync_failure_count: failures,
+      next_sync_at: new Date(now.getTime() + delay),
+    });
+  }
+
+  private async notifyWatchers(
+    player: ScPlayer,
+    changes: PlayerSyncChanges
+  ): Promise<void> {
+    const hasOrgChanges =
+      changes.joined_orgs.length > 0 || changes.left_orgs.length > 0;
+    if (!changes.handle && !hasOrgChanges) return;
+
+    const watcherIds = await this.watchlistService.findPlayerWatcherIds(
+      player.id
+    );
+
+    for (const userId of watcherIds) {
+      if (changes.handle) {
+        await this.notificationService.createNotification({
+          user_id: userId,
+          entity_type: NotificationEntityType.REPUTATION_PLAYER_HANDLE_CHANGED,
+          entity_id: player.id,
+          title: 'Watched Player Changed Handle',
+          message: `${changes.handle.from} is now ${changes.handle.to}`,
+          custom_data: {
+            spectrum_id: player.spectrum_id,
+            previous_handle: changes.handle.from,
+            handle: changes.handle.to,
+          },
+        });
+      }
+
+      if (hasOrgChanges) {
+        await this.notificationService.createNotification({
+          user_id: userId,
+          entity_type: NotificationEntityType.REPUTATION_PLAYER_ORG_CHANGED,
+          entity_id: player.id,
+          title: 'Watched Player Changed Organizations',
+          message: this.describeOrgChanges(player, changes),
+          custom_data: {
+            spectrum_id: player.spectrum_id,
+            joined: changes.joined_orgs.map(org => org.org_spectrum_id),
+            left: changes.left_orgs.map(org => org.org_spectrum_id),
+          },
+        });
+      }
+    }
+
+    if (hasOrgChanges) {
+      await this.notifyOrganizationWatchers(player, changes, watcherIds);
+    }
+  }
+
+  // Watchers of an organization hear about the members it gained or lost, limited to
+  // the organizations they watch. Player watchers were already told about every change.
+  private async notifyOrganizationWatchers(
+    player: ScPlayer,
+    changes: PlayerSyncChanges,
+    alreadyNotified: string[]
+  ): Promise<void> {
+    const changesByUser = new Map<string, PlayerSyncChanges>();
+
+    const collect = async (
+      orgs: PlayerOrgHistory[],
+      key: 'joined_orgs' | 'left_orgs'
+    ) => {
+      for (const org of orgs) {
+        if (!org.org_spectrum_id) continue;
+        const watcherIds =
+          await this.watchlistService.findOrganizationWatcherIds(
+            org.org_spectrum_id
+          );
+        for (const userId of watcherIds) {
+          if (alreadyNotified.includes(userId)) continue;
+          const userChanges = changesByUser.get(userId) || {
+            joined_orgs: [],
+            left_orgs: [],
+          };
+          userChanges[key].push(org);
+          changesByUser.set(userId, userChanges);
+        }
+      }
+    };
+    await collect(changes.joined_orgs, 'joined_orgs');
+    await collect(changes.left_orgs, 'left_orgs');
+
+    for (const [userId, userChanges] of changesByUser) {
+      await this.notificationService.createNotification({
+        user_id: userId,
+        entity_type:
+          NotificationEntityType.REPUTATION_WATCHED_ORG_MEMBERSHIP_CHANGED,
+        entity_id: player.id,
+        title: 'Watched Organization Membership Changed',
+        message: this.describeOrgChanges(player, userChanges),
+        custom_data: {
+          spectrum_id: player.spectrum_id,
+          joined: userChanges.joined_orgs.map(org => org.org_spectrum_id),
+          left: userChanges.left_orgs.map(org => org.org_spectrum_id),
+        },
+      });
+    }
+  }
+
+  private describeOrgChanges(
+    player: ScPlayer,
+    changes: PlayerSyncChanges
+  ): string {
+    const names = (orgs: PlayerOrgHistory[]) =>
+      orgs.map(org => org.org_name).join(', ');
+    const parts: string[] = [];
+    if (changes.joined_orgs.length > 0) {
+      parts.push(`joined ${names(changes.joined_orgs)}`);
+    }
+    if (changes.left_orgs.length > 0) {
+      parts.push(`left ${names(changes.left_orgs)}`);
+    }
+    return `${player.current_handle} ${parts.join(' and ')}`;
+  }
+}
@@ -0,0 +1,327 @@
+import { ScPlayerModel } from '../models/sc_player_model';
+import { PlayerVettingModel } from '../models/player_vetting_model';
+import { SpectrumAPIClient, SpectrumAPIError } from '../clients/spectrum';
+import { ReputationScoreService } from './reputation_score_service';
+import { PlayerSyncService } from './player_sync_service';
+import { rateLimitService } from './rate_limit_service';
+import { ScPlayer } from '../types/sc_player';
+import {
+  PlayerVettingSummary,
+  VettingAffiliationReport,
+  VettingAltAccount,
+  VettingOrganization,
+  VettingRiskLevel,
+} from '../types/reputation';
+import logger from '../config/logger';
+
+const SPECTRUM_BUCKET = 'spectrum';
+
+export const MAX_BATCH_HANDLES = 50;
+
+// Scores below these count against a player once there is enough evidence behind them
+const HIGH_RISK_SCORE = 30;
+const CAUTION_SCORE = 45;
+
+type ResolvedPlayer =
+  | { status: 'found'; player: ScPlayer }
+  | { status: 'not_found' | 'unavailable' };
+
+/**
+ * Background checks on players by RSI handle, for recruiters deciding on an applicant.
+ * Pulls together the player's reputation score, organization history (flagging
+ * organizations others have reported players for being affiliated with), reports of
+ * hidden affiliations and alt accounts, and rates the result clear, caution or high.
+ */
+export class PlayerVettingService {
+  private scPlayerModel: ScPlayerModel;
+  private vettingModel: PlayerVettingModel;
+  private spectrumClient: SpectrumAPIClient;
+  private scoreService: ReputationScoreService;
+  private playerSyncService: PlayerSyncService;
+
+  constructor() {
+    this.scPlayerModel = new ScPlayerModel();
+    this.vettingModel = new PlayerVettingModel();
+    this.spectrumClient = new SpectrumAPIClient();
+    this.scoreService = new ReputationScoreService();
+    this.playerSyncService = new PlayerSyncService();
+  }
+
+  /**
+   * Split pasted text into handles, dropping blanks, leading @s and repeats
+   */
+  parseHandles(input: string[] | string): string[] {
+    const values = Array.isArray(input) ? input : input.split(/[\s,;]+/);
+    const seen = new Set<string>();
+    const handles: string[] = [];
+
+    for (const value of values) {
+      if (typeof value !== 'string') continue;
+      const handle = value.trim().replace(/^@/, '');
+      if (!handle || seen.has(handle.toLowerCase())) continue;
+      seen.add(handle.toLowerCase());
+      handles.push(handle);
+    }
+
+    return handles;
+  }
+
+  async vetHandle(
+    handle: string,
+    now: Date = new Date()
+  ): Promise<PlayerVettingSummary> {
+    const resolved = await this.resolvePlayer(handle, now);
+    if (resolved.status !== 'found') {
+      return {
+        handle,
+        status: resolved.status,
+        player: null,
+        reputation: null,
+        organizations: [],
+        affiliation_reports: [],
+        alt_accounts: [],
+        risk_level: 'caution',
+        flags: [
+          resolved.status === 'not_found'
+            ? 'Handle not found on Spectrum'
+            : 'Spectrum is unavailable, try again later',
+        ],
+        vetted_at: now,
+      };
+    }
+
+    const { player } = resolved;
+    const score = await this.scoreService.getScore(player.id, now);
+    const organizations = await this.getOrganizations(player.id);
+    const affiliationReports = await this.vettingModel.getAffiliationReports(
+      player.id
+    );
+    const altAccounts = await this.vettingModel.getAltAccounts(
+      player.id,
+      player.current_handle,
+      player.spectrum_id
+    );
+
+    const reputation = { score: score.score, confidence: score.confidence };
+    const { risk_level, flags } = this.assessRisk(
+      reputation,
+      organizations,
+      affiliationReports,
+      altAccounts
+    );
+
+    return {
+      handle,
+      status: 'found',
+      player: {
+        id: player.id,
+        spectrum_id: player.spectrum_id,
+        current_handle: player.current_handle,
+        current_display_name: player.current_display_name,
+      },
+      reputation,
+      organizations,
+      affiliation_reports: affiliationReports,
+      alt_accounts: altAccounts,
+      risk_level,
+      flags,
+      vetted_at: now,
+    };
+  }
+
+  /**
+   * Vet handles one at a time so Spectrum lookups stay inside its rate limit.
+   * A handle that fails to vet is reported as unavailable rather than failing the batch.
+   */
+  async vetHandles(
+    handles: string[],
+    now: Date = new Date()
+  ): Promise<PlayerVettingSummary[]> {
+    const summaries: PlayerVettingSummary[] = [];
+
+    for (const handle of handles.slice(0, MAX_BATCH_HANDLES)) {
+      try {
+        summaries.push(await this.vetHandle(handle, now));
+      } catch (error) {
+        logger.error('Failed to vet player', { handle, error });
+        summaries.push({
+          handle,
+          status: 'unavailable',
+          player: null,
+          reputation: null,
+          organizations: [],
+          affiliation_reports: [],
+          alt_accounts: [],
+          risk_level: 'caution',
+          flags: ['Vetting failed, try again later'],
+          vetted_at: now,
+        });
+      }
+    }
+
+    return summaries;
+  }
+
+  assessRisk(
+    reputation: PlayerVettingSummary['reputation'],
+    organizations: VettingOrganization[],
+    affiliationReports: VettingAffiliationReport[],
+    altAccounts: VettingAltAccount[]
+  ): { risk_level: VettingRiskLevel; flags: string[] } {
+    const high: string[] = [];
+    const caution: string[] = [];
+
+    for (const org of organizations) {
+      const name = org.org_spectrum_id
+        ? `${org.org_name} (${org.org_spectrum_id})`
+        : org.org_name;
+      if (org.is_current && org.approved_report_count > 0) {
+        high.push(`Member of reported organization ${name}`);
+      } else if (org.is_current && org.open_report_count > 0) {
+        caution.push(`Member of organization ${name} with open reports`);
+      } else if (
+        !org.is_current &&
+        org.approved_report_count + org.open_report_count > 0
+      ) {
+        caution.push(`Former member of reported organization ${name}`);
+      }
+    }
+
+    for (const report of affiliationReports) {
+      const name = report.org_name || report.org_spectrum_id;
+      if (report.status === 'approved') {
+        high.push(`Confirmed affiliation with ${name}`);
+      } else {
+        caution.push(`Reported affiliation with ${name}`);
+      }
+    }
+
+    for (const alt of altAccounts) {
+      const description =
+        alt.relation === 'alt'
+          ? `alt account ${alt.handle}`
+          : `alt of ${alt.handle}`;
+      if (alt.status === 'approved') {
+        high.push(`Confirmed ${description}`);
+      } else {
+        caution.push(`Reported ${description}`);
+      }
+    }
+
+    if (reputation && reputation.confidence !== 'low') {
+      if (reputation.score < HIGH_RISK_SCORE) {
+        high.push(`Poor reputation score (${reputation.score})`);
+      } else if (reputation.score < CAUTION_SCORE) {
+        caution.push(`Below-average reputation score (${reputation.score})`);
+      }
+    }
+
+    const risk_level: VettingRiskLevel =
+      high.length > 0 ? 'high' : caution.length > 0 ? 'caution' : 'clear';
+    return { risk_level, flags: [...high, ...caution] };
+  }
+
+  private async getOrganizations(
+    playerId: string
+  ): Promise<VettingOrganization[]> {
+    const history = await this.vettingModel.getOrgHistory(playerId);
+    const sids = [
+      ...new Set(
+        history
+          .map(entry => entry.org_spectrum_id)
+          .filter((sid): sid is string => !!sid)
+      ),
+    ];
+    const tallies = new Map(
+      (await this.vettingModel.getOrganizationReportTallies(sids)).map(
+        tally => [tally.org_spectrum_id, tally]
+      )
+    );
+
+    return history.map(entry => {
+      const tally = entry.org_spectrum_id
+        ? tallies.get(entry.org_spectrum_id)
+        : undefined;
+      return {
+        org_spectrum_id: entry.org_spectrum_id || null,
+        org_name: entry.org_name,
+        role: entry.role || null,
+        is_current: entry.is_current,
+        first_observed_at: entry.first_observed_at,
+        last_observed_at: entry.last_observed_at,
+        approved_report_count: tally?.approved_report_count || 0,
+        open_report_count: tally?.open_report_count || 0,
+      };
+    });
+  }
+
+  /**
+   * Find the tracked player for a handle, looking them up on Spectrum and starting to
+   * track them when we haven't seen the handle before
+   */
+  private async resolvePlayer(
+    handle: string,
+    now: Date
+  ): Promise<ResolvedPlayer> {
+    const known = await this.scPlayerModel.findByHandle(handle);
+    if (known) {
+      await this.scPlayerModel.updateLastObserved(known.id);
+      return { status: 'found', player: known };
+    }
+
+    if (rateLimitService.getBackoff(SPECTRUM_BUCKET)) {
+      return { status: 'unavailable' };
+    }
+
+    let member;
+    try {
+      const response = await this.spectrumClient.fetchMemberByHandle(handle);
+      member = response.data?.member;
+      rateLimitService.clearBackoff(SPECTRUM_BUCKET);
+    } catch (error) {
+      if (error instanceof SpectrumAPIError && error.statusCode === 429) {
+        rateLimitService.backOff(SPECTRUM_BUCKET, error.retryAfter);
+        return { status: 'unavailable' };
+      }
+      // Spectrum answers with an error code when it can't find the member
+      if (!(error instanceof SpectrumAPIError && error.code)) throw error;
+    }
+
+    if (!member) return { status: 'not_found' };
+
+    // A player we track under an older handle
+    const renamed = await this.scPlayerModel.findBySpectrumId(member.id);
+    if (renamed) {
+      const player = await this.scPlayerModel.update(renamed.id, {
+        current_handle: member.nickname,
+        current_display_name: member.displayname,
+        last_spectrum_sync_at: now,
+      });
+      await this.scPlayerModel.createHandleHistory({
+        player_id: renamed.id,
+        handle: member.nickname,
+        display_name: member.displayname,
+      });
+      return { status: 'found', player: player || renamed };
+    }
+
+    const created = await this.scPlayerModel.create({
+      spectrum_id: member.id,
+      current_handle: member.nickname,
+      current_display_name: member.displayname,
+      last_spectrum_sync_at: now,
+    });
+    await this.scPlayerModel.createHandleHistory({
+      player_id: created.id,
+      handle: member.nickname,
+      display_name: member.displayname,
+    });
+
+    // Pull in their organizations now rather than on the first scheduled sync
+    const synced = await this.playerSyncService.syncPlayer(created, now);
+    return {
+      status: 'found',
+      player: synced.status === 'synced' ? synced.player : created,
+    };
+  }
+}
@@ -15,9 +15,19 @@ export interface RetryableTask {
   scheduledFor: Date;
 }
 
+export interface BackoffState {
+  until: Date;
+  consecutiveHits: number;
+}
+
+// Cooldown after repeated rate limits on a bucket doubles from the base up to the cap
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+
 export class RateLimitService {
   private retryQueue: Map<string, RetryableTask> = new Map();
   private isProcessing = false;
+  private backoffs: Map<string, BackoffState> = new Map();
 
   /**
    * Extract rate limit information from Discord API response
@@ -150,6 +160,47 @@ export class RateLimitService {
     }
   }
 
+  /**
+   * Back off from an upstream bucket after it rate limited us. Each consecutive hit
+   * doubles the cooldown, and never waits less than the upstream asked for.
+   */
+  backOff(bucket: string, retryAfterSeconds?: number): Date {
+    const consecutiveHits = (this.backoffs.get(bucket)?.consecutiveHits || 0) + 1;
+    const exponentialSeconds = Math.min(
+      BACKOFF_BASE_SECONDS * 2 ** (consecutiveHits - 1),
+      BACKOFF_MAX_SECONDS
+    );
+    const delaySeconds = Math.max(exponentialSeconds, retryAfterSeconds || 0);
+    const until = new Date(Date.now() + delaySeconds * 1000);
+
+    this.backoffs.set(bucket, { until, consecutiveHits });
+
+    logger.warn(`Backing off from ${bucket} for ${delaySeconds}s`, {
+      bucket,
+      consecutiveHits,
+      retryAfter: retryAfterSeconds,
+      until: until.toISOString(),
+    });
+
+    return until;
+  }
+
+  /**
+   * Whether calls to the bucket should wait, and until when
+   */
+  getBackoff(bucket: string): BackoffState | null {
+    const backoff = this.backoffs.get(bucket);
+    if (!backoff || backoff.until <= new Date()) return null;
+    return backoff;
+  }
+
+  /**
+   * Reset the bucket's cooldown after a call gets through
+   */
+  clearBackoff(bucket: string): void {
+    this.backoffs.delete(bucket);
+  }
+
   /**
    * Get current queue status
    */
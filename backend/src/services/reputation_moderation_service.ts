@@ -0,0 +1,289 @@
+import {
+  ModeratedReport,
+  ReputationModerationModel,
+} from '../models/reputation_moderation_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { UserModel } from '../models/user_model';
+import {
+  ModerateReportRequest,
+  ModerationQueueItem,
+  ModerationQueueQuery,
+  ReputationModerationAction,
+  ReputationModerator,
+  ReputationModeratorRole,
+  ReputationReportType,
+} from '../types/reputation';
+import { User } from '../types/user';
+import { ServiceResult } from '../types/service_result';
+
+export interface ModerationDecision {
+  report: ModeratedReport;
+  action: ReputationModerationAction;
+}
+
+/**
+ * Moves community reports through review: moderators approve or reject pending and
+ * disputed reports, and the reported player can appeal once by proving they own the handle.
+ * Every transition is written to the moderation audit trail.
+ *
+ * Users listed in REPUTATION_ADMIN_USER_IDS are admins without a database row, which is
+ * how the first admin gets in to grant everyone else.
+ */
+export class ReputationModerationService {
+  private moderationModel: ReputationModerationModel;
+  private scPlayerModel: ScPlayerModel;
+  private userModel: UserModel;
+
+  constructor() {
+    this.moderationModel = new ReputationModerationModel();
+    this.scPlayerModel = new ScPlayerModel();
+    this.userModel = new UserModel();
+  }
+
+  async getRole(userId: string): Promise<ReputationModeratorRole | null> {
+    if (this.getConfiguredAdminIds().includes(userId)) return 'admin';
+
+    const moderator = await this.moderationModel.getModerator(userId);
+    return moderator?.role || null;
+  }
+
+  // Admins can do everything moderators can
+  async hasRole(
+    userId: string,
+    role: ReputationModeratorRole
+  ): Promise<boolean> {
+    const userRole = await this.getRole(userId);
+    return role === 'moderator' ? userRole !== null : userRole === 'admin';
+  }
+
+  async getQueue(
+    query: ModerationQueueQuery
+  ): Promise<{ items: ModerationQueueItem[]; total: number }> {
+    return this.moderationModel.getQueue(query);
+  }
+
+  async decide(
+    reportType: ReputationReportType,
+    reportId: string,
+    moderatorId: string,
+    request: ModerateReportRequest
+  ): Promise<ServiceResult<ModerationDecision>> {
+    const report = await this.moderationModel.getReport(reportType, reportId);
+    if (!report) {
+      return { success: false, code: 'not_found', error: 'Report not found' };
+    }
+
+    if (report.reporter_id === moderatorId) {
+      return {
+        success: false,
+        code: 'forbidden',
+        error: 'Moderators cannot decide on reports they filed',
+      };
+    }
+
+    if (await this.isModeratorsOwnPlayer(moderatorId, report)) {
+      return {
+        success: false,
+        code: 'forbidden',
+        error: 'Moderators cannot decide on reports about their own player',
+      };
+    }
+
+    if (report.status !== 'pending' && report.status !== 'disputed') {
+      return {
+        success: false,
+        code: 'conflict',
+        error: `Report has already been ${report.status}`,
+      };
+    }
+
+    const toStatus = request.decision === 'approve' ? 'approved' : 'rejected';
+    const action = await this.moderationModel.recordAction(
+      reportType,
+      reportId,
+      {
+        actor_id: moderatorId,
+        action: request.decision,
+        from_status: report.status,
+        to_status: toStatus,
+        rationale: request.rationale.trim(),
+      }
+    );
+    if (!action) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'Report was updated by someone else, reload and try again',
+      };
+    }
+
+    return {
+      success: true,
+      data: { report: { ...report, status: toStatus }, action },
+    };
+  }
+
+  /**
+   * Let the reported player contest a pending or approved report. Each report can be
+   * appealed once; the appeal puts it back in the queue as disputed.
+   */
+  async appeal(
+    reportType: ReputationReportType,
+    reportId: string,
+    user: User,
+    statement: string
+  ): Promise<ServiceResult<ModerationDecision>> {
+    const report = await this.moderationModel.getReport(reportType, reportId);
+    if (!report) {
+      return { success: false, code: 'not_found', error: 'Report not found' };
+    }
+
+    if (!(await this.ownsReportedHandle(user, report))) {
+      return {
+        success: false,
+        code: 'forbidden',
+        error: 'Only the verified owner of the reported handle can appeal',
+      };
+    }
+
+    if (report.status !== 'pending' && report.status !== 'approved') {
+      return {
+        success: false,
+        code: 'conflict',
+        error:
+          report.status === 'disputed'
+            ? 'This report is already under appeal'
+            : 'Rejected reports cannot be appealed',
+      };
+    }
+
+    if (await this.moderationModel.hasAppeal(reportType, reportId)) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'This report has already been appealed',
+      };
+    }
+
+    const action = await this.moderationModel.recordAction(
+      reportType,
+      reportId,
+      {
+        actor_id: user.id,
+        action: 'appeal',
+        from_status: report.status,
+        to_status: 'disputed',
+        rationale: statement.trim(),
+      }
+    );
+    if (!action) {
+      return {
+        success: false,
+        code: 'conflict',
+        error: 'Report was updated by someone else, reload and try again',
+      };
+    }
+
+    return {
+      success: true,
+      data: { report: { ...report, status: 'disputed' }, action },
+    };
+  }
+
+  async getHistory(
+    reportType: ReputationReportType,
+    reportId: string
+  ): Promise<ServiceResult<ReputationModerationAction[]>> {
+    const report = await this.moderationModel.getReport(reportType, reportId);
+    if (!report) {
+      return { success: false, code: 'not_found', error: 'Report not found' };
+    }
+
+    return {
+      success: true,
+      data: await this.moderationModel.getActions(reportType, reportId),
+    };
+  }
+
+  async listModerators(): Promise<
+    Array<ReputationModerator & { rsi_handle: string }>
+  > {
+    return this.moderationModel.listModerators();
+  }
+
+  async grantRole(
+    userId: string,
+    role: ReputationModeratorRole,
+    grantedBy: string
+  ): Promise<ServiceResult<ReputationModerator>> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      return { success: false, code: 'not_found', error: 'User not found' };
+    }
+
+    return {
+      success: true,
+      data: await this.moderationModel.upsertModerator(userId, role, grantedBy),
+    };
+  }
+
+  async revokeRole(userId: string): Promise<ServiceResult<null>> {
+    if (this.getConfiguredAdminIds().includes(userId)) {
+      return {
+        success: false,
+        code: 'conflict',
+        error:
+          'Admins configured in REPUTATION_ADMIN_USER_IDS cannot be revoked here',
+      };
+    }
+
+    const removed = await this.moderationModel.removeModerator(userId);
+    return removed
+      ? { success: true, data: null }
+      : { success: false, code: 'not_found', error: 'Moderator not found' };
+  }
+
+  // Any link to the reported player is a conflict of interest, verified or not
+  private async isModeratorsOwnPlayer(
+    moderatorId: string,
+    report: ModeratedReport
+  ): Promise<boolean> {
+    const [moderator, player] = await Promise.all([
+      this.userModel.findById(moderatorId),
+      this.scPlayerModel.findById(report.player_id),
+    ]);
+    if (!moderator || !player) return false;
+
+    if (moderator.spectrum_id && moderator.spectrum_id === player.spectrum_id) {
+      return true;
+    }
+    return (
+      moderator.rsi_handle.toLowerCase() === player.current_handle.toLowerCase()
+    );
+  }
+
+  // Ownership is proven by RSI verification of the reported player's Spectrum ID or current handle
+  private async ownsReportedHandle(
+    user: User,
+    report: ModeratedReport
+  ): Promise<boolean> {
+    if (!user.is_rsi_verified) return false;
+
+    const player = await this.scPlayerModel.findById(report.player_id);
+    if (!player) return false;
+
+    if (user.spectrum_id) {
+      return user.spectrum_id === player.spectrum_id;
+    }
+    return (
+      user.rsi_handle.toLowerCase() === player.current_handle.toLowerCase()
+    );
+  }
+
+  private getConfiguredAdminIds(): string[] {
+    return (process.env.REPUTATION_ADMIN_USER_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+  }
+}
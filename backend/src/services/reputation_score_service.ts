@@ -0,0 +1,296 @@
+import {
+  ReputationScoreModel,
+  ScoringAttestation,
+  ScoringInputs,
+} from '../models/reputation_score_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import {
+  PlayerDetails,
+  PlayerReputationScore,
+  ReputationConfidenceLevel,
+  ReputationScoreBreakdown,
+  ReputationScoreFactor,
+} from '../types/reputation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NEUTRAL_SCORE = 50;
+// Raw points at which a score is about three quarters of the way from neutral to 0 or 100
+const SCORE_SCALE = 5;
+// Tags and reports lose half their weight every six months
+const HALF_LIFE_DAYS = 180;
+
+const UNVERIFIED_ATTESTER_WEIGHT = 0.25;
+const NEW_ACCOUNT_WEIGHT = 0.1;
+const TRUSTED_ACCOUNT_AGE_DAYS = 90;
+
+const REPORT_STATUS_WEIGHT = {
+  pending: 1,
+  approved: 1.5,
+  disputed: 0.5,
+  rejected: 0,
+} as const;
+
+const HIGH_CONFIDENCE_WEIGHT = 10;
+const MEDIUM_CONFIDENCE_WEIGHT = 3;
+
+// Decay keeps moving scores, so stored ones are recomputed at least daily
+const MAX_SCORE_AGE_MS = DAY_MS;
+// How far a score has to move before the players this player attested on are recomputed
+const STANDING_CHANGE_THRESHOLD = 1;
+const MAX_FACTORS = 20;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Turns community tags and player reports into a 0-100 reputation score.
+ *
+ * Each attestation counts for more when the attester is RSI verified, has an established
+ * account and has a good score of their own. Each tag or report then decays with age.
+ * Organization, alt account and affiliated people reports describe who someone is rather
+ * than how they behave, so they don't count toward the score.
+ *
+ * Scores are stored per player and recomputed when that player's tags, reports or
+ * attestations change. When a recomputed score moves, scores the player's own
+ * attestations fed into are marked stale and recomputed on their next read.
+ */
+export class ReputationScoreService {
+  private scoreModel: ReputationScoreModel;
+  private scPlayerModel: ScPlayerModel;
+
+  constructor() {
+    this.scoreModel = new ReputationScoreModel();
+    this.scPlayerModel = new ScPlayerModel();
+  }
+
+  async getScore(
+    playerId: string,
+    now: Date = new Date()
+  ): Promise<PlayerReputationScore> {
+    const stored = await this.scoreModel.getScore(playerId);
+    if (stored && this.isFresh(stored, now)) return stored;
+
+    return this.recalculateScore(playerId, now);
+  }
+
+  async getScores(
+    playerIds: string[],
+    now: Date = new Date()
+  ): Promise<Map<string, PlayerReputationScore>> {
+    const stored = await this.scoreModel.getScores(playerIds);
+    const scores = new Map(
+      stored
+        .filter(score => this.isFresh(score, now))
+        .map(score => [score.player_id, score])
+    );
+
+    for (const playerId of playerIds) {
+      if (!scores.has(playerId)) {
+        scores.set(playerId, await this.recalculateScore(playerId, now));
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Recompute and store a player's score, then mark the scores their attestations
+   * contribute to as stale when their own standing moved.
+   */
+  async recalculateScore(
+    playerId: string,
+    now: Date = new Date()
+  ): Promise<PlayerReputationScore> {
+    const previous = await this.scoreModel.getScore(playerId);
+    const inputs = await this.scoreModel.getScoringInputs(playerId);
+    const calculated = this.calculateScore(playerId, inputs, now);
+
+    const saved = await this.scoreModel.saveScore(playerId, calculated);
+
+    const previousScore = previous ? previous.score : NEUTRAL_SCORE;
+    if (Math.abs(saved.score - previousScore) >= STANDING_CHANGE_THRESHOLD) {
+      const userId = await this.scoreModel.findLinkedUserId(playerId);
+      if (userId) {
+        const affected = await this.scoreModel.findPlayersAttestedBy(userId);
+        await this.scoreModel.markStale(affected.filter(id => id !== playerId));
+      }
+    }
+
+    return saved;
+  }
+
+  /**
+   * Player details with the computed score in place of raw attestation counts
+   */
+  async getPlayerDetails(spectrumId: string): Promise<PlayerDetails | null> {
+    const details = await this.scPlayerModel.getPlayerDetails(spectrumId);
+    if (!details) return null;
+
+    const score = await this.getScore(details.player.id);
+    return {
+      ...details,
+      reputationScore: Math.round(score.score),
+      confidenceLevel: score.confidence,
+      reputationBreakdown: score.breakdown,
+    };
+  }
+
+  calculateScore(
+    playerId: string,
+    inputs: ScoringInputs,
+    now: Date
+  ): {
+    score: number;
+    confidence: ReputationConfidenceLevel;
+    breakdown: ReputationScoreBreakdown;
+  } {
+    const factors: ReputationScoreFactor[] = [];
+    let attestationCount = 0;
+    let effectiveAttestations = 0;
+
+    // Players cannot vouch for or against themselves
+    const weigh = (attestations: ScoringAttestation[], itemId: string) => {
+      const weights = { support: 0, dispute: 0 };
+      for (const attestation of attestations) {
+        if (
+          attestation.item_id !== itemId ||
+          attestation.attester_player_id === playerId
+        )
+          continue;
+
+        const weight = this.getAttesterWeight(attestation, now);
+        attestationCount++;
+        effectiveAttestations += weight;
+        if (attestation.attestation_type !== 'neutral') {
+          weights[attestation.attestation_type] += weight;
+        }
+      }
+      return weights;
+    };
+
+    for (const tag of inputs.tags) {
+      if (tag.tag_type === 'neutral') continue;
+
+      const weights = weigh(inputs.tagAttestations, tag.id);
+      const decay = this.getDecay(tag.created_at, now);
+      const sign = tag.tag_type === 'positive' ? 1 : -1;
+      factors.push({
+        source: 'tag',
+        id: tag.id,
+        label: tag.tag_name,
+        polarity: tag.tag_type,
+        support_weight: round(weights.support),
+        dispute_weight: round(weights.dispute),
+        decay: round(decay),
+        contribution: sign * (weights.support - weights.dispute) * decay,
+      });
+    }
+
+    for (const report of inputs.reports) {
+      if (report.status === 'rejected') continue;
+
+      // A report the community disputes stops counting against the player, but never counts for them
+      const weights = weigh(inputs.reportAttestations, report.id);
+      const decay = this.getDecay(report.created_at, now);
+      const net = Math.max(0, weights.support - weights.dispute);
+      factors.push({
+        source: 'report',
+        id: report.id,
+        label: report.title,
+        polarity: 'negative',
+        support_weight: round(weights.support),
+        dispute_weight: round(weights.dispute),
+        decay: round(decay),
+        contribution: -net * decay * REPORT_STATUS_WEIGHT[report.status],
+      });
+    }
+
+    const rawScore = factors.reduce(
+      (sum, factor) => sum + factor.contribution,
+      0
+    );
+    const breakdown: ReputationScoreBreakdown = {
+      raw_score: round(rawScore),
+      positive: round(
+        factors
+          .filter(f => f.contribution > 0)
+          .reduce((sum, f) => sum + f.contribution, 0)
+      ),
+      negative: round(
+        factors
+          .filter(f => f.contribution < 0)
+          .reduce((sum, f) => sum + f.contribution, 0)
+      ),
+      attestation_count: attestationCount,
+      effective_attestations: round(effectiveAttestations),
+      factors: factors
+        .filter(factor => factor.contribution !== 0)
+        .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+        .slice(0, MAX_FACTORS)
+        .map(factor => ({
+          ...factor,
+          contribution: round(factor.contribution),
+        })),
+    };
+
+    return {
+      score:
+        Math.round(
+          (NEUTRAL_SCORE + NEUTRAL_SCORE * Math.tanh(rawScore / SCORE_SCALE)) *
+            10
+        ) / 10,
+      confidence: this.getConfidence(effectiveAttestations),
+      breakdown,
+    };
+  }
+
+  private getAttesterWeight(
+    attestation: ScoringAttestation,
+    now: Date
+  ): number {
+    const verification = attestation.attester_verified
+      ? 1
+      : UNVERIFIED_ATTESTER_WEIGHT;
+
+    const accountAgeDays = Math.max(
+      0,
+      (now.getTime() - new Date(attestation.attester_created_at).getTime()) /
+        DAY_MS
+    );
+    const accountAge =
+      NEW_ACCOUNT_WEIGHT +
+      (1 - NEW_ACCOUNT_WEIGHT) *
+        Math.min(1, accountAgeDays / TRUSTED_ACCOUNT_AGE_DAYS);
+
+    // 0.5 for the worst standing, 1.5 for the best, 1 when the attester has no score
+    const standing =
+      attestation.attester_score === null
+        ? 1
+        : 0.5 + Number(attestation.attester_score) / 100;
+
+    return verification * accountAge * standing;
+  }
+
+  private getDecay(createdAt: Date, now: Date): number {
+    const ageDays = Math.max(
+      0,
+      (now.getTime() - new Date(createdAt).getTime()) / DAY_MS
+    );
+    return Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+  }
+
+  private getConfidence(
+    effectiveAttestations: number
+  ): ReputationConfidenceLevel {
+    if (effectiveAttestations >= HIGH_CONFIDENCE_WEIGHT) return 'high';
+    if (effectiveAttestations >= MEDIUM_CONFIDENCE_WEIGHT) return 'medium';
+    return 'low';
+  }
+
+  private isFresh(score: PlayerReputationScore, now: Date): boolean {
+    return (
+      !score.is_stale &&
+      now.getTime() - new Date(score.computed_at).getTime() < MAX_SCORE_AGE_MS
+    );
+  }
+}
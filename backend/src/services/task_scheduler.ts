@@ -1,12 +1,26 @@
 import * as cron from 'node-cron';
 import { EventReminderService } from './event_reminder_service';
 import { EventSyncService } from './event_sync_service';
+import { EventSeriesService } from './event_series_service';
+import { EventWaitlistService } from './event_waitlist_service';
+import { DiscordRoleSyncService } from './discord_role_sync_service';
+import { NotificationDigestService } from './notification_digest_service';
+import { PlayerSyncService } from './player_sync_service';
+import { AccountLifecycleService } from './account_lifecycle_service';
+import { HRApplicationService } from './hr_application_service';
 import { EventModel } from '../models/event_model';
 import logger from '../config/logger';
 
 export class TaskScheduler {
   private eventReminderService: EventReminderService;
   private eventSyncService: EventSyncService;
+  private eventSeriesService: EventSeriesService;
+  private eventWaitlistService: EventWaitlistService;
+  private discordRoleSyncService: DiscordRoleSyncService;
+  private notificationDigestService: NotificationDigestService;
+  private playerSyncService: PlayerSyncService;
+  private accountLifecycleService: AccountLifecycleService;
+  private hrApplicationService: HRApplicationService;
   private eventModel: EventModel;
   private scheduledTasks: Map<string, cron.ScheduledTask> = new Map();
   private scheduledTimeouts: Map<string, NodeJS.Timeout> = new Map();
@@ -14,6 +28,13 @@ export class TaskScheduler {
   constructor() {
     this.eventReminderService = new EventReminderService();
     this.eventSyncService = new EventSyncService();
+    this.eventSeriesService = new EventSeriesService();
+    this.eventWaitlistService = new EventWaitlistService();
+    this.discordRoleSyncService = new DiscordRoleSyncService();
+    this.notificationDigestService = new NotificationDigestService();
+    this.playerSyncService = new PlayerSyncService();
+    this.accountLifecycleService = new AccountLifecycleService();
+    this.hrApplicationService = new HRApplicationService();
     this.eventModel = new EventModel();
     this.initializeScheduledTasks();
     this.setupGracefulShutdown();
@@ -97,6 +118,36 @@ export class TaskScheduler {
       { timezone: 'UTC' }
     );
 
+    // Discord inbound sync job: Pull events created or edited in Discord every 15 minutes
+    const discordInboundSyncJob = cron.schedule(
+      '*/15 * * * *',
+      async () => {
+        try {
+          logger.info('Running Discord inbound sync job...');
+          await this.eventSyncService.syncInboundEventsForAllServers();
+          logger.info('Completed Discord inbound sync job');
+        } catch (error) {
+          logger.error('Error in Discord inbound sync job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Discord role reconciliation job: Report (and optionally fix) role drift hourly
+    const discordRoleSyncJob = cron.schedule(
+      '30 * * * *',
+      async () => {
+        try {
+          logger.info('Running Discord role reconciliation job...');
+          await this.discordRoleSyncService.reconcileAllServers();
+          logger.info('Completed Discord role reconciliation job');
+        } catch (error) {
+          logger.error('Error in Discord role reconciliation job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
     // Discord cleanup job: Cleanup cancelled events daily at 3 AM
     const discordCleanupJob = cron.schedule(
       '0 3 * * *',
@@ -112,11 +163,156 @@ export class TaskScheduler {
       { timezone: 'UTC' }
     );
 
+    // Recurring series job: Extend the rolling occurrence window daily at 1 AM
+    const eventSeriesJob = cron.schedule(
+      '0 1 * * *',
+      async () => {
+        try {
+          logger.info('Running event series generation job...');
+          await this.eventSeriesService.extendActiveSeries();
+          logger.info('Completed event series generation job');
+        } catch (error) {
+          logger.error('Error in event series generation job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Waitlist job: Release unconfirmed promoted seats every 5 minutes
+    const eventWaitlistJob = cron.schedule(
+      '*/5 * * * *',
+      async () => {
+        try {
+          const expired =
+            await this.eventWaitlistService.expireUnconfirmedPromotions();
+          if (expired > 0) {
+            logger.info(`Released ${expired} unconfirmed waitlist seats`);
+          }
+        } catch (error) {
+          logger.error('Error in event waitlist job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Notification digest job: Send digests whose period has started, hourly so each
+    // user's digest goes out near their local digest time
+    const notificationDigestJob = cron.schedule(
+      '15 * * * *',
+      async () => {
+        try {
+          const sent = await this.notificationDigestService.generateDueDigests();
+          if (sent > 0) {
+            logger.info(`Sent ${sent} notification digests`);
+          }
+        } catch (error) {
+          logger.error('Error in notification digest job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Player sync job: Re-sync tracked players whose next sync is due every 10 minutes
+    const playerSyncJob = cron.schedule(
+      '*/10 * * * *',
+      async () => {
+        try {
+          const synced = await this.playerSyncService.syncDuePlayers();
+          if (synced > 0) {
+            logger.info(`Synced ${synced} tracked players`);
+          }
+        } catch (error) {
+          logger.error('Error in player sync job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Account deletion job: Delete accounts whose grace period ended, daily at 4 AM UTC
+    const accountDeletionJob = cron.schedule(
+      '0 4 * * *',
+      async () => {
+        try {
+          const deleted =
+            await this.accountLifecycleService.processDueDeletions();
+          if (deleted > 0) {
+            logger.info(`Deleted ${deleted} accounts`);
+          }
+        } catch (error) {
+          logger.error('Error in account deletion job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Interview reminder job: Send due 24h and 1h interview reminders every 5 minutes
+    const interviewReminderJob = cron.schedule(
+      '*/5 * * * *',
+      async () => {
+        try {
+          const sent =
+            await this.eventReminderService.sendDueInterviewReminders();
+          if (sent > 0) {
+            logger.info(`Sent ${sent} interview reminders`);
+          }
+        } catch (error) {
+          logger.error('Error in interview reminder job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Pipeline idle rules job: Act on applications that sat unchanged too long, hourly
+    const pipelineIdleRulesJob = cron.schedule(
+      '15 * * * *',
+      async () => {
+        try {
+          const applied = await this.hrApplicationService.runIdleRules();
+          if (applied > 0) {
+            logger.info(`Applied idle pipeline rules to ${applied} applications`);
+          }
+        } catch (error) {
+          logger.error('Error in pipeline idle rules job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
+    // Mentorship check-in reminder job: Remind mentors and mentees of check-ins due within a day, every hour
+    const mentorshipCheckInReminderJob = cron.schedule(
+      '15 * * * *',
+      async () => {
+        try {
+          const sent =
+            await this.eventReminderService.sendDueMentorshipCheckInReminders();
+          if (sent > 0) {
+            logger.info(`Sent ${sent} mentorship check-in reminders`);
+          }
+        } catch (error) {
+          logger.error('Error in mentorship check-in reminder job:', error);
+        }
+      },
+      { timezone: 'UTC' }
+    );
+
     this.scheduledTasks.set('process_tasks', processTasksJob);
     this.scheduledTasks.set('cleanup', cleanupTask);
     this.scheduledTasks.set('discord_sync', discordSyncJob);
     this.scheduledTasks.set('discord_retry', discordRetryJob);
+    this.scheduledTasks.set('discord_inbound_sync', discordInboundSyncJob);
+    this.scheduledTasks.set('discord_role_sync', discordRoleSyncJob);
     this.scheduledTasks.set('discord_cleanup', discordCleanupJob);
+    this.scheduledTasks.set('event_series', eventSeriesJob);
+    this.scheduledTasks.set('event_waitlist', eventWaitlistJob);
+    this.scheduledTasks.set('notification_digest', notificationDigestJob);
+    this.scheduledTasks.set('player_sync', playerSyncJob);
+    this.scheduledTasks.set('account_deletion', accountDeletionJob);
+    this.scheduledTasks.set('interview_reminders', interviewReminderJob);
+    this.scheduledTasks.set(
+      'mentorship_check_in_reminders',
+      mentorshipCheckInReminderJob
+    );
+    this.scheduledTasks.set('pipeline_idle_rules', pipelineIdleRulesJob);
 
     logger.info('Task scheduler initialized with Discord sync jobs');
   }
@@ -343,6 +539,36 @@ export class TaskScheduler {
         case 'cleanup':
           await this.eventReminderService.cleanupOldNotifications();
           break;
+        case 'discord_inbound_sync':
+          await this.eventSyncService.syncInboundEventsForAllServers();
+          break;
+        case 'discord_role_sync':
+          await this.discordRoleSyncService.reconcileAllServers();
+          break;
+        case 'event_series':
+          await this.eventSeriesService.extendActiveSeries();
+          break;
+        case 'event_waitlist':
+          await this.eventWaitlistService.expireUnconfirmedPromotions();
+          break;
+        case 'notification_digest':
+          await this.notificationDigestService.generateDueDigests();
+          break;
+        case 'player_sync':
+          await this.playerSyncService.syncDuePlayers();
+          break;
+        case 'account_deletion':
+          await this.accountLifecycleService.processDueDeletions();
+          break;
+        case 'interview_reminders':
+          await this.eventReminderService.sendDueInterviewReminders();
+          break;
+        case 'mentorship_check_in_reminders':
+          await this.eventReminderService.sendDueMentorshipCheckInReminders();
+          break;
+        case 'pipeline_idle_rules':
+          await this.hrApplicationService.runIdleRules();
+          break;
         default:
           logger.warn(`Unknown task: ${taskName}`);
           return false;
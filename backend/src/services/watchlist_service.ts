@@ -0,0 +1,506 @@
+import { NewWatchlistEntry, WatchlistModel } from '../models/watchlist_model';
+import { ScPlayerModel } from '../models/sc_player_model';
+import { OrganizationModel } from '../models/organization_model';
+import { RoleModel } from '../models/role_model';
+import { NotificationService } from './notification_service';
+import { ServiceResult } from '../types/service_result';
+import { NotificationEntityType } from '../types/notification';
+import { ORGANIZATION_PERMISSIONS } from '../types/role';
+import { ScPlayer } from '../types/sc_player';
+import {
+  AddWatchlistEntryRequest,
+  CreateWatchlistRequest,
+  OrganizationReport,
+  UpdateWatchlistRequest,
+  WatchedPlayerEvent,
+  WatchedPlayerEventType,
+  Watchlist,
+  WatchlistEntry,
+  WatchlistEntryWithPlayer,
+  WatchlistWithCounts,
+} from '../types/reputation';
+
+const DEFAULT_WATCHLIST_NAME = 'My Watchlist';
+
+const PLAYER_EVENT_NOTIFICATIONS: Record<
+  WatchedPlayerEventType,
+  { entityType: NotificationEntityType; title: string; verb: string }
+> = {
+  report: {
+    entityType: NotificationEntityType.REPUTATION_WATCHED_PLAYER_REPORTED,
+    title: 'Watched Player Reported',
+    verb: 'was reported',
+  },
+  tag: {
+    entityType: NotificationEntityType.REPUTATION_WATCHED_PLAYER_TAGGED,
+    title: 'Watched Player Tagged',
+    verb: 'was tagged',
+  },
+  comment: {
+    entityType: NotificationEntityType.REPUTATION_WATCHED_PLAYER_COMMENTED,
+    title: 'New Comment on Watched Player',
+    verb: 'has a new comment',
+  },
+  corroboration: {
+    entityType: NotificationEntityType.REPUTATION_WATCHED_PLAYER_CORROBORATED,
+    title: 'Report on Watched Player Corroborated',
+    verb: 'has a report that was corroborated',
+  },
+};
+
+const EXPORT_COLUMNS = [
+  'type',
+  'spectrum_id',
+  'handle',
+  'org_spectrum_id',
+  'org_name',
+  'note',
+  'added_at',
+] as const;
+
+export interface WatchlistWithEntries {
+  watchlist: WatchlistWithCounts;
+  entries: WatchlistEntryWithPlayer[];
+}
+
+/**
+ * Personal and organization-shared watchlists of players and RSI organizations.
+ * Personal lists belong to their owner alone. Lists shared with an organization are
+ * visible to its members and managed by anyone with the manage_watchlists permission,
+ * who are also the ones alerted when something on the list changes.
+ */
+export class WatchlistService {
+  private watchlistModel: WatchlistModel;
+  private scPlayerModel: ScPlayerModel;
+  private organizationModel: OrganizationModel;
+  private roleModel: RoleModel;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.watchlistModel = new WatchlistModel();
+    this.scPlayerModel = new ScPlayerModel();
+    this.organizationModel = new OrganizationModel();
+    this.roleModel = new RoleModel();
+    this.notificationService = new NotificationService();
+  }
+
+  async listWatchlists(userId: string): Promise<WatchlistWithCounts[]> {
+    const watchlists = await this.watchlistModel.listForUser(userId);
+
+    return Promise.all(
+      watchlists.map(async watchlist => ({
+        ...watchlist,
+        can_manage: await this.canManage(watchlist, userId),
+      }))
+    );
+  }
+
+  async getWatchlist(
+    watchlistId: string,
+    userId: string
+  ): Promise<ServiceResult<WatchlistWithEntries>> {
+    const access = await this.getAccess(watchlistId, userId, 'view');
+    if (!access.success) return access;
+
+    const entries = await this.watchlistModel.getEntries(watchlistId);
+    const organization = access.data.organization_id
+      ? await this.organizationModel.findById(access.data.organization_id)
+      : null;
+
+    return {
+      success: true,
+      data: {
+        watchlist: {
+          ...access.data,
+          organization_name: organization?.name || null,
+          entry_count: entries.length,
+          can_manage: await this.canManage(access.data, userId),
+        },
+        entries,
+      },
+    };
+  }
+
+  async createWatchlist(
+    userId: string,
+    request: CreateWatchlistRequest
+  ): Promise<ServiceResult<Watchlist>> {
+    if (
+      request.organization_id &&
+      !(await this.canManageOrganizationLists(request.organization_id, userId))
+    ) {
+      return {
+        success: false,
+        code: 'forbidden',
+        error:
+          'You do not have permission to manage watchlists for this organization',
+      };
+    }
+
+    const watchlist = await this.watchlistModel.create({
+      name: request.name.trim(),
+      description: request.description?.trim() || null,
+      owner_id: userId,
+      organization_id: request.organization_id || null,
+    });
+
+    return { success: true, data: watchlist };
+  }
+
+  async updateWatchlist(
+    watchlistId: string,
+    userId: string,
+    request: UpdateWatchlistRequest
+  ): Promise<ServiceResult<Watchlist>> {
+    const access = await this.getAccess(watchlistId, userId, 'manage');
+    if (!access.success) return access;
+
+    const watchlist = await this.watchlistModel.update(watchlistId, {
+      name: request.name?.trim(),
+      description:
+        request.description === undefined
+          ? undefined
+          : request.description?.trim() || null,
+    });
+    if (!watchlist) {
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'Watchlist not found',
+      };
+    }
+
+    return { success: true, data: watchlist };
+  }
+
+  async deleteWatchlist(
+    watchlistId: string,
+    userId: string
+  ): Promise<ServiceResult<null>> {
+    const access = await this.getAccess(watchlistId, userId, 'manage');
+    if (!access.success) return access;
+
+    await this.watchlistModel.delete(watchlistId);
+    return { success: true, data: null };
+  }
+
+  async addEntry(
+    watchlistId: string,
+    userId: string,
+    request: AddWatchlistEntryRequest
+  ): Promise<ServiceResult<WatchlistEntry>> {
+    const access = await this.getAccess(watchlistId, userId, 'manage');
+    if (!access.success) return access;
+
+    const entry: NewWatchlistEntry = {
+      watchlist_id: watchlistId,
+      entry_type: request.entry_type,
+      note: request.note?.trim() || null,
+      added_by: userId,
+    };
+
+    if (request.entry_type === 'player') {
+      const player = await this.scPlayerModel.findBySpectrumId(
+        request.spectrum_id || ''
+      );
+      if (!player) {
+        return {
+          success: false,
+          code: 'not_found',
+          error: 'Player not found. Look the player up before watching them.',
+        };
+      }
+      if (await this.watchlistModel.findPlayerEntry(watchlistId, player.id)) {
+        return {
+          success: false,
+          code: 'conflict',
+          error: 'Player is already on this watchlist',
+        };
+      }
+      entry.player_id = player.id;
+    } else {
+      // RSI shows SIDs in upper case but accepts any case in URLs
+      const orgSpectrumId = (request.org_spectrum_id || '')
+        .trim()
+        .toUpperCase();
+      if (
+        await this.watchlistModel.findOrganizationEntry(
+          watchlistId,
+          orgSpectrumId
+        )
+      ) {
+        return {
+          success: false,
+          code: 'conflict',
+          error: 'Organization is already on this watchlist',
+        };
+      }
+      entry.org_spectrum_id = orgSpectrumId;
+      entry.org_name = request.org_name?.trim() || null;
+    }
+
+    const created = await this.watchlistModel.addEntry(entry);
+    await this.watchlistModel.touch(watchlistId);
+    return { success: true, data: created };
+  }
+
+  async removeEntry(
+    watchlistId: string,
+    entryId: string,
+    userId: string
+  ): Promise<ServiceResult<null>> {
+    const access = await this.getAccess(watchlistId, userId, 'manage');
+    if (!access.success) return access;
+
+    const entry = await this.watchlistModel.findEntry(watchlistId, entryId);
+    if (!entry) {
+      return { success: false, code: 'not_found', error: 'Entry not found' };
+    }
+
+    await this.watchlistModel.removeEntry(entry.id);
+    await this.watchlistModel.touch(watchlistId);
+    return { success: true, data: null };
+  }
+
+  /**
+   * Add the player to the user's default personal list, creating it on first use
+   */
+  async watchPlayer(userId: string, playerId: string): Promise<void> {
+    const watchlist =
+      (await this.watchlistModel.findDefaultList(userId)) ||
+      (await this.watchlistModel.create({
+        name: DEFAULT_WATCHLIST_NAME,
+        owner_id: userId,
+        is_default: true,
+      }));
+
+    if (await this.watchlistModel.findPlayerEntry(watchlist.id, playerId)) {
+      return;
+    }
+
+    await this.watchlistModel.addEntry({
+      watchlist_id: watchlist.id,
+      entry_type: 'player',
+      player_id: playerId,
+      added_by: userId,
+    });
+  }
+
+  async unwatchPlayer(userId: string, playerId: string): Promise<void> {
+    const watchlist = await this.watchlistModel.findDefaultList(userId);
+    if (!watchlist) return;
+
+    const entry = await this.watchlistModel.findPlayerEntry(
+      watchlist.id,
+      playerId
+    );
+    if (entry) await this.watchlistModel.removeEntry(entry.id);
+  }
+
+  // Users alerted about a player, across every list the player is on
+  async findPlayerWatcherIds(playerId: string): Promise<string[]> {
+    const watchlists =
+      await this.watchlistModel.findListsWatchingPlayer(playerId);
+    return this.resolveRecipients(watchlists);
+  }
+
+  async findOrganizationWatcherIds(orgSpectrumId: string): Promise<string[]> {
+    const watchlists = await this.watchlistModel.findListsWatchingOrganizations(
+      [orgSpectrumId]
+    );
+    return this.resolveRecipients(watchlists);
+  }
+
+  /**
+   * Alert the player's watchers about a new report, tag, comment or corroboration.
+   * Whoever made the change is not told about it.
+   */
+  async notifyPlayerEvent(
+    player: ScPlayer,
+    event: WatchedPlayerEvent
+  ): Promise<number> {
+    const recipients = (await this.findPlayerWatcherIds(player.id)).filter(
+      userId => userId !== event.actor_id
+    );
+    const notification = PLAYER_EVENT_NOTIFICATIONS[event.type];
+
+    for (const userId of recipients) {
+      await this.notificationService.createNotification({
+        user_id: userId,
+        entity_type: notification.entityType,
+        entity_id: player.id,
+        title: notification.title,
+        message: `${player.current_handle} ${notification.verb}: ${event.summary}`,
+        custom_data: {
+          spectrum_id: player.spectrum_id,
+          event_type: event.type,
+          item_id: event.item_id,
+        },
+      });
+    }
+
+    return recipients.length;
+  }
+
+  /**
+   * Alert watchers of an organization when a player is reported as affiliated with it
+   */
+  async notifyOrganizationReport(
+    player: ScPlayer,
+    report: OrganizationReport
+  ): Promise<number> {
+    const recipients = (
+      await this.findOrganizationWatcherIds(
+        report.org_spectrum_id.toUpperCase()
+      )
+    ).filter(userId => userId !== report.reporter_id);
+
+    for (const userId of recipients) {
+      await this.notificationService.createNotification({
+        user_id: userId,
+        entity_type: NotificationEntityType.REPUTATION_WATCHED_ORG_REPORTED,
+        entity_id: player.id,
+        title: 'Watched Organization Reported',
+        message: `${player.current_handle} was reported as affiliated with ${report.org_name || report.org_spectrum_id}`,
+        custom_data: {
+          spectrum_id: player.spectrum_id,
+          org_spectrum_id: report.org_spectrum_id,
+          item_id: report.id,
+        },
+      });
+    }
+
+    return recipients.length;
+  }
+
+  /**
+   * CSV of the list's entries, one row per player or organization
+   */
+  toCsv(entries: WatchlistEntryWithPlayer[]): string {
+    const rows = entries.map(entry =>
+      [
+        entry.entry_type,
+        entry.player_spectrum_id,
+        entry.player_handle,
+        entry.org_spectrum_id,
+        entry.org_name,
+        entry.note,
+        new Date(entry.created_at).toISOString(),
+      ]
+        .map(value => this.escapeCsv(value))
+        .join(',')
+    );
+
+    return [EXPORT_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  private escapeCsv(value: string | null): string {
+    if (value === null || value === undefined) return '';
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private async getAccess(
+    watchlistId: string,
+    userId: string,
+    level: 'view' | 'manage'
+  ): Promise<ServiceResult<Watchlist>> {
+    const watchlist = await this.watchlistModel.findById(watchlistId);
+    const allowed =
+      watchlist &&
+      (level === 'view'
+        ? await this.canView(watchlist, userId)
+        : await this.canManage(watchlist, userId));
+
+    if (!watchlist || (!allowed && level === 'view')) {
+      // Other people's lists are reported as missing rather than forbidden
+      return {
+        success: false,
+        code: 'not_found',
+        error: 'Watchlist not found',
+      };
+    }
+    if (!allowed) {
+      return {
+        success: false,
+        code: 'forbidden',
+        error: 'You do not have permission to manage this watchlist',
+      };
+    }
+
+    return { success: true, data: watchlist };
+  }
+
+  private async canView(
+    watchlist: Watchlist,
+    userId: string
+  ): Promise<boolean> {
+    if (!watchlist.organization_id) return watchlist.owner_id === userId;
+
+    const memberIds = await this.watchlistModel.getOrganizationMemberIds(
+      watchlist.organization_id
+    );
+    return memberIds.includes(userId);
+  }
+
+  private async canManage(
+    watchlist: Watchlist,
+    userId: string
+  ): Promise<boolean> {
+    if (!watchlist.organization_id) return watchlist.owner_id === userId;
+    return this.canManageOrganizationLists(watchlist.organization_id, userId);
+  }
+
+  private async canManageOrganizationLists(
+    organizationId: string,
+    userId: string,
+    ownerId?: string
+  ): Promise<boolean> {
+    const organizationOwnerId =
+      ownerId ??
+      (await this.organizationModel.findById(organizationId))?.owner_id;
+    if (organizationOwnerId === userId) return true;
+
+    return this.roleModel.userHasPermission(
+      organizationId,
+      userId,
+      ORGANIZATION_PERMISSIONS.MANAGE_WATCHLISTS
+    );
+  }
+
+  // Personal lists alert their owner; shared lists alert everyone who can manage them
+  private async resolveRecipients(watchlists: Watchlist[]): Promise<string[]> {
+    const recipients = new Set<string>();
+    const checkedOrganizations = new Set<string>();
+
+    for (const watchlist of watchlists) {
+      if (!watchlist.organization_id) {
+        recipients.add(watchlist.owner_id);
+        continue;
+      }
+      if (checkedOrganizations.has(watchlist.organization_id)) continue;
+      checkedOrganizations.add(watchlist.organization_id);
+
+      const organization = await this.organizationModel.findById(
+        watchlist.organization_id
+      );
+      if (!organization) continue;
+
+      const memberIds = await this.watchlistModel.getOrganizationMemberIds(
+        organization.id
+      );
+      for (const userId of memberIds) {
+        if (
+          await this.canManageOrganizationLists(
+            organization.id,
+            userId,
+            organization.owner_id
+          )
+        ) {
+          recipients.add(userId);
+        }
+      }
+    }
+
+    return [...recipients];
+  }
+}
@@ -0,0 +1,17 @@
+export interface CalendarFeedToken {
+  id: string;
+  user_id: string;
+  token: string;
+  last_used_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CalendarFeedUrls {
+  registrations: string;
+  organizations: Array<{
+    rsi_org_id: string;
+    name: string;
+    url: string;
+  }>;
+}
@@ -86,6 +86,8 @@ export interface DiscordServer {
   auto_create_events: boolean;
   event_channel_id?: string;
   announcement_channel_id?: string;
+  role_sync_auto_fix: boolean;
+  role_sync_checked_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -128,6 +130,8 @@ export interface UpdateDiscordServerData {
   auto_create_events?: boolean;
   event_channel_id?: string;
   announcement_channel_id?: string;
+  role_sync_auto_fix?: boolean;
+  role_sync_checked_at?: Date;
 }
 
 export interface DiscordEvent {
@@ -139,10 +143,31 @@ export interface DiscordEvent {
   sync_status: 'pending' | 'synced' | 'failed' | 'cancelled';
   last_sync_at?: Date;
   sync_error?: string;
+  origin: DiscordEventOrigin;
+  discord_snapshot?: DiscordEventSnapshot | null;
+  discord_checked_at?: Date | null;
+  sync_conflicts: DiscordEventSyncConflict[];
   created_at: Date;
   updated_at: Date;
 }
 
+export type DiscordEventOrigin = 'platform' | 'discord';
+
+// Fields kept in sync between a platform event and its Discord scheduled event
+export interface DiscordEventSnapshot {
+  title: string;
+  start_time: string;
+  end_time: string | null;
+}
+
+export interface DiscordEventSyncConflict {
+  detected_at: string;
+  type: 'edit' | 'delete';
+  winner: 'platform' | 'discord';
+  platform: DiscordEventSnapshot;
+  discord: DiscordEventSnapshot | null;
+}
+
 export interface CreateDiscordEventData {
   event_id: string;
   discord_guild_id: string;
@@ -151,6 +176,9 @@ export interface CreateDiscordEventData {
   sync_status?: 'pending' | 'synced' | 'failed' | 'cancelled';
   sync_error?: string;
   last_sync_at?: Date;
+  origin?: DiscordEventOrigin;
+  discord_snapshot?: DiscordEventSnapshot;
+  discord_checked_at?: Date;
 }
 
 export interface UpdateDiscordEventData {
@@ -159,6 +187,43 @@ export interface UpdateDiscordEventData {
   sync_status?: 'pending' | 'synced' | 'failed' | 'cancelled';
   last_sync_at?: Date;
   sync_error?: string;
+  discord_snapshot?: DiscordEventSnapshot;
+  discord_checked_at?: Date;
+}
+
+export interface DiscordRoleMapping {
+  id: string;
+  discord_server_id: string;
+  organization_role_id: string;
+  discord_role_id: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DiscordRoleMappingWithRole extends DiscordRoleMapping {
+  role_name: string;
+  role_rank: number;
+}
+
+// A mapped Discord role that doesn't match the member's organization role
+export interface DiscordRoleDrift {
+  discord_user_id: string;
+  user_id: string | null; // null when the Discord account isn't linked to a platform user
+  rsi_handle: string | null;
+  discord_role_id: string;
+  organization_role_id: string;
+  // missing: should have the Discord role but doesn't; extra: has it but shouldn't
+  type: 'missing' | 'extra';
+}
+
+export interface DiscordRoleReconciliationReport {
+  discord_server_id: string;
+  discord_guild_id: string;
+  checked_at: Date;
+  members_checked: number;
+  drift: DiscordRoleDrift[];
+  fixed: number;
+  failed: number;
 }
 
 // Discord API Response Types
@@ -12,9 +12,14 @@ export interface Event {
   playstyle_tags?: string[];
   activity_tags?: string[];
   max_participants?: number;
+  waitlist_confirmation_minutes?: number | null;
   is_public: boolean;
   is_active: boolean;
   registration_deadline?: Date;
+  // Recurring series information (null for one-off events)
+  series_id?: string | null;
+  occurrence_start?: Date | null;
+  is_series_exception?: boolean;
   created_at: Date;
   updated_at: Date;
   // Creator information (when joined with users table)
@@ -35,8 +40,11 @@ export interface CreateEventData {
   playstyle_tags?: string[];
   activity_tags?: string[];
   max_participants?: number;
+  waitlist_confirmation_minutes?: number | null;
   is_public?: boolean;
   registration_deadline?: Date;
+  recurrence?: EventRecurrenceRule;
+  slots?: EventSlotInput[];
 }
 
 export interface UpdateEventData {
@@ -50,24 +58,170 @@ export interface UpdateEventData {
   playstyle_tags?: string[];
   activity_tags?: string[];
   max_participants?: number;
+  waitlist_confirmation_minutes?: number | null;
   is_public?: boolean;
   is_active?: boolean;
   registration_deadline?: Date;
+  is_series_exception?: boolean;
+  occurrence_start?: Date | null;
+  series_id?: string | null;
+  slots?: EventSlotInput[];
 }
 
 export interface EventRegistration {
   id: string;
   event_id: string;
   user_id: string;
-  status: 'registered' | 'confirmed' | 'attended' | 'cancelled';
+  status: EventRegistrationStatus;
   notes?: string;
+  // Slot claimed by the participant (null for general sign-ups)
+  slot_id?: string | null;
+  // Waitlist information (only set while waitlisted or awaiting confirmation)
+  waitlist_position?: number | null;
+  promoted_at?: Date | null;
+  confirmation_expires_at?: Date | null;
+  // Attendance information (only set once attendance has been recorded)
+  checked_in_at?: Date | null;
+  attendance_marked_by?: string | null;
+  attendance_source?: EventAttendanceSource | null;
   registered_at: Date;
   updated_at: Date;
 }
 
+export type EventRegistrationStatus =
+  | 'registered'
+  | 'confirmed'
+  | 'attended'
+  | 'no_show'
+  | 'cancelled'
+  | 'waitlisted';
+
+export interface EventSlot {
+  id: string;
+  event_id: string;
+  name: string;
+  description?: string | null;
+  capacity: number;
+  required_skill_ids: string[];
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Slot definition as sent when creating or updating an event. Existing slots
+// are matched by id (or by name, for occurrences of a series).
+export interface EventSlotInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  capacity: number;
+  required_skill_ids?: string[];
+}
+
+export interface EventSlotParticipant {
+  user_id: string;
+  username: string;
+  avatar_url?: string | null;
+  status: EventRegistrationStatus;
+  waitlist_position?: number | null;
+}
+
+export interface EventSlotWithRoster extends EventSlot {
+  required_skills: { id: string; name: string }[];
+  filled: number;
+  waitlisted: number;
+  participants: EventSlotParticipant[];
+}
+
+export type EventAttendanceStatus = 'attended' | 'no_show';
+
+export type EventAttendanceSource = 'organizer' | 'check_in_code' | 'discord';
+
+export interface EventCheckInCode {
+  id: string;
+  event_id: string;
+  organization_id?: string | null;
+  code: string;
+  expires_at: Date;
+  created_by: string;
+  created_at: Date;
+}
+
+export interface EventAttendanceSummary {
+  total_registered: number;
+  attended: number;
+  no_shows: number;
+  unmarked: number;
+}
+
+export interface UserAttendanceRecord {
+  event_id: string;
+  event_title: string;
+  start_time: Date;
+  end_time: Date;
+  status: EventRegistrationStatus;
+  checked_in_at?: Date | null;
+}
+
+export interface UserAttendanceHistory {
+  user_id: string;
+  total_events: number;
+  attended: number;
+  no_shows: number;
+  unmarked: number;
+  attendance_rate: number;
+  no_show_rate: number;
+  events: UserAttendanceRecord[];
+}
+
 export interface CreateEventRegistrationData {
   event_id: string;
   user_id: string;
   status?: string;
   notes?: string;
 }
+
+export type EventRecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface EventRecurrenceRule {
+  frequency: EventRecurrenceFrequency;
+  by_weekday?: number[]; // 0 = Sunday ... 6 = Saturday
+  week_of_month?: number; // Monthly only: 1-4, or -1 for the last week
+  until?: Date | string;
+  count?: number;
+  exceptions?: string[]; // ISO start times of skipped occurrences
+}
+
+export type EventSeriesEditScope = 'this' | 'following' | 'all';
+
+export interface EventSeries {
+  id: string;
+  organization_id?: string | null;
+  created_by: string;
+  recurrence: EventRecurrenceRule;
+  series_start: Date;
+  duration_minutes: number;
+  template: Omit<CreateEventData, 'start_time' | 'end_time' | 'recurrence'>;
+  generated_until?: Date | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateEventSeriesData {
+  organization_id?: string | null;
+  created_by: string;
+  recurrence: EventRecurrenceRule;
+  series_start: Date;
+  duration_minutes: number;
+  template: Omit<CreateEventData, 'start_time' | 'end_time' | 'recurrence'>;
+}
+
+export interface UpdateEventSeriesData {
+  recurrence?: EventRecurrenceRule;
+  series_start?: Date;
+  duration_minutes?: number;
+  template?: Omit<CreateEventData, 'start_time' | 'end_time' | 'recurrence'>;
+  generated_until?: Date | null;
+  is_active?: boolean;
+}
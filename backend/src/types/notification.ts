@@ -17,6 +17,7 @@ export enum NotificationEntityType {
   EVENT_UNREGISTERED = 14,
   EVENT_STARTING_SOON = 15,
   EVENT_REMINDER = 16,
+  EVENT_WAITLIST_PROMOTED = 17,
 
   // Comment related notifications
   COMMENT_CREATED = 20,
@@ -33,6 +34,7 @@ export enum NotificationEntityType {
   SYSTEM_ANNOUNCEMENT = 40,
   SYSTEM_MAINTENANCE = 41,
   SYSTEM_UPDATE = 42,
+  SYSTEM_DIGEST = 43,
 
   // Security notifications
   SECURITY_LOGIN = 50,
@@ -51,6 +53,28 @@ export enum NotificationEntityType {
   HR_CERTIFICATION_EXPIRING = 68,
   HR_DOCUMENT_REQUIRES_ACKNOWLEDGMENT = 69,
   HR_ANALYTICS_ALERT = 70,
+
+  // Reputation notifications
+  REPUTATION_PLAYER_HANDLE_CHANGED = 120,
+  REPUTATION_PLAYER_ORG_CHANGED = 121,
+  REPUTATION_WATCHED_PLAYER_REPORTED = 122,
+  REPUTATION_WATCHED_PLAYER_TAGGED = 123,
+  REPUTATION_WATCHED_PLAYER_COMMENTED = 124,
+  REPUTATION_WATCHED_PLAYER_CORROBORATED = 125,
+  REPUTATION_WATCHED_ORG_REPORTED = 126,
+  REPUTATION_WATCHED_ORG_MEMBERSHIP_CHANGED = 127,
+
+  // HR interview notifications
+  HR_INTERVIEW_SCHEDULED = 130,
+  HR_INTERVIEW_REMINDER = 131,
+  HR_INTERVIEW_CANCELLED = 132,
+
+  // HR onboarding task notifications
+  HR_ONBOARDING_TASK_ASSIGNED = 133,
+
+  // HR Mentorship notifications
+  HR_MENTOR_ASSIGNED = 134,
+  HR_MENTORSHIP_CHECK_IN_REMINDER = 135,
 }
 
 // Core notification database entities
@@ -58,6 +82,8 @@ export interface NotificationObject {
   id: string;
   entity_type: NotificationEntityType;
   entity_id: string;
+  // Organization the notification belongs to, when it belongs to one
+  organization_id?: string | null;
   created_on: Date;
   status: number; // 1 = active, 0 = inactive
   created_at: Date;
@@ -70,6 +96,9 @@ export interface Notification {
   notifier_id: string;
   is_read: boolean;
   read_at?: Date;
+  // Set once the notification has been summarized in a digest
+  digested_at?: Date | null;
+  digest_id?: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -101,6 +130,7 @@ export interface CreateNotificationObjectData {
   entity_id: string;
   actor_id: string;
   notifier_ids: string[];
+  organization_id?: string;
 }
 
 export interface CreateNotificationData {
@@ -141,25 +171,179 @@ export interface NotificationTemplate {
 }
 
 // Notification preferences
-export interface NotificationPreferences {
+export type NotificationChannel = 'in_app' | 'discord_dm' | 'email_digest';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = [
+  'in_app',
+  'discord_dm',
+  'email_digest',
+];
+
+// Delivery for a type and channel the user has made no choice about.
+// Digests only go out once the user picks a digest frequency, so every type is included by default.
+export const DEFAULT_CHANNEL_PREFERENCES: Record<NotificationChannel, boolean> = {
+  in_app: true,
+  discord_dm: false,
+  email_digest: true,
+};
+
+export interface NotificationTypeInfo {
+  entity_type: NotificationEntityType;
+  label: string;
+  category: string;
+  // Channels that always deliver this type regardless of preferences
+  locked_channels: NotificationChannel[];
+}
+
+const describeType = (
+  entity_type: NotificationEntityType,
+  category: string,
+  label: string,
+  locked_channels: NotificationChannel[] = []
+): NotificationTypeInfo => ({ entity_type, category, label, locked_channels });
+
+export const NOTIFICATION_TYPES: NotificationTypeInfo[] = [
+  describeType(NotificationEntityType.ORGANIZATION_CREATED, 'Organizations', 'Organization created'),
+  describeType(NotificationEntityType.ORGANIZATION_UPDATED, 'Organizations', 'Organization updated'),
+  describeType(NotificationEntityType.ORGANIZATION_DELETED, 'Organizations', 'Organization deleted'),
+  describeType(NotificationEntityType.ORGANIZATION_JOINED, 'Organizations', 'Member joined'),
+  describeType(NotificationEntityType.ORGANIZATION_LEFT, 'Organizations', 'Member left'),
+  describeType(NotificationEntityType.ORGANIZATION_INVITED, 'Organizations', 'Invitations'),
+  describeType(NotificationEntityType.ORGANIZATION_ROLE_CHANGED, 'Organizations', 'Role changes'),
+  describeType(NotificationEntityType.EVENT_CREATED, 'Events', 'New events'),
+  describeType(NotificationEntityType.EVENT_UPDATED, 'Events', 'Event updates'),
+  describeType(NotificationEntityType.EVENT_DELETED, 'Events', 'Event cancellations'),
+  describeType(NotificationEntityType.EVENT_REGISTERED, 'Events', 'Registrations'),
+  describeType(NotificationEntityType.EVENT_UNREGISTERED, 'Events', 'Unregistrations'),
+  describeType(NotificationEntityType.EVENT_STARTING_SOON, 'Events', 'Event starting soon'),
+  describeType(NotificationEntityType.EVENT_REMINDER, 'Events', 'Event reminders'),
+  describeType(NotificationEntityType.EVENT_WAITLIST_PROMOTED, 'Events', 'Waitlist promotions'),
+  describeType(NotificationEntityType.COMMENT_CREATED, 'Comments', 'New comments'),
+  describeType(NotificationEntityType.COMMENT_UPDATED, 'Comments', 'Comment edits'),
+  describeType(NotificationEntityType.COMMENT_DELETED, 'Comments', 'Comment removals'),
+  describeType(NotificationEntityType.COMMENT_REPLIED, 'Comments', 'Replies'),
+  describeType(NotificationEntityType.COMMENT_VOTED, 'Comments', 'Comment votes'),
+  describeType(NotificationEntityType.USER_VERIFIED, 'Account', 'Account verified'),
+  describeType(NotificationEntityType.USER_PROFILE_UPDATED, 'Account', 'Profile updates'),
+  describeType(NotificationEntityType.SYSTEM_ANNOUNCEMENT, 'System', 'Announcements'),
+  describeType(NotificationEntityType.SYSTEM_MAINTENANCE, 'System', 'Maintenance'),
+  describeType(NotificationEntityType.SYSTEM_UPDATE, 'System', 'Platform updates'),
+  // Digests follow the digest frequency setting instead of per-channel choices
+  describeType(NotificationEntityType.SYSTEM_DIGEST, 'System', 'Notification digests', [
+    ...NOTIFICATION_CHANNELS,
+  ]),
+  describeType(NotificationEntityType.SECURITY_LOGIN, 'Security', 'New sign-ins', ['in_app']),
+  describeType(NotificationEntityType.SECURITY_PASSWORD_CHANGED, 'Security', 'Credential changes', ['in_app']),
+  describeType(NotificationEntityType.SECURITY_ACCOUNT_LOCKED, 'Security', 'Account locked', ['in_app']),
+  describeType(NotificationEntityType.HR_APPLICATION_SUBMITTED, 'HR', 'Applications submitted'),
+  describeType(NotificationEntityType.HR_APPLICATION_STATUS_CHANGED, 'HR', 'Application status'),
+  describeType(NotificationEntityType.HR_ONBOARDING_STARTED, 'HR', 'Onboarding started'),
+  describeType(NotificationEntityType.HR_ONBOARDING_COMPLETED, 'HR', 'Onboarding completed'),
+  describeType(NotificationEntityType.HR_ONBOARDING_OVERDUE, 'HR', 'Onboarding overdue'),
+  describeType(NotificationEntityType.HR_PERFORMANCE_REVIEW_DUE, 'HR', 'Performance reviews due'),
+  describeType(NotificationEntityType.HR_PERFORMANCE_REVIEW_SUBMITTED, 'HR', 'Performance reviews submitted'),
+  describeType(NotificationEntityType.HR_SKILL_VERIFIED, 'HR', 'Skill verifications'),
+  describeType(NotificationEntityType.HR_CERTIFICATION_EXPIRING, 'HR', 'Expiring certifications'),
+  describeType(NotificationEntityType.HR_DOCUMENT_REQUIRES_ACKNOWLEDGMENT, 'HR', 'Document acknowledgments'),
+  describeType(NotificationEntityType.HR_ANALYTICS_ALERT, 'HR', 'Analytics alerts'),
+  describeType(NotificationEntityType.HR_INTERVIEW_SCHEDULED, 'HR', 'Interviews scheduled'),
+  describeType(NotificationEntityType.HR_INTERVIEW_REMINDER, 'HR', 'Interview reminders'),
+  describeType(NotificationEntityType.HR_INTERVIEW_CANCELLED, 'HR', 'Interviews cancelled'),
+  describeType(NotificationEntityType.HR_ONBOARDING_TASK_ASSIGNED, 'HR', 'Onboarding tasks to complete'),
+  describeType(NotificationEntityType.HR_MENTOR_ASSIGNED, 'HR', 'Mentor assignments'),
+  describeType(NotificationEntityType.HR_MENTORSHIP_CHECK_IN_REMINDER, 'HR', 'Mentorship check-in reminders'),
+  describeType(NotificationEntityType.REPUTATION_PLAYER_HANDLE_CHANGED, 'Reputation', 'Watched player handle changes'),
+  describeType(NotificationEntityType.REPUTATION_PLAYER_ORG_CHANGED, 'Reputation', 'Watched player organization changes'),
+  describeType(NotificationEntityType.REPUTATION_WATCHED_PLAYER_REPORTED, 'Reputation', 'New reports on watched players'),
+  describeType(NotificationEntityType.REPUTATION_WATCHED_PLAYER_TAGGED, 'Reputation', 'New tags on watched players'),
+  describeType(NotificationEntityType.REPUTATION_WATCHED_PLAYER_COMMENTED, 'Reputation', 'New comments on watched players'),
+  describeType(NotificationEntityType.REPUTATION_WATCHED_PLAYER_CORROBORATED, 'Reputation', 'New corroborations on watched players'),
+  describeType(NotificationEntityType.REPUTATION_WATCHED_ORG_REPORTED, 'Reputation', 'New reports naming watched organizations'),
+  describeType(NotificationEntityType.REPUTATION_WATCHED_ORG_MEMBERSHIP_CHANGED, 'Reputation', 'Watched organization membership changes'),
+];
+
+export interface NotificationPreference {
+  id: string;
   user_id: string;
-  email_notifications: boolean;
-  push_notifications: boolean;
-  organization_updates: boolean;
-  event_reminders: boolean;
-  security_alerts: boolean;
-  marketing: boolean;
+  // NULL for the user's global preference, otherwise an override for one organization
+  organization_id: string | null;
+  entity_type: NotificationEntityType;
+  channel: NotificationChannel;
+  enabled: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+export type NotificationDigestFrequency = 'off' | 'daily' | 'weekly';
+
+export const NOTIFICATION_DIGEST_FREQUENCIES: NotificationDigestFrequency[] = [
+  'off',
+  'daily',
+  'weekly',
+];
+
+export interface NotificationSettings {
+  user_id: string;
+  timezone: string;
+  quiet_hours_enabled: boolean;
+  // HH:MM in the user's timezone
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  digest_frequency: NotificationDigestFrequency;
+}
+
+export interface NotificationDigest {
+  id: string;
+  user_id: string;
+  frequency: Exclude<NotificationDigestFrequency, 'off'>;
+  // First local day of the period the digest covers, as YYYY-MM-DD
+  period_start: string;
+  notification_count: number;
+  created_at: Date;
+}
+
+// Unread notifications summarized by a digest, counted per organization and type
+export interface NotificationDigestGroup {
+  rsi_org_id: string | null;
+  organization_name: string | null;
+  entity_type: NotificationEntityType;
+  label: string;
+  count: number;
+}
+
+// A preference as the API exposes it
+export interface NotificationPreferenceEntry {
+  // Spectrum ID of the organization the override applies to, null for the global preference
+  rsi_org_id: string | null;
+  entity_type: NotificationEntityType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export interface NotificationPreferencesResponse {
+  channels: NotificationChannel[];
+  defaults: Record<NotificationChannel, boolean>;
+  types: NotificationTypeInfo[];
+  preferences: NotificationPreferenceEntry[];
+  settings: NotificationSettings;
+}
+
+export interface NotificationPreferenceChange {
+  organization_id: string | null;
+  entity_type: NotificationEntityType;
+  channel: NotificationChannel;
+  // null clears the choice so the global preference or channel default applies again
+  enabled: boolean | null;
+}
+
 export interface UpdateNotificationPreferencesData {
-  email_notifications?: boolean;
-  push_notifications?: boolean;
-  organization_updates?: boolean;
-  event_reminders?: boolean;
-  security_alerts?: boolean;
-  marketing?: boolean;
+  preferences?: Array<{
+    rsi_org_id?: string | null;
+    entity_type: NotificationEntityType;
+    channel: NotificationChannel;
+    enabled: boolean | null;
+  }>;
+  settings?: Partial<Omit<NotificationSettings, 'user_id'>>;
 }
 
 // Notification statistics
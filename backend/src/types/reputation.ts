@@ -154,6 +154,7 @@ export interface PlayerDetails {
   comments: PlayerCommentWithAttestations[];
   reputationScore: number;
   confidenceLevel: 'low' | 'medium' | 'high';
+  reputationBreakdown: ReputationScoreBreakdown;
 }
 
 export interface PlayerSearchQuery {
@@ -330,4 +331,306 @@ export interface AffiliatedPeopleReportWithCorroborations extends AffiliatedPeop
     disagree: number;
     neutral: number;
   };
-}
\ No newline at end of file
+}
+// Moderation
+
+export type ReputationReportType =
+  | 'player'
+  | 'organization'
+  | 'alt_account'
+  | 'affiliated_people';
+
+export const REPUTATION_REPORT_TYPES: ReputationReportType[] = [
+  'player',
+  'organization',
+  'alt_account',
+  'affiliated_people',
+];
+
+export type ReputationReportStatus = 'pending' | 'approved' | 'rejected' | 'disputed';
+
+export type ReputationModeratorRole = 'moderator' | 'admin';
+
+export interface ReputationModerator {
+  user_id: string;
+  role: ReputationModeratorRole;
+  granted_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ReputationModerationActionType = 'approve' | 'reject' | 'appeal';
+
+// Audit record of a moderation decision or appeal
+export interface ReputationModerationAction {
+  id: string;
+  report_type: ReputationReportType;
+  report_id: string;
+  // NULL once the acting user's account is deleted
+  actor_id: string | null;
+  action: ReputationModerationActionType;
+  from_status: ReputationReportStatus;
+  to_status: ReputationReportStatus;
+  rationale: string;
+  created_at: Date;
+}
+
+export interface ModerationQueueQuery {
+  page?: number;
+  limit?: number;
+  status?: Array<'pending' | 'disputed'>;
+  report_types?: ReputationReportType[];
+  sort_order?: 'asc' | 'desc';
+}
+
+export interface ModerationQueueItem {
+  report_type: ReputationReportType;
+  id: string;
+  player_id: string;
+  player_handle?: string;
+  player_spectrum_id?: string;
+  reporter_id: string;
+  status: 'pending' | 'disputed';
+  // Title for player reports, otherwise the reported organization or handle
+  summary: string;
+  support_count: number;
+  dispute_count: number;
+  // Support minus dispute attestations (agree minus disagree corroborations)
+  balance: number;
+  created_at: Date;
+}
+
+export interface ModerateReportRequest {
+  decision: 'approve' | 'reject';
+  rationale: string;
+}
+
+export interface AppealReportRequest {
+  statement: string;
+}
+
+// Reputation Scoring
+export type ReputationConfidenceLevel = 'low' | 'medium' | 'high';
+
+export interface ReputationScoreFactor {
+  source: 'tag' | 'report';
+  id: string;
+  // Tag name or report title
+  label: string;
+  polarity: 'positive' | 'negative';
+  // Summed attester weights, before decay
+  support_weight: number;
+  dispute_weight: number;
+  // Multiplier applied for the item's age, 1 for brand new items
+  decay: number;
+  contribution: number;
+}
+
+export interface ReputationScoreBreakdown {
+  // Sum of all factor contributions, before being mapped onto the 0-100 scale
+  raw_score: number;
+  positive: number;
+  negative: number;
+  attestation_count: number;
+  // Sum of attester weights, which drives the confidence level
+  effective_attestations: number;
+  // Largest contributions first
+  factors: ReputationScoreFactor[];
+}
+
+export interface PlayerReputationScore {
+  player_id: string;
+  // 0-100, where 50 is neutral
+  score: number;
+  confidence: ReputationConfidenceLevel;
+  breakdown: ReputationScoreBreakdown;
+  is_stale: boolean;
+  computed_at: Date;
+}
+
+// Brigading Detection
+export type AttestationKind =
+  | 'comment'
+  | 'tag'
+  | 'player_report'
+  | 'organization_report'
+  | 'alt_account_report'
+  | 'affiliated_people_report';
+
+export type AttestationFlagReason = 'org_burst' | 'new_account' | 'suspected_alt';
+
+export type AttestationFlagStatus = 'held' | 'released' | 'discarded';
+
+export interface AttestationFlagEvidence {
+  org_burst?: {
+    organization_id: string;
+    organization_name: string;
+    window_minutes: number;
+    // Members of the organization who attested on the player inside the window
+    attester_ids: string[];
+    attestation_count: number;
+  };
+  new_account?: {
+    account_created_at: Date;
+    account_age_hours: number;
+  };
+  suspected_alt?: {
+    // Alt account reports that name the attester's handle or Spectrum ID
+    alt_account_report_ids: string[];
+    main_player_ids: string[];
+  };
+}
+
+export interface AttestationFlag {
+  id: string;
+  attestation_kind: AttestationKind;
+  attestation_id: string;
+  // Comment, tag or report the attestation was made on
+  item_id: string;
+  player_id: string;
+  attester_id: string | null;
+  reasons: AttestationFlagReason[];
+  evidence: AttestationFlagEvidence;
+  status: AttestationFlagStatus;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_note: string | null;
+  created_at: Date;
+}
+
+export interface AttestationFlagWithContext extends AttestationFlag {
+  attester_handle: string | null;
+  player_handle: string | null;
+  player_spectrum_id: string | null;
+}
+
+export interface ReviewAttestationFlagRequest {
+  decision: 'release' | 'discard';
+  note?: string;
+}
+
+// Watchlists
+export type WatchlistEntryType = 'player' | 'organization';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string;
+  // Set when the list is shared with an organization's members
+  organization_id: string | null;
+  is_default: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WatchlistWithCounts extends Watchlist {
+  organization_name: string | null;
+  entry_count: number;
+  can_manage: boolean;
+}
+
+export interface WatchlistEntry {
+  id: string;
+  watchlist_id: string;
+  entry_type: WatchlistEntryType;
+  player_id: string | null;
+  // Organizations are followed by their RSI SID
+  org_spectrum_id: string | null;
+  org_name: string | null;
+  note: string | null;
+  added_by: string | null;
+  created_at: Date;
+}
+
+export interface WatchlistEntryWithPlayer extends WatchlistEntry {
+  player_spectrum_id: string | null;
+  player_handle: string | null;
+  player_display_name: string | null;
+}
+
+export interface CreateWatchlistRequest {
+  name: string;
+  description?: string;
+  organization_id?: string;
+}
+
+export interface UpdateWatchlistRequest {
+  name?: string;
+  description?: string | null;
+}
+
+export interface AddWatchlistEntryRequest {
+  entry_type: WatchlistEntryType;
+  // Player entries take the player's Spectrum ID
+  spectrum_id?: string;
+  org_spectrum_id?: string;
+  org_name?: string;
+  note?: string;
+}
+
+export type WatchedPlayerEventType = 'report' | 'tag' | 'comment' | 'corroboration';
+
+export interface WatchedPlayerEvent {
+  type: WatchedPlayerEventType;
+  actor_id: string;
+  // Short description of what was added, e.g. the report title or tag name
+  summary: string;
+  item_id: string;
+}
+
+// Player vetting
+export type VettingStatus = 'found' | 'not_found' | 'unavailable';
+
+export type VettingRiskLevel = 'clear' | 'caution' | 'high';
+
+export interface VettingOrganization {
+  org_spectrum_id: string | null;
+  org_name: string;
+  role: string | null;
+  is_current: boolean;
+  first_observed_at: Date;
+  last_observed_at: Date;
+  // Organization reports naming this organization, against any player
+  approved_report_count: number;
+  open_report_count: number;
+}
+
+// Organization reports filed against the vetted player themselves
+export interface VettingAffiliationReport {
+  report_id: string;
+  org_spectrum_id: string;
+  org_name: string | null;
+  status: ReputationReportStatus;
+  corroboration_count: number;
+}
+
+export interface VettingAltAccount {
+  report_id: string;
+  // 'alt' names an alt of the vetted player, 'main' a player they were reported as an alt of
+  relation: 'alt' | 'main';
+  handle: string;
+  spectrum_id: string | null;
+  status: ReputationReportStatus;
+  corroboration_count: number;
+}
+
+export interface PlayerVettingSummary {
+  // The handle as it was asked for
+  handle: string;
+  status: VettingStatus;
+  player: Pick<ScPlayer, 'id' | 'spectrum_id' | 'current_handle' | 'current_display_name'> | null;
+  reputation: Pick<PlayerReputationScore, 'score' | 'confidence'> | null;
+  organizations: VettingOrganization[];
+  affiliation_reports: VettingAffiliationReport[];
+  alt_accounts: VettingAltAccount[];
+  risk_level: VettingRiskLevel;
+  // Why the risk level is what it is, most serious first
+  flags: string[];
+  vetted_at: Date;
+}
+
+export interface BatchVettingRequest {
+  // Handles as an array, or pasted as one string separated by commas, spaces or new lines
+  handles: string[] | string;
+}
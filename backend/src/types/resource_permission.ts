@@ -0,0 +1,54 @@
+export type ResourceType = 'document_folder' | 'document' | 'event';
+export type ResourceAction = 'view' | 'manage';
+export type OverrideSubjectType = 'role' | 'user';
+export type OverrideEffect = 'allow' | 'deny';
+
+export interface ResourcePermissionOverride {
+  id: string;
+  organization_id: string;
+  resource_type: ResourceType;
+  // Folder path for document folders, otherwise the document or event ID
+  resource_id: string;
+  subject_type: OverrideSubjectType;
+  subject_id: string;
+  action: ResourceAction;
+  effect: OverrideEffect;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateResourcePermissionOverrideData {
+  organization_id: string;
+  resource_type: ResourceType;
+  resource_id: string;
+  subject_type: OverrideSubjectType;
+  subject_id: string;
+  action?: ResourceAction;
+  effect: OverrideEffect;
+  created_by?: string;
+}
+
+export interface ResourceScope {
+  resource_type: ResourceType;
+  resource_id: string;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+export interface EffectiveAccess extends AccessDecision {
+  user_id: string;
+  resource_type: ResourceType;
+  resource_id: string;
+  action: ResourceAction;
+  source: 'owner' | 'creator' | 'override' | 'default';
+  // The entry that decided the outcome when source is 'override'
+  override?: ResourcePermissionOverride;
+  // Outcome from org-wide permissions before overrides were applied
+  default_access: AccessDecision;
+  // Every entry that applied to this user, most specific first
+  applicable_overrides: ResourcePermissionOverride[];
+}
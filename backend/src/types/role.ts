@@ -41,8 +41,9 @@ export interface OrganizationMemberWithRole {
   id: string;
   organization_id: string;
   user_id: string;
-  role_id: string;
+  role_id: string; // Highest-ranked role
   role?: OrganizationRole;
+  roles?: OrganizationRole[]; // Every role the member holds, highest rank first
   is_active: boolean;
   joined_at: Date;
   last_activity_at?: Date;
@@ -97,6 +98,9 @@ export const ORGANIZATION_PERMISSIONS = {
   VIEW_ANALYTICS: 'view_analytics',
   VIEW_REPORTS: 'view_reports',
 
+  // Reputation watchlists shared with the organization
+  MANAGE_WATCHLISTS: 'manage_watchlists',
+
   // HR Management permissions
   HR_MANAGER: 'hr_manager',
   HR_RECRUITER: 'hr_recruiter',
@@ -175,6 +179,7 @@ export const DEFAULT_ROLE_CONFIGS = {
       ORGANIZATION_PERMISSIONS.UPDATE_DISCORD_INTEGRATION,
       ORGANIZATION_PERMISSIONS.VIEW_ANALYTICS,
       ORGANIZATION_PERMISSIONS.VIEW_REPORTS,
+      ORGANIZATION_PERMISSIONS.MANAGE_WATCHLISTS,
     ],
   },
   MEMBER: {
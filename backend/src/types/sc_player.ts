@@ -6,6 +6,9 @@ export interface ScPlayer {
   first_observed_at: Date;
   last_observed_at: Date;
   last_spectrum_sync_at?: Date;
+  next_sync_at?: Date | null;
+  last_viewed_at?: Date | null;
+  sync_failure_count: number;
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -26,6 +29,8 @@ export interface UpdateScPlayerData {
   current_display_name?: string;
   last_observed_at?: Date;
   last_spectrum_sync_at?: Date;
+  next_sync_at?: Date | null;
+  sync_failure_count?: number;
   is_active?: boolean;
 }
 
@@ -67,4 +72,28 @@ export interface CreatePlayerOrgHistoryData {
   first_observed_at?: Date;
   last_observed_at?: Date;
   is_current?: boolean;
-}
\ No newline at end of file
+}
+
+export interface UpdatePlayerOrgHistoryData {
+  role?: string;
+  last_observed_at?: Date;
+  is_current?: boolean;
+}
+
+// What the sync schedule looks at to decide how soon a player is synced again
+export interface PlayerSyncActivity {
+  last_viewed_at: Date | null;
+  last_reported_at: Date | null;
+  watcher_count: number;
+}
+
+export interface PlayerSyncChanges {
+  handle?: { from: string; to: string };
+  joined_orgs: PlayerOrgHistory[];
+  left_orgs: PlayerOrgHistory[];
+}
+
+export type PlayerSyncResult =
+  | { status: 'synced'; player: ScPlayer; changes: PlayerSyncChanges }
+  | { status: 'not_found' }
+  | { status: 'rate_limited'; retry_at: Date };
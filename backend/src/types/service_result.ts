@@ -0,0 +1,11 @@
+/**
+ * Outcome of a service call that can fail for expected reasons.
+ * Controllers map the failure codes to 404, 403 and 409 responses.
+ */
+export type ServiceResult<T> =
+  | { success: true; data: T }
+  | {
+      success: false;
+      code: 'not_found' | 'forbidden' | 'conflict';
+      error: string;
+    };
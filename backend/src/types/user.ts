@@ -10,6 +10,7 @@ export interface User {
   verification_code_expires_at?: Date;
   is_active: boolean;
   last_login_at?: Date;
+  deleted_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -46,3 +47,73 @@ export interface DiscordProfile {
   avatar?: string;
   email?: string;
 }
+
+// Account lifecycle
+
+export type AccountDeletionStatus =
+  | 'pending'
+  | 'cancelled'
+  | 'completed'
+  | 'blocked';
+
+export interface OrganizationTransfer {
+  organization_id: string;
+  new_owner_id: string;
+}
+
+export interface AccountDeletionRequest {
+  id: string;
+  user_id: string;
+  status: AccountDeletionStatus;
+  reason: string | null;
+  organization_transfers: OrganizationTransfer[];
+  scheduled_for: Date;
+  cancelled_at: Date | null;
+  completed_at: Date | null;
+  blocked_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateAccountDeletionRequest {
+  reason?: string;
+  organization_transfers?: OrganizationTransfer[];
+}
+
+export interface OwnedOrganization {
+  id: string;
+  name: string;
+  rsi_org_id: string;
+  // Active members who could take over the organization
+  transfer_candidates: { id: string; rsi_handle: string }[];
+}
+
+export interface AccountDeletionStatusResponse {
+  request: AccountDeletionRequest | null;
+  owned_organizations: OwnedOrganization[];
+  grace_period_days: number;
+}
+
+export interface AccountDataExport {
+  exported_at: Date;
+  profile: Omit<User, 'verification_code' | 'verification_code_expires_at'>;
+  organizations: {
+    memberships: Record<string, unknown>[];
+    owned: Record<string, unknown>[];
+    ratings: Record<string, unknown>[];
+    upvotes: Record<string, unknown>[];
+  };
+  events: {
+    registrations: Record<string, unknown>[];
+    created: Record<string, unknown>[];
+    reviews: Record<string, unknown>[];
+  };
+  comments: {
+    comments: Record<string, unknown>[];
+    votes: Record<string, unknown>[];
+  };
+  reputation: Record<string, Record<string, unknown>[]>;
+  hr: Record<string, Record<string, unknown>[]>;
+  notification_preferences: Record<string, unknown>[];
+  watchlists: Record<string, unknown>[];
+}
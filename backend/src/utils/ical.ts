@@ -0,0 +1,144 @@
+/**
+ * iCalendar (RFC 5545) serialization for event feeds
+ * Each event keeps a stable UID so calendar clients replace entries on update
+ */
+
+import { Event } from '../types/event';
+
+const PRODUCT_ID = '-//SC-Orgs//Event Calendar//EN';
+const UID_DOMAIN = 'sc-orgs';
+
+// Content lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalendarEvent extends Event {
+  // Set for personal feeds; waitlisted registrations are shown as tentative
+  registration_status?: string;
+}
+
+export interface ICalendarOptions {
+  name: string;
+  description?: string;
+  eventUrlBase?: string;
+}
+
+/**
+ * Build a complete VCALENDAR document for a list of events
+ */
+export function buildICalendar(
+  events: ICalendarEvent[],
+  options: ICalendarOptions
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.description
+      ? [`X-WR-CALDESC:${escapeText(options.description)}`]
+      : []),
+    // Hint to clients how often to refresh the subscription
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    lines.push(...buildVEvent(event, options));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Stable UID for an event; never derived from mutable fields
+ */
+export function getEventUid(eventId: string): string {
+  return `${eventId}@${UID_DOMAIN}`;
+}
+
+function buildVEvent(
+  event: ICalendarEvent,
+  options: ICalendarOptions
+): string[] {
+  const lastModified = new Date(event.updated_at || event.created_at);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event.id)}`,
+    `DTSTAMP:${formatDate(lastModified)}`,
+    `LAST-MODIFIED:${formatDate(lastModified)}`,
+    `CREATED:${formatDate(new Date(event.created_at))}`,
+    `DTSTART:${formatDate(new Date(event.start_time))}`,
+    `DTEND:${formatDate(new Date(event.end_time))}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `STATUS:${getEventStatus(event)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+
+  if (options.eventUrlBase) {
+    lines.push(`URL:${options.eventUrlBase}/events/${event.id}`);
+  }
+
+  lines.push(`CLASS:${event.is_public ? 'PUBLIC' : 'PRIVATE'}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+function getEventStatus(event: ICalendarEvent): string {
+  if (!event.is_active) return 'CANCELLED';
+  if (event.registration_status === 'waitlisted') return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char, 'utf8');
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
@@ -75,6 +75,9 @@ export class NotificationSerializer {
         case NotificationEntityType.EVENT_REMINDER:
           return await this.generateEventReminderContent(entityId, customData);
 
+        case NotificationEntityType.EVENT_WAITLIST_PROMOTED:
+          return await this.generateEventWaitlistPromotedContent(entityId);
+
         case NotificationEntityType.ORGANIZATION_CREATED:
           return await this.generateOrganizationCreatedContent(
             entityId,
@@ -240,6 +243,23 @@ export class NotificationSerializer {
     };
   }
 
+  private static async generateEventWaitlistPromotedContent(
+    eventId: string
+  ): Promise<NotificationContent> {
+    const event = await this.eventModel.findById(eventId);
+    if (!event) {
+      return {
+        title: "You're Off the Waitlist",
+        message: 'A seat opened up for an event you were waitlisted for',
+      };
+    }
+
+    return {
+      title: "You're Off the Waitlist",
+      message: `A seat opened up for "${event.title}"`,
+    };
+  }
+
   private static async generateEventReminderContent(
     entityId: string,
     customData?: any
@@ -0,0 +1,257 @@
+/**
+ * Recurrence rule utilities for recurring event series
+ * Rules follow a small RRULE-style subset: weekly, biweekly and monthly-by-weekday
+ * Occurrences keep the UTC time of day of the series start
+ */
+
+import { EventRecurrenceRule } from '../types/event';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Hard cap on generated occurrences to protect against runaway rules
+const MAX_ITERATIONS = 1000;
+
+export const VALID_RECURRENCE_FREQUENCIES = [
+  'weekly',
+  'biweekly',
+  'monthly',
+] as const;
+
+/**
+ * Validate a recurrence rule and return a list of error messages
+ */
+export function validateRecurrenceRule(rule: any): string[] {
+  const errors: string[] = [];
+
+  if (!rule || typeof rule !== 'object') {
+    return ['Recurrence rule must be an object'];
+  }
+
+  if (!VALID_RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    errors.push(
+      `Recurrence frequency must be one of: ${VALID_RECURRENCE_FREQUENCIES.join(', ')}`
+    );
+  }
+
+  if (rule.by_weekday !== undefined) {
+    if (
+      !Array.isArray(rule.by_weekday) ||
+      rule.by_weekday.length === 0 ||
+      rule.by_weekday.some(
+        (day: any) => !Number.isInteger(day) || day < 0 || day > 6
+      )
+    ) {
+      errors.push('by_weekday must be a non-empty array of weekdays (0-6)');
+    }
+  }
+
+  if (rule.week_of_month !== undefined) {
+    if (
+      !Number.isInteger(rule.week_of_month) ||
+      rule.week_of_month === 0 ||
+      rule.week_of_month < -1 ||
+      rule.week_of_month > 4
+    ) {
+      errors.push('week_of_month must be 1-4, or -1 for the last week');
+    }
+  }
+
+  if (rule.frequency === 'monthly' && rule.by_weekday?.length > 1) {
+    errors.push('Monthly recurrence supports a single weekday');
+  }
+
+  if (rule.count !== undefined) {
+    if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > 365) {
+      errors.push('count must be between 1 and 365');
+    }
+  }
+
+  if (rule.until !== undefined && isNaN(new Date(rule.until).getTime())) {
+    errors.push('until must be a valid date');
+  }
+
+  if (rule.exceptions !== undefined) {
+    if (
+      !Array.isArray(rule.exceptions) ||
+      rule.exceptions.some((date: any) => isNaN(new Date(date).getTime()))
+    ) {
+      errors.push('exceptions must be an array of valid dates');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in rule defaults derived from the series start time
+ */
+export function normalizeRecurrenceRule(
+  rule: EventRecurrenceRule,
+  seriesStart: Date
+): EventRecurrenceRule {
+  const normalized: EventRecurrenceRule = {
+    ...rule,
+    by_weekday:
+      rule.by_weekday && rule.by_weekday.length > 0
+        ? [...new Set(rule.by_weekday)].sort((a, b) => a - b)
+        : [seriesStart.getUTCDay()],
+    exceptions: (rule.exceptions || []).map(date =>
+      new Date(date).toISOString()
+    ),
+  };
+
+  if (rule.frequency === 'monthly' && rule.week_of_month === undefined) {
+    normalized.week_of_month = Math.ceil(seriesStart.getUTCDate() / 7);
+    if (normalized.week_of_month > 4) {
+      normalized.week_of_month = -1;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Expand a recurrence rule into occurrence start times within [windowStart, windowEnd]
+ * Counting always begins at the series start so `count` is stable across windows
+ */
+export function expandRecurrence(
+  rule: EventRecurrenceRule,
+  seriesStart: Date,
+  windowStart: Date,
+  windowEnd: Date
+): Date[] {
+  const normalized = normalizeRecurrenceRule(rule, seriesStart);
+  const until = normalized.until ? new Date(normalized.until) : null;
+  const exceptions = new Set(
+    (normalized.exceptions || []).map(date => new Date(date).getTime())
+  );
+  const occurrences: Date[] = [];
+
+  const candidates =
+    normalized.frequency === 'monthly'
+      ? monthlyCandidates(normalized, seriesStart)
+      : weeklyCandidates(normalized, seriesStart);
+
+  let generated = 0;
+  for (const candidate of candidates) {
+    if (candidate > windowEnd) break;
+    if (until && candidate > until) break;
+    if (normalized.count !== undefined && generated >= normalized.count) break;
+
+    // Excluded dates still consume a slot in the count, as in RFC 5545
+    generated++;
+
+    if (exceptions.has(candidate.getTime())) continue;
+    if (candidate < windowStart) continue;
+
+    occurrences.push(candidate);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Render a rule as an RFC 5545 RRULE string (without the "RRULE:" prefix)
+ */
+export function toRRuleString(rule: EventRecurrenceRule): string {
+  const parts: string[] = [];
+  const weekdays = (rule.by_weekday || []).map(day => RRULE_WEEKDAYS[day]);
+
+  if (rule.frequency === 'monthly') {
+    parts.push('FREQ=MONTHLY');
+    if (weekdays.length > 0) {
+      parts.push(`BYDAY=${rule.week_of_month ?? 1}${weekdays[0]}`);
+    }
+  } else {
+    parts.push('FREQ=WEEKLY');
+    if (rule.frequency === 'biweekly') {
+      parts.push('INTERVAL=2');
+    }
+    if (weekdays.length > 0) {
+      parts.push(`BYDAY=${weekdays.join(',')}`);
+    }
+  }
+
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${formatRRuleDate(new Date(rule.until))}`);
+  }
+
+  return parts.join(';');
+}
+
+function formatRRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function* weeklyCandidates(
+  rule: EventRecurrenceRule,
+  seriesStart: Date
+): Generator<Date> {
+  const interval = rule.frequency === 'biweekly' ? 2 : 1;
+  const weekdays = rule.by_weekday || [seriesStart.getUTCDay()];
+
+  // Anchor on the Sunday of the series start week, keeping the time of day
+  const weekAnchor = new Date(
+    seriesStart.getTime() - seriesStart.getUTCDay() * DAY_MS
+  );
+
+  for (let week = 0; week < MAX_ITERATIONS; week += interval) {
+    const weekStart = weekAnchor.getTime() + week * WEEK_MS;
+    for (const day of weekdays) {
+      const candidate = new Date(weekStart + day * DAY_MS);
+      if (candidate >= seriesStart) {
+        yield candidate;
+      }
+    }
+  }
+}
+
+function* monthlyCandidates(
+  rule: EventRecurrenceRule,
+  seriesStart: Date
+): Generator<Date> {
+  const weekday = (rule.by_weekday || [seriesStart.getUTCDay()])[0];
+  const weekOfMonth = rule.week_of_month ?? 1;
+
+  for (let month = 0; month < MAX_ITERATIONS; month++) {
+    const candidate = nthWeekdayOfMonth(
+      seriesStart.getUTCFullYear(),
+      seriesStart.getUTCMonth() + month,
+      weekday,
+      weekOfMonth,
+      seriesStart
+    );
+    if (candidate >= seriesStart) {
+      yield candidate;
+    }
+  }
+}
+
+function nthWeekdayOfMonth(
+  year: number,
+  month: number,
+  weekday: number,
+  weekOfMonth: number,
+  timeOfDay: Date
+): Date {
+  const time = [
+    timeOfDay.getUTCHours(),
+    timeOfDay.getUTCMinutes(),
+    timeOfDay.getUTCSeconds(),
+    timeOfDay.getUTCMilliseconds(),
+  ] as const;
+
+  if (weekOfMonth === -1) {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0, ...time));
+    const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+    return new Date(lastDay.getTime() - offset * DAY_MS);
+  }
+
+  const firstDay = new Date(Date.UTC(year, month, 1, ...time));
+  const offset = (weekday - firstDay.getUTCDay() + 7) % 7;
+  return new Date(firstDay.getTime() + (offset + (weekOfMonth - 1) * 7) * DAY_MS);
+}
@@ -33,6 +33,14 @@ export function generateTemporaryRsiHandle(userId: string): string {
   }
 }
 
+/**
+ * Generates the placeholder handle a deleted account is shown under
+ * Format: deleted_XXXXXXXX, derived from the user ID the same way as temporary handles
+ */
+export function generateDeletedUserHandle(userId: string): string {
+  return generateTemporaryRsiHandle(userId).replace(/^user_/, 'deleted_');
+}
+
 /**
  * Checks if an RSI handle is a temporary generated handle (vs a real RSI handle)
  */
@@ -15,6 +15,7 @@ import LoginPage from './pages/LoginPage';
 import DashboardPage from './pages/DashboardPage';
 import OrganizationsPage from './pages/OrganizationsPage';
 import ReputationPage from './pages/ReputationPage';
+import WatchlistPage from './pages/WatchlistPage';
 import PlayerProfilePage from './pages/PlayerProfilePage';
 import EventsPage from './pages/EventsPage';
 import ProfilePage from './pages/ProfilePage';
@@ -213,6 +214,7 @@ const AppContent: React.FC = () => {
         {/* Reputation routes */}
         <Route path='/reputation' element={<ReputationPage />} />
         <Route path='/reputation/players/:spectrumId' element={<PlayerProfilePage />} />
+        <Route path='/reputation/watchlists' element={<WatchlistPage />} />
 
         {/* Event routes */}
         <Route path='/events' element={<EventsPage />} />
@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button, Paper, SectionTitle, Checkbox } from '../ui';
+import {
+  useGetEventAttendanceQuery,
+  useMarkEventAttendanceMutation,
+  useOpenEventCheckInMutation,
+  useCloseEventCheckInMutation,
+} from '../../services/apiSlice';
+import type {
+  EventAttendanceRosterEntry,
+  EventAttendanceStatus,
+} from '../../types/event';
+import {
+  ClipboardDocumentCheckIcon,
+  CheckIcon,
+  XMarkIcon,
+  KeyIcon,
+  UserIcon,
+} from '@heroicons/react/24/outline';
+
+interface EventAttendanceRosterProps {
+  eventId: string;
+  hasStarted: boolean;
+  hasEnded: boolean;
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  attended: {
+    label: 'Attended',
+    className: 'bg-green-900/30 text-green-300 border border-green-400/20',
+  },
+  no_show: {
+    label: 'No-show',
+    className: 'bg-red-900/30 text-red-300 border border-red-400/20',
+  },
+};
+
+const UNMARKED_STYLE = {
+  label: 'Not marked',
+  className: 'bg-white/5 text-white/60 border border-white/10',
+};
+
+const EventAttendanceRoster: React.FC<EventAttendanceRosterProps> = ({
+  eventId,
+  hasStarted,
+  hasEnded,
+}) => {
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const { data, isLoading } = useGetEventAttendanceQuery(eventId, {
+    skip: !eventId,
+  });
+  const [markAttendance, { isLoading: isMarking }] =
+    useMarkEventAttendanceMutation();
+  const [openCheckIn, { isLoading: isOpening }] = useOpenEventCheckInMutation();
+  const [closeCheckIn, { isLoading: isClosing }] =
+    useCloseEventCheckInMutation();
+
+  const roster = data?.roster || [];
+  const summary = data?.summary;
+  const checkInCode = data?.check_in_code;
+  const allSelected =
+    roster.length > 0 && selectedUserIds.length === roster.length;
+
+  const toggleUser = (userId: string, checked: boolean) => {
+    setSelectedUserIds(prev =>
+      checked ? [...prev, userId] : prev.filter(id => id !== userId)
+    );
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedUserIds(checked ? roster.map(entry => entry.user_id) : []);
+  };
+
+  const handleMark = async (status: EventAttendanceStatus) => {
+    if (selectedUserIds.length === 0) return;
+
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const result = await markAttendance({
+        eventId,
+        userIds: selectedUserIds,
+        status,
+      }).unwrap();
+      setSuccess(result.message);
+      setSelectedUserIds([]);
+    } catch (error: any) {
+      setError(error?.data?.error || 'Failed to mark attendance');
+    }
+  };
+
+  const handleOpenCheckIn = async () => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await openCheckIn({ eventId }).unwrap();
+    } catch (error: any) {
+      setError(error?.data?.error || 'Failed to open check-in');
+    }
+  };
+
+  const handleCloseCheckIn = async () => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await closeCheckIn({ eventId }).unwrap();
+    } catch (error: any) {
+      setError(error?.data?.error || 'Failed to close check-in');
+    }
+  };
+
+  const getStatusStyle = (entry: EventAttendanceRosterEntry) =>
+    STATUS_STYLES[entry.status] || UNMARKED_STYLE;
+
+  return (
+    <Paper variant='glass' size='lg'>
+      <div className='flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4'>
+        <div className='flex items-center'>
+          <ClipboardDocumentCheckIcon className='w-6 h-6 mr-3 text-secondary' />
+          <SectionTitle>Attendance</SectionTitle>
+        </div>
+        {summary && (
+          <div className='flex flex-wrap gap-4 text-sm text-white/70'>
+            <span>
+              <span className='font-semibold text-green-300'>
+                {summary.attended}
+              </span>{' '}
+              attended
+            </span>
+            <span>
+              <span className='font-semibold text-red-300'>
+                {summary.no_shows}
+              </span>{' '}
+              no-shows
+            </span>
+            <span>
+              <span className='font-semibold text-white'>
+                {summary.unmarked}
+              </span>{' '}
+              not marked
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Check-in code */}
+      {!hasEnded && (
+        <div className='bg-blue-900/20 border border-blue-400/20 rounded-lg p-4 mb-6'>
+          {checkInCode ? (
+            <div className='flex flex-col md:flex-row md:items-center md:justify-between gap-4'>
+              <div>
+                <p className='text-sm text-blue-300'>
+                  Share this code with participants so they can check in here or
+                  with <span className='font-mono'>/scorgs checkin</span> on
+                  Discord.
+                </p>
+                <p className='font-mono text-3xl tracking-[0.3em] text-white mt-2'>
+                  {checkInCode.code}
+                </p>
+                <p className='text-xs text-white/60 mt-1'>
+                  Expires at{' '}
+                  {new Date(checkInCode.expires_at).toLocaleTimeString()}
+                </p>
+              </div>
+              <div className='flex gap-2'>
+                <Button
+                  variant='outline'
+                  size='sm'
+                  onClick={handleOpenCheckIn}
+                  disabled={isOpening}
+                >
+                  New Code
+                </Button>
+                <Button
+                  variant='secondary'
+                  size='sm'
+                  onClick={handleCloseCheckIn}
+                  disabled={isClosing}
+                >
+                  Close Check-in
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className='flex flex-col md:flex-row md:items-center md:justify-between gap-4'>
+              <p className='text-sm text-blue-300'>
+                Open check-in to generate a short-lived code participants can
+                use to mark themselves as attended.
+              </p>
+              <Button
+                variant='primary'
+                size='sm'
+                onClick={handleOpenCheckIn}
+                disabled={isOpening}
+              >
+                <KeyIcon className='w-4 h-4 mr-2' />
+                Open Check-in
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {success && (
+        <div className='bg-green-900/20 border border-green-400/20 rounded-lg p-4 mb-4'>
+          <p className='text-sm text-green-300'>{success}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className='bg-red-900/20 border border-red-400/20 rounded-lg p-4 mb-4'>
+          <p className='text-sm text-red-300'>{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className='text-center py-8'>
+          <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto'></div>
+          <p className='text-gray-400 mt-2'>Loading roster...</p>
+        </div>
+      ) : roster.length === 0 ? (
+        <p className='text-white/60 text-center py-8'>
+          No one is registered for this event yet.
+        </p>
+      ) : (
+        <>
+          <div className='flex flex-col md:flex-row md:items-center md:justify-between gap-4 pb-4 border-b border-white/10'>
+            <Checkbox
+              checked={allSelected}
+              onChange={toggleAll}
+              label={`Select all (${selectedUserIds.length}/${roster.length})`}
+              size='sm'
+            />
+            <div className='flex gap-2'>
+              <Button
+                variant='primary'
+                size='sm'
+                onClick={() => handleMark('attended')}
+                disabled={!hasStarted || isMarking || !selectedUserIds.length}
+              >
+                <CheckIcon className='w-4 h-4 mr-2' />
+                Mark Attended
+              </Button>
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => handleMark('no_show')}
+                disabled={!hasStarted || isMarking || !selectedUserIds.length}
+              >
+                <XMarkIcon className='w-4 h-4 mr-2' />
+                Mark No-show
+              </Button>
+            </div>
+          </div>
+          {!hasStarted && (
+            <p className='text-xs text-white/60 mt-2'>
+              Attendance can be recorded once the event has started.
+            </p>
+          )}
+
+          <ul className='divide-y divide-white/10'>
+            {roster.map(entry => {
+              const statusStyle = getStatusStyle(entry);
+              return (
+                <li
+                  key={entry.id}
+                  className='flex items-center justify-between py-3'
+                >
+                  <div className='flex items-center gap-3'>
+                    <Checkbox
+                      checked={selectedUserIds.includes(entry.user_id)}
+                      onChange={checked => toggleUser(entry.user_id, checked)}
+                      size='sm'
+                    />
+                    {entry.avatar_url ? (
+                      <img
+                        src={entry.avatar_url}
+                        alt={entry.username}
+                        className='w-8 h-8 rounded-lg object-cover'
+                      />
+                    ) : (
+                      <div className='w-8 h-8 rounded-lg bg-white/10 flex items-center justify-center'>
+                        <UserIcon className='w-4 h-4 text-white' />
+                      </div>
+                    )}
+                    <Link
+                      to={`/profile/${entry.username}`}
+                      className='text-white text-sm font-semibold hover:text-brand-secondary transition-colors'
+                    >
+                      {entry.username}
+                    </Link>
+                  </div>
+                  <div className='flex items-center gap-3'>
+                    {entry.checked_in_at && (
+                      <span className='text-xs text-white/60'>
+                        {new Date(entry.checked_in_at).toLocaleTimeString()}
+                      </span>
+                    )}
+                    <span
+                      className={`text-xs px-2 py-1 rounded-full ${statusStyle.className}`}
+                    >
+                      {statusStyle.label}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default EventAttendanceRoster;
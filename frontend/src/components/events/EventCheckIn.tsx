@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Button, Input, Paper } from '../ui';
+import { useCheckInToEventMutation } from '../../services/apiSlice';
+import { CheckCircleIcon, KeyIcon } from '@heroicons/react/24/outline';
+
+interface EventCheckInProps {
+  eventId: string;
+  checkedInAt?: string | null | undefined;
+}
+
+const EventCheckIn: React.FC<EventCheckInProps> = ({
+  eventId,
+  checkedInAt,
+}) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const [checkIn, { isLoading }] = useCheckInToEventMutation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setError(null);
+
+    try {
+      await checkIn({ eventId, code: code.trim() }).unwrap();
+      setCode('');
+    } catch (error: any) {
+      setError(error?.data?.error || 'Failed to check in');
+    }
+  };
+
+  if (checkedInAt) {
+    return (
+      <Paper variant='glass' size='md'>
+        <div className='flex items-center'>
+          <CheckCircleIcon className='w-5 h-5 mr-3 text-green-300' />
+          <p className='text-white/80'>
+            You checked in at{' '}
+            <span className='font-semibold text-white'>
+              {new Date(checkedInAt).toLocaleTimeString()}
+            </span>
+            .
+          </p>
+        </div>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper variant='glass' size='md'>
+      <form
+        onSubmit={handleSubmit}
+        className='flex flex-col md:flex-row md:items-center md:justify-between gap-4'
+      >
+        <div className='flex items-center'>
+          <KeyIcon className='w-5 h-5 mr-3 text-secondary' />
+          <p className='text-white/80'>
+            This event is underway. Enter the check-in code from the organizer
+            to record your attendance.
+          </p>
+        </div>
+        <div className='flex gap-2'>
+          <Input
+            value={code}
+            onChange={value => setCode(value.toUpperCase())}
+            placeholder='Code'
+            disabled={isLoading}
+            error={error || undefined}
+            className='font-mono tracking-widest w-36'
+          />
+          <Button
+            type='submit'
+            variant='primary'
+            disabled={isLoading || !code.trim()}
+          >
+            Check In
+          </Button>
+        </div>
+      </form>
+    </Paper>
+  );
+};
+
+export default EventCheckIn;
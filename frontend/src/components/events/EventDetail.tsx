@@ -17,6 +17,8 @@ import {
   useGetEventQuery,
   useRegisterForEventMutation,
   useUnregisterFromEventMutation,
+  useGetMyEventRegistrationQuery,
+  useConfirmEventRegistrationMutation,
   useGetEventRegistrationsQuery,
   useGetOrganizationQuery,
   useDeleteEventMutation,
@@ -28,6 +30,9 @@ import { useAuth } from '../../contexts/AuthContext';
 import EventReviewsList from './EventReviewsList';
 import ReviewEligibilityButton from './ReviewEligibilityButton';
 import EventOwnerNotificationForm from './EventOwnerNotificationForm';
+import EventAttendanceRoster from './EventAttendanceRoster';
+import EventCheckIn from './EventCheckIn';
+import EventSlotRoster from './EventSlotRoster';
 import {
   CalendarIcon,
   PencilIcon,
@@ -75,6 +80,8 @@ const EventDetail: React.FC<EventDetailProps> = () => {
     useRegisterForEventMutation();
   const [unregisterFromEvent, { isLoading: isUnregistering }] =
     useUnregisterFromEventMutation();
+  const [confirmEventRegistration, { isLoading: isConfirming }] =
+    useConfirmEventRegistrationMutation();
   const [deleteEvent, { isLoading: isDeleting }] = useDeleteEventMutation();
   const [markEventNotificationsAsRead] =
     useMarkEventNotificationsAsReadMutation();
@@ -82,8 +89,19 @@ const EventDetail: React.FC<EventDetailProps> = () => {
   const { data: registrationsData, isLoading: registrationsLoading } =
     useGetEventRegistrationsQuery(id || '', { skip: !id });
 
-  const registrations = registrationsData?.data || [];
+  const { data: myRegistration } = useGetMyEventRegistrationQuery(id || '', {
+    skip: !id || !isAuthenticated,
+  });
+
+  // Waitlisted users don't hold a seat, so they are listed separately
+  const allRegistrations = registrationsData?.data || [];
+  const registrations = allRegistrations.filter(
+    (reg: any) => reg.status !== 'waitlisted'
+  );
+  const waitlistCount = allRegistrations.length - registrations.length;
   const participantCount = registrations.length;
+  const isWaitlisted = myRegistration?.status === 'waitlisted';
+  const hasPendingConfirmation = !!myRegistration?.confirmation_expires_at;
 
   // Fetch organization data separately using Spectrum ID
   const { data: organization, isLoading: organizationLoading } =
@@ -123,15 +141,15 @@ const EventDetail: React.FC<EventDetailProps> = () => {
     }
   }, [event, user, id, markEventNotificationsAsRead]);
 
-  // Check if user is registered for this event
+  // Check if user is registered (or waitlisted) for this event
   useEffect(() => {
-    if (registrations && user) {
-      const userRegistration = registrations.find(
+    if (allRegistrations && user) {
+      const userRegistration = allRegistrations.find(
         (reg: any) => reg.user_id === user.id
       );
       setHasJoined(!!userRegistration);
     }
-  }, [registrations, user]);
+  }, [allRegistrations, user]);
 
   const handleEdit = () => {
     navigate(`/events/${id}/edit`);
@@ -201,6 +219,16 @@ const EventDetail: React.FC<EventDetailProps> = () => {
     }
   };
 
+  const handleConfirmSeat = async () => {
+    if (!id) return;
+
+    try {
+      await confirmEventRegistration({ eventId: id }).unwrap();
+    } catch (error) {
+      console.error('Failed to confirm seat:', error);
+    }
+  };
+
   const handleLeaveEvent = async () => {
     if (!id) return;
 
@@ -308,6 +336,20 @@ const EventDetail: React.FC<EventDetailProps> = () => {
     );
   }
 
+  const isEventFull =
+    !!event.max_participants && participantCount >= event.max_participants;
+
+  // Seated participants can check themselves in while the event is running
+  const hasEventEnded =
+    !!event.end_time && new Date(event.end_time) < new Date();
+  const canCheckIn =
+    !!myRegistration &&
+    ['registered', 'confirmed', 'no_show', 'attended'].includes(
+      myRegistration.status
+    ) &&
+    isEventPast(event) &&
+    !hasEventEnded;
+
   const headerActions = (
     <div className='flex items-center gap-[var(--spacing-element)]'>
       <Link to='/events'>
@@ -331,12 +373,12 @@ const EventDetail: React.FC<EventDetailProps> = () => {
             ) : hasJoined ? (
               <>
                 <XMarkIcon className='w-5 h-5 mr-2' />
-                Leave Event
+                {isWaitlisted ? 'Leave Waitlist' : 'Leave Event'}
               </>
             ) : (
               <>
                 <CheckIcon className='w-5 h-5 mr-2' />
-                Join Event
+                {isEventFull ? 'Join Waitlist' : 'Join Event'}
               </>
             )}
           </Button>
@@ -412,6 +454,59 @@ const EventDetail: React.FC<EventDetailProps> = () => {
         </span>
       </div>
 
+      {/* Waitlist status for the current user */}
+      {myRegistration && (isWaitlisted || hasPendingConfirmation) && (
+        <Paper variant='glass' size='md'>
+          {isWaitlisted ? (
+            <div className='flex items-center'>
+              <ClockIcon className='w-5 h-5 mr-3 text-secondary' />
+              <p className='text-white/80'>
+                This event is full. You are{' '}
+                <span className='font-semibold text-white'>
+                  #{myRegistration.waitlist_position}
+                </span>{' '}
+                on the waitlist and will be notified if a seat opens up.
+              </p>
+            </div>
+          ) : (
+            <div className='flex flex-col md:flex-row md:items-center md:justify-between gap-4'>
+              <div className='flex items-center'>
+                <BellIcon className='w-5 h-5 mr-3 text-secondary' />
+                <p className='text-white/80'>
+                  A seat opened up for you! Confirm before{' '}
+                  <span className='font-semibold text-white'>
+                    {new Date(
+                      myRegistration.confirmation_expires_at!
+                    ).toLocaleString()}
+                  </span>{' '}
+                  or it will pass to the next person on the waitlist.
+                </p>
+              </div>
+              <Button
+                variant='primary'
+                onClick={handleConfirmSeat}
+                disabled={isConfirming}
+              >
+                <CheckIcon className='w-5 h-5 mr-2' />
+                Confirm Seat
+              </Button>
+            </div>
+          )}
+        </Paper>
+      )}
+
+      {/* Check-in for registered participants */}
+      {canCheckIn && (
+        <EventCheckIn
+          eventId={id || ''}
+          checkedInAt={
+            myRegistration?.status === 'attended'
+              ? myRegistration.checked_in_at
+              : null
+          }
+        />
+      )}
+
       {/* Event Overview */}
       <Paper variant='glass' size='xl'>
         <div className='grid grid-cols-1 lg:grid-cols-3 gap-8'>
@@ -726,6 +821,14 @@ const EventDetail: React.FC<EventDetailProps> = () => {
         </Paper>
       </div>
 
+      {/* Roles & slots participants can claim */}
+      <EventSlotRoster
+        eventId={id || ''}
+        isAuthenticated={isAuthenticated}
+        hasJoined={hasJoined}
+        hasStarted={isEventPast(event)}
+      />
+
       {/* Participants - Full Width */}
       <div ref={participantsRef}>
         <Paper variant='glass' size='lg'>
@@ -735,6 +838,7 @@ const EventDetail: React.FC<EventDetailProps> = () => {
               <SectionTitle>
                 Participants ({participantCount}/
                 {event.max_participants || 'Unlimited'})
+                {waitlistCount > 0 && ` · ${waitlistCount} waitlisted`}
               </SectionTitle>
             </div>
             <Button variant='outline' size='sm'>
@@ -812,7 +916,9 @@ const EventDetail: React.FC<EventDetailProps> = () => {
               {!hasJoined && isAuthenticated && !isEventPast(event) && (
                 <div className='text-center pt-4 border-t border-white/10'>
                   <p className='text-white/80 mb-4'>
-                    Interested in joining this event?
+                    {isEventFull
+                      ? 'This event is full, but you can join the waitlist.'
+                      : 'Interested in joining this event?'}
                   </p>
                   <Button
                     variant='primary'
@@ -828,7 +934,7 @@ const EventDetail: React.FC<EventDetailProps> = () => {
                     ) : (
                       <>
                         <CheckIcon className='w-5 h-5 mr-2' />
-                        Join Event
+                        {isEventFull ? 'Join Waitlist' : 'Join Event'}
                       </>
                     )}
                   </Button>
@@ -864,6 +970,15 @@ const EventDetail: React.FC<EventDetailProps> = () => {
         </Paper>
       )}
 
+      {/* Attendance roster - Only visible to event owners */}
+      {isOwner && (
+        <EventAttendanceRoster
+          eventId={id || ''}
+          hasStarted={isEventPast(event)}
+          hasEnded={hasEventEnded}
+        />
+      )}
+
       {/* Event Analytics - Only visible to event owners */}
       {isOwner && (
         <div id='event-analytics'>
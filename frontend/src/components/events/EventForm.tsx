@@ -10,17 +10,22 @@ import {
   FormPage,
   ToggleSwitch,
   Listbox,
+  Select,
+  RadioGroup,
 } from '../ui';
 import {
   CalendarIcon,
   TagIcon,
   CheckIcon,
   UserIcon,
+  ArrowPathIcon,
+  RectangleGroupIcon,
 } from '@heroicons/react/24/outline';
 import {
   useGetUserDashboardOrganizationsQuery,
   useCreateEventMutation,
   useGetEventQuery,
+  useGetEventSlotsQuery,
   useUpdateEventMutation,
 } from '../../services/apiSlice';
 import { useAuth } from '../../contexts/AuthContext';
@@ -36,6 +41,42 @@ import {
   convertLocalToUTC,
   convertUTCToLocal,
 } from '../../utils/timezone';
+import type {
+  EventRecurrenceFrequency,
+  EventRecurrenceRule,
+  EventSeriesEditScope,
+  EventSlotInput,
+} from '../../types/event';
+import EventSlotEditor from './EventSlotEditor';
+
+const RECURRENCE_OPTIONS = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every two weeks' },
+  { value: 'monthly', label: 'Monthly (same weekday)' },
+];
+
+const SERIES_SCOPE_OPTIONS: {
+  value: EventSeriesEditScope;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'this',
+    label: 'This event',
+    description: 'Only change this occurrence',
+  },
+  {
+    value: 'following',
+    label: 'This and following events',
+    description: 'Change this occurrence and every one after it',
+  },
+  {
+    value: 'all',
+    label: 'All events',
+    description: 'Change every upcoming occurrence in the series',
+  },
+];
 
 interface EventFormProps {
   mode: 'create' | 'edit';
@@ -54,6 +95,7 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
     end_date: '',
     location: '',
     max_participants: 0,
+    waitlist_confirmation_hours: 12,
     playstyle_tags: [] as string[],
     activity_tags: [] as string[],
     languages: ['English'],
@@ -61,6 +103,14 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
     is_public: true,
   });
 
+  // Recurrence state
+  const [recurrence, setRecurrence] = useState({
+    frequency: 'none' as EventRecurrenceFrequency | 'none',
+    count: 0,
+  });
+  const [editScope, setEditScope] = useState<EventSeriesEditScope>('this');
+  const [slots, setSlots] = useState<EventSlotInput[]>([]);
+
   // Timezone state
   const [selectedTimezone, setSelectedTimezone] = useState<string>('');
 
@@ -79,6 +129,11 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
     skip: mode !== 'edit' || !id,
   });
 
+  // Slots are served separately from the event itself
+  const { data: eventSlots } = useGetEventSlotsQuery(id || '', {
+    skip: mode !== 'edit' || !id,
+  });
+
   // Handle org parameter from URL
   const orgParam = searchParams.get('org');
 
@@ -122,6 +177,10 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
         end_date: endDate,
         location: eventData.location || '',
         max_participants: eventData.max_participants || 0,
+        waitlist_confirmation_hours:
+          eventData.waitlist_confirmation_minutes != null
+            ? eventData.waitlist_confirmation_minutes / 60
+            : 12,
         playstyle_tags: eventData.playstyle_tags || [],
         activity_tags: eventData.activity_tags || [],
         languages:
@@ -153,6 +212,10 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
             end_date: endDate,
             location: parsedData.location || '',
             max_participants: parsedData.max_participants || 0,
+            waitlist_confirmation_hours:
+              parsedData.waitlist_confirmation_minutes != null
+                ? parsedData.waitlist_confirmation_minutes / 60
+                : 12,
             playstyle_tags: parsedData.playstyle_tags || [],
             activity_tags: parsedData.activity_tags || [],
             languages:
@@ -173,6 +236,21 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
     }
   }, [mode, eventData]);
 
+  // Populate slots when editing, keeping ids so existing sign-ups stay attached
+  useEffect(() => {
+    if (mode === 'edit' && eventSlots) {
+      setSlots(
+        eventSlots.map(slot => ({
+          id: slot.id,
+          name: slot.name,
+          description: slot.description ?? null,
+          capacity: slot.capacity,
+          required_skill_ids: slot.required_skill_ids,
+        }))
+      );
+    }
+  }, [mode, eventSlots]);
+
   // Handle org parameter from URL when organizations are loaded
   useEffect(() => {
     if (orgParam && userOrganizations.length > 0 && mode === 'create') {
@@ -219,6 +297,8 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
     );
   }
 
+  const isSeriesEvent = mode === 'edit' && !!eventData?.series_id;
+
   const handleInputChange = (
     field: keyof typeof formData,
     value: string | string[] | number | null
@@ -265,6 +345,24 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
       newErrors.max_participants = 'Maximum participants cannot be negative';
     }
 
+    if (formData.waitlist_confirmation_hours < 0) {
+      newErrors.waitlist_confirmation_hours =
+        'Confirmation window cannot be negative';
+    }
+
+    if (slots.some(slot => !slot.name.trim() || slot.capacity < 1)) {
+      newErrors.slots = 'Every slot needs a name and a capacity of at least 1';
+    } else if (formData.max_participants > 0) {
+      const slotCapacity = slots.reduce((sum, slot) => sum + slot.capacity, 0);
+      if (slotCapacity > formData.max_participants) {
+        newErrors.slots = `Slot capacities (${slotCapacity}) exceed the maximum participants`;
+      }
+    }
+
+    if (recurrence.frequency !== 'none' && recurrence.count > 365) {
+      newErrors.recurrence_count = 'A series can have at most 365 occurrences';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -297,11 +395,16 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
           location: formData.location,
           ...(formData.max_participants > 0 && {
             max_participants: formData.max_participants,
+            waitlist_confirmation_minutes: Math.round(
+              formData.waitlist_confirmation_hours * 60
+            ),
           }),
           playstyle_tags: formData.playstyle_tags,
           activity_tags: formData.activity_tags,
           is_public: formData.is_public,
           languages: convertNamesToCodes(formData.languages),
+          ...(eventSlots && { slots }),
+          ...(isSeriesEvent && { scope: editScope }),
         };
         await updateEvent({ id, data: updateData }).unwrap();
 
@@ -319,11 +422,21 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
           location: formData.location,
           ...(formData.max_participants > 0 && {
             max_participants: formData.max_participants,
+            waitlist_confirmation_minutes: Math.round(
+              formData.waitlist_confirmation_hours * 60
+            ),
           }),
           playstyle_tags: formData.playstyle_tags,
           activity_tags: formData.activity_tags,
           is_public: formData.is_public,
           languages: convertNamesToCodes(formData.languages),
+          ...(slots.length > 0 && { slots }),
+          ...(recurrence.frequency !== 'none' && {
+            recurrence: {
+              frequency: recurrence.frequency,
+              ...(recurrence.count > 0 && { count: recurrence.count }),
+            } as EventRecurrenceRule,
+          }),
         };
         const newEvent = await createEvent(createData).unwrap();
 
@@ -489,6 +602,28 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
               </p>
             </div>
 
+            {formData.max_participants > 0 && (
+              <div>
+                <Input
+                  label='Waitlist Confirmation Window (hours)'
+                  value={formData.waitlist_confirmation_hours.toString()}
+                  onChange={value =>
+                    handleInputChange(
+                      'waitlist_confirmation_hours',
+                      parseFloat(value) || 0
+                    )
+                  }
+                  placeholder='Hours to confirm a seat freed from the waitlist'
+                  error={errors.waitlist_confirmation_hours || ''}
+                />
+                <p className='mt-1 text-xs text-white/50'>
+                  When the event is full, new sign-ups join a waitlist. Promoted
+                  members must confirm within this window or the seat passes
+                  on. Set to 0 to skip confirmation.
+                </p>
+              </div>
+            )}
+
             <div>
               <label className='block text-sm font-medium text-primary mb-2'>
                 Supported Languages
@@ -507,6 +642,83 @@ const EventForm: React.FC<EventFormProps> = ({ mode }) => {
           </div>
         </Paper>
 
+        {/* Recurrence */}
+        {(mode === 'create' || isSeriesEvent) && (
+          <Paper variant='glass-strong' size='lg'>
+            <div className='mb-[var(--spacing-card-lg)]'>
+              <h2 className='text-xl font-semibold text-primary mb-[var(--spacing-element)] flex items-center'>
+                <ArrowPathIcon className='w-6 h-6 mr-3 text-tertiary' />
+                Recurrence
+              </h2>
+              <p className='text-tertiary text-sm'>
+                {mode === 'create'
+                  ? 'Repeat this event on a regular schedule'
+                  : 'This event is part of a recurring series'}
+              </p>
+            </div>
+
+            {mode === 'create' ? (
+              <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--gap-grid-sm)]'>
+                <Select
+                  label='Repeats'
+                  value={recurrence.frequency}
+                  onChange={value =>
+                    setRecurrence(prev => ({
+                      ...prev,
+                      frequency: value as EventRecurrenceFrequency | 'none',
+                    }))
+                  }
+                  options={RECURRENCE_OPTIONS}
+                />
+
+                {recurrence.frequency !== 'none' && (
+                  <Input
+                    label='Number of Occurrences'
+                    value={recurrence.count.toString()}
+                    onChange={value =>
+                      setRecurrence(prev => ({
+                        ...prev,
+                        count: parseInt(value) || 0,
+                      }))
+                    }
+                    placeholder='0 = repeat indefinitely'
+                    error={errors.recurrence_count || ''}
+                  />
+                )}
+              </div>
+            ) : (
+              <RadioGroup
+                label='Apply changes to'
+                options={SERIES_SCOPE_OPTIONS}
+                value={editScope}
+                onChange={setEditScope}
+                variant='cards'
+              />
+            )}
+          </Paper>
+        )}
+
+        {/* Roles & Slots */}
+        <Paper variant='glass-strong' size='lg'>
+          <div className='mb-[var(--spacing-card-lg)]'>
+            <h2 className='text-xl font-semibold text-primary mb-[var(--spacing-element)] flex items-center'>
+              <RectangleGroupIcon className='w-6 h-6 mr-3 text-tertiary' />
+              Roles & Slots
+            </h2>
+            <p className='text-tertiary text-sm'>
+              Optional named positions (e.g., ship crew) participants can claim.
+              Slots can require verified organization skills.
+            </p>
+          </div>
+
+          <EventSlotEditor
+            slots={slots}
+            onChange={setSlots}
+            organizationId={formData.organization_id}
+            error={errors.slots}
+          />
+        </Paper>
+
         {/* Playstyle Tags */}
         <Paper variant='glass-strong' size='lg'>
           <div className='mb-[var(--spacing-card-lg)]'>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Button, Input, Select } from '../ui';
+import { useGetSkillsQuery } from '../../services/apiSlice';
+import type { EventSlotInput } from '../../types/event';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface EventSlotEditorProps {
+  slots: EventSlotInput[];
+  onChange: (slots: EventSlotInput[]) => void;
+  // RSI organization id; skill requirements need an organization
+  organizationId: string | null;
+  error?: string | undefined;
+}
+
+const EventSlotEditor: React.FC<EventSlotEditorProps> = ({
+  slots,
+  onChange,
+  organizationId,
+  error,
+}) => {
+  const { data: skillsData } = useGetSkillsQuery(
+    { organizationId: organizationId || '', limit: 100 },
+    { skip: !organizationId }
+  );
+
+  const skillOptions = (skillsData?.data || []).map(skill => ({
+    value: skill.id,
+    label: skill.name,
+  }));
+
+  const updateSlot = (index: number, changes: Partial<EventSlotInput>) => {
+    onChange(
+      slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot))
+    );
+  };
+
+  const addSlot = () => {
+    onChange([...slots, { name: '', capacity: 1, required_skill_ids: [] }]);
+  };
+
+  const removeSlot = (index: number) => {
+    onChange(slots.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className='space-y-[var(--spacing-element)]'>
+      {slots.map((slot, index) => (
+        <div
+          key={slot.id || index}
+          className='grid grid-cols-1 md:grid-cols-12 gap-[var(--gap-grid-sm)] items-end bg-white/5 border border-white/10 rounded-lg p-4'
+        >
+          <div className='md:col-span-4'>
+            <Input
+              label='Slot Name'
+              value={slot.name}
+              onChange={value => updateSlot(index, { name: value })}
+              placeholder='e.g., Hammerhead Gunner'
+            />
+          </div>
+          <div className='md:col-span-2'>
+            <Input
+              label='Capacity'
+              value={slot.capacity.toString()}
+              onChange={value =>
+                updateSlot(index, { capacity: parseInt(value) || 0 })
+              }
+            />
+          </div>
+          <div className='md:col-span-5'>
+            {organizationId ? (
+              <Select
+                label='Required Skills'
+                value={slot.required_skill_ids || []}
+                onChange={value =>
+                  updateSlot(index, { required_skill_ids: value as string[] })
+                }
+                options={skillOptions}
+                placeholder='No skills required'
+                multiple
+              />
+            ) : (
+              <p className='text-xs text-white/50'>
+                Skill requirements are available for organization events.
+              </p>
+            )}
+          </div>
+          <div className='md:col-span-1 flex justify-end'>
+            <Button
+              type='button'
+              variant='outline'
+              size='sm'
+              onClick={() => removeSlot(index)}
+              title='Remove slot'
+            >
+              <TrashIcon className='w-4 h-4' />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className='text-sm text-red-300'>{error}</p>}
+
+      <Button type='button' variant='outline' size='sm' onClick={addSlot}>
+        <PlusIcon className='w-4 h-4 mr-2' />
+        Add Slot
+      </Button>
+    </div>
+  );
+};
+
+export default EventSlotEditor;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button, Chip, Paper, SectionTitle } from '../ui';
+import {
+  useGetEventSlotsQuery,
+  useRegisterForEventMutation,
+} from '../../services/apiSlice';
+import type { EventSlot } from '../../types/event';
+import {
+  AcademicCapIcon,
+  RectangleGroupIcon,
+  UserIcon,
+} from '@heroicons/react/24/outline';
+
+interface EventSlotRosterProps {
+  eventId: string;
+  isAuthenticated: boolean;
+  hasJoined: boolean;
+  hasStarted: boolean;
+}
+
+const EventSlotRoster: React.FC<EventSlotRosterProps> = ({
+  eventId,
+  isAuthenticated,
+  hasJoined,
+  hasStarted,
+}) => {
+  const navigate = useNavigate();
+  const [claimingSlotId, setClaimingSlotId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: slots = [], isLoading } = useGetEventSlotsQuery(eventId, {
+    skip: !eventId,
+  });
+  const [registerForEvent] = useRegisterForEventMutation();
+
+  const canClaim = !hasJoined && !hasStarted;
+
+  const handleClaim = async (slot: EventSlot) => {
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+
+    setError(null);
+    setClaimingSlotId(slot.id);
+
+    try {
+      await registerForEvent({ eventId, slotId: slot.id }).unwrap();
+    } catch (error: any) {
+      setError(error?.data?.error || 'Failed to claim slot');
+    } finally {
+      setClaimingSlotId(null);
+    }
+  };
+
+  if (isLoading || slots.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper variant='glass' size='lg'>
+      <div className='flex items-center mb-4'>
+        <RectangleGroupIcon className='w-6 h-6 mr-3 text-secondary' />
+        <SectionTitle>Roles & Slots</SectionTitle>
+      </div>
+
+      {error && (
+        <div className='bg-red-900/20 border border-red-400/20 rounded-lg p-4 mb-4'>
+          <p className='text-red-300'>{error}</p>
+        </div>
+      )}
+
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+        {slots.map(slot => {
+          const isFull = slot.filled >= slot.capacity;
+          const seated = slot.participants.filter(
+            participant => participant.status !== 'waitlisted'
+          );
+
+          return (
+            <div
+              key={slot.id}
+              className='bg-white/5 border border-white/10 rounded-lg p-4'
+            >
+              <div className='flex items-start justify-between gap-4 mb-2'>
+                <div>
+                  <h3 className='text-white font-semibold'>{slot.name}</h3>
+                  {slot.description && (
+                    <p className='text-white/60 text-sm'>{slot.description}</p>
+                  )}
+                </div>
+                <span
+                  className={`text-sm font-semibold whitespace-nowrap ${
+                    isFull ? 'text-red-300' : 'text-green-300'
+                  }`}
+                >
+                  {slot.filled}/{slot.capacity}
+                </span>
+              </div>
+
+              {slot.required_skills.length > 0 && (
+                <div className='flex flex-wrap items-center gap-2 mb-3'>
+                  <AcademicCapIcon className='w-4 h-4 text-white/60' />
+                  {slot.required_skills.map(skill => (
+                    <Chip key={skill.id} variant='default' size='sm'>
+                      {skill.name}
+                    </Chip>
+                  ))}
+                </div>
+              )}
+
+              {seated.length > 0 ? (
+                <ul className='space-y-1 mb-3'>
+                  {seated.map(participant => (
+                    <li
+                      key={participant.user_id}
+                      className='flex items-center text-sm'
+                    >
+                      <UserIcon className='w-4 h-4 mr-2 text-white/60' />
+                      <Link
+                        to={`/profile/${participant.username}`}
+                        className='text-white hover:text-brand-secondary transition-colors'
+                      >
+                        {participant.username}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className='text-white/60 text-sm mb-3'>
+                  No one has claimed this slot yet.
+                </p>
+              )}
+
+              {slot.waitlisted > 0 && (
+                <p className='text-white/60 text-xs mb-3'>
+                  {slot.waitlisted} waitlisted
+                </p>
+              )}
+
+              {canClaim && (
+                <Button
+                  variant={isFull ? 'outline' : 'primary'}
+                  size='sm'
+                  onClick={() => handleClaim(slot)}
+                  disabled={claimingSlotId !== null}
+                >
+                  {claimingSlotId === slot.id
+                    ? 'Claiming...'
+                    : isFull
+                      ? 'Join Slot Waitlist'
+                      : 'Claim Slot'}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Paper>
+  );
+};
+
+export default EventSlotRoster;
@@ -7,6 +7,7 @@ import { configureStore } from '@reduxjs/toolkit';
 import { BrowserRouter } from 'react-router-dom';
 import { apiSlice } from '../../../services/apiSlice';
 import ApplicationForm from '../application_form';
+import type { ApplicationForm as ApplicationFormType } from '../../../types/hr';
 
 // Mock react-router-dom
 vi.mock('react-router-dom', async () => {
@@ -17,6 +18,20 @@ vi.mock('react-router-dom', async () => {
   };
 });
 
+// Look hooks up on their endpoints when called so the spies below take effect
+vi.mock('../../../services/apiSlice', async () => {
+  const actual = await vi.importActual<typeof import('../../../services/apiSlice')>(
+    '../../../services/apiSlice'
+  );
+  return {
+    ...actual,
+    useCreateApplicationMutation: (...args: any[]) =>
+      (actual.apiSlice.endpoints.createApplication.useMutation as any)(...args),
+    useGetApplicationFormsQuery: (...args: any[]) =>
+      (actual.apiSlice.endpoints.getApplicationForms.useQuery as any)(...args),
+  };
+});
+
 // Create a mock store
 const createMockStore = (initialState = {}) => {
   return configureStore({
@@ -46,6 +61,12 @@ describe('ApplicationForm', () => {
       mockCreateApplication,
       { isLoading: false }
     ] as any);
+
+    // Organizations without their own forms get the standard application
+    vi.spyOn(apiSlice.endpoints.getApplicationForms, 'useQuery').mockReturnValue({
+      data: [],
+      isLoading: false,
+    } as any);
   });
 
   const renderWithProvider = (component: React.ReactElement) => {
@@ -199,4 +220,100 @@ describe('ApplicationForm', () => {
     expect(screen.getByText('Submitting Application...')).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /Submitting Application.../ })).toBeDisabled();
   });
-});
\ No newline at end of file
+
+  describe('with organization application forms', () => {
+    const pilotForm: ApplicationFormType = {
+      id: 'form-1',
+      organization_id: 'test-org',
+      name: 'Pilot',
+      description: 'Join our pilot division',
+      current_version: 3,
+      is_active: true,
+      questions: [
+        {
+          id: 'role',
+          type: 'single_choice',
+          label: 'Preferred Role',
+          required: true,
+          options: ['Fighter', 'Industry'],
+        },
+        {
+          id: 'ships',
+          type: 'ship_ownership',
+          label: 'Ships You Own',
+          required: true,
+          visible_when: { question_id: 'role', values: ['Fighter'] },
+        },
+        {
+          id: 'handle',
+          type: 'rsi_handle_confirmation',
+          label: 'Confirm Your RSI Handle',
+          required: true,
+        },
+      ],
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    };
+
+    beforeEach(() => {
+      vi.spyOn(apiSlice.endpoints.getApplicationForms, 'useQuery').mockReturnValue({
+        data: [pilotForm],
+        isLoading: false,
+      } as any);
+    });
+
+    it('renders the form questions instead of the standard application', () => {
+      renderWithProvider(<ApplicationForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      expect(screen.getByText('Join our pilot division')).toBeInTheDocument();
+      expect(screen.getByText('Preferred Role')).toBeInTheDocument();
+      expect(screen.queryByText('Cover Letter')).not.toBeInTheDocument();
+      // Only shown to fighter pilots
+      expect(screen.queryByText('Ships You Own')).not.toBeInTheDocument();
+    });
+
+    it('shows conditional questions once their condition is met', async () => {
+      const user = userEvent.setup();
+      renderWithProvider(<ApplicationForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await user.click(screen.getByRole('combobox'));
+      await user.click(screen.getByRole('option', { name: 'Fighter' }));
+
+      expect(screen.getByText('Ships You Own')).toBeInTheDocument();
+    });
+
+    it('requires visible required questions', async () => {
+      const user = userEvent.setup();
+      renderWithProvider(<ApplicationForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await user.click(screen.getByRole('button', { name: /Submit Application/ }));
+
+      expect(screen.getByText('Preferred Role is required')).toBeInTheDocument();
+      expect(screen.queryByText('Ships You Own is required')).not.toBeInTheDocument();
+      expect(mockCreateApplication).not.toHaveBeenCalled();
+    });
+
+    it('submits answers with the form version', async () => {
+      const user = userEvent.setup();
+      mockCreateApplication.mockReturnValue({ unwrap: () => Promise.resolve({ id: 'test-app' }) });
+      renderWithProvider(<ApplicationForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await user.click(screen.getByRole('combobox'));
+      await user.click(screen.getByRole('option', { name: 'Industry' }));
+      await user.type(screen.getByPlaceholderText('Type your RSI handle to confirm'), 'Pilot');
+      await user.click(screen.getByRole('button', { name: /Submit Application/ }));
+
+      await waitFor(() => {
+        expect(mockCreateApplication).toHaveBeenCalledWith({
+          organizationId: 'test-org',
+          data: {
+            form_id: 'form-1',
+            form_version: 3,
+            answers: { role: 'Industry', handle: 'Pilot' },
+          },
+        });
+      });
+      expect(mockOnSuccess).toHaveBeenCalled();
+    });
+  });
+});
@@ -126,6 +126,12 @@ vi.mock('../../../services/apiSlice', () => ({
     refetch: vi.fn(),
   }),
   useCreateApplicationMutation: () => [vi.fn(), { isLoading: false }],
+  useGetApplicationFormsQuery: () => ({
+    data: [],
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+  }),
   useAcknowledgeDocumentMutation: () => [vi.fn(), { isLoading: false }],
   useGetDocumentAcknowledmentStatusQuery: () => ({
     data: { current_user_acknowledged: false },
@@ -137,6 +143,14 @@ vi.mock('../../../services/apiSlice', () => ({
   useUpdateDocumentMutation: () => [vi.fn(), { isLoading: false }],
   useUpdateOnboardingProgressMutation: () => [vi.fn(), { isLoading: false }],
   useCompleteOnboardingTaskMutation: () => [vi.fn(), { isLoading: false }],
+  useGetCurrentUserQuery: () => ({ data: undefined }),
+  useGetMyMentorshipsQuery: () => ({ data: [] }),
+  useGetMentorshipsQuery: () => ({ data: [] }),
+  useGetMentorMatchesQuery: () => ({ data: [], isLoading: false }),
+  useGetOrganizationMembersQuery: () => ({ data: [] }),
+  useAssignMentorMutation: () => [vi.fn(), { isLoading: false }],
+  useEndMentorshipMutation: () => [vi.fn(), { isLoading: false }],
+  useCompleteMentorshipCheckInMutation: () => [vi.fn(), { isLoading: false }],
 }));
 
 // Mock permissions hook
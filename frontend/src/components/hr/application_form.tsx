@@ -4,8 +4,22 @@ import Paper from '../ui/Paper';
 import Input from '../ui/Input';
 import Textarea from '../ui/Textarea';
 import Button from '../ui/Button';
-import { useCreateApplicationMutation } from '../../services/apiSlice';
-import type { CreateApplicationData } from '../../types/hr';
+import Select from '../ui/Select';
+import {
+  useCreateApplicationMutation,
+  useGetApplicationFormsQuery,
+} from '../../services/apiSlice';
+import type {
+  ApplicationAnswer,
+  ApplicationForm as OrganizationApplicationForm,
+  CreateApplicationData,
+} from '../../types/hr';
+import {
+  ApplicationQuestionField,
+  getVisibleAnswers,
+  isAnswerBlank,
+  isQuestionVisible,
+} from './application_questions';
 
 interface ApplicationFormProps {
   onSuccess?: () => void;
@@ -33,6 +47,10 @@ const ApplicationForm: React.FC<ApplicationFormProps> = ({
 }) => {
   const { organizationId } = useParams<{ organizationId: string }>();
   const [createApplication, { isLoading }] = useCreateApplicationMutation();
+  const { data: applicationForms, isLoading: isLoadingForms } = useGetApplicationFormsQuery(
+    { organizationId: organizationId! },
+    { skip: !organizationId }
+  );
 
   const [formData, setFormData] = useState<FormData>({
     cover_letter: '',
@@ -149,6 +167,26 @@ const ApplicationForm: React.FC<ApplicationFormProps> = ({
     });
   };
 
+  if (isLoadingForms) {
+    return (
+      <Paper variant="glass" size="lg" className="w-full max-w-4xl mx-auto glass-mobile-reduced">
+        <p className="responsive-text-sm text-secondary">Loading application form...</p>
+      </Paper>
+    );
+  }
+
+  // Organizations with their own forms use those instead of the standard questions
+  if (organizationId && applicationForms && applicationForms.length > 0) {
+    return (
+      <CustomApplicationForm
+        organizationId={organizationId}
+        forms={applicationForms}
+        {...(onSuccess && { onSuccess })}
+        {...(onCancel && { onCancel })}
+      />
+    );
+  }
+
   return (
     <Paper variant="glass" size="lg" className="w-full max-w-4xl mx-auto glass-mobile-reduced">
       <div className="responsive-padding-x responsive-padding-y lg:p-[var(--spacing-card-lg)]">
@@ -321,4 +359,168 @@ const ApplicationForm: React.FC<ApplicationFormProps> = ({
   );
 };
 
+interface CustomApplicationFormProps extends ApplicationFormProps {
+  organizationId: string;
+  forms: OrganizationApplicationForm[];
+}
+
+const CustomApplicationForm: React.FC<CustomApplicationFormProps> = ({
+  organizationId,
+  forms,
+  onSuccess,
+  onCancel,
+}) => {
+  const [createApplication, { isLoading }] = useCreateApplicationMutation();
+  const [formId, setFormId] = useState(forms[0]!.id);
+  const [answers, setAnswers] = useState<Record<string, ApplicationAnswer>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const form = forms.find(candidate => candidate.id === formId) ?? forms[0]!;
+  const visibleAnswers = getVisibleAnswers(form.questions, answers);
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    for (const question of form.questions) {
+      if (
+        question.required &&
+        isQuestionVisible(question, visibleAnswers) &&
+        isAnswerBlank(visibleAnswers[question.id])
+      ) {
+        newErrors[question.id] = `${question.label} is required`;
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      await createApplication({
+        organizationId,
+        data: {
+          form_id: form.id,
+          form_version: form.current_version,
+          answers: visibleAnswers,
+        },
+      }).unwrap();
+
+      onSuccess?.();
+    } catch (error: any) {
+      // Server-side answer errors point at answers.<question id>
+      const details: { field: string; message: string }[] = error?.data?.details || [];
+      const answerErrors: Record<string, string> = {};
+      for (const detail of details) {
+        if (detail.field?.startsWith('answers.')) {
+          answerErrors[detail.field.slice('answers.'.length)] = detail.message;
+        }
+      }
+      setErrors(answerErrors);
+      setSubmitError(
+        details[0]?.message || error?.data?.error || 'Failed to submit application. Please try again.'
+      );
+    }
+  };
+
+  const handleAnswerChange = (questionId: string, value: ApplicationAnswer) => {
+    setAnswers(prev => ({ ...prev, [questionId]: value }));
+    if (errors[questionId]) {
+      const { [questionId]: _cleared, ...restErrors } = errors;
+      setErrors(restErrors);
+    }
+    setSubmitError(null);
+  };
+
+  const handleFormChange = (value: string | string[]) => {
+    setFormId(value as string);
+    setAnswers({});
+    setErrors({});
+    setSubmitError(null);
+  };
+
+  return (
+    <Paper variant="glass" size="lg" className="w-full max-w-4xl mx-auto glass-mobile-reduced">
+      <div className="responsive-padding-x responsive-padding-y lg:p-[var(--spacing-card-lg)]">
+        {/* Header Section */}
+        <div className="mb-6 lg:mb-[var(--spacing-section)]">
+          <h2 className="responsive-text-lg font-bold text-primary mb-[var(--spacing-tight)]">
+            Submit Application
+          </h2>
+          <p className="responsive-text-sm text-secondary">
+            {form.description || 'Please answer all required questions to submit your application to this organization.'}
+          </p>
+        </div>
+
+        {/* Required questions are checked in validateForm so hidden ones can be skipped */}
+        <form noValidate onSubmit={handleSubmit} className="space-y-4 lg:space-y-[var(--spacing-component)]">
+          {forms.length > 1 && (
+            <Select
+              label="Applying For"
+              value={form.id}
+              onChange={handleFormChange}
+              options={forms.map(candidate => ({ value: candidate.id, label: candidate.name }))}
+            />
+          )}
+
+          {form.questions
+            .filter(question => isQuestionVisible(question, visibleAnswers))
+            .map(question => (
+              <div key={question.id} className="space-y-[var(--spacing-element)]">
+                <ApplicationQuestionField
+                  question={question}
+                  value={answers[question.id]}
+                  onChange={value => handleAnswerChange(question.id, value)}
+                  error={errors[question.id]}
+                />
+              </div>
+            ))}
+
+          {/* Submit Error */}
+          {submitError && (
+            <Paper variant="glass-subtle" className="p-[var(--spacing-element)] bg-error/10 border-error/20">
+              <p className="text-error text-sm font-medium" role="alert">
+                {submitError}
+              </p>
+            </Paper>
+          )}
+
+          {/* Action Buttons */}
+          <div className="responsive-flex-col-row pt-4 lg:pt-[var(--spacing-component)] border-t border-glass-border">
+            <Button
+              type="submit"
+              variant="primary"
+              size="lg"
+              disabled={isLoading}
+              className="w-full sm:w-auto touch-friendly"
+            >
+              {isLoading ? 'Submitting Application...' : 'Submit Application'}
+            </Button>
+
+            {onCancel && (
+              <Button
+                type="button"
+                variant="secondary"
+                size="lg"
+                onClick={onCancel}
+                disabled={isLoading}
+                className="w-full sm:w-auto touch-friendly"
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </div>
+    </Paper>
+  );
+};
+
 export default ApplicationForm;
\ No newline at end of file
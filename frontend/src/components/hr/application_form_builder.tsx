@@ -0,0 +1,520 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Chip,
+  ComponentSubtitle,
+  Dialog,
+  Input,
+  Paper,
+  Select,
+  Textarea,
+} from '../ui';
+import {
+  useArchiveApplicationFormMutation,
+  useCreateApplicationFormMutation,
+  useGetApplicationFormsQuery,
+  useUpdateApplicationFormMutation,
+} from '../../services/apiSlice';
+import type {
+  ApplicationForm,
+  ApplicationFormQuestion,
+  ApplicationQuestionType,
+} from '../../types/hr';
+import {
+  CHOICE_QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+} from './application_questions';
+
+interface ApplicationFormBuilderProps {
+  organizationId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface FormDraft {
+  id?: string;
+  name: string;
+  description: string;
+  questions: ApplicationFormQuestion[];
+}
+
+// Question IDs are made here so conditions can point at questions that are not saved yet
+const newQuestionId = () =>
+  `q${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const newQuestion = (): ApplicationFormQuestion => ({
+  id: newQuestionId(),
+  type: 'short_text',
+  label: '',
+  required: false,
+});
+
+const typeOptions = (
+  Object.keys(QUESTION_TYPE_LABELS) as ApplicationQuestionType[]
+).map(type => ({ value: type, label: QUESTION_TYPE_LABELS[type] }));
+
+const parseOptions = (text: string) =>
+  text
+    .split('\n')
+    .map(option => option.trim())
+    .filter(Boolean);
+
+const ApplicationFormBuilder: React.FC<ApplicationFormBuilderProps> = ({
+  organizationId,
+  isOpen,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<FormDraft | null>(null);
+  const [optionsText, setOptionsText] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: forms = [], isLoading } = useGetApplicationFormsQuery(
+    { organizationId, includeArchived: true },
+    { skip: !isOpen }
+  );
+  const [createForm, { isLoading: isCreating }] =
+    useCreateApplicationFormMutation();
+  const [updateForm, { isLoading: isUpdating }] =
+    useUpdateApplicationFormMutation();
+  const [archiveForm] = useArchiveApplicationFormMutation();
+
+  const editForm = (form?: ApplicationForm) => {
+    const questions = form ? form.questions : [newQuestion()];
+    setDraft({
+      ...(form && { id: form.id }),
+      name: form?.name || '',
+      description: form?.description || '',
+      questions,
+    });
+    setOptionsText(
+      Object.fromEntries(
+        questions.map(question => [
+          question.id,
+          (question.options || []).join('\n'),
+        ])
+      )
+    );
+    setError(null);
+  };
+
+  const updateQuestion = (
+    index: number,
+    changes: Partial<ApplicationFormQuestion>
+  ) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const questions = [...prev.questions];
+      questions[index] = { ...questions[index]!, ...changes };
+      return { ...prev, questions };
+    });
+  };
+
+  const clearQuestionField = (
+    index: number,
+    field: 'max_length' | 'visible_when'
+  ) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const questions = [...prev.questions];
+      const { [field]: _cleared, ...rest } = questions[index]!;
+      questions[index] = rest;
+      return { ...prev, questions };
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const removed = prev.questions[index]!;
+      // Conditions on the removed question go with it
+      const questions = prev.questions
+        .filter((_, position) => position !== index)
+        .map(question => {
+          if (question.visible_when?.question_id !== removed.id)
+            return question;
+          const { visible_when: _removed, ...rest } = question;
+          return rest;
+        });
+      return { ...prev, questions };
+    });
+  };
+
+  const moveQuestion = (index: number, offset: -1 | 1) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const questions = [...prev.questions];
+      const [question] = questions.splice(index, 1);
+      questions.splice(index + offset, 0, question!);
+      return { ...prev, questions };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setError(null);
+
+    const questions = draft.questions.map(question => {
+      const { options: _options, max_length: _maxLength, ...rest } = question;
+      return {
+        ...rest,
+        ...(CHOICE_QUESTION_TYPES.includes(question.type) && {
+          options: parseOptions(optionsText[question.id] || ''),
+        }),
+        ...((question.type === 'short_text' || question.type === 'long_text') &&
+          question.max_length && { max_length: question.max_length }),
+      };
+    });
+    const data = {
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      questions,
+    };
+
+    try {
+      if (draft.id) {
+        await updateForm({ organizationId, formId: draft.id, data }).unwrap();
+      } else {
+        await createForm({ organizationId, data }).unwrap();
+      }
+      setDraft(null);
+    } catch (err) {
+      console.error('Failed to save application form:', err);
+      const response = (
+        err as { data?: { error?: string; details?: unknown[] } }
+      )?.data;
+      const detail = response?.details?.[0];
+      setError(
+        (typeof detail === 'string' ? detail : null) ||
+          response?.error ||
+          'Failed to save application form'
+      );
+    }
+  };
+
+  const handleArchive = async (form: ApplicationForm) => {
+    try {
+      await archiveForm({ organizationId, formId: form.id }).unwrap();
+    } catch (err) {
+      console.error('Failed to archive application form:', err);
+    }
+  };
+
+  const handleRestore = async (form: ApplicationForm) => {
+    try {
+      await updateForm({
+        organizationId,
+        formId: form.id,
+        data: { is_active: true },
+      }).unwrap();
+    } catch (err) {
+      console.error('Failed to restore application form:', err);
+    }
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    setError(null);
+    onClose();
+  };
+
+  const renderFormList = () => (
+    <div className='space-y-[var(--spacing-element)]'>
+      <p className='text-sm text-[var(--color-text-tertiary)]'>
+        Applicants choose between active forms. Editing questions saves a new
+        version; applications already submitted are still shown with the
+        questions they answered.
+      </p>
+      {isLoading ? (
+        <p className='text-sm text-[var(--color-text-tertiary)]'>
+          Loading forms...
+        </p>
+      ) : forms.length === 0 ? (
+        <p className='text-sm text-[var(--color-text-tertiary)]'>
+          This organization uses the standard application until you create a
+          form.
+        </p>
+      ) : (
+        forms.map(form => (
+          <Paper
+            key={form.id}
+            variant='glass-subtle'
+            size='sm'
+            className='flex items-center justify-between'
+          >
+            <div className='min-w-0'>
+              <div className='flex items-center gap-[var(--spacing-tight)]'>
+                <span className='font-semibold text-[var(--color-text-primary)]'>
+                  {form.name}
+                </span>
+                {!form.is_active && <Chip size='sm'>Archived</Chip>}
+              </div>
+              <p className='text-xs text-[var(--color-text-tertiary)]'>
+                {form.questions.length} questions · version{' '}
+                {form.current_version}
+              </p>
+            </div>
+            <div className='flex items-center gap-[var(--gap-button)]'>
+              <Button variant='ghost' size='sm' onClick={() => editForm(form)}>
+                Edit
+              </Button>
+              {form.is_active ? (
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => handleArchive(form)}
+                >
+                  Archive
+                </Button>
+              ) : (
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => handleRestore(form)}
+                >
+                  Restore
+                </Button>
+              )}
+            </div>
+          </Paper>
+        ))
+      )}
+      <div className='flex items-center justify-end gap-[var(--gap-button)] pt-[var(--spacing-element)] border-t border-[var(--color-glass-border)]'>
+        <Button variant='ghost' onClick={handleClose}>
+          Close
+        </Button>
+        <Button variant='primary' onClick={() => editForm()}>
+          New Form
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderQuestion = (
+    question: ApplicationFormQuestion,
+    index: number,
+    draftForm: FormDraft
+  ) => {
+    // Conditions can only point at choice questions earlier in the form
+    const conditionQuestions = draftForm.questions
+      .slice(0, index)
+      .filter(candidate => CHOICE_QUESTION_TYPES.includes(candidate.type));
+    const conditionQuestion = conditionQuestions.find(
+      candidate => candidate.id === question.visible_when?.question_id
+    );
+
+    return (
+      <Paper
+        key={question.id}
+        variant='glass-subtle'
+        size='sm'
+        className='space-y-[var(--spacing-element)]'
+      >
+        <div className='flex items-center justify-between'>
+          <ComponentSubtitle className='text-[var(--color-text-tertiary)]'>
+            Question {index + 1}
+          </ComponentSubtitle>
+          <div className='flex items-center gap-[var(--gap-button)]'>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={() => moveQuestion(index, -1)}
+              disabled={index === 0}
+            >
+              Up
+            </Button>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={() => moveQuestion(index, 1)}
+              disabled={index === draftForm.questions.length - 1}
+            >
+              Down
+            </Button>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={() => removeQuestion(index)}
+              disabled={draftForm.questions.length === 1}
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--spacing-element)]'>
+          <Input
+            label='Question'
+            value={question.label}
+            onChange={label => updateQuestion(index, { label })}
+            required
+          />
+          <Select
+            label='Type'
+            value={question.type}
+            onChange={type =>
+              updateQuestion(index, { type: type as ApplicationQuestionType })
+            }
+            options={typeOptions}
+          />
+        </div>
+        <Input
+          label='Help Text'
+          value={question.description || ''}
+          onChange={description => updateQuestion(index, { description })}
+        />
+        {CHOICE_QUESTION_TYPES.includes(question.type) && (
+          <Textarea
+            label='Options'
+            description='One option per line'
+            value={optionsText[question.id] || ''}
+            onChange={text => {
+              setOptionsText(prev => ({ ...prev, [question.id]: text }));
+              updateQuestion(index, { options: parseOptions(text) });
+            }}
+            rows={3}
+          />
+        )}
+        {(question.type === 'short_text' || question.type === 'long_text') && (
+          <Input
+            label='Maximum Length'
+            value={question.max_length ? String(question.max_length) : ''}
+            onChange={value => {
+              const maxLength = parseInt(value);
+              if (maxLength > 0) {
+                updateQuestion(index, { max_length: maxLength });
+              } else {
+                clearQuestionField(index, 'max_length');
+              }
+            }}
+            placeholder={question.type === 'short_text' ? '200' : '2000'}
+          />
+        )}
+        {conditionQuestions.length > 0 && (
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--spacing-element)]'>
+            <Select
+              label='Only Show When'
+              value={question.visible_when?.question_id || ''}
+              onChange={questionId => {
+                if (!questionId) {
+                  clearQuestionField(index, 'visible_when');
+                } else {
+                  updateQuestion(index, {
+                    visible_when: {
+                      question_id: questionId as string,
+                      values: [],
+                    },
+                  });
+                }
+              }}
+              options={[
+                { value: '', label: 'Always show' },
+                ...conditionQuestions.map(candidate => ({
+                  value: candidate.id,
+                  label: candidate.label || 'Untitled question',
+                })),
+              ]}
+            />
+            {conditionQuestion && (
+              <Select
+                label='Is Answered With'
+                value={question.visible_when?.values || []}
+                onChange={values =>
+                  updateQuestion(index, {
+                    visible_when: {
+                      question_id: conditionQuestion.id,
+                      values: values as string[],
+                    },
+                  })
+                }
+                options={(conditionQuestion.options || []).map(option => ({
+                  value: option,
+                  label: option,
+                }))}
+                multiple
+              />
+            )}
+          </div>
+        )}
+        <Checkbox
+          checked={question.required}
+          onChange={required => updateQuestion(index, { required })}
+          label='Required'
+        />
+      </Paper>
+    );
+  };
+
+  const renderEditor = (draftForm: FormDraft) => (
+    <div className='space-y-[var(--spacing-card-lg)]'>
+      <Input
+        label='Form Name'
+        value={draftForm.name}
+        onChange={name => setDraft({ ...draftForm, name })}
+        placeholder='e.g. Pilot Division'
+        required
+      />
+      <Textarea
+        label='Description'
+        value={draftForm.description}
+        onChange={description => setDraft({ ...draftForm, description })}
+        placeholder='Shown to applicants above the questions'
+        rows={2}
+        maxLength={1000}
+      />
+
+      <div className='space-y-[var(--spacing-element)] max-h-[50vh] overflow-y-auto'>
+        {draftForm.questions.map((question, index) =>
+          renderQuestion(question, index, draftForm)
+        )}
+      </div>
+
+      <Button
+        variant='secondary'
+        size='sm'
+        onClick={() => {
+          const question = newQuestion();
+          setDraft({
+            ...draftForm,
+            questions: [...draftForm.questions, question],
+          });
+        }}
+      >
+        Add Question
+      </Button>
+
+      {error && <p className='text-sm text-[var(--color-error)]'>{error}</p>}
+
+      <div className='flex items-center justify-end gap-[var(--gap-button)] pt-[var(--spacing-element)] border-t border-[var(--color-glass-border)]'>
+        <Button variant='ghost' onClick={() => setDraft(null)}>
+          Back
+        </Button>
+        <Button
+          variant='primary'
+          onClick={handleSave}
+          disabled={isCreating || isUpdating || !draftForm.name.trim()}
+        >
+          {isCreating || isUpdating ? 'Saving...' : 'Save Form'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={
+        draft
+          ? draft.id
+            ? 'Edit Application Form'
+            : 'New Application Form'
+          : 'Application Forms'
+      }
+      size='xl'
+    >
+      {draft ? renderEditor(draft) : renderFormList()}
+    </Dialog>
+  );
+};
+
+export default ApplicationFormBuilder;
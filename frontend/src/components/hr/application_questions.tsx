@@ -0,0 +1,295 @@
+import React from 'react';
+import {
+  Chip,
+  ComponentSubtitle,
+  Input,
+  Paper,
+  Select,
+  TagInput,
+  Textarea,
+} from '../ui';
+import { useGetApplicationFormVersionQuery } from '../../services/apiSlice';
+import { COMMON_TIMEZONES, getUserTimezone } from '../../utils/timezone';
+import type {
+  Application,
+  ApplicationAnswer,
+  ApplicationFormQuestion,
+  ApplicationQuestionType,
+} from '../../types/hr';
+
+export const QUESTION_TYPE_LABELS: Record<ApplicationQuestionType, string> = {
+  short_text: 'Short text',
+  long_text: 'Long text',
+  single_choice: 'Single choice',
+  multi_choice: 'Multiple choice',
+  ship_ownership: 'Ships owned',
+  timezone: 'Timezone',
+  rsi_handle_confirmation: 'RSI handle confirmation',
+};
+
+export const CHOICE_QUESTION_TYPES: ApplicationQuestionType[] = [
+  'single_choice',
+  'multi_choice',
+];
+
+// Default answer lengths, matching the server
+const DEFAULT_MAX_LENGTH: Partial<Record<ApplicationQuestionType, number>> = {
+  short_text: 200,
+  long_text: 2000,
+};
+
+// Mirrors the server: a question is shown when its condition question has one of the values
+export const isQuestionVisible = (
+  question: ApplicationFormQuestion,
+  answers: Record<string, ApplicationAnswer>
+): boolean => {
+  if (!question.visible_when) return true;
+
+  const answer = answers[question.visible_when.question_id];
+  if (answer === undefined) return false;
+
+  const chosen = Array.isArray(answer) ? answer : [answer];
+  return chosen.some(value => question.visible_when!.values.includes(value));
+};
+
+/**
+ * Answers to the questions currently shown; answers to hidden questions are left out
+ */
+export const getVisibleAnswers = (
+  questions: ApplicationFormQuestion[],
+  answers: Record<string, ApplicationAnswer>
+): Record<string, ApplicationAnswer> => {
+  const visible: Record<string, ApplicationAnswer> = {};
+  for (const question of questions) {
+    const answer = answers[question.id];
+    if (answer !== undefined && isQuestionVisible(question, visible)) {
+      visible[question.id] = answer;
+    }
+  }
+  return visible;
+};
+
+export const isAnswerBlank = (answer: ApplicationAnswer | undefined): boolean =>
+  answer === undefined ||
+  (Array.isArray(answer) ? answer.length === 0 : answer.trim() === '');
+
+interface ApplicationQuestionFieldProps {
+  question: ApplicationFormQuestion;
+  value: ApplicationAnswer | undefined;
+  onChange: (value: ApplicationAnswer) => void;
+  error?: string | undefined;
+}
+
+export const ApplicationQuestionField: React.FC<
+  ApplicationQuestionFieldProps
+> = ({ question, value, onChange, error }) => {
+  const textValue = typeof value === 'string' ? value : '';
+  const listValue = Array.isArray(value) ? value : [];
+  const maxLength = question.max_length ?? DEFAULT_MAX_LENGTH[question.type];
+
+  switch (question.type) {
+    case 'long_text':
+      return (
+        <Textarea
+          label={question.label}
+          value={textValue}
+          onChange={onChange}
+          required={question.required}
+          rows={5}
+          error={error}
+          size='lg'
+          {...(maxLength !== undefined && { maxLength })}
+          {...(question.description && { description: question.description })}
+        />
+      );
+    case 'single_choice':
+    case 'multi_choice':
+    case 'timezone': {
+      const options =
+        question.type === 'timezone'
+          ? timezoneOptions()
+          : (question.options || []).map(option => ({
+              value: option,
+              label: option,
+            }));
+      return (
+        <Select
+          label={question.label}
+          value={question.type === 'multi_choice' ? listValue : textValue}
+          onChange={onChange}
+          options={options}
+          multiple={question.type === 'multi_choice'}
+          required={question.required}
+          {...(error && { error })}
+          {...(question.description && { description: question.description })}
+        />
+      );
+    }
+    case 'ship_ownership':
+      return (
+        <div className='space-y-[var(--spacing-tight)]'>
+          <ComponentSubtitle className='text-[var(--color-text-secondary)]'>
+            {question.label}
+            {question.required && <span className='text-error ml-1'>*</span>}
+          </ComponentSubtitle>
+          {question.description && (
+            <p className='text-sm text-[var(--color-text-tertiary)]'>
+              {question.description}
+            </p>
+          )}
+          <TagInput
+            value={listValue}
+            onChange={onChange}
+            placeholder='Add a ship and press Enter'
+            maxTags={100}
+          />
+          {error && <p className='text-sm text-error'>{error}</p>}
+        </div>
+      );
+    case 'rsi_handle_confirmation':
+    case 'short_text':
+    default:
+      return (
+        <div className='space-y-[var(--spacing-tight)]'>
+          <Input
+            label={question.label}
+            value={textValue}
+            onChange={onChange}
+            required={question.required}
+            error={error}
+            placeholder={
+              question.type === 'rsi_handle_confirmation'
+                ? 'Type your RSI handle to confirm'
+                : ''
+            }
+          />
+          {question.description && (
+            <p className='text-sm text-[var(--color-text-tertiary)]'>
+              {question.description}
+            </p>
+          )}
+        </div>
+      );
+  }
+};
+
+const timezoneOptions = () => {
+  const options = COMMON_TIMEZONES.map(timezone => ({
+    value: timezone.value,
+    label: timezone.label,
+  }));
+  const userTimezone = getUserTimezone();
+  if (!options.some(option => option.value === userTimezone)) {
+    options.unshift({ value: userTimezone, label: userTimezone });
+  }
+  return options;
+};
+
+interface ApplicationAnswerListProps {
+  questions: ApplicationFormQuestion[];
+  answers: Record<string, ApplicationAnswer>;
+}
+
+/**
+ * Answers shown under the questions they belong to, in form order
+ */
+export const ApplicationAnswerList: React.FC<ApplicationAnswerListProps> = ({
+  questions,
+  answers,
+}) => {
+  const answered = questions.filter(
+    question => !isAnswerBlank(answers[question.id])
+  );
+
+  if (answered.length === 0) {
+    return (
+      <p className='text-sm text-[var(--color-text-tertiary)]'>
+        No questions were answered.
+      </p>
+    );
+  }
+
+  return (
+    <div className='space-y-[var(--spacing-element)]'>
+      {answered.map(question => {
+        const answer = answers[question.id]!;
+        return (
+          <div key={question.id}>
+            <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-2'>
+              {question.label}
+            </ComponentSubtitle>
+            <Paper variant='glass-subtle' size='sm'>
+              {Array.isArray(answer) ? (
+                <div className='flex flex-wrap gap-[var(--spacing-tight)]'>
+                  {answer.map(value => (
+                    <Chip key={value} size='sm'>
+                      {value}
+                    </Chip>
+                  ))}
+                </div>
+              ) : (
+                <p className='text-[var(--color-text-secondary)] text-sm whitespace-pre-wrap'>
+                  {answer}
+                </p>
+              )}
+            </Paper>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+interface SubmittedApplicationAnswersProps {
+  organizationId: string;
+  application: Application;
+}
+
+/**
+ * Answers of an application submitted through a form, read against the version of the
+ * form the applicant answered
+ */
+export const SubmittedApplicationAnswers: React.FC<
+  SubmittedApplicationAnswersProps
+> = ({ organizationId, application }) => {
+  const {
+    data: form,
+    isLoading,
+    isError,
+  } = useGetApplicationFormVersionQuery(
+    {
+      organizationId,
+      formId: application.form_id!,
+      version: application.form_version!,
+    },
+    { skip: !application.form_id || !application.form_version }
+  );
+
+  if (isLoading) {
+    return (
+      <p className='text-sm text-[var(--color-text-tertiary)]'>
+        Loading answers...
+      </p>
+    );
+  }
+
+  if (isError || !form) {
+    return (
+      <p className='text-sm text-[var(--color-text-tertiary)]'>
+        The form this application was submitted with is no longer available.
+      </p>
+    );
+  }
+
+  return (
+    <div className='space-y-[var(--spacing-element)]'>
+      <ComponentSubtitle className='text-[var(--color-text-tertiary)]'>
+        {form.name} (version {application.form_version})
+      </ComponentSubtitle>
+      <ApplicationAnswerList
+        questions={form.questions}
+        answers={application.application_data.answers || {}}
+      />
+    </div>
+  );
+};
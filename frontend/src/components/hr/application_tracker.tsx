@@ -19,8 +19,17 @@ import {
   useGetApplicationsQuery,
   useUpdateApplicationStatusMutation,
   useBulkUpdateApplicationsMutation,
+  useRevetApplicationMutation,
+  useGetRecruitmentPipelineQuery,
+  useMoveApplicationToStageMutation,
 } from '../../services/apiSlice';
 import type { Application, ApplicationFilters, UpdateApplicationStatusData } from '../../types/hr';
+import { VettingRiskChip, VettingSummaryPanel } from './vetting_summary';
+import BatchVettingDialog from './batch_vetting_dialog';
+import ApplicationFormBuilder from './application_form_builder';
+import { SubmittedApplicationAnswers } from './application_questions';
+import { ApplicationInterviewPanel, InterviewSlotManager } from './interview_scheduler';
+import PipelineSettings from './pipeline_settings';
 import {
   UserPlusIcon,
   EyeIcon,
@@ -28,6 +37,9 @@ import {
   XMarkIcon,
   CalendarIcon,
   FunnelIcon,
+  ShieldCheckIcon,
+  DocumentTextIcon,
+  QueueListIcon,
 } from '@heroicons/react/24/outline';
 
 interface ApplicationTrackerProps {
@@ -45,6 +57,10 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
   const [showApplicationModal, setShowApplicationModal] = useState(false);
   const [showBulkActionModal, setShowBulkActionModal] = useState(false);
+  const [showVettingModal, setShowVettingModal] = useState(false);
+  const [showFormBuilder, setShowFormBuilder] = useState(false);
+  const [showInterviewSlots, setShowInterviewSlots] = useState(false);
+  const [showPipelineSettings, setShowPipelineSettings] = useState(false);
   
   // Form states
   const [reviewNotes, setReviewNotes] = useState('');
@@ -62,6 +78,11 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
   // Mutations
   const [updateApplicationStatus] = useUpdateApplicationStatusMutation();
   const [bulkUpdateApplications] = useBulkUpdateApplicationsMutation();
+  const [revetApplication, { isLoading: isRevetting }] = useRevetApplicationMutation();
+  const [moveApplicationToStage] = useMoveApplicationToStageMutation();
+
+  // The organization's own stages, if it has set any up
+  const { data: pipeline } = useGetRecruitmentPipelineQuery({ organizationId });
 
   // Status options for dropdowns
   const statusOptions = [
@@ -72,6 +93,12 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
     { value: 'rejected', label: 'Rejected', description: 'Application rejected' },
   ];
 
+  const stageOptions = (pipeline?.stages || []).map(stage => ({
+    value: stage.id,
+    label: stage.name,
+    description: statusOptions.find(opt => opt.value === stage.status)?.label || stage.status,
+  }));
+
   // Get status chip variant and color using design system colors
   const getStatusChipProps = (status: Application['status']) => {
     switch (status) {
@@ -147,6 +174,30 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
     }
   };
 
+  // Move an application between pipeline stages, changing its status when the stage is in another one
+  const handleStageMove = async (applicationId: string, stageId: string) => {
+    const stage = pipeline?.stages.find(candidate => candidate.id === stageId);
+    if (!stage) return;
+
+    try {
+      const application = await moveApplicationToStage({
+        organizationId,
+        applicationId,
+        data: {
+          stage_id: stageId,
+          ...(reviewNotes && { notes: reviewNotes }),
+          ...(stage.status === 'rejected' && rejectionReason && { rejection_reason: rejectionReason }),
+        },
+      }).unwrap();
+
+      setReviewNotes('');
+      setRejectionReason('');
+      setSelectedApplication(application);
+    } catch (error) {
+      console.error('Failed to move application to stage:', error);
+    }
+  };
+
   // Handle bulk updates
   const handleBulkUpdate = async () => {
     if (selectedApplications.length === 0) return;
@@ -175,6 +226,19 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
     }
   };
 
+  // Re-run the applicant's vetting check, e.g. when Spectrum was unavailable on submission
+  const handleRevet = async (applicationId: string) => {
+    try {
+      const application = await revetApplication({
+        organizationId,
+        applicationId,
+      }).unwrap();
+      setSelectedApplication(application);
+    } catch (error) {
+      console.error('Failed to vet applicant:', error);
+    }
+  };
+
   // Open application detail modal
   const openApplicationModal = (application: Application) => {
     setSelectedApplication(application);
@@ -196,6 +260,38 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
       <div className='flex items-center justify-between'>
         <SectionTitle>Application Tracker</SectionTitle>
         <div className='flex items-center gap-[var(--gap-button)]'>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => setShowPipelineSettings(true)}
+          >
+            <QueueListIcon className='w-4 h-4 mr-2' />
+            Pipeline
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => setShowFormBuilder(true)}
+          >
+            <DocumentTextIcon className='w-4 h-4 mr-2' />
+            Application Forms
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => setShowInterviewSlots(true)}
+          >
+            <CalendarIcon className='w-4 h-4 mr-2' />
+            Interview Slots
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => setShowVettingModal(true)}
+          >
+            <ShieldCheckIcon className='w-4 h-4 mr-2' />
+            Vet Handles
+          </Button>
           <Button
             variant='ghost'
             size='sm'
@@ -231,6 +327,21 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
                 placeholder='Filter by status'
                 className='w-full'
               />
+              {stageOptions.length > 0 && (
+                <Dropdown
+                  value={filters.stage_id || ''}
+                  onChange={(value) => setFilters(({ stage_id: _stage, ...prev }) => ({
+                    ...prev,
+                    ...(value && { stage_id: value }),
+                  }))}
+                  options={[
+                    { value: '', label: 'All Stages' },
+                    ...stageOptions,
+                  ]}
+                  placeholder='Filter by stage'
+                  className='w-full mt-[var(--spacing-tight)]'
+                />
+              )}
             </FilterGroup>
 
             <FilterGroup title='Date Range'>
@@ -332,6 +443,14 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
                         >
                           {statusOptions.find(opt => opt.value === application.status)?.label || application.status}
                         </Chip>
+                        {application.stage_name && (
+                          <Chip variant='default' size='sm'>
+                            {application.stage_name}
+                          </Chip>
+                        )}
+                        {application.vetting_summary && (
+                          <VettingRiskChip riskLevel={application.vetting_summary.risk_level} />
+                        )}
                       </div>
                       <div className='grid grid-cols-1 md:grid-cols-3 gap-[var(--spacing-element)] text-sm'>
                         <div>
@@ -363,6 +482,16 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
                             </div>
                           </div>
                         )}
+                        {application.assignee_id && (
+                          <div>
+                            <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-1'>
+                              Assigned To
+                            </ComponentSubtitle>
+                            <div className='text-[var(--color-text-secondary)]'>
+                              {application.assignee_rsi_handle || application.assignee_id}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -482,10 +611,64 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
                     {formatDate(selectedApplication.created_at)}
                   </div>
                 </div>
+                {selectedApplication.assignee_id && (
+                  <div>
+                    <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-1'>
+                      Assigned To
+                    </ComponentSubtitle>
+                    <div className='text-[var(--color-text-secondary)]'>
+                      {selectedApplication.assignee_rsi_handle || selectedApplication.assignee_id}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Vetting */}
+            <div>
+              <div className='flex items-center justify-between mb-2'>
+                <ComponentSubtitle className='text-[var(--color-text-tertiary)]'>
+                  Vetting
+                </ComponentSubtitle>
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => handleRevet(selectedApplication.id)}
+                  disabled={isRevetting}
+                >
+                  {isRevetting ? 'Vetting...' : 'Re-run Vetting'}
+                </Button>
               </div>
+              {selectedApplication.vetting_summary ? (
+                <VettingSummaryPanel summary={selectedApplication.vetting_summary} />
+              ) : (
+                <p className='text-sm text-[var(--color-text-tertiary)]'>
+                  This applicant has not been vetted yet.
+                </p>
+              )}
             </div>
 
+            {selectedApplication.status !== 'pending' && (
+              <div>
+                <ComponentTitle className='mb-4'>Interview</ComponentTitle>
+                <ApplicationInterviewPanel
+                  organizationId={organizationId}
+                  application={selectedApplication}
+                />
+              </div>
+            )}
+
             {/* Application Data */}
+            {selectedApplication.form_id && (
+              <div>
+                <ComponentTitle className='mb-4'>Answers</ComponentTitle>
+                <SubmittedApplicationAnswers
+                  organizationId={organizationId}
+                  application={selectedApplication}
+                />
+              </div>
+            )}
+
             {selectedApplication.application_data.cover_letter && (
               <div>
                 <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-2'>
@@ -541,6 +724,21 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
                   />
                 </div>
 
+                {stageOptions.length > 0 && (
+                  <div>
+                    <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-2'>
+                      Stage
+                    </ComponentSubtitle>
+                    <Dropdown
+                      value={selectedApplication.stage_id || ''}
+                      onChange={(stageId) => handleStageMove(selectedApplication.id, stageId)}
+                      options={stageOptions}
+                      placeholder='Move to stage'
+                      className='w-full'
+                    />
+                  </div>
+                )}
+
                 <div>
                   <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-2'>
                     Review Notes
@@ -589,6 +787,30 @@ const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ organizationId
         </Dialog>
       )}
 
+      <BatchVettingDialog
+        organizationId={organizationId}
+        isOpen={showVettingModal}
+        onClose={() => setShowVettingModal(false)}
+      />
+
+      <ApplicationFormBuilder
+        organizationId={organizationId}
+        isOpen={showFormBuilder}
+        onClose={() => setShowFormBuilder(false)}
+      />
+
+      <InterviewSlotManager
+        organizationId={organizationId}
+        isOpen={showInterviewSlots}
+        onClose={() => setShowInterviewSlots(false)}
+      />
+
+      <PipelineSettings
+        organizationId={organizationId}
+        isOpen={showPipelineSettings}
+        onClose={() => setShowPipelineSettings(false)}
+      />
+
       {/* Bulk Action Modal */}
       <Dialog
         isOpen={showBulkActionModal}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Button, ComponentSubtitle, Dialog, Textarea } from '../ui';
+import { useVetApplicantsMutation } from '../../services/apiSlice';
+import type { PlayerVettingSummary } from '../../types/reputation';
+import { VettingSummaryPanel } from './vetting_summary';
+
+interface BatchVettingDialogProps {
+  organizationId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MAX_HANDLES = 50;
+
+const riskOrder = { high: 0, caution: 1, clear: 2 } as const;
+
+const BatchVettingDialog: React.FC<BatchVettingDialogProps> = ({
+  organizationId,
+  isOpen,
+  onClose,
+}) => {
+  const [handles, setHandles] = useState('');
+  const [results, setResults] = useState<PlayerVettingSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [vetApplicants, { isLoading }] = useVetApplicantsMutation();
+
+  const handleVet = async () => {
+    setError(null);
+    try {
+      const summaries = await vetApplicants({
+        organizationId,
+        handles,
+      }).unwrap();
+      // Riskiest first so recruiters see what needs a closer look
+      setResults(
+        [...summaries].sort(
+          (a, b) => riskOrder[a.risk_level] - riskOrder[b.risk_level]
+        )
+      );
+    } catch (err) {
+      console.error('Failed to vet handles:', err);
+      setError(
+        (err as { data?: { error?: string } })?.data?.error ||
+          'Failed to vet handles'
+      );
+    }
+  };
+
+  const handleClose = () => {
+    setHandles('');
+    setResults([]);
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog isOpen={isOpen} onClose={handleClose} title='Vet Handles' size='lg'>
+      <div className='space-y-[var(--spacing-card-lg)]'>
+        <div>
+          <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-2'>
+            RSI Handles
+          </ComponentSubtitle>
+          <Textarea
+            value={handles}
+            onChange={setHandles}
+            placeholder={`Paste up to ${MAX_HANDLES} handles, separated by commas or new lines`}
+            rows={5}
+            className='w-full'
+          />
+          {error && (
+            <p className='text-sm text-[var(--color-error)] mt-2'>{error}</p>
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <div className='space-y-[var(--spacing-element)] max-h-[50vh] overflow-y-auto'>
+            {results.map(summary => (
+              <VettingSummaryPanel key={summary.handle} summary={summary} />
+            ))}
+          </div>
+        )}
+
+        <div className='flex items-center justify-end gap-[var(--gap-button)] pt-[var(--spacing-element)] border-t border-[var(--color-glass-border)]'>
+          <Button variant='ghost' onClick={handleClose}>
+            Close
+          </Button>
+          <Button
+            variant='primary'
+            onClick={handleVet}
+            disabled={isLoading || !handles.trim()}
+          >
+            {isLoading ? 'Vetting...' : 'Run Vetting'}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
+
+export default BatchVettingDialog;
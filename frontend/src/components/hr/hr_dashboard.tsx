@@ -30,7 +30,9 @@ import {
   ExclamationTriangleIcon,
   ArrowRightIcon,
   DocumentCheckIcon,
+  UserGroupIcon,
 } from '@heroicons/react/24/outline';
+import MentorshipPanel from './mentorship_panel';
 
 interface HRDashboardProps {
   organizationId: string;
@@ -52,6 +54,9 @@ function getHRActivityIcon(activityType: string) {
       return AcademicCapIcon;
     case 'document_acknowledged':
       return DocumentCheckIcon;
+    case 'mentor_assigned':
+    case 'mentor_unassigned':
+      return UserGroupIcon;
     default:
       return ClockIcon;
   }
@@ -440,6 +445,61 @@ const HRDashboard: React.FC<HRDashboardProps> = ({ organizationId }) => {
           </Paper>
         </div>
       )}
+
+      {/* Mentorship */}
+      {canViewAnalytics || canManageOnboarding ? (
+        <div>
+          <SectionTitle className='mb-[var(--spacing-card-lg)]'>
+            Mentorship
+          </SectionTitle>
+          <Paper variant='glass-subtle' size='lg'>
+            {canViewAnalytics && hrAnalytics?.metrics.mentorship && (
+              <div className='mb-[var(--spacing-card-lg)]'>
+                <div className='grid grid-cols-2 md:grid-cols-4 gap-[var(--gap-grid-md)] mb-[var(--spacing-element)]'>
+                  {[
+                    { label: 'Active pairings', value: hrAnalytics.metrics.mentorship.active_mentorships },
+                    { label: 'Mentors with room', value: hrAnalytics.metrics.mentorship.available_mentors },
+                    { label: 'Recruits without mentor', value: hrAnalytics.metrics.mentorship.members_without_mentor },
+                    { label: 'Overdue check-ins', value: hrAnalytics.metrics.mentorship.overdue_check_ins },
+                  ].map(stat => (
+                    <div key={stat.label} className='text-center'>
+                      <StatMedium>{stat.value}</StatMedium>
+                      <div className='text-xs' style={{ color: 'var(--color-text-tertiary)' }}>
+                        {stat.label}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-[var(--gap-grid-md)]'>
+                  {hrAnalytics.metrics.mentorship.load_by_mentor.slice(0, 6).map(load => (
+                    <div key={load.mentor_id} className='rounded-lg' style={{ padding: 'var(--spacing-element)', backgroundColor: 'var(--color-glass-bg-hover)' }}>
+                      <div className='flex justify-between text-sm mb-[var(--spacing-tight)]'>
+                        <ComponentTitle className='text-sm'>{load.mentor_handle}</ComponentTitle>
+                        <span style={{ color: 'var(--color-text-tertiary)' }}>
+                          {load.active_mentees}/{load.max_mentees}
+                        </span>
+                      </div>
+                      <div className='w-full rounded-full h-2' style={{ backgroundColor: 'var(--color-glass-bg)' }}>
+                        <div
+                          className='h-2 rounded-full'
+                          style={{
+                            backgroundColor: load.active_mentees >= load.max_mentees ? 'var(--color-warning)' : 'var(--color-success)',
+                            width: `${Math.min(100, (load.active_mentees / Math.max(1, load.max_mentees)) * 100)}%`,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <MentorshipPanel organizationId={organizationId} canManage={canManageOnboarding} />
+          </Paper>
+        </div>
+      ) : (
+        // Mentors and mentees without HR access only see their own pairings
+        <MentorshipPanel organizationId={organizationId} canManage={false} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,599 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Chip,
+  ComponentSubtitle,
+  ComponentTitle,
+  DateTimePicker,
+  Dialog,
+  Paper,
+  Select,
+  Textarea,
+} from '../ui';
+import {
+  useBookInterviewSlotMutation,
+  useCancelInterviewSlotMutation,
+  useGetApplicationInterviewQuery,
+  useGetInterviewSlotsQuery,
+  useGetOpenInterviewSlotsQuery,
+  usePublishInterviewSlotMutation,
+  useRecordInterviewNotesMutation,
+} from '../../services/apiSlice';
+import type {
+  Application,
+  InterviewCriterion,
+  InterviewRecommendation,
+  InterviewSlot,
+  InterviewSlotStatus,
+} from '../../types/hr';
+
+export const RECOMMENDATION_LABELS: Record<InterviewRecommendation, string> = {
+  strong_yes: 'Strong yes',
+  yes: 'Yes',
+  no: 'No',
+  strong_no: 'Strong no',
+};
+
+const CRITERION_LABELS: Record<InterviewCriterion, string> = {
+  communication: 'Communication',
+  experience: 'Experience',
+  teamwork: 'Teamwork',
+  availability: 'Availability',
+};
+
+const STATUS_CHIP_VARIANTS: Record<
+  InterviewSlotStatus,
+  'status' | 'selected' | 'default'
+> = {
+  open: 'status',
+  booked: 'selected',
+  completed: 'default',
+  cancelled: 'default',
+};
+
+const DURATION_OPTIONS = [30, 45, 60, 90].map(minutes => ({
+  value: String(minutes),
+  label: `${minutes} minutes`,
+}));
+
+const RATING_OPTIONS = [
+  { value: '', label: 'Not rated' },
+  ...[1, 2, 3, 4, 5].map(rating => ({
+    value: String(rating),
+    label: String(rating),
+  })),
+];
+
+const recommendationOptions = (
+  Object.keys(RECOMMENDATION_LABELS) as InterviewRecommendation[]
+).map(value => ({ value, label: RECOMMENDATION_LABELS[value] }));
+
+export const formatInterviewTime = (slot: InterviewSlot) => {
+  const start = new Date(slot.start_time);
+  const end = new Date(slot.end_time);
+  return `${start.toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })} - ${end.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  })}`;
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { data?: { error?: string } })?.data?.error || fallback;
+
+interface InterviewSlotManagerProps {
+  organizationId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Recruiters publish the windows they can interview in and see who booked them
+ */
+export const InterviewSlotManager: React.FC<InterviewSlotManagerProps> = ({
+  organizationId,
+  isOpen,
+  onClose,
+}) => {
+  const [startTime, setStartTime] = useState('');
+  const [duration, setDuration] = useState('30');
+  const [createDiscordEvent, setCreateDiscordEvent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: slots = [], isLoading } = useGetInterviewSlotsQuery(
+    { organizationId },
+    { skip: !isOpen }
+  );
+  const [publishSlot, { isLoading: isPublishing }] =
+    usePublishInterviewSlotMutation();
+  const [cancelSlot] = useCancelInterviewSlotMutation();
+
+  const handlePublish = async () => {
+    if (!startTime) {
+      setError('Pick when the interview slot starts');
+      return;
+    }
+
+    // The picker gives the UTC time without its zone designator
+    const start = new Date(`${startTime}Z`);
+    const end = new Date(start.getTime() + Number(duration) * 60 * 1000);
+
+    try {
+      await publishSlot({
+        organizationId,
+        data: {
+          start_time: start.toISOString(),
+          end_time: end.toISOString(),
+          create_discord_event: createDiscordEvent,
+        },
+      }).unwrap();
+      setStartTime('');
+      setError(null);
+    } catch (publishError) {
+      setError(
+        getErrorMessage(publishError, 'Failed to publish interview slot')
+      );
+    }
+  };
+
+  const handleCancel = async (slot: InterviewSlot) => {
+    if (
+      slot.status === 'booked' &&
+      !window.confirm(
+        `Cancel the interview with ${slot.applicant_rsi_handle || 'this applicant'}? They will be asked to pick another slot.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await cancelSlot({ organizationId, slotId: slot.id }).unwrap();
+    } catch (cancelError) {
+      setError(getErrorMessage(cancelError, 'Failed to cancel interview slot'));
+    }
+  };
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title='Interview Slots' size='lg'>
+      <div className='space-y-[var(--spacing-card-lg)]'>
+        <div>
+          <ComponentTitle className='mb-4'>Publish Availability</ComponentTitle>
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--spacing-element)]'>
+            <DateTimePicker
+              label='Starts'
+              value={startTime}
+              onChange={setStartTime}
+              placeholder='Select date and time'
+            />
+            <Select
+              label='Duration'
+              value={duration}
+              onChange={value => setDuration(value as string)}
+              options={DURATION_OPTIONS}
+            />
+          </div>
+          <Checkbox
+            className='mt-[var(--spacing-element)]'
+            checked={createDiscordEvent}
+            onChange={setCreateDiscordEvent}
+            label='Create a private Discord voice channel event'
+            description='Once booked, the interviewer and the applicant get a voice channel only they can see'
+          />
+          {error && <p className='text-sm text-error mt-2'>{error}</p>}
+          <div className='flex justify-end mt-[var(--spacing-element)]'>
+            <Button
+              variant='primary'
+              size='sm'
+              onClick={handlePublish}
+              disabled={isPublishing}
+            >
+              {isPublishing ? 'Publishing...' : 'Publish Slot'}
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <ComponentTitle className='mb-4'>Upcoming Slots</ComponentTitle>
+          {isLoading ? (
+            <p className='text-sm text-[var(--color-text-tertiary)]'>
+              Loading interview slots...
+            </p>
+          ) : slots.length === 0 ? (
+            <p className='text-sm text-[var(--color-text-tertiary)]'>
+              No upcoming interview slots. Publish one so applicants can book an
+              interview.
+            </p>
+          ) : (
+            <div className='space-y-[var(--spacing-tight)]'>
+              {slots.map(slot => (
+                <Paper key={slot.id} variant='glass-subtle' size='sm'>
+                  <div className='flex items-center justify-between gap-[var(--gap-button)]'>
+                    <div>
+                      <div className='text-[var(--color-text-primary)] text-sm'>
+                        {formatInterviewTime(slot)}
+                      </div>
+                      <div className='text-xs text-[var(--color-text-tertiary)]'>
+                        {slot.interviewer_rsi_handle}
+                        {slot.applicant_rsi_handle &&
+                          ` with ${slot.applicant_rsi_handle}`}
+                        {slot.create_discord_event &&
+                          ' · Discord voice channel'}
+                      </div>
+                    </div>
+                    <div className='flex items-center gap-[var(--gap-button)]'>
+                      <Chip
+                        variant={STATUS_CHIP_VARIANTS[slot.status]}
+                        size='sm'
+                      >
+                        {slot.status}
+                      </Chip>
+                      {(slot.status === 'open' || slot.status === 'booked') && (
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          onClick={() => handleCancel(slot)}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Paper>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Dialog>
+  );
+};
+
+interface InterviewSlotPickerProps {
+  organizationId: string;
+  application: Application;
+}
+
+/**
+ * Applicants pick a slot for their interview, or move it to another slot
+ */
+export const InterviewSlotPicker: React.FC<InterviewSlotPickerProps> = ({
+  organizationId,
+  application,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const canBook =
+    application.status === 'under_review' ||
+    application.status === 'interview_scheduled';
+
+  const { data: interview } = useGetApplicationInterviewQuery({
+    organizationId,
+    applicationId: application.id,
+  });
+  const { data: slots = [], isLoading } = useGetOpenInterviewSlotsQuery(
+    { organizationId, applicationId: application.id },
+    { skip: !canBook }
+  );
+  const [bookSlot, { isLoading: isBooking }] = useBookInterviewSlotMutation();
+
+  const handleBook = async (slot: InterviewSlot) => {
+    try {
+      await bookSlot({
+        organizationId,
+        applicationId: application.id,
+        slotId: slot.id,
+      }).unwrap();
+      setError(null);
+    } catch (bookError) {
+      setError(getErrorMessage(bookError, 'Failed to book interview slot'));
+    }
+  };
+
+  if (!canBook && !interview) {
+    return null;
+  }
+
+  const upcoming = interview?.status === 'booked' ? interview : null;
+
+  return (
+    <div className='space-y-[var(--spacing-element)]'>
+      <ComponentTitle>Interview</ComponentTitle>
+      {upcoming && (
+        <Paper variant='glass-subtle' size='sm'>
+          <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-1'>
+            Your interview
+          </ComponentSubtitle>
+          <p className='text-[var(--color-text-primary)] text-sm'>
+            {formatInterviewTime(upcoming)} with{' '}
+            {upcoming.interviewer_rsi_handle}
+          </p>
+          {upcoming.discord_event_id && (
+            <p className='text-xs text-[var(--color-text-tertiary)] mt-1'>
+              A private voice channel is waiting for you on the organization's
+              Discord server.
+            </p>
+          )}
+        </Paper>
+      )}
+
+      {canBook && (
+        <div>
+          <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-2'>
+            {upcoming
+              ? 'Move to another slot'
+              : 'Pick a time for your interview'}
+          </ComponentSubtitle>
+          {isLoading ? (
+            <p className='text-sm text-[var(--color-text-tertiary)]'>
+              Loading interview slots...
+            </p>
+          ) : slots.length === 0 ? (
+            <p className='text-sm text-[var(--color-text-tertiary)]'>
+              No interview slots are open right now. Check back later.
+            </p>
+          ) : (
+            <div className='space-y-[var(--spacing-tight)]'>
+              {slots.map(slot => (
+                <div
+                  key={slot.id}
+                  className='flex items-center justify-between gap-[var(--gap-button)]'
+                >
+                  <span className='text-sm text-[var(--color-text-secondary)]'>
+                    {formatInterviewTime(slot)} with{' '}
+                    {slot.interviewer_rsi_handle}
+                  </span>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() => handleBook(slot)}
+                    disabled={isBooking}
+                  >
+                    Book
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className='text-sm text-error'>{error}</p>}
+    </div>
+  );
+};
+
+interface ApplicationInterviewPanelProps {
+  organizationId: string;
+  application: Application;
+}
+
+/**
+ * The application's interview for recruiters, with the interviewer's notes and
+ * recommendation
+ */
+export const ApplicationInterviewPanel: React.FC<
+  ApplicationInterviewPanelProps
+> = ({ organizationId, application }) => {
+  const { data: interview, isLoading } = useGetApplicationInterviewQuery({
+    organizationId,
+    applicationId: application.id,
+  });
+  const [recordNotes, { isLoading: isSaving }] =
+    useRecordInterviewNotesMutation();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [summary, setSummary] = useState('');
+  const [strengths, setStrengths] = useState('');
+  const [concerns, setConcerns] = useState('');
+  const [ratings, setRatings] = useState<
+    Partial<Record<InterviewCriterion, number>>
+  >({});
+  const [recommendation, setRecommendation] =
+    useState<InterviewRecommendation>('yes');
+  const [error, setError] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <p className='text-sm text-[var(--color-text-tertiary)]'>
+        Loading interview...
+      </p>
+    );
+  }
+
+  if (!interview) {
+    return (
+      <p className='text-sm text-[var(--color-text-tertiary)]'>
+        No interview has been booked for this application.
+      </p>
+    );
+  }
+
+  const hasStarted = new Date(interview.start_time) <= new Date();
+
+  const startEditing = () => {
+    setSummary(interview.notes?.summary || '');
+    setStrengths(interview.notes?.strengths || '');
+    setConcerns(interview.notes?.concerns || '');
+    setRatings(interview.notes?.ratings || {});
+    setRecommendation(interview.recommendation || 'yes');
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const setRating = (criterion: InterviewCriterion, value: string) => {
+    setRatings(prev => {
+      const { [criterion]: _previous, ...rest } = prev;
+      return value ? { ...rest, [criterion]: Number(value) } : rest;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!summary.trim()) {
+      setError('Summarize how the interview went');
+      return;
+    }
+
+    try {
+      await recordNotes({
+        organizationId,
+        applicationId: application.id,
+        data: {
+          notes: {
+            summary: summary.trim(),
+            ...(strengths.trim() && { strengths: strengths.trim() }),
+            ...(concerns.trim() && { concerns: concerns.trim() }),
+            ...(Object.keys(ratings).length > 0 && { ratings }),
+          },
+          recommendation,
+        },
+      }).unwrap();
+      setIsEditing(false);
+    } catch (saveError) {
+      setError(getErrorMessage(saveError, 'Failed to save interview notes'));
+    }
+  };
+
+  return (
+    <div className='space-y-[var(--spacing-element)]'>
+      <Paper variant='glass-subtle' size='sm'>
+        <div className='flex items-center justify-between gap-[var(--gap-button)]'>
+          <div>
+            <p className='text-[var(--color-text-primary)] text-sm'>
+              {formatInterviewTime(interview)}
+            </p>
+            <p className='text-xs text-[var(--color-text-tertiary)]'>
+              Interviewer: {interview.interviewer_rsi_handle}
+              {interview.discord_event_id && ' · Discord voice channel'}
+            </p>
+          </div>
+          {interview.recommendation && (
+            <Chip variant='selected' size='sm'>
+              {RECOMMENDATION_LABELS[interview.recommendation]}
+            </Chip>
+          )}
+        </div>
+      </Paper>
+
+      {interview.notes && !isEditing && (
+        <div className='space-y-[var(--spacing-tight)]'>
+          <p className='text-[var(--color-text-secondary)] text-sm whitespace-pre-wrap'>
+            {interview.notes.summary}
+          </p>
+          {interview.notes.strengths && (
+            <p className='text-sm text-[var(--color-text-secondary)] whitespace-pre-wrap'>
+              <span className='text-[var(--color-text-tertiary)]'>
+                Strengths:{' '}
+              </span>
+              {interview.notes.strengths}
+            </p>
+          )}
+          {interview.notes.concerns && (
+            <p className='text-sm text-[var(--color-text-secondary)] whitespace-pre-wrap'>
+              <span className='text-[var(--color-text-tertiary)]'>
+                Concerns:{' '}
+              </span>
+              {interview.notes.concerns}
+            </p>
+          )}
+          {interview.notes.ratings && (
+            <div className='flex flex-wrap gap-[var(--spacing-tight)]'>
+              {(
+                Object.keys(interview.notes.ratings) as InterviewCriterion[]
+              ).map(criterion => (
+                <Chip key={criterion} size='sm'>
+                  {CRITERION_LABELS[criterion]}:{' '}
+                  {interview.notes!.ratings![criterion]}/5
+                </Chip>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className='space-y-[var(--spacing-element)]'>
+          <Textarea
+            label='Summary'
+            value={summary}
+            onChange={setSummary}
+            required
+            rows={3}
+            maxLength={2000}
+          />
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--spacing-element)]'>
+            <Textarea
+              label='Strengths'
+              value={strengths}
+              onChange={setStrengths}
+              rows={2}
+              maxLength={2000}
+            />
+            <Textarea
+              label='Concerns'
+              value={concerns}
+              onChange={setConcerns}
+              rows={2}
+              maxLength={2000}
+            />
+          </div>
+          <div className='grid grid-cols-2 md:grid-cols-4 gap-[var(--spacing-element)]'>
+            {(Object.keys(CRITERION_LABELS) as InterviewCriterion[]).map(
+              criterion => (
+                <Select
+                  key={criterion}
+                  label={CRITERION_LABELS[criterion]}
+                  value={ratings[criterion] ? String(ratings[criterion]) : ''}
+                  onChange={value => setRating(criterion, value as string)}
+                  options={RATING_OPTIONS}
+                />
+              )
+            )}
+          </div>
+          <Select
+            label='Recommendation'
+            value={recommendation}
+            onChange={value =>
+              setRecommendation(value as InterviewRecommendation)
+            }
+            options={recommendationOptions}
+            description='Added to the application history'
+            required
+          />
+          {error && <p className='text-sm text-error'>{error}</p>}
+          <div className='flex justify-end gap-[var(--gap-button)]'>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant='primary'
+              size='sm'
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? 'Saving...' : 'Save Notes'}
+            </Button>
+          </div>
+        </div>
+      ) : hasStarted ? (
+        <Button variant='outline' size='sm' onClick={startEditing}>
+          {interview.notes ? 'Edit Notes' : 'Record Notes'}
+        </Button>
+      ) : (
+        <p className='text-sm text-[var(--color-text-tertiary)]'>
+          Notes can be recorded once the interview has started.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InterviewSlotManager;
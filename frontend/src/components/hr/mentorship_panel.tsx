@@ -0,0 +1,443 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Chip,
+  ComponentSubtitle,
+  ComponentTitle,
+  Dialog,
+  MemberAutocomplete,
+  Paper,
+  Select,
+  Textarea,
+} from '../ui';
+import type { OrganizationMember } from '../ui/MemberAutocomplete';
+import {
+  useAssignMentorMutation,
+  useCompleteMentorshipCheckInMutation,
+  useEndMentorshipMutation,
+  useGetCurrentUserQuery,
+  useGetMentorMatchesQuery,
+  useGetMentorshipsQuery,
+  useGetMyMentorshipsQuery,
+  useGetOrganizationMembersQuery,
+} from '../../services/apiSlice';
+import type { MentorMatch, Mentorship } from '../../types/hr';
+
+const CHECK_IN_INTERVAL_OPTIONS = [7, 14, 30].map(days => ({
+  value: String(days),
+  label: `Every ${days} days`,
+}));
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { data?: { error?: string } })?.data?.error || fallback;
+
+export const formatCheckInDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })
+    : 'Not scheduled';
+
+const describeMatch = (match: MentorMatch) =>
+  [
+    `${match.mentor.active_mentees}/${match.mentor.max_mentees} mentees`,
+    match.shared_skill_ids.length > 0 &&
+      `${match.shared_skill_ids.length} shared skill${match.shared_skill_ids.length === 1 ? '' : 's'}`,
+    match.shared_languages.length > 0 && match.shared_languages.join(', '),
+    match.timezone_difference_hours !== null &&
+      match.timezone_difference_hours !== undefined &&
+      `${match.timezone_difference_hours}h apart`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+interface MentorAssignmentDialogProps {
+  organizationId: string;
+  menteeId: string;
+  menteeHandle: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * HR picks a mentor for a recruit from the best matches, or lets the matcher pick
+ */
+export const MentorAssignmentDialog: React.FC<MentorAssignmentDialogProps> = ({
+  organizationId,
+  menteeId,
+  menteeHandle,
+  isOpen,
+  onClose,
+}) => {
+  const [checkInInterval, setCheckInInterval] = useState('14');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: matches = [], isLoading } = useGetMentorMatchesQuery(
+    { organizationId, userId: menteeId },
+    { skip: !isOpen }
+  );
+  const [assignMentor, { isLoading: isAssigning }] = useAssignMentorMutation();
+
+  const handleAssign = async (mentorId?: string) => {
+    try {
+      await assignMentor({
+        organizationId,
+        userId: menteeId,
+        data: {
+          ...(mentorId && { mentor_id: mentorId }),
+          check_in_interval_days: Number(checkInInterval),
+        },
+      }).unwrap();
+      setError(null);
+      onClose();
+    } catch (assignError) {
+      setError(getErrorMessage(assignError, 'Failed to assign mentor'));
+    }
+  };
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Mentor for ${menteeHandle}`}
+      size='lg'
+    >
+      <div className='space-y-[var(--spacing-element)]'>
+        <Select
+          label='Check-ins'
+          value={checkInInterval}
+          onChange={value => setCheckInInterval(value as string)}
+          options={CHECK_IN_INTERVAL_OPTIONS}
+        />
+
+        <ComponentTitle>Suggested Mentors</ComponentTitle>
+        {isLoading ? (
+          <p className='text-sm text-[var(--color-text-tertiary)]'>
+            Finding mentors...
+          </p>
+        ) : matches.length === 0 ? (
+          <p className='text-sm text-[var(--color-text-tertiary)]'>
+            No mentor has room for another mentee. Raise a mentor's limit or
+            add more mentors.
+          </p>
+        ) : (
+          <div className='space-y-[var(--spacing-tight)]'>
+            {matches.map(match => (
+              <Paper key={match.mentor.user_id} variant='glass-subtle' size='sm'>
+                <div className='flex items-center justify-between gap-[var(--gap-button)]'>
+                  <div>
+                    <div className='text-[var(--color-text-primary)] text-sm'>
+                      {match.mentor.rsi_handle}
+                    </div>
+                    <div className='text-xs text-[var(--color-text-tertiary)]'>
+                      {describeMatch(match)}
+                    </div>
+                  </div>
+                  <div className='flex items-center gap-[var(--gap-button)]'>
+                    <Chip variant='status' size='sm'>
+                      {Math.round(match.score * 100)}% match
+                    </Chip>
+                    <Button
+                      variant='secondary'
+                      size='sm'
+                      onClick={() => handleAssign(match.mentor.user_id)}
+                      disabled={isAssigning}
+                    >
+                      Assign
+                    </Button>
+                  </div>
+                </div>
+              </Paper>
+            ))}
+          </div>
+        )}
+
+        {error && <p className='text-sm text-error'>{error}</p>}
+        <div className='flex justify-end gap-[var(--gap-button)]'>
+          <Button variant='ghost' size='sm' onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant='primary'
+            size='sm'
+            onClick={() => handleAssign()}
+            disabled={isAssigning || matches.length === 0}
+          >
+            {isAssigning ? 'Assigning...' : 'Assign Best Match'}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
+
+interface CheckInDialogProps {
+  organizationId: string;
+  mentorship: Mentorship;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Mentors close the current check-in and can leave notes on how it went
+ */
+const CheckInDialog: React.FC<CheckInDialogProps> = ({
+  organizationId,
+  mentorship,
+  isOpen,
+  onClose,
+}) => {
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [completeCheckIn, { isLoading }] =
+    useCompleteMentorshipCheckInMutation();
+
+  const handleComplete = async () => {
+    try {
+      await completeCheckIn({
+        organizationId,
+        mentorshipId: mentorship.id,
+        ...(notes.trim() && { notes: notes.trim() }),
+      }).unwrap();
+      setNotes('');
+      setError(null);
+      onClose();
+    } catch (completeError) {
+      setError(getErrorMessage(completeError, 'Failed to complete check-in'));
+    }
+  };
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Check-in with ${mentorship.mentee_rsi_handle}`}
+      size='md'
+    >
+      <div className='space-y-[var(--spacing-element)]'>
+        <Textarea
+          label='Notes'
+          description='Only the mentor and HR can read these'
+          value={notes}
+          onChange={setNotes}
+          rows={4}
+          maxLength={5000}
+        />
+        <p className='text-xs text-[var(--color-text-tertiary)]'>
+          The next check-in is scheduled {mentorship.check_in_interval_days}{' '}
+          days from now.
+        </p>
+        {error && <p className='text-sm text-error'>{error}</p>}
+        <div className='flex justify-end gap-[var(--gap-button)]'>
+          <Button variant='ghost' size='sm' onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant='primary'
+            size='sm'
+            onClick={handleComplete}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Saving...' : 'Complete Check-in'}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
+
+interface MentorshipPanelProps {
+  organizationId: string;
+  canManage: boolean;
+}
+
+/**
+ * Mentors and mentees see their pairings; HR also pairs recruits and ends pairings
+ */
+const MentorshipPanel: React.FC<MentorshipPanelProps> = ({
+  organizationId,
+  canManage,
+}) => {
+  const [assigning, setAssigning] = useState<{
+    id: string;
+    handle: string;
+  } | null>(null);
+  const [checkingIn, setCheckingIn] = useState<Mentorship | null>(null);
+  const [menteeMemberId, setMenteeMemberId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: currentUser } = useGetCurrentUserQuery();
+  const { data: myMentorships = [] } = useGetMyMentorshipsQuery({
+    organizationId,
+  });
+  const { data: activeMentorships = [] } = useGetMentorshipsQuery(
+    { organizationId, filters: { status: 'active' } },
+    { skip: !canManage }
+  );
+  const { data: members = [] } = useGetOrganizationMembersQuery(
+    organizationId,
+    { skip: !canManage }
+  );
+  const [endMentorship] = useEndMentorshipMutation();
+
+  const handleEnd = async (mentorship: Mentorship) => {
+    if (
+      !window.confirm(
+        `End ${mentorship.mentor_rsi_handle}'s mentorship of ${mentorship.mentee_rsi_handle}?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await endMentorship({
+        organizationId,
+        mentorshipId: mentorship.id,
+      }).unwrap();
+    } catch (endError) {
+      setError(getErrorMessage(endError, 'Failed to end mentorship'));
+    }
+  };
+
+  const handlePickMentee = (memberId: string) => {
+    const member = members.find(
+      (candidate: OrganizationMember) => candidate.id === memberId
+    );
+    setMenteeMemberId(memberId);
+    if (member) {
+      setAssigning({ id: member.user.id, handle: member.user.rsi_handle });
+    }
+  };
+
+  const active = myMentorships.filter(
+    mentorship => mentorship.status === 'active'
+  );
+
+  if (!canManage && active.length === 0) {
+    return null;
+  }
+
+  const renderMentorship = (mentorship: Mentorship, manage: boolean) => (
+    <Paper key={mentorship.id} variant='glass-subtle' size='sm'>
+      <div className='flex items-center justify-between gap-[var(--gap-button)]'>
+        <div>
+          <div className='text-[var(--color-text-primary)] text-sm'>
+            {mentorship.mentor_rsi_handle} mentoring{' '}
+            {mentorship.mentee_rsi_handle}
+          </div>
+          <div className='text-xs text-[var(--color-text-tertiary)]'>
+            Next check-in {formatCheckInDate(mentorship.next_check_in_at)}
+          </div>
+        </div>
+        <div className='flex items-center gap-[var(--gap-button)]'>
+          {mentorship.assignment_method === 'matched' && (
+            <Chip variant='default' size='sm'>
+              matched
+            </Chip>
+          )}
+          {mentorship.mentor_id === currentUser?.id &&
+            mentorship.next_check_in_id && (
+              <Button
+                variant='secondary'
+                size='sm'
+                onClick={() => setCheckingIn(mentorship)}
+              >
+                Check In
+              </Button>
+            )}
+          {manage && (
+            <>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() =>
+                  setAssigning({
+                    id: mentorship.mentee_id,
+                    handle: mentorship.mentee_rsi_handle,
+                  })
+                }
+              >
+                Reassign
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => handleEnd(mentorship)}
+              >
+                End
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </Paper>
+  );
+
+  return (
+    <div className='space-y-[var(--spacing-element)]'>
+      {active.length > 0 && (
+        <div>
+          <ComponentTitle className='mb-[var(--spacing-tight)]'>
+            My Mentorships
+          </ComponentTitle>
+          <div className='space-y-[var(--spacing-tight)]'>
+            {active.map(mentorship => renderMentorship(mentorship, false))}
+          </div>
+        </div>
+      )}
+
+      {canManage && (
+        <div>
+          <ComponentTitle className='mb-[var(--spacing-tight)]'>
+            All Mentorships
+          </ComponentTitle>
+          <MemberAutocomplete
+            label='Pair a recruit with a mentor'
+            placeholder='Search for a member in onboarding...'
+            value={menteeMemberId}
+            onChange={handlePickMentee}
+            members={members}
+          />
+          <div className='space-y-[var(--spacing-tight)] mt-[var(--spacing-element)]'>
+            {activeMentorships.length === 0 ? (
+              <ComponentSubtitle className='text-[var(--color-text-tertiary)]'>
+                No recruits have a mentor yet.
+              </ComponentSubtitle>
+            ) : (
+              activeMentorships.map(mentorship =>
+                renderMentorship(mentorship, true)
+              )
+            )}
+          </div>
+          {error && <p className='text-sm text-error mt-2'>{error}</p>}
+        </div>
+      )}
+
+      {assigning && (
+        <MentorAssignmentDialog
+          organizationId={organizationId}
+          menteeId={assigning.id}
+          menteeHandle={assigning.handle}
+          isOpen
+          onClose={() => {
+            setAssigning(null);
+            setMenteeMemberId('');
+          }}
+        />
+      )}
+
+      {checkingIn && (
+        <CheckInDialog
+          organizationId={organizationId}
+          mentorship={checkingIn}
+          isOpen
+          onClose={() => setCheckingIn(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MentorshipPanel;
@@ -10,7 +10,13 @@ import {
   useUpdateOnboardingProgressMutation,
   useCompleteOnboardingTaskMutation,
 } from '../../services/apiSlice';
-import type { OnboardingProgress, OnboardingTask } from '../../types/hr';
+import type { OnboardingProgress, OnboardingTask, OnboardingTaskTrigger } from '../../types/hr';
+
+const TRIGGER_LABELS: Record<OnboardingTaskTrigger['type'], string> = {
+  document_acknowledged: 'Auto: document acknowledged',
+  training_attended: 'Auto: training attended',
+  skill_verified: 'Auto: skill verified',
+};
 
 interface OnboardingChecklistProps {
   userId?: string;
@@ -70,6 +76,7 @@ const OnboardingChecklist: React.FC<OnboardingChecklistProps> = ({
         await completeTask({
           organizationId,
           taskId,
+          userId,
         }).unwrap();
       } else {
         // Update progress to remove task
@@ -105,6 +112,20 @@ const OnboardingChecklist: React.FC<OnboardingChecklistProps> = ({
     );
   };
 
+  // Prerequisites of the task that are still open
+  const getBlockingTasks = (task: OnboardingTask, tasks: OnboardingTask[]) =>
+    (task.depends_on || [])
+      .filter(dependencyId => !localCompletedTasks.includes(dependencyId))
+      .map(dependencyId => tasks.find(t => t.id === dependencyId))
+      .filter((dependency): dependency is OnboardingTask => !!dependency);
+
+  const getDueDate = (task: OnboardingTask) => {
+    if (task.due_offset_days === undefined || !onboardingProgress) return null;
+    const dueDate = new Date(onboardingProgress.started_at || onboardingProgress.created_at);
+    dueDate.setDate(dueDate.getDate() + task.due_offset_days);
+    return dueDate;
+  };
+
   const calculateProgress = () => {
     if (!onboardingProgress?.template?.tasks) return 0;
     const totalTasks = onboardingProgress.template.tasks.length;
@@ -206,16 +227,22 @@ const OnboardingChecklist: React.FC<OnboardingChecklistProps> = ({
           <div className="space-y-3 lg:space-y-[var(--spacing-element)]">
             {onboardingProgress.template.tasks
               .sort((a: any, b: any) => a.order_index - b.order_index)
-              .map((task: OnboardingTask) => {
+              .map((task: OnboardingTask, _index: number, tasks: OnboardingTask[]) => {
                 const isCompleted = localCompletedTasks.includes(task.id);
-                const isDisabled = isUpdating || isCompletingTask;
+                const blockingTasks = isCompleted ? [] : getBlockingTasks(task, tasks);
+                const isBlocked = blockingTasks.length > 0;
+                const isUnlocked = !isCompleted && !isBlocked && (task.depends_on?.length ?? 0) > 0;
+                const isDisabled = isUpdating || isCompletingTask || isBlocked;
+                const dueDate = getDueDate(task);
+                const isOverdue = !isCompleted && dueDate !== null && dueDate < new Date();
+                const completion = onboardingProgress.task_completions?.[task.id];
 
                 return (
                   <Paper
                     key={task.id}
                     variant="glass"
                     className={`responsive-padding-x responsive-padding-y lg:p-[var(--spacing-card-md)] transition-all duration-[var(--duration-normal)] glass-mobile-reduced ${
-                      isCompleted ? 'opacity-75' : ''
+                      isCompleted || isBlocked ? 'opacity-75' : ''
                     }`}
                   >
                     <div className="flex items-start gap-3 lg:gap-[var(--spacing-element)]">
@@ -244,6 +271,18 @@ const OnboardingChecklist: React.FC<OnboardingChecklistProps> = ({
                                 {task.description}
                               </p>
                             )}
+                            {isBlocked && (
+                              <p className="mt-[var(--spacing-tight)] responsive-text-sm text-muted">
+                                Blocked by: {blockingTasks.map(blockingTask => blockingTask.title).join(', ')}
+                              </p>
+                            )}
+                            {dueDate && !isCompleted && (
+                              <p className={`mt-[var(--spacing-tight)] responsive-text-sm ${
+                                isOverdue ? 'text-error' : 'text-tertiary'
+                              }`}>
+                                {isOverdue ? 'Overdue since' : 'Due'} {dueDate.toLocaleDateString()}
+                              </p>
+                            )}
                           </div>
                           
                           <div className="flex flex-wrap items-center gap-2 lg:gap-[var(--spacing-tight)] flex-shrink-0">
@@ -257,9 +296,29 @@ const OnboardingChecklist: React.FC<OnboardingChecklistProps> = ({
                                 {task.estimated_hours}h
                               </Chip>
                             )}
+                            {task.assignee_type && task.assignee_type !== 'member' && (
+                              <Chip variant="default" size="sm" className="text-info">
+                                {task.assignee_type === 'role' ? 'Role sign-off' : 'Assigned sign-off'}
+                              </Chip>
+                            )}
+                            {task.completion_trigger && !isCompleted && (
+                              <Chip variant="default" size="sm" className="text-muted">
+                                {TRIGGER_LABELS[task.completion_trigger.type]}
+                              </Chip>
+                            )}
+                            {isBlocked && (
+                              <Chip variant="default" size="sm" className="text-muted">
+                                Blocked
+                              </Chip>
+                            )}
+                            {isUnlocked && (
+                              <Chip variant="interactive" size="sm" className="text-brand-secondary">
+                                Unlocked
+                              </Chip>
+                            )}
                             {isCompleted && (
                               <Chip variant="status" size="sm" className="text-success">
-                                ✓ Done
+                                {completion?.source === 'trigger' ? '✓ Done automatically' : '✓ Done'}
                               </Chip>
                             )}
                           </div>
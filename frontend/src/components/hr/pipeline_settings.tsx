@@ -0,0 +1,752 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Chip,
+  ComponentSubtitle,
+  ComponentTitle,
+  Dialog,
+  Input,
+  Paper,
+  Select,
+} from '../ui';
+import {
+  useCreatePipelineRuleMutation,
+  useDeletePipelineRuleMutation,
+  useGetOnboardingTemplatesQuery,
+  useGetOrganizationMembersQuery,
+  useGetOrganizationRolesQuery,
+  useGetRecruitmentPipelineQuery,
+  useUpdatePipelineRuleMutation,
+  useUpdatePipelineStagesMutation,
+} from '../../services/apiSlice';
+import type {
+  ApplicationStatus,
+  PipelineRule,
+  PipelineRuleAction,
+  PipelineRuleConditions,
+  PipelineRuleTrigger,
+  PipelineStage,
+  PipelineStageData,
+} from '../../types/hr';
+import type { OrganizationMember } from '../ui/MemberAutocomplete';
+
+interface PipelineSettingsProps {
+  organizationId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  trigger: PipelineRuleTrigger;
+  conditions: PipelineRuleConditions;
+  actions: PipelineRuleAction[];
+  is_active: boolean;
+}
+
+const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  pending: 'Pending',
+  under_review: 'Under Review',
+  interview_scheduled: 'Interview Scheduled',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const TRIGGER_LABELS: Record<PipelineRuleTrigger, string> = {
+  application_submitted: 'Application submitted',
+  status_changed: 'Status changed',
+  stage_entered: 'Stage entered',
+  idle: 'No activity for a number of days',
+};
+
+const ACTION_LABELS: Record<PipelineRuleAction['type'], string> = {
+  reject: 'Reject',
+  move_to_stage: 'Move to stage',
+  assign_round_robin: 'Assign to recruiters in turn',
+  generate_invite_code: 'Generate invite code',
+  assign_role: 'Assign role',
+  start_onboarding: 'Start onboarding',
+};
+
+// These bring the applicant into the organization, so the server only accepts
+// them in rules limited to approved applications
+const MEMBERSHIP_ACTIONS: PipelineRuleAction['type'][] = [
+  'generate_invite_code',
+  'assign_role',
+  'start_onboarding',
+];
+
+const statusOptions = (Object.keys(STATUS_LABELS) as ApplicationStatus[]).map(
+  status => ({ value: status, label: STATUS_LABELS[status] })
+);
+
+const triggerOptions = (
+  Object.keys(TRIGGER_LABELS) as PipelineRuleTrigger[]
+).map(trigger => ({ value: trigger, label: TRIGGER_LABELS[trigger] }));
+
+const actionOptions = (
+  Object.keys(ACTION_LABELS) as PipelineRuleAction['type'][]
+).map(type => ({ value: type, label: ACTION_LABELS[type] }));
+
+const newAction = (type: PipelineRuleAction['type']): PipelineRuleAction => {
+  switch (type) {
+    case 'reject':
+      return { type, reason: '' };
+    case 'move_to_stage':
+      return { type, stage_id: '' };
+    case 'assign_round_robin':
+      return { type, recruiter_ids: [] };
+    case 'assign_role':
+      return { type, role_id: '' };
+    case 'start_onboarding':
+      return { type, template_id: '' };
+    default:
+      return { type: 'generate_invite_code' };
+  }
+};
+
+const errorMessage = (err: unknown, fallback: string) => {
+  const response = (err as { data?: { error?: string; details?: unknown[] } })
+    ?.data;
+  const detail = response?.details?.[0];
+  return (
+    (typeof detail === 'string' ? detail : null) || response?.error || fallback
+  );
+};
+
+const PipelineSettings: React.FC<PipelineSettingsProps> = ({
+  organizationId,
+  isOpen,
+  onClose,
+}) => {
+  const [stages, setStages] = useState<PipelineStageData[] | null>(null);
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: pipeline, isLoading } = useGetRecruitmentPipelineQuery(
+    { organizationId },
+    { skip: !isOpen }
+  );
+  const { data: roles = [] } = useGetOrganizationRolesQuery(organizationId, {
+    skip: !isOpen || !ruleDraft,
+  });
+  const { data: members = [] } = useGetOrganizationMembersQuery(
+    organizationId,
+    { skip: !isOpen || !ruleDraft }
+  );
+  const { data: templates = [] } = useGetOnboardingTemplatesQuery(
+    { organizationId },
+    { skip: !isOpen || !ruleDraft }
+  );
+  const [updateStages, { isLoading: isSavingStages }] =
+    useUpdatePipelineStagesMutation();
+  const [createRule, { isLoading: isCreating }] =
+    useCreatePipelineRuleMutation();
+  const [updateRule, { isLoading: isUpdating }] =
+    useUpdatePipelineRuleMutation();
+  const [deleteRule] = useDeletePipelineRuleMutation();
+
+  const savedStages = pipeline?.stages || [];
+  const rules = pipeline?.rules || [];
+
+  const stageOptions = savedStages.map(stage => ({
+    value: stage.id,
+    label: `${stage.name} (${STATUS_LABELS[stage.status]})`,
+  }));
+  const stageName = (stageId?: string) =>
+    savedStages.find(stage => stage.id === stageId)?.name || 'a removed stage';
+
+  const editStages = () => {
+    setStages(
+      savedStages.map((stage: PipelineStage) => ({
+        id: stage.id,
+        name: stage.name,
+        description: stage.description ?? null,
+        status: stage.status,
+      }))
+    );
+    setError(null);
+  };
+
+  const updateStage = (index: number, changes: Partial<PipelineStageData>) => {
+    setStages(prev => {
+      if (!prev) return prev;
+      const next = [...prev];
+      next[index] = { ...next[index]!, ...changes };
+      return next;
+    });
+  };
+
+  const moveStage = (index: number, offset: -1 | 1) => {
+    setStages(prev => {
+      if (!prev) return prev;
+      const next = [...prev];
+      const [stage] = next.splice(index, 1);
+      next.splice(index + offset, 0, stage!);
+      return next;
+    });
+  };
+
+  const handleSaveStages = async () => {
+    if (!stages) return;
+    setError(null);
+
+    try {
+      await updateStages({
+        organizationId,
+        stages: stages.map(stage => ({ ...stage, name: stage.name.trim() })),
+      }).unwrap();
+      setStages(null);
+    } catch (err) {
+      console.error('Failed to save pipeline stages:', err);
+      setError(errorMessage(err, 'Failed to save pipeline stages'));
+    }
+  };
+
+  const editRule = (rule?: PipelineRule) => {
+    setRuleDraft({
+      ...(rule && { id: rule.id }),
+      name: rule?.name || '',
+      trigger: rule?.trigger || 'application_submitted',
+      conditions: rule?.conditions || {},
+      actions: rule?.actions || [newAction('assign_round_robin')],
+      is_active: rule?.is_active ?? true,
+    });
+    setError(null);
+  };
+
+  const updateCondition = (
+    field: keyof PipelineRuleConditions,
+    value: string | number | undefined
+  ) => {
+    setRuleDraft(prev => {
+      if (!prev) return prev;
+      const { [field]: _cleared, ...conditions } = prev.conditions;
+      return {
+        ...prev,
+        conditions: value ? { ...conditions, [field]: value } : conditions,
+      };
+    });
+  };
+
+  const updateAction = (index: number, action: PipelineRuleAction) => {
+    setRuleDraft(prev => {
+      if (!prev) return prev;
+      const actions = [...prev.actions];
+      actions[index] = action;
+      return { ...prev, actions };
+    });
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleDraft) return;
+    setError(null);
+
+    const { id, ...rule } = ruleDraft;
+    // Idle days left over from switching the trigger away from idle
+    const { idle_days: _idleDays, ...conditions } = rule.conditions;
+    const data = {
+      ...rule,
+      name: rule.name.trim(),
+      conditions: rule.trigger === 'idle' ? rule.conditions : conditions,
+    };
+
+    try {
+      if (id) {
+        await updateRule({ organizationId, ruleId: id, data }).unwrap();
+      } else {
+        await createRule({ organizationId, data }).unwrap();
+      }
+      setRuleDraft(null);
+    } catch (err) {
+      console.error('Failed to save automation rule:', err);
+      setError(errorMessage(err, 'Failed to save automation rule'));
+    }
+  };
+
+  const handleToggleRule = async (rule: PipelineRule) => {
+    try {
+      await updateRule({
+        organizationId,
+        ruleId: rule.id,
+        data: {
+          name: rule.name,
+          trigger: rule.trigger,
+          conditions: rule.conditions,
+          actions: rule.actions,
+          is_active: !rule.is_active,
+        },
+      }).unwrap();
+    } catch (err) {
+      console.error('Failed to update automation rule:', err);
+    }
+  };
+
+  const handleDeleteRule = async (rule: PipelineRule) => {
+    try {
+      await deleteRule({ organizationId, ruleId: rule.id }).unwrap();
+    } catch (err) {
+      console.error('Failed to delete automation rule:', err);
+    }
+  };
+
+  const handleClose = () => {
+    setStages(null);
+    setRuleDraft(null);
+    setError(null);
+    onClose();
+  };
+
+  const describeRule = (rule: PipelineRule) => {
+    const scope = [
+      rule.conditions.status && STATUS_LABELS[rule.conditions.status],
+      rule.conditions.stage_id && stageName(rule.conditions.stage_id),
+      rule.conditions.idle_days && `idle ${rule.conditions.idle_days} days`,
+    ].filter(Boolean);
+    return `${TRIGGER_LABELS[rule.trigger]}${
+      scope.length > 0 ? ` · ${scope.join(', ')}` : ''
+    } → ${rule.actions.map(action => ACTION_LABELS[action.type]).join(', ')}`;
+  };
+
+  const renderOverview = () => (
+    <div className='space-y-[var(--spacing-card-lg)]'>
+      <div className='space-y-[var(--spacing-element)]'>
+        <div className='flex items-center justify-between'>
+          <ComponentTitle>Stages</ComponentTitle>
+          <Button variant='ghost' size='sm' onClick={editStages}>
+            Edit Stages
+          </Button>
+        </div>
+        {isLoading ? (
+          <p className='text-sm text-[var(--color-text-tertiary)]'>
+            Loading pipeline...
+          </p>
+        ) : savedStages.length === 0 ? (
+          <p className='text-sm text-[var(--color-text-tertiary)]'>
+            Applications move through the standard statuses until you add
+            stages.
+          </p>
+        ) : (
+          <div className='flex flex-wrap items-center gap-[var(--spacing-tight)]'>
+            {savedStages.map(stage => (
+              <Chip key={stage.id} size='sm'>
+                {stage.name} · {STATUS_LABELS[stage.status]}
+              </Chip>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className='space-y-[var(--spacing-element)]'>
+        <ComponentTitle>Automation Rules</ComponentTitle>
+        {rules.length === 0 ? (
+          <p className='text-sm text-[var(--color-text-tertiary)]'>
+            No automation rules yet.
+          </p>
+        ) : (
+          rules.map(rule => (
+            <Paper
+              key={rule.id}
+              variant='glass-subtle'
+              size='sm'
+              className='flex items-center justify-between'
+            >
+              <div className='min-w-0'>
+                <div className='flex items-center gap-[var(--spacing-tight)]'>
+                  <span className='font-semibold text-[var(--color-text-primary)]'>
+                    {rule.name}
+                  </span>
+                  {!rule.is_active && <Chip size='sm'>Paused</Chip>}
+                </div>
+                <p className='text-xs text-[var(--color-text-tertiary)]'>
+                  {describeRule(rule)}
+                </p>
+              </div>
+              <div className='flex items-center gap-[var(--gap-button)]'>
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => editRule(rule)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => handleToggleRule(rule)}
+                >
+                  {rule.is_active ? 'Pause' : 'Resume'}
+                </Button>
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => handleDeleteRule(rule)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </Paper>
+          ))
+        )}
+      </div>
+
+      <div className='flex items-center justify-end gap-[var(--gap-button)] pt-[var(--spacing-element)] border-t border-[var(--color-glass-border)]'>
+        <Button variant='ghost' onClick={handleClose}>
+          Close
+        </Button>
+        <Button variant='primary' onClick={() => editRule()}>
+          New Rule
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderStageEditor = (draftStages: PipelineStageData[]) => (
+    <div className='space-y-[var(--spacing-card-lg)]'>
+      <p className='text-sm text-[var(--color-text-tertiary)]'>
+        Each stage sits within an application status. Applications enter the
+        first stage of a status when they reach it; removing a stage takes its
+        applications out of it.
+      </p>
+      <div className='space-y-[var(--spacing-element)] max-h-[50vh] overflow-y-auto'>
+        {draftStages.map((stage, index) => (
+          <Paper
+            key={stage.id || index}
+            variant='glass-subtle'
+            size='sm'
+            className='space-y-[var(--spacing-element)]'
+          >
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--spacing-element)]'>
+              <Input
+                label='Stage Name'
+                value={stage.name}
+                onChange={name => updateStage(index, { name })}
+                placeholder='e.g. Background check'
+                required
+              />
+              <Select
+                label='Status'
+                value={stage.status}
+                onChange={status =>
+                  updateStage(index, { status: status as ApplicationStatus })
+                }
+                options={statusOptions}
+              />
+            </div>
+            <div className='flex items-center justify-end gap-[var(--gap-button)]'>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => moveStage(index, -1)}
+                disabled={index === 0}
+              >
+                Up
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => moveStage(index, 1)}
+                disabled={index === draftStages.length - 1}
+              >
+                Down
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() =>
+                  setStages(
+                    draftStages.filter((_, position) => position !== index)
+                  )
+                }
+              >
+                Remove
+              </Button>
+            </div>
+          </Paper>
+        ))}
+      </div>
+
+      <Button
+        variant='secondary'
+        size='sm'
+        onClick={() =>
+          setStages([...draftStages, { name: '', status: 'under_review' }])
+        }
+      >
+        Add Stage
+      </Button>
+
+      {error && <p className='text-sm text-[var(--color-error)]'>{error}</p>}
+
+      <div className='flex items-center justify-end gap-[var(--gap-button)] pt-[var(--spacing-element)] border-t border-[var(--color-glass-border)]'>
+        <Button variant='ghost' onClick={() => setStages(null)}>
+          Back
+        </Button>
+        <Button
+          variant='primary'
+          onClick={handleSaveStages}
+          disabled={
+            isSavingStages || draftStages.some(stage => !stage.name.trim())
+          }
+        >
+          {isSavingStages ? 'Saving...' : 'Save Stages'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderAction = (action: PipelineRuleAction, index: number) => {
+    switch (action.type) {
+      case 'reject':
+        return (
+          <Input
+            label='Rejection Reason'
+            value={action.reason}
+            onChange={reason => updateAction(index, { ...action, reason })}
+            placeholder='Shown to the applicant'
+            required
+          />
+        );
+      case 'move_to_stage':
+        return (
+          <Select
+            label='Stage'
+            value={action.stage_id}
+            onChange={stageId =>
+              updateAction(index, { ...action, stage_id: stageId as string })
+            }
+            options={stageOptions}
+          />
+        );
+      case 'assign_round_robin':
+        return (
+          <Select
+            label='Recruiters'
+            value={action.recruiter_ids}
+            onChange={recruiterIds =>
+              updateAction(index, {
+                ...action,
+                recruiter_ids: recruiterIds as string[],
+              })
+            }
+            options={members.map((member: OrganizationMember) => ({
+              value: member.user.id,
+              label: member.user.rsi_handle,
+            }))}
+            multiple
+          />
+        );
+      case 'assign_role':
+        return (
+          <Select
+            label='Role'
+            value={action.role_id}
+            onChange={roleId =>
+              updateAction(index, { ...action, role_id: roleId as string })
+            }
+            options={roles.map((role: { id: string; name: string }) => ({
+              value: role.id,
+              label: role.name,
+            }))}
+          />
+        );
+      case 'start_onboarding':
+        return (
+          <Select
+            label='Onboarding Template'
+            value={action.template_id}
+            onChange={templateId =>
+              updateAction(index, {
+                ...action,
+                template_id: templateId as string,
+              })
+            }
+            options={templates
+              .filter(template => template.is_active)
+              .map(template => ({
+                value: template.id,
+                label: template.role_name,
+              }))}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderRuleEditor = (draftRule: RuleDraft) => {
+    const needsApproval =
+      draftRule.conditions.status !== 'approved' &&
+      savedStages.find(stage => stage.id === draftRule.conditions.stage_id)
+        ?.status !== 'approved' &&
+      draftRule.actions.some(action =>
+        MEMBERSHIP_ACTIONS.includes(action.type)
+      );
+
+    return (
+      <div className='space-y-[var(--spacing-card-lg)]'>
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--spacing-element)]'>
+          <Input
+            label='Rule Name'
+            value={draftRule.name}
+            onChange={name => setRuleDraft({ ...draftRule, name })}
+            placeholder='e.g. Close stale applications'
+            required
+          />
+          <Select
+            label='When'
+            value={draftRule.trigger}
+            onChange={trigger =>
+              setRuleDraft({
+                ...draftRule,
+                trigger: trigger as PipelineRuleTrigger,
+              })
+            }
+            options={triggerOptions}
+          />
+        </div>
+
+        <div className='grid grid-cols-1 md:grid-cols-3 gap-[var(--spacing-element)]'>
+          <Select
+            label='Only In Status'
+            value={draftRule.conditions.status || ''}
+            onChange={status => updateCondition('status', status as string)}
+            options={[{ value: '', label: 'Any status' }, ...statusOptions]}
+          />
+          <Select
+            label='Only In Stage'
+            value={draftRule.conditions.stage_id || ''}
+            onChange={stageId => updateCondition('stage_id', stageId as string)}
+            options={[{ value: '', label: 'Any stage' }, ...stageOptions]}
+          />
+          {draftRule.trigger === 'idle' && (
+            <Input
+              label='Idle Days'
+              value={
+                draftRule.conditions.idle_days
+                  ? String(draftRule.conditions.idle_days)
+                  : ''
+              }
+              onChange={value =>
+                updateCondition('idle_days', parseInt(value) || undefined)
+              }
+              placeholder='14'
+              required
+            />
+          )}
+        </div>
+
+        <div className='space-y-[var(--spacing-element)] max-h-[40vh] overflow-y-auto'>
+          {draftRule.actions.map((action, index) => (
+            <Paper
+              key={index}
+              variant='glass-subtle'
+              size='sm'
+              className='space-y-[var(--spacing-element)]'
+            >
+              <div className='flex items-center justify-between'>
+                <ComponentSubtitle className='text-[var(--color-text-tertiary)]'>
+                  Action {index + 1}
+                </ComponentSubtitle>
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() =>
+                    setRuleDraft({
+                      ...draftRule,
+                      actions: draftRule.actions.filter(
+                        (_, position) => position !== index
+                      ),
+                    })
+                  }
+                  disabled={draftRule.actions.length === 1}
+                >
+                  Remove
+                </Button>
+              </div>
+              <Select
+                label='Then'
+                value={action.type}
+                onChange={type =>
+                  updateAction(
+                    index,
+                    newAction(type as PipelineRuleAction['type'])
+                  )
+                }
+                options={actionOptions}
+              />
+              {renderAction(action, index)}
+            </Paper>
+          ))}
+        </div>
+
+        <Button
+          variant='secondary'
+          size='sm'
+          onClick={() =>
+            setRuleDraft({
+              ...draftRule,
+              actions: [...draftRule.actions, newAction('reject')],
+            })
+          }
+        >
+          Add Action
+        </Button>
+
+        <Checkbox
+          checked={draftRule.is_active}
+          onChange={is_active => setRuleDraft({ ...draftRule, is_active })}
+          label='Active'
+        />
+
+        {needsApproval && (
+          <p className='text-sm text-[var(--color-warning)]'>
+            Invite codes, roles and onboarding need the rule to be limited to
+            approved applications.
+          </p>
+        )}
+        {error && <p className='text-sm text-[var(--color-error)]'>{error}</p>}
+
+        <div className='flex items-center justify-end gap-[var(--gap-button)] pt-[var(--spacing-element)] border-t border-[var(--color-glass-border)]'>
+          <Button variant='ghost' onClick={() => setRuleDraft(null)}>
+            Back
+          </Button>
+          <Button
+            variant='primary'
+            onClick={handleSaveRule}
+            disabled={isCreating || isUpdating || !draftRule.name.trim()}
+          >
+            {isCreating || isUpdating ? 'Saving...' : 'Save Rule'}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={
+        stages
+          ? 'Pipeline Stages'
+          : ruleDraft
+            ? ruleDraft.id
+              ? 'Edit Automation Rule'
+              : 'New Automation Rule'
+            : 'Recruitment Pipeline'
+      }
+      size='lg'
+    >
+      {stages
+        ? renderStageEditor(stages)
+        : ruleDraft
+          ? renderRuleEditor(ruleDraft)
+          : renderOverview()}
+    </Dialog>
+  );
+};
+
+export default PipelineSettings;
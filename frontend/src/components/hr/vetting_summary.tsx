@@ -0,0 +1,126 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Chip, ComponentSubtitle, Paper } from '../ui';
+import type {
+  PlayerVettingSummary,
+  VettingRiskLevel,
+} from '../../types/reputation';
+
+const riskLabels: Record<VettingRiskLevel, string> = {
+  clear: 'Clear',
+  caution: 'Caution',
+  high: 'High Risk',
+};
+
+const riskClassNames: Record<VettingRiskLevel, string> = {
+  clear:
+    'bg-[var(--color-success-bg)] text-[var(--color-success)] border-[var(--color-success-border)]',
+  caution:
+    'bg-[var(--color-warning-bg)] text-[var(--color-warning)] border-[var(--color-warning-border)]',
+  high: 'bg-[var(--color-error-bg)] text-[var(--color-error)] border-[var(--color-error-border)]',
+};
+
+export const VettingRiskChip: React.FC<{ riskLevel: VettingRiskLevel }> = ({
+  riskLevel,
+}) => (
+  <Chip variant='status' size='sm' className={riskClassNames[riskLevel]}>
+    {riskLabels[riskLevel]}
+  </Chip>
+);
+
+interface VettingSummaryProps {
+  summary: PlayerVettingSummary;
+}
+
+const VettingSummary: React.FC<VettingSummaryProps> = ({ summary }) => {
+  const currentOrgs = summary.organizations.filter(org => org.is_current);
+
+  return (
+    <div className='space-y-[var(--spacing-element)]'>
+      <div className='flex items-center justify-between gap-[var(--spacing-tight)]'>
+        <div className='flex items-center gap-[var(--spacing-tight)]'>
+          <span className='font-medium text-[var(--color-text-primary)]'>
+            {summary.handle}
+          </span>
+          <VettingRiskChip riskLevel={summary.risk_level} />
+          {summary.reputation && (
+            <span className='text-sm text-[var(--color-text-secondary)]'>
+              Reputation {Math.round(summary.reputation.score)} (
+              {summary.reputation.confidence} confidence)
+            </span>
+          )}
+        </div>
+        {summary.player && (
+          <Link
+            to={`/reputation/players/${summary.player.spectrum_id}`}
+            className='text-sm text-[var(--color-accent-blue)] hover:underline'
+          >
+            View profile
+          </Link>
+        )}
+      </div>
+
+      {summary.flags.length > 0 && (
+        <ul className='list-disc list-inside text-sm text-[var(--color-text-secondary)] space-y-1'>
+          {summary.flags.map(flag => (
+            <li key={flag}>{flag}</li>
+          ))}
+        </ul>
+      )}
+
+      {summary.status === 'found' && (
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-[var(--spacing-element)] text-sm'>
+          <div>
+            <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-1'>
+              Current Organizations
+            </ComponentSubtitle>
+            {currentOrgs.length > 0 ? (
+              <div className='text-[var(--color-text-secondary)] space-y-1'>
+                {currentOrgs.map(org => (
+                  <div key={`${org.org_spectrum_id}-${org.org_name}`}>
+                    {org.org_name}
+                    {org.org_spectrum_id && ` (${org.org_spectrum_id})`}
+                    {org.role && ` - ${org.role}`}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className='text-[var(--color-text-tertiary)]'>
+                None known
+              </div>
+            )}
+          </div>
+          <div>
+            <ComponentSubtitle className='text-[var(--color-text-tertiary)] mb-1'>
+              Alt Account Reports
+            </ComponentSubtitle>
+            {summary.alt_accounts.length > 0 ? (
+              <div className='text-[var(--color-text-secondary)] space-y-1'>
+                {summary.alt_accounts.map(alt => (
+                  <div key={alt.report_id}>
+                    {alt.relation === 'alt' ? 'Alt: ' : 'Alt of: '}
+                    {alt.handle} ({alt.status})
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className='text-[var(--color-text-tertiary)]'>None</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className='text-xs text-[var(--color-text-tertiary)]'>
+        Vetted {new Date(summary.vetted_at).toLocaleString()}
+      </div>
+    </div>
+  );
+};
+
+export const VettingSummaryPanel: React.FC<VettingSummaryProps> = props => (
+  <Paper variant='glass-subtle' size='sm'>
+    <VettingSummary {...props} />
+  </Paper>
+);
+
+export default VettingSummary;
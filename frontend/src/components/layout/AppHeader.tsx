@@ -7,6 +7,7 @@ import { Button, DiscordLoginButton } from '../ui';
 import NotificationCenter from '../notifications/NotificationCenter';
 import ProfileDropdown from '../ui/ProfileDropdown';
 import { useGetNotificationsQuery } from '@/services/apiSlice.ts';
+import { useNotificationStream } from '@/hooks/useNotificationStream';
 import { User } from '@/types';
 
 interface AppHeaderProps {
@@ -29,12 +30,13 @@ const AppHeader: React.FC<AppHeaderProps> = ({
   const [isNotificationOpen, setIsNotificationOpen] = useState(false);
   const notificationButtonRef = useRef<HTMLButtonElement>(null);
 
-  // Get notification data for unread count
+  // Get notification data for unread count, polling only while the stream is down
+  const isStreamConnected = useNotificationStream(isAuthenticated);
   const { data: notificationsData } = useGetNotificationsQuery(
     { page: 1, limit: 5 },
     {
       skip: !isAuthenticated,
-      pollingInterval: 120000, // Poll every 2 minutes
+      pollingInterval: isStreamConnected ? 0 : 120000,
     }
   );
 
@@ -2,6 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { useNotificationStream } from '../../hooks/useNotificationStream';
 import {
   useGetCurrentUserQuery,
   useGetNotificationsQuery,
@@ -35,13 +36,14 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
   const [page, setPage] = useState(0);
   const [pageSize] = useState(10);
 
-  // Fetch notifications from API with 2-minute polling
+  // Live updates arrive over the notification stream; poll every 2 minutes while it is down
+  const isStreamConnected = useNotificationStream(isAuthenticated);
   const { data: notificationsData, isLoading: notificationsLoading } =
     useGetNotificationsQuery(
       { page: page + 1, limit: pageSize }, // Convert 0-based page to 1-based for API
       {
         skip: !isAuthenticated,
-        pollingInterval: 120000, // Poll every 2 minutes
+        pollingInterval: isStreamConnected ? 0 : 120000,
         refetchOnFocus: true,
         refetchOnReconnect: true,
       }
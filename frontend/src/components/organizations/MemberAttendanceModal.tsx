@@ -0,0 +1,171 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useGetMemberAttendanceQuery } from '../../services/apiSlice';
+import { Button, Dialog } from '../ui';
+
+interface Member {
+  user_id: string;
+  user: {
+    rsi_handle: string;
+  };
+}
+
+interface MemberAttendanceModalProps {
+  isOpen: boolean;
+  member: Member | null;
+  spectrumId: string;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  attended: { label: 'Attended', className: 'text-success' },
+  no_show: { label: 'No-show', className: 'text-error' },
+};
+
+const MemberAttendanceModal: React.FC<MemberAttendanceModalProps> = ({
+  isOpen,
+  member,
+  spectrumId,
+  onClose,
+}) => {
+  const {
+    data: history,
+    isLoading,
+    error,
+  } = useGetMemberAttendanceQuery(
+    { spectrumId, userId: member?.user_id || '' },
+    { skip: !isOpen || !member }
+  );
+
+  if (!member) {
+    return null;
+  }
+
+  const stats = history
+    ? [
+        {
+          label: 'Attendance Rate',
+          value: `${history.attendance_rate.toFixed(0)}%`,
+          className: 'text-success',
+        },
+        {
+          label: 'No-show Rate',
+          value: `${history.no_show_rate.toFixed(0)}%`,
+          className: 'text-error',
+        },
+        {
+          label: 'Events',
+          value: history.total_events,
+          className: 'text-primary',
+        },
+      ]
+    : [];
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title='Attendance' size='md'>
+      <p
+        className='text-sm text-secondary'
+        style={{ marginBottom: 'var(--spacing-component)' }}
+      >
+        Event attendance for{' '}
+        <Link
+          to={`/profile/${member.user.rsi_handle}`}
+          className='font-medium text-primary hover:text-brand-secondary transition-colors'
+        >
+          {member.user.rsi_handle}
+        </Link>
+      </p>
+
+      {isLoading ? (
+        <div
+          className='flex items-center justify-center'
+          style={{ padding: 'var(--spacing-element)' }}
+        >
+          <div className='animate-spin rounded-full h-6 w-6 border-b-2 border-brand-secondary'></div>
+        </div>
+      ) : error || !history ? (
+        <p className='text-sm text-error'>Failed to load attendance history.</p>
+      ) : (
+        <>
+          <div
+            className='grid grid-cols-3'
+            style={{
+              gap: 'var(--spacing-element)',
+              marginBottom: 'var(--spacing-component)',
+            }}
+          >
+            {stats.map(stat => (
+              <div
+                key={stat.label}
+                className='bg-glass-elevated rounded-lg text-center'
+                style={{ padding: 'var(--spacing-element)' }}
+              >
+                <p className={`text-xl font-semibold ${stat.className}`}>
+                  {stat.value}
+                </p>
+                <p className='text-xs text-tertiary'>{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {history.unmarked > 0 && (
+            <p
+              className='text-xs text-muted'
+              style={{ marginBottom: 'var(--spacing-element)' }}
+            >
+              {history.unmarked} event(s) without recorded attendance are not
+              included in the rates.
+            </p>
+          )}
+
+          {history.events.length === 0 ? (
+            <p className='text-sm text-tertiary'>
+              No past events for this member yet.
+            </p>
+          ) : (
+            <ul className='divide-y divide-white/10 max-h-80 overflow-y-auto'>
+              {history.events.map(record => {
+                const status = STATUS_LABELS[record.status];
+                return (
+                  <li
+                    key={record.event_id}
+                    className='flex items-center justify-between'
+                    style={{ padding: 'var(--spacing-tight) 0' }}
+                  >
+                    <div>
+                      <Link
+                        to={`/events/${record.event_id}`}
+                        className='text-sm text-primary hover:text-brand-secondary transition-colors'
+                      >
+                        {record.event_title}
+                      </Link>
+                      <p className='text-xs text-tertiary'>
+                        {new Date(record.start_time).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span
+                      className={`text-xs ${status?.className || 'text-muted'}`}
+                    >
+                      {status?.label || 'Not marked'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+
+      <div
+        className='flex justify-end'
+        style={{ marginTop: 'var(--spacing-component)' }}
+      >
+        <Button variant='outline' onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </Dialog>
+  );
+};
+
+export default MemberAttendanceModal;
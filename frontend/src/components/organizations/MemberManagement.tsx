@@ -9,10 +9,12 @@ import {
   XMarkIcon,
   ClockIcon,
   UsersIcon,
+  ClipboardDocumentCheckIcon,
 } from '@heroicons/react/24/outline';
 import {
   useGetOrganizationMembersQuery,
-  useAssignRoleMutation,
+  useAddMemberRoleMutation,
+  useRemoveMemberRoleMutation,
   useRemoveMemberMutation,
   useGetInviteCodesQuery,
   useGenerateInviteCodeMutation,
@@ -22,20 +24,24 @@ import { InviteCode } from '../../types/invite';
 import { Button, Paper, Chip } from '../ui';
 import RoleAssignmentModal from './RoleAssignmentModal';
 import InviteGenerationModal from './InviteGenerationModal';
+import MemberAttendanceModal from './MemberAttendanceModal';
 
 interface MemberManagementProps {
   spectrumId: string;
 }
 
+interface MemberRole {
+  id: string;
+  name: string;
+  rank: number;
+}
+
 interface Member {
   id: string;
   user_id: string;
   role_id: string;
-  role?: {
-    id: string;
-    name: string;
-    rank: number;
-  };
+  role?: MemberRole;
+  roles?: MemberRole[];
   user: {
     id: string;
     rsi_handle: string;
@@ -56,6 +62,7 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
   const [showRemoveConfirm, setShowRemoveConfirm] = useState<Member | null>(
     null
   );
+  const [showAttendance, setShowAttendance] = useState<Member | null>(null);
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [activeTab, setActiveTab] = useState<'members' | 'invites'>('members');
 
@@ -66,7 +73,10 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
     refetch,
   } = useGetOrganizationMembersQuery(spectrumId);
 
-  const [assignRole, { isLoading: isAssigning }] = useAssignRoleMutation();
+  const [addMemberRole, { isLoading: isAddingRole }] =
+    useAddMemberRoleMutation();
+  const [removeMemberRole, { isLoading: isRemovingRole }] =
+    useRemoveMemberRoleMutation();
   const [removeMember, { isLoading: isRemoving }] = useRemoveMemberMutation();
 
   const {
@@ -81,20 +91,41 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
   const [generateInviteCode] = useGenerateInviteCodeMutation();
   const [deleteInviteCode] = useDeleteInviteCodeMutation();
 
-  const handleAssignRole = async (memberId: string, roleId: string) => {
+  const handleAddRole = async (memberId: string, roleId: string) => {
     try {
-      await assignRole({
+      await addMemberRole({
         spectrumId,
-        targetUserId: memberId,
+        userId: memberId,
         roleId,
       }).unwrap();
-      setShowRoleAssignment(null);
       refetch();
     } catch (error) {
-      console.error('Failed to assign role:', error);
+      console.error('Failed to add role:', error);
     }
   };
 
+  const handleRemoveRole = async (memberId: string, roleId: string) => {
+    try {
+      await removeMemberRole({
+        spectrumId,
+        userId: memberId,
+        roleId,
+      }).unwrap();
+      refetch();
+    } catch (error) {
+      console.error('Failed to remove role:', error);
+    }
+  };
+
+  const getMemberRoles = (member: Member): MemberRole[] =>
+    member.roles ?? (member.role ? [member.role] : []);
+
+  // Keep the role modal in step with the refreshed member list
+  const roleAssignmentMember = showRoleAssignment
+    ? members?.find((m: Member) => m.id === showRoleAssignment.id) ||
+      showRoleAssignment
+    : null;
+
   const handleRemoveMember = async (memberId: string) => {
     try {
       await removeMember({
@@ -271,7 +302,9 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
                           </span>
                         )}
                       </Link>
-                      {member.role?.name === 'Owner' && (
+                      {getMemberRoles(member).some(
+                        role => role.name === 'Owner'
+                      ) && (
                         <span className='text-yellow-400 text-lg'>👑</span>
                       )}
                       {member.user.is_rsi_verified && (
@@ -285,12 +318,37 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
                 </div>
 
                 <div className='flex items-center space-x-3'>
-                  {member.role && (
-                    <Chip className={getRoleBadgeColor(member.role.name)}>
-                      {member.role.name}
-                    </Chip>
-                  )}
+                  <div className='flex flex-wrap items-center justify-end gap-1'>
+                    {getMemberRoles(member).map(role => (
+                      <Chip
+                        key={role.id}
+                        className={`inline-flex items-center ${getRoleBadgeColor(role.name)}`}
+                      >
+                        {role.name}
+                        {getMemberRoles(member).length > 1 && (
+                          <button
+                            type='button'
+                            onClick={() =>
+                              handleRemoveRole(member.user_id, role.id)
+                            }
+                            disabled={isRemovingRole}
+                            className='ml-1 hover:text-white disabled:opacity-50'
+                            aria-label={`Remove ${role.name} role`}
+                          >
+                            <XMarkIcon className='h-3 w-3' />
+                          </button>
+                        )}
+                      </Chip>
+                    ))}
+                  </div>
                   <div className='flex items-center space-x-2'>
+                    <Button
+                      onClick={() => setShowAttendance(member)}
+                      variant='outline'
+                      size='sm'
+                    >
+                      <ClipboardDocumentCheckIcon className='h-4 w-4' />
+                    </Button>
                     <Button
                       onClick={() => setShowRoleAssignment(member)}
                       variant='outline'
@@ -431,11 +489,20 @@ const MemberManagement: React.FC<MemberManagementProps> = ({
       {/* Role Assignment Modal */}
       <RoleAssignmentModal
         isOpen={!!showRoleAssignment}
-        member={showRoleAssignment}
+        member={roleAssignmentMember}
         spectrumId={spectrumId}
-        onAssign={handleAssignRole}
+        onAddRole={handleAddRole}
+        onRemoveRole={handleRemoveRole}
         onCancel={() => setShowRoleAssignment(null)}
-        isLoading={isAssigning}
+        isLoading={isAddingRole || isRemovingRole}
+      />
+
+      {/* Attendance History Modal */}
+      <MemberAttendanceModal
+        isOpen={!!showAttendance}
+        member={showAttendance}
+        spectrumId={spectrumId}
+        onClose={() => setShowAttendance(null)}
       />
 
       {/* Remove Confirmation Modal */}
@@ -171,6 +171,11 @@ const PERMISSION_GROUPS: PermissionGroup[] = [
         name: 'View Reports',
         description: 'View detailed reports',
       },
+      {
+        key: 'manage_watchlists',
+        name: 'Manage Watchlists',
+        description: 'Manage shared reputation watchlists and receive their alerts',
+      },
     ],
   },
 ];
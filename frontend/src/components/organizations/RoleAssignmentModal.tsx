@@ -1,17 +1,20 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Link } from 'react-router-dom';
 import { useGetOrganizationRolesQuery } from '../../services/apiSlice';
 import { Button, Dialog, Chip } from '../ui';
 
+interface MemberRole {
+  id: string;
+  name: string;
+  rank: number;
+}
+
 interface Member {
   id: string;
   user_id: string;
   role_id: string;
-  role?: {
-    id: string;
-    name: string;
-    rank: number;
-  };
+  role?: MemberRole;
+  roles?: MemberRole[];
   user: {
     id: string;
     rsi_handle: string;
@@ -34,7 +37,8 @@ interface RoleAssignmentModalProps {
   isOpen: boolean;
   member: Member | null;
   spectrumId: string;
-  onAssign: (memberId: string, roleId: string) => void;
+  onAddRole: (memberId: string, roleId: string) => void;
+  onRemoveRole: (memberId: string, roleId: string) => void;
   onCancel: () => void;
   isLoading: boolean;
 }
@@ -43,21 +47,24 @@ const RoleAssignmentModal: React.FC<RoleAssignmentModalProps> = ({
   isOpen,
   member,
   spectrumId,
-  onAssign,
+  onAddRole,
+  onRemoveRole,
   onCancel,
   isLoading,
 }) => {
-  const [selectedRoleId, setSelectedRoleId] = useState(member?.role_id || '');
-
   const { data: roles, isLoading: isLoadingRoles } =
     useGetOrganizationRolesQuery(spectrumId);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (member && selectedRoleId && selectedRoleId !== member.role_id) {
-      onAssign(member.user_id, selectedRoleId);
+  // Members created before multi-role support only carry their primary role
+  const memberRoles = member?.roles ?? (member?.role ? [member.role] : []);
+  const heldRoleIds = new Set(memberRoles.map(role => role.id));
+
+  const handleToggle = (roleId: string, checked: boolean) => {
+    if (!member) return;
+    if (checked) {
+      onAddRole(member.user_id, roleId);
     } else {
-      onCancel();
+      onRemoveRole(member.user_id, roleId);
     }
   };
 
@@ -78,7 +85,7 @@ const RoleAssignmentModal: React.FC<RoleAssignmentModalProps> = ({
   }
 
   return (
-    <Dialog isOpen={isOpen} onClose={onCancel} title='Assign Role' size='md'>
+    <Dialog isOpen={isOpen} onClose={onCancel} title='Manage Roles' size='md'>
       {/* Member Info */}
       <div
         className='bg-glass-elevated rounded-lg'
@@ -105,26 +112,29 @@ const RoleAssignmentModal: React.FC<RoleAssignmentModalProps> = ({
             </div>
           )}
           <div>
-            <Link 
+            <Link
               to={`/profile/${member.user.rsi_handle}`}
               className='text-sm font-medium text-primary hover:text-brand-secondary transition-colors'
             >
               {member.user.rsi_handle}
             </Link>
             <p className='text-xs text-tertiary'>
-              Current role: {member.role?.name || 'No role'}
+              Current roles:{' '}
+              {memberRoles.length > 0
+                ? memberRoles.map(role => role.name).join(', ')
+                : 'No role'}
             </p>
           </div>
         </div>
       </div>
 
-      <form onSubmit={handleSubmit}>
+      <div>
         <div style={{ marginBottom: 'var(--spacing-section)' }}>
           <label
             className='block text-sm font-medium text-secondary'
             style={{ marginBottom: 'var(--spacing-element)' }}
           >
-            Select Role
+            Roles
           </label>
           {isLoadingRoles ? (
             <div
@@ -141,70 +151,80 @@ const RoleAssignmentModal: React.FC<RoleAssignmentModalProps> = ({
                 gap: 'var(--spacing-tight)',
               }}
             >
-              {roles?.map((role: Role) => (
-                <label
-                  key={role.id}
-                  className={`relative flex items-start border rounded-lg cursor-pointer transition-all ${
-                    selectedRoleId === role.id
-                      ? 'border-brand-secondary bg-brand-secondary/10'
-                      : getRoleColor(role.rank)
-                  }`}
-                  style={{ padding: 'var(--spacing-element)' }}
-                >
-                  <input
-                    type='radio'
-                    name='role'
-                    value={role.id}
-                    checked={selectedRoleId === role.id}
-                    onChange={e => setSelectedRoleId(e.target.value)}
-                    className='h-4 w-4 text-brand-secondary focus:ring-brand-secondary border-glass-border'
-                  />
-                  <div style={{ marginLeft: 'var(--spacing-element)' }}>
-                    <div
-                      className='flex items-center'
-                      style={{ gap: 'var(--spacing-tight)' }}
-                    >
-                      <p
-                        className={`text-sm font-medium ${getRoleTextColor(role.rank)}`}
+              {roles?.map((role: Role) => {
+                const isHeld = heldRoleIds.has(role.id);
+                // A member must keep at least one role
+                const isLocked = isHeld && heldRoleIds.size === 1;
+
+                return (
+                  <label
+                    key={role.id}
+                    className={`relative flex items-start border rounded-lg transition-all ${
+                      isLocked || isLoading
+                        ? 'cursor-not-allowed'
+                        : 'cursor-pointer'
+                    } ${
+                      isHeld
+                        ? 'border-brand-secondary bg-brand-secondary/10'
+                        : getRoleColor(role.rank)
+                    }`}
+                    style={{ padding: 'var(--spacing-element)' }}
+                  >
+                    <input
+                      type='checkbox'
+                      value={role.id}
+                      checked={isHeld}
+                      disabled={isLocked || isLoading}
+                      onChange={e => handleToggle(role.id, e.target.checked)}
+                      className='h-4 w-4 text-brand-secondary focus:ring-brand-secondary border-glass-border'
+                    />
+                    <div style={{ marginLeft: 'var(--spacing-element)' }}>
+                      <div
+                        className='flex items-center'
+                        style={{ gap: 'var(--spacing-tight)' }}
                       >
-                        {role.name}
-                      </p>
-                      {role.is_system_role && (
-                        <Chip
-                          variant='status'
-                          size='sm'
-                          className='bg-brand-secondary/20 text-brand-secondary'
+                        <p
+                          className={`text-sm font-medium ${getRoleTextColor(role.rank)}`}
                         >
-                          System
-                        </Chip>
-                      )}
-                      {!role.is_active && (
-                        <Chip
-                          variant='status'
-                          size='sm'
-                          className='bg-white/20 text-white/60'
+                          {role.name}
+                        </p>
+                        {role.is_system_role && (
+                          <Chip
+                            variant='status'
+                            size='sm'
+                            className='bg-brand-secondary/20 text-brand-secondary'
+                          >
+                            System
+                          </Chip>
+                        )}
+                        {!role.is_active && (
+                          <Chip
+                            variant='status'
+                            size='sm'
+                            className='bg-white/20 text-white/60'
+                          >
+                            Inactive
+                          </Chip>
+                        )}
+                      </div>
+                      {role.description && (
+                        <p
+                          className='text-xs text-tertiary'
+                          style={{ marginTop: 'var(--spacing-tight)' }}
                         >
-                          Inactive
-                        </Chip>
+                          {role.description}
+                        </p>
                       )}
-                    </div>
-                    {role.description && (
                       <p
-                        className='text-xs text-tertiary'
+                        className='text-xs text-muted'
                         style={{ marginTop: 'var(--spacing-tight)' }}
                       >
-                        {role.description}
+                        Rank: {role.rank}
                       </p>
-                    )}
-                    <p
-                      className='text-xs text-muted'
-                      style={{ marginTop: 'var(--spacing-tight)' }}
-                    >
-                      Rank: {role.rank}
-                    </p>
-                  </div>
-                </label>
-              ))}
+                    </div>
+                  </label>
+                );
+              })}
             </div>
           )}
         </div>
@@ -214,20 +234,16 @@ const RoleAssignmentModal: React.FC<RoleAssignmentModalProps> = ({
           className='flex justify-end'
           style={{ gap: 'var(--spacing-element)' }}
         >
-          <Button type='button' onClick={onCancel} variant='outline'>
-            Cancel
-          </Button>
           <Button
-            type='submit'
-            disabled={
-              isLoading || !selectedRoleId || selectedRoleId === member.role_id
-            }
+            type='button'
+            onClick={onCancel}
+            disabled={isLoading}
             variant='primary'
           >
-            {isLoading ? 'Assigning...' : 'Assign Role'}
+            {isLoading ? 'Saving...' : 'Done'}
           </Button>
         </div>
-      </form>
+      </div>
     </Dialog>
   );
 };
@@ -53,7 +53,7 @@ const RoleForm: React.FC<RoleFormProps> = ({
     'manage_events', 'create_events', 'update_events', 'delete_events',
     'manage_comments', 'moderate_comments', 'delete_comments',
     'manage_integrations', 'update_rsi_integration', 'update_discord_integration',
-    'view_analytics', 'view_reports'
+    'view_analytics', 'view_reports', 'manage_watchlists'
   ];
   
   const [selectedPermissions, setSelectedPermissions] = useState<string[]>(
@@ -8,7 +8,14 @@ interface PlayerCardProps {
   player: ScPlayer;
 }
 
+// Number of score factors listed on the card
+const MAX_LISTED_FACTORS = 3;
+
 const PlayerCard: React.FC<PlayerCardProps> = ({ player }) => {
+  // Players without a computed score are neutral
+  const score = Math.round(player.reputation?.score ?? 50);
+  const breakdown = player.reputation?.breakdown;
+
   const getReputationColor = (score: number) => {
     if (score >= 70) return 'text-green-400 bg-green-500/20';
     if (score >= 40) return 'text-yellow-400 bg-yellow-500/20';
@@ -50,9 +57,9 @@ const PlayerCard: React.FC<PlayerCardProps> = ({ player }) => {
                 <Chip
                   variant="selected"
                   size="sm"
-                  className={getReputationColor(50)}
+                  className={getReputationColor(score)}
                 >
-                  {getReputationLabel(50)}
+                  {getReputationLabel(score)}
                 </Chip>
                 {player.is_active ? (
                   <Chip variant="selected" size="sm" className="text-green-400 bg-green-500/20">
@@ -76,14 +83,38 @@ const PlayerCard: React.FC<PlayerCardProps> = ({ player }) => {
             <div className="flex items-center space-x-4 text-sm text-white/60">
               <div className="flex items-center space-x-1">
                 <ShieldCheckIcon className="w-4 h-4" />
-                <span>Rep: 50</span>
+                <span>Rep: {score}</span>
               </div>
+              {player.reputation && (
+                <span>Confidence: {player.reputation.confidence}</span>
+              )}
               <div className="flex items-center space-x-1">
                 <ExclamationTriangleIcon className="w-4 h-4" />
                 <span>Reports: 0</span>
               </div>
             </div>
 
+            {/* Score breakdown */}
+            {breakdown && breakdown.factors.length > 0 && (
+              <div className="mt-3 space-y-1 text-xs">
+                {breakdown.factors.slice(0, MAX_LISTED_FACTORS).map((factor) => (
+                  <div key={`${factor.source}-${factor.id}`} className="flex items-center justify-between">
+                    <span className="text-white/70 truncate">
+                      {factor.label}
+                      <span className="text-white/40"> · {factor.source}</span>
+                    </span>
+                    <span className={factor.contribution > 0 ? 'text-green-400' : 'text-red-400'}>
+                      {factor.contribution > 0 ? '+' : ''}
+                      {factor.contribution.toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+                <p className="text-white/40">
+                  From {breakdown.attestation_count} attestations, weighted by attester verification, account age and standing
+                </p>
+              </div>
+            )}
+
             {/* Footer */}
             <div className="mt-3 pt-3 border-t border-white/10">
               <div className="flex items-center justify-between text-xs text-white/50">
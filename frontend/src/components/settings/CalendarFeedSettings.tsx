@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Button, SettingsCard } from '../ui';
+import {
+  useGetCalendarFeedTokenQuery,
+  useRotateCalendarFeedTokenMutation,
+  useRevokeCalendarFeedTokenMutation,
+} from '../../services/apiSlice';
+import {
+  CalendarDaysIcon,
+  ArrowPathIcon,
+  ClipboardDocumentIcon,
+  CheckIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+interface CalendarFeedSettingsProps {
+  className?: string;
+}
+
+interface FeedUrlRowProps {
+  label: string;
+  description: string;
+  url: string;
+}
+
+const FeedUrlRow: React.FC<FeedUrlRowProps> = ({ label, description, url }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy feed URL:', error);
+    }
+  };
+
+  return (
+    <div className='p-3 bg-glass-subtle rounded-[var(--radius-input)]'>
+      <div className='flex items-center justify-between gap-4'>
+        <div className='min-w-0'>
+          <h4 className='text-sm font-medium text-white'>{label}</h4>
+          <p className='text-xs text-white/60'>{description}</p>
+          <p className='text-xs text-white/40 truncate mt-1 font-mono'>{url}</p>
+        </div>
+        <Button variant='glass' size='sm' onClick={handleCopy}>
+          {copied ? (
+            <CheckIcon className='w-4 h-4' />
+          ) : (
+            <ClipboardDocumentIcon className='w-4 h-4' />
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CalendarFeedSettings: React.FC<CalendarFeedSettingsProps> = ({
+  className = '',
+}) => {
+  const { data: feedToken, isLoading } = useGetCalendarFeedTokenQuery();
+  const [rotateFeedToken, { isLoading: isRotating }] =
+    useRotateCalendarFeedTokenMutation();
+  const [revokeFeedToken, { isLoading: isRevoking }] =
+    useRevokeCalendarFeedTokenMutation();
+
+  const handleRotate = async () => {
+    if (
+      feedToken &&
+      !confirm(
+        'Calendars subscribed with your current feed links will stop updating. Continue?'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await rotateFeedToken().unwrap();
+    } catch (error) {
+      console.error('Failed to rotate calendar feed token:', error);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (
+      !confirm('All of your calendar feed links will stop working. Continue?')
+    ) {
+      return;
+    }
+
+    try {
+      await revokeFeedToken().unwrap();
+    } catch (error) {
+      console.error('Failed to revoke calendar feed token:', error);
+    }
+  };
+
+  return (
+    <SettingsCard
+      title='Calendar Feeds'
+      icon={CalendarDaysIcon}
+      className={className}
+    >
+      {isLoading ? (
+        <div className='flex justify-center py-4'>
+          <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-white/60'></div>
+        </div>
+      ) : !feedToken ? (
+        <div className='space-y-4'>
+          <p className='text-sm text-white/60'>
+            Subscribe to your events and your organizations' schedules from
+            Google Calendar, Outlook or Thunderbird. Feed links are private to
+            you and can be revoked at any time.
+          </p>
+          <Button
+            variant='primary'
+            onClick={handleRotate}
+            disabled={isRotating}
+          >
+            <CalendarDaysIcon className='w-4 h-4 mr-2' />
+            Enable Calendar Feeds
+          </Button>
+        </div>
+      ) : (
+        <div className='space-y-4'>
+          <p className='text-sm text-white/60'>
+            Add these links to your calendar app as a subscription. Keep them
+            private: anyone with a link can see the events in it.
+          </p>
+
+          <FeedUrlRow
+            label='My Registrations'
+            description='Events you registered for or are waitlisted on'
+            url={feedToken.urls.registrations}
+          />
+
+          {feedToken.urls.organizations.map(organization => (
+            <FeedUrlRow
+              key={organization.rsi_org_id}
+              label={organization.name}
+              description='All organization events, including private ones'
+              url={organization.url}
+            />
+          ))}
+
+          <div className='flex flex-wrap items-center gap-3 pt-2'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={handleRotate}
+              disabled={isRotating || isRevoking}
+            >
+              <ArrowPathIcon className='w-4 h-4 mr-2' />
+              Generate New Links
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={handleRevoke}
+              disabled={isRotating || isRevoking}
+              className='border-red-400 text-red-200 hover:bg-red-500/20'
+            >
+              <TrashIcon className='w-4 h-4 mr-2' />
+              Revoke Links
+            </Button>
+            {feedToken.last_used_at && (
+              <span className='text-xs text-white/40'>
+                Last synced {new Date(feedToken.last_used_at).toLocaleString()}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </SettingsCard>
+  );
+};
+
+export default CalendarFeedSettings;
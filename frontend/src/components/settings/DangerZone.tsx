@@ -1,37 +1,155 @@
 import React, { useState } from 'react';
-import { Button } from '../ui';
-import { ExclamationTriangleIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button, Select, Textarea } from '../ui';
+import {
+  useCancelAccountDeletionMutation,
+  useGetAccountDeletionQuery,
+  useLazyExportAccountDataQuery,
+  useRequestAccountDeletionMutation,
+} from '../../services/apiSlice';
+import { getErrorMessage } from '../../utils/errorHandling';
+import { DocumentExportService } from '../../services/DocumentExportService';
+import {
+  ArrowDownTrayIcon,
+  ExclamationTriangleIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
 
 interface DangerZoneProps {
   className?: string;
 }
 
 const DangerZone: React.FC<DangerZoneProps> = ({ className = '' }) => {
-  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [reason, setReason] = useState('');
+  const [newOwners, setNewOwners] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
 
-  const handleDeleteAccount = async () => {
-    if (!confirm('Are you absolutely sure? This action cannot be undone.')) {
-      return;
-    }
+  const { data: deletion, isLoading } = useGetAccountDeletionQuery();
+  const [exportAccountData, { isFetching: isExporting }] =
+    useLazyExportAccountDataQuery();
+  const [requestDeletion, { isLoading: isRequesting }] =
+    useRequestAccountDeletionMutation();
+  const [cancelDeletion, { isLoading: isCancelling }] =
+    useCancelAccountDeletionMutation();
 
-    setIsDeletingAccount(true);
+  const request = deletion?.request ?? null;
+  const ownedOrganizations = deletion?.owned_organizations ?? [];
+  const missingOwner = ownedOrganizations.some(
+    organization => !newOwners[organization.id]
+  );
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const content = await exportAccountData().unwrap();
+      const date = new Date().toISOString().slice(0, 10);
+      DocumentExportService.downloadFile(
+        content,
+        `account-export-${date}.json`,
+        'application/json'
+      );
+    } catch (err) {
+      console.error('Failed to export account data:', err);
+      setError(getErrorMessage(err));
+    }
+  };
 
+  const handleDeleteAccount = async () => {
+    setError(null);
     try {
-      // TODO: Implement account deletion API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // TODO: Redirect to logout
-      alert('Account deleted successfully');
-    } catch (error) {
-      console.error('Failed to delete account:', error);
-      alert('Failed to delete account');
-    } finally {
-      setIsDeletingAccount(false);
+      await requestDeletion({
+        ...(reason.trim() && { reason: reason.trim() }),
+        organization_transfers: ownedOrganizations.map(organization => ({
+          organization_id: organization.id,
+          new_owner_id: newOwners[organization.id] ?? '',
+        })),
+      }).unwrap();
       setShowDeleteConfirm(false);
+      setReason('');
+    } catch (err) {
+      console.error('Failed to request account deletion:', err);
+      setError(getErrorMessage(err));
     }
   };
 
+  const handleCancelDeletion = async () => {
+    setError(null);
+    try {
+      await cancelDeletion().unwrap();
+    } catch (err) {
+      console.error('Failed to cancel account deletion:', err);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const renderDeleteForm = () => (
+    <div className='space-y-3'>
+      {ownedOrganizations.length > 0 && (
+        <div className='space-y-3'>
+          <p className='text-red-300 text-sm'>
+            Choose a member to take over each organization you own.
+          </p>
+          {ownedOrganizations.map(organization =>
+            organization.transfer_candidates.length > 0 ? (
+              <Select
+                key={organization.id}
+                label={organization.name}
+                value={newOwners[organization.id] ?? ''}
+                onChange={value =>
+                  setNewOwners(current => ({
+                    ...current,
+                    [organization.id]: value as string,
+                  }))
+                }
+                options={organization.transfer_candidates.map(candidate => ({
+                  value: candidate.id,
+                  label: candidate.rsi_handle,
+                }))}
+                placeholder='Select new owner'
+              />
+            ) : (
+              <p key={organization.id} className='text-red-300 text-sm'>
+                {organization.name} has no other members. Invite someone to
+                take it over before deleting your account.
+              </p>
+            )
+          )}
+        </div>
+      )}
+
+      <Textarea
+        value={reason}
+        onChange={setReason}
+        placeholder='Why are you leaving? (optional)'
+        rows={3}
+        className='w-full'
+      />
+
+      <p className='text-red-300 text-sm font-medium'>
+        Your account will be deleted {deletion?.grace_period_days ?? 14} days
+        from now. Until then you can cancel from this page.
+      </p>
+      <div className='flex space-x-3'>
+        <Button
+          variant='outline'
+          onClick={() => setShowDeleteConfirm(false)}
+          className='border-white/20 text-white hover:bg-white/10'
+        >
+          Cancel
+        </Button>
+        <Button
+          variant='outline'
+          onClick={handleDeleteAccount}
+          disabled={isRequesting || missingOwner}
+          className='border-red-400 text-red-200 hover:bg-red-500/20'
+        >
+          <TrashIcon className='w-4 h-4 mr-2' />
+          {isRequesting ? 'Scheduling...' : 'Yes, Delete My Account'}
+        </Button>
+      </div>
+    </div>
+  );
+
   return (
     <div className={`bg-red-500/10 border border-red-500/20 rounded-[var(--radius-paper)] p-6 backdrop-blur-sm ${className}`}>
       <h2 className='text-xl font-semibold text-red-200 mb-6 flex items-center'>
@@ -40,55 +158,78 @@ const DangerZone: React.FC<DangerZoneProps> = ({ className = '' }) => {
       </h2>
 
       <div className='space-y-4'>
+        <div className='p-4 bg-red-500/20 rounded-[var(--radius-input)]'>
+          <h3 className='text-lg font-medium text-red-200 mb-2'>
+            Download Your Data
+          </h3>
+          <p className='text-red-300 text-sm mb-4'>
+            Get a copy of your profile, memberships, event registrations,
+            comments, ratings, reputation contributions and HR records.
+          </p>
+          <Button
+            variant='outline'
+            onClick={handleExport}
+            disabled={isExporting}
+            className='border-white/20 text-white hover:bg-white/10'
+          >
+            <ArrowDownTrayIcon className='w-4 h-4 mr-2' />
+            {isExporting ? 'Preparing...' : 'Download Data'}
+          </Button>
+        </div>
+
         <div className='p-4 bg-red-500/20 rounded-[var(--radius-input)]'>
           <h3 className='text-lg font-medium text-red-200 mb-2'>
             Delete Account
           </h3>
           <p className='text-red-300 text-sm mb-4'>
-            Once you delete your account, there is no going back. Please be
-            certain.
+            You will leave every organization and your upcoming event
+            registrations will be cancelled. Comments, reviews and reports you
+            wrote stay, but are no longer linked to you.
           </p>
 
-          {!showDeleteConfirm ? (
-            <Button
-              variant='outline'
-              onClick={() => setShowDeleteConfirm(true)}
-              className='border-red-400 text-red-200 hover:bg-red-500/20'
-            >
-              <TrashIcon className='w-4 h-4 mr-2' />
-              Delete Account
-            </Button>
-          ) : (
+          {request?.status === 'pending' ? (
             <div className='space-y-3'>
-              <p className='text-red-300 text-sm font-medium'>
-                Are you absolutely sure? This action cannot be undone.
+              <p className='text-red-200 text-sm font-medium'>
+                Your account will be deleted on{' '}
+                {new Date(request.scheduled_for).toLocaleDateString()}.
               </p>
-              <div className='flex space-x-3'>
-                <Button
-                  variant='outline'
-                  onClick={() => setShowDeleteConfirm(false)}
-                  className='border-white/20 text-white hover:bg-white/10'
-                >
-                  Cancel
-                </Button>
+              <Button
+                variant='outline'
+                onClick={handleCancelDeletion}
+                disabled={isCancelling}
+                className='border-white/20 text-white hover:bg-white/10'
+              >
+                {isCancelling ? 'Cancelling...' : 'Keep My Account'}
+              </Button>
+            </div>
+          ) : (
+            <div className='space-y-3'>
+              {request?.status === 'blocked' && (
+                <p className='text-red-200 text-sm font-medium'>
+                  Your account could not be deleted: {request.blocked_reason}
+                </p>
+              )}
+              {!showDeleteConfirm ? (
                 <Button
                   variant='outline'
-                  onClick={handleDeleteAccount}
-                  disabled={isDeletingAccount}
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={isLoading}
                   className='border-red-400 text-red-200 hover:bg-red-500/20'
                 >
                   <TrashIcon className='w-4 h-4 mr-2' />
-                  {isDeletingAccount
-                    ? 'Deleting...'
-                    : 'Yes, Delete My Account'}
+                  Delete Account
                 </Button>
-              </div>
+              ) : (
+                renderDeleteForm()
+              )}
             </div>
           )}
+
+          {error && <p className='text-red-200 text-sm mt-3'>{error}</p>}
         </div>
       </div>
     </div>
   );
 };
 
-export default DangerZone;
\ No newline at end of file
+export default DangerZone;
@@ -1,34 +1,166 @@
-import React, { useState } from 'react';
-import { SettingsCard, ToggleSwitch } from '../ui';
-import { BellIcon } from '@heroicons/react/24/outline';
+import React, { useMemo, useState } from 'react';
+import { Button, Select, SettingsCard, Switch, ToggleSwitch } from '../ui';
+import {
+  useGetNotificationPreferencesQuery,
+  useGetUserOrganizationsForManagementQuery,
+  useUpdateNotificationPreferencesMutation,
+} from '../../services/apiSlice';
+import type {
+  NotificationChannel,
+  NotificationDigestFrequency,
+  NotificationSettings,
+  NotificationTypeInfo,
+  UpdateNotificationPreferencesRequest,
+} from '../../types/notification';
+import { COMMON_TIMEZONES, getUserTimezone } from '../../utils/timezone';
+import { ArrowPathIcon, BellIcon } from '@heroicons/react/24/outline';
 
 interface NotificationPreferencesProps {
   className?: string;
 }
 
-interface NotificationSettings {
-  email: boolean;
-  push: boolean;
-  organization_updates: boolean;
-  event_reminders: boolean;
-  security_alerts: boolean;
-  marketing: boolean;
-}
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  discord_dm: 'Discord DM',
+  email_digest: 'Digest',
+};
+
+const DIGEST_FREQUENCY_OPTIONS: Array<{
+  value: NotificationDigestFrequency;
+  label: string;
+}> = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly (Mondays)' },
+];
+
+// Empty scope edits the global preferences; otherwise the organization's spectrum ID
+const GLOBAL_SCOPE = '';
+
+const QUIET_HOUR_OPTIONS = Array.from({ length: 48 }, (_, index) => {
+  const time = `${String(Math.floor(index / 2)).padStart(2, '0')}:${
+    index % 2 ? '30' : '00'
+  }`;
+  return { value: time, label: time };
+});
+
+const NotificationPreferences: React.FC<NotificationPreferencesProps> = ({
+  className = '',
+}) => {
+  const { data: preferences, isLoading } = useGetNotificationPreferencesQuery();
+  const { data: organizations = [] } =
+    useGetUserOrganizationsForManagementQuery();
+  const [updatePreferences, { isLoading: isSaving }] =
+    useUpdateNotificationPreferencesMutation();
+  const [scope, setScope] = useState(GLOBAL_SCOPE);
 
-const NotificationPreferences: React.FC<NotificationPreferencesProps> = ({ className = '' }) => {
-  const [notifications, setNotifications] = useState<NotificationSettings>({
-    email: true,
-    push: true,
-    organization_updates: true,
-    event_reminders: true,
-    security_alerts: true,
-    marketing: false,
-  });
-
-  const toggleNotification = (key: keyof NotificationSettings) => {
-    setNotifications(prev => ({ ...prev, [key]: !prev[key] }));
+  const categories = useMemo(() => {
+    const grouped = new Map<string, NotificationTypeInfo[]>();
+    preferences?.types.forEach(type => {
+      grouped.set(type.category, [...(grouped.get(type.category) || []), type]);
+    });
+    return Array.from(grouped.entries());
+  }, [preferences?.types]);
+
+  const timezoneOptions = useMemo(() => {
+    const options = COMMON_TIMEZONES.map(tz => ({
+      value: tz.value,
+      label: tz.label,
+    }));
+    [preferences?.settings.timezone, getUserTimezone()].forEach(timezone => {
+      if (timezone && !options.some(option => option.value === timezone)) {
+        options.unshift({ value: timezone, label: timezone });
+      }
+    });
+    return options;
+  }, [preferences?.settings.timezone]);
+
+  const save = async (request: UpdateNotificationPreferencesRequest) => {
+    try {
+      await updatePreferences(request).unwrap();
+    } catch (error) {
+      console.error('Failed to update notification preferences:', error);
+    }
   };
 
+  if (isLoading || !preferences) {
+    return (
+      <SettingsCard
+        title='Notification Preferences'
+        icon={BellIcon}
+        iconColor='text-brand-primary'
+        className={className}
+      >
+        <div className='flex justify-center py-4'>
+          <div className='animate-spin rounded-full h-8 w-8 border-b-2 border-white/60'></div>
+        </div>
+      </SettingsCard>
+    );
+  }
+
+  const findEntry = (
+    rsiOrgId: string | null,
+    entityType: number,
+    channel: NotificationChannel
+  ) =>
+    preferences.preferences.find(
+      entry =>
+        entry.rsi_org_id === rsiOrgId &&
+        entry.entity_type === entityType &&
+        entry.channel === channel
+    );
+
+  // Organization overrides win over global choices, which win over channel defaults
+  const resolve = (
+    type: NotificationTypeInfo,
+    channel: NotificationChannel
+  ) => {
+    if (type.locked_channels.includes(channel)) {
+      return { enabled: true, isOverride: false };
+    }
+
+    const override = scope
+      ? findEntry(scope, type.entity_type, channel)
+      : undefined;
+    if (override) {
+      return { enabled: override.enabled, isOverride: true };
+    }
+
+    const global = findEntry(null, type.entity_type, channel);
+    return {
+      enabled: global ? global.enabled : preferences.defaults[channel],
+      isOverride: false,
+    };
+  };
+
+  const scopeOverrides = scope
+    ? preferences.preferences.filter(entry => entry.rsi_org_id === scope)
+    : [];
+
+  const handleToggle = (
+    type: NotificationTypeInfo,
+    channel: NotificationChannel,
+    enabled: boolean
+  ) =>
+    save({
+      preferences: [
+        {
+          rsi_org_id: scope || null,
+          entity_type: type.entity_type,
+          channel,
+          enabled,
+        },
+      ],
+    });
+
+  const handleResetOverrides = () =>
+    save({
+      preferences: scopeOverrides.map(entry => ({ ...entry, enabled: null })),
+    });
+
+  const handleSettingsChange = (settings: Partial<NotificationSettings>) =>
+    save({ settings });
+
   return (
     <SettingsCard
       title='Notification Preferences'
@@ -36,46 +168,152 @@ const NotificationPreferences: React.FC<NotificationPreferencesProps> = ({ class
       iconColor='text-brand-primary'
       className={className}
     >
-      <div className='space-y-4'>
-        <ToggleSwitch
-          checked={notifications.email}
-          onChange={() => toggleNotification('email')}
-          label='Email'
-          description='Receive email notifications'
-        />
-        <ToggleSwitch
-          checked={notifications.push}
-          onChange={() => toggleNotification('push')}
-          label='Push'
-          description='Receive push notifications'
-        />
-        <ToggleSwitch
-          checked={notifications.organization_updates}
-          onChange={() => toggleNotification('organization_updates')}
-          label='Organization Updates'
-          description='Get updates about your organizations'
-        />
-        <ToggleSwitch
-          checked={notifications.event_reminders}
-          onChange={() => toggleNotification('event_reminders')}
-          label='Event Reminders'
-          description='Receive event reminders'
-        />
-        <ToggleSwitch
-          checked={notifications.security_alerts}
-          onChange={() => toggleNotification('security_alerts')}
-          label='Security Alerts'
-          description='Get security-related alerts'
-        />
-        <ToggleSwitch
-          checked={notifications.marketing}
-          onChange={() => toggleNotification('marketing')}
-          label='Marketing'
-          description='Receive marketing communications'
-        />
+      <div className='space-y-6'>
+        <div className='flex flex-wrap items-end gap-3'>
+          <Select
+            label='Apply to'
+            value={scope}
+            onChange={value => setScope(value as string)}
+            options={[
+              { value: GLOBAL_SCOPE, label: 'All organizations' },
+              ...organizations.map(organization => ({
+                value: organization.rsi_org_id,
+                label: organization.name,
+              })),
+            ]}
+            className='flex-1 min-w-[12rem]'
+          />
+          {scopeOverrides.length > 0 && (
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={handleResetOverrides}
+              disabled={isSaving}
+            >
+              <ArrowPathIcon className='w-4 h-4 mr-2' />
+              Use Global Settings
+            </Button>
+          )}
+        </div>
+        {scope && (
+          <p className='text-xs text-tertiary'>
+            Changes here only apply to notifications from this organization.
+            Highlighted entries override your global settings.
+          </p>
+        )}
+
+        <div className='space-y-4'>
+          {categories.map(([category, types]) => (
+            <div key={category}>
+              <div className='grid grid-cols-[1fr_repeat(3,5.5rem)] items-center gap-2 pb-2 border-b border-glass-border'>
+                <h4 className='text-sm font-semibold text-primary'>
+                  {category}
+                </h4>
+                {preferences.channels.map(channel => (
+                  <span
+                    key={channel}
+                    className='text-xs text-tertiary text-center'
+                  >
+                    {CHANNEL_LABELS[channel]}
+                  </span>
+                ))}
+              </div>
+              {types.map(type => (
+                <div
+                  key={type.entity_type}
+                  className='grid grid-cols-[1fr_repeat(3,5.5rem)] items-center gap-2 py-2'
+                >
+                  <span className='text-sm text-secondary'>{type.label}</span>
+                  {preferences.channels.map(channel => {
+                    const { enabled, isOverride } = resolve(type, channel);
+                    return (
+                      <div
+                        key={channel}
+                        className={`flex justify-center rounded-[var(--radius-input)] py-1 ${
+                          isOverride ? 'bg-brand-secondary/10' : ''
+                        }`}
+                      >
+                        <Switch
+                          enabled={enabled}
+                          onChange={value => handleToggle(type, channel, value)}
+                          disabled={
+                            isSaving || type.locked_channels.includes(channel)
+                          }
+                          size='sm'
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className='space-y-2'>
+          <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+            <Select
+              label='Digest'
+              value={preferences.settings.digest_frequency}
+              onChange={value =>
+                handleSettingsChange({
+                  digest_frequency: value as NotificationDigestFrequency,
+                })
+              }
+              options={DIGEST_FREQUENCY_OPTIONS}
+              disabled={isSaving}
+            />
+            <Select
+              label='Timezone'
+              value={preferences.settings.timezone}
+              onChange={value =>
+                handleSettingsChange({ timezone: value as string })
+              }
+              options={timezoneOptions}
+            />
+          </div>
+          <p className='text-xs text-tertiary'>
+            Summarizes your unread notifications at 08:00 in your timezone, in
+            the app and by Discord DM. The Digest column picks which types are
+            included. Quiet hours use the same timezone.
+          </p>
+        </div>
+
+        <div className='space-y-3'>
+          <ToggleSwitch
+            checked={preferences.settings.quiet_hours_enabled}
+            onChange={() =>
+              handleSettingsChange({
+                quiet_hours_enabled: !preferences.settings.quiet_hours_enabled,
+              })
+            }
+            label='Quiet Hours'
+            description='Skip Discord DMs during these hours. They are not sent afterwards, but in-app notifications are still delivered.'
+          />
+          {preferences.settings.quiet_hours_enabled && (
+            <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+              <Select
+                label='From'
+                value={preferences.settings.quiet_hours_start}
+                onChange={value =>
+                  handleSettingsChange({ quiet_hours_start: value as string })
+                }
+                options={QUIET_HOUR_OPTIONS}
+              />
+              <Select
+                label='Until'
+                value={preferences.settings.quiet_hours_end}
+                onChange={value =>
+                  handleSettingsChange({ quiet_hours_end: value as string })
+                }
+                options={QUIET_HOUR_OPTIONS}
+              />
+            </div>
+          )}
+        </div>
       </div>
     </SettingsCard>
   );
 };
 
-export default NotificationPreferences;
\ No newline at end of file
+export default NotificationPreferences;
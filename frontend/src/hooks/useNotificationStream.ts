@@ -0,0 +1,205 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { apiSlice } from '../services/apiSlice';
+import { store } from '../store/store';
+
+const STREAM_URL = `${
+  import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001'
+}/api/notifications/stream`;
+
+// The server sends a heartbeat every 25 seconds; silence past this means the stream is dead
+const STALL_TIMEOUT_MS = 60 * 1000;
+const INITIAL_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 2 * 60 * 1000;
+
+// One stream is shared by every component using the hook
+let subscriberCount = 0;
+let connected = false;
+let controller: AbortController | null = null;
+let lastEventId: string | null = null;
+let retryDelay = INITIAL_RETRY_DELAY_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let stallTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const setConnected = (value: boolean) => {
+  if (connected === value) return;
+  connected = value;
+  listeners.forEach(listener => listener());
+};
+
+const clearTimer = (timer: ReturnType<typeof setTimeout> | null) => {
+  if (timer) clearTimeout(timer);
+  return null;
+};
+
+// Patch the badge count into every cached notification list without refetching
+const updateUnreadCount = (unreadCount: number) => {
+  apiSlice.util
+    .selectInvalidatedBy(store.getState(), ['Notification'])
+    .filter(({ endpointName }) => endpointName === 'getNotifications')
+    .forEach(({ originalArgs }) => {
+      store.dispatch(
+        apiSlice.util.updateQueryData(
+          'getNotifications',
+          originalArgs,
+          draft => {
+            draft.unread_count = unreadCount;
+          }
+        )
+      );
+    });
+};
+
+const handleEvent = (type: string, data: Record<string, any>) => {
+  switch (type) {
+    case 'unread_count':
+      updateUnreadCount(data.unread_count);
+      break;
+    case 'notification':
+    case 'read_state':
+    case 'deleted':
+    case 'resync':
+      store.dispatch(apiSlice.util.invalidateTags(['Notification']));
+      break;
+  }
+};
+
+const handleMessage = (message: string) => {
+  let type = 'message';
+  const dataLines: string[] = [];
+
+  message.split(/\r?\n/).forEach(line => {
+    // Lines starting with a colon are heartbeat comments
+    if (!line || line.startsWith(':')) return;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'id') lastEventId = value;
+    if (field === 'event') type = value;
+    if (field === 'data') dataLines.push(value);
+  });
+
+  if (dataLines.length === 0) return;
+
+  try {
+    handleEvent(type, JSON.parse(dataLines.join('\n')));
+  } catch (error) {
+    console.error('Failed to handle notification stream event:', error);
+  }
+};
+
+const scheduleReconnect = () => {
+  retryTimer = clearTimer(retryTimer);
+  retryTimer = setTimeout(connect, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+};
+
+// EventSource cannot send the Authorization header, so the stream is read with fetch
+async function connect() {
+  retryTimer = clearTimer(retryTimer);
+  const token = localStorage.getItem('auth_token');
+  if (!token) return;
+
+  const current = new AbortController();
+  controller = current;
+
+  const resetStallTimer = () => {
+    stallTimer = clearTimer(stallTimer);
+    stallTimer = setTimeout(() => current.abort(), STALL_TIMEOUT_MS);
+  };
+
+  const headers: Record<string, string> = {
+    Accept: 'text/event-stream',
+    Authorization: `Bearer ${token}`,
+  };
+  if (lastEventId) {
+    headers['Last-Event-ID'] = lastEventId;
+  }
+
+  try {
+    resetStallTimer();
+    const response = await fetch(STREAM_URL, {
+      headers,
+      signal: current.signal,
+      cache: 'no-store',
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Notification stream responded with ${response.status}`);
+    }
+
+    setConnected(true);
+    retryDelay = INITIAL_RETRY_DELAY_MS;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      resetStallTimer();
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split(/\r?\n\r?\n/);
+      buffer = messages.pop() ?? '';
+      messages.forEach(handleMessage);
+    }
+  } catch (error) {
+    if (controller === current && !current.signal.aborted) {
+      console.warn('Notification stream disconnected:', error);
+    }
+  } finally {
+    stallTimer = clearTimer(stallTimer);
+    // A stopped or replaced stream must not reconnect
+    if (controller === current) {
+      controller = null;
+      setConnected(false);
+      if (subscriberCount > 0) scheduleReconnect();
+    }
+  }
+}
+
+const disconnect = () => {
+  retryTimer = clearTimer(retryTimer);
+  stallTimer = clearTimer(stallTimer);
+  retryDelay = INITIAL_RETRY_DELAY_MS;
+
+  const current = controller;
+  controller = null;
+  current?.abort();
+  setConnected(false);
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Keeps the notification caches up to date from the server's event stream.
+ * Returns whether the stream is connected so callers can fall back to polling.
+ */
+export const useNotificationStream = (enabled: boolean): boolean => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    subscriberCount += 1;
+    if (subscriberCount === 1) {
+      connect();
+    }
+
+    return () => {
+      subscriberCount -= 1;
+      if (subscriberCount === 0) {
+        disconnect();
+      }
+    };
+  }, [enabled]);
+
+  return useSyncExternalStore(subscribe, () => connected);
+};
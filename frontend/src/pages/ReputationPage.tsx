@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { MagnifyingGlassIcon, ShieldCheckIcon, UserIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { MagnifyingGlassIcon, ShieldCheckIcon, UserIcon, ClockIcon, EyeIcon } from '@heroicons/react/24/outline';
 import { useSearchPlayersByHandleMutation } from '../services/apiSlice';
 import { Paper, Button, ListPage } from '../components/ui';
 import { Link } from 'react-router-dom';
@@ -67,6 +67,14 @@ const ReputationPage: React.FC = () => {
     <ListPage 
       title="Player Reputation" 
       subtitle="Search for Star Citizen players to view their reputation, reports, and community feedback"
+      headerActions={
+        <Link to="/reputation/watchlists">
+          <Button variant="secondary">
+            <EyeIcon className="w-4 h-4" />
+            Watchlists
+          </Button>
+        </Link>
+      }
     >
       {/* Search Input */}
       <Paper variant="glass-strong" size="lg">
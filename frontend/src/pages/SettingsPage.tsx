@@ -4,6 +4,9 @@ import { useGetCurrentUserQuery } from '../services/apiSlice';
 import { Button, SettingsPageLayout } from '../components/ui';
 import OrganizationManagement from '../components/settings/OrganizationManagement';
 import DiscordServersSettings from '../components/settings/DiscordServersSettings';
+import CalendarFeedSettings from '../components/settings/CalendarFeedSettings';
+import NotificationPreferences from '../components/settings/NotificationPreferences';
+import DangerZone from '../components/settings/DangerZone';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import { Link } from 'react-router-dom';
 
@@ -130,14 +133,17 @@ const SettingsPage: React.FC = () => {
         {/* Discord Servers */}
         <DiscordServersSettings />
 
+        {/* Calendar Feeds */}
+        <CalendarFeedSettings />
+
         {/* Notification Preferences */}
-        {/* <NotificationPreferences /> */}
+        <NotificationPreferences />
 
         {/* Privacy Settings */}
         {/* <PrivacySettings /> */}
 
         {/* Danger Zone */}
-        {/* <DangerZone /> */}
+        <DangerZone />
       </div>
     </SettingsPageLayout>
   );
@@ -0,0 +1,399 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowDownTrayIcon,
+  BuildingOfficeIcon,
+  EyeIcon,
+  TrashIcon,
+  UserIcon,
+} from '@heroicons/react/24/outline';
+import {
+  useAddWatchlistEntryMutation,
+  useCreateWatchlistMutation,
+  useDeleteWatchlistMutation,
+  useGetUserOrganizationsForManagementQuery,
+  useGetWatchlistQuery,
+  useGetWatchlistsQuery,
+  useLazyExportWatchlistQuery,
+  useLookupPlayerMutation,
+  useRemoveWatchlistEntryMutation,
+} from '../services/apiSlice';
+import { DocumentExportService } from '../services/DocumentExportService';
+import { Button, Input, ListPage, Paper, Select } from '../components/ui';
+import { WatchlistEntryType } from '../types/reputation';
+
+const PERSONAL = 'personal';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { data?: { error?: string } })?.data?.error || fallback;
+
+const WatchlistPage: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState('');
+  const [newListOwner, setNewListOwner] = useState(PERSONAL);
+  const [entryType, setEntryType] = useState<WatchlistEntryType>('player');
+  const [target, setTarget] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: watchlists = [], isLoading } = useGetWatchlistsQuery();
+  const { data: organizations = [] } =
+    useGetUserOrganizationsForManagementQuery();
+  const { data: selected, isFetching: isLoadingEntries } = useGetWatchlistQuery(
+    selectedId!,
+    { skip: !selectedId }
+  );
+
+  const [createWatchlist, { isLoading: isCreating }] =
+    useCreateWatchlistMutation();
+  const [deleteWatchlist] = useDeleteWatchlistMutation();
+  const [addEntry, { isLoading: isAdding }] = useAddWatchlistEntryMutation();
+  const [removeEntry] = useRemoveWatchlistEntryMutation();
+  const [lookupPlayer, { isLoading: isLookingUp }] = useLookupPlayerMutation();
+  const [exportWatchlist, { isFetching: isExporting }] =
+    useLazyExportWatchlistQuery();
+
+  // Open the first list once they load, and move off a list after it is deleted
+  useEffect(() => {
+    const [first] = watchlists;
+    if (!first) {
+      setSelectedId(null);
+    } else if (!watchlists.some(watchlist => watchlist.id === selectedId)) {
+      setSelectedId(first.id);
+    }
+  }, [watchlists, selectedId]);
+
+  const handleCreate = async () => {
+    if (!newListName.trim()) return;
+    setError(null);
+    try {
+      const created = await createWatchlist({
+        name: newListName.trim(),
+        ...(newListOwner !== PERSONAL && { organization_id: newListOwner }),
+      }).unwrap();
+      setNewListName('');
+      setSelectedId(created.id);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create watchlist'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Delete "${selected.watchlist.name}"?`)) return;
+    setError(null);
+    try {
+      await deleteWatchlist(selected.watchlist.id).unwrap();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete watchlist'));
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selectedId || !target.trim()) return;
+    setError(null);
+    try {
+      if (entryType === 'player') {
+        // Looking the handle up makes sure the player is tracked before we watch them
+        const player = await lookupPlayer({ handle: target.trim() }).unwrap();
+        await addEntry({
+          watchlistId: selectedId,
+          data: {
+            entry_type: 'player',
+            spectrum_id: player.spectrum_id,
+            ...(note.trim() && { note: note.trim() }),
+          },
+        }).unwrap();
+      } else {
+        await addEntry({
+          watchlistId: selectedId,
+          data: {
+            entry_type: 'organization',
+            org_spectrum_id: target.trim(),
+            ...(note.trim() && { note: note.trim() }),
+          },
+        }).unwrap();
+      }
+      setTarget('');
+      setNote('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add to watchlist'));
+    }
+  };
+
+  const handleRemove = async (entryId: string) => {
+    if (!selectedId) return;
+    setError(null);
+    try {
+      await removeEntry({ watchlistId: selectedId, entryId }).unwrap();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove from watchlist'));
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!selected) return;
+    setError(null);
+    try {
+      const content = await exportWatchlist({
+        watchlistId: selected.watchlist.id,
+        format,
+      }).unwrap();
+      const filename = `${selected.watchlist.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')}.${format}`;
+      DocumentExportService.downloadFile(
+        content,
+        filename,
+        format === 'csv' ? 'text/csv' : 'application/json'
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to export watchlist'));
+    }
+  };
+
+  const ownerOptions = [
+    { value: PERSONAL, label: 'Personal' },
+    ...organizations.map(organization => ({
+      value: organization.id,
+      label: `Shared with ${organization.name}`,
+    })),
+  ];
+
+  return (
+    <ListPage
+      title='Watchlists'
+      subtitle='Follow players and organizations and get notified about new reports, tags, comments, corroborations, handle and membership changes'
+      headerActions={
+        <Link to='/reputation'>
+          <Button variant='secondary'>Player Search</Button>
+        </Link>
+      }
+    >
+      {error && (
+        <Paper variant='glass' size='md' className='border border-red-500/40'>
+          <p className='text-sm text-red-400'>{error}</p>
+        </Paper>
+      )}
+
+      <div className='grid grid-cols-1 lg:grid-cols-3 gap-[var(--spacing-card-lg)]'>
+        {/* Lists */}
+        <Paper variant='glass' size='lg' className='space-y-4'>
+          <h3 className='text-lg font-semibold text-white'>Your Lists</h3>
+
+          {isLoading ? (
+            <p className='text-sm text-white/60'>Loading watchlists...</p>
+          ) : watchlists.length === 0 ? (
+            <p className='text-sm text-white/60'>
+              You are not watching anyone yet. Create a list to get started.
+            </p>
+          ) : (
+            <ul className='space-y-2'>
+              {watchlists.map(watchlist => (
+                <li key={watchlist.id}>
+                  <button
+                    type='button'
+                    onClick={() => setSelectedId(watchlist.id)}
+                    className={`w-full text-left px-3 py-2 rounded transition-colors ${
+                      watchlist.id === selectedId
+                        ? 'bg-white/15 text-white'
+                        : 'text-white/80 hover:bg-white/10'
+                    }`}
+                  >
+                    <div className='flex items-center justify-between'>
+                      <span className='font-medium'>{watchlist.name}</span>
+                      <span className='text-xs text-white/60'>
+                        {watchlist.entry_count}
+                      </span>
+                    </div>
+                    <span className='text-xs text-white/50'>
+                      {watchlist.organization_name
+                        ? `Shared with ${watchlist.organization_name}`
+                        : 'Personal'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className='pt-4 border-t border-white/10 space-y-3'>
+            <Input
+              value={newListName}
+              onChange={setNewListName}
+              placeholder='New list name'
+            />
+            {organizations.length > 0 && (
+              <Select
+                value={newListOwner}
+                onChange={value => setNewListOwner(value as string)}
+                options={ownerOptions}
+              />
+            )}
+            <Button
+              variant='primary'
+              onClick={handleCreate}
+              disabled={!newListName.trim() || isCreating}
+              className='w-full justify-center'
+            >
+              {isCreating ? 'Creating...' : 'Create List'}
+            </Button>
+          </div>
+        </Paper>
+
+        {/* Entries */}
+        <Paper variant='glass' size='lg' className='lg:col-span-2 space-y-4'>
+          {!selected ? (
+            <div className='text-center py-8'>
+              <EyeIcon className='w-12 h-12 text-white/40 mx-auto mb-4' />
+              <p className='text-white/80'>
+                Select a watchlist to see who is on it
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className='flex items-start justify-between gap-4'>
+                <div>
+                  <h3 className='text-lg font-semibold text-white'>
+                    {selected.watchlist.name}
+                  </h3>
+                  {selected.watchlist.description && (
+                    <p className='text-sm text-white/70'>
+                      {selected.watchlist.description}
+                    </p>
+                  )}
+                </div>
+                <div className='flex items-center gap-2'>
+                  <Button
+                    variant='secondary'
+                    size='sm'
+                    onClick={() => handleExport('csv')}
+                    disabled={isExporting}
+                  >
+                    <ArrowDownTrayIcon className='w-4 h-4' />
+                    CSV
+                  </Button>
+                  <Button
+                    variant='secondary'
+                    size='sm'
+                    onClick={() => handleExport('json')}
+                    disabled={isExporting}
+                  >
+                    <ArrowDownTrayIcon className='w-4 h-4' />
+                    JSON
+                  </Button>
+                  {selected.watchlist.can_manage && (
+                    <Button variant='danger' size='sm' onClick={handleDelete}>
+                      <TrashIcon className='w-4 h-4' />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {selected.watchlist.can_manage && (
+                <div className='grid grid-cols-1 md:grid-cols-4 gap-3'>
+                  <Select
+                    value={entryType}
+                    onChange={value =>
+                      setEntryType(value as WatchlistEntryType)
+                    }
+                    options={[
+                      { value: 'player', label: 'Player' },
+                      { value: 'organization', label: 'Organization' },
+                    ]}
+                  />
+                  <Input
+                    value={target}
+                    onChange={setTarget}
+                    placeholder={
+                      entryType === 'player'
+                        ? 'Player handle'
+                        : 'Organization SID'
+                    }
+                  />
+                  <Input
+                    value={note}
+                    onChange={setNote}
+                    placeholder='Note (optional)'
+                  />
+                  <Button
+                    variant='primary'
+                    onClick={handleAdd}
+                    disabled={!target.trim() || isAdding || isLookingUp}
+                    className='justify-center'
+                  >
+                    {isAdding || isLookingUp ? 'Adding...' : 'Add'}
+                  </Button>
+                </div>
+              )}
+
+              {isLoadingEntries && !selected.entries.length ? (
+                <p className='text-sm text-white/60'>Loading entries...</p>
+              ) : selected.entries.length === 0 ? (
+                <p className='text-sm text-white/60'>
+                  Nothing on this list yet.
+                </p>
+              ) : (
+                <ul className='divide-y divide-white/10'>
+                  {selected.entries.map(entry => (
+                    <li
+                      key={entry.id}
+                      className='flex items-center justify-between py-3 gap-4'
+                    >
+                      <div className='flex items-center gap-3 min-w-0'>
+                        {entry.entry_type === 'player' ? (
+                          <UserIcon className='w-5 h-5 text-white/60 flex-shrink-0' />
+                        ) : (
+                          <BuildingOfficeIcon className='w-5 h-5 text-white/60 flex-shrink-0' />
+                        )}
+                        <div className='min-w-0'>
+                          {entry.entry_type === 'player' ? (
+                            <Link
+                              to={`/reputation/players/${entry.player_spectrum_id}`}
+                              className='font-medium text-white hover:text-[var(--color-accent-blue)]'
+                            >
+                              {entry.player_handle}
+                            </Link>
+                          ) : (
+                            <span className='font-medium text-white'>
+                              {entry.org_name
+                                ? `${entry.org_name} (${entry.org_spectrum_id})`
+                                : entry.org_spectrum_id}
+                            </span>
+                          )}
+                          {entry.note && (
+                            <p className='text-sm text-white/60 truncate'>
+                              {entry.note}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <div className='flex items-center gap-3 flex-shrink-0'>
+                        <span className='text-xs text-white/50'>
+                          Added{' '}
+                          {new Date(entry.created_at).toLocaleDateString()}
+                        </span>
+                        {selected.watchlist.can_manage && (
+                          <Button
+                            variant='ghost'
+                            size='sm'
+                            onClick={() => handleRemove(entry.id)}
+                            title='Remove from watchlist'
+                          >
+                            <TrashIcon className='w-4 h-4' />
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </Paper>
+      </div>
+    </ListPage>
+  );
+};
+
+export default WatchlistPage;
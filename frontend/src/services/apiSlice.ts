@@ -33,8 +33,24 @@ import type {
   NotificationListResponse,
   NotificationStats,
   NotificationPreferences,
+  UpdateNotificationPreferencesRequest,
   UpdateNotificationRequest,
 } from '../types/notification';
+import type { CalendarFeedToken } from '../types/calendar';
+import type {
+  AccountDeletionRequest,
+  AccountDeletionStatusResponse,
+  CreateAccountDeletionRequest,
+} from '../types/user';
+import type {
+  EventAttendanceRoster,
+  EventAttendanceStatus,
+  EventCheckInCode,
+  EventRegistration,
+  EventSeriesWithOccurrences,
+  EventSlot,
+  UserAttendanceHistory,
+} from '../types/event';
 
 // Common response types
 export interface ApiSuccessResponse<T> {
@@ -93,9 +109,14 @@ export const apiSlice = createApi({
     'OrganizationReportCorroboration',
     'AltAccountReportCorroboration',
     'AffiliatedPeopleReportCorroboration',
+    'Watchlist',
     // HR system tags
     'Application',
+    'ApplicationForm',
+    'RecruitmentPipeline',
+    'InterviewSlot',
     'OnboardingProgress',
+    'Mentorship',
     'PerformanceReview',
     'Skill',
     'Document',
@@ -103,6 +124,9 @@ export const apiSlice = createApi({
     'HRActivity',
     'SkillStatistics',
     'DocumentAcknowledment',
+    'CalendarFeed',
+    'EventAttendance',
+    'AccountDeletion',
   ],
   // Configure serialization to handle non-serializable data
   serializeQueryArgs: ({ queryArgs, endpointName }) => {
@@ -462,6 +486,19 @@ export const apiSlice = createApi({
       keepUnusedDataFor: 300,
     }),
 
+    getEventSeries: builder.query<EventSeriesWithOccurrences, string>({
+      query: seriesId => `/api/events/series/${seriesId}`,
+      transformResponse: (
+        response: ApiSuccessResponse<EventSeriesWithOccurrences>
+      ) => ({
+        series: response.data.series,
+        occurrences: response.data.occurrences.map(transformEventResponse),
+      }),
+      providesTags: (_, __, seriesId) => [
+        { type: 'Event', id: `SERIES_${seriesId}` },
+      ],
+    }),
+
     createEvent: builder.mutation<Event, CreateEventData>({
       query: data => ({
         url: '/api/events',
@@ -559,19 +596,56 @@ export const apiSlice = createApi({
       keepUnusedDataFor: 120,
     }),
 
-    registerForEvent: builder.mutation<ApiMessageResponse, { eventId: string }>(
-      {
-        query: ({ eventId }) => ({
-          url: `/api/events/${eventId}/registrations`,
-          method: 'POST',
-        }),
-        invalidatesTags: (_, __, { eventId }) => [
-          { type: 'Event', id: eventId },
-          { type: 'Event', id: 'LIST' },
-          { type: 'EventRegistrations', id: eventId },
-        ],
-      }
-    ),
+    registerForEvent: builder.mutation<
+      ApiSuccessResponse<EventRegistration> & {
+        waitlisted: boolean;
+        message: string;
+      },
+      { eventId: string; slotId?: string }
+    >({
+      query: ({ eventId, slotId }) => ({
+        url: `/api/events/${eventId}/registrations`,
+        method: 'POST',
+        ...(slotId && { body: { slot_id: slotId } }),
+      }),
+      invalidatesTags: (_, __, { eventId }) => [
+        { type: 'Event', id: eventId },
+        { type: 'Event', id: 'LIST' },
+        { type: 'EventRegistrations', id: eventId },
+      ],
+    }),
+
+    getEventSlots: builder.query<EventSlot[], string>({
+      query: eventId => `/api/events/${eventId}/slots`,
+      transformResponse: (response: ApiSuccessResponse<EventSlot[]>) =>
+        response.data,
+      providesTags: (_, __, eventId) => [
+        { type: 'EventRegistrations', id: eventId },
+      ],
+    }),
+
+    getMyEventRegistration: builder.query<EventRegistration | null, string>({
+      query: eventId => `/api/events/${eventId}/registrations/me`,
+      transformResponse: (
+        response: ApiSuccessResponse<EventRegistration | null>
+      ) => response.data,
+      providesTags: (_, __, eventId) => [
+        { type: 'EventRegistrations', id: eventId },
+      ],
+    }),
+
+    confirmEventRegistration: builder.mutation<
+      ApiSuccessResponse<EventRegistration>,
+      { eventId: string }
+    >({
+      query: ({ eventId }) => ({
+        url: `/api/events/${eventId}/registrations/confirm`,
+        method: 'POST',
+      }),
+      invalidatesTags: (_, __, { eventId }) => [
+        { type: 'EventRegistrations', id: eventId },
+      ],
+    }),
 
     unregisterFromEvent: builder.mutation<
       ApiMessageResponse,
@@ -588,6 +662,95 @@ export const apiSlice = createApi({
       ],
     }),
 
+    // Event attendance endpoints
+    getEventAttendance: builder.query<EventAttendanceRoster, string>({
+      query: eventId => `/api/events/${eventId}/attendance`,
+      transformResponse: (response: ApiSuccessResponse<EventAttendanceRoster>) =>
+        response.data,
+      providesTags: (_, __, eventId) => [
+        { type: 'EventAttendance', id: eventId },
+      ],
+      keepUnusedDataFor: 60,
+    }),
+
+    markEventAttendance: builder.mutation<
+      ApiSuccessResponse<EventRegistration[]> & { message: string },
+      { eventId: string; userIds: string[]; status: EventAttendanceStatus }
+    >({
+      query: ({ eventId, userIds, status }) => ({
+        url: `/api/events/${eventId}/attendance`,
+        method: 'PUT',
+        body: { user_ids: userIds, status },
+      }),
+      invalidatesTags: (_, __, { eventId }) => [
+        { type: 'EventAttendance', id: eventId },
+        { type: 'EventRegistrations', id: eventId },
+      ],
+    }),
+
+    openEventCheckIn: builder.mutation<
+      EventCheckInCode,
+      { eventId: string; expiresInMinutes?: number }
+    >({
+      query: ({ eventId, expiresInMinutes }) => ({
+        url: `/api/events/${eventId}/check-in-code`,
+        method: 'POST',
+        body:
+          expiresInMinutes !== undefined
+            ? { expires_in_minutes: expiresInMinutes }
+            : {},
+      }),
+      transformResponse: (response: ApiSuccessResponse<EventCheckInCode>) =>
+        response.data,
+      invalidatesTags: (_, __, { eventId }) => [
+        { type: 'EventAttendance', id: eventId },
+      ],
+    }),
+
+    closeEventCheckIn: builder.mutation<ApiMessageResponse, { eventId: string }>(
+      {
+        query: ({ eventId }) => ({
+          url: `/api/events/${eventId}/check-in-code`,
+          method: 'DELETE',
+        }),
+        invalidatesTags: (_, __, { eventId }) => [
+          { type: 'EventAttendance', id: eventId },
+        ],
+      }
+    ),
+
+    checkInToEvent: builder.mutation<
+      ApiSuccessResponse<EventRegistration> & { message: string },
+      { eventId: string; code: string }
+    >({
+      query: ({ eventId, code }) => ({
+        url: `/api/events/${eventId}/check-in`,
+        method: 'POST',
+        body: { code },
+      }),
+      invalidatesTags: (_, __, { eventId }) => [
+        { type: 'EventRegistrations', id: eventId },
+        { type: 'EventAttendance', id: eventId },
+      ],
+    }),
+
+    getMemberAttendance: builder.query<
+      UserAttendanceHistory,
+      { spectrumId: string; userId: string; since?: string }
+    >({
+      query: ({ spectrumId, userId, since }) => {
+        const params = new URLSearchParams();
+        if (since) params.append('since', since);
+        const queryString = params.toString();
+        return `/api/organizations/${spectrumId}/members/${userId}/attendance${queryString ? `?${queryString}` : ''}`;
+      },
+      transformResponse: (response: ApiSuccessResponse<UserAttendanceHistory>) =>
+        response.data,
+      providesTags: (_, __, { userId }) => [
+        { type: 'EventAttendance', id: `USER_${userId}` },
+      ],
+    }),
+
     sendEventNotification: builder.mutation<
       {
         success: boolean;
@@ -733,6 +896,33 @@ export const apiSlice = createApi({
       keepUnusedDataFor: 120,
     }),
 
+    // Calendar feed endpoints
+    getCalendarFeedToken: builder.query<CalendarFeedToken | null, void>({
+      query: () => '/api/calendar/token',
+      transformResponse: (
+        response: ApiSuccessResponse<CalendarFeedToken | null>
+      ) => response.data,
+      providesTags: ['CalendarFeed'],
+    }),
+
+    rotateCalendarFeedToken: builder.mutation<CalendarFeedToken, void>({
+      query: () => ({
+        url: '/api/calendar/token/rotate',
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiSuccessResponse<CalendarFeedToken>) =>
+        response.data,
+      invalidatesTags: ['CalendarFeed'],
+    }),
+
+    revokeCalendarFeedToken: builder.mutation<ApiMessageResponse, void>({
+      query: () => ({
+        url: '/api/calendar/token',
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['CalendarFeed'],
+    }),
+
     // Home page endpoints
     getFeaturedOrganizations: builder.query<Organization[], { limit?: number }>(
       {
@@ -1177,6 +1367,43 @@ export const apiSlice = createApi({
       ],
     }),
 
+    addMemberRole: builder.mutation<
+      any,
+      {
+        spectrumId: string;
+        userId: string;
+        roleId: string;
+      }
+    >({
+      query: ({ spectrumId, userId, roleId }) => ({
+        url: `/api/roles/organizations/${spectrumId}/members/${userId}/roles`,
+        method: 'POST',
+        body: { roleId },
+      }),
+      invalidatesTags: (_, __, { spectrumId }) => [
+        { type: 'Member', id: spectrumId },
+        { type: 'Role', id: spectrumId },
+      ],
+    }),
+
+    removeMemberRole: builder.mutation<
+      any,
+      {
+        spectrumId: string;
+        userId: string;
+        roleId: string;
+      }
+    >({
+      query: ({ spectrumId, userId, roleId }) => ({
+        url: `/api/roles/organizations/${spectrumId}/members/${userId}/roles/${roleId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_, __, { spectrumId }) => [
+        { type: 'Member', id: spectrumId },
+        { type: 'Role', id: spectrumId },
+      ],
+    }),
+
     removeMember: builder.mutation<
       any,
       {
@@ -1442,15 +1669,17 @@ export const apiSlice = createApi({
     }),
 
     updateNotificationPreferences: builder.mutation<
-      { message: string },
-      Partial<NotificationPreferences>
+      NotificationPreferences,
+      UpdateNotificationPreferencesRequest
     >({
       query: data => ({
         url: '/api/notifications/preferences',
         method: 'PUT',
         body: data,
       }),
-      transformResponse: (response: ApiMessageResponse) => response,
+      transformResponse: (
+        response: ApiSuccessResponse<NotificationPreferences>
+      ) => response.data,
       invalidatesTags: ['Notification'],
     }),
 
@@ -1666,6 +1895,50 @@ export const apiSlice = createApi({
       }
     ),
 
+    // Account lifecycle endpoints
+    // Returns the archive as text so the settings page can offer it as a download
+    exportAccountData: builder.query<string, void>({
+      query: () => ({
+        url: '/api/user/me/export',
+        responseHandler: 'text',
+      }),
+      keepUnusedDataFor: 0,
+    }),
+
+    getAccountDeletion: builder.query<AccountDeletionStatusResponse, void>({
+      query: () => '/api/user/me/deletion',
+      transformResponse: (
+        response: ApiSuccessResponse<AccountDeletionStatusResponse>
+      ) => response.data,
+      providesTags: ['AccountDeletion'],
+    }),
+
+    requestAccountDeletion: builder.mutation<
+      AccountDeletionRequest,
+      CreateAccountDeletionRequest
+    >({
+      query: body => ({
+        url: '/api/user/me/deletion',
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (
+        response: ApiSuccessResponse<AccountDeletionRequest>
+      ) => response.data,
+      invalidatesTags: ['AccountDeletion'],
+    }),
+
+    cancelAccountDeletion: builder.mutation<AccountDeletionRequest, void>({
+      query: () => ({
+        url: '/api/user/me/deletion',
+        method: 'DELETE',
+      }),
+      transformResponse: (
+        response: ApiSuccessResponse<AccountDeletionRequest>
+      ) => response.data,
+      invalidatesTags: ['AccountDeletion'],
+    }),
+
     // HR System endpoints
 
     // HR Analytics endpoints
@@ -1781,10 +2054,13 @@ export const apiSlice = createApi({
       import('../types/hr').Application,
       { organizationId: string; data: import('../types/hr').CreateApplicationData }
     >({
-      query: ({ organizationId, data }) => ({
+      query: ({ organizationId, data: { form_id, form_version, ...applicationData } }) => ({
         url: `/api/organizations/${organizationId}/applications`,
         method: 'POST',
-        body: data,
+        body: {
+          application_data: applicationData,
+          ...(form_id && { form_id, form_version }),
+        },
       }),
       transformResponse: (response: ApiSuccessResponse<import('../types/hr').Application>) =>
         response.data,
@@ -1870,6 +2146,322 @@ export const apiSlice = createApi({
       ],
     }),
 
+    vetApplicants: builder.mutation<
+      import('../types/reputation').PlayerVettingSummary[],
+      { organizationId: string; handles: string[] | string }
+    >({
+      query: ({ organizationId, handles }) => ({
+        url: `/api/organizations/${organizationId}/applications/vetting`,
+        method: 'POST',
+        body: { handles },
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/reputation').PlayerVettingSummary[]>) =>
+        response.data,
+    }),
+
+    revetApplication: builder.mutation<
+      import('../types/hr').Application,
+      { organizationId: string; applicationId: string }
+    >({
+      query: ({ organizationId, applicationId }) => ({
+        url: `/api/organizations/${organizationId}/applications/${applicationId}/vetting`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').Application>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId, applicationId }) => [
+        { type: 'Application', id: applicationId },
+        { type: 'Application', id: `${organizationId}-list` },
+      ],
+    }),
+
+    getApplicationForms: builder.query<
+      import('../types/hr').ApplicationForm[],
+      { organizationId: string; includeArchived?: boolean }
+    >({
+      query: ({ organizationId, includeArchived }) => ({
+        url: `/api/organizations/${organizationId}/application-forms`,
+        params: includeArchived ? { include_archived: true } : {},
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').ApplicationForm[]>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [
+        { type: 'ApplicationForm', id: organizationId },
+      ],
+    }),
+
+    // Versions never change once saved, so they can stay cached
+    getApplicationFormVersion: builder.query<
+      import('../types/hr').ApplicationForm,
+      { organizationId: string; formId: string; version: number }
+    >({
+      query: ({ organizationId, formId, version }) =>
+        `/api/organizations/${organizationId}/application-forms/${formId}/versions/${version}`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').ApplicationForm>) =>
+        response.data,
+      keepUnusedDataFor: 3600,
+    }),
+
+    createApplicationForm: builder.mutation<
+      import('../types/hr').ApplicationForm,
+      { organizationId: string; data: import('../types/hr').ApplicationFormData }
+    >({
+      query: ({ organizationId, data }) => ({
+        url: `/api/organizations/${organizationId}/application-forms`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').ApplicationForm>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'ApplicationForm', id: organizationId },
+      ],
+    }),
+
+    updateApplicationForm: builder.mutation<
+      import('../types/hr').ApplicationForm,
+      { organizationId: string; formId: string; data: import('../types/hr').ApplicationFormData }
+    >({
+      query: ({ organizationId, formId, data }) => ({
+        url: `/api/organizations/${organizationId}/application-forms/${formId}`,
+        method: 'PUT',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').ApplicationForm>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'ApplicationForm', id: organizationId },
+      ],
+    }),
+
+    archiveApplicationForm: builder.mutation<
+      void,
+      { organizationId: string; formId: string }
+    >({
+      query: ({ organizationId, formId }) => ({
+        url: `/api/organizations/${organizationId}/application-forms/${formId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'ApplicationForm', id: organizationId },
+      ],
+    }),
+
+    // Recruitment Pipeline endpoints
+    getRecruitmentPipeline: builder.query<
+      import('../types/hr').RecruitmentPipeline,
+      { organizationId: string }
+    >({
+      query: ({ organizationId }) => `/api/organizations/${organizationId}/pipeline`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').RecruitmentPipeline>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [
+        { type: 'RecruitmentPipeline', id: organizationId },
+      ],
+    }),
+
+    updatePipelineStages: builder.mutation<
+      import('../types/hr').PipelineStage[],
+      { organizationId: string; stages: import('../types/hr').PipelineStageData[] }
+    >({
+      query: ({ organizationId, stages }) => ({
+        url: `/api/organizations/${organizationId}/pipeline/stages`,
+        method: 'PUT',
+        body: { stages },
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').PipelineStage[]>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'RecruitmentPipeline', id: organizationId },
+        // Removed stages drop out of the applications in them
+        { type: 'Application', id: `${organizationId}-list` },
+      ],
+    }),
+
+    createPipelineRule: builder.mutation<
+      import('../types/hr').PipelineRule,
+      { organizationId: string; data: import('../types/hr').PipelineRuleData }
+    >({
+      query: ({ organizationId, data }) => ({
+        url: `/api/organizations/${organizationId}/pipeline/rules`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').PipelineRule>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'RecruitmentPipeline', id: organizationId },
+      ],
+    }),
+
+    updatePipelineRule: builder.mutation<
+      import('../types/hr').PipelineRule,
+      { organizationId: string; ruleId: string; data: import('../types/hr').PipelineRuleData }
+    >({
+      query: ({ organizationId, ruleId, data }) => ({
+        url: `/api/organizations/${organizationId}/pipeline/rules/${ruleId}`,
+        method: 'PUT',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').PipelineRule>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'RecruitmentPipeline', id: organizationId },
+      ],
+    }),
+
+    deletePipelineRule: builder.mutation<
+      void,
+      { organizationId: string; ruleId: string }
+    >({
+      query: ({ organizationId, ruleId }) => ({
+        url: `/api/organizations/${organizationId}/pipeline/rules/${ruleId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'RecruitmentPipeline', id: organizationId },
+      ],
+    }),
+
+    moveApplicationToStage: builder.mutation<
+      import('../types/hr').Application,
+      {
+        organizationId: string;
+        applicationId: string;
+        data: import('../types/hr').MoveApplicationStageData;
+      }
+    >({
+      query: ({ organizationId, applicationId, data }) => ({
+        url: `/api/organizations/${organizationId}/applications/${applicationId}/stage`,
+        method: 'PUT',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').Application>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId, applicationId }) => [
+        { type: 'Application', id: applicationId },
+        { type: 'Application', id: `${organizationId}-list` },
+        { type: 'HRAnalytics', id: organizationId },
+        { type: 'HRActivity', id: organizationId },
+      ],
+    }),
+
+    // Interview Scheduling endpoints
+    getInterviewSlots: builder.query<
+      import('../types/hr').InterviewSlot[],
+      { organizationId: string }
+    >({
+      query: ({ organizationId }) => `/api/organizations/${organizationId}/interview-slots`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').InterviewSlot[]>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [
+        { type: 'InterviewSlot', id: organizationId },
+      ],
+    }),
+
+    publishInterviewSlot: builder.mutation<
+      import('../types/hr').InterviewSlot,
+      { organizationId: string; data: import('../types/hr').PublishInterviewSlotData }
+    >({
+      query: ({ organizationId, data }) => ({
+        url: `/api/organizations/${organizationId}/interview-slots`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').InterviewSlot>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'InterviewSlot', id: organizationId },
+      ],
+    }),
+
+    cancelInterviewSlot: builder.mutation<
+      import('../types/hr').InterviewSlot,
+      { organizationId: string; slotId: string }
+    >({
+      query: ({ organizationId, slotId }) => ({
+        url: `/api/organizations/${organizationId}/interview-slots/${slotId}`,
+        method: 'DELETE',
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').InterviewSlot>) =>
+        response.data,
+      // Cancelling a booked interview sends its application back under review
+      invalidatesTags: (result, __, { organizationId }) => [
+        { type: 'InterviewSlot', id: organizationId },
+        ...(result?.application_id
+          ? [
+              { type: 'InterviewSlot' as const, id: result.application_id },
+              { type: 'Application' as const, id: result.application_id },
+              { type: 'Application' as const, id: `${organizationId}-list` },
+            ]
+          : []),
+      ],
+    }),
+
+    getOpenInterviewSlots: builder.query<
+      import('../types/hr').InterviewSlot[],
+      { organizationId: string; applicationId: string }
+    >({
+      query: ({ organizationId, applicationId }) =>
+        `/api/organizations/${organizationId}/applications/${applicationId}/interview-slots`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').InterviewSlot[]>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [
+        { type: 'InterviewSlot', id: organizationId },
+      ],
+    }),
+
+    getApplicationInterview: builder.query<
+      import('../types/hr').InterviewSlot | null,
+      { organizationId: string; applicationId: string }
+    >({
+      query: ({ organizationId, applicationId }) =>
+        `/api/organizations/${organizationId}/applications/${applicationId}/interview`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').InterviewSlot | null>) =>
+        response.data,
+      providesTags: (_, __, { applicationId }) => [
+        { type: 'InterviewSlot', id: applicationId },
+      ],
+    }),
+
+    bookInterviewSlot: builder.mutation<
+      import('../types/hr').InterviewSlot,
+      { organizationId: string; applicationId: string; slotId: string }
+    >({
+      query: ({ organizationId, applicationId, slotId }) => ({
+        url: `/api/organizations/${organizationId}/applications/${applicationId}/interview`,
+        method: 'POST',
+        body: { slot_id: slotId },
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').InterviewSlot>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId, applicationId }) => [
+        { type: 'InterviewSlot', id: organizationId },
+        { type: 'InterviewSlot', id: applicationId },
+        { type: 'Application', id: applicationId },
+      ],
+    }),
+
+    recordInterviewNotes: builder.mutation<
+      import('../types/hr').InterviewSlot,
+      {
+        organizationId: string;
+        applicationId: string;
+        data: import('../types/hr').RecordInterviewNotesData;
+      }
+    >({
+      query: ({ organizationId, applicationId, data }) => ({
+        url: `/api/organizations/${organizationId}/applications/${applicationId}/interview/notes`,
+        method: 'PUT',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').InterviewSlot>) =>
+        response.data,
+      invalidatesTags: (_, __, { applicationId }) => [
+        { type: 'InterviewSlot', id: applicationId },
+      ],
+    }),
+
     // Onboarding Management endpoints
     getOnboardingTemplates: builder.query<
       import('../types/hr').OnboardingTemplate[],
@@ -1966,20 +2558,188 @@ export const apiSlice = createApi({
 
     completeOnboardingTask: builder.mutation<
       import('../types/hr').OnboardingProgress,
-      { organizationId: string; taskId: string }
+      { organizationId: string; taskId: string; userId: string }
     >({
-      query: ({ organizationId, taskId }) => ({
-        url: `/api/organizations/${organizationId}/onboarding/tasks/${taskId}/complete`,
+      query: ({ organizationId, taskId, userId }) => ({
+        url: `/api/organizations/${organizationId}/onboarding/progress/${userId}/tasks/${taskId}/complete`,
         method: 'POST',
       }),
       transformResponse: (response: ApiSuccessResponse<import('../types/hr').OnboardingProgress>) =>
         response.data,
-      invalidatesTags: (_, __, { organizationId }) => [
+      invalidatesTags: (_, __, { organizationId, userId }) => [
+        { type: 'OnboardingProgress', id: userId },
         { type: 'OnboardingProgress', id: organizationId },
         { type: 'HRAnalytics', id: organizationId },
       ],
     }),
 
+    // Mentorship endpoints
+    getMentorProfile: builder.query<
+      import('../types/hr').MentorProfile | null,
+      { organizationId: string; userId: string }
+    >({
+      query: ({ organizationId, userId }) =>
+        `/api/organizations/${organizationId}/mentorship/profiles/${userId}`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').MentorProfile | null>) =>
+        response.data,
+      providesTags: (_, __, { userId }) => [{ type: 'Mentorship', id: `profile-${userId}` }],
+    }),
+
+    updateMentorProfile: builder.mutation<
+      import('../types/hr').MentorProfile,
+      { organizationId: string; userId: string; data: import('../types/hr').UpdateMentorProfileData }
+    >({
+      query: ({ organizationId, userId, data }) => ({
+        url: `/api/organizations/${organizationId}/mentorship/profiles/${userId}`,
+        method: 'PUT',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').MentorProfile>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId, userId }) => [
+        { type: 'Mentorship', id: `profile-${userId}` },
+        { type: 'Mentorship', id: `${organizationId}-mentors` },
+      ],
+    }),
+
+    getMentors: builder.query<
+      import('../types/hr').MentorProfileWithLoad[],
+      { organizationId: string }
+    >({
+      query: ({ organizationId }) => `/api/organizations/${organizationId}/mentorship/mentors`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').MentorProfileWithLoad[]>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [
+        { type: 'Mentorship', id: `${organizationId}-mentors` },
+      ],
+    }),
+
+    getMentorMatches: builder.query<
+      import('../types/hr').MentorMatch[],
+      { organizationId: string; userId: string; limit?: number }
+    >({
+      query: ({ organizationId, userId, limit = 5 }) =>
+        `/api/organizations/${organizationId}/mentorship/matches/${userId}?limit=${limit}`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').MentorMatch[]>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [
+        { type: 'Mentorship', id: `${organizationId}-mentors` },
+      ],
+    }),
+
+    assignMentor: builder.mutation<
+      import('../types/hr').Mentorship,
+      { organizationId: string; userId: string; data: import('../types/hr').AssignMentorData }
+    >({
+      query: ({ organizationId, userId, data }) => ({
+        url: `/api/organizations/${organizationId}/onboarding/progress/${userId}/mentor`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').Mentorship>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId }) => [
+        { type: 'Mentorship', id: organizationId },
+        { type: 'Mentorship', id: `${organizationId}-mentors` },
+        { type: 'HRActivity', id: organizationId },
+        { type: 'HRAnalytics', id: organizationId },
+      ],
+    }),
+
+    getMentorships: builder.query<
+      import('../types/hr').Mentorship[],
+      { organizationId: string; filters?: import('../types/hr').MentorshipFilters }
+    >({
+      query: ({ organizationId, filters = {} }) => {
+        const params = new URLSearchParams();
+
+        Object.entries(filters).forEach(([key, value]) => {
+          if (value !== undefined) {
+            params.append(key, value.toString());
+          }
+        });
+
+        return `/api/organizations/${organizationId}/mentorships?${params.toString()}`;
+      },
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').Mentorship[]>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [{ type: 'Mentorship', id: organizationId }],
+    }),
+
+    getMyMentorships: builder.query<
+      import('../types/hr').Mentorship[],
+      { organizationId: string }
+    >({
+      query: ({ organizationId }) => `/api/organizations/${organizationId}/mentorships/mine`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').Mentorship[]>) =>
+        response.data,
+      providesTags: (_, __, { organizationId }) => [{ type: 'Mentorship', id: organizationId }],
+    }),
+
+    getMentorship: builder.query<
+      import('../types/hr').Mentorship,
+      { organizationId: string; mentorshipId: string }
+    >({
+      query: ({ organizationId, mentorshipId }) =>
+        `/api/organizations/${organizationId}/mentorships/${mentorshipId}`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').Mentorship>) =>
+        response.data,
+      providesTags: (_, __, { mentorshipId }) => [{ type: 'Mentorship', id: mentorshipId }],
+    }),
+
+    endMentorship: builder.mutation<
+      import('../types/hr').Mentorship,
+      { organizationId: string; mentorshipId: string; reason?: string }
+    >({
+      query: ({ organizationId, mentorshipId, reason }) => ({
+        url: `/api/organizations/${organizationId}/mentorships/${mentorshipId}/end`,
+        method: 'POST',
+        body: { reason },
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').Mentorship>) =>
+        response.data,
+      invalidatesTags: (_, __, { organizationId, mentorshipId }) => [
+        { type: 'Mentorship', id: mentorshipId },
+        { type: 'Mentorship', id: organizationId },
+        { type: 'Mentorship', id: `${organizationId}-mentors` },
+        { type: 'HRActivity', id: organizationId },
+        { type: 'HRAnalytics', id: organizationId },
+      ],
+    }),
+
+    completeMentorshipCheckIn: builder.mutation<
+      import('../types/hr').CompletedMentorshipCheckIn,
+      { organizationId: string; mentorshipId: string; notes?: string }
+    >({
+      query: ({ organizationId, mentorshipId, notes }) => ({
+        url: `/api/organizations/${organizationId}/mentorships/${mentorshipId}/check-ins/complete`,
+        method: 'POST',
+        body: { notes },
+      }),
+      transformResponse: (
+        response: ApiSuccessResponse<import('../types/hr').CompletedMentorshipCheckIn>
+      ) => response.data,
+      invalidatesTags: (_, __, { organizationId, mentorshipId }) => [
+        { type: 'Mentorship', id: mentorshipId },
+        { type: 'Mentorship', id: organizationId },
+        { type: 'HRAnalytics', id: organizationId },
+      ],
+    }),
+
+    addMentorshipNote: builder.mutation<
+      import('../types/hr').MentorshipNote,
+      { organizationId: string; mentorshipId: string; content: string }
+    >({
+      query: ({ organizationId, mentorshipId, content }) => ({
+        url: `/api/organizations/${organizationId}/mentorships/${mentorshipId}/notes`,
+        method: 'POST',
+        body: { content },
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/hr').MentorshipNote>) =>
+        response.data,
+      invalidatesTags: (_, __, { mentorshipId }) => [{ type: 'Mentorship', id: mentorshipId }],
+    }),
+
     // Performance Review endpoints
     getPerformanceReviews: builder.query<
       import('../types').ListResponse<import('../types/hr').PerformanceReview>,
@@ -2685,15 +3445,29 @@ export const apiSlice = createApi({
         event_participation: {
           total_events: number;
           attended_events: number;
+          no_show_events: number;
           attendance_rate: number;
+          no_show_rate: number;
           recent_events: {
             event_id: string;
             event_title: string;
             event_date: string;
             attended: boolean;
+            attended_count: number;
+            no_show_count: number;
             performance_rating?: number;
           }[];
         };
+        member_attendance: {
+          user_id: string;
+          username: string;
+          total_events: number;
+          attended: number;
+          no_shows: number;
+          unmarked: number;
+          attendance_rate: number;
+          no_show_rate: number;
+        }[];
         skill_development: {
           skills_demonstrated: string[];
           skill_verifications_earned: number;
@@ -3287,6 +4061,86 @@ export const apiSlice = createApi({
         { type: 'ScPlayer', id: 'LIST' }, // Invalidate all player caches
       ],
     }),
+
+    // Watchlist endpoints
+    getWatchlists: builder.query<import('../types/reputation').Watchlist[], void>({
+      query: () => '/api/reputation/watchlists',
+      transformResponse: (response: ApiSuccessResponse<import('../types/reputation').Watchlist[]>) =>
+        response.data,
+      providesTags: result => [
+        ...(result?.map(({ id }) => ({ type: 'Watchlist' as const, id })) ?? []),
+        { type: 'Watchlist', id: 'LIST' },
+      ],
+    }),
+
+    getWatchlist: builder.query<import('../types/reputation').WatchlistWithEntries, string>({
+      query: watchlistId => `/api/reputation/watchlists/${watchlistId}`,
+      transformResponse: (response: ApiSuccessResponse<import('../types/reputation').WatchlistWithEntries>) =>
+        response.data,
+      providesTags: (_result, _error, watchlistId) => [{ type: 'Watchlist', id: watchlistId }],
+    }),
+
+    createWatchlist: builder.mutation<
+      import('../types/reputation').Watchlist,
+      import('../types/reputation').CreateWatchlistData
+    >({
+      query: data => ({
+        url: '/api/reputation/watchlists',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/reputation').Watchlist>) =>
+        response.data,
+      invalidatesTags: [{ type: 'Watchlist', id: 'LIST' }],
+    }),
+
+    deleteWatchlist: builder.mutation<void, string>({
+      query: watchlistId => ({
+        url: `/api/reputation/watchlists/${watchlistId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_result, _error, watchlistId) => [
+        { type: 'Watchlist', id: watchlistId },
+        { type: 'Watchlist', id: 'LIST' },
+      ],
+    }),
+
+    addWatchlistEntry: builder.mutation<
+      import('../types/reputation').WatchlistEntry,
+      { watchlistId: string; data: import('../types/reputation').AddWatchlistEntryData }
+    >({
+      query: ({ watchlistId, data }) => ({
+        url: `/api/reputation/watchlists/${watchlistId}/entries`,
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: ApiSuccessResponse<import('../types/reputation').WatchlistEntry>) =>
+        response.data,
+      invalidatesTags: (_result, _error, { watchlistId }) => [
+        { type: 'Watchlist', id: watchlistId },
+        { type: 'Watchlist', id: 'LIST' },
+      ],
+    }),
+
+    removeWatchlistEntry: builder.mutation<void, { watchlistId: string; entryId: string }>({
+      query: ({ watchlistId, entryId }) => ({
+        url: `/api/reputation/watchlists/${watchlistId}/entries/${entryId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: (_result, _error, { watchlistId }) => [
+        { type: 'Watchlist', id: watchlistId },
+        { type: 'Watchlist', id: 'LIST' },
+      ],
+    }),
+
+    // Returns the file contents as text so the page can offer it as a download
+    exportWatchlist: builder.query<string, { watchlistId: string; format: 'csv' | 'json' }>({
+      query: ({ watchlistId, format }) => ({
+        url: `/api/reputation/watchlists/${watchlistId}/export?format=${format}`,
+        responseHandler: 'text',
+      }),
+      keepUnusedDataFor: 0,
+    }),
   }),
 });
 
@@ -3317,6 +4171,7 @@ export const {
   // Event hooks
   useGetEventsQuery,
   useGetEventQuery,
+  useGetEventSeriesQuery,
   useCreateEventMutation,
   useUpdateEventMutation,
   useSendEventNotificationMutation,
@@ -3331,11 +4186,27 @@ export const {
   useGetEventsByOrganizationQuery,
   useRegisterForEventMutation,
   useUnregisterFromEventMutation,
+  useGetMyEventRegistrationQuery,
+  useGetEventSlotsQuery,
+  useConfirmEventRegistrationMutation,
   useGetEventRegistrationsQuery,
   useGetUserEventsQuery,
   useGetUpcomingEventsQuery,
   useGetPrivateEventsQuery,
 
+  // Event attendance hooks
+  useGetEventAttendanceQuery,
+  useMarkEventAttendanceMutation,
+  useOpenEventCheckInMutation,
+  useCloseEventCheckInMutation,
+  useCheckInToEventMutation,
+  useGetMemberAttendanceQuery,
+
+  // Calendar feed hooks
+  useGetCalendarFeedTokenQuery,
+  useRotateCalendarFeedTokenMutation,
+  useRevokeCalendarFeedTokenMutation,
+
   // Home page hooks
   useGetFeaturedOrganizationsQuery,
   useGetHomePageStatsQuery,
@@ -3360,6 +4231,12 @@ export const {
   useLeaveOrganizationMutation,
   useToggleOrganizationVisibilityMutation,
 
+  // Account lifecycle hooks
+  useLazyExportAccountDataQuery,
+  useGetAccountDeletionQuery,
+  useRequestAccountDeletionMutation,
+  useCancelAccountDeletionMutation,
+
   // Authentication hooks
   useLoginWithDiscordMutation,
 
@@ -3381,6 +4258,8 @@ export const {
   useDeleteRoleMutation,
   useGetOrganizationMembersQuery,
   useAssignRoleMutation,
+  useAddMemberRoleMutation,
+  useRemoveMemberRoleMutation,
   useRemoveMemberMutation,
   useGetInviteCodesQuery,
   useGenerateInviteCodeMutation,
@@ -3444,6 +4323,15 @@ export const {
   useRemoveAltAccountReportVoteMutation,
   useRemoveAffiliatedPeopleReportVoteMutation,
 
+  // Watchlist hooks
+  useGetWatchlistsQuery,
+  useGetWatchlistQuery,
+  useCreateWatchlistMutation,
+  useDeleteWatchlistMutation,
+  useAddWatchlistEntryMutation,
+  useRemoveWatchlistEntryMutation,
+  useLazyExportWatchlistQuery,
+
   // HR System hooks
 
   // HR Analytics hooks
@@ -3455,6 +4343,26 @@ export const {
   useCreateApplicationMutation,
   useUpdateApplicationStatusMutation,
   useBulkUpdateApplicationsMutation,
+  useVetApplicantsMutation,
+  useRevetApplicationMutation,
+  useGetApplicationFormsQuery,
+  useGetApplicationFormVersionQuery,
+  useCreateApplicationFormMutation,
+  useUpdateApplicationFormMutation,
+  useArchiveApplicationFormMutation,
+  useGetRecruitmentPipelineQuery,
+  useUpdatePipelineStagesMutation,
+  useCreatePipelineRuleMutation,
+  useUpdatePipelineRuleMutation,
+  useDeletePipelineRuleMutation,
+  useMoveApplicationToStageMutation,
+  useGetInterviewSlotsQuery,
+  usePublishInterviewSlotMutation,
+  useCancelInterviewSlotMutation,
+  useGetOpenInterviewSlotsQuery,
+  useGetApplicationInterviewQuery,
+  useBookInterviewSlotMutation,
+  useRecordInterviewNotesMutation,
 
   // Onboarding Management hooks
   useGetOnboardingTemplatesQuery,
@@ -3463,6 +4371,19 @@ export const {
   useUpdateOnboardingProgressMutation,
   useCompleteOnboardingTaskMutation,
 
+  // Mentorship hooks
+  useGetMentorProfileQuery,
+  useUpdateMentorProfileMutation,
+  useGetMentorsQuery,
+  useGetMentorMatchesQuery,
+  useAssignMentorMutation,
+  useGetMentorshipsQuery,
+  useGetMyMentorshipsQuery,
+  useGetMentorshipQuery,
+  useEndMentorshipMutation,
+  useCompleteMentorshipCheckInMutation,
+  useAddMentorshipNoteMutation,
+
   // Performance Review hooks
   useGetPerformanceReviewsQuery,
   useCreatePerformanceReviewMutation,
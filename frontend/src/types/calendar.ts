@@ -0,0 +1,16 @@
+export interface CalendarFeedUrls {
+  registrations: string;
+  organizations: Array<{
+    rsi_org_id: string;
+    name: string;
+    url: string;
+  }>;
+}
+
+export interface CalendarFeedToken {
+  token: string;
+  created_at: string;
+  updated_at: string;
+  last_used_at?: string | null;
+  urls: CalendarFeedUrls;
+}
@@ -13,9 +13,14 @@ export interface Event {
   playstyle_tags: string[];
   activity_tags: string[];
   max_participants?: number;
+  waitlist_confirmation_minutes?: number | null;
   is_public: boolean;
   is_active: boolean;
   registration_deadline?: number; // Unix timestamp from API
+  // Recurring series information (null for one-off events)
+  series_id?: string | null;
+  occurrence_start?: string | null;
+  is_series_exception?: boolean;
   created_at: number; // Unix timestamp from API
   updated_at: number; // Unix timestamp from API
   // Creator information (when joined with users table)
@@ -29,6 +34,16 @@ export interface EventRegistration {
   user_id: string;
   status: RegistrationStatus;
   notes?: string;
+  // Slot claimed by the participant (null for general sign-ups)
+  slot_id?: string | null;
+  slot_name?: string | null;
+  // Waitlist information (only set while waitlisted or awaiting confirmation)
+  waitlist_position?: number | null;
+  promoted_at?: string | null;
+  confirmation_expires_at?: string | null;
+  // Attendance information (set once attendance is recorded)
+  checked_in_at?: string | null;
+  attendance_source?: EventAttendanceSource | null;
   registered_at: Date;
   updated_at: Date;
 }
@@ -38,6 +53,86 @@ export enum RegistrationStatus {
   CONFIRMED = 'confirmed',
   ATTENDED = 'attended',
   CANCELLED = 'cancelled',
+  WAITLISTED = 'waitlisted',
+  NO_SHOW = 'no_show',
+}
+
+// Slot definition sent when creating or updating an event
+export interface EventSlotInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  capacity: number;
+  required_skill_ids?: string[];
+}
+
+export interface EventSlotParticipant {
+  user_id: string;
+  username: string;
+  avatar_url?: string | null;
+  status: RegistrationStatus;
+  waitlist_position?: number | null;
+}
+
+export interface EventSlot {
+  id: string;
+  event_id: string;
+  name: string;
+  description?: string | null;
+  capacity: number;
+  required_skill_ids: string[];
+  required_skills: { id: string; name: string }[];
+  sort_order: number;
+  filled: number;
+  waitlisted: number;
+  participants: EventSlotParticipant[];
+}
+
+export type EventAttendanceStatus = 'attended' | 'no_show';
+
+export type EventAttendanceSource = 'organizer' | 'check_in_code' | 'discord';
+
+export interface EventAttendanceRosterEntry extends EventRegistration {
+  username?: string;
+  avatar_url?: string;
+}
+
+export interface EventAttendanceSummary {
+  total_registered: number;
+  attended: number;
+  no_shows: number;
+  unmarked: number;
+}
+
+export interface EventCheckInCode {
+  code: string;
+  expires_at: string;
+}
+
+export interface EventAttendanceRoster {
+  roster: EventAttendanceRosterEntry[];
+  summary: EventAttendanceSummary;
+  check_in_code: EventCheckInCode | null;
+}
+
+export interface UserAttendanceRecord {
+  event_id: string;
+  event_title: string;
+  start_time: string;
+  end_time: string;
+  status: RegistrationStatus;
+  checked_in_at?: string | null;
+}
+
+export interface UserAttendanceHistory {
+  user_id: string;
+  total_events: number;
+  attended: number;
+  no_shows: number;
+  unmarked: number;
+  attendance_rate: number;
+  no_show_rate: number;
+  events: UserAttendanceRecord[];
 }
 
 export interface EventTag {
@@ -79,10 +174,43 @@ export interface CreateEventData {
   playstyle_tags?: string[];
   activity_tags?: string[];
   max_participants?: number;
+  waitlist_confirmation_minutes?: number | null;
   is_public?: boolean;
   registration_deadline?: Date;
+  recurrence?: EventRecurrenceRule;
+  slots?: EventSlotInput[];
 }
 
 export interface UpdateEventData extends Partial<CreateEventData> {
   id: string;
+  scope?: EventSeriesEditScope;
+}
+
+export type EventRecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface EventRecurrenceRule {
+  frequency: EventRecurrenceFrequency;
+  by_weekday?: number[]; // 0 = Sunday ... 6 = Saturday
+  week_of_month?: number; // Monthly only: 1-4, or -1 for the last week
+  until?: string;
+  count?: number;
+  exceptions?: string[];
+}
+
+export type EventSeriesEditScope = 'this' | 'following' | 'all';
+
+export interface EventSeries {
+  id: string;
+  recurrence: EventRecurrenceRule;
+  series_start: string;
+  duration_minutes: number;
+  generated_until?: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EventSeriesWithOccurrences {
+  series: EventSeries;
+  occurrences: Event[];
 }
@@ -1,5 +1,7 @@
 // HR System Types for Frontend
 
+import type { PlayerVettingSummary } from './reputation';
+
 // Application Management Types
 export interface Application {
   id: string;
@@ -11,11 +13,24 @@ export interface Application {
     experience?: string;
     availability?: string;
     custom_fields?: Record<string, any>;
+    // Answers keyed by question ID, for applications submitted through a form
+    answers?: Record<string, ApplicationAnswer>;
   };
+  // The application form and the version of it the applicant answered
+  form_id?: string | null;
+  form_version?: number | null;
   reviewer_id?: string;
   review_notes?: string;
   rejection_reason?: string;
   invite_code?: string;
+  // Background check on the applicant, set shortly after submission
+  vetting_summary?: PlayerVettingSummary | null;
+  vetted_at?: string | null;
+  // Pipeline stage the application is in and the recruiter it is assigned to
+  stage_id?: string | null;
+  stage_name?: string | null;
+  assignee_id?: string | null;
+  assignee_rsi_handle?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -34,6 +49,184 @@ export interface CreateApplicationData {
   experience?: string;
   availability?: string;
   custom_fields?: Record<string, any>;
+  answers?: Record<string, ApplicationAnswer>;
+  form_id?: string;
+  form_version?: number;
+}
+
+// Application Form Types
+export type ApplicationQuestionType =
+  | 'short_text'
+  | 'long_text'
+  | 'single_choice'
+  | 'multi_choice'
+  | 'ship_ownership'
+  | 'timezone'
+  | 'rsi_handle_confirmation';
+
+export interface ApplicationFormQuestion {
+  id: string;
+  type: ApplicationQuestionType;
+  label: string;
+  description?: string;
+  required: boolean;
+  options?: string[];
+  max_length?: number;
+  // Only shown when an earlier choice question has one of these answers
+  visible_when?: {
+    question_id: string;
+    values: string[];
+  };
+}
+
+export type ApplicationAnswer = string | string[];
+
+export interface ApplicationForm {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  current_version: number;
+  is_active: boolean;
+  questions: ApplicationFormQuestion[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ApplicationFormData {
+  name?: string;
+  description?: string;
+  is_active?: boolean;
+  // New questions leave their id empty and get one from the server
+  questions?: Array<Omit<ApplicationFormQuestion, 'id'> & { id?: string }>;
+}
+
+// Recruitment Pipeline Types
+export type ApplicationStatus = Application['status'];
+
+export interface PipelineStage {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  // The application status applications in this stage have
+  status: ApplicationStatus;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelineStageData {
+  // Existing stages keep their id so applications stay in them
+  id?: string;
+  name: string;
+  description?: string | null;
+  status: ApplicationStatus;
+}
+
+export type PipelineRuleTrigger =
+  | 'application_submitted'
+  | 'status_changed'
+  | 'stage_entered'
+  | 'idle';
+
+export interface PipelineRuleConditions {
+  status?: ApplicationStatus;
+  stage_id?: string;
+  // Idle rules: days since the application last changed
+  idle_days?: number;
+}
+
+export type PipelineRuleAction =
+  | { type: 'reject'; reason: string }
+  | { type: 'move_to_stage'; stage_id: string }
+  | { type: 'assign_round_robin'; recruiter_ids: string[] }
+  | { type: 'generate_invite_code' }
+  | { type: 'assign_role'; role_id: string }
+  | { type: 'start_onboarding'; template_id: string };
+
+export interface PipelineRule {
+  id: string;
+  organization_id: string;
+  name: string;
+  trigger: PipelineRuleTrigger;
+  conditions: PipelineRuleConditions;
+  actions: PipelineRuleAction[];
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PipelineRuleData {
+  name: string;
+  trigger: PipelineRuleTrigger;
+  conditions: PipelineRuleConditions;
+  actions: PipelineRuleAction[];
+  is_active?: boolean;
+}
+
+export interface RecruitmentPipeline {
+  stages: PipelineStage[];
+  rules: PipelineRule[];
+}
+
+export interface MoveApplicationStageData {
+  stage_id: string;
+  notes?: string;
+  rejection_reason?: string;
+}
+
+// Interview Scheduling Types
+export type InterviewSlotStatus = 'open' | 'booked' | 'completed' | 'cancelled';
+
+export type InterviewRecommendation = 'strong_yes' | 'yes' | 'no' | 'strong_no';
+
+export type InterviewCriterion =
+  | 'communication'
+  | 'experience'
+  | 'teamwork'
+  | 'availability';
+
+export interface InterviewNotes {
+  summary: string;
+  strengths?: string;
+  concerns?: string;
+  // 1 to 5 for each criterion the interviewer scored
+  ratings?: Partial<Record<InterviewCriterion, number>>;
+}
+
+export interface InterviewSlot {
+  id: string;
+  organization_id: string;
+  interviewer_id: string;
+  interviewer_rsi_handle?: string;
+  start_time: string;
+  end_time: string;
+  status: InterviewSlotStatus;
+  application_id?: string | null;
+  applicant_rsi_handle?: string | null;
+  booked_at?: string | null;
+  // Booking the slot creates a private Discord voice channel event
+  create_discord_event: boolean;
+  discord_event_id?: string | null;
+  // Only returned to members who manage applications
+  notes?: InterviewNotes | null;
+  recommendation?: InterviewRecommendation | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PublishInterviewSlotData {
+  start_time: string;
+  end_time: string;
+  create_discord_event?: boolean;
+}
+
+export interface RecordInterviewNotesData {
+  notes: InterviewNotes;
+  recommendation: InterviewRecommendation;
 }
 
 export interface UpdateApplicationStatusData {
@@ -54,6 +247,13 @@ export interface OnboardingTemplate {
   updated_at: string;
 }
 
+export type OnboardingTrainingType = 'onboarding' | 'skill_development' | 'leadership' | 'compliance';
+
+export type OnboardingTaskTrigger =
+  | { type: 'document_acknowledged'; document_id: string }
+  | { type: 'training_attended'; training_type?: OnboardingTrainingType }
+  | { type: 'skill_verified'; skill_id: string };
+
 export interface OnboardingTask {
   id: string;
   title: string;
@@ -61,6 +261,20 @@ export interface OnboardingTask {
   required: boolean;
   estimated_hours: number;
   order_index: number;
+  // Tasks that have to be completed before this one unlocks
+  depends_on?: string[];
+  // Days after onboarding starts that the task is due
+  due_offset_days?: number;
+  // The new member completes the task unless a user or role is assigned
+  assignee_type?: 'member' | 'user' | 'role';
+  assignee_id?: string;
+  completion_trigger?: OnboardingTaskTrigger;
+}
+
+export interface OnboardingTaskCompletion {
+  completed_by: string | null;
+  completed_at: string;
+  source: 'manual' | 'trigger';
 }
 
 export interface OnboardingProgress {
@@ -70,6 +284,7 @@ export interface OnboardingProgress {
   template_id: string;
   status: 'not_started' | 'in_progress' | 'completed' | 'overdue';
   completed_tasks: string[];
+  task_completions?: Record<string, OnboardingTaskCompletion>;
   completion_percentage: number;
   started_at: string;
   completed_at?: string;
@@ -87,6 +302,100 @@ export interface UpdateOnboardingProgressData {
   completed_tasks: string[];
 }
 
+// Mentorship Types
+export type MentorshipStatus = 'active' | 'ended';
+
+export type MentorAssignmentMethod = 'manual' | 'matched';
+
+export interface MentorProfile {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  is_mentor: boolean;
+  max_mentees: number;
+  timezone?: string | null;
+  languages: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MentorProfileWithLoad extends MentorProfile {
+  rsi_handle: string;
+  active_mentees: number;
+}
+
+export interface UpdateMentorProfileData {
+  is_mentor?: boolean;
+  max_mentees?: number;
+  timezone?: string;
+  languages?: string[];
+}
+
+export interface MentorMatch {
+  mentor: MentorProfileWithLoad;
+  score: number;
+  shared_skill_ids: string[];
+  timezone_difference_hours?: number | null;
+  shared_languages: string[];
+}
+
+export interface MentorshipCheckIn {
+  id: string;
+  mentorship_id: string;
+  scheduled_for: string;
+  completed_at?: string | null;
+  completed_by?: string | null;
+  reminder_sent_at?: string | null;
+}
+
+export interface MentorshipNote {
+  id: string;
+  mentorship_id: string;
+  author_id: string;
+  author_rsi_handle?: string;
+  check_in_id?: string | null;
+  content: string;
+  created_at: string;
+}
+
+export interface Mentorship {
+  id: string;
+  organization_id: string;
+  progress_id: string;
+  mentee_id: string;
+  mentee_rsi_handle: string;
+  mentor_id: string;
+  mentor_rsi_handle: string;
+  status: MentorshipStatus;
+  assignment_method: MentorAssignmentMethod;
+  match_score?: number | null;
+  check_in_interval_days: number;
+  started_at: string;
+  ended_at?: string | null;
+  end_reason?: string | null;
+  next_check_in_id?: string | null;
+  next_check_in_at?: string | null;
+  check_ins?: MentorshipCheckIn[];
+  notes?: MentorshipNote[];
+}
+
+export interface AssignMentorData {
+  mentor_id?: string;
+  check_in_interval_days?: number;
+}
+
+export interface CompletedMentorshipCheckIn {
+  check_in: MentorshipCheckIn;
+  next_check_in: MentorshipCheckIn;
+  note: MentorshipNote | null;
+}
+
+export interface MentorshipFilters {
+  status?: MentorshipStatus;
+  mentor_id?: string;
+  mentee_id?: string;
+}
+
 // Performance Management Types
 export interface PerformanceReview {
   id: string;
@@ -268,9 +577,26 @@ export interface HRAnalytics {
       average_tenure_days: number;
       exit_reasons: Record<string, number>;
     };
+    mentorship?: {
+      active_mentorships: number;
+      available_mentors: number;
+      mentors_at_capacity: number;
+      average_mentees_per_mentor: number;
+      members_without_mentor: number;
+      check_in_completion_rate: number;
+      overdue_check_ins: number;
+      load_by_mentor: MentorLoad[];
+    };
   };
 }
 
+export interface MentorLoad {
+  mentor_id: string;
+  mentor_handle: string;
+  active_mentees: number;
+  max_mentees: number;
+}
+
 export interface SkillGap {
   skill_name: string;
   required_count: number;
@@ -353,6 +679,8 @@ export interface DocumentListResponse {
 export interface ApplicationFilters {
   status?: 'pending' | 'under_review' | 'interview_scheduled' | 'approved' | 'rejected';
   reviewer_id?: string;
+  stage_id?: string;
+  assignee_id?: string;
   date_from?: string;
   date_to?: string;
 }
@@ -408,15 +736,29 @@ export interface HREventAnalytics {
   event_participation: {
     total_events: number;
     attended_events: number;
+    no_show_events: number;
     attendance_rate: number;
+    no_show_rate: number;
     recent_events: {
       event_id: string;
       event_title: string;
       event_date: string;
       attended: boolean;
+      attended_count: number;
+      no_show_count: number;
       performance_rating?: number;
     }[];
   };
+  member_attendance: {
+    user_id: string;
+    username: string;
+    total_events: number;
+    attended: number;
+    no_shows: number;
+    unmarked: number;
+    attendance_rate: number;
+    no_show_rate: number;
+  }[];
   skill_development: {
     skills_demonstrated: string[];
     skill_verifications_earned: number;
@@ -446,7 +788,7 @@ export interface EventBasedSkillVerification {
 export interface HRActivity {
   id: string;
   organization_id: string;
-  activity_type: 'application_submitted' | 'application_status_changed' | 'onboarding_completed' | 'performance_review_submitted' | 'skill_verified' | 'document_acknowledged';
+  activity_type: 'application_submitted' | 'application_status_changed' | 'onboarding_completed' | 'performance_review_submitted' | 'skill_verified' | 'document_acknowledged' | 'mentor_assigned' | 'mentor_unassigned';
   user_id: string;
   user_handle: string;
   user_avatar_url?: string;
@@ -459,6 +801,11 @@ export interface HRActivity {
     document_id?: string;
     old_status?: string;
     new_status?: string;
+    mentorship_id?: string;
+    mentor_id?: string;
+    mentor_handle?: string;
+    previous_mentor_id?: string;
+    previous_mentor_handle?: string;
   };
   created_at: string;
 }
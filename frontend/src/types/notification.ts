@@ -17,6 +17,7 @@ export enum NotificationEntityType {
   EVENT_UNREGISTERED = 14,
   EVENT_STARTING_SOON = 15,
   EVENT_REMINDER = 16,
+  EVENT_WAITLIST_PROMOTED = 17,
 
   // Comment related notifications
   COMMENT_CREATED = 20,
@@ -33,6 +34,7 @@ export enum NotificationEntityType {
   SYSTEM_ANNOUNCEMENT = 40,
   SYSTEM_MAINTENANCE = 41,
   SYSTEM_UPDATE = 42,
+  SYSTEM_DIGEST = 43,
 
   // Security notifications
   SECURITY_LOGIN = 50,
@@ -74,6 +76,28 @@ export enum NotificationEntityType {
   // HR Analytics notifications
   HR_ANALYTICS_ALERT = 110,
   HR_METRICS_THRESHOLD_EXCEEDED = 111,
+
+  // Reputation notifications
+  REPUTATION_PLAYER_HANDLE_CHANGED = 120,
+  REPUTATION_PLAYER_ORG_CHANGED = 121,
+  REPUTATION_WATCHED_PLAYER_REPORTED = 122,
+  REPUTATION_WATCHED_PLAYER_TAGGED = 123,
+  REPUTATION_WATCHED_PLAYER_COMMENTED = 124,
+  REPUTATION_WATCHED_PLAYER_CORROBORATED = 125,
+  REPUTATION_WATCHED_ORG_REPORTED = 126,
+  REPUTATION_WATCHED_ORG_MEMBERSHIP_CHANGED = 127,
+
+  // HR Interview notifications
+  HR_INTERVIEW_SCHEDULED = 130,
+  HR_INTERVIEW_REMINDER = 131,
+  HR_INTERVIEW_CANCELLED = 132,
+
+  // HR Onboarding task notifications
+  HR_ONBOARDING_TASK_ASSIGNED = 133,
+
+  // HR Mentorship notifications
+  HR_MENTOR_ASSIGNED = 134,
+  HR_MENTORSHIP_CHECK_IN_REMINDER = 135,
 }
 
 // Core notification database entities
@@ -155,20 +179,53 @@ export interface NotificationListResponse {
   unread_count: number;
 }
 
+export type NotificationChannel = 'in_app' | 'discord_dm' | 'email_digest';
+
+export interface NotificationTypeInfo {
+  // Backend NotificationEntityType value
+  entity_type: number;
+  label: string;
+  category: string;
+  // Channels that always deliver this type
+  locked_channels: NotificationChannel[];
+}
+
+export interface NotificationPreferenceEntry {
+  // Organization the override applies to, null for the global preference
+  rsi_org_id: string | null;
+  entity_type: number;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export type NotificationDigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationSettings {
+  timezone: string;
+  quiet_hours_enabled: boolean;
+  // HH:MM in the user's timezone
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  digest_frequency: NotificationDigestFrequency;
+}
+
 export interface NotificationPreferences {
-  email_notifications: boolean;
-  push_notifications: boolean;
-  organization_updates: boolean;
-  event_reminders: boolean;
-  security_alerts: boolean;
-  marketing: boolean;
-  // HR-specific notification preferences
-  hr_application_updates: boolean;
-  hr_onboarding_reminders: boolean;
-  hr_performance_reviews: boolean;
-  hr_skill_verifications: boolean;
-  hr_document_updates: boolean;
-  hr_analytics_alerts: boolean;
+  channels: NotificationChannel[];
+  defaults: Record<NotificationChannel, boolean>;
+  types: NotificationTypeInfo[];
+  preferences: NotificationPreferenceEntry[];
+  settings: NotificationSettings;
+}
+
+export interface UpdateNotificationPreferencesRequest {
+  preferences?: Array<{
+    rsi_org_id?: string | null;
+    entity_type: number;
+    channel: NotificationChannel;
+    // null clears the choice so the global preference or default applies
+    enabled: boolean | null;
+  }>;
+  settings?: Partial<NotificationSettings>;
 }
 
 // Notification statistics
@@ -10,6 +10,38 @@ export interface ScPlayer {
   is_active: boolean;
   created_at: string;
   updated_at: string;
+  // Included in player search results
+  reputation?: PlayerReputationScore;
+}
+
+// Computed reputation score types
+export interface ReputationScoreFactor {
+  source: 'tag' | 'report';
+  id: string;
+  label: string;
+  polarity: 'positive' | 'negative';
+  support_weight: number;
+  dispute_weight: number;
+  decay: number;
+  contribution: number;
+}
+
+export interface ReputationScoreBreakdown {
+  raw_score: number;
+  positive: number;
+  negative: number;
+  attestation_count: number;
+  effective_attestations: number;
+  factors: ReputationScoreFactor[];
+}
+
+export interface PlayerReputationScore {
+  player_id: string;
+  // 0-100, where 50 is neutral
+  score: number;
+  confidence: 'low' | 'medium' | 'high';
+  breakdown: ReputationScoreBreakdown;
+  computed_at: string;
 }
 
 export interface PlayerHandleHistory {
@@ -135,6 +167,7 @@ export interface PlayerDetails {
   comments: PlayerCommentWithAttestations[];
   reputationScore: number;
   confidenceLevel: 'low' | 'medium' | 'high';
+  reputationBreakdown: ReputationScoreBreakdown;
 }
 
 // Request/Response types
@@ -381,4 +414,102 @@ export interface AffiliatedPeopleReportWithCorroborations extends AffiliatedPeop
     dispute: number;
     neutral: number;
   };
-}
\ No newline at end of file
+}
+// Watchlists
+export type WatchlistEntryType = 'player' | 'organization';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string;
+  organization_id: string | null; // Set when shared with an organization
+  organization_name: string | null;
+  is_default: boolean;
+  entry_count: number;
+  can_manage: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WatchlistEntry {
+  id: string;
+  watchlist_id: string;
+  entry_type: WatchlistEntryType;
+  player_id: string | null;
+  player_spectrum_id: string | null;
+  player_handle: string | null;
+  player_display_name: string | null;
+  org_spectrum_id: string | null;
+  org_name: string | null;
+  note: string | null;
+  added_by: string | null;
+  created_at: string;
+}
+
+export interface WatchlistWithEntries {
+  watchlist: Watchlist;
+  entries: WatchlistEntry[];
+}
+
+export interface CreateWatchlistData {
+  name: string;
+  description?: string;
+  organization_id?: string;
+}
+
+export interface AddWatchlistEntryData {
+  entry_type: WatchlistEntryType;
+  spectrum_id?: string;
+  org_spectrum_id?: string;
+  org_name?: string;
+  note?: string;
+}
+
+// Player vetting
+export type VettingStatus = 'found' | 'not_found' | 'unavailable';
+
+export type VettingRiskLevel = 'clear' | 'caution' | 'high';
+
+export interface VettingOrganization {
+  org_spectrum_id: string | null;
+  org_name: string;
+  role: string | null;
+  is_current: boolean;
+  first_observed_at: string;
+  last_observed_at: string;
+  // Organization reports naming this organization, against any player
+  approved_report_count: number;
+  open_report_count: number;
+}
+
+export interface VettingAffiliationReport {
+  report_id: string;
+  org_spectrum_id: string;
+  org_name: string | null;
+  status: 'pending' | 'approved' | 'rejected' | 'disputed';
+  corroboration_count: number;
+}
+
+export interface VettingAltAccount {
+  report_id: string;
+  // 'alt' names an alt of the vetted player, 'main' a player they were reported as an alt of
+  relation: 'alt' | 'main';
+  handle: string;
+  spectrum_id: string | null;
+  status: 'pending' | 'approved' | 'rejected' | 'disputed';
+  corroboration_count: number;
+}
+
+export interface PlayerVettingSummary {
+  handle: string;
+  status: VettingStatus;
+  player: Pick<ScPlayer, 'id' | 'spectrum_id' | 'current_handle' | 'current_display_name'> | null;
+  reputation: Pick<PlayerReputationScore, 'score' | 'confidence'> | null;
+  organizations: VettingOrganization[];
+  affiliation_reports: VettingAffiliationReport[];
+  alt_accounts: VettingAltAccount[];
+  risk_level: VettingRiskLevel;
+  flags: string[];
+  vetted_at: string;
+}
@@ -75,3 +75,48 @@ export interface DiscordProfile {
   discriminator?: string;
   avatar?: string;
 }
+
+// Account lifecycle
+
+export type AccountDeletionStatus =
+  | 'pending'
+  | 'cancelled'
+  | 'completed'
+  | 'blocked';
+
+export interface OrganizationTransfer {
+  organization_id: string;
+  new_owner_id: string;
+}
+
+export interface AccountDeletionRequest {
+  id: string;
+  user_id: string;
+  status: AccountDeletionStatus;
+  reason: string | null;
+  organization_transfers: OrganizationTransfer[];
+  scheduled_for: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+  blocked_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateAccountDeletionRequest {
+  reason?: string;
+  organization_transfers?: OrganizationTransfer[];
+}
+
+export interface OwnedOrganization {
+  id: string;
+  name: string;
+  rsi_org_id: string;
+  transfer_candidates: { id: string; rsi_handle: string }[];
+}
+
+export interface AccountDeletionStatusResponse {
+  request: AccountDeletionRequest | null;
+  owned_organizations: OwnedOrganization[];
+  grace_period_days: number;
+}
@@ -28,7 +28,7 @@ export class NotificationRouter {
     // Event-related notifications
     if (
       entityType >= NotificationEntityType.EVENT_CREATED &&
-      entityType <= NotificationEntityType.EVENT_REMINDER
+      entityType <= NotificationEntityType.EVENT_WAITLIST_PROMOTED
     ) {
       return {
         path: `/events/${entityId}`,
@@ -80,6 +80,14 @@ export class NotificationRouter {
       };
     }
 
+    // Digests summarize the notification list
+    if (entityType === NotificationEntityType.SYSTEM_DIGEST) {
+      return {
+        path: `/notifications`,
+        shouldOpenInNewTab: false,
+      };
+    }
+
     // System notifications (no specific route)
     if (
       entityType >= NotificationEntityType.SYSTEM_ANNOUNCEMENT &&
@@ -102,7 +110,7 @@ export class NotificationRouter {
     // Event notifications
     if (
       entityType >= NotificationEntityType.EVENT_CREATED &&
-      entityType <= NotificationEntityType.EVENT_REMINDER
+      entityType <= NotificationEntityType.EVENT_WAITLIST_PROMOTED
     ) {
       return {
         route: route,
@@ -162,7 +170,7 @@ export class NotificationRouter {
     // System notifications
     if (
       entityType >= NotificationEntityType.SYSTEM_ANNOUNCEMENT &&
-      entityType <= NotificationEntityType.SYSTEM_UPDATE
+      entityType <= NotificationEntityType.SYSTEM_DIGEST
     ) {
       return {
         route: route,
@@ -241,6 +249,12 @@ export class NotificationRouter {
           action: 'Reminder',
           requiresEntityData: true,
         };
+      case NotificationEntityType.EVENT_WAITLIST_PROMOTED:
+        return {
+          category: 'Event',
+          action: 'Waitlist Promotion',
+          requiresEntityData: true,
+        };
 
       case NotificationEntityType.ORGANIZATION_CREATED:
         return {